@@ -16,6 +16,7 @@ import { AuthProvider } from "@/context/AuthContext";
 import { DataProvider } from "@/context/DataContext";
 import { ThemeProvider } from "@/context/ThemeContext";
 import { SubscriptionProvider } from "@/context/SubscriptionContext";
+import { LocationShareProvider } from "@/context/LocationShareContext";
 
 SplashScreen.preventAutoHideAsync();
 
@@ -52,6 +53,7 @@ export default function App() {
           <AuthProvider>
             <SubscriptionProvider>
               <DataProvider>
+              <LocationShareProvider>
               <SafeAreaProvider>
                 <GestureHandlerRootView style={styles.root}>
                   <KeyboardProvider>
@@ -62,6 +64,7 @@ export default function App() {
                   </KeyboardProvider>
                 </GestureHandlerRootView>
               </SafeAreaProvider>
+              </LocationShareProvider>
             </DataProvider>
             </SubscriptionProvider>
           </AuthProvider>
@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from "react";
+import { StyleSheet, View, Pressable } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { useTheme } from "@/hooks/useTheme";
+import { Activity } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+// Longest span a single event marks on the grid; the duration picker tops out at three months
+const MAX_SPAN_DAYS = 100;
+
+// Local calendar day as YYYY-MM-DD
+export function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Every day an activity touches, so a multi-day event shows up on each of them
+export function activityDayKeys(activity: Activity): string[] {
+  const start = new Date(activity.date);
+  const end = activity.endDate ? new Date(activity.endDate) : start;
+  const keys: string[] = [];
+  const cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  while (cursor.getTime() <= end.getTime() && keys.length < MAX_SPAN_DAYS) {
+    keys.push(dayKey(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return keys.length > 0 ? keys : [dayKey(start)];
+}
+
+interface Props {
+  activities: Activity[];
+  selectedDay: string | null;
+  onSelectDay: (day: string | null) => void;
+}
+
+export default function ActivityCalendar({ activities, selectedDay, onSelectDay }: Props) {
+  const { theme, isDark } = useTheme();
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const countsByDay = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const activity of activities) {
+      for (const key of activityDayKeys(activity)) {
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    }
+    return counts;
+  }, [activities]);
+
+  const cells = useMemo(() => {
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    const leading: (Date | null)[] = Array.from({ length: month.getDay() }, () => null);
+    const days = Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1));
+    return [...leading, ...days];
+  }, [month]);
+
+  const todayKey = dayKey(new Date());
+
+  const shiftMonth = (delta: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: isDark ? "#22201E" : theme.cardBackground }]}>
+      <View style={styles.monthRow}>
+        <Pressable onPress={() => shiftMonth(-1)} hitSlop={12} testID="button-calendar-previous">
+          <Icon name="chevron-back" size={20} color={theme.text} />
+        </Pressable>
+        <ThemedText type="h4">
+          {month.toLocaleDateString("en-US", { month: "long", year: "numeric" })}
+        </ThemedText>
+        <Pressable onPress={() => shiftMonth(1)} hitSlop={12} testID="button-calendar-next">
+          <Icon name="chevron-forward" size={20} color={theme.text} />
+        </Pressable>
+      </View>
+
+      <View style={styles.grid}>
+        {WEEKDAY_LABELS.map((label, index) => (
+          <View key={`label-${index}`} style={styles.cell}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>{label}</ThemedText>
+          </View>
+        ))}
+        {cells.map((date, index) => {
+          if (!date) return <View key={`empty-${index}`} style={styles.cell} />;
+          const key = dayKey(date);
+          const count = countsByDay.get(key) || 0;
+          const isSelected = key === selectedDay;
+          return (
+            <Pressable
+              key={key}
+              style={styles.cell}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                onSelectDay(isSelected ? null : key);
+              }}
+              testID={`button-calendar-day-${key}`}
+            >
+              <View
+                style={[
+                  styles.day,
+                  isSelected ? { backgroundColor: AppColors.primary } : null,
+                  !isSelected && key === todayKey ? { borderWidth: 1, borderColor: AppColors.primary } : null,
+                ]}
+              >
+                <ThemedText
+                  type="small"
+                  style={{ color: isSelected ? "#FFFFFF" : theme.text, fontWeight: count > 0 ? "700" : "400" }}
+                >
+                  {date.getDate()}
+                </ThemedText>
+              </View>
+              <View style={[styles.dot, { backgroundColor: count > 0 ? AppColors.accent : "transparent" }]} />
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+  },
+  monthRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: Spacing.sm,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    alignItems: "center",
+    paddingVertical: 4,
+  },
+  day: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dot: {
+    width: 5,
+    height: 5,
+    borderRadius: 2.5,
+    marginTop: 2,
+  },
+});
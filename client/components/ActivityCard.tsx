@@ -9,6 +9,7 @@ import Animated, {
 } from "react-native-reanimated";
 
 import { ThemedText } from "@/components/ThemedText";
+import { HostReputationBadge } from "@/components/HostReputationBadge";
 import { Activity } from "@/types";
 import { BorderRadius, Spacing, AppColors, Shadows } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
@@ -114,9 +115,12 @@ export function ActivityCard({ activity, onPress }: ActivityCardProps) {
               style={styles.hostAvatar}
               contentFit="cover"
             />
-            <ThemedText type="small" style={{ color: theme.textSecondary }}>
-              Hosted by {activity.host.name.split(" ")[0]}
-            </ThemedText>
+            <View>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Hosted by {activity.host.name.split(" ")[0]}
+              </ThemedText>
+              <HostReputationBadge reputation={activity.hostReputation} compact />
+            </View>
           </View>
 
           <View style={styles.attendeesInfo}>
@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView, Switch } from "react-native";
+import Slider from "@react-native-community/slider";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { ActivitySort } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const MAX_ACTIVITY_DISTANCE_KM = 500;
+const DEFAULT_ACTIVITY_DISTANCE_KM = 50;
+
+export type ActivityDateRange = "any" | "today" | "weekend" | "week" | "month";
+
+export interface ActivityFilterState {
+  sort: ActivitySort;
+  dateRange: ActivityDateRange;
+  radiusKm: number | null;
+  hasSpots: boolean;
+  verifiedHosts: boolean;
+}
+
+export const DEFAULT_ACTIVITY_FILTERS: ActivityFilterState = {
+  sort: "soonest",
+  dateRange: "any",
+  radiusKm: null,
+  hasSpots: false,
+  verifiedHosts: false,
+};
+
+const SORT_OPTIONS: { value: ActivitySort; label: string; icon: string }[] = [
+  { value: "soonest", label: "Soonest", icon: "clock" },
+  { value: "nearest", label: "Nearest", icon: "map-pin" },
+  { value: "popular", label: "Most popular", icon: "users" },
+];
+
+const DATE_RANGE_OPTIONS: { value: ActivityDateRange; label: string }[] = [
+  { value: "any", label: "Any time" },
+  { value: "today", label: "Today" },
+  { value: "weekend", label: "This weekend" },
+  { value: "week", label: "Next 7 days" },
+  { value: "month", label: "Next 30 days" },
+];
+
+export function countActiveActivityFilters(filters: ActivityFilterState) {
+  return [
+    filters.sort !== DEFAULT_ACTIVITY_FILTERS.sort,
+    filters.dateRange !== "any",
+    filters.radiusKm !== null,
+    filters.hasSpots,
+    filters.verifiedHosts,
+  ].filter(Boolean).length;
+}
+
+// Whether the search has to be made around the user's current position
+export function activityFiltersNeedLocation(filters: ActivityFilterState) {
+  return filters.sort === "nearest" || filters.radiusKm !== null;
+}
+
+// Local-time bounds for a preset; "This weekend" runs to the end of Sunday, or just today once it is Sunday
+export function activityDateRangeBounds(range: ActivityDateRange, now = new Date()): { from?: string; to?: string } {
+  if (range === "any") return {};
+  const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+  const plusDays = (days: number) => new Date(now.getFullYear(), now.getMonth(), now.getDate() + days);
+  if (range === "today") return { from: now.toISOString(), to: endOfDay(now).toISOString() };
+  if (range === "week") return { from: now.toISOString(), to: endOfDay(plusDays(6)).toISOString() };
+  if (range === "month") return { from: now.toISOString(), to: endOfDay(plusDays(29)).toISOString() };
+
+  const day = now.getDay();
+  const daysToSaturday = day === 0 ? -1 : 6 - day;
+  const saturday = plusDays(daysToSaturday);
+  const from = saturday.getTime() > now.getTime() ? saturday : now;
+  return { from: from.toISOString(), to: endOfDay(plusDays(day === 0 ? 0 : 7 - day)).toISOString() };
+}
+
+interface Props {
+  visible: boolean;
+  filters: ActivityFilterState;
+  isLocating?: boolean;
+  onClose: () => void;
+  onApply: (filters: ActivityFilterState) => void;
+}
+
+export default function ActivityFiltersModal({
+  visible,
+  filters,
+  isLocating,
+  onClose,
+  onApply,
+}: Props) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState<ActivityFilterState>(filters);
+
+  // Every opening starts from the applied filters, dropping unapplied edits
+  useEffect(() => {
+    if (visible) setDraft(filters);
+  }, [visible, filters]);
+
+  const update = (changes: Partial<ActivityFilterState>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, icon?: string) => (
+    <Pressable
+      key={key}
+      style={[styles.chip, { backgroundColor: selected ? AppColors.primary : theme.backgroundSecondary }]}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onPress();
+      }}
+      testID={`activity-filter-chip-${key}`}
+    >
+      {icon ? <Icon name={icon} size={14} color={selected ? "#FFFFFF" : theme.text} /> : null}
+      <ThemedText type="small" style={{ color: selected ? "#FFFFFF" : theme.text }}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <Pressable onPress={() => setDraft(DEFAULT_ACTIVITY_FILTERS)} hitSlop={12} testID="button-reset-activity-filters">
+              <ThemedText type="small" style={{ color: AppColors.primary }}>
+                Reset
+              </ThemedText>
+            </Pressable>
+            <ThemedText type="h4">Activity Filters</ThemedText>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <Icon name="x" size={22} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+            <View style={styles.section}>
+              <ThemedText type="body" style={styles.sectionTitle}>Sort by</ThemedText>
+              <View style={styles.chipGrid}>
+                {SORT_OPTIONS.map((option) =>
+                  renderChip(option.value, option.label, draft.sort === option.value, () => update({ sort: option.value }), option.icon),
+                )}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText type="body" style={styles.sectionTitle}>When</ThemedText>
+              <View style={styles.chipGrid}>
+                {DATE_RANGE_OPTIONS.map((option) =>
+                  renderChip(option.value, option.label, draft.dateRange === option.value, () => update({ dateRange: option.value })),
+                )}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <ThemedText type="body" style={styles.sectionTitle}>Maximum distance</ThemedText>
+                <Switch
+                  value={draft.radiusKm !== null}
+                  onValueChange={(value) => update({ radiusKm: value ? DEFAULT_ACTIVITY_DISTANCE_KM : null })}
+                  trackColor={{ true: AppColors.primary }}
+                  testID="switch-activity-distance"
+                />
+              </View>
+              {draft.radiusKm !== null ? (
+                <>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    Within {draft.radiusKm} km of where you are now
+                  </ThemedText>
+                  <Slider
+                    minimumValue={5}
+                    maximumValue={MAX_ACTIVITY_DISTANCE_KM}
+                    step={5}
+                    value={draft.radiusKm}
+                    onValueChange={(value) => update({ radiusKm: value })}
+                    minimumTrackTintColor={AppColors.primary}
+                    maximumTrackTintColor={theme.backgroundSecondary}
+                    thumbTintColor={AppColors.primary}
+                  />
+                </>
+              ) : (
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Any distance
+                </ThemedText>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <View style={styles.sectionLabel}>
+                  <ThemedText type="body" style={styles.sectionTitle}>Open spots only</ThemedText>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    Hide activities that are full
+                  </ThemedText>
+                </View>
+                <Switch
+                  value={draft.hasSpots}
+                  onValueChange={(value) => update({ hasSpots: value })}
+                  trackColor={{ true: AppColors.primary }}
+                  testID="switch-activity-has-spots"
+                />
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <View style={styles.sectionLabel}>
+                  <ThemedText type="body" style={styles.sectionTitle}>Verified hosts only</ThemedText>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    Only activities hosted by people with a travel badge
+                  </ThemedText>
+                </View>
+                <Switch
+                  value={draft.verifiedHosts}
+                  onValueChange={(value) => update({ verifiedHosts: value })}
+                  trackColor={{ true: AppColors.primary }}
+                  testID="switch-activity-verified-hosts"
+                />
+              </View>
+            </View>
+
+            {activityFiltersNeedLocation(draft) ? (
+              <ThemedText type="small" style={[styles.hint, { color: theme.textSecondary }]}>
+                Distance is measured from your current location, which is only used for this search.
+              </ThemedText>
+            ) : null}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <GradientButton onPress={() => onApply(draft)} disabled={isLocating}>
+              {isLocating ? "Finding you..." : "Show Results"}
+            </GradientButton>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    maxHeight: "88%",
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.lg,
+    gap: Spacing.xl,
+  },
+  section: {
+    gap: Spacing.sm,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: Spacing.md,
+  },
+  sectionLabel: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+  },
+  chipGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+  },
+  hint: {
+    textAlign: "center",
+  },
+  footer: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing["2xl"],
+  },
+});
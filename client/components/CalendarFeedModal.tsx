@@ -0,0 +1,164 @@
+import React from "react";
+import { StyleSheet, View, Modal, Pressable, ActivityIndicator } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { CalendarFeed } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface Props {
+  visible: boolean;
+  feed: CalendarFeed | null;
+  isLoading?: boolean;
+  isResetting?: boolean;
+  onClose: () => void;
+  onSubscribe: () => void;
+  onShare: () => void;
+  onReset: () => void;
+}
+
+export default function CalendarFeedModal({
+  visible,
+  feed,
+  isLoading,
+  isResetting,
+  onClose,
+  onSubscribe,
+  onShare,
+  onReset,
+}: Props) {
+  const { theme } = useTheme();
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <View style={{ width: 22 }} />
+            <ThemedText type="h4">Calendar Feed</ThemedText>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <Icon name="x" size={22} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View style={styles.content}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Subscribe once and every activity you host or join, plus your booked consultations, shows up in your
+              calendar app. Changed times and cancelled activities update there too.
+            </ThemedText>
+
+            {isLoading ? (
+              <ActivityIndicator color={AppColors.primary} />
+            ) : feed ? (
+              <View style={[styles.urlBox, { borderColor: theme.border, backgroundColor: theme.backgroundSecondary }]}>
+                <Icon name="lock" size={14} color={theme.textSecondary} />
+                <ThemedText type="small" numberOfLines={2} style={{ flex: 1, color: theme.textSecondary }} selectable>
+                  {feed.url}
+                </ThemedText>
+              </View>
+            ) : (
+              <ThemedText type="small" style={[styles.error, { color: AppColors.sunsetRose }]}>
+                Couldn&apos;t load your calendar link. Try again in a moment.
+              </ThemedText>
+            )}
+
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Anyone with this link can see your plans. Reset it if it ends up somewhere it shouldn&apos;t.
+            </ThemedText>
+
+            <View style={styles.secondaryRow}>
+              <Pressable
+                style={[styles.secondaryButton, { borderColor: theme.border, opacity: feed ? 1 : 0.4 }]}
+                onPress={onShare}
+                disabled={!feed}
+                testID="button-share-calendar-feed"
+              >
+                <Icon name="share" size={16} color={theme.text} />
+                <ThemedText type="small">Share Link</ThemedText>
+              </Pressable>
+              <Pressable
+                style={[styles.secondaryButton, { borderColor: theme.border, opacity: isResetting ? 0.4 : 1 }]}
+                onPress={onReset}
+                disabled={isResetting}
+                testID="button-reset-calendar-feed"
+              >
+                <Icon name="refresh-cw" size={16} color={AppColors.sunsetRose} />
+                <ThemedText type="small" style={{ color: AppColors.sunsetRose }}>
+                  {isResetting ? "Resetting..." : "Reset Link"}
+                </ThemedText>
+              </Pressable>
+            </View>
+          </View>
+
+          <View style={styles.footer}>
+            <GradientButton onPress={onSubscribe} disabled={!feed}>
+              Subscribe in Calendar
+            </GradientButton>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    maxHeight: "88%",
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.lg,
+    gap: Spacing.lg,
+  },
+  urlBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  secondaryRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  error: {
+    textAlign: "center",
+  },
+  footer: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing["2xl"],
+  },
+});
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ActivityIndicator } from "react-native";
+import QRCode from "react-native-qrcode-svg";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { useTheme } from "@/hooks/useTheme";
+import { ActivityCheckInCode } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const QR_SIZE = 220;
+
+interface Props {
+  visible: boolean;
+  checkedInCount: number;
+  attendeeCount: number;
+  loadCode: () => Promise<ActivityCheckInCode>;
+  onClose: () => void;
+}
+
+export default function CheckInCodeModal({
+  visible,
+  checkedInCount,
+  attendeeCount,
+  loadCode,
+  onClose,
+}: Props) {
+  const { theme } = useTheme();
+  const [code, setCode] = useState<ActivityCheckInCode | null>(null);
+  const [error, setError] = useState("");
+  const loadCodeRef = useRef(loadCode);
+  loadCodeRef.current = loadCode;
+
+  // Fetches a fresh code whenever the shown one expires, for as long as the sheet is open
+  useEffect(() => {
+    if (!visible) {
+      setCode(null);
+      setError("");
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const refresh = async () => {
+      try {
+        const next = await loadCodeRef.current();
+        if (cancelled) return;
+        setCode(next);
+        setError("");
+        timer = setTimeout(refresh, Math.max(1000, new Date(next.expiresAt).getTime() - Date.now()));
+      } catch (loadError) {
+        if (cancelled) return;
+        setCode(null);
+        setError(loadError instanceof Error ? loadError.message : "Couldn't load the check-in code");
+      }
+    };
+    refresh();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <View style={{ width: 22 }} />
+            <ThemedText type="h4">Check-in Code</ThemedText>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <Icon name="x" size={22} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View style={styles.content}>
+            <ThemedText type="small" style={[styles.centered, { color: theme.textSecondary }]}>
+              Attendees scan this at the venue to confirm they showed up. It changes every 30 seconds, so a
+              screenshot won&apos;t work from home.
+            </ThemedText>
+
+            <View style={styles.qrFrame}>
+              {code ? (
+                <QRCode value={code.payload} size={QR_SIZE} color="#0F172A" backgroundColor="#FFFFFF" />
+              ) : error ? (
+                <ThemedText type="small" style={[styles.centered, { color: AppColors.sunsetRose }]}>
+                  {error}
+                </ThemedText>
+              ) : (
+                <ActivityIndicator color={AppColors.primary} />
+              )}
+            </View>
+
+            {code ? (
+              <ThemedText type="h3" style={styles.code} selectable>
+                {code.code}
+              </ThemedText>
+            ) : null}
+
+            <View style={[styles.countRow, { backgroundColor: `${AppColors.success}15` }]}>
+              <Icon name="check-circle" size={16} color={AppColors.success} />
+              <ThemedText type="small" style={{ color: AppColors.success, fontWeight: "600" }}>
+                {checkedInCount} of {attendeeCount} checked in
+              </ThemedText>
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    maxHeight: "88%",
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  content: {
+    alignItems: "center",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing["2xl"],
+    gap: Spacing.lg,
+  },
+  centered: {
+    textAlign: "center",
+  },
+  qrFrame: {
+    width: QR_SIZE + Spacing.lg * 2,
+    height: QR_SIZE + Spacing.lg * 2,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "#FFFFFF",
+  },
+  code: {
+    letterSpacing: 4,
+    fontVariant: ["tabular-nums"],
+  },
+  countRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+});
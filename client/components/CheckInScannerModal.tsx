@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ActivityIndicator } from "react-native";
+import { CameraView, useCameraPermissions } from "expo-camera";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { Input } from "@/components/Input";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const CHECK_IN_PAYLOAD = /^explorex:\/\/check-in\/([^/]+)\/([A-Z0-9]+)$/i;
+
+// Returns the code for this activity, or null when the QR belongs to something else
+function parseCheckInPayload(data: string, activityId: string): string | null {
+  const match = CHECK_IN_PAYLOAD.exec(data.trim());
+  if (!match || decodeURIComponent(match[1]) !== activityId) return null;
+  return match[2].toUpperCase();
+}
+
+interface Props {
+  visible: boolean;
+  activityId: string;
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (code: string) => void;
+}
+
+export default function CheckInScannerModal({
+  visible,
+  activityId,
+  isSubmitting,
+  onClose,
+  onSubmit,
+}: Props) {
+  const { theme } = useTheme();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [manualCode, setManualCode] = useState("");
+  const [error, setError] = useState("");
+  // The camera reports the same QR many times a second; only the first read of each opening counts
+  const hasScannedRef = useRef(false);
+
+  useEffect(() => {
+    if (visible) {
+      hasScannedRef.current = false;
+      setManualCode("");
+      setError("");
+    }
+  }, [visible]);
+
+  // A failed submit lets the next scan through, so the attendee can simply point at the fresh code
+  useEffect(() => {
+    if (!isSubmitting) hasScannedRef.current = false;
+  }, [isSubmitting]);
+
+  const handleScan = ({ data }: { data: string }) => {
+    if (hasScannedRef.current || isSubmitting) return;
+    const code = parseCheckInPayload(data, activityId);
+    if (!code) {
+      setError("That QR code isn't the check-in code for this activity");
+      return;
+    }
+    hasScannedRef.current = true;
+    setError("");
+    onSubmit(code);
+  };
+
+  const handleManualSubmit = () => {
+    const code = manualCode.replace(/\s/g, "").toUpperCase();
+    if (code.length < 8) {
+      setError("Enter the 8-character code shown under the host's QR");
+      return;
+    }
+    setError("");
+    onSubmit(code);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <View style={{ width: 22 }} />
+            <ThemedText type="h4">Check In</ThemedText>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <Icon name="x" size={22} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View style={styles.content}>
+            <View style={[styles.cameraFrame, { backgroundColor: theme.backgroundSecondary }]}>
+              {permission?.granted ? (
+                <CameraView
+                  style={StyleSheet.absoluteFill}
+                  facing="back"
+                  barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+                  onBarcodeScanned={visible ? handleScan : undefined}
+                />
+              ) : (
+                <View style={styles.permission}>
+                  <Icon name="camera" size={28} color={theme.textSecondary} />
+                  <ThemedText type="small" style={[styles.centered, { color: theme.textSecondary }]}>
+                    {permission && !permission.canAskAgain
+                      ? "Camera access is off for ExploreX. Type the code instead, or allow it in Settings."
+                      : "Allow camera access to scan the host's check-in code."}
+                  </ThemedText>
+                  {!permission || permission.canAskAgain ? (
+                    <Pressable
+                      style={[styles.permissionButton, { borderColor: AppColors.primary }]}
+                      onPress={requestPermission}
+                      testID="button-allow-camera"
+                    >
+                      <ThemedText type="small" style={{ color: AppColors.primary, fontWeight: "600" }}>
+                        Allow Camera
+                      </ThemedText>
+                    </Pressable>
+                  ) : null}
+                </View>
+              )}
+              {isSubmitting ? (
+                <View style={styles.submitting}>
+                  <ActivityIndicator color="#FFFFFF" />
+                </View>
+              ) : null}
+            </View>
+
+            <Input
+              label="Or type the code"
+              placeholder="e.g. 7KQ4M2XB"
+              value={manualCode}
+              onChangeText={(text) => setManualCode(text.toUpperCase())}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              maxLength={12}
+              testID="input-check-in-code"
+            />
+
+            {error ? (
+              <ThemedText type="small" style={[styles.centered, { color: AppColors.sunsetRose }]}>
+                {error}
+              </ThemedText>
+            ) : null}
+          </View>
+
+          <View style={styles.footer}>
+            <GradientButton onPress={handleManualSubmit} disabled={isSubmitting || !manualCode.trim()}>
+              {isSubmitting ? "Checking in..." : "Check In"}
+            </GradientButton>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    maxHeight: "92%",
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.lg,
+    gap: Spacing.lg,
+  },
+  cameraFrame: {
+    height: 260,
+    borderRadius: BorderRadius.lg,
+    overflow: "hidden",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  permission: {
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.lg,
+  },
+  permissionButton: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  submitting: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  centered: {
+    textAlign: "center",
+  },
+  footer: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing["2xl"],
+  },
+});
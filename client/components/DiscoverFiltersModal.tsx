@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView, Switch } from "react-native";
+import Slider from "@react-native-community/slider";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { DiscoverPreferences } from "@/types";
+import { VAN_TYPES, INTENT_MODE_OPTIONS, LOOKING_FOR_OPTIONS } from "@/constants/profileOptions";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+export const MIN_DISCOVER_AGE = 18;
+export const MAX_DISCOVER_AGE = 99;
+const MAX_DISCOVER_DISTANCE_KM = 500;
+const DEFAULT_DISCOVER_DISTANCE_KM = 50;
+
+export const DEFAULT_DISCOVER_PREFERENCES: DiscoverPreferences = {
+  minAge: MIN_DISCOVER_AGE,
+  maxAge: MAX_DISCOVER_AGE,
+  maxDistanceKm: null,
+  intentModes: [],
+  verifiedOnly: false,
+  lookingFor: [],
+  vanTypes: [],
+};
+
+export function countActiveDiscoverFilters(preferences: DiscoverPreferences) {
+  return [
+    preferences.minAge !== MIN_DISCOVER_AGE || preferences.maxAge !== MAX_DISCOVER_AGE,
+    preferences.maxDistanceKm !== null,
+    preferences.intentModes.length > 0,
+    preferences.verifiedOnly,
+    preferences.lookingFor.length > 0,
+    preferences.vanTypes.length > 0,
+  ].filter(Boolean).length;
+}
+
+function toggleValue<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+interface Props {
+  visible: boolean;
+  preferences: DiscoverPreferences;
+  isSaving?: boolean;
+  onClose: () => void;
+  onSave: (preferences: DiscoverPreferences) => void;
+}
+
+export default function DiscoverFiltersModal({
+  visible,
+  preferences,
+  isSaving,
+  onClose,
+  onSave,
+}: Props) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState<DiscoverPreferences>(preferences);
+
+  // Every opening starts from the saved preferences, dropping unsaved edits
+  useEffect(() => {
+    if (visible) setDraft(preferences);
+  }, [visible, preferences]);
+
+  const update = (changes: Partial<DiscoverPreferences>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, icon?: string) => (
+    <Pressable
+      key={key}
+      style={[styles.chip, { backgroundColor: selected ? AppColors.primary : theme.backgroundSecondary }]}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onPress();
+      }}
+      testID={`filter-chip-${key}`}
+    >
+      {icon ? <Icon name={icon} size={14} color={selected ? "#FFFFFF" : theme.text} /> : null}
+      <ThemedText type="small" style={{ color: selected ? "#FFFFFF" : theme.text }}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <Pressable onPress={() => setDraft(DEFAULT_DISCOVER_PREFERENCES)} hitSlop={12} testID="button-reset-filters">
+              <ThemedText type="small" style={{ color: AppColors.primary }}>
+                Reset
+              </ThemedText>
+            </Pressable>
+            <ThemedText type="h4">Discover Filters</ThemedText>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <Icon name="x" size={22} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <ThemedText type="body" style={styles.sectionTitle}>Age</ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {draft.minAge} – {draft.maxAge}
+                </ThemedText>
+              </View>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>Youngest</ThemedText>
+              <Slider
+                minimumValue={MIN_DISCOVER_AGE}
+                maximumValue={MAX_DISCOVER_AGE}
+                step={1}
+                value={draft.minAge}
+                onValueChange={(value) => update({ minAge: Math.min(value, draft.maxAge) })}
+                minimumTrackTintColor={AppColors.primary}
+                maximumTrackTintColor={theme.backgroundSecondary}
+                thumbTintColor={AppColors.primary}
+              />
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>Oldest</ThemedText>
+              <Slider
+                minimumValue={MIN_DISCOVER_AGE}
+                maximumValue={MAX_DISCOVER_AGE}
+                step={1}
+                value={draft.maxAge}
+                onValueChange={(value) => update({ maxAge: Math.max(value, draft.minAge) })}
+                minimumTrackTintColor={AppColors.primary}
+                maximumTrackTintColor={theme.backgroundSecondary}
+                thumbTintColor={AppColors.primary}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <ThemedText type="body" style={styles.sectionTitle}>Maximum distance</ThemedText>
+                <Switch
+                  value={draft.maxDistanceKm !== null}
+                  onValueChange={(value) => update({ maxDistanceKm: value ? DEFAULT_DISCOVER_DISTANCE_KM : null })}
+                  trackColor={{ true: AppColors.primary }}
+                  testID="switch-limit-distance"
+                />
+              </View>
+              {draft.maxDistanceKm !== null ? (
+                <>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    Within {draft.maxDistanceKm} km of your last known location
+                  </ThemedText>
+                  <Slider
+                    minimumValue={5}
+                    maximumValue={MAX_DISCOVER_DISTANCE_KM}
+                    step={5}
+                    value={draft.maxDistanceKm}
+                    onValueChange={(value) => update({ maxDistanceKm: value })}
+                    minimumTrackTintColor={AppColors.primary}
+                    maximumTrackTintColor={theme.backgroundSecondary}
+                    thumbTintColor={AppColors.primary}
+                  />
+                </>
+              ) : (
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Any distance
+                </ThemedText>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <View style={styles.sectionLabel}>
+                  <ThemedText type="body" style={styles.sectionTitle}>Verified travellers only</ThemedText>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    Only show people with a travel badge
+                  </ThemedText>
+                </View>
+                <Switch
+                  value={draft.verifiedOnly}
+                  onValueChange={(value) => update({ verifiedOnly: value })}
+                  trackColor={{ true: AppColors.primary }}
+                  testID="switch-verified-only"
+                />
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText type="body" style={styles.sectionTitle}>Intent</ThemedText>
+              <View style={styles.chipGrid}>
+                {INTENT_MODE_OPTIONS.map((option) =>
+                  renderChip(
+                    option.value,
+                    option.label,
+                    draft.intentModes.includes(option.value),
+                    () => update({ intentModes: toggleValue(draft.intentModes, option.value) }),
+                    option.icon,
+                  ),
+                )}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText type="body" style={styles.sectionTitle}>Looking for</ThemedText>
+              <View style={styles.chipGrid}>
+                {LOOKING_FOR_OPTIONS.map((option) =>
+                  renderChip(
+                    option.value,
+                    option.label,
+                    draft.lookingFor.includes(option.value),
+                    () => update({ lookingFor: toggleValue(draft.lookingFor, option.value) }),
+                    option.icon,
+                  ),
+                )}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText type="body" style={styles.sectionTitle}>Van type</ThemedText>
+              <View style={styles.chipGrid}>
+                {VAN_TYPES.map((type) =>
+                  renderChip(
+                    type,
+                    type,
+                    draft.vanTypes.includes(type),
+                    () => update({ vanTypes: toggleValue(draft.vanTypes, type) }),
+                  ),
+                )}
+              </View>
+            </View>
+
+            <ThemedText type="small" style={[styles.hint, { color: theme.textSecondary }]}>
+              Leave a section empty to include everyone.
+            </ThemedText>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <GradientButton onPress={() => onSave(draft)} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Show Results"}
+            </GradientButton>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    maxHeight: "88%",
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.lg,
+    gap: Spacing.xl,
+  },
+  section: {
+    gap: Spacing.sm,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: Spacing.md,
+  },
+  sectionLabel: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+  },
+  chipGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+  },
+  hint: {
+    textAlign: "center",
+  },
+  footer: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing["2xl"],
+  },
+});
@@ -0,0 +1,302 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { Input } from "@/components/Input";
+import { GradientButton } from "@/components/GradientButton";
+import { PickerModal } from "@/components/PickerModal";
+import LocationPickerModal from "@/components/LocationPickerModal";
+import { useTheme } from "@/hooks/useTheme";
+import { Activity, ActivityLocation, ActivityUpdate } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface Draft {
+  title: string;
+  description: string;
+  date: Date;
+  location: ActivityLocation;
+  spots: string;
+}
+
+function draftFromActivity(activity: Activity): Draft {
+  return {
+    title: activity.title,
+    description: activity.description || "",
+    date: new Date(activity.date),
+    location: {
+      name: activity.location,
+      latitude: activity.latitude ?? NaN,
+      longitude: activity.longitude ?? NaN,
+    },
+    spots: activity.maxAttendees ? String(activity.maxAttendees) : "",
+  };
+}
+
+function sameCoordinate(a: number, b: number | undefined) {
+  return Number.isFinite(a) ? a === b : b === undefined || !Number.isFinite(b);
+}
+
+// Only fields that differ from the activity are sent, so the chat summary lists real changes
+function buildActivityUpdate(activity: Activity, draft: Draft): ActivityUpdate {
+  const changes: ActivityUpdate = {};
+  const title = draft.title.trim();
+  const description = draft.description.trim();
+  if (title !== activity.title) changes.title = title;
+  if (description !== (activity.description || "")) changes.description = description;
+  if (draft.date.getTime() !== new Date(activity.date).getTime()) changes.date = draft.date.toISOString();
+
+  const { name, latitude, longitude } = draft.location;
+  if (name !== activity.location || !sameCoordinate(latitude, activity.latitude) || !sameCoordinate(longitude, activity.longitude)) {
+    changes.location = name;
+    changes.latitude = Number.isFinite(latitude) ? latitude : null;
+    changes.longitude = Number.isFinite(longitude) ? longitude : null;
+  }
+
+  const spots = draft.spots.trim() ? Number(draft.spots) : null;
+  if (spots !== (activity.maxAttendees ?? null)) changes.maxAttendees = spots;
+  return changes;
+}
+
+function formatDay(date: Date) {
+  return date.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
+function formatClock(date: Date) {
+  return date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+interface Props {
+  visible: boolean;
+  activity: Activity | null;
+  isSaving?: boolean;
+  onClose: () => void;
+  onSave: (changes: ActivityUpdate) => void;
+}
+
+export default function EditActivityModal({
+  visible,
+  activity,
+  isSaving,
+  onClose,
+  onSave,
+}: Props) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState<Draft | null>(activity ? draftFromActivity(activity) : null);
+  const [picker, setPicker] = useState<"date" | "time" | null>(null);
+  const [showLocationPicker, setShowLocationPicker] = useState(false);
+  const [error, setError] = useState("");
+
+  // Every opening starts from the saved activity, dropping unsaved edits
+  useEffect(() => {
+    if (visible && activity) {
+      setDraft(draftFromActivity(activity));
+      setError("");
+    }
+  }, [visible, activity]);
+
+  if (!activity || !draft) return null;
+
+  const update = (changes: Partial<Draft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSave = () => {
+    if (!draft.title.trim()) {
+      setError("Give the activity a title");
+      return;
+    }
+    if (!draft.location.name.trim()) {
+      setError("Pick a location");
+      return;
+    }
+    if (draft.date.getTime() <= Date.now()) {
+      setError("The new start time has already passed");
+      return;
+    }
+    const spots = draft.spots.trim() ? Number(draft.spots) : null;
+    if (spots !== null && (!Number.isInteger(spots) || spots < Math.max(1, activity.attendees.length))) {
+      setError(`Spots must be a whole number of at least ${Math.max(1, activity.attendees.length)}`);
+      return;
+    }
+
+    const changes = buildActivityUpdate(activity, draft);
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+    setError("");
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSave(changes);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <View style={{ width: 22 }} />
+            <ThemedText type="h4">Edit Activity</ThemedText>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <Icon name="x" size={22} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Everyone in the group chat gets a note listing what you changed.
+            </ThemedText>
+
+            <Input
+              label="Title"
+              value={draft.title}
+              onChangeText={(text) => update({ title: text })}
+              testID="input-edit-activity-title"
+            />
+
+            <View style={styles.dateRow}>
+              {(["date", "time"] as const).map((field) => (
+                <Pressable
+                  key={field}
+                  style={[styles.dateButton, { borderColor: theme.border }]}
+                  onPress={() => setPicker(field)}
+                  testID={`button-edit-activity-${field}`}
+                >
+                  <Icon name={field === "date" ? "calendar" : "clock"} size={14} color={AppColors.primary} />
+                  <View>
+                    <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                      {field === "date" ? "Date" : "Start"}
+                    </ThemedText>
+                    <ThemedText type="body">
+                      {field === "date" ? formatDay(draft.date) : formatClock(draft.date)}
+                    </ThemedText>
+                  </View>
+                </Pressable>
+              ))}
+            </View>
+
+            <Pressable
+              style={[styles.dateButton, styles.locationButton, { borderColor: theme.border }]}
+              onPress={() => setShowLocationPicker(true)}
+              testID="button-edit-activity-location"
+            >
+              <Icon name="map-pin" size={14} color={AppColors.primary} />
+              <View style={{ flex: 1 }}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>Location</ThemedText>
+                <ThemedText type="body" numberOfLines={1}>{draft.location.name}</ThemedText>
+              </View>
+            </Pressable>
+
+            <Input
+              label="Description"
+              value={draft.description}
+              onChangeText={(text) => update({ description: text })}
+              multiline
+              testID="input-edit-activity-description"
+            />
+
+            <Input
+              label="Spots"
+              placeholder="No limit"
+              value={draft.spots}
+              onChangeText={(text) => update({ spots: text.replace(/[^0-9]/g, "") })}
+              keyboardType="number-pad"
+              testID="input-edit-activity-spots"
+            />
+
+            {error ? (
+              <ThemedText type="small" style={[styles.error, { color: AppColors.sunsetRose }]}>
+                {error}
+              </ThemedText>
+            ) : null}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <GradientButton onPress={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Changes"}
+            </GradientButton>
+          </View>
+        </View>
+
+        <PickerModal
+          visible={picker !== null}
+          onClose={() => setPicker(null)}
+          title={picker === "time" ? "Start Time" : "Date"}
+          type={picker === "time" ? "time" : "date"}
+          dateValue={draft.date}
+          onDateChange={(value) => {
+            const next = new Date(draft.date);
+            if (picker === "time") {
+              next.setHours(value.getHours(), value.getMinutes(), 0, 0);
+            } else {
+              next.setFullYear(value.getFullYear(), value.getMonth(), value.getDate());
+            }
+            update({ date: next });
+          }}
+        />
+
+        <LocationPickerModal
+          visible={showLocationPicker}
+          onClose={() => setShowLocationPicker(false)}
+          onSelectLocation={(location) => update({ location })}
+          initialLocation={Number.isFinite(draft.location.latitude) ? draft.location : null}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    maxHeight: "88%",
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.lg,
+    gap: Spacing.lg,
+  },
+  dateRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  locationButton: {
+    flex: 0,
+  },
+  error: {
+    textAlign: "center",
+  },
+  footer: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing["2xl"],
+  },
+});
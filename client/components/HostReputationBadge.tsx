@@ -0,0 +1,58 @@
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { useTheme } from "@/hooks/useTheme";
+import { HostReputation } from "@/types";
+import { AppColors, Spacing } from "@/constants/theme";
+
+interface Props {
+  reputation?: HostReputation | null;
+  // Compact badges leave out the review count and the "new host" label
+  compact?: boolean;
+  color?: string;
+}
+
+export function HostReputationBadge({ reputation, compact, color }: Props) {
+  const { theme } = useTheme();
+  const textColor = color || theme.textSecondary;
+
+  if (!reputation || reputation.score === null) {
+    if (compact) return null;
+    return (
+      <View style={styles.row}>
+        <Icon name="star" size={12} color={textColor} />
+        <ThemedText type="small" style={{ color: textColor }}>
+          New host · no ratings yet
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.row}>
+      <Icon name="star-filled" size={12} color={AppColors.sunsetGold} />
+      <ThemedText type="small" style={{ color: textColor, fontWeight: "600" }}>
+        {reputation.score.toFixed(1)}
+      </ThemedText>
+      <ThemedText type="small" style={{ color: textColor }}>
+        ({reputation.ratingCount})
+        {!compact && reputation.reviewCount > 0
+          ? ` · ${reputation.reviewCount} ${reputation.reviewCount === 1 ? "review" : "reviews"}`
+          : ""}
+      </ThemedText>
+      {reputation.isRepeatLowRated ? (
+        <Icon name="alert-circle" size={12} color={AppColors.sunsetRose} />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+});
@@ -310,6 +310,14 @@ export function Icon({ name, size = 24, color = "#000" }: IconProps) {
           <Path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15" />
         </Svg>
       );
+    case "rotate-ccw":
+    case "undo":
+      return (
+        <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round">
+          <Polyline points="1 4 1 10 7 10" />
+          <Path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10" />
+        </Svg>
+      );
     case "zap":
       return (
         <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round">
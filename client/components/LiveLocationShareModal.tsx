@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+import { StyleSheet, View, Modal, Pressable } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { LOCATION_SHARE_DURATIONS } from "@/context/LocationShareContext";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (durationMinutes: number) => void;
+  recipientName?: string;
+}
+
+export default function LiveLocationShareModal({
+  visible,
+  onClose,
+  onSubmit,
+  recipientName,
+}: Props) {
+  const { theme } = useTheme();
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_DURATION_MINUTES);
+
+  const handleClose = () => {
+    setDurationMinutes(DEFAULT_DURATION_MINUTES);
+    onClose();
+  };
+
+  const handleSubmit = () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onSubmit(durationMinutes);
+    handleClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <View style={[styles.iconCircle, { backgroundColor: `${AppColors.primary}20` }]}>
+              <Icon name="navigation" size={28} color={AppColors.primary} />
+            </View>
+            <ThemedText type="h3" style={styles.title}>
+              Share Live Location
+            </ThemedText>
+            <ThemedText type="body" style={[styles.subtitle, { color: theme.textSecondary }]}>
+              {recipientName
+                ? `${recipientName} can follow your location until sharing stops`
+                : "Your location is shared until the time runs out or you stop it"}
+            </ThemedText>
+          </View>
+
+          <View style={styles.durationGrid}>
+            {LOCATION_SHARE_DURATIONS.map((option) => {
+              const selected = durationMinutes === option.minutes;
+              return (
+                <Pressable
+                  key={option.minutes}
+                  style={[
+                    styles.durationChip,
+                    { backgroundColor: selected ? AppColors.primary : theme.backgroundSecondary },
+                  ]}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    setDurationMinutes(option.minutes);
+                  }}
+                  testID={`share-duration-${option.minutes}`}
+                >
+                  <ThemedText type="body" style={{ color: selected ? "#FFFFFF" : theme.text }}>
+                    {option.label}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <View style={styles.footer}>
+            <GradientButton onPress={handleSubmit} style={styles.submitButton}>
+              Start Sharing
+            </GradientButton>
+            <Pressable onPress={handleClose} style={styles.cancelButton}>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Cancel
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 380,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.xl,
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  iconCircle: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.md,
+  },
+  title: {
+    textAlign: "center",
+    marginBottom: Spacing.xs,
+  },
+  subtitle: {
+    textAlign: "center",
+  },
+  durationGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    justifyContent: "center",
+  },
+  durationChip: {
+    minWidth: 96,
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  footer: {
+    alignItems: "center",
+    gap: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+  submitButton: {
+    width: "100%",
+  },
+  cancelButton: {
+    padding: Spacing.sm,
+  },
+});
@@ -0,0 +1,232 @@
+import React, { useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ActivityIndicator } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { Meetup, MeetupCheckIn } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const CHECK_IN_DURATIONS: { minutes: number; label: string }[] = [
+  { minutes: 60, label: "1 hour" },
+  { minutes: 120, label: "2 hours" },
+  { minutes: 180, label: "3 hours" },
+  { minutes: 240, label: "4 hours" },
+  { minutes: 480, label: "8 hours" },
+];
+const DEFAULT_DURATION_MINUTES = 120;
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  meetup: Meetup | null;
+  checkIn: MeetupCheckIn | null;
+  isBusy: boolean;
+  onPlan: () => void;
+  onStart: (durationMinutes: number) => void;
+  onConfirmSafe: () => void;
+  partnerName?: string;
+  hasEmergencyEmail: boolean;
+}
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
+
+export default function MeetupCheckInModal({
+  visible,
+  onClose,
+  meetup,
+  checkIn,
+  isBusy,
+  onPlan,
+  onStart,
+  onConfirmSafe,
+  partnerName,
+  hasEmergencyEmail,
+}: Props) {
+  const { theme } = useTheme();
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_DURATION_MINUTES);
+  const isOpen = checkIn?.status === "active" || checkIn?.status === "escalated";
+
+  const handleClose = () => {
+    setDurationMinutes(DEFAULT_DURATION_MINUTES);
+    onClose();
+  };
+
+  const subtitle = !meetup
+    ? `Plan a meetup with ${partnerName || "your match"} at a public place between you, then start a safety check-in.`
+    : checkIn?.status === "escalated"
+      ? "You missed your check-in, so your emergency contact was alerted. Let them know you're okay."
+      : isOpen
+        ? `Tap "I'm Safe" by ${formatTime(checkIn.expectedEndAt)}. If you don't, your emergency contact is alerted at ${formatTime(checkIn.escalatesAt)}.`
+        : "Pick how long the meetup should take. If you don't confirm you're safe by then, your emergency contact is alerted.";
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <View style={[styles.iconCircle, { backgroundColor: `${AppColors.primary}20` }]}>
+              <Icon name="shield" size={28} color={AppColors.primary} />
+            </View>
+            <ThemedText type="h3" style={styles.title}>
+              Meetup Check-In
+            </ThemedText>
+            <ThemedText type="body" style={[styles.subtitle, { color: theme.textSecondary }]}>
+              {subtitle}
+            </ThemedText>
+          </View>
+
+          {meetup?.venueName ? (
+            <View style={[styles.venue, { backgroundColor: theme.backgroundSecondary }]}>
+              <Icon name="map-pin" size={16} color={AppColors.primary} />
+              <View style={styles.venueText}>
+                <ThemedText type="body" style={{ color: theme.text }}>
+                  {meetup.venueName}
+                </ThemedText>
+                {meetup.venueAddress ? (
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    {meetup.venueAddress}
+                  </ThemedText>
+                ) : null}
+              </View>
+            </View>
+          ) : null}
+
+          {meetup && !isOpen ? (
+            <>
+              <View style={styles.durationGrid}>
+                {CHECK_IN_DURATIONS.map((option) => {
+                  const selected = durationMinutes === option.minutes;
+                  return (
+                    <Pressable
+                      key={option.minutes}
+                      style={[
+                        styles.durationChip,
+                        { backgroundColor: selected ? AppColors.primary : theme.backgroundSecondary },
+                      ]}
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        setDurationMinutes(option.minutes);
+                      }}
+                      testID={`checkin-duration-${option.minutes}`}
+                    >
+                      <ThemedText type="body" style={{ color: selected ? "#FFFFFF" : theme.text }}>
+                        {option.label}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              {!hasEmergencyEmail ? (
+                <ThemedText type="small" style={[styles.warning, { color: theme.danger }]}>
+                  Add an emergency contact email in your profile so someone is notified if you miss your check-in.
+                </ThemedText>
+              ) : null}
+            </>
+          ) : null}
+
+          <View style={styles.footer}>
+            {isBusy ? (
+              <ActivityIndicator color={AppColors.primary} />
+            ) : !meetup ? (
+              <GradientButton onPress={onPlan} style={styles.submitButton}>
+                Plan Meetup
+              </GradientButton>
+            ) : isOpen ? (
+              <GradientButton onPress={onConfirmSafe} style={styles.submitButton}>
+                I&apos;m Safe
+              </GradientButton>
+            ) : (
+              <GradientButton onPress={() => onStart(durationMinutes)} style={styles.submitButton}>
+                Start Check-In
+              </GradientButton>
+            )}
+            <Pressable onPress={handleClose} style={styles.cancelButton}>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Close
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 380,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.xl,
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  iconCircle: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.md,
+  },
+  title: {
+    textAlign: "center",
+    marginBottom: Spacing.xs,
+  },
+  subtitle: {
+    textAlign: "center",
+  },
+  venue: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+  },
+  venueText: {
+    flex: 1,
+  },
+  durationGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    justifyContent: "center",
+  },
+  durationChip: {
+    minWidth: 96,
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  warning: {
+    textAlign: "center",
+    marginTop: Spacing.md,
+  },
+  footer: {
+    alignItems: "center",
+    gap: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+  submitButton: {
+    width: "100%",
+  },
+  cancelButton: {
+    padding: Spacing.sm,
+  },
+});
@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView, Switch } from "react-native";
+import Slider from "@react-native-community/slider";
+import * as Haptics from "expo-haptics";
+import * as Location from "expo-location";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { RadarVisibilityRules } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const DEFAULT_HOME_BASE_RADIUS_KM = 1;
+const MAX_HOME_BASE_RADIUS_KM = 10;
+
+export const DEFAULT_RADAR_VISIBILITY_RULES: RadarVisibilityRules = {
+  hideAtNight: false,
+  nightStartHour: 22,
+  nightEndHour: 7,
+  timeZone: "UTC",
+  homeBase: null,
+  matchesOnly: false,
+  verifiedOnly: false,
+  ghostUntil: null,
+};
+
+export function isGhostActive(rules: RadarVisibilityRules, now = Date.now()) {
+  return !!rules.ghostUntil && new Date(rules.ghostUntil).getTime() > now;
+}
+
+function formatHour(hour: number) {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+function formatClockTime(iso: string) {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+interface Props {
+  visible: boolean;
+  rules: RadarVisibilityRules;
+  isSaving?: boolean;
+  onClose: () => void;
+  onSave: (rules: RadarVisibilityRules) => void;
+  onGhostChange: (enabled: boolean) => void;
+}
+
+export default function RadarVisibilityModal({
+  visible,
+  rules,
+  isSaving,
+  onClose,
+  onSave,
+  onGhostChange,
+}: Props) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState<RadarVisibilityRules>(rules);
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState("");
+
+  // Every opening starts from the saved rules, dropping unsaved edits
+  useEffect(() => {
+    if (visible) {
+      setDraft(rules);
+      setError("");
+    }
+  }, [visible, rules]);
+
+  const update = (changes: Partial<RadarVisibilityRules>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  // The home base is wherever the user is standing when they switch it on
+  const toggleHomeBase = async (enabled: boolean) => {
+    setError("");
+    if (!enabled) {
+      update({ homeBase: null });
+      return;
+    }
+    setIsLocating(true);
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== "granted") {
+        setError("Location access is needed to set your home base");
+        return;
+      }
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      update({
+        homeBase: {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          radiusKm: DEFAULT_HOME_BASE_RADIUS_KM,
+        },
+      });
+    } catch {
+      setError("Couldn't get your location. Please try again.");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleSave = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSave({ ...draft, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC" });
+  };
+
+  const renderSwitchRow = (
+    title: string,
+    description: string,
+    value: boolean,
+    onValueChange: (value: boolean) => void,
+    testID: string,
+  ) => (
+    <View style={styles.sectionHeader}>
+      <View style={styles.sectionLabel}>
+        <ThemedText type="body" style={styles.sectionTitle}>{title}</ThemedText>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {description}
+        </ThemedText>
+      </View>
+      <Switch
+        value={value}
+        onValueChange={onValueChange}
+        trackColor={{ true: AppColors.primary }}
+        testID={testID}
+      />
+    </View>
+  );
+
+  const ghostActive = isGhostActive(rules);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <Pressable
+              onPress={() => setDraft({ ...DEFAULT_RADAR_VISIBILITY_RULES, ghostUntil: rules.ghostUntil })}
+              hitSlop={12}
+              testID="button-reset-visibility"
+            >
+              <ThemedText type="small" style={{ color: AppColors.primary }}>
+                Reset
+              </ThemedText>
+            </Pressable>
+            <ThemedText type="h4">Radar Visibility</ThemedText>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <Icon name="x" size={22} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+            <Pressable
+              style={[styles.ghostButton, { backgroundColor: ghostActive ? AppColors.primary : theme.backgroundSecondary }]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                onGhostChange(!ghostActive);
+              }}
+              testID="button-ghost-mode"
+            >
+              <Icon name="eye-off" size={20} color={ghostActive ? "#FFFFFF" : theme.text} />
+              <View style={styles.sectionLabel}>
+                <ThemedText type="body" style={[styles.sectionTitle, { color: ghostActive ? "#FFFFFF" : theme.text }]}>
+                  {ghostActive ? "Ghost mode is on" : "Go ghost for 2 hours"}
+                </ThemedText>
+                <ThemedText type="small" style={{ color: ghostActive ? "#FFFFFF" : theme.textSecondary }}>
+                  {ghostActive && rules.ghostUntil
+                    ? `Hidden until ${formatClockTime(rules.ghostUntil)}. Tap to reappear now.`
+                    : "Disappear from radar, discover and serendipity for a while"}
+                </ThemedText>
+              </View>
+            </Pressable>
+
+            <View style={styles.section}>
+              {renderSwitchRow(
+                "Hide at night",
+                `Hidden from ${formatHour(draft.nightStartHour)} to ${formatHour(draft.nightEndHour)} your time`,
+                draft.hideAtNight,
+                (value) => update({ hideAtNight: value }),
+                "switch-hide-at-night",
+              )}
+              {draft.hideAtNight ? (
+                <>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>From</ThemedText>
+                  <Slider
+                    minimumValue={0}
+                    maximumValue={23}
+                    step={1}
+                    value={draft.nightStartHour}
+                    onValueChange={(value) => update({ nightStartHour: value })}
+                    minimumTrackTintColor={AppColors.primary}
+                    maximumTrackTintColor={theme.backgroundSecondary}
+                    thumbTintColor={AppColors.primary}
+                  />
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>Until</ThemedText>
+                  <Slider
+                    minimumValue={0}
+                    maximumValue={23}
+                    step={1}
+                    value={draft.nightEndHour}
+                    onValueChange={(value) => update({ nightEndHour: value })}
+                    minimumTrackTintColor={AppColors.primary}
+                    maximumTrackTintColor={theme.backgroundSecondary}
+                    thumbTintColor={AppColors.primary}
+                  />
+                </>
+              ) : null}
+            </View>
+
+            <View style={styles.section}>
+              {renderSwitchRow(
+                "Hide near home base",
+                draft.homeBase
+                  ? `Hidden within ${draft.homeBase.radiusKm} km of where you set it`
+                  : "Uses your current location as home base",
+                draft.homeBase !== null,
+                toggleHomeBase,
+                "switch-home-base",
+              )}
+              {isLocating ? (
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Finding your location...
+                </ThemedText>
+              ) : null}
+              {draft.homeBase ? (
+                <Slider
+                  minimumValue={0.5}
+                  maximumValue={MAX_HOME_BASE_RADIUS_KM}
+                  step={0.5}
+                  value={draft.homeBase.radiusKm}
+                  onValueChange={(value) => setDraft((prev) => (
+                    prev.homeBase ? { ...prev, homeBase: { ...prev.homeBase, radiusKm: value } } : prev
+                  ))}
+                  minimumTrackTintColor={AppColors.primary}
+                  maximumTrackTintColor={theme.backgroundSecondary}
+                  thumbTintColor={AppColors.primary}
+                />
+              ) : null}
+            </View>
+
+            <View style={styles.section}>
+              {renderSwitchRow(
+                "Matches only",
+                "Only people you've matched with can see you",
+                draft.matchesOnly,
+                (value) => update({ matchesOnly: value }),
+                "switch-matches-only",
+              )}
+            </View>
+
+            <View style={styles.section}>
+              {renderSwitchRow(
+                "Verified travellers only",
+                "Only people with a travel badge can see you",
+                draft.verifiedOnly,
+                (value) => update({ verifiedOnly: value }),
+                "switch-visible-verified-only",
+              )}
+            </View>
+
+            {error ? (
+              <ThemedText type="small" style={[styles.hint, { color: AppColors.sunsetRose }]}>
+                {error}
+              </ThemedText>
+            ) : null}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <GradientButton onPress={handleSave} disabled={isSaving || isLocating}>
+              {isSaving ? "Saving..." : "Save Rules"}
+            </GradientButton>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    maxHeight: "88%",
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.lg,
+    gap: Spacing.xl,
+  },
+  ghostButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+  },
+  section: {
+    gap: Spacing.sm,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: Spacing.md,
+  },
+  sectionLabel: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+  },
+  hint: {
+    textAlign: "center",
+  },
+  footer: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing["2xl"],
+  },
+});
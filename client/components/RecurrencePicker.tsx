@@ -0,0 +1,285 @@
+import React, { useState } from "react";
+import { StyleSheet, View, Pressable } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { PickerModal } from "@/components/PickerModal";
+import { useTheme } from "@/hooks/useTheme";
+import { ActivityRecurrence } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+const DEFAULT_COUNT = 8;
+const MAX_COUNT = 52;
+const MAX_EVERY_DAYS = 60;
+
+const MODES: { id: ActivityRecurrence["type"] | "never"; label: string }[] = [
+  { id: "never", label: "Never" },
+  { id: "weekly", label: "Weekly" },
+  { id: "interval", label: "Every N days" },
+  { id: "dates", label: "Custom dates" },
+];
+
+function formatDay(date: Date) {
+  return date.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
+// Custom dates inherit the first occurrence's start time, so only the day is picked
+function withStartTime(day: Date, start: Date) {
+  const date = new Date(day);
+  date.setHours(start.getHours(), start.getMinutes(), 0, 0);
+  return date;
+}
+
+interface StepperProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  testID: string;
+}
+
+function Stepper({ label, value, min, max, onChange, testID }: StepperProps) {
+  const { theme } = useTheme();
+  const step = (delta: number) => {
+    const next = Math.min(max, Math.max(min, value + delta));
+    if (next === value) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(next);
+  };
+
+  return (
+    <View style={styles.stepperRow}>
+      <ThemedText type="body" style={{ flex: 1 }}>{label}</ThemedText>
+      <Pressable
+        style={[styles.stepperButton, { backgroundColor: theme.backgroundSecondary, opacity: value <= min ? 0.4 : 1 }]}
+        onPress={() => step(-1)}
+        testID={`${testID}-decrease`}
+      >
+        <Icon name="minus" size={16} color={theme.text} />
+      </Pressable>
+      <ThemedText type="body" style={styles.stepperValue}>{value}</ThemedText>
+      <Pressable
+        style={[styles.stepperButton, { backgroundColor: theme.backgroundSecondary, opacity: value >= max ? 0.4 : 1 }]}
+        onPress={() => step(1)}
+        testID={`${testID}-increase`}
+      >
+        <Icon name="plus" size={16} color={theme.text} />
+      </Pressable>
+    </View>
+  );
+}
+
+interface Props {
+  value: ActivityRecurrence | null;
+  startDate: Date;
+  onChange: (value: ActivityRecurrence | null) => void;
+}
+
+export default function RecurrencePicker({ value, startDate, onChange }: Props) {
+  const { theme } = useTheme();
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [pendingDate, setPendingDate] = useState(startDate);
+
+  const selectMode = (mode: ActivityRecurrence["type"] | "never") => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (mode === "never") onChange(null);
+    else if (mode === "weekly") onChange({ type: "weekly", weekdays: [startDate.getDay()], count: DEFAULT_COUNT });
+    else if (mode === "interval") onChange({ type: "interval", everyDays: 7, count: DEFAULT_COUNT });
+    else onChange({ type: "dates", dates: [] });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (value?.type !== "weekly") return;
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter((d) => d !== day)
+      : [...value.weekdays, day].sort((a, b) => a - b);
+    if (weekdays.length === 0) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange({ ...value, weekdays });
+  };
+
+  const addPendingDate = () => {
+    setShowDatePicker(false);
+    if (value?.type !== "dates") return;
+    const date = withStartTime(pendingDate, startDate);
+    if (date.getTime() <= startDate.getTime()) return;
+    const dates = Array.from(new Set([...value.dates, date.toISOString()])).sort();
+    onChange({ ...value, dates: dates.slice(0, MAX_COUNT - 1) });
+  };
+
+  const activeMode = value?.type || "never";
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.border }]}>
+      <View style={styles.modeRow}>
+        {MODES.map((mode) => {
+          const isActive = activeMode === mode.id;
+          return (
+            <Pressable
+              key={mode.id}
+              style={[styles.modeChip, { backgroundColor: isActive ? AppColors.primary : theme.backgroundSecondary }]}
+              onPress={() => selectMode(mode.id)}
+              testID={`button-repeat-${mode.id}`}
+            >
+              <ThemedText type="small" style={{ color: isActive ? "#FFFFFF" : theme.text, fontWeight: isActive ? "700" : "400" }}>
+                {mode.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {value?.type === "weekly" ? (
+        <View style={styles.weekdayRow}>
+          {WEEKDAY_LABELS.map((label, day) => {
+            const isActive = value.weekdays.includes(day);
+            return (
+              <Pressable
+                key={day}
+                style={[styles.weekday, { backgroundColor: isActive ? AppColors.primary : theme.backgroundSecondary }]}
+                onPress={() => toggleWeekday(day)}
+                testID={`button-repeat-weekday-${day}`}
+              >
+                <ThemedText type="small" style={{ color: isActive ? "#FFFFFF" : theme.text, fontWeight: "600" }}>
+                  {label}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : null}
+
+      {value?.type === "interval" ? (
+        <Stepper
+          label={value.everyDays === 1 ? "Every day" : `Every ${value.everyDays} days`}
+          value={value.everyDays}
+          min={1}
+          max={MAX_EVERY_DAYS}
+          onChange={(everyDays) => onChange({ ...value, everyDays })}
+          testID="button-repeat-every-days"
+        />
+      ) : null}
+
+      {value?.type === "weekly" || value?.type === "interval" ? (
+        <Stepper
+          label="Occurrences"
+          value={value.count || DEFAULT_COUNT}
+          min={2}
+          max={MAX_COUNT}
+          onChange={(count) => onChange({ ...value, count })}
+          testID="button-repeat-count"
+        />
+      ) : null}
+
+      {value?.type === "dates" ? (
+        <View style={styles.dateList}>
+          <View style={[styles.dateChip, { backgroundColor: `${AppColors.primary}15` }]}>
+            <ThemedText type="small" style={{ color: AppColors.primary, fontWeight: "600" }}>
+              {formatDay(startDate)}
+            </ThemedText>
+          </View>
+          {value.dates.map((iso) => (
+            <Pressable
+              key={iso}
+              style={[styles.dateChip, { backgroundColor: theme.backgroundSecondary }]}
+              onPress={() => onChange({ ...value, dates: value.dates.filter((d) => d !== iso) })}
+            >
+              <ThemedText type="small">{formatDay(new Date(iso))}</ThemedText>
+              <Icon name="x" size={12} color={theme.textSecondary} />
+            </Pressable>
+          ))}
+          <Pressable
+            style={[styles.dateChip, { borderWidth: 1, borderColor: AppColors.primary }]}
+            onPress={() => {
+              setPendingDate(new Date(Math.max(startDate.getTime(), ...value.dates.map((d) => new Date(d).getTime())) + 86400000));
+              setShowDatePicker(true);
+            }}
+            testID="button-repeat-add-date"
+          >
+            <Icon name="plus" size={12} color={AppColors.primary} />
+            <ThemedText type="small" style={{ color: AppColors.primary }}>Add date</ThemedText>
+          </Pressable>
+        </View>
+      ) : null}
+
+      {value ? (
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          Each date is its own activity with its own attendee list and chat.
+        </ThemedText>
+      ) : null}
+
+      <PickerModal
+        visible={showDatePicker}
+        onClose={addPendingDate}
+        title="Add Date"
+        type="date"
+        dateValue={pendingDate}
+        onDateChange={setPendingDate}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    padding: Spacing.md,
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  modeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  modeChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  weekdayRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  weekday: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperValue: {
+    minWidth: 28,
+    textAlign: "center",
+    fontWeight: "600",
+  },
+  dateList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  dateChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+});
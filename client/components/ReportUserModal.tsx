@@ -0,0 +1,239 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Modal,
+  Pressable,
+  TextInput,
+  ScrollView,
+} from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { ReportReason } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+export const REPORT_REASON_OPTIONS: { value: ReportReason; label: string }[] = [
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "spam", label: "Spam" },
+  { value: "scam", label: "Scam or fraud" },
+  { value: "inappropriate_content", label: "Inappropriate content" },
+  { value: "fake_profile", label: "Fake profile" },
+  { value: "underage", label: "Appears to be underage" },
+  { value: "safety_concern", label: "Safety concern" },
+  { value: "other", label: "Something else" },
+];
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (report: { reason: ReportReason; details?: string; alsoBlock: boolean }) => void;
+  userName?: string;
+}
+
+export default function ReportUserModal({
+  visible,
+  onClose,
+  onSubmit,
+  userName,
+}: Props) {
+  const { theme } = useTheme();
+
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [alsoBlock, setAlsoBlock] = useState(true);
+
+  const reset = () => {
+    setReason(null);
+    setDetails("");
+    setAlsoBlock(true);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleSubmit = () => {
+    if (!reason) return;
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onSubmit({ reason, details: details.trim() || undefined, alsoBlock });
+    reset();
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <View style={[styles.iconCircle, { backgroundColor: `${AppColors.danger}20` }]}>
+              <Icon name="flag" size={28} color={AppColors.danger} />
+            </View>
+            <ThemedText type="h3" style={styles.title}>
+              {userName ? `Report ${userName}` : "Report User"}
+            </ThemedText>
+            <ThemedText type="body" style={[styles.subtitle, { color: theme.textSecondary }]}>
+              Reports are confidential
+            </ThemedText>
+          </View>
+
+          <ScrollView style={styles.reasonList} contentContainerStyle={styles.reasonListContent}>
+            {REPORT_REASON_OPTIONS.map((option) => {
+              const selected = reason === option.value;
+              return (
+                <Pressable
+                  key={option.value}
+                  style={[
+                    styles.optionRow,
+                    { backgroundColor: selected ? `${AppColors.danger}15` : theme.backgroundSecondary },
+                  ]}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    setReason(option.value);
+                  }}
+                  testID={`report-reason-${option.value}`}
+                >
+                  <ThemedText type="body" style={styles.optionLabel}>
+                    {option.label}
+                  </ThemedText>
+                  {selected ? <Icon name="check" size={18} color={AppColors.danger} /> : null}
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+
+          <TextInput
+            value={details}
+            onChangeText={setDetails}
+            placeholder="Add details (optional)"
+            placeholderTextColor={theme.textSecondary}
+            multiline
+            maxLength={2000}
+            style={[styles.detailsInput, { color: theme.text, borderColor: theme.border }]}
+          />
+
+          <Pressable
+            style={styles.optionRow}
+            onPress={() => setAlsoBlock(!alsoBlock)}
+            testID="checkbox-also-block"
+          >
+            <View
+              style={[
+                styles.checkbox,
+                {
+                  backgroundColor: alsoBlock ? AppColors.danger : "transparent",
+                  borderColor: alsoBlock ? AppColors.danger : theme.border,
+                },
+              ]}
+            >
+              {alsoBlock ? <Icon name="check" size={14} color="#FFFFFF" /> : null}
+            </View>
+            <ThemedText type="body" style={styles.optionLabel}>
+              Also block this user
+            </ThemedText>
+          </Pressable>
+
+          <View style={styles.footer}>
+            <GradientButton
+              onPress={handleSubmit}
+              disabled={!reason}
+              style={styles.submitButton}
+            >
+              Submit Report
+            </GradientButton>
+            <Pressable onPress={handleClose} style={styles.cancelButton}>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                Cancel
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 380,
+    maxHeight: "90%",
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.xl,
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  iconCircle: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.md,
+  },
+  title: {
+    textAlign: "center",
+    marginBottom: Spacing.xs,
+  },
+  subtitle: {
+    textAlign: "center",
+  },
+  reasonList: {
+    flexGrow: 0,
+    maxHeight: 280,
+  },
+  reasonListContent: {
+    gap: Spacing.sm,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  optionLabel: {
+    flex: 1,
+  },
+  detailsInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    minHeight: 72,
+    marginTop: Spacing.md,
+    textAlignVertical: "top",
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  footer: {
+    alignItems: "center",
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  submitButton: {
+    width: "100%",
+  },
+  cancelButton: {
+    padding: Spacing.sm,
+  },
+});
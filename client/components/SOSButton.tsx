@@ -28,11 +28,15 @@ import { AppColors, BorderRadius, Spacing, Shadows } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/context/AuthContext";
 import { useAlert } from "@/context/AlertContext";
-import { apiRequest } from "@/lib/query-client";
+import { useLocationShare } from "@/context/LocationShareContext";
+import { getApiUrl } from "@/lib/query-client";
+import { subscribeRealtime } from "@/lib/realtime";
+import { SOSInvitation } from "@/types";
 
 const SHAKE_THRESHOLD = 2.5;
 const SHAKE_COUNT_REQUIRED = 3;
 const SHAKE_RESET_TIME = 1500;
+const SOS_SHARE_DURATION_MINUTES = 60;
 
 export type SOSAction = "whatsapp_only" | "whatsapp_and_call_contact" | "whatsapp_and_call_police" | "call_police_only";
 
@@ -42,8 +46,9 @@ interface SOSButtonProps {
 
 export function SOSButton({ visible = true }: SOSButtonProps) {
   const { theme } = useTheme();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { showAlert } = useAlert();
+  const { startShare } = useLocationShare();
   const insets = useSafeAreaInsets();
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [isSending, setIsSending] = useState(false);
@@ -52,6 +57,10 @@ export function SOSButton({ visible = true }: SOSButtonProps) {
   const lastTapRef = useRef<number>(0);
   const shakeCountRef = useRef<number>(0);
   const lastShakeTimeRef = useRef<number>(0);
+  const showAlertRef = useRef(showAlert);
+  showAlertRef.current = showAlert;
+  const sessionTokenRef = useRef(session?.sessionToken);
+  sessionTokenRef.current = session?.sessionToken;
 
   const pulseScale = useSharedValue(1);
   const buttonScale = useSharedValue(1);
@@ -67,6 +76,47 @@ export function SOSButton({ visible = true }: SOSButtonProps) {
     );
   }, []);
 
+  // Trusted contacts and nearby verified users are asked to opt in when someone raises an SOS
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId) return;
+
+    const respond = async (incidentId: string, accept: boolean) => {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (sessionTokenRef.current) headers.Authorization = `Bearer ${sessionTokenRef.current}`;
+      try {
+        const response = await fetch(new URL(`/api/sos/incidents/${incidentId}/respond`, getApiUrl()).toString(), {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ userId, accept }),
+        });
+        if (!response.ok) throw new Error(`${response.status}: ${await response.text()}`);
+      } catch (error) {
+        console.log("Failed to respond to SOS invitation:", error);
+        showAlertRef.current({ type: "error", title: "Error", message: "Could not send your response. Please try again." });
+      }
+    };
+
+    return subscribeRealtime(`user:${userId}`, (event) => {
+      if (event.type !== "sos.invited" || !event.invitation) return;
+      const invitation = event.invitation as SOSInvitation;
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      }
+      showAlertRef.current({
+        type: "warning",
+        title: `${invitation.userName || "Someone"} needs help`,
+        message: invitation.relation === "trusted_contact"
+          ? "You are one of their trusted contacts. Can you respond?"
+          : "A traveler near you raised an SOS. Can you respond?",
+        buttons: [
+          { text: "Not now", style: "cancel", onPress: () => respond(invitation.incidentId, false) },
+          { text: "I can help", onPress: () => respond(invitation.incidentId, true) },
+        ],
+      });
+    });
+  }, [user?.id]);
+
   useEffect(() => {
     if (!visible || Platform.OS === "web") return;
 
@@ -142,17 +192,24 @@ export function SOSButton({ visible = true }: SOSButtonProps) {
 
   const logIncident = async (location: Location.LocationObject | null, message?: string) => {
     try {
-      await apiRequest("POST", "/api/sos/log", {
-        userId: user?.id,
-        userName: user?.name,
-        location: location ? {
-          latitude: location.coords.latitude,
-          longitude: location.coords.longitude,
-        } : null,
-        timestamp: new Date().toISOString(),
-        emergencyContact: user?.emergencyContact,
-        message,
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
+      const response = await fetch(new URL("/api/sos/log", getApiUrl()).toString(), {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          userId: user?.id,
+          userName: user?.name,
+          location: location ? {
+            latitude: location.coords.latitude,
+            longitude: location.coords.longitude,
+          } : null,
+          timestamp: new Date().toISOString(),
+          emergencyContact: user?.emergencyContact,
+          message,
+        }),
       });
+      if (!response.ok) throw new Error(`${response.status}: ${await response.text()}`);
     } catch (error) {
       console.log("Failed to log incident:", error);
     }
@@ -274,6 +331,51 @@ export function SOSButton({ visible = true }: SOSButtonProps) {
     }
   };
 
+  const shareLiveLocation = async () => {
+    const contact = user?.emergencyContact;
+    if (!contact?.phone) {
+      showAlert({
+        type: "warning",
+        title: "No Emergency Contact",
+        message: "Please add an emergency contact in your profile settings first.",
+      });
+      setShowConfirmModal(false);
+      return;
+    }
+
+    setIsSending(true);
+    setShowConfirmModal(false);
+
+    try {
+      const share = await startShare({
+        contactName: contact.name || "Emergency contact",
+        durationMinutes: SOS_SHARE_DURATION_MINUTES,
+      });
+      if (!share?.viewUrl) throw new Error("Location share did not return a link");
+
+      const message = `${user?.name || "Someone"} is sharing their live location with you for the next hour:\n\n${share.viewUrl}\n\nSent via ExploreX SOS`;
+      logIncident(currentLocation, message);
+
+      const sent = await openWhatsApp(contact.phone, message);
+      if (!sent) {
+        showAlert({
+          type: "warning",
+          title: "WhatsApp Not Available",
+          message: "Your location is being shared, but WhatsApp could not be opened to send the link.",
+        });
+      }
+    } catch (error) {
+      console.error("SOS live location error:", error);
+      showAlert({
+        type: "error",
+        title: "Error",
+        message: error instanceof Error ? error.message : "Failed to start sharing your live location.",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
   if (!visible) return null;
 
   return (
@@ -375,6 +477,18 @@ export function SOSButton({ visible = true }: SOSButtonProps) {
                   WhatsApp Only
                 </ThemedText>
               </Pressable>
+
+              <Pressable
+                style={[styles.actionRow, { backgroundColor: theme.backgroundSecondary }]}
+                onPress={shareLiveLocation}
+                disabled={isSending}
+                testID="button-share-live-location"
+              >
+                <Icon name="navigation" size={18} color={theme.text} />
+                <ThemedText type="body" style={[styles.actionText, { color: theme.text }]}>
+                  Share Live Location (1 hour)
+                </ThemedText>
+              </Pressable>
             </View>
 
             <Pressable
@@ -4,6 +4,7 @@ import {
   View,
   Modal,
   Pressable,
+  ScrollView,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
@@ -11,6 +12,7 @@ import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
 import { Icon } from "@/components/Icon";
 import { GradientButton } from "@/components/GradientButton";
+import { Input } from "@/components/Input";
 import { useTheme } from "@/hooks/useTheme";
 import { Activity, SafetyRating } from "@/types";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
@@ -18,7 +20,11 @@ import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 interface Props {
   visible: boolean;
   onClose: () => void;
-  onSubmit: (rating: Omit<SafetyRating, "id" | "createdAt" | "ratedByUserId">) => void;
+  // The review is optional and only sent when the overall experience was rated
+  onSubmit: (
+    rating: Omit<SafetyRating, "id" | "createdAt" | "ratedByUserId">,
+    review: { rating: number; body: string } | null
+  ) => void;
   activity: Activity | null;
 }
 
@@ -34,25 +40,32 @@ export default function SafetyRatingModal({
   const [safetyScore, setSafetyScore] = useState(0);
   const [wasLocationPublic, setWasLocationPublic] = useState(false);
   const [hostWasTrustworthy, setHostWasTrustworthy] = useState(false);
+  const [overallRating, setOverallRating] = useState(0);
+  const [reviewText, setReviewText] = useState("");
 
   const handleSubmit = () => {
     if (safetyScore === 0 || !activity) return;
     
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    onSubmit({
-      activityId: activity.id,
-      safetyScore,
-      wasLocationPublic,
-      hostWasTrustworthy,
-    });
+    onSubmit(
+      {
+        activityId: activity.id,
+        safetyScore,
+        wasLocationPublic,
+        hostWasTrustworthy,
+      },
+      overallRating > 0 ? { rating: overallRating, body: reviewText.trim() } : null
+    );
     
     setSafetyScore(0);
     setWasLocationPublic(false);
     setHostWasTrustworthy(false);
+    setOverallRating(0);
+    setReviewText("");
     onClose();
   };
 
-  const renderStars = () => {
+  const renderStars = (value: number, onChange: (star: number) => void, size: number, testPrefix: string) => {
     return (
       <View style={styles.starsContainer}>
         {[1, 2, 3, 4, 5].map((star) => (
@@ -60,15 +73,15 @@ export default function SafetyRatingModal({
             key={star}
             onPress={() => {
               Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-              setSafetyScore(star);
+              onChange(star);
             }}
             style={styles.starButton}
-            testID={`button-star-${star}`}
+            testID={`${testPrefix}-${star}`}
           >
             <Icon
               name="star"
-              size={36}
-              color={star <= safetyScore ? AppColors.sunsetGold : theme.border}
+              size={size}
+              color={star <= value ? AppColors.sunsetGold : theme.border}
               
             />
           </Pressable>
@@ -127,11 +140,11 @@ export default function SafetyRatingModal({
             </ThemedText>
           </View>
 
-          <View style={styles.content}>
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
             <ThemedText type="body" style={[styles.questionLabel, { color: theme.text }]}>
               Did you feel safe?
             </ThemedText>
-            {renderStars()}
+            {renderStars(safetyScore, setSafetyScore, 36, "button-star")}
 
             <View style={styles.checkboxSection}>
               {renderCheckbox(
@@ -147,7 +160,22 @@ export default function SafetyRatingModal({
                 "checkbox-host-trustworthy"
               )}
             </View>
-          </View>
+
+            <ThemedText type="body" style={[styles.questionLabel, styles.reviewLabel, { color: theme.text }]}>
+              How was it overall?
+            </ThemedText>
+            {renderStars(overallRating, setOverallRating, 28, "button-overall-star")}
+            {overallRating > 0 ? (
+              <Input
+                placeholder="Tell other nomads about the host (optional)"
+                value={reviewText}
+                onChangeText={setReviewText}
+                multiline
+                maxLength={1000}
+                testID="input-activity-review"
+              />
+            ) : null}
+          </ScrollView>
 
           <View style={styles.footer}>
             <GradientButton
@@ -180,6 +208,7 @@ const styles = StyleSheet.create({
   container: {
     width: "100%",
     maxWidth: 360,
+    maxHeight: "90%",
     borderRadius: BorderRadius.xl,
     padding: Spacing.xl,
   },
@@ -219,6 +248,9 @@ const styles = StyleSheet.create({
   starButton: {
     padding: Spacing.xs,
   },
+  reviewLabel: {
+    marginTop: Spacing.xl,
+  },
   checkboxSection: {
     gap: Spacing.sm,
   },
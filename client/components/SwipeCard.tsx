@@ -22,7 +22,8 @@ import { Icon } from "@/components/Icon";
 
 import { ThemedText } from "@/components/ThemedText";
 import { TravelBadgeDisplay } from "@/components/TravelBadge";
-import { User } from "@/types";
+import { formatTripOverlap } from "@/lib/trips";
+import { TripOverlap, User } from "@/types";
 import { BorderRadius, Spacing, AppColors, Shadows } from "@/constants/theme";
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
@@ -41,6 +42,8 @@ const INTENT_LABELS: Record<string, string> = {
 interface SwipeCardProps {
   user: User;
   distance?: number;
+  superLikedYou?: boolean;
+  tripOverlaps?: TripOverlap[];
   onSwipeLeft: () => void;
   onSwipeRight: () => void;
   isFirst: boolean;
@@ -51,6 +54,8 @@ interface SwipeCardProps {
 export function SwipeCard({
   user,
   distance,
+  superLikedYou,
+  tripOverlaps,
   onSwipeLeft,
   onSwipeRight,
   isFirst,
@@ -154,6 +159,13 @@ export function SwipeCard({
           style={styles.gradient}
         />
         
+        {superLikedYou ? (
+          <View style={styles.superLikeBadge}>
+            <Icon name="star" size={14} color="#FFF" />
+            <ThemedText style={styles.superLikeText}>Super liked you</ThemedText>
+          </View>
+        ) : null}
+
         <Animated.View style={[styles.likeStamp, likeOpacity]}>
           <ThemedText style={[styles.stampText, { color: AppColors.sunsetCoral }]}>LIKE</ThemedText>
         </Animated.View>
@@ -190,6 +202,16 @@ export function SwipeCard({
             </View>
           </View>
 
+          {tripOverlaps && tripOverlaps.length > 0 ? (
+            <View style={styles.overlapPill}>
+              <Icon name="map-pin" size={11} color="#FFF" />
+              <ThemedText style={styles.signalText} numberOfLines={1}>
+                {formatTripOverlap(tripOverlaps[0])}
+                {tripOverlaps.length > 1 ? ` +${tripOverlaps.length - 1} more` : ""}
+              </ThemedText>
+            </View>
+          ) : null}
+
           {user.activePlan?.title ? (
             <View style={styles.planPill}>
               <Icon name="calendar" size={11} color="#FFF" />
@@ -239,6 +261,23 @@ const styles = StyleSheet.create({
     bottom: 0,
     height: "60%",
   },
+  superLikeBadge: {
+    position: "absolute",
+    top: 16,
+    left: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: AppColors.sunsetGold,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 6,
+  },
+  superLikeText: {
+    color: "#FFF",
+    fontSize: 13,
+    fontWeight: "700" as const,
+  },
   likeStamp: {
     position: "absolute",
     top: 50,
@@ -334,6 +373,18 @@ const styles = StyleSheet.create({
     alignSelf: "flex-start",
     maxWidth: "98%",
   },
+  overlapPill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "rgba(16,185,129,0.85)",
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginBottom: 6,
+    alignSelf: "flex-start",
+    maxWidth: "98%",
+  },
   signalText: {
     color: "#FFF",
     fontSize: 11,
@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { Input } from "@/components/Input";
+import { GradientButton } from "@/components/GradientButton";
+import { PickerModal } from "@/components/PickerModal";
+import { useTheme } from "@/hooks/useTheme";
+import { addTripDays, formatTripDateRange, fromTripDate, toTripDate } from "@/lib/trips";
+import { TripStop } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const MAX_TRIP_STOPS = 12;
+const DEFAULT_STOP_DAYS = 3;
+
+type DateField = "startsOn" | "endsOn";
+
+function nextStop(previous?: TripStop): TripStop {
+  const startsOn = previous ? addTripDays(previous.endsOn, 1) : toTripDate(new Date());
+  return { city: "", startsOn, endsOn: addTripDays(startsOn, DEFAULT_STOP_DAYS) };
+}
+
+interface Props {
+  visible: boolean;
+  stops: TripStop[];
+  isSaving?: boolean;
+  onClose: () => void;
+  onSave: (stops: TripStop[]) => void;
+}
+
+export default function TripItineraryModal({
+  visible,
+  stops,
+  isSaving,
+  onClose,
+  onSave,
+}: Props) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState<TripStop[]>(stops);
+  const [picker, setPicker] = useState<{ index: number; field: DateField } | null>(null);
+  const [error, setError] = useState("");
+
+  // Every opening starts from the saved itinerary, dropping unsaved edits
+  useEffect(() => {
+    if (visible) {
+      setDraft(stops.length > 0 ? stops : [nextStop()]);
+      setError("");
+    }
+  }, [visible, stops]);
+
+  const updateStop = (index: number, changes: Partial<TripStop>) => {
+    setDraft((prev) =>
+      prev.map((stop, i) => {
+        if (i !== index) return stop;
+        const next = { ...stop, ...changes };
+        // Keep the range ordered when either end is moved past the other
+        if (next.endsOn < next.startsOn) {
+          return changes.endsOn ? { ...next, startsOn: next.endsOn } : { ...next, endsOn: next.startsOn };
+        }
+        return next;
+      }),
+    );
+  };
+
+  const addStop = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDraft((prev) => [...prev, nextStop(prev[prev.length - 1])]);
+  };
+
+  const removeStop = (index: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setDraft((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    const trimmed = draft.map((stop) => ({ ...stop, city: stop.city.trim() }));
+    if (trimmed.some((stop) => !stop.city)) {
+      setError("Every stop needs a city");
+      return;
+    }
+    setError("");
+    onSave(trimmed);
+  };
+
+  const pickedStop = picker ? draft[picker.index] : undefined;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.sheet, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <View style={{ width: 22 }} />
+            <ThemedText type="h4">Trip Itinerary</ThemedText>
+            <Pressable onPress={onClose} hitSlop={12}>
+              <Icon name="x" size={22} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Add where you&apos;ll be and when. We&apos;ll show you nomads heading to the same places at the same time.
+            </ThemedText>
+
+            {draft.map((stop, index) => (
+              <View key={stop.id || `stop-${index}`} style={[styles.stop, { backgroundColor: theme.backgroundSecondary }]}>
+                <View style={styles.stopHeader}>
+                  <ThemedText type="body" style={styles.stopTitle}>
+                    Stop {index + 1}
+                  </ThemedText>
+                  <Pressable onPress={() => removeStop(index)} hitSlop={12} testID={`button-remove-stop-${index}`}>
+                    <Icon name="trash" size={18} color={theme.textSecondary} />
+                  </Pressable>
+                </View>
+                <Input
+                  placeholder="City, e.g. Lisbon"
+                  value={stop.city}
+                  onChangeText={(text) => updateStop(index, { city: text })}
+                  icon="map-pin"
+                  testID={`input-stop-city-${index}`}
+                />
+                <View style={styles.dateRow}>
+                  {(["startsOn", "endsOn"] as DateField[]).map((field) => (
+                    <Pressable
+                      key={field}
+                      style={[styles.dateButton, { borderColor: theme.border }]}
+                      onPress={() => setPicker({ index, field })}
+                      testID={`button-stop-${field}-${index}`}
+                    >
+                      <Icon name="calendar" size={14} color={AppColors.primary} />
+                      <View>
+                        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                          {field === "startsOn" ? "Arrive" : "Leave"}
+                        </ThemedText>
+                        <ThemedText type="body">{formatTripDateRange(stop[field], stop[field])}</ThemedText>
+                      </View>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            ))}
+
+            {draft.length < MAX_TRIP_STOPS ? (
+              <Pressable
+                style={[styles.addButton, { borderColor: AppColors.primary }]}
+                onPress={addStop}
+                testID="button-add-stop"
+              >
+                <Icon name="plus" size={18} color={AppColors.primary} />
+                <ThemedText type="body" style={{ color: AppColors.primary }}>
+                  Add Stop
+                </ThemedText>
+              </Pressable>
+            ) : null}
+
+            {error ? (
+              <ThemedText type="small" style={[styles.error, { color: AppColors.sunsetRose }]}>
+                {error}
+              </ThemedText>
+            ) : null}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <GradientButton onPress={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Itinerary"}
+            </GradientButton>
+          </View>
+        </View>
+
+        <PickerModal
+          visible={picker !== null}
+          onClose={() => setPicker(null)}
+          title={picker?.field === "endsOn" ? "Leaving On" : "Arriving On"}
+          type="date"
+          dateValue={pickedStop && picker ? fromTripDate(pickedStop[picker.field]) : undefined}
+          onDateChange={(date) => {
+            if (picker) updateStop(picker.index, { [picker.field]: toTripDate(date) });
+          }}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    maxHeight: "88%",
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingTop: Spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  content: {
+    paddingHorizontal: Spacing.xl,
+    paddingBottom: Spacing.lg,
+    gap: Spacing.lg,
+  },
+  stop: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  stopHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  stopTitle: {
+    fontWeight: "600",
+  },
+  dateRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderStyle: "dashed",
+  },
+  error: {
+    textAlign: "center",
+  },
+  footer: {
+    paddingHorizontal: Spacing.xl,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing["2xl"],
+  },
+});
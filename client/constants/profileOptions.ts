@@ -0,0 +1,36 @@
+import type { IntentMode, LocationPrecision, LookingForType } from "@/types";
+
+export const VAN_TYPES = [
+  "Sprinter",
+  "ProMaster",
+  "Transit",
+  "Econoline",
+  "Westfalia",
+  "Skoolie",
+  "Truck Camper",
+  "Other",
+];
+
+export const INTENT_MODE_OPTIONS: { value: IntentMode; label: string; icon: string; description: string }[] = [
+  { value: "coffee_now", label: "Coffee Now", icon: "compass", description: "Open for quick, nearby meets" },
+  { value: "explore_city", label: "Explore City", icon: "map", description: "Discover places and events together" },
+  { value: "adventure_partner", label: "Adventure Partner", icon: "navigation", description: "Find activity-first travel companions" },
+  { value: "deep_talk", label: "Deep Talk", icon: "message-square", description: "Prefer meaningful conversations" },
+];
+
+export const LOOKING_FOR_OPTIONS: { value: LookingForType; label: string; icon: string }[] = [
+  { value: "friendship", label: "Friendship", icon: "users" },
+  { value: "travel-buddy", label: "Travel Buddy", icon: "navigation" },
+  { value: "dating", label: "Dating", icon: "heart" },
+  { value: "help-with-build", label: "Help with Build", icon: "tool" },
+  { value: "local-tips", label: "Local Tips", icon: "map-pin" },
+  { value: "activities", label: "Activities", icon: "calendar" },
+  { value: "networking", label: "Networking", icon: "briefcase" },
+];
+
+export const LOCATION_PRECISION_OPTIONS: { value: LocationPrecision; label: string; icon: string; description: string }[] = [
+  { value: "exact", label: "Exact", icon: "target", description: "Show your precise spot on the radar" },
+  { value: "approx_500m", label: "Within 500 m", icon: "map-pin", description: "Nearby, but not your exact spot" },
+  { value: "approx_5km", label: "Within 5 km", icon: "map", description: "Roughly which part of town you're in" },
+  { value: "city", label: "City Only", icon: "globe", description: "Only a rough distance, never a point on the map" },
+];
@@ -2,10 +2,10 @@ import React, { createContext, useContext, useState, useEffect, ReactNode, useRe
 import Constants from "expo-constants";
 import { Platform } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { User } from "@/types";
+import { User, UserRole } from "@/types";
 
 interface LocalSession {
-  user: { id: string; email: string; name?: string };
+  user: { id: string; email: string; name?: string; role?: UserRole };
   sessionToken?: string;
 }
 
@@ -34,6 +34,7 @@ type AuthUserLike = {
   id: string;
   email?: string;
   name?: string;
+  role?: UserRole;
 };
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -113,6 +114,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             location: profile.location,
             intentMode: profile.intentMode,
             activePlan: profile.activePlan,
+            hideLastSeen: profile.hideLastSeen,
+            locationPrecision: profile.locationPrecision,
+            vanType: profile.vanType,
+            travelStyle: profile.travelStyle,
+            lookingFor: profile.lookingFor,
           }),
         },
         15000
@@ -259,6 +265,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           id: authUser.id,
           email: authUser.email || email.toLowerCase(),
           name: authUser.name,
+          role: authUser.role,
         },
         sessionToken: typeof data?.sessionToken === "string" ? data.sessionToken : undefined,
       };
@@ -308,6 +315,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           id: authUser.id,
           email: authUser.email || email.toLowerCase(),
           name: authUser.name || name,
+          role: authUser.role,
         },
         sessionToken: typeof data?.sessionToken === "string" ? data.sessionToken : undefined,
       };
@@ -387,6 +395,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           activePlan: data.active_plan || data.activePlan || user.activePlan || null,
           trustScore: data.trust_score ?? data.trustScore ?? user.trustScore,
           meetupCount: data.meetup_count ?? data.meetupCount ?? user.meetupCount,
+          hideLastSeen: data.hide_last_seen ?? data.hideLastSeen ?? user.hideLastSeen,
+          locationPrecision: data.location_precision ?? data.locationPrecision ?? user.locationPrecision,
         };
       }
 
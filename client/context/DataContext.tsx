@@ -1,8 +1,10 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useRef } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { User, Match, Message, Activity, ForumPost, SwipeCard, ChatMessageType } from "@/types";
+import { User, Match, Message, MessageSearchResult, BlockedUser, ReportReason, ReportStatus, ModerationReport, ModerationReportDetail, ModerationAction, ModerationActionType, MessageStatus, Activity, ActivityJoinResult, ActivityRecurrence, ActivitySearchFilters, ActivityReview, ActivityUpdate, HostReputationDetail, SafetyRating, ActivityEdit, ActivityCheckIn, ActivityCheckInCode, CalendarFeed, ForumPost, SwipeCard, SwipeQuota, DiscoverPreferences, RadarVisibilityRules, RadarHeatmap, PlanCard, TripStop, TripOverlapMatch, ChatMessageType, Presence, Meetup, MeetupCheckIn } from "@/types";
 import { getApiUrl } from "@/lib/query-client";
+import { sendRealtimeTyping, setRealtimeSession, subscribeRealtime, type RealtimeEvent } from "@/lib/realtime";
 import { useAuth } from "./AuthContext";
+import { useSubscription } from "./SubscriptionContext";
 
 interface DataContextType {
   profiles: SwipeCard[];
@@ -11,30 +13,114 @@ interface DataContextType {
   activities: Activity[];
   forumPosts: ForumPost[];
   likedProfiles: User[];
+  presence: Record<string, Presence>;
+  typingByMatch: Record<string, boolean>;
+  blockedUsers: BlockedUser[];
   isLoading: boolean;
+  swipeQuota: SwipeQuota | null;
   swipeRight: (userId: string) => Promise<Match | null>;
   swipeLeft: (userId: string) => void;
+  superLike: (userId: string) => Promise<Match | null>;
+  undoLastSwipe: () => Promise<SwipeCard | null>;
+  loadMoreProfiles: () => Promise<void>;
+  getDiscoverPreferences: () => Promise<DiscoverPreferences>;
+  saveDiscoverPreferences: (preferences: DiscoverPreferences) => Promise<DiscoverPreferences>;
+  getRadarVisibilityRules: () => Promise<RadarVisibilityRules>;
+  saveRadarVisibilityRules: (rules: RadarVisibilityRules) => Promise<RadarVisibilityRules>;
+  setGhostMode: (enabled: boolean) => Promise<string | null>;
+  getRadarHeatmap: (center: { latitude: number; longitude: number }, radiusKm?: number) => Promise<RadarHeatmap | null>;
+  saveItinerary: (stops: TripStop[]) => Promise<PlanCard | null>;
+  setItinerarySharing: (shareOverlaps: boolean) => Promise<PlanCard | null>;
+  getTripOverlaps: () => Promise<TripOverlapMatch[]>;
+  getMeetupWithMatch: (partnerId: string) => Promise<{ meetup: Meetup | null; checkIn: MeetupCheckIn | null }>;
+  planMeetup: (partnerId: string) => Promise<{ meetup: Meetup | null; checkIn: MeetupCheckIn | null }>;
+  startMeetupCheckIn: (meetupId: string, durationMinutes: number, location?: { latitude: number; longitude: number }) => Promise<{ checkIn: MeetupCheckIn; warning?: string }>;
+  confirmMeetupSafe: (meetupId: string) => Promise<MeetupCheckIn>;
   sendMessage: (matchId: string, content: string, type?: ChatMessageType, photoUrl?: string, location?: { latitude: number; longitude: number; name?: string; address?: string }, fileUrl?: string, fileName?: string, replyTo?: { id: string; content: string; senderName?: string }, audioDuration?: number) => Promise<Message>;
   editMessage: (matchId: string, messageId: string, newContent: string) => Promise<void>;
   deleteMessage: (matchId: string, messageId: string) => Promise<void>;
   toggleMessageReaction: (matchId: string, messageId: string, emoji: string) => Promise<void>;
   toggleFavourite: (matchId: string) => Promise<void>;
   markMatchAsRead: (matchId: string) => Promise<void>;
+  loadOlderMessages: (matchId: string) => Promise<boolean>;
+  searchMessages: (query: string) => Promise<MessageSearchResult[]>;
+  blockUser: (userId: string) => Promise<void>;
+  unblockUser: (userId: string) => Promise<void>;
+  reportUser: (report: { reportedUserId: string; reason: ReportReason; details?: string; messageIds?: string[] }) => Promise<void>;
+  getModerationQueue: (status?: ReportStatus | "all") => Promise<ModerationReport[]>;
+  getModerationReport: (reportId: string) => Promise<ModerationReportDetail>;
+  takeModerationAction: (input: { reportId?: string; targetUserId?: string; action: Exclude<ModerationActionType, "role_change">; note?: string; durationHours?: number }) => Promise<ModerationAction>;
+  setTyping: (matchId: string, isTyping: boolean) => void;
   deleteMatch: (matchId: string) => Promise<void>;
-  createActivity: (activity: Omit<Activity, "id" | "createdAt" | "host" | "attendees" | "hostId">) => Promise<Activity>;
-  joinActivity: (activityId: string) => Promise<void>;
-  deleteActivity: (activityId: string) => Promise<void>;
+  createActivity: (activity: Omit<Activity, "id" | "createdAt" | "host" | "attendees" | "hostId">, recurrence?: ActivityRecurrence) => Promise<Activity>;
+  joinActivity: (activityId: string) => Promise<ActivityJoinResult>;
+  leaveActivity: (activityId: string) => Promise<void>;
+  deleteActivity: (activityId: string, scope?: "occurrence" | "following") => Promise<void>;
+  updateActivity: (activityId: string, changes: ActivityUpdate) => Promise<Activity>;
+  getActivityEdits: (activityId: string) => Promise<ActivityEdit[]>;
+  getActivityModeratorIds: (activityId: string) => Promise<string[]>;
+  getActivityCheckInCode: (activityId: string) => Promise<ActivityCheckInCode>;
+  checkInToActivity: (activityId: string, code: string, location: { lat: number; lng: number }) => Promise<{ checkIn: ActivityCheckIn; alreadyCheckedIn: boolean }>;
+  getActivityAttendance: (activityId: string) => Promise<ActivityCheckIn[]>;
+  searchActivities: (filters: ActivitySearchFilters, cursor?: string | null) => Promise<{ activities: Activity[]; nextCursor: string | null }>;
+  submitSafetyRating: (rating: Omit<SafetyRating, "id" | "createdAt" | "ratedByUserId">) => Promise<SafetyRating>;
+  submitActivityReview: (activityId: string, rating: number, body: string) => Promise<ActivityReview>;
+  getHostReputation: (hostId: string) => Promise<HostReputationDetail | null>;
+  getCalendarFeed: () => Promise<CalendarFeed | null>;
+  resetCalendarFeed: () => Promise<CalendarFeed>;
   createForumPost: (post: Omit<ForumPost, "id" | "createdAt" | "author" | "authorId" | "upvotes" | "commentCount">) => Promise<ForumPost>;
   upvotePost: (postId: string) => Promise<void>;
   refreshData: () => Promise<void>;
 }
 
+interface MessageHit {
+  kind: "match" | "activity";
+  conversationId: string;
+  message: any;
+}
+
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
 const MATCHES_KEY = "@nomad_matches";
 const MESSAGES_KEY = "@nomad_messages";
 const FORUM_KEY = "@nomad_forum";
 const SWIPES_KEY = "@nomad_swipes";
+const TYPING_INDICATOR_TTL_MS = 6000;
+const MESSAGE_PAGE_SIZE = 50;
+const DISCOVER_PAGE_SIZE = 20;
+const ACTIVITY_PAGE_SIZE = 20;
+
+function mapActivityFromApi(row: any): Activity {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description || "",
+    type: row.type || row.category || "other",
+    category: row.category || row.type,
+    date: row.date,
+    endDate: row.end_date || row.endDate,
+    duration: (row.end_date || row.endDate)
+      ? Math.round((new Date(row.end_date || row.endDate).getTime() - new Date(row.date).getTime()) / 3600000)
+      : undefined,
+    seriesId: row.series_id || row.seriesId,
+    recurrenceLabel: row.recurrenceLabel,
+    distanceKm: typeof row.distanceKm === "number" ? row.distanceKm : undefined,
+    hostReputation: row.hostReputation,
+    cursor: row.cursor,
+    location: row.location,
+    latitude: row.latitude ? parseFloat(row.latitude) : undefined,
+    longitude: row.longitude ? parseFloat(row.longitude) : undefined,
+    hostId: row.host_id || row.hostId,
+    host: row.host_data || row.host,
+    attendeeIds: row.attendee_ids || row.attendeeIds || [],
+    attendees: row.attendees_data || row.attendees || [],
+    waitlistIds: row.waitlist_ids || row.waitlistIds || [],
+    waitlist: row.waitlist_data || row.waitlist || [],
+    maxAttendees: row.max_attendees || row.maxAttendees,
+    imageUrl: row.image_url || row.imageUrl,
+    createdAt: row.created_at || row.createdAt,
+  } as Activity;
+}
 
 const MOCK_USERS: User[] = [
   {
@@ -386,7 +472,8 @@ const MOCK_FORUM_POSTS: ForumPost[] = [
 ];
 
 export function DataProvider({ children }: { children: ReactNode }) {
-  const { user, session } = useAuth();
+  const { user, session, refreshProfile } = useAuth();
+  const { tier } = useSubscription();
   const [profiles, setProfiles] = useState<SwipeCard[]>([]);
   const [matches, setMatches] = useState<Match[]>([]);
   const [messages, setMessages] = useState<Record<string, Message[]>>({});
@@ -394,12 +481,27 @@ export function DataProvider({ children }: { children: ReactNode }) {
   const [forumPosts, setForumPosts] = useState<ForumPost[]>([]);
   const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
+  const [presence, setPresence] = useState<Record<string, Presence>>({});
+  const [typingByMatch, setTypingByMatch] = useState<Record<string, boolean>>({});
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [swipeQuota, setSwipeQuota] = useState<SwipeQuota | null>(null);
+  const typingTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
   const loadRequestRef = useRef(0);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const matchesRef = useRef(matches);
+  matchesRef.current = matches;
+  const discoverCursorRef = useRef<string | null>(null);
+  const isLoadingMoreProfilesRef = useRef(false);
 
   useEffect(() => {
     loadData();
   }, [user?.id]);
 
+  useEffect(() => {
+    setRealtimeSession(session?.sessionToken);
+  }, [session?.sessionToken]);
+
   const fetchActivitiesFromAPI = async (): Promise<Activity[] | null> => {
     try {
       const baseUrl = getApiUrl();
@@ -413,23 +515,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
       if (!data) return null;
       
       // Transform API data to Activity format
-      const activities: Activity[] = data.map((row: any) => ({
-        id: row.id,
-        title: row.title,
-        description: row.description || "",
-        category: row.category || row.type,
-        date: row.date,
-        location: row.location,
-        latitude: row.latitude ? parseFloat(row.latitude) : undefined,
-        longitude: row.longitude ? parseFloat(row.longitude) : undefined,
-        hostId: row.host_id || row.hostId,
-        host: row.host_data || row.host,
-        attendeeIds: row.attendee_ids || row.attendeeIds || [],
-        attendees: row.attendees_data || row.attendees || [],
-        maxAttendees: row.max_attendees || row.maxAttendees,
-        imageUrl: row.image_url || row.imageUrl,
-        createdAt: row.created_at || row.createdAt,
-      }));
+      const activities: Activity[] = data.map(mapActivityFromApi);
       
       return activities;
     } catch (error) {
@@ -473,6 +559,22 @@ export function DataProvider({ children }: { children: ReactNode }) {
     editedAt: row.edited_at || row.editedAt || undefined,
   });
 
+  // Match rows come back as stored; activity rows are already mapped by the server
+  const mapMessageHit = (hit: MessageHit): MessageSearchResult => {
+    const message = hit.kind === "match" ? mapApiMessageToClient(hit.message) : hit.message;
+    return {
+      kind: hit.kind,
+      conversationId: hit.conversationId,
+      messageId: message.id,
+      senderId: message.senderId,
+      type: message.type || "text",
+      content: message.content || "",
+      fileName: message.fileName,
+      locationName: message.location?.name || message.location?.address,
+      createdAt: message.createdAt,
+    };
+  };
+
   const mergeMessagesById = (localMessages: Message[], serverMessages: Message[]): Message[] => {
     const byId = new Map<string, Message>();
 
@@ -565,8 +667,10 @@ export function DataProvider({ children }: { children: ReactNode }) {
         if (requestId !== loadRequestRef.current) return;
 
         setProfiles([]);
+        discoverCursorRef.current = null;
         setMatches([]);
         setMessages({});
+        setPresence({});
         setActivities(activeActivities);
         setForumPosts(MOCK_FORUM_POSTS);
         setLikedIds(new Set());
@@ -596,15 +700,24 @@ export function DataProvider({ children }: { children: ReactNode }) {
       setForumPosts(loadedForum);
       setIsLoading(false);
 
-      const [discoverRes, matchesRes, likedRes, loadedActivities] = await Promise.all([
-        fetchJsonWithTimeout<SwipeCard[]>(new URL(`/api/discover/profiles/${userId}`, baseUrl), [], 7000),
+      const [discoverRes, matchesRes, likedRes, loadedActivities, presenceRes, blockedRes] = await Promise.all([
+        fetchJsonWithTimeout<SwipeCard[]>(buildDiscoverUrl(userId, null), [], 7000, authHeaders()),
         fetchJsonWithTimeout<Match[]>(new URL(`/api/matches/${userId}`, baseUrl), [], 7000, authHeaders()),
         fetchJsonWithTimeout<User[]>(new URL(`/api/swipes/liked/${userId}`, baseUrl), [], 7000, authHeaders()),
         fetchActivitiesFromAPI(),
+        fetchJsonWithTimeout<(Presence & { matchId: string })[]>(new URL(`/api/presence/${userId}`, baseUrl), [], 7000, authHeaders()),
+        fetchJsonWithTimeout<BlockedUser[]>(new URL(`/api/blocks/${userId}`, baseUrl), [], 7000, authHeaders()),
       ]);
 
       if (requestId !== loadRequestRef.current) return;
 
+      const loadedPresence: Record<string, Presence> = {};
+      for (const { matchId, ...entry } of presenceRes || []) {
+        loadedPresence[matchId] = entry;
+      }
+      setPresence(loadedPresence);
+      setBlockedUsers(blockedRes || []);
+
       const serverMatchIds = new Set(matchesRes.map((m) => m.id));
       const mergedMatches = dedupeMatchesById([
         ...matchesRes.map((serverMatch) => {
@@ -614,7 +727,6 @@ export function DataProvider({ children }: { children: ReactNode }) {
                 ...serverMatch,
                 lastMessage: local.lastMessage,
                 isFavourite: local.isFavourite,
-                unreadCount: local.unreadCount,
               }
             : serverMatch;
         }),
@@ -635,6 +747,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
         return aMock ? 1 : -1;
       });
       setProfiles(sortedDiscoverCards);
+      discoverCursorRef.current = getNextDiscoverCursor(discoverRes || []);
       setActivities(loadedActivities || []);
       setLikedIds(new Set(likedRes.map((u) => u.id)));
 
@@ -642,6 +755,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
         mergedMatches.map(async (match) => {
           const messagesUrl = new URL(`/api/messages/${match.id}`, baseUrl);
           messagesUrl.searchParams.set("userId", userId);
+          messagesUrl.searchParams.set("limit", String(MESSAGE_PAGE_SIZE));
           const serverRows = await fetchJsonWithTimeout<any[]>(
             messagesUrl,
             [],
@@ -667,6 +781,14 @@ export function DataProvider({ children }: { children: ReactNode }) {
 
       AsyncStorage.setItem(`${MATCHES_KEY}_${userId}`, JSON.stringify(finalMatches)).catch(() => {});
       AsyncStorage.setItem(`${MESSAGES_KEY}_${userId}`, JSON.stringify(syncedMessages)).catch(() => {});
+
+      // Acknowledge delivery of anything that arrived while this device was away
+      for (const match of finalMatches) {
+        const latestIncoming = [...(syncedMessages[match.id] || [])].reverse().find((m) => m.senderId !== userId);
+        if (latestIncoming?.status === "sent") {
+          postReceipt(match.id, "delivered", latestIncoming.id).catch(() => {});
+        }
+      }
     } catch (error) {
       console.error("Failed to load data:", error);
       if (requestId === loadRequestRef.current) {
@@ -675,6 +797,222 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // The feed is ranked server-side; the next page starts after the cursor of the last card received
+  const getNextDiscoverCursor = (page: SwipeCard[]): string | null => {
+    const last = page[page.length - 1];
+    if (page.length < DISCOVER_PAGE_SIZE || !last?.cursor) return null;
+    return last.cursor;
+  };
+
+  const buildDiscoverUrl = (userId: string, cursor: string | null) => {
+    const url = new URL(`/api/discover/profiles/${userId}`, getApiUrl());
+    url.searchParams.set("limit", String(DISCOVER_PAGE_SIZE));
+    if (cursor) url.searchParams.set("cursor", cursor);
+    return url;
+  };
+
+  const loadMoreProfiles = async () => {
+    const cursor = discoverCursorRef.current;
+    if (!user || !cursor || isLoadingMoreProfilesRef.current) return;
+
+    isLoadingMoreProfilesRef.current = true;
+    try {
+      const page = await fetchJsonWithTimeout<SwipeCard[]>(buildDiscoverUrl(user.id, cursor), [], 7000, authHeaders());
+      discoverCursorRef.current = getNextDiscoverCursor(page);
+      const matchedUserIds = new Set(matches.map((m) => String(m.matchedUser?.id || "")));
+      setProfiles((prev) => {
+        const seen = new Set(prev.map((card) => card.user.id));
+        return [...prev, ...page.filter((card) => !seen.has(card.user.id) && !matchedUserIds.has(card.user.id))];
+      });
+    } catch (error) {
+      console.error("Load more profiles error:", error);
+    } finally {
+      isLoadingMoreProfilesRef.current = false;
+    }
+  };
+
+  const getDiscoverPreferences = async (): Promise<DiscoverPreferences> => {
+    if (!user) throw new Error("Not signed in");
+    const response = await fetch(new URL(`/api/discover/preferences/${user.id}`, getApiUrl()).toString(), {
+      headers: authHeaders(),
+    });
+    if (!response.ok) throw new Error(`Discover preferences failed (${response.status})`);
+    return response.json();
+  };
+
+  // Saving restarts the feed from the first page, since the filters change which profiles rank at all
+  const saveDiscoverPreferences = async (preferences: DiscoverPreferences): Promise<DiscoverPreferences> => {
+    if (!user) throw new Error("Not signed in");
+    const response = await fetch(new URL(`/api/discover/preferences/${user.id}`, getApiUrl()).toString(), {
+      method: "PUT",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify(preferences),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Saving discover preferences failed (${response.status})`);
+
+    const page = await fetchJsonWithTimeout<SwipeCard[]>(buildDiscoverUrl(user.id, null), [], 7000, authHeaders());
+    discoverCursorRef.current = getNextDiscoverCursor(page);
+    const matchedUserIds = new Set(matches.map((m) => String(m.matchedUser?.id || "")));
+    setProfiles(page.filter((card) => !matchedUserIds.has(card.user.id)));
+    return data;
+  };
+
+  const getRadarVisibilityRules = async (): Promise<RadarVisibilityRules> => {
+    if (!user) throw new Error("Not signed in");
+    const response = await fetch(new URL(`/api/radar/visibility-rules/${user.id}`, getApiUrl()).toString(), {
+      headers: authHeaders(),
+    });
+    if (!response.ok) throw new Error(`Radar visibility rules failed (${response.status})`);
+    return response.json();
+  };
+
+  const saveRadarVisibilityRules = async (rules: RadarVisibilityRules): Promise<RadarVisibilityRules> => {
+    if (!user) throw new Error("Not signed in");
+    const response = await fetch(new URL(`/api/radar/visibility-rules/${user.id}`, getApiUrl()).toString(), {
+      method: "PUT",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify(rules),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Saving radar visibility rules failed (${response.status})`);
+    return data;
+  };
+
+  // Resolves to when ghost mode ends, or null once it is switched off
+  const setGhostMode = async (enabled: boolean): Promise<string | null> => {
+    if (!user) throw new Error("Not signed in");
+    const response = enabled
+      ? await fetch(new URL("/api/radar/ghost", getApiUrl()).toString(), {
+          method: "POST",
+          headers: jsonAuthHeaders(),
+          body: JSON.stringify({ userId: user.id }),
+        })
+      : await fetch(new URL(`/api/radar/ghost/${user.id}`, getApiUrl()).toString(), {
+          method: "DELETE",
+          headers: authHeaders(),
+        });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Ghost mode failed (${response.status})`);
+    return data.ghostUntil || null;
+  };
+
+  const getRadarHeatmap = async (
+    center: { latitude: number; longitude: number },
+    radiusKm?: number,
+  ): Promise<RadarHeatmap | null> => {
+    if (!user) return null;
+    const url = new URL(`/api/radar/heatmap/${user.id}`, getApiUrl());
+    url.searchParams.set("lat", String(center.latitude));
+    url.searchParams.set("lng", String(center.longitude));
+    if (radiusKm !== undefined) url.searchParams.set("radiusKm", String(radiusKm));
+    return fetchJsonWithTimeout<RadarHeatmap | null>(url, null, 7000, authHeaders());
+  };
+
+  // The server rewrites the active plan around the stops, so the profile is refreshed to pick up its id and dates
+  const saveItinerary = async (stops: TripStop[]): Promise<PlanCard | null> => {
+    if (!user) throw new Error("Not signed in");
+    const response = await fetch(new URL(`/api/explorex/itinerary/${user.id}`, getApiUrl()).toString(), {
+      method: "PUT",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ stops }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Saving itinerary failed (${response.status})`);
+    await refreshProfile();
+    return data.plan || null;
+  };
+
+  const setItinerarySharing = async (shareOverlaps: boolean): Promise<PlanCard | null> => {
+    if (!user) throw new Error("Not signed in");
+    const response = await fetch(new URL(`/api/explorex/itinerary/${user.id}/sharing`, getApiUrl()).toString(), {
+      method: "PUT",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ shareOverlaps }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Updating itinerary sharing failed (${response.status})`);
+    await refreshProfile();
+    return data.plan || null;
+  };
+
+  const getTripOverlaps = async (): Promise<TripOverlapMatch[]> => {
+    if (!user) return [];
+    return fetchJsonWithTimeout<TripOverlapMatch[]>(
+      new URL(`/api/explorex/trip-overlaps/${user.id}`, getApiUrl()),
+      [],
+      7000,
+      authHeaders()
+    );
+  };
+
+  const getMeetupWithMatch = async (partnerId: string) => {
+    if (!user) return { meetup: null, checkIn: null };
+    const url = new URL(`/api/explorex/meetups/with/${partnerId}`, getApiUrl());
+    url.searchParams.set("userId", user.id);
+    const response = await fetch(url.toString(), { headers: authHeaders() });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Loading meetup failed (${response.status})`);
+    return { meetup: (data.meetup as Meetup) || null, checkIn: (data.checkIn as MeetupCheckIn) || null };
+  };
+
+  // Suggests a public meeting point between both of you and records the meetup the check-in hangs off
+  const planMeetup = async (partnerId: string) => {
+    if (!user) throw new Error("Not signed in");
+    const response = await fetch(new URL("/api/explorex/meet-now/suggest", getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ userId: user.id, targetUserId: partnerId }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Planning meetup failed (${response.status})`);
+    return getMeetupWithMatch(partnerId);
+  };
+
+  const startMeetupCheckIn = async (
+    meetupId: string,
+    durationMinutes: number,
+    location?: { latitude: number; longitude: number },
+  ) => {
+    if (!user) throw new Error("Not signed in");
+    const response = await fetch(new URL(`/api/explorex/meetups/${meetupId}/check-in/start`, getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({
+        userId: user.id,
+        userName: user.name,
+        durationMinutes,
+        emergencyContact: user.emergencyContact,
+        location,
+      }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Starting check-in failed (${response.status})`);
+    return { checkIn: data.checkIn as MeetupCheckIn, warning: data.warning as string | undefined };
+  };
+
+  const confirmMeetupSafe = async (meetupId: string): Promise<MeetupCheckIn> => {
+    if (!user) throw new Error("Not signed in");
+    const response = await fetch(new URL(`/api/explorex/meetups/${meetupId}/check-in/safe`, getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ userId: user.id }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Confirming check-in failed (${response.status})`);
+    return data.checkIn as MeetupCheckIn;
+  };
+
+  const addMatchFromSwipe = async (newMatch: Match) => {
+    if (!user) return;
+    const updatedMatches = [...matches, newMatch];
+    setMatches(updatedMatches);
+    await AsyncStorage.setItem(
+      `${MATCHES_KEY}_${user.id}`,
+      JSON.stringify(updatedMatches)
+    );
+  };
+
   const swipeRight = async (userId: string): Promise<Match | null> => {
     if (!user) return null;
 
@@ -695,12 +1033,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
 
       if (data.match) {
         const newMatch: Match = data.match;
-        const updatedMatches = [...matches, newMatch];
-        setMatches(updatedMatches);
-        await AsyncStorage.setItem(
-          `${MATCHES_KEY}_${user.id}`,
-          JSON.stringify(updatedMatches)
-        );
+        await addMatchFromSwipe(newMatch);
         return newMatch;
       }
     } catch (error) {
@@ -710,6 +1043,68 @@ export function DataProvider({ children }: { children: ReactNode }) {
     return null;
   };
 
+  // Unlike a plain like this waits for the server, since the daily quota may reject it and the card should stay put
+  const superLike = async (userId: string): Promise<Match | null> => {
+    if (!user) return null;
+
+    const response = await fetch(new URL("/api/swipes", getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ swiperId: user.id, swipedId: userId, direction: "super" }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Super like failed (${response.status})`);
+
+    setProfiles((prev) => prev.filter((p) => p.user.id !== userId));
+    setLikedIds(prev => new Set(prev).add(userId));
+    if (data.quota) setSwipeQuota(data.quota);
+
+    if (data.match) {
+      const newMatch: Match = data.match;
+      await addMatchFromSwipe(newMatch);
+      return newMatch;
+    }
+    return null;
+  };
+
+  // Cached matches are merged back in on the next load, so removals have to reach storage too
+  const removeMatchLocally = (matchId: string) => {
+    if (!user) return;
+    const remainingMatches = matchesRef.current.filter((m) => m.id !== matchId);
+    const { [matchId]: _, ...remainingMessages } = messagesRef.current;
+    setMatches(remainingMatches);
+    setMessages(remainingMessages);
+    AsyncStorage.setItem(`${MATCHES_KEY}_${user.id}`, JSON.stringify(remainingMatches)).catch(() => {});
+    AsyncStorage.setItem(`${MESSAGES_KEY}_${user.id}`, JSON.stringify(remainingMessages)).catch(() => {});
+  };
+
+  const undoLastSwipe = async (): Promise<SwipeCard | null> => {
+    if (!user) return null;
+
+    const response = await fetch(new URL("/api/swipes/undo", getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ userId: user.id }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Undo failed (${response.status})`);
+
+    if (data.quota) setSwipeQuota(data.quota);
+    if (data.removedMatchId) removeMatchLocally(data.removedMatchId);
+    setLikedIds((prev) => {
+      if (!prev.has(data.swipedId)) return prev;
+      const next = new Set(prev);
+      next.delete(data.swipedId);
+      return next;
+    });
+
+    const card: SwipeCard | null = data.card || null;
+    if (card) {
+      setProfiles((prev) => [card, ...prev.filter((p) => p.user.id !== card.user.id)]);
+    }
+    return card;
+  };
+
   const swipeLeft = async (userId: string) => {
     if (!user) return;
 
@@ -786,20 +1181,13 @@ export function DataProvider({ children }: { children: ReactNode }) {
       console.error("Send message API error:", error);
     }
 
-    setTimeout(() => {
-      updateMessageStatus(matchId, messageToStore.id, "delivered");
-    }, 1000);
-
-    setTimeout(() => {
-      updateMessageStatus(matchId, messageToStore.id, "read");
-    }, 3000);
-
-    const matchMessages = messages[matchId] || [];
+    const matchMessages = messagesRef.current[matchId] || [];
     const updatedMessages = {
-      ...messages,
+      ...messagesRef.current,
       [matchId]: mergeMessagesById(matchMessages, [messageToStore]),
     };
 
+    messagesRef.current = updatedMessages;
     setMessages(updatedMessages);
     await AsyncStorage.setItem(
       `${MESSAGES_KEY}_${user.id}`,
@@ -818,8 +1206,10 @@ export function DataProvider({ children }: { children: ReactNode }) {
     return messageToStore;
   };
 
+  // A recurrence creates every occurrence at once; the first one is returned
   const createActivity = async (
-    activityData: Omit<Activity, "id" | "createdAt" | "host" | "attendees" | "hostId">
+    activityData: Omit<Activity, "id" | "createdAt" | "host" | "attendees" | "hostId">,
+    recurrence?: ActivityRecurrence
   ): Promise<Activity> => {
     if (!user) throw new Error("Not authenticated");
     
@@ -836,6 +1226,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
               description: activityData.description || "",
               type: activityData.category,
               date: new Date(activityData.date).toISOString(),
+              endDate: activityData.endDate,
               location: activityData.location,
               latitude: activityData.latitude,
               longitude: activityData.longitude,
@@ -847,43 +1238,55 @@ export function DataProvider({ children }: { children: ReactNode }) {
               name: user.name,
               photoUrl: user.photoUrl,
             },
+            recurrence,
+            // Generated dates keep the same local start time, which the server can only know from here
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
           }),
         }
       );
 
-      if (!response.ok) throw new Error("Failed to create activity");
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Failed to create activity");
+      }
       
       const createdActivity = await response.json();
+      const occurrences: any[] = createdActivity.occurrences || [createdActivity];
 
-      const newActivity: Activity = {
+      const newActivities: Activity[] = occurrences.map((occurrence) => ({
         ...activityData,
-        id: createdActivity.id,
+        id: occurrence.id,
+        date: occurrence.date,
+        endDate: occurrence.endDate,
+        seriesId: occurrence.seriesId,
+        recurrenceLabel: occurrence.recurrenceLabel,
         hostId: user.id,
         host: user,
         attendeeIds: [],
         attendees: [],
-        createdAt: createdActivity.createdAt || new Date().toISOString(),
-      };
+        createdAt: occurrence.createdAt || new Date().toISOString(),
+      }));
 
-      const updatedActivities = [newActivity, ...activities];
+      const updatedActivities = [...newActivities, ...activities];
       setActivities(updatedActivities);
 
-      return newActivity;
+      return newActivities[0];
     } catch (error) {
       console.error("Failed to create activity:", error);
       throw error;
     }
   };
 
-  const joinActivity = async (activityId: string) => {
+  // The server decides between a spot and the waitlist, so the local copy follows whatever it answered
+  const joinActivity = async (activityId: string): Promise<ActivityJoinResult> => {
     if (!user) throw new Error("Not authenticated");
 
     try {
       const activity = activities.find(a => a.id === activityId);
       if (!activity) throw new Error("Activity not found");
-      
+
       if (activity.attendeeIds.includes(user.id)) {
-        return; // Already joined
+        return { status: "attending" }; // Already joined
       }
 
       const baseUrl = getApiUrl();
@@ -903,29 +1306,61 @@ export function DataProvider({ children }: { children: ReactNode }) {
       );
 
       if (!response.ok) throw new Error("Failed to join activity");
-
-      const newAttendeeIds = [...activity.attendeeIds, user.id];
-      const newAttendees = [...activity.attendees, user];
+      const result = (await response.json()) as ActivityJoinResult;
 
       const updatedActivities = activities.map((a) => {
-        if (a.id === activityId) {
-          return {
-            ...a,
-            attendeeIds: newAttendeeIds,
-            attendees: newAttendees,
-          };
+        if (a.id !== activityId) return a;
+        if (result.status === "waitlisted") {
+          const waitlistIds = a.waitlistIds || [];
+          return waitlistIds.includes(user.id)
+            ? a
+            : { ...a, waitlistIds: [...waitlistIds, user.id], waitlist: [...(a.waitlist || []), user] };
+        }
+        if (result.status === "attending") {
+          return { ...a, attendeeIds: [...a.attendeeIds, user.id], attendees: [...a.attendees, user] };
         }
         return a;
       });
 
       setActivities(updatedActivities);
+      return result;
     } catch (error) {
       console.error("Failed to join activity:", error);
       throw error;
     }
   };
 
-  const deleteActivity = async (activityId: string) => {
+  // Leaving may promote someone off the waitlist, so the list is reloaded to show who took the spot
+  const leaveActivity = async (activityId: string) => {
+    if (!user) throw new Error("Not authenticated");
+
+    const response = await fetch(new URL(`/api/activities/${activityId}/leave`, getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ userId: user.id }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Leaving activity failed (${response.status})`);
+
+    setActivities((prev) => prev.map((a) => (
+      a.id === activityId
+        ? {
+            ...a,
+            attendeeIds: a.attendeeIds.filter((id) => id !== user.id),
+            attendees: a.attendees.filter((attendee) => attendee.id !== user.id),
+            waitlistIds: (a.waitlistIds || []).filter((id) => id !== user.id),
+            waitlist: (a.waitlist || []).filter((entry) => entry.id !== user.id),
+          }
+        : a
+    )));
+    if (data?.promotedUserIds?.length) {
+      const serverActivities = await fetchActivitiesFromAPI();
+      if (serverActivities) setActivities(serverActivities);
+    }
+  };
+
+  // "following" also removes the later dates of the activity's series
+  const deleteActivity = async (activityId: string, scope: "occurrence" | "following" = "occurrence") => {
     if (!user) throw new Error("Not authenticated");
 
     const activity = activities.find(a => a.id === activityId);
@@ -939,13 +1374,15 @@ export function DataProvider({ children }: { children: ReactNode }) {
         {
           method: "DELETE",
           headers: jsonAuthHeaders(),
-          body: JSON.stringify({ userId: user.id }),
+          body: JSON.stringify({ userId: user.id, scope }),
         }
       );
       
       if (!response.ok) throw new Error("Failed to delete activity");
       
-      const updatedActivities = activities.filter(a => a.id !== activityId);
+      const { deletedIds } = await response.json() as { deletedIds?: string[] };
+      const removed = new Set(deletedIds || [activityId]);
+      const updatedActivities = activities.filter(a => !removed.has(a.id));
       setActivities(updatedActivities);
     } catch (error) {
       console.error("Failed to delete activity:", error);
@@ -953,6 +1390,152 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // The server posts the change summary into the activity chat, so only the local list needs updating here
+  const updateActivity = async (activityId: string, changes: ActivityUpdate): Promise<Activity> => {
+    if (!user) throw new Error("Not authenticated");
+    const response = await fetch(new URL(`/api/activities/${activityId}`, getApiUrl()).toString(), {
+      method: "PATCH",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({
+        user: { id: user.id, name: user.name, photos: user.photos },
+        changes,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+      }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Updating activity failed (${response.status})`);
+
+    const existing = activities.find((a) => a.id === activityId);
+    const updated: Activity = existing
+      ? { ...existing, ...data.activity, host: existing.host, attendees: existing.attendees }
+      : data.activity;
+    setActivities((prev) => prev.map((a) => (a.id === activityId ? updated : a)));
+    return updated;
+  };
+
+  const getActivityEdits = async (activityId: string): Promise<ActivityEdit[]> => {
+    if (!user) return [];
+    const url = new URL(`/api/activities/${activityId}/edits`, getApiUrl());
+    url.searchParams.set("userId", user.id);
+    return fetchJsonWithTimeout<ActivityEdit[]>(url, [], 6000, authHeaders());
+  };
+
+  const getActivityModeratorIds = async (activityId: string): Promise<string[]> => {
+    if (!user) return [];
+    const url = new URL(`/api/activities/${activityId}/moderators`, getApiUrl());
+    url.searchParams.set("userId", user.id);
+    const moderators = await fetchJsonWithTimeout<{ userId: string }[]>(url, [], 6000, authHeaders());
+    return moderators.map((moderator) => moderator.userId);
+  };
+
+  const getActivityCheckInCode = async (activityId: string): Promise<ActivityCheckInCode> => {
+    if (!user) throw new Error("Not authenticated");
+    const url = new URL(`/api/activities/${activityId}/check-in-code`, getApiUrl());
+    url.searchParams.set("userId", user.id);
+    const response = await fetch(url.toString(), { headers: authHeaders() });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Loading check-in code failed (${response.status})`);
+    return data as ActivityCheckInCode;
+  };
+
+  const checkInToActivity = async (activityId: string, code: string, location: { lat: number; lng: number }) => {
+    if (!user) throw new Error("Not authenticated");
+    const response = await fetch(new URL(`/api/activities/${activityId}/check-in`, getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ userId: user.id, code, lat: location.lat, lng: location.lng }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Check-in failed (${response.status})`);
+    return data as { checkIn: ActivityCheckIn; alreadyCheckedIn: boolean };
+  };
+
+  const getActivityAttendance = async (activityId: string): Promise<ActivityCheckIn[]> => {
+    if (!user) return [];
+    const url = new URL(`/api/activities/${activityId}/attendance`, getApiUrl());
+    url.searchParams.set("userId", user.id);
+    return fetchJsonWithTimeout<ActivityCheckIn[]>(url, [], 6000, authHeaders());
+  };
+
+  // Each result carries its own cursor; a short page means the search has run out
+  const getNextActivityCursor = (page: Activity[]): string | null => {
+    const last = page[page.length - 1];
+    if (page.length < ACTIVITY_PAGE_SIZE || !last) return null;
+    return last.cursor || null;
+  };
+
+  const searchActivities = async (filters: ActivitySearchFilters, cursor?: string | null) => {
+    const url = new URL("/api/activities", getApiUrl());
+    url.searchParams.set("limit", String(ACTIVITY_PAGE_SIZE));
+    if (cursor) url.searchParams.set("cursor", cursor);
+    if (filters.query?.trim()) url.searchParams.set("q", filters.query.trim());
+    if (filters.categories?.length) url.searchParams.set("category", filters.categories.join(","));
+    if (filters.from) url.searchParams.set("from", filters.from);
+    if (filters.to) url.searchParams.set("to", filters.to);
+    if (filters.near) {
+      url.searchParams.set("lat", String(filters.near.lat));
+      url.searchParams.set("lng", String(filters.near.lng));
+      if (filters.radiusKm) url.searchParams.set("radiusKm", String(filters.radiusKm));
+    }
+    if (filters.hasSpots) url.searchParams.set("hasSpots", "1");
+    if (filters.verifiedHosts) url.searchParams.set("verifiedHosts", "1");
+    if (filters.groupSeries) url.searchParams.set("groupSeries", "1");
+    if (filters.sort) url.searchParams.set("sort", filters.sort);
+
+    const response = await fetch(url.toString());
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Activity search failed (${response.status})`);
+    const page = (Array.isArray(data) ? data : []).map(mapActivityFromApi);
+    return { activities: page, nextCursor: getNextActivityCursor(page) };
+  };
+
+  const submitSafetyRating = async (rating: Omit<SafetyRating, "id" | "createdAt" | "ratedByUserId">): Promise<SafetyRating> => {
+    if (!user) throw new Error("Not authenticated");
+    const response = await fetch(new URL("/api/safety-ratings", getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ ...rating, ratedByUserId: user.id }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Submitting safety rating failed (${response.status})`);
+    return data as SafetyRating;
+  };
+
+  const submitActivityReview = async (activityId: string, rating: number, body: string): Promise<ActivityReview> => {
+    if (!user) throw new Error("Not authenticated");
+    const response = await fetch(new URL(`/api/activities/${activityId}/reviews`, getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ userId: user.id, rating, body }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Submitting review failed (${response.status})`);
+    return data as ActivityReview;
+  };
+
+  const getHostReputation = async (hostId: string): Promise<HostReputationDetail | null> => {
+    const url = new URL(`/api/hosts/${hostId}/reputation`, getApiUrl());
+    return fetchJsonWithTimeout<HostReputationDetail | null>(url, null, 6000);
+  };
+
+  const getCalendarFeed = async (): Promise<CalendarFeed | null> => {
+    if (!user) return null;
+    const url = new URL(`/api/calendar-feed/${user.id}`, getApiUrl());
+    return fetchJsonWithTimeout<CalendarFeed | null>(url, null, 6000, authHeaders());
+  };
+
+  // Calendars subscribed with the old link stop updating once it is reset
+  const resetCalendarFeed = async (): Promise<CalendarFeed> => {
+    if (!user) throw new Error("Not authenticated");
+    const response = await fetch(new URL(`/api/calendar-feed/${user.id}/reset`, getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Resetting calendar feed failed (${response.status})`);
+    return data as CalendarFeed;
+  };
+
   const createForumPost = async (
     postData: Omit<ForumPost, "id" | "createdAt" | "author" | "authorId" | "upvotes" | "commentCount">
   ): Promise<ForumPost> => {
@@ -983,20 +1566,6 @@ export function DataProvider({ children }: { children: ReactNode }) {
     await AsyncStorage.setItem(FORUM_KEY, JSON.stringify(updatedPosts));
   };
 
-  const updateMessageStatus = async (matchId: string, messageId: string, status: "sent" | "delivered" | "read") => {
-    if (!user) return;
-    
-    setMessages(prev => {
-      const matchMessages = prev[matchId] || [];
-      const updatedMatchMessages = matchMessages.map(m => 
-        m.id === messageId ? { ...m, status } : m
-      );
-      const updatedMessages = { ...prev, [matchId]: updatedMatchMessages };
-      AsyncStorage.setItem(`${MESSAGES_KEY}_${user.id}`, JSON.stringify(updatedMessages));
-      return updatedMessages;
-    });
-  };
-
   const editMessage = async (matchId: string, messageId: string, newContent: string): Promise<void> => {
     if (!user) return;
 
@@ -1130,6 +1699,25 @@ export function DataProvider({ children }: { children: ReactNode }) {
     await AsyncStorage.setItem(`${MATCHES_KEY}_${user.id}`, JSON.stringify(updatedMatches));
   };
 
+  const setTyping = (matchId: string, isTyping: boolean) => {
+    sendRealtimeTyping(`match:${matchId}`, isTyping);
+  };
+
+  const postReceipt = async (
+    matchId: string,
+    status: "delivered" | "read",
+    messageId?: string
+  ): Promise<{ unreadCount?: number } | null> => {
+    if (!user) return null;
+    const response = await fetch(new URL(`/api/messages/${matchId}/receipts`, getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ userId: user.id, status, messageId }),
+    });
+    if (!response.ok) throw new Error(`Receipt update failed (${response.status})`);
+    return response.json();
+  };
+
   const markMatchAsRead = async (matchId: string): Promise<void> => {
     if (!user) return;
     
@@ -1138,6 +1726,56 @@ export function DataProvider({ children }: { children: ReactNode }) {
     );
     setMatches(updatedMatches);
     await AsyncStorage.setItem(`${MATCHES_KEY}_${user.id}`, JSON.stringify(updatedMatches));
+
+    try {
+      const result = await postReceipt(matchId, "read");
+      if (typeof result?.unreadCount === "number" && result.unreadCount > 0) {
+        setMatches((prev) => prev.map((m) => (m.id === matchId ? { ...m, unreadCount: result.unreadCount } : m)));
+      }
+    } catch (error) {
+      console.error("Mark as read error:", error);
+    }
+  };
+
+  const blockUser = async (blockedUserId: string): Promise<void> => {
+    if (!user) return;
+    const response = await fetch(new URL("/api/blocks", getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ userId: user.id, blockedUserId }),
+    });
+    if (!response.ok) throw new Error(`Block failed (${response.status})`);
+
+    setProfiles((prev) => prev.filter((card) => card.user.id !== blockedUserId));
+    const blockedMatch = matches.find((m) => m.matchedUser.id === blockedUserId);
+    setBlockedUsers((prev) => [
+      {
+        userId: blockedUserId,
+        name: blockedMatch?.matchedUser.name || "Nomad",
+        photo: blockedMatch?.matchedUser.photos?.[0] || null,
+        blockedAt: new Date().toISOString(),
+      },
+      ...prev.filter((b) => b.userId !== blockedUserId),
+    ]);
+  };
+
+  const unblockUser = async (blockedUserId: string): Promise<void> => {
+    if (!user) return;
+    const url = new URL(`/api/blocks/${blockedUserId}`, getApiUrl());
+    url.searchParams.set("userId", user.id);
+    const response = await fetch(url.toString(), { method: "DELETE", headers: authHeaders() });
+    if (!response.ok) throw new Error(`Unblock failed (${response.status})`);
+    setBlockedUsers((prev) => prev.filter((b) => b.userId !== blockedUserId));
+  };
+
+  const reportUser = async (report: { reportedUserId: string; reason: ReportReason; details?: string; messageIds?: string[] }): Promise<void> => {
+    if (!user) return;
+    const response = await fetch(new URL("/api/reports", getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({ reporterId: user.id, ...report }),
+    });
+    if (!response.ok) throw new Error(`Report failed (${response.status})`);
   };
 
   const deleteMatch = async (matchId: string): Promise<void> => {
@@ -1206,6 +1844,275 @@ export function DataProvider({ children }: { children: ReactNode }) {
 
   const likedProfiles = likedProfilesList;
 
+  const fetchMissedMessages = async (matchId: string) => {
+    if (!user) return;
+    const messagesUrl = new URL(`/api/messages/${matchId}`, getApiUrl());
+    messagesUrl.searchParams.set("userId", user.id);
+    const serverRows = await fetchJsonWithTimeout<any[]>(messagesUrl, [], 4000, authHeaders());
+    if (!serverRows || serverRows.length === 0) return;
+    const updatedMatchMessages = mergeMessagesById(
+      messagesRef.current[matchId] || [],
+      serverRows.map(mapApiMessageToClient)
+    );
+    const updatedMessages = { ...messagesRef.current, [matchId]: updatedMatchMessages };
+    messagesRef.current = updatedMessages;
+    setMessages(updatedMessages);
+    setMatches((prev) => hydrateMatchesWithLastMessage(prev, updatedMessages));
+    AsyncStorage.setItem(`${MESSAGES_KEY}_${user.id}`, JSON.stringify(updatedMessages)).catch(() => {});
+  };
+
+  // Resolves to false once the start of the conversation has been reached
+  const loadOlderMessages = async (matchId: string): Promise<boolean> => {
+    if (!user) return false;
+    const oldest = (messagesRef.current[matchId] || [])[0];
+    const messagesUrl = new URL(`/api/messages/${matchId}`, getApiUrl());
+    messagesUrl.searchParams.set("userId", user.id);
+    messagesUrl.searchParams.set("limit", String(MESSAGE_PAGE_SIZE));
+    if (oldest) messagesUrl.searchParams.set("before", oldest.id);
+    const serverRows = await fetchJsonWithTimeout<any[] | null>(messagesUrl, null, 6000, authHeaders());
+    if (!serverRows) return false;
+    if (serverRows.length > 0) {
+      const updatedMessages = {
+        ...messagesRef.current,
+        [matchId]: mergeMessagesById(messagesRef.current[matchId] || [], serverRows.map(mapApiMessageToClient)),
+      };
+      messagesRef.current = updatedMessages;
+      setMessages(updatedMessages);
+      AsyncStorage.setItem(`${MESSAGES_KEY}_${user.id}`, JSON.stringify(updatedMessages)).catch(() => {});
+    }
+    return serverRows.length >= MESSAGE_PAGE_SIZE;
+  };
+
+  const searchMessages = async (query: string): Promise<MessageSearchResult[]> => {
+    if (!user) return [];
+    const searchUrl = new URL("/api/messages/search", getApiUrl());
+    searchUrl.searchParams.set("userId", user.id);
+    searchUrl.searchParams.set("q", query.trim());
+    const response = await fetch(searchUrl.toString(), { headers: authHeaders() });
+    if (!response.ok) throw new Error(`Message search failed (${response.status})`);
+    const hits: MessageHit[] = await response.json();
+    return hits.map(mapMessageHit);
+  };
+
+  const getModerationQueue = async (status: ReportStatus | "all" = "open"): Promise<ModerationReport[]> => {
+    const queueUrl = new URL("/api/moderation/reports", getApiUrl());
+    queueUrl.searchParams.set("status", status);
+    const response = await fetch(queueUrl.toString(), { headers: authHeaders() });
+    if (!response.ok) throw new Error(`Moderation queue failed (${response.status})`);
+    return response.json();
+  };
+
+  const getModerationReport = async (reportId: string): Promise<ModerationReportDetail> => {
+    const response = await fetch(new URL(`/api/moderation/reports/${reportId}`, getApiUrl()).toString(), {
+      headers: authHeaders(),
+    });
+    if (!response.ok) throw new Error(`Moderation report failed (${response.status})`);
+    const detail = await response.json();
+    return { ...detail, messages: (detail.messages || []).map(mapMessageHit) };
+  };
+
+  const takeModerationAction = async (input: { reportId?: string; targetUserId?: string; action: Exclude<ModerationActionType, "role_change">; note?: string; durationHours?: number }): Promise<ModerationAction> => {
+    const response = await fetch(new URL("/api/moderation/actions", getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify(input),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || `Moderation action failed (${response.status})`);
+    return data;
+  };
+
+  const applyRealtimeMessageEvent = (matchId: string, event: RealtimeEvent) => {
+    if (!user) return;
+    const matchMessages = messagesRef.current[matchId] || [];
+    let updatedMatchMessages: Message[];
+    let incoming: Message | undefined;
+
+    switch (event.type) {
+      case "message.created":
+        incoming = mapApiMessageToClient(event.message);
+        if (matchMessages.some((m) => m.id === incoming?.id)) return;
+        updatedMatchMessages = mergeMessagesById(matchMessages, [incoming]);
+        break;
+      case "message.updated": {
+        const updated = mapApiMessageToClient(event.message);
+        updatedMatchMessages = matchMessages.map((m) =>
+          m.id === updated.id ? { ...m, content: updated.content, editedAt: updated.editedAt } : m
+        );
+        break;
+      }
+      case "message.deleted":
+        updatedMatchMessages = matchMessages.filter((m) => m.id !== event.messageId);
+        break;
+      case "message.reactions":
+        updatedMatchMessages = matchMessages.map((m) =>
+          m.id === event.messageId ? { ...m, reactions: event.reactions || {} } : m
+        );
+        break;
+      case "receipt": {
+        // Only the other participant's receipts change the ticks on our own messages
+        if (event.userId === user.id || !event.upTo) return;
+        const upTo = new Date(event.upTo).getTime();
+        const status: MessageStatus = event.status === "read" ? "read" : "delivered";
+        updatedMatchMessages = matchMessages.map((m) => {
+          if (m.senderId !== user.id || m.status === "read" || m.status === status) return m;
+          return new Date(m.createdAt).getTime() <= upTo ? { ...m, status } : m;
+        });
+        break;
+      }
+      default:
+        return;
+    }
+
+    const updatedMessages = { ...messagesRef.current, [matchId]: updatedMatchMessages };
+    messagesRef.current = updatedMessages;
+    setMessages(updatedMessages);
+    AsyncStorage.setItem(`${MESSAGES_KEY}_${user.id}`, JSON.stringify(updatedMessages)).catch(() => {});
+
+    const isIncoming = !!incoming && incoming.senderId !== user.id;
+    if (incoming && isIncoming) {
+      postReceipt(matchId, "delivered", incoming.id).catch(() => {});
+    }
+    setMatches((prev) =>
+      prev.map((m) => {
+        if (m.id !== matchId) return m;
+        return {
+          ...m,
+          lastMessage: getLatestMessage(updatedMatchMessages),
+          unreadCount: isIncoming ? (m.unreadCount || 0) + 1 : m.unreadCount,
+        };
+      })
+    );
+  };
+
+  const setMatchTyping = (matchId: string, isTyping: boolean) => {
+    const existingTimer = typingTimersRef.current.get(matchId);
+    if (existingTimer) clearTimeout(existingTimer);
+    typingTimersRef.current.delete(matchId);
+    if (isTyping) {
+      // Clients stop sending typing updates when they disconnect, so expire on our side too
+      typingTimersRef.current.set(matchId, setTimeout(() => setMatchTyping(matchId, false), TYPING_INDICATOR_TTL_MS));
+    }
+    setTypingByMatch((prev) => (!!prev[matchId] === isTyping ? prev : { ...prev, [matchId]: isTyping }));
+  };
+
+  const applyRealtimePresenceEvent = (matchId: string, event: RealtimeEvent) => {
+    if (!user || !event.userId || event.userId === user.id) return;
+    if (event.type === "typing") {
+      setMatchTyping(matchId, !!event.isTyping);
+      return;
+    }
+    setPresence((prev) => ({
+      ...prev,
+      [matchId]: { userId: event.userId, isOnline: !!event.isOnline, lastSeenAt: event.lastSeenAt || null },
+    }));
+    if (!event.isOnline) setMatchTyping(matchId, false);
+  };
+
+  // Socket listeners outlive renders, so they call through a ref to see current state
+  const realtimeHandlersRef = useRef({ fetchMissedMessages, applyRealtimeMessageEvent, applyRealtimePresenceEvent });
+  realtimeHandlersRef.current = { fetchMissedMessages, applyRealtimeMessageEvent, applyRealtimePresenceEvent };
+
+  const currentUserId = user?.id;
+  const realtimeUserHandlersRef = useRef({ removeMatchLocally });
+  realtimeUserHandlersRef.current = { removeMatchLocally };
+  const fetchJsonWithTimeoutRef = useRef(fetchJsonWithTimeout);
+  fetchJsonWithTimeoutRef.current = fetchJsonWithTimeout;
+  const authHeadersRef = useRef(authHeaders);
+  authHeadersRef.current = authHeaders;
+  const matchChannelKey = matches.map((m) => m.id).sort().join(",");
+
+  useEffect(() => {
+    if (!currentUserId || !matchChannelKey) return;
+    const unsubscribers = matchChannelKey.split(",").map((matchId) => {
+      let hasSubscribed = false;
+      return subscribeRealtime(`match:${matchId}`, (event) => {
+        if (event.type === "subscribed") {
+          // Re-subscriptions happen after a reconnect, so catch up on what was missed
+          if (hasSubscribed) realtimeHandlersRef.current.fetchMissedMessages(matchId).catch(() => {});
+          hasSubscribed = true;
+          return;
+        }
+        if (event.type === "presence" || event.type === "typing") {
+          realtimeHandlersRef.current.applyRealtimePresenceEvent(matchId, event);
+          return;
+        }
+        realtimeHandlersRef.current.applyRealtimeMessageEvent(matchId, event);
+      });
+    });
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [currentUserId, matchChannelKey]);
+
+  useEffect(() => {
+    if (!currentUserId) {
+      setSwipeQuota(null);
+      return;
+    }
+    // The server reads the tier from its own subscription records; a purchase here just prompts a fresh read
+    const quotaUrl = new URL(`/api/swipes/quota/${currentUserId}`, getApiUrl());
+    fetchJsonWithTimeoutRef.current<SwipeQuota | null>(quotaUrl, null, 6000, authHeadersRef.current())
+      .then((quota) => {
+        if (quota) setSwipeQuota(quota);
+      });
+  }, [currentUserId, tier]);
+
+  useEffect(() => {
+    if (!currentUserId) return;
+    return subscribeRealtime(`user:${currentUserId}`, (event) => {
+      if (event.type === "swipe.super" && event.card) {
+        // Someone super liked this user: surface their card first, flagged so the deck can show it
+        const card = event.card as SwipeCard;
+        setProfiles((prev) => [{ ...card, superLikedYou: true }, ...prev.filter((p) => p.user.id !== card.user.id)]);
+      } else if (event.type === "match.removed" && event.matchId) {
+        realtimeUserHandlersRef.current.removeMatchLocally(String(event.matchId));
+      } else if (event.type === "activity.promoted" && event.activityId) {
+        // A spot opened up and the server moved this user off the waitlist
+        const activityId = String(event.activityId);
+        setActivities((prev) => prev.map((a) => {
+          if (a.id !== activityId || a.attendeeIds.includes(currentUserId)) return a;
+          const entry = (a.waitlist || []).find((waiting) => waiting.id === currentUserId);
+          return {
+            ...a,
+            attendeeIds: [...a.attendeeIds, currentUserId],
+            attendees: entry ? [...a.attendees, entry] : a.attendees,
+            waitlistIds: (a.waitlistIds || []).filter((id) => id !== currentUserId),
+            waitlist: (a.waitlist || []).filter((waiting) => waiting.id !== currentUserId),
+          };
+        }));
+      }
+    });
+  }, [currentUserId]);
+
+  // Activity channels only admit members, so edits by a host or moderator reach the people in the activity
+  const memberActivityKey = currentUserId
+    ? activities
+        .filter((a) => a.hostId === currentUserId || a.attendeeIds.includes(currentUserId))
+        .map((a) => a.id)
+        .sort()
+        .join(",")
+    : "";
+  useEffect(() => {
+    if (!memberActivityKey) return;
+    const unsubscribes = memberActivityKey.split(",").map((activityId) =>
+      subscribeRealtime(`activity:${activityId}`, (event) => {
+        if (event.type !== "activity.updated" || !event.activity) return;
+        const incoming = event.activity as Activity;
+        setActivities((prev) => prev.map((a) => (
+          a.id === activityId ? { ...a, ...incoming, host: a.host } : a
+        )));
+      })
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [memberActivityKey]);
+
+  useEffect(() => {
+    const timers = typingTimersRef.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
   return (
     <DataContext.Provider
       value={{
@@ -1215,19 +2122,61 @@ export function DataProvider({ children }: { children: ReactNode }) {
         activities,
         forumPosts,
         likedProfiles,
+        presence,
+        typingByMatch,
         isLoading,
+        swipeQuota,
         swipeRight,
         swipeLeft,
+        superLike,
+        undoLastSwipe,
+        loadMoreProfiles,
+        getDiscoverPreferences,
+        saveDiscoverPreferences,
+        getRadarVisibilityRules,
+        saveRadarVisibilityRules,
+        setGhostMode,
+        getRadarHeatmap,
+        saveItinerary,
+        setItinerarySharing,
+        getTripOverlaps,
+        getMeetupWithMatch,
+        planMeetup,
+        startMeetupCheckIn,
+        confirmMeetupSafe,
         sendMessage,
         editMessage,
         deleteMessage,
         toggleMessageReaction,
         toggleFavourite,
         markMatchAsRead,
+        loadOlderMessages,
+        searchMessages,
+        blockUser,
+        unblockUser,
+        reportUser,
+        getModerationQueue,
+        getModerationReport,
+        takeModerationAction,
+        blockedUsers,
+        setTyping,
         deleteMatch,
         createActivity,
         joinActivity,
+        leaveActivity,
         deleteActivity,
+        updateActivity,
+        getActivityEdits,
+        getActivityModeratorIds,
+        getActivityCheckInCode,
+        checkInToActivity,
+        getActivityAttendance,
+        searchActivities,
+        submitSafetyRating,
+        submitActivityReview,
+        getHostReputation,
+        getCalendarFeed,
+        resetCalendarFeed,
         createForumPost,
         upvotePost,
         refreshData,
@@ -0,0 +1,273 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  ReactNode,
+} from "react";
+import * as Location from "expo-location";
+import { useAuth } from "@/context/AuthContext";
+import { getApiUrl } from "@/lib/query-client";
+import { subscribeRealtime } from "@/lib/realtime";
+import { LocationShare } from "@/types";
+
+export const LOCATION_SHARE_DURATIONS: { minutes: number; label: string }[] = [
+  { minutes: 15, label: "15 min" },
+  { minutes: 30, label: "30 min" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 120, label: "2 hours" },
+  { minutes: 240, label: "4 hours" },
+  { minutes: 480, label: "8 hours" },
+];
+
+const WATCH_INTERVAL_MS = 15000;
+const WATCH_DISTANCE_METERS = 20;
+
+interface StartShareInput {
+  matchId?: string;
+  contactName?: string;
+  durationMinutes: number;
+}
+
+interface LocationShareContextType {
+  shares: LocationShare[];
+  outgoingShares: LocationShare[];
+  incomingShares: LocationShare[];
+  startShare: (input: StartShareInput) => Promise<LocationShare | null>;
+  stopShare: (shareId: string) => Promise<void>;
+  refreshShares: () => Promise<void>;
+}
+
+const LocationShareContext = createContext<LocationShareContextType | undefined>(undefined);
+
+const isLive = (share: LocationShare) =>
+  share.status === "active" && new Date(share.expiresAt).getTime() > Date.now();
+
+export function LocationShareProvider({ children }: { children: ReactNode }) {
+  const { user, session } = useAuth();
+  const [shares, setShares] = useState<LocationShare[]>([]);
+  const userId = user?.id || null;
+
+  const authHeaders = useCallback(() => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (session?.sessionToken) {
+      headers.Authorization = `Bearer ${session.sessionToken}`;
+    }
+    return headers;
+  }, [session?.sessionToken]);
+
+  const upsertShare = useCallback((share: LocationShare) => {
+    setShares((prev) => {
+      if (!isLive(share)) return prev.filter((s) => s.id !== share.id);
+      const existing = prev.find((s) => s.id === share.id);
+      if (!existing) return [share, ...prev];
+      // Realtime payloads never carry the sharer-only token/viewUrl, so keep them from the local copy
+      return prev.map((s) => (s.id === share.id ? { ...s, ...share, token: s.token, viewUrl: s.viewUrl } : s));
+    });
+  }, []);
+
+  const removeShare = useCallback((shareId: string) => {
+    setShares((prev) => prev.filter((s) => s.id !== shareId));
+  }, []);
+
+  const refreshShares = useCallback(async () => {
+    if (!userId) {
+      setShares([]);
+      return;
+    }
+    try {
+      const response = await fetch(new URL(`/api/location-shares/${userId}`, getApiUrl()).toString(), {
+        headers: authHeaders(),
+      });
+      if (!response.ok) return;
+      const data: LocationShare[] = await response.json();
+      setShares((prev) =>
+        data.filter(isLive).map((share) => {
+          const local = prev.find((s) => s.id === share.id);
+          return local?.viewUrl ? { ...share, viewUrl: local.viewUrl } : share;
+        }),
+      );
+    } catch (error) {
+      console.log("Refresh location shares error:", error);
+    }
+  }, [userId, authHeaders]);
+
+  const startShare = useCallback(async (input: StartShareInput) => {
+    if (!userId) return null;
+
+    let location: { latitude: number; longitude: number; accuracy: number | null } | undefined;
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== "granted") {
+        throw new Error("Location permission is required to share your live location");
+      }
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      location = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("permission")) throw error;
+      console.log("Initial share position unavailable:", error);
+    }
+
+    const response = await fetch(new URL("/api/location-shares", getApiUrl()).toString(), {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ userId, ...input, location }),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(data?.error || "Failed to start location share");
+    }
+    const share = data as LocationShare;
+    upsertShare(share);
+    return share;
+  }, [userId, authHeaders, upsertShare]);
+
+  const stopShare = useCallback(async (shareId: string) => {
+    if (!userId) return;
+    removeShare(shareId);
+    try {
+      await fetch(new URL(`/api/location-shares/${shareId}/end`, getApiUrl()).toString(), {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ userId }),
+      });
+    } catch (error) {
+      console.log("Stop location share error:", error);
+    }
+  }, [userId, authHeaders, removeShare]);
+
+  const outgoingShares = useMemo(() => shares.filter((s) => s.sharerId === userId), [shares, userId]);
+  const incomingShares = useMemo(() => shares.filter((s) => s.sharerId !== userId), [shares, userId]);
+
+  const refreshSharesRef = useRef(refreshShares);
+  refreshSharesRef.current = refreshShares;
+  const outgoingSharesRef = useRef(outgoingShares);
+  outgoingSharesRef.current = outgoingShares;
+  const authHeadersRef = useRef(authHeaders);
+  authHeadersRef.current = authHeaders;
+
+  useEffect(() => {
+    refreshSharesRef.current();
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeRealtime(`user:${userId}`, (event) => {
+      if (event.type === "location-share.started" && event.share) {
+        upsertShare(event.share as LocationShare);
+      }
+    });
+  }, [userId, upsertShare]);
+
+  const incomingKey = incomingShares.map((s) => s.id).join(",");
+  useEffect(() => {
+    if (!incomingKey) return;
+    const unsubscribers = incomingKey.split(",").map((shareId) =>
+      subscribeRealtime(`location-share:${shareId}`, (event) => {
+        if (event.type === "location-share.updated" && event.share) {
+          upsertShare(event.share as LocationShare);
+        } else if (event.type === "location-share.ended") {
+          removeShare(shareId);
+        }
+      }),
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [incomingKey, upsertShare, removeShare]);
+
+  // Stream the device position to every live outgoing share while at least one exists
+  const isStreaming = outgoingShares.length > 0;
+  useEffect(() => {
+    if (!isStreaming || !userId) return;
+
+    let cancelled = false;
+    let subscription: Location.LocationSubscription | null = null;
+
+    const pushPosition = async (position: Location.LocationObject) => {
+      const body = JSON.stringify({
+        userId,
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      });
+      for (const share of outgoingSharesRef.current) {
+        try {
+          const response = await fetch(new URL(`/api/location-shares/${share.id}/location`, getApiUrl()).toString(), {
+            method: "POST",
+            headers: authHeadersRef.current(),
+            body,
+          });
+          if (response.status === 410 || response.status === 404) {
+            removeShare(share.id);
+          }
+        } catch (error) {
+          console.log("Push shared location error:", error);
+        }
+      }
+    };
+
+    Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.Balanced,
+        timeInterval: WATCH_INTERVAL_MS,
+        distanceInterval: WATCH_DISTANCE_METERS,
+      },
+      pushPosition,
+    )
+      .then((next) => {
+        if (cancelled) {
+          next.remove();
+        } else {
+          subscription = next;
+        }
+      })
+      .catch((error) => console.log("Watch shared location error:", error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [isStreaming, userId, removeShare]);
+
+  // Drop shares locally the moment they expire; the server rejects them from then on anyway
+  useEffect(() => {
+    if (shares.length === 0) return;
+    const nextExpiry = Math.min(...shares.map((s) => new Date(s.expiresAt).getTime()));
+    const timer = setTimeout(() => {
+      setShares((prev) => prev.filter(isLive));
+    }, Math.max(0, nextExpiry - Date.now()) + 500);
+    return () => clearTimeout(timer);
+  }, [shares]);
+
+  const value = useMemo(
+    () => ({
+      shares,
+      outgoingShares,
+      incomingShares,
+      startShare,
+      stopShare,
+      refreshShares,
+    }),
+    [shares, outgoingShares, incomingShares, startShare, stopShare, refreshShares],
+  );
+
+  return (
+    <LocationShareContext.Provider value={value}>
+      {children}
+    </LocationShareContext.Provider>
+  );
+}
+
+export function useLocationShare() {
+  const context = useContext(LocationShareContext);
+  if (context === undefined) {
+    throw new Error("useLocationShare must be used within a LocationShareProvider");
+  }
+  return context;
+}
@@ -56,32 +56,37 @@ const TIER_FEATURES: Record<SubscriptionTier, string[]> = {
     "2 profile boosts per day",
     "2 Compatibility checks per day",
     "4 Activities per month",
+    "1 Super Like and 1 Rewind per day",
   ],
   explorer: [
     "15 profile boosts per day",
     "15 Compatibility checks per day",
     "15 Activities per month",
+    "5 Super Likes and 10 Rewinds per day",
   ],
   adventurer: [
     "Unlimited profile boosts",
     "Unlimited Compatibility checks",
     "Unlimited Activities",
+    "15 Super Likes per day and unlimited Rewinds",
   ],
   lifetime: [
     "Unlimited profile boosts",
     "Unlimited Compatibility checks",
     "Unlimited Activities",
+    "15 Super Likes per day and unlimited Rewinds",
   ],
 };
 
+// Daily super like and rewind quotas are enforced server-side with the same numbers
 export const TIER_LIMITS: Record<
   SubscriptionTier,
-  { activities: number; radarScans: number; compatChecks: number }
+  { activities: number; radarScans: number; compatChecks: number; superLikes: number; rewinds: number }
 > = {
-  starter: { activities: 4, radarScans: 2, compatChecks: 2 },
-  explorer: { activities: 15, radarScans: 15, compatChecks: 15 },
-  adventurer: { activities: -1, radarScans: -1, compatChecks: -1 },
-  lifetime: { activities: -1, radarScans: -1, compatChecks: -1 },
+  starter: { activities: 4, radarScans: 2, compatChecks: 2, superLikes: 1, rewinds: 1 },
+  explorer: { activities: 15, radarScans: 15, compatChecks: 15, superLikes: 5, rewinds: 10 },
+  adventurer: { activities: -1, radarScans: -1, compatChecks: -1, superLikes: 15, rewinds: -1 },
+  lifetime: { activities: -1, radarScans: -1, compatChecks: -1, superLikes: 15, rewinds: -1 },
 };
 
 
@@ -0,0 +1,140 @@
+import { getApiUrl } from "./query-client";
+
+export interface RealtimeEvent {
+  type: string;
+  channel?: string;
+  [key: string]: any;
+}
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+const listeners = new Map<string, Set<RealtimeListener>>();
+let socket: WebSocket | null = null;
+let sessionToken = "";
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+function getRealtimeUrl(token: string): string {
+  const url = new URL("api/realtime", getApiUrl());
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+function sendFrame(frame: { type: string; channel?: string; isTyping?: boolean }): void {
+  if (socket && socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+}
+
+function dispatch(event: RealtimeEvent): void {
+  const channelListeners = event.channel ? listeners.get(event.channel) : undefined;
+  if (!channelListeners) return;
+  for (const listener of Array.from(channelListeners)) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.warn("Realtime listener failed:", error);
+    }
+  }
+}
+
+function scheduleReconnect(): void {
+  if (!sessionToken || reconnectTimer) return;
+  const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts);
+  reconnectAttempts += 1;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+}
+
+function connect(): void {
+  if (!sessionToken) return;
+
+  let next: WebSocket;
+  try {
+    next = new WebSocket(getRealtimeUrl(sessionToken));
+  } catch (error) {
+    console.warn("Realtime connect failed:", error);
+    scheduleReconnect();
+    return;
+  }
+  socket = next;
+
+  next.onopen = () => {
+    reconnectAttempts = 0;
+    for (const channel of listeners.keys()) {
+      sendFrame({ type: "subscribe", channel });
+    }
+  };
+
+  next.onmessage = (message) => {
+    try {
+      const event = JSON.parse(String(message.data)) as RealtimeEvent;
+      if (event.type === "error" && event.channel) {
+        console.warn(`Realtime subscription to ${event.channel} rejected:`, event.error);
+        return;
+      }
+      dispatch(event);
+    } catch {
+      // Ignore malformed frames
+    }
+  };
+
+  next.onclose = () => {
+    if (socket !== next) return;
+    socket = null;
+    scheduleReconnect();
+  };
+
+  next.onerror = () => {
+    next.close();
+  };
+}
+
+function disconnect(): void {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  reconnectAttempts = 0;
+  const current = socket;
+  socket = null;
+  current?.close();
+}
+
+export function setRealtimeSession(token?: string): void {
+  const nextToken = token || "";
+  if (nextToken === sessionToken) return;
+  disconnect();
+  sessionToken = nextToken;
+  connect();
+}
+
+export function sendRealtimeTyping(channel: string, isTyping: boolean): void {
+  sendFrame({ type: "typing", channel, isTyping });
+}
+
+export function subscribeRealtime(channel: string, listener: RealtimeListener): () => void {
+  let channelListeners = listeners.get(channel);
+  if (!channelListeners) {
+    channelListeners = new Set();
+    listeners.set(channel, channelListeners);
+    sendFrame({ type: "subscribe", channel });
+  }
+  channelListeners.add(listener);
+
+  return () => {
+    const current = listeners.get(channel);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(channel);
+      sendFrame({ type: "unsubscribe", channel });
+    }
+  };
+}
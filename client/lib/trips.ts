@@ -0,0 +1,43 @@
+import type { TripOverlap } from "@/types";
+
+// Trip dates are calendar days, so format them in UTC to keep "2025-03-03" on Mar 3 in every timezone
+function parseTripDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function formatMonth(date: Date): string {
+  return date.toLocaleDateString(undefined, { month: "short", timeZone: "UTC" });
+}
+
+export function formatTripDateRange(startsOn: string, endsOn: string): string {
+  const start = parseTripDate(startsOn);
+  const end = parseTripDate(endsOn);
+  const startLabel = `${formatMonth(start)} ${start.getUTCDate()}`;
+  if (startsOn === endsOn) return startLabel;
+  if (start.getUTCFullYear() === end.getUTCFullYear() && start.getUTCMonth() === end.getUTCMonth()) {
+    return `${startLabel}–${end.getUTCDate()}`;
+  }
+  return `${startLabel} – ${formatMonth(end)} ${end.getUTCDate()}`;
+}
+
+export function formatTripOverlap(overlap: TripOverlap): string {
+  return `You'll both be in ${overlap.city} ${formatTripDateRange(overlap.startsOn, overlap.endsOn)}`;
+}
+
+// Pickers work on local dates, so these convert without going through UTC
+export function toTripDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function fromTripDate(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addTripDays(value: string, days: number): string {
+  const date = fromTripDate(value);
+  date.setDate(date.getDate() + days);
+  return toTripDate(date);
+}
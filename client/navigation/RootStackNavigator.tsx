@@ -9,6 +9,8 @@ import SubscriptionScreen from "@/screens/SubscriptionScreen";
 import CustomerCenterScreen from "@/screens/CustomerCenterScreen";
 import SplashScreen from "@/screens/SplashScreen";
 import TravelVerificationScreen from "@/screens/TravelVerificationScreen";
+import ModerationScreen from "@/screens/ModerationScreen";
+import LiveLocationScreen from "@/screens/LiveLocationScreen";
 import { SOSButton } from "@/components/SOSButton";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { useAuth } from "@/context/AuthContext";
@@ -33,13 +35,15 @@ export type RootStackParamList = {
   Splash: undefined;
   Auth: undefined;
   Main: undefined;
-  Chat: { matchId: string; matchName: string; matchPhoto?: string };
+  Chat: { matchId: string; matchName: string; matchPhoto?: string; focusMessageId?: string };
   ActivityChat: { activityId: string; activityTitle: string };
   ExpertMarketplace: undefined;
   ApplyAsExpert: undefined;
   ExpertStatus: undefined;
   Subscription: undefined;
   CustomerCenter: undefined;
+  Moderation: undefined;
+  LiveLocation: { shareId: string };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -171,6 +175,20 @@ export default function RootStackNavigator() {
                 headerShown: false,
               }}
             />
+            <Stack.Screen
+              name="Moderation"
+              component={ModerationScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="LiveLocation"
+              component={LiveLocationScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
           </>
         ) : (
           <Stack.Screen
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   StyleSheet,
   View,
@@ -12,6 +12,7 @@ import {
   TextInput,
   Platform,
   ActivityIndicator,
+  Linking,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
@@ -22,6 +23,7 @@ import { LinearGradient } from "expo-linear-gradient";
 import { Icon } from "@/components/Icon";
 import * as Haptics from "expo-haptics";
 import * as ImagePicker from "expo-image-picker";
+import * as Location from "expo-location";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 import Animated, { FadeInDown, FadeIn } from "react-native-reanimated";
 
@@ -33,14 +35,29 @@ import { Input } from "@/components/Input";
 import { useTheme } from "@/hooks/useTheme";
 import { useData } from "@/context/DataContext";
 import { useAuth } from "@/context/AuthContext";
-import { Activity, ActivityLocation, SafetyRating } from "@/types";
+import { Activity, ActivityCheckIn, ActivityEdit, HostReputationDetail, ActivityLocation, ActivityRecurrence, ActivityUpdate, SafetyRating } from "@/types";
 import { AppColors, Spacing, BorderRadius, Shadows, GradientPresets } from "@/constants/theme";
 import MapScreen from "@/screens/MapScreen";
 import LocationPickerModal from "@/components/LocationPickerModal";
 import SafetyRatingModal from "@/components/SafetyRatingModal";
+import { HostReputationBadge } from "@/components/HostReputationBadge";
+import EditActivityModal from "@/components/EditActivityModal";
+import CheckInCodeModal from "@/components/CheckInCodeModal";
+import CheckInScannerModal from "@/components/CheckInScannerModal";
+import ActivityFiltersModal, {
+  ActivityFilterState,
+  DEFAULT_ACTIVITY_FILTERS,
+  activityDateRangeBounds,
+  activityFiltersNeedLocation,
+  countActiveActivityFilters,
+} from "@/components/ActivityFiltersModal";
+import RecurrencePicker from "@/components/RecurrencePicker";
+import ActivityCalendar, { activityDayKeys } from "@/components/ActivityCalendar";
 import { PickerModal } from "@/components/PickerModal";
 import { useAlert } from "@/context/AlertContext";
 import { uploadPhoto } from "@/lib/upload";
+import { getApiUrl } from "@/lib/query-client";
+import { subscribeRealtime } from "@/lib/realtime";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 
@@ -68,7 +85,25 @@ export default function ActivitiesScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const navigation = useNavigation<NavigationProp>();
   const { theme, isDark } = useTheme();
-  const { activities, isLoading, refreshData, createActivity, joinActivity, deleteActivity } = useData();
+  const {
+    activities,
+    isLoading,
+    refreshData,
+    createActivity,
+    joinActivity,
+    leaveActivity,
+    deleteActivity,
+    updateActivity,
+    getActivityEdits,
+    getActivityModeratorIds,
+    getActivityCheckInCode,
+    checkInToActivity,
+    getActivityAttendance,
+    searchActivities,
+    submitSafetyRating,
+    submitActivityReview,
+    getHostReputation,
+  } = useData();
   const { user, isAuthenticated } = useAuth();
   const { showAlert } = useAlert();
 
@@ -80,8 +115,54 @@ export default function ActivitiesScreen() {
   const [activityForRating, setActivityForRating] = useState<Activity | null>(null);
   const [selectedActivity, setSelectedActivity] = useState<Activity | null>(null);
   const [isJoining, setIsJoining] = useState(false);
+  const [isLeaving, setIsLeaving] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [moderatorIds, setModeratorIds] = useState<string[]>([]);
+  const [activityEdits, setActivityEdits] = useState<ActivityEdit[]>([]);
+  const [checkIns, setCheckIns] = useState<ActivityCheckIn[]>([]);
+  const [hostReputation, setHostReputation] = useState<HostReputationDetail | null>(null);
+  const [showCheckInCode, setShowCheckInCode] = useState(false);
+  const [showCheckInScanner, setShowCheckInScanner] = useState(false);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+
+  const getActivityEditsRef = useRef(getActivityEdits);
+  getActivityEditsRef.current = getActivityEdits;
+  const getActivityModeratorIdsRef = useRef(getActivityModeratorIds);
+  getActivityModeratorIdsRef.current = getActivityModeratorIds;
+  const getActivityAttendanceRef = useRef(getActivityAttendance);
+  getActivityAttendanceRef.current = getActivityAttendance;
+  const getHostReputationRef = useRef(getHostReputation);
+  getHostReputationRef.current = getHostReputation;
+  const showAlertRef = useRef(showAlert);
+  showAlertRef.current = showAlert;
+
+  // DataContext moves the activity into "attending" on its own; this just tells the user it happened
+  useEffect(() => {
+    if (!user?.id) return;
+    return subscribeRealtime(`user:${user.id}`, (event) => {
+      if (event.type !== "activity.promoted") return;
+      showAlertRef.current({
+        type: "success",
+        title: "You're In!",
+        message: `A spot opened up in "${event.activityTitle || "an activity"}" and you've been moved off the waitlist.`,
+      });
+    });
+  }, [user?.id]);
   const [searchQuery, setSearchQuery] = useState("");
   const [activeFilter, setActiveFilter] = useState("all");
+  const [activityFilters, setActivityFilters] = useState<ActivityFilterState>(DEFAULT_ACTIVITY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [searchCenter, setSearchCenter] = useState<{ lat: number; lng: number } | null>(null);
+  const [searchResults, setSearchResults] = useState<Activity[]>([]);
+  const [searchCursor, setSearchCursor] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [searchRefreshKey, setSearchRefreshKey] = useState(0);
+  const searchActivitiesRef = useRef(searchActivities);
+  searchActivitiesRef.current = searchActivities;
+  const searchRequestRef = useRef(0);
   const [selectedLocation, setSelectedLocation] = useState<ActivityLocation | null>(null);
   const [isUploadingImage, setIsUploadingImage] = useState(false);
   
@@ -91,6 +172,12 @@ export default function ActivitiesScreen() {
   const [selectedDate, setSelectedDate] = useState(new Date(Date.now() + 86400000 * 3));
   const [selectedTime, setSelectedTime] = useState(new Date());
   const [selectedDuration, setSelectedDuration] = useState(2);
+  const [recurrence, setRecurrence] = useState<ActivityRecurrence | null>(null);
+  const [viewMode, setViewMode] = useState<"list" | "calendar">("list");
+  const [calendarDay, setCalendarDay] = useState<string | null>(null);
+
+  const scheduledStart = new Date(selectedDate);
+  scheduledStart.setHours(selectedTime.getHours(), selectedTime.getMinutes(), 0, 0);
   
   const DURATION_OPTIONS = [
     { value: 1, label: "1h", fullLabel: "1 hour", icon: "clock" },
@@ -202,6 +289,7 @@ export default function ActivitiesScreen() {
       const combinedDate = new Date(selectedDate);
       combinedDate.setHours(selectedTime.getHours());
       combinedDate.setMinutes(selectedTime.getMinutes());
+      const endDate = new Date(combinedDate.getTime() + selectedDuration * 3600000);
       
       await createActivity({
         title: activityTitle,
@@ -211,18 +299,20 @@ export default function ActivitiesScreen() {
         latitude: newActivity.latitude,
         longitude: newActivity.longitude,
         date: combinedDate.toISOString(),
+        endDate: endDate.toISOString(),
         startTime: selectedTime.toISOString(),
         duration: selectedDuration,
         maxAttendees: newActivity.maxAttendees,
         attendeeIds: [],
         imageUrl,
-      });
+      }, recurrence || undefined);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setShowCreateModal(false);
       setSelectedLocation(null);
       setSelectedDate(new Date(Date.now() + 86400000 * 3));
       setSelectedTime(new Date());
       setSelectedDuration(2);
+      setRecurrence(null);
       setNewActivity({
         title: "",
         description: "",
@@ -239,6 +329,13 @@ export default function ActivitiesScreen() {
       });
     } catch (error) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      if (recurrence) {
+        showAlert({
+          type: "error",
+          title: "Couldn't Create Series",
+          message: error instanceof Error ? error.message : "Failed to create activity",
+        });
+      }
     }
   };
   
@@ -248,23 +345,31 @@ export default function ActivitiesScreen() {
     setShowDetailModal(false);
   };
 
-  const handleSafetyRatingSubmit = async (rating: Omit<SafetyRating, "id" | "createdAt" | "ratedByUserId">) => {
+  const handleSafetyRatingSubmit = async (
+    rating: Omit<SafetyRating, "id" | "createdAt" | "ratedByUserId">,
+    review: { rating: number; body: string } | null
+  ) => {
     try {
-      const baseUrl = process.env.EXPO_PUBLIC_API_URL || (process.env.EXPO_PUBLIC_DOMAIN ? `https://${process.env.EXPO_PUBLIC_DOMAIN}` : "");
-      const response = await fetch(`${baseUrl}/api/safety-ratings`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          ...rating,
-          ratedByUserId: user?.id,
-        }),
-      });
-      
-      if (response.ok) {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      }
+      await submitSafetyRating(rating);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (error) {
       console.error("Failed to submit safety rating:", error);
+      showAlert({
+        type: "error",
+        title: "Rating Not Saved",
+        message: error instanceof Error ? error.message : "Failed to submit your safety rating",
+      });
+    }
+    if (review) {
+      try {
+        await submitActivityReview(rating.activityId, review.rating, review.body);
+      } catch (error) {
+        showAlert({
+          type: "error",
+          title: "Review Not Posted",
+          message: error instanceof Error ? error.message : "Failed to submit your review",
+        });
+      }
     }
     setActivityForRating(null);
   };
@@ -274,13 +379,16 @@ export default function ActivitiesScreen() {
 
     setIsJoining(true);
     try {
-      await joinActivity(selectedActivity.id);
+      const result = await joinActivity(selectedActivity.id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      const updated = activities.find(a => a.id === selectedActivity.id);
-      if (updated) {
-        setSelectedActivity(updated);
-      }
       setShowDetailModal(false);
+      if (result.status === "waitlisted") {
+        showAlert({
+          type: "info",
+          title: "You're on the Waitlist",
+          message: `This activity is full. You're #${result.waitlistPosition} in line and we'll let you know if a spot opens up.`,
+        });
+      }
     } catch (error) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     } finally {
@@ -288,6 +396,43 @@ export default function ActivitiesScreen() {
     }
   };
 
+  const handleLeaveActivity = () => {
+    if (!selectedActivity || isLeaving) return;
+    const activityId = selectedActivity.id;
+
+    const performLeave = async () => {
+      setIsLeaving(true);
+      try {
+        await leaveActivity(activityId);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        setShowDetailModal(false);
+      } catch (error) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        showAlert({
+          type: "error",
+          title: "Error",
+          message: error instanceof Error ? error.message : "Failed to leave activity",
+        });
+      } finally {
+        setIsLeaving(false);
+      }
+    };
+
+    if (isUserWaitlisted) {
+      performLeave();
+      return;
+    }
+    showAlert({
+      type: "confirm",
+      title: "Leave Activity",
+      message: "Your spot will go to the next person on the waitlist.",
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        { text: "Leave", style: "destructive", onPress: performLeave },
+      ],
+    });
+  };
+
   const handleOpenChat = () => {
     if (!selectedActivity) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -301,9 +446,15 @@ export default function ActivitiesScreen() {
   const handleDeleteActivity = async () => {
     if (!selectedActivity || !isUserHost) return;
     
-    const performDelete = async () => {
+    const laterDates = selectedActivity.seriesId
+      ? activities.filter((a) =>
+        a.seriesId === selectedActivity.seriesId && new Date(a.date).getTime() > new Date(selectedActivity.date).getTime()
+      ).length
+      : 0;
+
+    const performDelete = async (scope: "occurrence" | "following" = "occurrence") => {
       try {
-        await deleteActivity(selectedActivity.id);
+        await deleteActivity(selectedActivity.id, scope);
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         setShowDetailModal(false);
         setSelectedActivity(null);
@@ -321,8 +472,21 @@ export default function ActivitiesScreen() {
       // Use window.confirm on web
       const confirmed = window.confirm("Are you sure you want to delete this activity? This cannot be undone.");
       if (confirmed) {
-        await performDelete();
+        const following = laterDates > 0 &&
+          window.confirm(`Also delete the ${laterDates} later ${laterDates === 1 ? "date" : "dates"} in this series?`);
+        await performDelete(following ? "following" : "occurrence");
       }
+    } else if (laterDates > 0) {
+      showAlert({
+        type: "confirm",
+        title: "Delete Activity",
+        message: `This activity repeats. Delete only this date, or this and the ${laterDates} later ${laterDates === 1 ? "date" : "dates"}? This cannot be undone.`,
+        buttons: [
+          { text: "Cancel", style: "cancel" },
+          { text: "This Date Only", style: "destructive", onPress: () => performDelete("occurrence") },
+          { text: "This & Following", style: "destructive", onPress: () => performDelete("following") },
+        ],
+      });
     } else {
       showAlert({
         type: "confirm",
@@ -330,12 +494,80 @@ export default function ActivitiesScreen() {
         message: "Are you sure you want to delete this activity? This cannot be undone.",
         buttons: [
           { text: "Cancel", style: "cancel" },
-          { text: "Delete", style: "destructive", onPress: performDelete },
+          { text: "Delete", style: "destructive", onPress: () => performDelete() },
         ],
       });
     }
   };
 
+  const handleSaveEdit = async (changes: ActivityUpdate) => {
+    if (!selectedActivity) return;
+    setIsSavingEdit(true);
+    try {
+      const updated = await updateActivity(selectedActivity.id, changes);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setSelectedActivity(updated);
+      setShowEditModal(false);
+      setActivityEdits(await getActivityEditsRef.current(updated.id));
+    } catch (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      showAlert({
+        type: "error",
+        title: "Couldn't Save Changes",
+        message: error instanceof Error ? error.message : "Failed to update activity",
+      });
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  // Calendar apps take over from the .ics download; the subscription feed in Profile keeps edits in sync
+  const handleAddToCalendar = async () => {
+    if (!selectedActivity) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      await Linking.openURL(new URL(`/api/activities/${selectedActivity.id}/calendar.ics`, getApiUrl()).toString());
+    } catch (error) {
+      console.error("Error opening calendar export:", error);
+      showAlert({ type: "error", title: "Error", message: "Couldn't open the calendar file" });
+    }
+  };
+
+  const handleCheckIn = async (code: string) => {
+    if (!selectedActivity) return;
+    setIsCheckingIn(true);
+    try {
+      // The server only accepts scans made at the activity's location
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== "granted") {
+        showAlert({
+          type: "warning",
+          title: "Location Needed",
+          message: "Allow location access so we can confirm you're at the activity.",
+        });
+        return;
+      }
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+      const { checkIn } = await checkInToActivity(selectedActivity.id, code, {
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+      });
+      setCheckIns((prev) => (prev.some((c) => c.userId === checkIn.userId) ? prev : [...prev, checkIn]));
+      setShowCheckInScanner(false);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showAlert({ type: "success", title: "Checked In!", message: `Your attendance at "${selectedActivity.title}" is verified.` });
+    } catch (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      showAlert({
+        type: "error",
+        title: "Check-in Failed",
+        message: error instanceof Error ? error.message : "Failed to check in",
+      });
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
   const handleInviteFriend = async () => {
     if (!selectedActivity) return;
     
@@ -372,6 +604,105 @@ export default function ActivitiesScreen() {
     });
   };
 
+  // Multi-day events read as a range; anything ending on its start day is just the date
+  const formatDateRange = (activity: Activity) => {
+    const days = activityDayKeys(activity);
+    if (days.length < 2 || !activity.endDate) return formatDate(activity.date);
+    return `${formatDate(activity.date)} – ${formatDate(activity.endDate)}`;
+  };
+
+  const activeFilterCount = countActiveActivityFilters(activityFilters);
+
+  const buildSearchFilters = () => ({
+    query: searchQuery,
+    categories: activeFilter === "all" ? [] : [activeFilter],
+    ...activityDateRangeBounds(activityFilters.dateRange),
+    near: activityFiltersNeedLocation(activityFilters) ? searchCenter : null,
+    radiusKm: activityFilters.radiusKm,
+    hasSpots: activityFilters.hasSpots,
+    verifiedHosts: activityFilters.verifiedHosts,
+    groupSeries: true,
+    sort: activityFilters.sort,
+  });
+  const buildSearchFiltersRef = useRef(buildSearchFilters);
+  buildSearchFiltersRef.current = buildSearchFilters;
+
+  // The list is searched on the server; typing is debounced so each keystroke doesn't start a request.
+  // A change in how many activities exist (one created or deleted) also reruns the search.
+  useEffect(() => {
+    if (viewMode !== "list") return;
+    const requestId = ++searchRequestRef.current;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const page = await searchActivitiesRef.current(buildSearchFiltersRef.current());
+        if (requestId !== searchRequestRef.current) return;
+        setSearchResults(page.activities);
+        setSearchCursor(page.nextCursor);
+      } catch (error) {
+        if (requestId !== searchRequestRef.current) return;
+        console.error("Activity search failed:", error);
+        setSearchResults([]);
+        setSearchCursor(null);
+      } finally {
+        if (requestId === searchRequestRef.current) setIsSearching(false);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [viewMode, searchQuery, activeFilter, activityFilters, searchCenter, activities.length, searchRefreshKey]);
+
+  const handleLoadMore = async () => {
+    if (viewMode !== "list" || !searchCursor || isLoadingMore || isSearching) return;
+    const requestId = searchRequestRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await searchActivities(buildSearchFilters(), searchCursor);
+      if (requestId !== searchRequestRef.current) return;
+      setSearchResults((prev) => {
+        const seen = new Set(prev.map((a) => a.id));
+        return [...prev, ...page.activities.filter((a) => !seen.has(a.id))];
+      });
+      setSearchCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Loading more activities failed:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    await refreshData();
+    setSearchRefreshKey((key) => key + 1);
+  };
+
+  // Distance filters and the nearest sort need a point; it is read once when they are applied, not tracked
+  const handleApplyFilters = async (next: ActivityFilterState) => {
+    if (activityFiltersNeedLocation(next) && !searchCenter) {
+      setIsLocating(true);
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== "granted") {
+          showAlert({
+            type: "warning",
+            title: "Location Needed",
+            message: "Allow location access to sort by distance or limit how far away activities are.",
+          });
+          return;
+        }
+        const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+        setSearchCenter({ lat: position.coords.latitude, lng: position.coords.longitude });
+      } catch (error) {
+        console.error("Error getting location:", error);
+        showAlert({ type: "error", title: "Error", message: "Couldn't get your location. Please try again." });
+        return;
+      } finally {
+        setIsLocating(false);
+      }
+    }
+    setActivityFilters(next);
+    setShowFilters(false);
+  };
+
   const filteredActivities = activities.filter(activity => {
     const matchesSearch = activity.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
       activity.location.toLowerCase().includes(searchQuery.toLowerCase());
@@ -383,6 +714,31 @@ export default function ActivitiesScreen() {
     (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
   );
 
+  // Counted over every upcoming activity, since the list only holds the occurrences the search returned
+  const seriesDates = new Map<string, Activity[]>();
+  for (const activity of [...activities].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())) {
+    if (!activity.seriesId) continue;
+    seriesDates.set(activity.seriesId, [...(seriesDates.get(activity.seriesId) || []), activity]);
+  }
+
+  // The list shows each series once, at its next matching date; the calendar shows every occurrence.
+  // Search results are swapped for the context's copy so joins and edits show without searching again.
+  const activitiesById = new Map(activities.map((a) => [a.id, a]));
+  const visibleActivities = viewMode === "calendar"
+    ? sortedActivities.filter((a) => !calendarDay || activityDayKeys(a).includes(calendarDay))
+    : searchResults.map((a) => {
+        const current = activitiesById.get(a.id);
+        return current
+          ? { ...current, distanceKm: a.distanceKm, hostReputation: a.hostReputation || current.hostReputation }
+          : a;
+      });
+
+  const selectedSeriesDates = selectedActivity?.seriesId
+    ? activities
+        .filter((a) => a.seriesId === selectedActivity.seriesId)
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    : [];
+
   const isUserAttending = selectedActivity && user 
     ? selectedActivity.attendeeIds.includes(user.id)
     : false;
@@ -391,8 +747,78 @@ export default function ActivitiesScreen() {
     ? selectedActivity.hostId === user.id
     : false;
 
-  const canJoin = isAuthenticated && !isUserHost && !isUserAttending && selectedActivity && 
-    (!selectedActivity.maxAttendees || selectedActivity.attendees.length < selectedActivity.maxAttendees);
+  const canEditActivity = isUserHost || (!!user && moderatorIds.includes(user.id));
+
+  // Moderators and the change history are only visible to members, so nothing is fetched for outsiders
+  const openedActivityId = showDetailModal && (isUserHost || isUserAttending) ? selectedActivity?.id : undefined;
+  useEffect(() => {
+    setModeratorIds([]);
+    setActivityEdits([]);
+    setCheckIns([]);
+    if (!openedActivityId) return;
+
+    let cancelled = false;
+    Promise.all([
+      getActivityModeratorIdsRef.current(openedActivityId),
+      getActivityEditsRef.current(openedActivityId),
+      getActivityAttendanceRef.current(openedActivityId),
+    ]).then(([ids, edits, attendance]) => {
+      if (cancelled) return;
+      setModeratorIds(ids);
+      setActivityEdits(edits);
+      setCheckIns(attendance);
+    });
+    // The host's code sheet counts people in as they scan; edits by someone else refresh the open sheet
+    const unsubscribe = subscribeRealtime(`activity:${openedActivityId}`, (event) => {
+      if (event.type === "activity.updated" && event.activity) {
+        const incoming = event.activity as Activity;
+        setSelectedActivity((prev) => (prev && prev.id === incoming.id ? { ...prev, ...incoming, host: prev.host } : prev));
+        if (event.edit) {
+          const edit = event.edit as ActivityEdit;
+          setActivityEdits((prev) => (prev.some((e) => e.id === edit.id) ? prev : [edit, ...prev]));
+        }
+        return;
+      }
+      if (event.type !== "activity.checked_in" || !event.checkIn) return;
+      const checkIn = event.checkIn as ActivityCheckIn;
+      setCheckIns((prev) => (prev.some((c) => c.userId === checkIn.userId) ? prev : [...prev, checkIn]));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [openedActivityId]);
+
+  // Anyone looking at an activity can see how its host has been rated, members or not
+  const openedHostId = showDetailModal ? selectedActivity?.hostId : undefined;
+  useEffect(() => {
+    setHostReputation(null);
+    if (!openedHostId) return;
+
+    let cancelled = false;
+    getHostReputationRef.current(openedHostId).then((reputation) => {
+      if (!cancelled) setHostReputation(reputation);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [openedHostId]);
+
+  const hasCheckedIn = !!user && checkIns.some((c) => c.userId === user.id);
+  // The host's own row is added alongside the first attendee, so only attendees count towards the total
+  const checkedInAttendeeCount = selectedActivity
+    ? checkIns.filter((c) => selectedActivity.attendeeIds.includes(c.userId)).length
+    : 0;
+
+  const waitlistPosition = selectedActivity && user
+    ? (selectedActivity.waitlistIds || []).indexOf(user.id) + 1
+    : 0;
+  const isUserWaitlisted = waitlistPosition > 0;
+
+  const isActivityFull = !!selectedActivity?.maxAttendees &&
+    selectedActivity.attendees.length >= selectedActivity.maxAttendees;
+
+  const canJoin = isAuthenticated && !isUserHost && !isUserAttending && !isUserWaitlisted && selectedActivity;
 
   const renderHeader = () => (
     <View style={styles.headerSection}>
@@ -405,12 +831,47 @@ export default function ActivitiesScreen() {
             Discover events near you
           </ThemedText>
         </View>
+        {viewMode === "list" ? (
+          <Pressable
+            style={[styles.viewToggle, styles.filterToggle, { backgroundColor: isDark ? "#2A2A2A" : theme.cardBackground }]}
+            onPress={() => setShowFilters(true)}
+            testID="button-activity-filters"
+          >
+            <Icon name="filter" size={20} color={activeFilterCount > 0 ? AppColors.primary : theme.text} />
+            {activeFilterCount > 0 ? (
+              <View style={styles.filterBadge}>
+                <ThemedText style={styles.filterBadgeText}>{activeFilterCount}</ThemedText>
+              </View>
+            ) : null}
+          </Pressable>
+        ) : null}
+        <Pressable
+          style={[styles.viewToggle, { backgroundColor: isDark ? "#2A2A2A" : theme.cardBackground }]}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            setViewMode(viewMode === "list" ? "calendar" : "list");
+            setCalendarDay(null);
+          }}
+          testID="button-toggle-calendar"
+        >
+          <Icon name={viewMode === "list" ? "calendar" : "list"} size={20} color={AppColors.primary} />
+        </Pressable>
       </View>
     </View>
   );
 
   const renderFilterChips = () => (
     <View style={styles.filterSection}>
+      <View style={styles.searchBar}>
+        <Input
+          placeholder="Search activities, places..."
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          autoCorrect={false}
+          returnKeyType="search"
+          testID="input-search-activities"
+        />
+      </View>
       <ScrollView
         horizontal
         showsHorizontalScrollIndicator={false}
@@ -482,6 +943,17 @@ export default function ActivitiesScreen() {
               {(item.type || "other").charAt(0).toUpperCase() + (item.type || "other").slice(1)}
             </ThemedText>
           </View>
+          {item.seriesId ? (
+            <View style={styles.seriesBadge}>
+              <Icon name="refresh-cw" size={11} color="#FFFFFF" />
+              <ThemedText type="small" style={styles.typeBadgeText} numberOfLines={1}>
+                {item.recurrenceLabel || "Repeats"}
+                {viewMode === "list" && (seriesDates.get(item.seriesId)?.length || 0) > 1
+                  ? ` · ${seriesDates.get(item.seriesId)?.length} dates`
+                  : ""}
+              </ThemedText>
+            </View>
+          ) : null}
         </View>
         
         <View style={styles.cardContent}>
@@ -494,14 +966,16 @@ export default function ActivitiesScreen() {
               <Icon name="map-pin" size={14} color={isDark ? "#C1C1C1" : theme.textSecondary} />
               <ThemedText type="small" style={[styles.cardMetaText, { color: isDark ? "#C1C1C1" : theme.textSecondary }]} numberOfLines={1}>
                 {item.location}
+                {typeof item.distanceKm === "number" ? ` · ${item.distanceKm} km` : ""}
               </ThemedText>
             </View>
             <View style={styles.cardMetaItem}>
               <Icon name="calendar" size={14} color={isDark ? "#C1C1C1" : theme.textSecondary} />
               <ThemedText type="small" style={[styles.cardMetaText, { color: isDark ? "#C1C1C1" : theme.textSecondary }]}>
-                {formatDate(item.date)}
+                {formatDateRange(item)}
               </ThemedText>
             </View>
+            <HostReputationBadge reputation={item.hostReputation} compact color={isDark ? "#C1C1C1" : theme.textSecondary} />
           </View>
           
           <View style={styles.cardFooter}>
@@ -534,12 +1008,17 @@ export default function ActivitiesScreen() {
     <>
       {renderHeader()}
       {renderFilterChips()}
+      {viewMode === "calendar" ? (
+        <ActivityCalendar activities={sortedActivities} selectedDay={calendarDay} onSelectDay={setCalendarDay} />
+      ) : null}
       <View style={styles.sectionHeader}>
         <ThemedText type="h3" style={[styles.sectionTitle, { color: isDark ? "#FFFFFF" : theme.text }]}>
-          Upcoming
+          {calendarDay
+            ? formatDate(`${calendarDay}T12:00:00`)
+            : "Upcoming"}
         </ThemedText>
         <ThemedText type="small" style={[styles.sectionCount, { color: isDark ? "#A1A1A1" : theme.textSecondary }]}>
-          {sortedActivities.length} available
+          {isSearching && viewMode === "list" ? "Searching..." : `${visibleActivities.length} available`}
         </ThemedText>
       </View>
     </>
@@ -554,10 +1033,13 @@ export default function ActivitiesScreen() {
         style={StyleSheet.absoluteFill}
       />
       <FlatList
-        data={sortedActivities}
+        data={visibleActivities}
         renderItem={renderActivityCard}
         keyExtractor={(item) => item.id}
-        ListHeaderComponent={renderListHeader}
+        ListHeaderComponent={renderListHeader()}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={isLoadingMore ? <ActivityIndicator color={AppColors.primary} style={styles.loadMoreSpinner} /> : null}
         contentContainerStyle={[
           styles.listContent,
           {
@@ -570,18 +1052,28 @@ export default function ActivitiesScreen() {
         refreshControl={
           <RefreshControl
             refreshing={isLoading}
-            onRefresh={refreshData}
+            onRefresh={handleRefresh}
             tintColor={AppColors.primary}
           />
         }
         ListEmptyComponent={
-          <EmptyState
-            icon="compass"
-            title="No Activities Yet"
-            description="Be the first to organize a meetup! Create a hiking trip, climbing session, or campfire hangout."
-            actionLabel={isAuthenticated ? "Create Activity" : undefined}
-            onAction={isAuthenticated ? () => setShowCreateModal(true) : undefined}
-          />
+          isSearching && viewMode === "list" ? null : activities.length > 0 ? (
+            <EmptyState
+              icon="search"
+              title="No Matching Activities"
+              description="Nothing fits your search right now. Try another word or widen your filters."
+              actionLabel={activeFilterCount > 0 ? "Adjust Filters" : undefined}
+              onAction={activeFilterCount > 0 ? () => setShowFilters(true) : undefined}
+            />
+          ) : (
+            <EmptyState
+              icon="compass"
+              title="No Activities Yet"
+              description="Be the first to organize a meetup! Create a hiking trip, climbing session, or campfire hangout."
+              actionLabel={isAuthenticated ? "Create Activity" : undefined}
+              onAction={isAuthenticated ? () => setShowCreateModal(true) : undefined}
+            />
+          )
         }
       />
 
@@ -789,6 +1281,11 @@ export default function ActivitiesScreen() {
               </Pressable>
             </View>
 
+            <ThemedText type="small" style={styles.label}>
+              Repeat
+            </ThemedText>
+            <RecurrencePicker value={recurrence} startDate={scheduledStart} onChange={setRecurrence} />
+
             <Input
               label="Description"
               placeholder="Tell people what to expect..."
@@ -932,6 +1429,16 @@ export default function ActivitiesScreen() {
               <ThemedText type="h3" style={{ flex: 1 }} numberOfLines={1}>
                 {selectedActivity.title}
               </ThemedText>
+              {canEditActivity ? (
+                <Pressable
+                  onPress={() => setShowEditModal(true)}
+                  style={styles.editButton}
+                  hitSlop={8}
+                  testID="button-edit-activity"
+                >
+                  <Icon name="edit-2" size={20} color={theme.text} />
+                </Pressable>
+              ) : null}
               <Pressable onPress={() => setShowDetailModal(false)}>
                 <Icon name="x" size={24} color={theme.text} />
               </Pressable>
@@ -944,10 +1451,49 @@ export default function ActivitiesScreen() {
               <View style={styles.detailRow}>
                 <Icon name="calendar" size={18} color={AppColors.primary} />
                 <ThemedText type="body" style={styles.detailText}>
-                  {formatDate(selectedActivity.date)} at {formatTime(selectedActivity.date)}
+                  {formatDateRange(selectedActivity)} at {formatTime(selectedActivity.date)}
                 </ThemedText>
               </View>
 
+              {selectedActivity.seriesId ? (
+                <View style={styles.seriesSection}>
+                  <View style={[styles.detailRow, { marginBottom: Spacing.sm }]}>
+                    <Icon name="refresh-cw" size={18} color={AppColors.primary} />
+                    <ThemedText type="body" style={styles.detailText}>
+                      {selectedActivity.recurrenceLabel || "Repeats"}
+                      {selectedSeriesDates.length > 1 ? ` · ${selectedSeriesDates.length} upcoming dates` : ""}
+                    </ThemedText>
+                  </View>
+                  {selectedSeriesDates.length > 1 ? (
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.seriesDates}>
+                      {selectedSeriesDates.map((occurrence) => {
+                        const isCurrent = occurrence.id === selectedActivity.id;
+                        const isGoing = !!user && occurrence.attendeeIds.includes(user.id);
+                        return (
+                          <Pressable
+                            key={occurrence.id}
+                            style={[
+                              styles.seriesDateChip,
+                              { backgroundColor: isCurrent ? AppColors.primary : theme.backgroundSecondary },
+                            ]}
+                            onPress={() => {
+                              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                              setSelectedActivity(occurrence);
+                            }}
+                            testID={`button-series-date-${occurrence.id}`}
+                          >
+                            <ThemedText type="small" style={{ color: isCurrent ? "#FFFFFF" : theme.text, fontWeight: "600" }}>
+                              {formatDate(occurrence.date)}
+                            </ThemedText>
+                            {isGoing ? <Icon name="check" size={12} color={isCurrent ? "#FFFFFF" : AppColors.primary} /> : null}
+                          </Pressable>
+                        );
+                      })}
+                    </ScrollView>
+                  ) : null}
+                </View>
+              ) : null}
+
               {selectedActivity.duration ? (
                 <View style={styles.detailRow}>
                   <Icon name="clock" size={18} color={AppColors.primary} />
@@ -971,6 +1517,9 @@ export default function ActivitiesScreen() {
                   {selectedActivity.maxAttendees
                     ? ` / ${selectedActivity.maxAttendees} spots`
                     : " attending"}
+                  {selectedActivity.waitlistIds?.length
+                    ? ` · ${selectedActivity.waitlistIds.length} on waitlist`
+                    : ""}
                 </ThemedText>
               </View>
 
@@ -978,22 +1527,79 @@ export default function ActivitiesScreen() {
                 {selectedActivity.description}
               </ThemedText>
 
+              {activityEdits.length > 0 ? (
+                <View style={styles.editsSection}>
+                  <ThemedText type="small" style={[styles.attendeesLabel, { color: theme.textSecondary }]}>
+                    Recent Changes
+                  </ThemedText>
+                  {activityEdits.slice(0, 3).map((edit) => (
+                    <View key={edit.id} style={styles.editRow}>
+                      <Icon name="edit-2" size={14} color={theme.textSecondary} />
+                      <ThemedText type="small" style={{ flex: 1 }}>
+                        {edit.summary}
+                        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                          {` · ${edit.editedByName}, ${formatDate(edit.createdAt)}`}
+                        </ThemedText>
+                      </ThemedText>
+                    </View>
+                  ))}
+                </View>
+              ) : null}
+
               <View style={styles.hostSection}>
                 <Image
                   source={selectedActivity.host?.photos?.[0] ? { uri: selectedActivity.host.photos[0] } : require("../../assets/images/default-avatar.png")}
                   style={styles.hostAvatar}
                   contentFit="cover"
                 />
-                <View>
+                <View style={{ flex: 1 }}>
                   <ThemedText type="small" style={{ color: theme.textSecondary }}>
                     Hosted by
                   </ThemedText>
                   <ThemedText type="body" style={{ fontWeight: "600" }}>
                     {selectedActivity.host.name}
                   </ThemedText>
+                  <HostReputationBadge reputation={hostReputation || selectedActivity.hostReputation} />
                 </View>
               </View>
 
+              {hostReputation?.isRepeatLowRated ? (
+                <View style={[styles.reputationWarning, { backgroundColor: `${AppColors.sunsetRose}15` }]}>
+                  <Icon name="alert-circle" size={16} color={AppColors.sunsetRose} />
+                  <ThemedText type="small" style={{ flex: 1, color: AppColors.sunsetRose }}>
+                    Several of this host&apos;s past activities were rated poorly. Meet somewhere public and tell someone
+                    your plans.
+                  </ThemedText>
+                </View>
+              ) : null}
+
+              {hostReputation?.recentReviews.length ? (
+                <View style={styles.editsSection}>
+                  <ThemedText type="small" style={[styles.attendeesLabel, { color: theme.textSecondary }]}>
+                    What Attendees Say
+                  </ThemedText>
+                  {hostReputation.recentReviews.slice(0, 3).map((review) => (
+                    <View key={review.id} style={styles.reviewRow}>
+                      <View style={styles.editRow}>
+                        <Icon name="star-filled" size={14} color={AppColors.sunsetGold} />
+                        <ThemedText type="small" style={{ fontWeight: "600" }}>
+                          {review.rating}/5
+                        </ThemedText>
+                        <ThemedText type="small" style={{ flex: 1, color: theme.textSecondary }} numberOfLines={1}>
+                          {review.reviewerName}
+                          {review.activityTitle ? ` · ${review.activityTitle}` : ""}
+                        </ThemedText>
+                      </View>
+                      {review.body ? (
+                        <ThemedText type="small" numberOfLines={3}>
+                          {review.body}
+                        </ThemedText>
+                      ) : null}
+                    </View>
+                  ))}
+                </View>
+              ) : null}
+
               {selectedActivity.attendees.length > 0 ? (
                 <View style={styles.attendeesSection}>
                   <ThemedText type="small" style={[styles.attendeesLabel, { color: theme.textSecondary }]}>
@@ -1016,6 +1622,11 @@ export default function ActivitiesScreen() {
                       </View>
                     ) : null}
                   </View>
+                  {checkIns.length > 0 ? (
+                    <ThemedText type="small" style={{ color: AppColors.success, marginTop: Spacing.xs }}>
+                      {checkedInAttendeeCount} checked in at the venue
+                    </ThemedText>
+                  ) : null}
                 </View>
               ) : null}
 
@@ -1044,22 +1655,82 @@ export default function ActivitiesScreen() {
                 </View>
               )}
 
+              {isUserAttending || isUserHost ? (
+                <Pressable
+                  style={[styles.actionButton, styles.calendarButton, { backgroundColor: theme.cardBackground, borderColor: theme.border }]}
+                  onPress={handleAddToCalendar}
+                  testID="button-add-to-calendar"
+                >
+                  <Icon name="calendar" size={20} color={theme.text} />
+                  <ThemedText type="body" style={[styles.actionButtonText, { color: theme.text }]}>
+                    Add to Calendar
+                  </ThemedText>
+                </Pressable>
+              ) : null}
+
+              {canEditActivity ? (
+                <Pressable
+                  style={[styles.actionButton, styles.calendarButton, { backgroundColor: theme.cardBackground, borderColor: AppColors.primary }]}
+                  onPress={() => setShowCheckInCode(true)}
+                  testID="button-show-check-in-code"
+                >
+                  <Icon name="check-circle" size={20} color={AppColors.primary} />
+                  <ThemedText type="body" style={[styles.actionButtonText, { color: AppColors.primary }]}>
+                    Show Check-in Code
+                  </ThemedText>
+                </Pressable>
+              ) : null}
+
+              {isUserAttending && !hasCheckedIn ? (
+                <Pressable
+                  style={[styles.actionButton, styles.calendarButton, { backgroundColor: theme.cardBackground, borderColor: AppColors.success }]}
+                  onPress={() => setShowCheckInScanner(true)}
+                  testID="button-check-in"
+                >
+                  <Icon name="camera" size={20} color={AppColors.success} />
+                  <ThemedText type="body" style={[styles.actionButtonText, { color: AppColors.success }]}>
+                    Check In
+                  </ThemedText>
+                </Pressable>
+              ) : null}
+
               {canJoin ? (
                 <GradientButton 
                   onPress={handleJoinActivity} 
                   style={styles.joinButton}
                   disabled={isJoining}
                 >
-                  {isJoining ? "Joining..." : "Join Activity"}
+                  {isJoining ? "Joining..." : isActivityFull ? "Join Waitlist" : "Join Activity"}
                 </GradientButton>
               ) : null}
 
+              {isUserWaitlisted ? (
+                <>
+                  <View style={styles.joinedBadge}>
+                    <Icon name="clock" size={20} color={AppColors.primary} />
+                    <ThemedText style={[styles.joinedText, { color: AppColors.primary }]}>
+                      You&apos;re #{waitlistPosition} on the waitlist
+                    </ThemedText>
+                  </View>
+                  <Pressable
+                    style={[styles.leaveButton, { borderColor: theme.border }]}
+                    onPress={handleLeaveActivity}
+                    disabled={isLeaving}
+                    testID="button-leave-waitlist"
+                  >
+                    <ThemedText style={{ color: theme.textSecondary, fontWeight: "600", fontSize: 14 }}>
+                      {isLeaving ? "Leaving..." : "Leave Waitlist"}
+                    </ThemedText>
+                  </Pressable>
+                </>
+              ) : null}
+
               {isUserAttending ? (
                 <>
                   <View style={styles.joinedBadge}>
                     <Icon name="check-circle" size={20} color={AppColors.success} />
                     <ThemedText style={[styles.joinedText, { color: AppColors.success }]}>
-                      You're attending!
+                      {hasCheckedIn ? "You're checked in!" : "You're attending!"}
                     </ThemedText>
                   </View>
                   <Pressable
@@ -1072,6 +1743,16 @@ export default function ActivitiesScreen() {
                       Mark Activity Complete
                     </ThemedText>
                   </Pressable>
+                  <Pressable
+                    style={[styles.leaveButton, { borderColor: theme.border }]}
+                    onPress={handleLeaveActivity}
+                    disabled={isLeaving}
+                    testID="button-leave-activity"
+                  >
+                    <ThemedText style={{ color: theme.textSecondary, fontWeight: "600", fontSize: 14 }}>
+                      {isLeaving ? "Leaving..." : "Leave Activity"}
+                    </ThemedText>
+                  </Pressable>
                 </>
               ) : null}
 
@@ -1102,10 +1783,42 @@ export default function ActivitiesScreen() {
                 </ThemedText>
               ) : null}
             </ScrollView>
+
+            <EditActivityModal
+              visible={showEditModal}
+              activity={selectedActivity}
+              isSaving={isSavingEdit}
+              onClose={() => setShowEditModal(false)}
+              onSave={handleSaveEdit}
+            />
+
+            <CheckInCodeModal
+              visible={showCheckInCode}
+              checkedInCount={checkedInAttendeeCount}
+              attendeeCount={selectedActivity.attendees.length}
+              loadCode={() => getActivityCheckInCode(selectedActivity.id)}
+              onClose={() => setShowCheckInCode(false)}
+            />
+
+            <CheckInScannerModal
+              visible={showCheckInScanner}
+              activityId={selectedActivity.id}
+              isSubmitting={isCheckingIn}
+              onClose={() => setShowCheckInScanner(false)}
+              onSubmit={handleCheckIn}
+            />
           </View>
         ) : null}
       </Modal>
 
+      <ActivityFiltersModal
+        visible={showFilters}
+        filters={activityFilters}
+        isLocating={isLocating}
+        onClose={() => setShowFilters(false)}
+        onApply={handleApplyFilters}
+      />
+
       <MapScreen
         visible={showMapModal}
         onClose={() => setShowMapModal(false)}
@@ -1292,6 +2005,18 @@ const styles = StyleSheet.create({
     borderRadius: 100,
     backgroundColor: "rgba(217,119,6,0.88)",
   },
+  seriesBadge: {
+    position: "absolute",
+    top: Spacing.sm,
+    right: Spacing.sm,
+    maxWidth: "60%",
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 100,
+    backgroundColor: "rgba(15,23,42,0.75)",
+  },
   typeBadgeText: {
     color: "#FFFFFF",
     marginLeft: 4,
@@ -1438,6 +2163,17 @@ const styles = StyleSheet.create({
     marginTop: Spacing.lg,
     lineHeight: 24,
   },
+  reputationWarning: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  reviewRow: {
+    gap: Spacing.xs,
+  },
   hostSection: {
     flexDirection: "row",
     alignItems: "center",
@@ -1491,6 +2227,73 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     fontSize: 16,
   },
+  leaveButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  editButton: {
+    marginHorizontal: Spacing.md,
+  },
+  viewToggle: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  filterToggle: {
+    marginRight: Spacing.sm,
+  },
+  filterBadge: {
+    position: "absolute",
+    top: -2,
+    right: -2,
+    backgroundColor: AppColors.primary,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  filterBadgeText: {
+    color: "#FFFFFF",
+    fontSize: 10,
+    fontWeight: "700" as const,
+  },
+  searchBar: {
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  loadMoreSpinner: {
+    marginVertical: Spacing.lg,
+  },
+  seriesSection: {
+    marginBottom: Spacing.md,
+  },
+  seriesDates: {
+    gap: Spacing.sm,
+  },
+  seriesDateChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: 6,
+    borderRadius: 100,
+  },
+  editsSection: {
+    marginTop: Spacing.xl,
+    gap: Spacing.xs,
+  },
+  editRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+  },
   hostActionsSection: {
     marginTop: Spacing.xl,
     gap: Spacing.md,
@@ -1521,6 +2324,10 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.md,
     borderWidth: 1.5,
   },
+  calendarButton: {
+    flex: 0,
+    marginTop: Spacing.md,
+  },
   actionButtonText: {
     marginLeft: Spacing.sm,
     fontWeight: "600",
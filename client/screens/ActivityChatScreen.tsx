@@ -11,6 +11,7 @@ StyleSheet,
   Linking,
   Animated as RNAnimated,
   Easing,
+  ActivityIndicator,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
@@ -41,6 +42,7 @@ import { PhotoPickerModal } from "@/components/PhotoPickerModal";
 import LocationPickerModal from "@/components/LocationPickerModal";
 import { uploadPhoto, uploadFile, uploadAudio } from "@/lib/upload";
 import { saveImageToGallery, saveFileToDevice } from "@/lib/media";
+import { subscribeRealtime, type RealtimeEvent } from "@/lib/realtime";
 import { createAudioPlayer, RecordingPresets, requestRecordingPermissionsAsync, setAudioModeAsync } from "expo-audio";
 import AudioModule from "expo-audio/build/AudioModule";
 import type { AudioRecorder } from "expo-audio";
@@ -50,7 +52,7 @@ type ActivityChatRouteProp = RouteProp<RootStackParamList, "ActivityChat">;
 type ActivityChatNavigationProp = NativeStackNavigationProp<RootStackParamList, "ActivityChat">;
 
 const WAVE_BARS = [2, 4, 6, 4, 7, 5, 3, 6];
-const MESSAGE_POLL_INTERVAL_MS = 8000;
+const MESSAGE_PAGE_SIZE = 50;
 
 const resolveMediaUrl = (value?: string): string | undefined => {
   if (!value) return undefined;
@@ -185,6 +187,8 @@ export default function ActivityChatScreen() {
   const [isRecording, setIsRecording] = useState(false);
   const recordingRef = useRef<AudioRecorder | null>(null);
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
+  const [hasOlderMessages, setHasOlderMessages] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
   const QUICK_REACTIONS = ["\u{1F44D}", "\u2764\uFE0F", "\u{1F602}", "\u{1F62E}", "\u{1F622}", "\u{1F44F}"];
   const EXTRA_REACTIONS = [
     "\u{1F525}", "\u{1F389}", "\u{1F64C}", "\u{1F91D}", "\u{1F92F}", "\u{1F60D}",
@@ -222,18 +226,19 @@ export default function ActivityChatScreen() {
       const apiUrl = getApiUrl();
       const messagesUrl = new URL(`/api/activities/${activityId}/messages`, apiUrl);
       if (user?.id) messagesUrl.searchParams.set("userId", user.id);
+      messagesUrl.searchParams.set("limit", String(MESSAGE_PAGE_SIZE));
       const response = await fetch(messagesUrl.toString(), { headers: authHeaders() });
       if (response.ok) {
         const data = await response.json();
+        const latestPage: ActivityChatMessage[] = (data || []).map((row: any) => normalizeMessageMedia(row));
+        const isWholeConversation = latestPage.length < MESSAGE_PAGE_SIZE;
+        if (isWholeConversation) setHasOlderMessages(false);
         setMessages((prev) => {
-          if (prev.length === data.length) {
-            const prevLast = prev[prev.length - 1];
-            const nextLast = data[data.length - 1];
-            if (prevLast?.id === nextLast?.id && prevLast?.createdAt === nextLast?.createdAt) {
-              return prev;
-            }
-          }
-          return (data || []).map((row: any) => normalizeMessageMedia(row));
+          if (isWholeConversation || latestPage.length === 0) return latestPage;
+          // Keep older pages the user already scrolled through; the latest page replaces everything it covers
+          const pageStart = new Date(latestPage[0].createdAt).getTime();
+          const olderMessages = prev.filter((m) => new Date(m.createdAt).getTime() < pageStart);
+          return [...olderMessages, ...latestPage];
         });
       }
     } catch (error) {
@@ -241,6 +246,35 @@ export default function ActivityChatScreen() {
     }
   }, [activityId]);
 
+  // The list is inverted, so reaching its end means the user scrolled up to the oldest loaded message
+  const fetchOlderMessages = useCallback(async () => {
+    const oldest = messages[0];
+    if (!oldest || !hasOlderMessages || isLoadingOlder) return;
+    setIsLoadingOlder(true);
+    try {
+      const messagesUrl = new URL(`/api/activities/${activityId}/messages`, getApiUrl());
+      if (user?.id) messagesUrl.searchParams.set("userId", user.id);
+      messagesUrl.searchParams.set("limit", String(MESSAGE_PAGE_SIZE));
+      messagesUrl.searchParams.set("before", oldest.id);
+      const response = await fetch(messagesUrl.toString(), { headers: authHeaders() });
+      if (!response.ok) {
+        setHasOlderMessages(false);
+        return;
+      }
+      const data = await response.json();
+      const olderPage: ActivityChatMessage[] = (data || []).map((row: any) => normalizeMessageMedia(row));
+      setHasOlderMessages(olderPage.length >= MESSAGE_PAGE_SIZE);
+      setMessages((prev) => {
+        const knownIds = new Set(prev.map((m) => m.id));
+        return [...olderPage.filter((m) => !knownIds.has(m.id)), ...prev];
+      });
+    } catch (error) {
+      console.error("Failed to fetch older messages:", error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [activityId, authHeaders, hasOlderMessages, isLoadingOlder, messages, user?.id]);
+
   const fetchModerators = useCallback(async () => {
     try {
       const apiUrl = getApiUrl();
@@ -274,10 +308,41 @@ export default function ActivityChatScreen() {
 
   useEffect(() => {
     Promise.all([fetchMessages(), fetchModerators(), initializeChat()]).catch(() => {});
-    const interval = setInterval(fetchMessages, MESSAGE_POLL_INTERVAL_MS);
-    return () => clearInterval(interval);
   }, [fetchMessages, fetchModerators, initializeChat]);
 
+  useEffect(() => {
+    let hasSubscribed = false;
+    const handleEvent = (event: RealtimeEvent) => {
+      switch (event.type) {
+        case "subscribed":
+          // Re-subscriptions happen after a reconnect, so catch up on what was missed
+          if (hasSubscribed) fetchMessages();
+          hasSubscribed = true;
+          break;
+        case "message.created": {
+          const created = normalizeMessageMedia(event.message);
+          setMessages((prev) => (prev.some((m) => m.id === created.id) ? prev : [...prev, created]));
+          break;
+        }
+        case "message.updated": {
+          const updated = normalizeMessageMedia(event.message);
+          setMessages((prev) => prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m)));
+          break;
+        }
+        case "message.deleted":
+          setMessages((prev) => prev.filter((m) => m.id !== event.messageId));
+          break;
+        case "message.reactions":
+          setMessages((prev) => prev.map((m) => (m.id === event.messageId ? { ...m, reactions: event.reactions || {} } : m)));
+          break;
+        case "message.pinned":
+          setMessages((prev) => prev.map((m) => (m.id === event.messageId ? { ...m, isPinned: !!event.isPinned } : m)));
+          break;
+      }
+    };
+    return subscribeRealtime(`activity:${activityId}`, handleEvent);
+  }, [activityId, fetchMessages]);
+
   useLayoutEffect(() => {
     navigation.setOptions({
       headerRight: () => (
@@ -356,7 +421,7 @@ export default function ActivityChatScreen() {
       });
       if (response.ok) {
         const createdMessage = normalizeMessageMedia(await response.json());
-        setMessages((prev) => [...prev, createdMessage]);
+        setMessages((prev) => (prev.some((m) => m.id === createdMessage.id) ? prev : [...prev, createdMessage]));
       }
       setReplyTo(null);
     } catch (error) {
@@ -460,7 +525,7 @@ export default function ActivityChatScreen() {
       );
       if (response.ok) {
         const updated = await response.json();
-        setMessages((prev) => prev.map((m) => (m.id === updated.id ? normalizeMessageMedia(updated) : m)));
+        setMessages((prev) => prev.map((m) => (m.id === updated.id ? { ...m, reactions: updated.reactions || {} } : m)));
       }
     } catch (error) {
       console.error("Failed to react:", error);
@@ -921,6 +986,9 @@ export default function ActivityChatScreen() {
           activeMessages.length === 0 && styles.emptyListContent,
         ]}
         ListEmptyComponent={EmptyChat}
+        ListFooterComponent={isLoadingOlder ? <ActivityIndicator style={styles.loadingOlder} color={AppColors.primary} /> : null}
+        onEndReached={activeMessages.length > 0 ? fetchOlderMessages : undefined}
+        onEndReachedThreshold={0.2}
         showsVerticalScrollIndicator={false}
       />
 
@@ -1333,6 +1401,9 @@ const styles = StyleSheet.create({
     flex: 1,
     justifyContent: "center",
   },
+  loadingOlder: {
+    paddingVertical: Spacing.md,
+  },
   messageContainer: {
     marginBottom: Spacing.sm,
     width: "100%",
@@ -1,4 +1,4 @@
-import React, {  useState, useCallback, useRef , useEffect } from "react";
+import React, {  useState, useCallback, useRef , useEffect, useMemo } from "react";
 import {
 StyleSheet,
   View,
@@ -12,11 +12,13 @@ StyleSheet,
   Animated as RNAnimated,
   Easing,
   ScrollView,
+  ActivityIndicator,
 } from "react-native";
 import Slider from "@react-native-community/slider";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { KeyboardAvoidingView } from "react-native-keyboard-controller";
 import { RouteProp, useRoute, useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Icon } from "@/components/Icon";
 import * as Haptics from "expo-haptics";
 import * as ImagePicker from "expo-image-picker";
@@ -27,6 +29,9 @@ import { Swipeable } from "react-native-gesture-handler";
 import { ChatAttachmentModal } from "@/components/ChatAttachmentModal";
 import LocationPickerModal from "@/components/LocationPickerModal";
 import { PhotoPickerModal } from "@/components/PhotoPickerModal";
+import ReportUserModal from "@/components/ReportUserModal";
+import LiveLocationShareModal from "@/components/LiveLocationShareModal";
+import MeetupCheckInModal from "@/components/MeetupCheckInModal";
 import { ActivityLocation } from "@/types";
 
 import { ChatBackground } from "@/components/ChatBackground";
@@ -35,7 +40,8 @@ import { useTheme } from "@/hooks/useTheme";
 import { useData } from "@/context/DataContext";
 import { useAuth } from "@/context/AuthContext";
 import { useAlert } from "@/context/AlertContext";
-import { Message } from "@/types";
+import { useLocationShare } from "@/context/LocationShareContext";
+import { Meetup, MeetupCheckIn, Message, ReportReason } from "@/types";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 import { uploadPhoto, uploadFile, uploadAudio } from "@/lib/upload";
@@ -45,7 +51,9 @@ import AudioModule from "expo-audio/build/AudioModule";
 import type { AudioPlayer, AudioRecorder } from "expo-audio";
 
 type ChatRouteProp = RouteProp<RootStackParamList, "Chat">;
+type ChatNavigationProp = NativeStackNavigationProp<RootStackParamList, "Chat">;
 
+const TYPING_THROTTLE_MS = 3000;
 const QUICK_REACTIONS = ["\u{1F44D}", "\u2764\uFE0F", "\u{1F602}", "\u{1F62E}", "\u{1F622}", "\u{1F44F}"];
  const WAVE_BARS = [2, 4, 6, 4, 7, 5, 3, 6];
 
@@ -120,19 +128,36 @@ const EXTRA_REACTIONS = [
   "\u2705", "\u274C", "\u2B50", "\u26A1", "\u{1F4CC}", "\u{1F690}",
 ];
 
+function formatLastSeen(dateString: string) {
+  const diffMins = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (diffMins < 1) return "Last seen just now";
+  if (diffMins < 60) return `Last seen ${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `Last seen ${diffHours}h ago`;
+  return `Last seen ${new Date(dateString).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+}
+
 export default function ChatScreen() {
   const insets = useSafeAreaInsets();
-  const navigation = useNavigation();
+  const navigation = useNavigation<ChatNavigationProp>();
   const CUSTOM_HEADER_HEIGHT = 56;
   const headerHeight = (Platform.OS === "web" ? 67 : insets.top) + CUSTOM_HEADER_HEIGHT;
   const { theme } = useTheme();
   const route = useRoute<ChatRouteProp>();
-  const { matchId, matchPhoto } = route.params as { matchId: string; matchName: string; matchPhoto?: string };
-  const { messages, sendMessage, editMessage, deleteMessage, toggleMessageReaction, matches } = useData();
+  const { matchId, matchPhoto, focusMessageId } = route.params as { matchId: string; matchName: string; matchPhoto?: string; focusMessageId?: string };
+  const { messages, sendMessage, editMessage, deleteMessage, toggleMessageReaction, matches, presence, typingByMatch, setTyping, markMatchAsRead, loadOlderMessages, blockedUsers, blockUser, unblockUser, reportUser, getMeetupWithMatch, planMeetup, startMeetupCheckIn, confirmMeetupSafe } = useData();
   const { user } = useAuth();
   const { showAlert } = useAlert();
+  const { outgoingShares, incomingShares, startShare, stopShare } = useLocationShare();
   const [inputText, setInputText] = useState("");
   const [showProfileModal, setShowProfileModal] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
+  const [showShareLocationModal, setShowShareLocationModal] = useState(false);
+  const [showMeetupModal, setShowMeetupModal] = useState(false);
+  const [meetup, setMeetup] = useState<Meetup | null>(null);
+  const [meetupCheckIn, setMeetupCheckIn] = useState<MeetupCheckIn | null>(null);
+  const [isMeetupBusy, setIsMeetupBusy] = useState(false);
+  const [reportMessageIds, setReportMessageIds] = useState<string[]>([]);
   const [isSending, setIsSending] = useState(false);
   const [uploadLabel, setUploadLabel] = useState<string | null>(null);
   const flatListRef = useRef<FlatList>(null);
@@ -154,14 +179,97 @@ export default function ChatScreen() {
   const audioSoundRef = useRef<AudioPlayer | null>(null);
   const audioProgressIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const [audioProgress, setAudioProgress] = useState({ id: null as string | null, position: 0, duration: 0, isPlaying: false });
-  const chatMessages = messages[matchId] || [];
+  const lastTypingSentRef = useRef(0);
+  const setTypingRef = useRef(setTyping);
+  setTypingRef.current = setTyping;
+  const markMatchAsReadRef = useRef(markMatchAsRead);
+  markMatchAsReadRef.current = markMatchAsRead;
+  const getMeetupWithMatchRef = useRef(getMeetupWithMatch);
+  getMeetupWithMatchRef.current = getMeetupWithMatch;
+  const loadOlderMessagesRef = useRef(loadOlderMessages);
+  loadOlderMessagesRef.current = loadOlderMessages;
+  const [hasOlderMessages, setHasOlderMessages] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const focusHandledRef = useRef(false);
+  const chatMessages = useMemo(() => messages[matchId] || [], [messages, matchId]);
   const match = matches.find((m) => m.id === matchId);
+  const matchPresence = presence[matchId];
+  const isMatchTyping = !!typingByMatch[matchId];
+  const outgoingShare = outgoingShares.find((s) => s.matchId === matchId);
+  const incomingShare = incomingShares.find((s) => s.matchId === matchId);
+
+  const stopTyping = useCallback(() => {
+    if (lastTypingSentRef.current === 0) return;
+    lastTypingSentRef.current = 0;
+    setTypingRef.current(matchId, false);
+  }, [matchId]);
+
+  const handleInputChange = useCallback((text: string) => {
+    setInputText(text);
+    if (!text.trim()) {
+      stopTyping();
+      return;
+    }
+    const now = Date.now();
+    if (now - lastTypingSentRef.current >= TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now;
+      setTypingRef.current(matchId, true);
+    }
+  }, [matchId, stopTyping]);
+
+  useEffect(() => stopTyping, [stopTyping]);
+
+  // The list is inverted, so reaching its end means the user scrolled up to the oldest loaded message
+  const handleLoadOlder = useCallback(async () => {
+    if (!hasOlderMessages || isLoadingOlder) return;
+    setIsLoadingOlder(true);
+    try {
+      setHasOlderMessages(await loadOlderMessagesRef.current(matchId));
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [hasOlderMessages, isLoadingOlder, matchId]);
+
+  // Search hits can be older than the loaded history, so keep paging back until the message shows up
+  useEffect(() => {
+    if (!focusMessageId || focusHandledRef.current || isLoadingOlder) return;
+    const position = chatMessages.findIndex((m) => m.id === focusMessageId);
+    if (position === -1) {
+      if (hasOlderMessages) {
+        handleLoadOlder();
+      } else {
+        focusHandledRef.current = true;
+      }
+      return;
+    }
+    focusHandledRef.current = true;
+    setHighlightedMessageId(focusMessageId);
+    requestAnimationFrame(() => {
+      flatListRef.current?.scrollToIndex({ index: chatMessages.length - 1 - position, animated: true, viewPosition: 0.5 });
+    });
+  }, [focusMessageId, chatMessages, hasOlderMessages, isLoadingOlder, handleLoadOlder]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // Messages arriving while the conversation is open are read straight away
+  const unreadCount = match?.unreadCount || 0;
+  useEffect(() => {
+    if (unreadCount > 0) {
+      markMatchAsReadRef.current(matchId);
+    }
+  }, [matchId, unreadCount]);
 
   const handleSend = useCallback(async () => {
     if (!inputText.trim() || isSending) return;
 
     const text = inputText.trim();
     setInputText("");
+    stopTyping();
     setIsSending(true);
 
     try {
@@ -182,7 +290,7 @@ export default function ChatScreen() {
       setIsSending(false);
       setUploadLabel(null);
     }
-  }, [inputText, matchId, sendMessage, isSending, replyTo, user?.id, match?.matchedUser.name]);
+  }, [inputText, matchId, sendMessage, isSending, replyTo, user?.id, match?.matchedUser.name, stopTyping]);
 
   const handleLongPress = useCallback((message: Message) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -758,6 +866,7 @@ export default function ChatScreen() {
                   isOwnMessage
                     ? [styles.ownBubble, { backgroundColor: AppColors.primary }]
                     : [styles.otherBubble, { backgroundColor: theme.cardBackground }],
+                  item.id === highlightedMessageId && styles.highlightedBubble,
                 ]}
               >
                 {item.replyTo ? (
@@ -799,7 +908,7 @@ export default function ChatScreen() {
         </Animated.View>
       );
     },
-    [user?.id, theme, chatMessages, handleLongPress, renderMessageContent, handleReaction, replyTo, playingAudioId]
+    [user?.id, theme, chatMessages, handleLongPress, renderMessageContent, handleReaction, replyTo, playingAudioId, highlightedMessageId]
   );
 
   const EmptyChat = () => (
@@ -826,6 +935,167 @@ export default function ChatScreen() {
 
   const matchedUser = match?.matchedUser;
   const avatarUri = matchPhoto || matchedUser?.photos?.[0] || null;
+  const isPartnerBlocked = !!matchedUser && blockedUsers.some((b) => b.userId === matchedUser.id);
+  const partnerId = matchedUser?.id;
+  const hasOpenCheckIn = meetupCheckIn?.status === "active" || meetupCheckIn?.status === "escalated";
+
+  // An open check-in stays reachable from this chat until "I'm safe" is tapped, even after the app restarts
+  useEffect(() => {
+    if (!partnerId) return;
+    let cancelled = false;
+    getMeetupWithMatchRef.current(partnerId)
+      .then((result) => {
+        if (cancelled) return;
+        setMeetup(result.meetup);
+        setMeetupCheckIn(result.checkIn);
+      })
+      .catch((error) => console.error("Load meetup error:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [partnerId]);
+
+  const handleToggleBlock = () => {
+    if (!matchedUser) return;
+    if (isPartnerBlocked) {
+      unblockUser(matchedUser.id).catch((error) => {
+        console.error("Unblock error:", error);
+        showAlert({ type: "error", title: "Unblock Failed", message: "Please try again." });
+      });
+      return;
+    }
+    showAlert({
+      type: "confirm",
+      title: `Block ${matchedUser.name.split(" ")[0]}?`,
+      message: "They won't be able to message you or find you on Discover or the radar.",
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Block",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await blockUser(matchedUser.id);
+              setShowProfileModal(false);
+            } catch (error) {
+              console.error("Block error:", error);
+              showAlert({ type: "error", title: "Block Failed", message: "Please try again." });
+            }
+          },
+        },
+      ],
+    });
+  };
+
+  const openReport = (messageIds: string[] = []) => {
+    setReportMessageIds(messageIds);
+    setShowMessageMenu(false);
+    setShowProfileModal(false);
+    setShowReportModal(true);
+  };
+
+  const openShareLocation = () => {
+    setShowProfileModal(false);
+    setShowShareLocationModal(true);
+  };
+
+  const openMeetupCheckIn = () => {
+    setShowProfileModal(false);
+    setShowMeetupModal(true);
+  };
+
+  const handlePlanMeetup = async () => {
+    if (!partnerId) return;
+    setIsMeetupBusy(true);
+    try {
+      const result = await planMeetup(partnerId);
+      setMeetup(result.meetup);
+      setMeetupCheckIn(result.checkIn);
+    } catch (error) {
+      console.error("Plan meetup error:", error);
+      showAlert({ type: "error", title: "Planning Failed", message: error instanceof Error ? error.message : "Please try again." });
+    } finally {
+      setIsMeetupBusy(false);
+    }
+  };
+
+  const handleStartCheckIn = async (durationMinutes: number) => {
+    if (!meetup) return;
+    setIsMeetupBusy(true);
+    try {
+      // A last known location goes into the alert if the check-in is missed; it's optional
+      let location: { latitude: number; longitude: number } | undefined;
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status === "granted") {
+          const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+          location = { latitude: position.coords.latitude, longitude: position.coords.longitude };
+        }
+      } catch (locationError) {
+        console.error("Check-in location error:", locationError);
+      }
+      const { checkIn, warning } = await startMeetupCheckIn(meetup.id, durationMinutes, location);
+      setMeetupCheckIn(checkIn);
+      setShowMeetupModal(false);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (warning) showAlert({ type: "warning", title: "Check-In Started", message: warning });
+    } catch (error) {
+      console.error("Start meetup check-in error:", error);
+      showAlert({ type: "error", title: "Check-In Failed", message: error instanceof Error ? error.message : "Please try again." });
+    } finally {
+      setIsMeetupBusy(false);
+    }
+  };
+
+  const handleConfirmSafe = async () => {
+    if (!meetup) return;
+    setIsMeetupBusy(true);
+    try {
+      setMeetupCheckIn(await confirmMeetupSafe(meetup.id));
+      setShowMeetupModal(false);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showAlert({ type: "success", title: "Glad You're Safe", message: "Your check-in is closed." });
+    } catch (error) {
+      console.error("Confirm safe error:", error);
+      showAlert({ type: "error", title: "Check-In Failed", message: error instanceof Error ? error.message : "Please try again." });
+    } finally {
+      setIsMeetupBusy(false);
+    }
+  };
+
+  const handleStartShare = async (durationMinutes: number) => {
+    try {
+      await startShare({ matchId, durationMinutes });
+    } catch (error) {
+      console.error("Start location share error:", error);
+      showAlert({
+        type: "error",
+        title: "Sharing Failed",
+        message: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  const handleSubmitReport = async (report: { reason: ReportReason; details?: string; alsoBlock: boolean }) => {
+    if (!matchedUser) return;
+    try {
+      await reportUser({
+        reportedUserId: matchedUser.id,
+        reason: report.reason,
+        details: report.details,
+        messageIds: reportMessageIds,
+      });
+      if (report.alsoBlock && !isPartnerBlocked) {
+        await blockUser(matchedUser.id);
+      }
+      showAlert({ type: "success", title: "Report Sent", message: "Thanks for helping keep the community safe." });
+    } catch (error) {
+      console.error("Report error:", error);
+      showAlert({ type: "error", title: "Report Failed", message: "Please try again." });
+    } finally {
+      setReportMessageIds([]);
+    }
+  };
 
   return (
     <KeyboardAvoidingView
@@ -847,6 +1117,15 @@ export default function ChatScreen() {
           chatMessages.length === 0 && styles.emptyListContent,
         ]}
         ListEmptyComponent={EmptyChat}
+        ListFooterComponent={isLoadingOlder ? <ActivityIndicator style={styles.loadingOlder} color={AppColors.primary} /> : null}
+        onEndReached={chatMessages.length > 0 ? handleLoadOlder : undefined}
+        onEndReachedThreshold={0.2}
+        onScrollToIndexFailed={(info) => {
+          flatListRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+          setTimeout(() => {
+            flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+          }, 100);
+        }}
         showsVerticalScrollIndicator={false}
       />
 
@@ -871,7 +1150,19 @@ export default function ChatScreen() {
             <ThemedText style={styles.chatHeaderName} numberOfLines={1}>
               {matchedUser?.name || route.params.matchName}
             </ThemedText>
-            {matchedUser?.location ? (
+            {isMatchTyping ? (
+              <ThemedText style={[styles.chatHeaderLocation, styles.chatHeaderPresence]} numberOfLines={1}>
+                typing...
+              </ThemedText>
+            ) : matchPresence?.isOnline ? (
+              <ThemedText style={[styles.chatHeaderLocation, styles.chatHeaderPresence]} numberOfLines={1}>
+                Online
+              </ThemedText>
+            ) : matchPresence?.lastSeenAt ? (
+              <ThemedText style={styles.chatHeaderLocation} numberOfLines={1}>
+                {formatLastSeen(matchPresence.lastSeenAt)}
+              </ThemedText>
+            ) : matchedUser?.location ? (
               <ThemedText style={styles.chatHeaderLocation} numberOfLines={1}>
                 {matchedUser.location}
               </ThemedText>
@@ -880,100 +1171,155 @@ export default function ChatScreen() {
         </Pressable>
       </View>
 
-      <View
-        style={[
-          styles.inputContainer,
-          {
-            backgroundColor: "transparent",
-            paddingBottom: insets.bottom > 0 ? insets.bottom : Spacing.lg,
-            borderTopColor: theme.border,
-          },
-        ]}
-      >
-        {uploadLabel ? (
-          <View style={styles.uploadPill}>
-            <ThemedText style={styles.uploadText}>{uploadLabel}</ThemedText>
-          </View>
-        ) : null}
-        {isRecording ? (
-          <View style={styles.recordingPill}>
-            <View style={styles.recordingDot} />
-            <ThemedText style={styles.recordingText}>Recording...</ThemedText>
-          </View>
-        ) : null}
-        {replyTo ? (
-          <View style={styles.replyBar}>
-            <View style={styles.replyBarLeft} />
-            <View style={styles.replyBarContent}>
-              <ThemedText style={styles.replyBarTitle}>Replying to</ThemedText>
-              <ThemedText style={styles.replyBarText} numberOfLines={1}>
-                {(replyTo.senderId === user?.id ? "You" : (match?.matchedUser.name || "User")) + ': ' + replyTo.content}
-              </ThemedText>
-            </View>
-            <Pressable onPress={() => setReplyTo(null)}>
-              <Icon name="x" size={16} color={theme.textSecondary} />
+      {incomingShare || outgoingShare ? (
+        <View style={[styles.liveShareBanner, { backgroundColor: theme.cardBackground, borderTopColor: theme.border }]}>
+          <Icon name="navigation" size={16} color={AppColors.primary} />
+          <ThemedText style={[styles.blockedBannerText, { color: theme.text }]} numberOfLines={1}>
+            {incomingShare
+              ? `${matchedUser?.name?.split(" ")[0] || "Your match"} is sharing their live location`
+              : "You are sharing your live location"}
+          </ThemedText>
+          {incomingShare ? (
+            <Pressable
+              onPress={() => navigation.navigate("LiveLocation", { shareId: incomingShare.id })}
+              hitSlop={8}
+              testID="button-view-live-location"
+            >
+              <ThemedText style={[styles.blockedBannerAction, { color: AppColors.primary }]}>View</ThemedText>
             </Pressable>
-          </View>
-        ) : null}
+          ) : null}
+          {outgoingShare ? (
+            <Pressable onPress={() => stopShare(outgoingShare.id)} hitSlop={8} testID="button-stop-live-location">
+              <ThemedText style={[styles.blockedBannerAction, { color: theme.danger }]}>Stop</ThemedText>
+            </Pressable>
+          ) : null}
+        </View>
+      ) : null}
+
+      {hasOpenCheckIn && meetupCheckIn ? (
+        <View style={[styles.liveShareBanner, { backgroundColor: theme.cardBackground, borderTopColor: theme.border }]}>
+          <Icon name="shield" size={16} color={meetupCheckIn.status === "escalated" ? theme.danger : AppColors.primary} />
+          <ThemedText style={[styles.blockedBannerText, { color: theme.text }]} numberOfLines={1}>
+            {meetupCheckIn.status === "escalated"
+              ? "Missed check-in: your emergency contact was alerted"
+              : `Safety check-in until ${new Date(meetupCheckIn.expectedEndAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`}
+          </ThemedText>
+          <Pressable onPress={handleConfirmSafe} disabled={isMeetupBusy} hitSlop={8} testID="button-meetup-safe">
+            <ThemedText style={[styles.blockedBannerAction, { color: AppColors.primary }]}>I&apos;m safe</ThemedText>
+          </Pressable>
+        </View>
+      ) : null}
+
+      {isPartnerBlocked ? (
         <View
           style={[
-            styles.inputWrapper,
-            { backgroundColor: theme.inputBackground, borderWidth: 1, borderColor: theme.inputBorder },
+            styles.blockedBanner,
+            { paddingBottom: insets.bottom > 0 ? insets.bottom : Spacing.lg, borderTopColor: theme.border },
           ]}
         >
-          <Pressable
-            onPress={() => setShowAttachmentModal(true)}
+          <ThemedText style={[styles.blockedBannerText, { color: theme.textSecondary }]}>
+            You blocked {matchedUser?.name?.split(" ")[0] || "this user"}. You won&apos;t receive their messages.
+          </ThemedText>
+          <Pressable onPress={handleToggleBlock} hitSlop={8}>
+            <ThemedText style={[styles.blockedBannerAction, { color: AppColors.primary }]}>Unblock</ThemedText>
+          </Pressable>
+        </View>
+      ) : (
+        <View
+          style={[
+            styles.inputContainer,
+            {
+              backgroundColor: "transparent",
+              paddingBottom: insets.bottom > 0 ? insets.bottom : Spacing.lg,
+              borderTopColor: theme.border,
+            },
+          ]}
+        >
+          {uploadLabel ? (
+            <View style={styles.uploadPill}>
+              <ThemedText style={styles.uploadText}>{uploadLabel}</ThemedText>
+            </View>
+          ) : null}
+          {isRecording ? (
+            <View style={styles.recordingPill}>
+              <View style={styles.recordingDot} />
+              <ThemedText style={styles.recordingText}>Recording...</ThemedText>
+            </View>
+          ) : null}
+          {replyTo ? (
+            <View style={styles.replyBar}>
+              <View style={styles.replyBarLeft} />
+              <View style={styles.replyBarContent}>
+                <ThemedText style={styles.replyBarTitle}>Replying to</ThemedText>
+                <ThemedText style={styles.replyBarText} numberOfLines={1}>
+                  {(replyTo.senderId === user?.id ? "You" : (match?.matchedUser.name || "User")) + ': ' + replyTo.content}
+                </ThemedText>
+              </View>
+              <Pressable onPress={() => setReplyTo(null)}>
+                <Icon name="x" size={16} color={theme.textSecondary} />
+              </Pressable>
+            </View>
+          ) : null}
+          <View
             style={[
-              styles.attachButton,
-              { backgroundColor: theme.backgroundSecondary },
+              styles.inputWrapper,
+              { backgroundColor: theme.inputBackground, borderWidth: 1, borderColor: theme.inputBorder },
             ]}
-            testID="button-attach"
           >
-            <Icon name="plus" size={20} color={AppColors.primary} />
-          </Pressable>
-          <TextInput
-            style={[styles.input, { color: theme.text }]}
-            placeholder="Type a message..."
-            placeholderTextColor={theme.textSecondary}
-            value={inputText}
-            onChangeText={setInputText}
-            multiline
-            maxLength={500}
-            testID="input-message"
-          />
-          {inputText.trim() ? (
             <Pressable
-              onPress={handleSend}
-              disabled={!inputText.trim() || isSending}
+              onPress={() => setShowAttachmentModal(true)}
               style={[
-                styles.sendButton,
-                {
-                  backgroundColor: inputText.trim()
-                    ? AppColors.primary
-                    : theme.backgroundSecondary,
-                },
+                styles.attachButton,
+                { backgroundColor: theme.backgroundSecondary },
               ]}
-              testID="button-send"
+              testID="button-attach"
             >
-              <Icon
-                name="send"
-                size={18}
-                color={inputText.trim() ? "#FFFFFF" : theme.textSecondary}
-              />
+              <Icon name="plus" size={20} color={AppColors.primary} />
             </Pressable>
-          ) : null}
-          <Pressable
-            onPressIn={startRecording}
-            onPressOut={stopRecording}
-            style={[
-              styles.micButton,
-              { backgroundColor: isRecording ? AppColors.primary : theme.backgroundSecondary },
-            ]}
-          >
-            <Icon name="mic" size={18} color={isRecording ? "#FFFFFF" : theme.textSecondary} />
-          </Pressable>
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              placeholder="Type a message..."
+              placeholderTextColor={theme.textSecondary}
+              value={inputText}
+              onChangeText={handleInputChange}
+              multiline
+              maxLength={500}
+              testID="input-message"
+            />
+            {inputText.trim() ? (
+              <Pressable
+                onPress={handleSend}
+                disabled={!inputText.trim() || isSending}
+                style={[
+                  styles.sendButton,
+                  {
+                    backgroundColor: inputText.trim()
+                      ? AppColors.primary
+                      : theme.backgroundSecondary,
+                  },
+                ]}
+                testID="button-send"
+              >
+                <Icon
+                  name="send"
+                  size={18}
+                  color={inputText.trim() ? "#FFFFFF" : theme.textSecondary}
+                />
+              </Pressable>
+            ) : null}
+            <Pressable
+              onPressIn={startRecording}
+              onPressOut={stopRecording}
+              style={[
+                styles.micButton,
+                { backgroundColor: isRecording ? AppColors.primary : theme.backgroundSecondary },
+              ]}
+            >
+              <Icon name="mic" size={18} color={isRecording ? "#FFFFFF" : theme.textSecondary} />
+            </Pressable>
+          </View>
         </View>
-      </View>
+      )}
 
       <Modal
         visible={showMessageMenu}
@@ -1016,6 +1362,14 @@ export default function ChatScreen() {
                   <ThemedText style={[styles.menuItemText, { color: theme.danger }]}>Delete Message</ThemedText>
                 </Pressable>
               </>
+            ) : selectedMessage ? (
+              <>
+                <View style={[styles.menuDivider, { backgroundColor: theme.border }]} />
+                <Pressable style={styles.menuItem} onPress={() => openReport([selectedMessage.id])}>
+                  <Icon name="flag" size={20} color={theme.danger} />
+                  <ThemedText style={[styles.menuItemText, { color: theme.danger }]}>Report Message</ThemedText>
+                </Pressable>
+              </>
             ) : null}
           </View>
         </Pressable>
@@ -1255,9 +1609,80 @@ export default function ChatScreen() {
                 </View>
               </View>
             ) : null}
+            {matchedUser && !isPartnerBlocked ? (
+              <View style={styles.profileModalActions}>
+                <Pressable
+                  style={[styles.profileModalActionButton, { backgroundColor: theme.cardBackground }]}
+                  onPress={outgoingShare ? () => stopShare(outgoingShare.id) : openShareLocation}
+                  testID="button-share-live-location"
+                >
+                  <Icon name="navigation" size={18} color={AppColors.primary} />
+                  <ThemedText style={[styles.profileModalActionText, { color: AppColors.primary }]}>
+                    {outgoingShare ? "Stop Sharing Location" : "Share Live Location"}
+                  </ThemedText>
+                </Pressable>
+                <Pressable
+                  style={[styles.profileModalActionButton, { backgroundColor: theme.cardBackground }]}
+                  onPress={openMeetupCheckIn}
+                  testID="button-meetup-check-in"
+                >
+                  <Icon name="shield" size={18} color={AppColors.primary} />
+                  <ThemedText style={[styles.profileModalActionText, { color: AppColors.primary }]}>
+                    {hasOpenCheckIn ? "Meetup Check-In" : "Plan a Safe Meetup"}
+                  </ThemedText>
+                </Pressable>
+              </View>
+            ) : null}
+            {matchedUser ? (
+              <View style={styles.profileModalActions}>
+                <Pressable
+                  style={[styles.profileModalActionButton, { backgroundColor: theme.cardBackground }]}
+                  onPress={() => openReport()}
+                >
+                  <Icon name="flag" size={18} color={theme.danger} />
+                  <ThemedText style={[styles.profileModalActionText, { color: theme.danger }]}>Report</ThemedText>
+                </Pressable>
+                <Pressable
+                  style={[styles.profileModalActionButton, { backgroundColor: theme.cardBackground }]}
+                  onPress={handleToggleBlock}
+                >
+                  <Icon name="x-circle" size={18} color={isPartnerBlocked ? theme.text : theme.danger} />
+                  <ThemedText style={[styles.profileModalActionText, { color: isPartnerBlocked ? theme.text : theme.danger }]}>
+                    {isPartnerBlocked ? "Unblock" : "Block"}
+                  </ThemedText>
+                </Pressable>
+              </View>
+            ) : null}
           </ScrollView>
         </View>
       </Modal>
+
+      <ReportUserModal
+        visible={showReportModal}
+        onClose={() => setShowReportModal(false)}
+        onSubmit={handleSubmitReport}
+        userName={matchedUser?.name.split(" ")[0]}
+      />
+
+      <LiveLocationShareModal
+        visible={showShareLocationModal}
+        onClose={() => setShowShareLocationModal(false)}
+        onSubmit={handleStartShare}
+        recipientName={matchedUser?.name.split(" ")[0]}
+      />
+
+      <MeetupCheckInModal
+        visible={showMeetupModal}
+        onClose={() => setShowMeetupModal(false)}
+        meetup={meetup}
+        checkIn={meetupCheckIn}
+        isBusy={isMeetupBusy}
+        onPlan={handlePlanMeetup}
+        onStart={handleStartCheckIn}
+        onConfirmSafe={handleConfirmSafe}
+        partnerName={matchedUser?.name.split(" ")[0]}
+        hasEmergencyEmail={!!user?.emergencyContact?.email}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -1273,6 +1698,9 @@ const styles = StyleSheet.create({
   emptyListContent: {
     flex: 1,
   },
+  loadingOlder: {
+    paddingVertical: Spacing.md,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: "center",
@@ -1308,6 +1736,10 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.md,
     borderRadius: BorderRadius.lg,
   },
+  highlightedBubble: {
+    borderWidth: 2,
+    borderColor: AppColors.sunsetGold,
+  },
   ownBubble: {
     borderBottomLeftRadius: Spacing.xs,
   },
@@ -1806,6 +2238,9 @@ const styles = StyleSheet.create({
     fontSize: 11,
     marginTop: 1,
   },
+  chatHeaderPresence: {
+    color: AppColors.success,
+  },
   profileModalContainer: {
     flex: 1,
   },
@@ -1857,6 +2292,49 @@ const styles = StyleSheet.create({
   profileModalInfoText: {
     fontSize: 14,
   },
+  profileModalActions: {
+    flexDirection: "row",
+    width: "100%",
+    gap: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+  profileModalActionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+    borderRadius: 14,
+  },
+  profileModalActionText: {
+    fontSize: 15,
+    fontWeight: "600" as const,
+  },
+  liveShareBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  blockedBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  blockedBannerText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  blockedBannerAction: {
+    fontSize: 14,
+    fontWeight: "600" as const,
+  },
   profileModalSection: {
     width: "100%",
     padding: 16,
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useRef } from "react";
 import { StyleSheet, View, Dimensions, Pressable, ScrollView, Modal, FlatList, Platform } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
@@ -28,18 +28,25 @@ import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
 import { SwipeCard } from "@/components/SwipeCard";
 import { CompatibilityCard } from "@/components/CompatibilityCard";
+import DiscoverFiltersModal, {
+  DEFAULT_DISCOVER_PREFERENCES,
+  countActiveDiscoverFilters,
+} from "@/components/DiscoverFiltersModal";
 import { getApiUrl } from "@/lib/query-client";
+import { subscribeRealtime } from "@/lib/realtime";
 import { useTheme } from "@/hooks/useTheme";
 import { useData } from "@/context/DataContext";
 import { useAuth } from "@/context/AuthContext";
 import { useSubscription } from "@/context/SubscriptionContext";
 import { useAlert } from "@/context/AlertContext";
 import { AppColors, Spacing, BorderRadius, Shadows, GradientPresets } from "@/constants/theme";
+import { DiscoverPreferences, SwipeCard as SwipeCardData } from "@/types";
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get("window");
 
 const HEADER_HEIGHT = 50;
 const ACTION_ROW_HEIGHT = 80;
+const PREFETCH_REMAINING_CARDS = 3;
 
 function MatchTitle() {
   const glowScale = useSharedValue(1);
@@ -85,7 +92,20 @@ export default function DiscoverScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const navigation = useNavigation<any>();
   const { theme, isDark } = useTheme();
-  const { profiles, swipeRight, swipeLeft, matches, likedProfiles, refreshData } = useData();
+  const {
+    profiles,
+    swipeRight,
+    swipeLeft,
+    superLike,
+    undoLastSwipe,
+    swipeQuota,
+    loadMoreProfiles,
+    matches,
+    likedProfiles,
+    refreshData,
+    getDiscoverPreferences,
+    saveDiscoverPreferences,
+  } = useData();
   const { user, session } = useAuth();
   const { tier } = useSubscription();
   const { showAlert } = useAlert();
@@ -97,6 +117,47 @@ export default function DiscoverScreen() {
   const [matchedUserData, setMatchedUserData] = useState<any>(null);
   const [showCompatibility, setShowCompatibility] = useState(false);
   const [isRefreshingProfiles, setIsRefreshingProfiles] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [discoverPreferences, setDiscoverPreferences] = useState<DiscoverPreferences>(DEFAULT_DISCOVER_PREFERENCES);
+  const [isSavingFilters, setIsSavingFilters] = useState(false);
+  const activeFilterCount = countActiveDiscoverFilters(discoverPreferences);
+
+  const loadMoreProfilesRef = useRef(loadMoreProfiles);
+  loadMoreProfilesRef.current = loadMoreProfiles;
+  const getDiscoverPreferencesRef = useRef(getDiscoverPreferences);
+  getDiscoverPreferencesRef.current = getDiscoverPreferences;
+
+  useEffect(() => {
+    if (!user?.id) return;
+    getDiscoverPreferencesRef.current()
+      .then(setDiscoverPreferences)
+      .catch((error) => console.log("Load discover preferences error:", error));
+  }, [user?.id]);
+
+  const handleSaveFilters = async (preferences: DiscoverPreferences) => {
+    setIsSavingFilters(true);
+    try {
+      const saved = await saveDiscoverPreferences(preferences);
+      setDiscoverPreferences(saved);
+      setShowFilters(false);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      showAlert({
+        type: "error",
+        title: "Filters not saved",
+        message: error instanceof Error ? error.message : "Could not save your filters. Try again.",
+      });
+    } finally {
+      setIsSavingFilters(false);
+    }
+  };
+
+  // Fetch the next ranked page before the deck runs out
+  useEffect(() => {
+    if (profiles.length <= PREFETCH_REMAINING_CARDS) {
+      loadMoreProfilesRef.current();
+    }
+  }, [profiles.length]);
 
   const handleSendMessage = useCallback(() => {
     setShowMatch(false);
@@ -120,6 +181,83 @@ export default function DiscoverScreen() {
     [swipeRight]
   );
 
+  const showUpgradeAlert = useCallback((title: string, message: string) => {
+    showAlert({
+      type: "warning",
+      title,
+      message,
+      buttons: [
+        { text: "Not now", style: "cancel" },
+        { text: "Upgrade", onPress: () => navigation.navigate("Subscription") },
+      ],
+    });
+  }, [showAlert, navigation]);
+
+  const handleSuperLike = useCallback(
+    async (userId: string) => {
+      const quota = swipeQuota?.superLikes;
+      if (quota && quota.limit !== -1 && quota.used >= quota.limit) {
+        showUpgradeAlert("Out of Super Likes", `You've used all ${quota.limit} of today's Super Likes. Upgrade to send more.`);
+        return;
+      }
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+      try {
+        const match = await superLike(userId);
+        if (match) {
+          setMatchedName(match.matchedUser.name);
+          setMatchedPhoto(match.matchedUser?.photos?.[0] || "");
+          setMatchedId(match.id);
+          setMatchedUserData(match.matchedUser);
+          setShowMatch(true);
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not send your Super Like.";
+        if (message.includes("limit")) {
+          showUpgradeAlert("Out of Super Likes", "You've used today's Super Likes. Upgrade to send more.");
+        } else {
+          showAlert({ type: "error", title: "Super Like failed", message });
+        }
+      }
+    },
+    [superLike, swipeQuota, showAlert, showUpgradeAlert]
+  );
+
+  const handleUndo = useCallback(async () => {
+    const quota = swipeQuota?.rewinds;
+    if (quota && quota.limit !== -1 && quota.used >= quota.limit) {
+      showUpgradeAlert("Out of Rewinds", `You've used all ${quota.limit} of today's Rewinds. Upgrade to undo more swipes.`);
+      return;
+    }
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      await undoLastSwipe();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Could not undo your last swipe.";
+      if (message.includes("limit")) {
+        showUpgradeAlert("Out of Rewinds", "You've used today's Rewinds. Upgrade to undo more swipes.");
+      } else {
+        showAlert({ type: "info", title: "Can't undo", message });
+      }
+    }
+  }, [undoLastSwipe, swipeQuota, showAlert, showUpgradeAlert]);
+
+  const showAlertRef = useRef(showAlert);
+  showAlertRef.current = showAlert;
+
+  useEffect(() => {
+    if (!user?.id) return;
+    return subscribeRealtime(`user:${user.id}`, (event) => {
+      if (event.type !== "swipe.super" || !event.card) return;
+      const card = event.card as SwipeCardData;
+      showAlertRef.current({
+        type: "info",
+        title: "You got a Super Like!",
+        message: `${card.user.name} super liked you. They're at the top of your Discover deck.`,
+      });
+    });
+  }, [user?.id]);
+
   const handleSwipeLeft = useCallback(
     (userId: string) => {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -153,8 +291,22 @@ export default function DiscoverScreen() {
             All Caught Up!
           </ThemedText>
           <ThemedText type="body" style={[styles.emptySubtitle, { color: theme.textSecondary }]}>
-            You've seen everyone nearby. New nomads are joining every day!
+            {activeFilterCount > 0
+              ? "No one else matches your filters right now. Try widening them."
+              : "You've seen everyone nearby. New nomads are joining every day!"}
           </ThemedText>
+          {activeFilterCount > 0 ? (
+            <Pressable
+              onPress={() => setShowFilters(true)}
+              style={[styles.refreshButton, { backgroundColor: theme.cardBackground, marginBottom: Spacing.md }]}
+              testID="button-adjust-filters"
+            >
+              <Icon name="filter" size={18} color={AppColors.primary} />
+              <ThemedText type="body" style={{ color: AppColors.primary, marginLeft: 8, fontWeight: "600" as const }}>
+                Adjust Filters
+              </ThemedText>
+            </Pressable>
+          ) : null}
           <Pressable
             onPress={async () => {
               if (isRefreshingProfiles) return;
@@ -193,6 +345,12 @@ export default function DiscoverScreen() {
               {isRefreshingProfiles ? "Refreshing..." : "Refresh Profiles"}
             </ThemedText>
           </Pressable>
+          <Pressable onPress={handleUndo} style={styles.undoLink} testID="button-undo-empty">
+            <Icon name="rotate-ccw" size={16} color={AppColors.primary} />
+            <ThemedText type="small" style={{ color: AppColors.primary, marginLeft: 6, fontWeight: "600" as const }}>
+              Undo Last Swipe
+            </ThemedText>
+          </Pressable>
         </View>
       </Animated.View>
 
@@ -398,6 +556,8 @@ export default function DiscoverScreen() {
               key={profile.user.id}
               user={profile.user}
               distance={profile.distance}
+              superLikedYou={profile.superLikedYou}
+              tripOverlaps={profile.tripOverlaps}
               isFirst={index === profiles.slice(0, 3).length - 1}
               onSwipeLeft={() => handleSwipeLeft(profile.user.id)}
               onSwipeRight={() => handleSwipeRight(profile.user.id)}
@@ -408,6 +568,14 @@ export default function DiscoverScreen() {
       </View>
 
       <View style={[styles.actions, { bottom: tabBarHeight + 10 }]}>
+        <TinderButton
+          icon="rotate-ccw"
+          color={AppColors.primary}
+          size={46}
+          iconSize={20}
+          onPress={handleUndo}
+          testID="button-undo"
+        />
         <TinderButton
           icon="x"
           color={AppColors.success}
@@ -424,10 +592,9 @@ export default function DiscoverScreen() {
           size={46}
           iconSize={20}
           onPress={() => {
-            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-            setShowLikedModal(true);
+            if (currentProfile) handleSuperLike(currentProfile.user.id);
           }}
-          testID="button-star"
+          testID="button-super-like"
         />
         <TinderButton
           icon="heart"
@@ -453,6 +620,40 @@ export default function DiscoverScreen() {
       />
       {profiles.length > 0 ? renderProfilesView() : renderEmptyState()}
 
+      <Pressable
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          setShowLikedModal(true);
+        }}
+        style={[styles.likedButton, { top: topBarTop + (HEADER_HEIGHT - 40) / 2, backgroundColor: theme.cardBackground }]}
+        hitSlop={8}
+        testID="button-liked-profiles"
+      >
+        <Icon name="heart" size={20} color={AppColors.danger} />
+        {likedProfiles.length > 0 ? (
+          <View style={styles.likedBadge}>
+            <ThemedText style={styles.likedBadgeText}>{likedProfiles.length}</ThemedText>
+          </View>
+        ) : null}
+      </Pressable>
+
+      <Pressable
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          setShowFilters(true);
+        }}
+        style={[styles.filterButton, { top: topBarTop + (HEADER_HEIGHT - 40) / 2, backgroundColor: theme.cardBackground }]}
+        hitSlop={8}
+        testID="button-discover-filters"
+      >
+        <Icon name="filter" size={20} color={activeFilterCount > 0 ? AppColors.primary : theme.text} />
+        {activeFilterCount > 0 ? (
+          <View style={styles.likedBadge}>
+            <ThemedText style={styles.likedBadgeText}>{activeFilterCount}</ThemedText>
+          </View>
+        ) : null}
+      </Pressable>
+
       {showMatch ? (
         <Animated.View
           entering={FadeIn.duration(300)}
@@ -591,6 +792,14 @@ export default function DiscoverScreen() {
         </Animated.View>
       ) : null}
 
+      <DiscoverFiltersModal
+        visible={showFilters}
+        preferences={discoverPreferences}
+        isSaving={isSavingFilters}
+        onClose={() => setShowFilters(false)}
+        onSave={handleSaveFilters}
+      />
+
       <Modal
         visible={showLikedModal}
         animationType="slide"
@@ -737,6 +946,28 @@ const styles = StyleSheet.create({
     fontWeight: "800" as const,
     letterSpacing: 0.5,
   },
+  likedButton: {
+    position: "absolute",
+    left: 16,
+    zIndex: 11,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+    ...Shadows.small,
+  },
+  filterButton: {
+    position: "absolute",
+    right: 16,
+    zIndex: 11,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+    ...Shadows.small,
+  },
   headerButtons: {
     flexDirection: "row",
     alignItems: "center",
@@ -962,6 +1193,12 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.full,
     marginTop: Spacing.lg,
   },
+  undoLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
   statsSection: {
     marginBottom: Spacing.xl,
   },
@@ -20,6 +20,7 @@ import Animated, { FadeIn, FadeInDown, SlideInDown } from "react-native-reanimat
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { PickerModal } from "@/components/PickerModal";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/context/AuthContext";
 import { useAlert } from "@/context/AlertContext";
@@ -92,6 +93,17 @@ const FALLBACK_EXPERTS: Expert[] = [
 ];
 
 const DURATION_OPTIONS = [30, 60, 90, 120];
+
+// Sessions default to tomorrow at 10:00 so there is always a time to put on the calendar feed
+function defaultSessionTime() {
+  const date = new Date(Date.now() + 86400000);
+  date.setHours(10, 0, 0, 0);
+  return date;
+}
+
+function formatSessionTime(date: Date) {
+  return date.toLocaleString(undefined, { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
 const getHourlyRate = (rate: number) => {
   if (!Number.isFinite(rate) || rate <= 0) return 100;
   return Math.round(rate);
@@ -203,10 +215,12 @@ function BookingModal({
   onSuccess: () => void;
 }) {
   const { theme } = useTheme();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { showAlert } = useAlert();
   const insets = useSafeAreaInsets();
   const [selectedDuration, setSelectedDuration] = useState(60);
+  const [scheduledAt, setScheduledAt] = useState(defaultSessionTime);
+  const [picker, setPicker] = useState<"date" | "time" | null>(null);
   const [notes, setNotes] = useState("");
   const [processing, setProcessing] = useState(false);
   const [step, setStep] = useState<"details" | "confirm" | "success">("details");
@@ -240,15 +254,18 @@ function BookingModal({
       }
 
       const baseUrl = getApiUrl();
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
       const response = await fetch(new URL("/api/consultations/book", baseUrl).toString(), {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers,
         body: JSON.stringify({
           userId: user.id,
           expertId: expert.user_id,
           expertApplicationId: expert.id,
           hourlyRate,
           durationMinutes: selectedDuration,
+          scheduledAt: scheduledAt.toISOString(),
           notes: notes.trim() || undefined,
           transactionId: result.transactionId,
         }),
@@ -274,6 +291,7 @@ function BookingModal({
   const handleClose = () => {
     setStep("details");
     setSelectedDuration(60);
+    setScheduledAt(defaultSessionTime());
     setNotes("");
     onClose();
   };
@@ -281,6 +299,7 @@ function BookingModal({
   const handleDone = () => {
     setStep("details");
     setSelectedDuration(60);
+    setScheduledAt(defaultSessionTime());
     setNotes("");
     onSuccess();
   };
@@ -339,6 +358,24 @@ function BookingModal({
                 ))}
               </View>
 
+              <ThemedText style={[styles.modalSectionTitle, { marginTop: Spacing.lg }]}>Session Time</ThemedText>
+              <View style={styles.durationRow}>
+                {(["date", "time"] as const).map((field) => (
+                  <Pressable
+                    key={field}
+                    style={[styles.durationChip, { backgroundColor: theme.cardBackground }]}
+                    onPress={() => setPicker(field)}
+                    testID={`button-consultation-${field}`}
+                  >
+                    <ThemedText style={[styles.durationText, { color: theme.text }]}>
+                      {field === "date"
+                        ? scheduledAt.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" })
+                        : scheduledAt.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+                    </ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+
               <ThemedText style={[styles.modalSectionTitle, { marginTop: Spacing.lg }]}>
                 Notes for the expert (optional)
               </ThemedText>
@@ -406,6 +443,10 @@ function BookingModal({
                   <Icon name="clock" size={16} color={theme.textSecondary} />
                   <ThemedText style={{ flex: 1 }}>{selectedDuration} minute session</ThemedText>
                 </View>
+                <View style={styles.confirmRow}>
+                  <Icon name="calendar" size={16} color={theme.textSecondary} />
+                  <ThemedText style={{ flex: 1 }}>{formatSessionTime(scheduledAt)}</ThemedText>
+                </View>
                 <View style={styles.confirmRow}>
                   <Icon name="dollar-sign" size={16} color={theme.textSecondary} />
                   <ThemedText style={{ flex: 1, fontWeight: "700" as const, color: AppColors.primary }}>
@@ -485,6 +526,23 @@ function BookingModal({
             </Animated.View>
           )}
         </Animated.View>
+
+        <PickerModal
+          visible={picker !== null}
+          onClose={() => setPicker(null)}
+          title={picker === "time" ? "Session Time" : "Session Date"}
+          type={picker === "time" ? "time" : "date"}
+          dateValue={scheduledAt}
+          onDateChange={(value) => {
+            const next = new Date(scheduledAt);
+            if (picker === "time") {
+              next.setHours(value.getHours(), value.getMinutes(), 0, 0);
+            } else {
+              next.setFullYear(value.getFullYear(), value.getMonth(), value.getDate());
+            }
+            setScheduledAt(next);
+          }}
+        />
       </View>
     </Modal>
   );
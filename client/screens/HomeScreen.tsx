@@ -1,16 +1,68 @@
-import { FlatList } from "react-native";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { FlatList, RefreshControl, StyleSheet, View } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { Image } from "expo-image";
 
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { EmptyState } from "@/components/EmptyState";
 import { useTheme } from "@/hooks/useTheme";
-import { Spacing } from "@/constants/theme";
+import { useData } from "@/context/DataContext";
+import { formatTripOverlap } from "@/lib/trips";
+import { TripOverlapMatch } from "@/types";
+import { AppColors, BorderRadius, Shadows, Spacing } from "@/constants/theme";
 
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { theme } = useTheme();
+  const { getTripOverlaps } = useData();
+  const [overlaps, setOverlaps] = useState<TripOverlapMatch[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const getTripOverlapsRef = useRef(getTripOverlaps);
+  getTripOverlapsRef.current = getTripOverlaps;
+
+  const loadOverlaps = useCallback(async () => {
+    setIsRefreshing(true);
+    try {
+      setOverlaps(await getTripOverlapsRef.current());
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOverlaps();
+  }, [loadOverlaps]);
+
+  const renderItem = ({ item }: { item: TripOverlapMatch }) => (
+    <View style={[styles.card, { backgroundColor: theme.cardBackground }, Shadows.small]}>
+      {item.user.photos[0] ? (
+        <Image source={{ uri: item.user.photos[0] }} style={styles.avatar} contentFit="cover" />
+      ) : (
+        <View style={[styles.avatar, styles.avatarFallback, { backgroundColor: theme.backgroundSecondary }]}>
+          <Icon name="user" size={22} color={theme.textSecondary} />
+        </View>
+      )}
+      <View style={styles.cardBody}>
+        <ThemedText type="body" style={styles.name}>
+          {item.user.name}, {item.user.age}
+        </ThemedText>
+        {item.overlaps.map((overlap) => (
+          <View key={`${overlap.city}-${overlap.startsOn}`} style={styles.overlapRow}>
+            <Icon name="map-pin" size={12} color={AppColors.primary} />
+            <ThemedText type="small" style={{ color: theme.textSecondary, flex: 1 }}>
+              {formatTripOverlap(overlap)}
+            </ThemedText>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
 
   return (
     <FlatList
@@ -19,10 +71,59 @@ export default function HomeScreen() {
         paddingTop: headerHeight + Spacing.xl,
         paddingBottom: tabBarHeight + Spacing.xl,
         paddingHorizontal: Spacing.lg,
+        gap: Spacing.md,
+        flexGrow: 1,
       }}
       scrollIndicatorInsets={{ bottom: insets.bottom }}
-      data={[]}
-      renderItem={() => null}
+      data={overlaps}
+      keyExtractor={(item) => item.user.id}
+      renderItem={renderItem}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={loadOverlaps} />}
+      ListHeaderComponent={
+        overlaps.length > 0 ? (
+          <ThemedText type="h4">Crossing Paths</ThemedText>
+        ) : null
+      }
+      ListEmptyComponent={
+        isRefreshing ? null : (
+          <EmptyState
+            icon="map-pin"
+            title="No Shared Stops Yet"
+            description="Add the cities you're heading to on your profile and we'll show nomads who'll be there at the same time."
+          />
+        )
+      }
     />
   );
 }
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+  },
+  avatar: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+  },
+  avatarFallback: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  cardBody: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  name: {
+    fontWeight: "700",
+  },
+  overlapRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+});
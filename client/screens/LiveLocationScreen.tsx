@@ -0,0 +1,187 @@
+import React, { useEffect } from "react";
+import { StyleSheet, View, Pressable, Linking } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { RouteProp, useRoute, useNavigation } from "@react-navigation/native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/context/AuthContext";
+import { useLocationShare } from "@/context/LocationShareContext";
+import { MapView, Marker, mapsAvailable } from "@/lib/maps";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type LiveLocationRouteProp = RouteProp<RootStackParamList, "LiveLocation">;
+
+const MAP_DELTA = 0.01;
+
+function formatTime(dateString?: string | null) {
+  if (!dateString) return "";
+  return new Date(dateString).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+}
+
+function formatUpdatedAgo(dateString?: string | null) {
+  if (!dateString) return "Waiting for the first update";
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 1) return "Updated just now";
+  if (minutes < 60) return `Updated ${minutes} min ago`;
+  return `Updated at ${formatTime(dateString)}`;
+}
+
+export default function LiveLocationScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation();
+  const route = useRoute<LiveLocationRouteProp>();
+  const { theme } = useTheme();
+  const { user } = useAuth();
+  const { shares, stopShare } = useLocationShare();
+
+  const share = shares.find((s) => s.id === route.params.shareId);
+  const isSharer = share?.sharerId === user?.id;
+  const location = share?.location;
+
+  // The provider drops shares once they end or expire, which closes this screen
+  useEffect(() => {
+    if (!share) navigation.goBack();
+  }, [share, navigation]);
+
+  if (!share) return null;
+
+  const title = isSharer
+    ? `Sharing with ${share.contactName || "your match"}`
+    : `${share.sharerName || "Your match"}'s location`;
+
+  const openInMaps = () => {
+    if (!location) return;
+    Linking.openURL(`https://maps.google.com/maps?q=${location.latitude},${location.longitude}`);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot, paddingTop: insets.top + Spacing.md }]}>
+      <View style={styles.headerRow}>
+        <Pressable onPress={() => navigation.goBack()} style={styles.backButton} hitSlop={20}>
+          <Icon name="chevron-back" size={22} color={theme.text} />
+        </Pressable>
+        <ThemedText type="h4" style={styles.headerTitle} numberOfLines={1}>
+          {title}
+        </ThemedText>
+        <View style={{ width: 38 }} />
+      </View>
+
+      <View style={styles.mapContainer}>
+        {location && mapsAvailable ? (
+          <MapView
+            style={StyleSheet.absoluteFill}
+            region={{
+              latitude: location.latitude,
+              longitude: location.longitude,
+              latitudeDelta: MAP_DELTA,
+              longitudeDelta: MAP_DELTA,
+            }}
+          >
+            <Marker
+              coordinate={{ latitude: location.latitude, longitude: location.longitude }}
+              title={share.sharerName || "Live location"}
+              pinColor={AppColors.primary}
+            />
+          </MapView>
+        ) : (
+          <View style={[styles.fallback, { backgroundColor: theme.backgroundSecondary }]}>
+            <Icon name="map-pin" size={40} color={AppColors.primary} />
+            <ThemedText type="body" style={[styles.fallbackText, { color: theme.textSecondary }]}>
+              {location
+                ? `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`
+                : "Waiting for the first location update"}
+            </ThemedText>
+          </View>
+        )}
+      </View>
+
+      <View style={[styles.footer, { paddingBottom: insets.bottom + Spacing.lg }]}>
+        <View style={styles.metaRow}>
+          <Icon name="clock" size={16} color={theme.textSecondary} />
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {formatUpdatedAgo(share.updatedAt)} · until {formatTime(share.expiresAt)}
+          </ThemedText>
+        </View>
+
+        {location ? (
+          <Pressable
+            onPress={openInMaps}
+            style={[styles.secondaryButton, { borderColor: theme.border }]}
+            testID="button-open-in-maps"
+          >
+            <Icon name="navigation" size={18} color={theme.text} />
+            <ThemedText type="body">Open in Maps</ThemedText>
+          </Pressable>
+        ) : null}
+
+        {isSharer ? (
+          <GradientButton onPress={() => stopShare(share.id)}>
+            Stop Sharing
+          </GradientButton>
+        ) : null}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: "center",
+  },
+  backButton: {
+    width: 38,
+    height: 38,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  mapContainer: {
+    flex: 1,
+    marginHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    overflow: "hidden",
+  },
+  fallback: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.md,
+    padding: Spacing.xl,
+  },
+  fallbackText: {
+    textAlign: "center",
+  },
+  footer: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+    gap: Spacing.md,
+  },
+  metaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+});
@@ -27,7 +27,7 @@ import { useTheme } from "@/hooks/useTheme";
 import { useData } from "@/context/DataContext";
 import { useAuth } from "@/context/AuthContext";
 import { useAlert } from "@/context/AlertContext";
-import { Activity, User } from "@/types";
+import { Activity, HeatmapCell, User } from "@/types";
 import { AppColors, Spacing, BorderRadius, Shadows } from "@/constants/theme";
 
 interface MapMarker {
@@ -78,11 +78,15 @@ const SPOT_COLORS: Record<CampSpot["type"], string> = {
   climbing: "#A855F7",
   kayaking: "#06B6D4",
 };
+const DENSITY_COLOR = "#F97316";
+
 const buildOsmMapHtml = (
   center: { latitude: number; longitude: number },
-  markers: { id: string; latitude: number; longitude: number; title: string; type: string }[]
+  markers: { id: string; latitude: number; longitude: number; title: string; type: string }[],
+  densityCells: HeatmapCell[] = []
 ) => {
   const safeMarkers = JSON.stringify(markers);
+  const safeDensityCells = JSON.stringify(densityCells);
   return `
 <!doctype html>
 <html>
@@ -110,6 +114,17 @@ const buildOsmMapHtml = (
       maxZoom: 19,
       attribution: '&copy; OpenStreetMap contributors'
     }).addTo(map);
+    const densityCells = ${safeDensityCells};
+    const maxDensity = densityCells.reduce((max, cell) => Math.max(max, cell.count), 1);
+    densityCells.forEach(cell => {
+      const b = cell.bounds;
+      L.rectangle([[b.south, b.west], [b.north, b.east]], {
+        stroke: false,
+        fillColor: '${DENSITY_COLOR}',
+        fillOpacity: 0.15 + 0.4 * (cell.count / maxDensity),
+        interactive: true
+      }).bindTooltip(cell.count + '+ nomads').addTo(map);
+    });
     const markers = ${safeMarkers};
     markers.forEach(m => {
       const color = m.type === 'activity' ? '#2563EB' : (m.type === 'user' ? '#16A34A' : '#F59E0B');
@@ -145,7 +160,7 @@ const { width, height } = Dimensions.get("window");
 export default function MapScreen({ visible = true, onClose, initialFilter = "all" }: Props) {
   const insets = useSafeAreaInsets();
   const { theme } = useTheme();
-  const { activities, profiles } = useData();
+  const { activities, profiles, getRadarHeatmap } = useData();
   const { user } = useAuth();
   const { showAlert } = useAlert();
 
@@ -172,6 +187,12 @@ export default function MapScreen({ visible = true, onClose, initialFilter = "al
   const [isSearching, setIsSearching] = useState(false);
   const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const abortRef = useRef<AbortController | null>(null);
+  const [showDensity, setShowDensity] = useState(false);
+  const [densityCells, setDensityCells] = useState<HeatmapCell[]>([]);
+  const [densityMinUsers, setDensityMinUsers] = useState(0);
+
+  const getRadarHeatmapRef = useRef(getRadarHeatmap);
+  getRadarHeatmapRef.current = getRadarHeatmap;
 
   const requestLocationPermission = useCallback(async () => {
     setIsLoadingLocation(true);
@@ -383,9 +404,26 @@ export default function MapScreen({ visible = true, onClose, initialFilter = "al
     }));
   }, [allMarkers]);
 
+  // Density is aggregated around the map centre, so it is refetched whenever the map recentres
+  useEffect(() => {
+    if (!showDensity) {
+      setDensityCells([]);
+      return;
+    }
+    let isCancelled = false;
+    getRadarHeatmapRef.current(osmCenter).then((heatmap) => {
+      if (isCancelled) return;
+      setDensityCells(heatmap?.cells || []);
+      setDensityMinUsers(heatmap?.minCellUsers || 0);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [showDensity, osmCenter]);
+
   const webMapKey = useMemo(() => {
-    return `${osmCenter.latitude.toFixed(4)}-${osmCenter.longitude.toFixed(4)}-${osmMarkers.length}-${mapRefreshTick}`;
-  }, [osmCenter, osmMarkers.length, mapRefreshTick]);
+    return `${osmCenter.latitude.toFixed(4)}-${osmCenter.longitude.toFixed(4)}-${osmMarkers.length}-${densityCells.length}-${mapRefreshTick}`;
+  }, [osmCenter, osmMarkers.length, densityCells.length, mapRefreshTick]);
 
   const handleWebMapMessage = useCallback((event: any) => {
     try {
@@ -526,13 +564,12 @@ export default function MapScreen({ visible = true, onClose, initialFilter = "al
     return "map-pin";
   };
 
-  const FilterPill = ({ label, filterType, icon, color }: { label: string; filterType: FilterType; icon: string; color: string }) => {
-    const isActive = filter === filterType || filter === "all";
+  const TogglePill = ({ label, icon, color, isActive, onPress }: { label: string; icon: string; color: string; isActive: boolean; onPress: () => void }) => {
     return (
       <Pressable
         onPress={() => {
           Haptics.selectionAsync();
-          setFilter(filter === filterType ? "all" : filterType);
+          onPress();
         }}
         style={[
           styles.filterPill,
@@ -560,6 +597,16 @@ export default function MapScreen({ visible = true, onClose, initialFilter = "al
     );
   };
 
+  const FilterPill = ({ label, filterType, icon, color }: { label: string; filterType: FilterType; icon: string; color: string }) => (
+    <TogglePill
+      label={label}
+      icon={icon}
+      color={color}
+      isActive={filter === filterType || filter === "all"}
+      onPress={() => setFilter(filter === filterType ? "all" : filterType)}
+    />
+  );
+
   const renderDetailContent = () => {
     if (!selectedMarker) return null;
 
@@ -732,7 +779,7 @@ export default function MapScreen({ visible = true, onClose, initialFilter = "al
         key={webMapKey}
         style={styles.map}
         originWhitelist={["*"]}
-        source={{ html: buildOsmMapHtml(osmCenter, osmMarkers) }}
+        source={{ html: buildOsmMapHtml(osmCenter, osmMarkers, densityCells) }}
         onMessage={handleWebMapMessage}
       />
 
@@ -809,6 +856,13 @@ export default function MapScreen({ visible = true, onClose, initialFilter = "al
           <View style={styles.filterPillsRow}>
             <FilterPill label="Activities" filterType="activities" icon="calendar" color={theme.primary} />
             <FilterPill label="Spots" filterType="spots" icon="map-pin" color="#4CAF50" />
+            <TogglePill
+              label="Nomad Density"
+              icon="users"
+              color={DENSITY_COLOR}
+              isActive={showDensity}
+              onPress={() => setShowDensity((prev) => !prev)}
+            />
           </View>
         </View>
       </View>
@@ -846,6 +900,14 @@ export default function MapScreen({ visible = true, onClose, initialFilter = "al
           <View style={[styles.legendDot, { backgroundColor: "#4CAF50" }]} />
           <ThemedText type="small">Spots</ThemedText>
         </View>
+        {showDensity ? (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: DENSITY_COLOR }]} />
+            <ThemedText type="small">
+              {densityCells.length > 0 ? `Nomads (areas with ${densityMinUsers}+ verified)` : "No busy areas nearby"}
+            </ThemedText>
+          </View>
+        ) : null}
       </View>
 
       {showDetail && selectedMarker ? (
@@ -1,5 +1,5 @@
-import React, { useCallback, useMemo, useRef } from "react";
-import { StyleSheet, View, FlatList, RefreshControl, Pressable, ScrollView, Platform } from "react-native";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { StyleSheet, View, FlatList, RefreshControl, Pressable, ScrollView, Platform, TextInput, ActivityIndicator } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
@@ -15,7 +15,7 @@ import { Icon } from "@/components/Icon";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { useData } from "@/context/DataContext";
-import { Match } from "@/types";
+import { Match, MessageSearchResult, Presence } from "@/types";
 import { Spacing, BorderRadius, AppColors, Shadows, GradientPresets } from "@/constants/theme";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
@@ -37,6 +37,13 @@ function formatTime(dateString: string) {
 }
 
 const DEFAULT_AVATAR = require("../../assets/images/default-avatar.png");
+const SEARCH_DEBOUNCE_MS = 300;
+
+function describeSearchResult(result: MessageSearchResult) {
+  if (result.type === "file" && result.fileName) return result.content ? `${result.fileName} · ${result.content}` : result.fileName;
+  if (result.type === "location" && result.locationName) return result.locationName;
+  return result.content || result.fileName || result.locationName || "";
+}
 
 function PendingCircle({ match, onPress }: { match: Match; onPress: () => void }) {
   const photoUrl = match.matchedUser.photos?.[0] || null;
@@ -62,7 +69,19 @@ function PendingCircle({ match, onPress }: { match: Match; onPress: () => void }
   );
 }
 
-function ChatRow({ match, onPress, theme }: { match: Match; onPress: () => void; theme: any }) {
+function ChatRow({
+  match,
+  presence,
+  isTyping,
+  onPress,
+  theme,
+}: {
+  match: Match;
+  presence?: Presence;
+  isTyping: boolean;
+  onPress: () => void;
+  theme: any;
+}) {
   const photoUrl = match.matchedUser.photos?.[0] || null;
   const hasUnread = (match.unreadCount ?? 0) > 0;
   
@@ -74,7 +93,7 @@ function ChatRow({ match, onPress, theme }: { match: Match; onPress: () => void;
     >
       <View style={styles.chatAvatarContainer}>
         <Image source={photoUrl ? { uri: photoUrl } : DEFAULT_AVATAR} style={styles.chatAvatar} contentFit="cover" />
-        {hasUnread && <View style={[styles.onlineDot, { borderColor: theme.cardBackground }]} />}
+        {presence?.isOnline && <View style={[styles.onlineDot, { borderColor: theme.cardBackground }]} />}
       </View>
 
       <View style={styles.chatContent}>
@@ -87,16 +106,22 @@ function ChatRow({ match, onPress, theme }: { match: Match; onPress: () => void;
           </ThemedText>
         </View>
         <View style={styles.chatBottomRow}>
-          <ThemedText
-            style={[
-              styles.chatPreview,
-              { color: hasUnread ? theme.text : theme.textSecondary },
-              hasUnread && { fontWeight: "600" as const },
-            ]}
-            numberOfLines={1}
-          >
-            {match.lastMessage?.content || "Start the conversation..."}
-          </ThemedText>
+          {isTyping ? (
+            <ThemedText style={[styles.chatPreview, styles.typingPreview]} numberOfLines={1}>
+              typing...
+            </ThemedText>
+          ) : (
+            <ThemedText
+              style={[
+                styles.chatPreview,
+                { color: hasUnread ? theme.text : theme.textSecondary },
+                hasUnread && { fontWeight: "600" as const },
+              ]}
+              numberOfLines={1}
+            >
+              {match.lastMessage?.content || "Start the conversation..."}
+            </ThemedText>
+          )}
           {hasUnread && (
             <View style={[styles.unreadBadge, { backgroundColor: AppColors.sunsetCoral }]}>
               <ThemedText style={styles.unreadText}>{match.unreadCount}</ThemedText>
@@ -116,9 +141,48 @@ export default function MatchesScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { theme, isDark } = useTheme();
-  const { matches, isLoading, refreshData, toggleFavourite, deleteMatch, markMatchAsRead } = useData();
+  const { matches, activities, presence, typingByMatch, isLoading, refreshData, toggleFavourite, deleteMatch, markMatchAsRead, searchMessages } = useData();
   const navigation = useNavigation<NavigationProp>();
   const swipeableRefs = useRef<Map<string, Swipeable>>(new Map());
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const searchMessagesRef = useRef(searchMessages);
+  searchMessagesRef.current = searchMessages;
+  const isSearchActive = searchQuery.trim().length >= 2;
+
+  const handleSearch = useCallback((query: string) => {
+    setSearchQuery(query);
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+    if (query.trim().length < 2) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    searchTimeoutRef.current = setTimeout(async () => {
+      try {
+        setSearchResults(await searchMessagesRef.current(query));
+      } catch (error) {
+        console.error("Message search error:", error);
+        setSearchResults([]);
+      } finally {
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+    };
+  }, []);
 
   const dedupeMatches = useCallback((items: Match[]) => {
     const byId = new Map<string, Match>();
@@ -161,6 +225,21 @@ export default function MatchesScreen() {
     navigation.navigate("Chat", { matchId: match.id, matchName: match.matchedUser.name, matchPhoto: match.matchedUser.photos?.[0] });
   };
 
+  const handleSearchResultPress = (result: MessageSearchResult) => {
+    if (result.kind === "activity") {
+      const activity = activities.find((a) => a.id === result.conversationId);
+      navigation.navigate("ActivityChat", { activityId: result.conversationId, activityTitle: activity?.title || "Activity Chat" });
+      return;
+    }
+    const match = matches.find((m) => m.id === result.conversationId);
+    navigation.navigate("Chat", {
+      matchId: result.conversationId,
+      matchName: match?.matchedUser.name || "Chat",
+      matchPhoto: match?.matchedUser.photos?.[0],
+      focusMessageId: result.messageId,
+    });
+  };
+
   const handleToggleFavourite = useCallback((matchId: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     toggleFavourite(matchId);
@@ -208,13 +287,80 @@ export default function MatchesScreen() {
       friction={2}
       overshootFriction={8}
     >
-      <ChatRow match={item} onPress={() => handleMatchPress(item)} theme={theme} />
+      <ChatRow
+        match={item}
+        presence={presence[item.id]}
+        isTyping={!!typingByMatch[item.id]}
+        onPress={() => handleMatchPress(item)}
+        theme={theme}
+      />
     </Swipeable>
   );
 
+  const renderSearchResults = () => (
+    <View style={styles.searchResults}>
+      {!isSearching && searchResults.length === 0 ? (
+        <ThemedText style={[styles.noChatText, { color: theme.textSecondary }]}>
+          No messages found
+        </ThemedText>
+      ) : null}
+      {searchResults.map((result) => {
+        const match = result.kind === "match" ? matches.find((m) => m.id === result.conversationId) : undefined;
+        const activity = result.kind === "activity" ? activities.find((a) => a.id === result.conversationId) : undefined;
+        return (
+          <Pressable
+            key={`${result.kind}-${result.messageId}`}
+            onPress={() => handleSearchResultPress(result)}
+            style={[styles.chatRow, { backgroundColor: theme.cardBackground }]}
+          >
+            <View style={[styles.searchResultIcon, { backgroundColor: AppColors.sunsetCoral + "15" }]}>
+              <Icon name={result.kind === "activity" ? "users" : "message-circle"} size={18} color={AppColors.sunsetCoral} />
+            </View>
+            <View style={styles.chatContent}>
+              <View style={styles.chatTopRow}>
+                <ThemedText style={styles.chatName} numberOfLines={1}>
+                  {match?.matchedUser.name || activity?.title || (result.kind === "activity" ? "Activity chat" : "Chat")}
+                </ThemedText>
+                <ThemedText style={[styles.chatTime, { color: theme.textSecondary }]}>
+                  {formatTime(result.createdAt)}
+                </ThemedText>
+              </View>
+              <ThemedText style={[styles.chatPreview, { color: theme.textSecondary }]} numberOfLines={2}>
+                {describeSearchResult(result)}
+              </ThemedText>
+            </View>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
   const renderHeader = () => (
     <View>
-      {pendingMatches.length > 0 && (
+      <View style={[styles.searchBar, { backgroundColor: theme.cardBackground }]}>
+        <Icon name="search" size={16} color={theme.textSecondary} />
+        <TextInput
+          placeholder="Search messages, files, places..."
+          placeholderTextColor={theme.textSecondary}
+          value={searchQuery}
+          onChangeText={handleSearch}
+          style={[styles.searchInput, { color: theme.text }]}
+          autoCorrect={false}
+          autoCapitalize="none"
+          returnKeyType="search"
+        />
+        {isSearching ? (
+          <ActivityIndicator size="small" color={AppColors.sunsetCoral} />
+        ) : searchQuery.length > 0 ? (
+          <Pressable onPress={() => handleSearch("")} hitSlop={8}>
+            <Icon name="x" size={16} color={theme.textSecondary} />
+          </Pressable>
+        ) : null}
+      </View>
+
+      {isSearchActive ? renderSearchResults() : null}
+
+      {!isSearchActive && pendingMatches.length > 0 && (
         <Animated.View entering={FadeIn.duration(400)} style={styles.pendingSection}>
           <View style={styles.pendingSectionHeader}>
             <ThemedText style={[styles.sectionTitle, { color: theme.text }]}>
@@ -240,7 +386,7 @@ export default function MatchesScreen() {
         </Animated.View>
       )}
 
-      {activeChats.length > 0 && (
+      {!isSearchActive && activeChats.length > 0 && (
         <Animated.View entering={FadeInDown.delay(100).springify()} style={styles.chatSectionHeader}>
           <ThemedText style={[styles.sectionTitle, { color: theme.text }]}>
             Messages
@@ -296,10 +442,11 @@ export default function MatchesScreen() {
         style={StyleSheet.absoluteFill}
       />
       <FlatList
-        data={activeChats}
+        data={isSearchActive ? [] : activeChats}
         renderItem={renderChatItem}
         keyExtractor={(item) => item.id}
-        ListHeaderComponent={renderHeader}
+        ListHeaderComponent={renderHeader()}
+        keyboardShouldPersistTaps="handled"
         contentContainerStyle={[
           styles.listContent,
           { paddingTop: headerHeight + Spacing.md, paddingBottom: tabBarHeight + Spacing.lg },
@@ -309,7 +456,7 @@ export default function MatchesScreen() {
           <RefreshControl refreshing={isLoading} onRefresh={refreshData} tintColor={theme.text} />
         }
         ListEmptyComponent={
-          pendingMatches.length > 0 ? (
+          !isSearchActive && pendingMatches.length > 0 ? (
             <View style={styles.noChatYet}>
               <Icon name="message-circle" size={32} color={theme.textSecondary} />
               <ThemedText style={[styles.noChatText, { color: theme.textSecondary }]}>
@@ -422,6 +569,31 @@ const styles = StyleSheet.create({
     textAlign: "center",
   },
 
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    paddingVertical: 8,
+  },
+  searchResults: {
+    gap: Spacing.xs,
+  },
+  searchResultIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: Spacing.md,
+  },
   chatSectionHeader: {
     flexDirection: "row",
     alignItems: "center",
@@ -457,7 +629,7 @@ const styles = StyleSheet.create({
     width: 14,
     height: 14,
     borderRadius: 7,
-    backgroundColor: AppColors.sunsetCoral,
+    backgroundColor: AppColors.success,
     borderWidth: 2,
   },
   chatContent: {
@@ -490,6 +662,10 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: Spacing.sm,
   },
+  typingPreview: {
+    color: AppColors.success,
+    fontStyle: "italic",
+  },
   unreadBadge: {
     minWidth: 20,
     height: 20,
@@ -0,0 +1,551 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import {
+  StyleSheet,
+  View,
+  FlatList,
+  Pressable,
+  ScrollView,
+  Modal,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import { Image } from "expo-image";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { REPORT_REASON_OPTIONS } from "@/components/ReportUserModal";
+import { useTheme } from "@/hooks/useTheme";
+import { useData } from "@/context/DataContext";
+import { useAlert } from "@/context/AlertContext";
+import { ModerationActionType, ModerationReport, ModerationReportDetail, ReportStatus } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+const DEFAULT_AVATAR = require("../../assets/images/default-avatar.png");
+const SUSPENSION_HOURS = 7 * 24;
+
+const STATUS_FILTERS: { value: ReportStatus; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "actioned", label: "Actioned" },
+  { value: "dismissed", label: "Dismissed" },
+];
+
+const ACTION_LABELS: Record<ModerationActionType, string> = {
+  warn: "Warned",
+  suspend: "Suspended",
+  ban: "Banned",
+  dismiss: "Dismissed",
+  reinstate: "Reinstated",
+  role_change: "Role changed",
+};
+
+function reasonLabel(reason: string) {
+  return REPORT_REASON_OPTIONS.find((option) => option.value === reason)?.label || reason;
+}
+
+function formatDate(dateString?: string | null) {
+  if (!dateString) return "";
+  return new Date(dateString).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function ModerationScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation();
+  const { theme } = useTheme();
+  const { showAlert } = useAlert();
+  const { getModerationQueue, getModerationReport, takeModerationAction } = useData();
+
+  const [status, setStatus] = useState<ReportStatus>("open");
+  const [reports, setReports] = useState<ModerationReport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<ModerationReportDetail | null>(null);
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const getModerationQueueRef = useRef(getModerationQueue);
+  getModerationQueueRef.current = getModerationQueue;
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReports(await getModerationQueueRef.current(status));
+    } catch (error) {
+      console.error("Moderation queue error:", error);
+      showAlert({ type: "error", title: "Could Not Load Reports", message: "Please try again." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, showAlert]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const openReport = async (reportId: string) => {
+    setSelectedReportId(reportId);
+    setDetail(null);
+    setNote("");
+    try {
+      setDetail(await getModerationReport(reportId));
+    } catch (error) {
+      console.error("Moderation report error:", error);
+      setSelectedReportId(null);
+      showAlert({ type: "error", title: "Could Not Load Report", message: "Please try again." });
+    }
+  };
+
+  const closeReport = () => {
+    setSelectedReportId(null);
+    setDetail(null);
+  };
+
+  const submitAction = async (action: Exclude<ModerationActionType, "role_change">) => {
+    if (!detail) return;
+    setIsSubmitting(true);
+    try {
+      await takeModerationAction({
+        // Reinstating is about the account, not the report, which may already be resolved
+        ...(action === "reinstate" ? { targetUserId: detail.report.reportedUserId } : { reportId: detail.report.id }),
+        action,
+        note: note.trim() || undefined,
+        durationHours: action === "suspend" ? SUSPENSION_HOURS : undefined,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      closeReport();
+      loadQueue();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      showAlert({ type: "error", title: "Action Failed", message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmAction = (action: Exclude<ModerationActionType, "role_change">, title: string, message: string) => {
+    showAlert({
+      type: "confirm",
+      title,
+      message,
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        { text: "Confirm", style: "destructive", onPress: () => submitAction(action) },
+      ],
+    });
+  };
+
+  const renderReport = ({ item }: { item: ModerationReport }) => (
+    <Pressable
+      style={[styles.reportRow, { backgroundColor: theme.cardBackground }]}
+      onPress={() => openReport(item.id)}
+      testID={`report-${item.id}`}
+    >
+      <Image
+        source={item.reportedUserPhoto ? { uri: item.reportedUserPhoto } : DEFAULT_AVATAR}
+        style={styles.avatar}
+        contentFit="cover"
+      />
+      <View style={styles.reportInfo}>
+        <ThemedText type="body" style={styles.reportName}>
+          {item.reportedUserName || "Unknown user"}
+        </ThemedText>
+        <ThemedText type="small" style={{ color: AppColors.danger }}>
+          {reasonLabel(item.reason)}
+        </ThemedText>
+        <ThemedText type="small" style={{ color: theme.textSecondary }} numberOfLines={1}>
+          {`By ${item.reporterName || "Unknown"} · ${formatDate(item.createdAt)}`}
+        </ThemedText>
+      </View>
+      {item.priorReportCount ? (
+        <View style={[styles.countBadge, { backgroundColor: `${AppColors.danger}20` }]}>
+          <ThemedText type="small" style={{ color: AppColors.danger }}>
+            +{item.priorReportCount}
+          </ThemedText>
+        </View>
+      ) : null}
+      <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+    </Pressable>
+  );
+
+  const reportedUser = detail?.reportedUser;
+  const isRestricted = reportedUser?.accountStatus === "suspended" || reportedUser?.accountStatus === "banned";
+  const isOpen = detail?.report.status === "open";
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot, paddingTop: insets.top + Spacing.md }]}>
+      <View style={styles.headerRow}>
+        <Pressable onPress={() => navigation.goBack()} style={styles.backButton} hitSlop={20}>
+          <Icon name="chevron-back" size={22} color={theme.text} />
+        </Pressable>
+        <ThemedText type="h3">Moderation</ThemedText>
+        <View style={{ width: 38 }} />
+      </View>
+
+      <View style={styles.filterRow}>
+        {STATUS_FILTERS.map((filter) => {
+          const selected = status === filter.value;
+          return (
+            <Pressable
+              key={filter.value}
+              onPress={() => setStatus(filter.value)}
+              style={[
+                styles.filterChip,
+                { backgroundColor: selected ? AppColors.primary : theme.backgroundSecondary },
+              ]}
+              testID={`filter-${filter.value}`}
+            >
+              <ThemedText type="small" style={{ color: selected ? "#FFFFFF" : theme.text }}>
+                {filter.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <FlatList
+        data={reports}
+        keyExtractor={(item) => item.id}
+        renderItem={renderReport}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + Spacing.xl }]}
+        refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadQueue} />}
+        ListEmptyComponent={
+          isLoading ? null : (
+            <ThemedText type="body" style={[styles.emptyText, { color: theme.textSecondary }]}>
+              No {status} reports.
+            </ThemedText>
+          )
+        }
+      />
+
+      <Modal
+        visible={selectedReportId !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={closeReport}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.backgroundRoot }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText type="h3">Report</ThemedText>
+            <Pressable onPress={closeReport}>
+              <Icon name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          {!detail ? (
+            <ActivityIndicator style={styles.modalLoading} color={AppColors.primary} />
+          ) : (
+            <ScrollView style={styles.modalScroll} contentContainerStyle={styles.modalContent}>
+              <View style={[styles.card, { backgroundColor: theme.cardBackground }]}>
+                <View style={styles.profileRow}>
+                  <Image
+                    source={reportedUser?.photos[0] ? { uri: reportedUser.photos[0] } : DEFAULT_AVATAR}
+                    style={styles.profilePhoto}
+                    contentFit="cover"
+                  />
+                  <View style={styles.reportInfo}>
+                    <ThemedText type="h4">
+                      {reportedUser ? `${reportedUser.name}${reportedUser.age ? `, ${reportedUser.age}` : ""}` : "Profile unavailable"}
+                    </ThemedText>
+                    {reportedUser?.location ? (
+                      <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                        {reportedUser.location}
+                      </ThemedText>
+                    ) : null}
+                    {reportedUser ? (
+                      <ThemedText type="small" style={{ color: isRestricted ? AppColors.danger : AppColors.success }}>
+                        {reportedUser.accountStatus === "suspended"
+                          ? `Suspended until ${formatDate(reportedUser.suspendedUntil)}`
+                          : reportedUser.accountStatus === "banned"
+                            ? "Banned"
+                            : "Active"}
+                      </ThemedText>
+                    ) : null}
+                  </View>
+                </View>
+                {reportedUser?.bio ? (
+                  <ThemedText type="small" style={styles.bio}>
+                    {reportedUser.bio}
+                  </ThemedText>
+                ) : null}
+              </View>
+
+              <ThemedText type="h4" style={styles.sectionTitle}>
+                {reasonLabel(detail.report.reason)}
+              </ThemedText>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {`Reported by ${detail.report.reporterName || "Unknown"} · ${formatDate(detail.report.createdAt)}`}
+              </ThemedText>
+              {detail.report.details ? (
+                <ThemedText type="body" style={styles.details}>
+                  {detail.report.details}
+                </ThemedText>
+              ) : null}
+
+              <ThemedText type="h4" style={styles.sectionTitle}>
+                Reported Messages
+              </ThemedText>
+              {detail.messages.length === 0 ? (
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  No messages attached.
+                </ThemedText>
+              ) : null}
+              {detail.messages.map((message) => (
+                <View key={message.messageId} style={[styles.messageRow, { backgroundColor: theme.backgroundSecondary }]}>
+                  <ThemedText type="body">
+                    {message.content || message.fileName || message.locationName || `[${message.type}]`}
+                  </ThemedText>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    {`${message.kind === "activity" ? "Activity chat" : "Direct chat"} · ${formatDate(message.createdAt)}`}
+                  </ThemedText>
+                </View>
+              ))}
+
+              <ThemedText type="h4" style={styles.sectionTitle}>
+                Prior Reports ({detail.priorReports.length})
+              </ThemedText>
+              {detail.priorReports.map((prior) => (
+                <View key={prior.id} style={styles.historyRow}>
+                  <ThemedText type="small" style={styles.reportName}>
+                    {reasonLabel(prior.reason)}
+                  </ThemedText>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    {`${prior.status} · ${formatDate(prior.createdAt)}`}
+                  </ThemedText>
+                </View>
+              ))}
+
+              <ThemedText type="h4" style={styles.sectionTitle}>
+                Audit Trail
+              </ThemedText>
+              {detail.actions.length === 0 ? (
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  No previous actions.
+                </ThemedText>
+              ) : null}
+              {detail.actions.map((action) => (
+                <View key={action.id} style={styles.historyRow}>
+                  <ThemedText type="small" style={styles.reportName}>
+                    {`${ACTION_LABELS[action.action] || action.action} by ${action.moderatorName || "moderator"}`}
+                  </ThemedText>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    {formatDate(action.createdAt)}
+                  </ThemedText>
+                  {action.note ? (
+                    <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                      {action.note}
+                    </ThemedText>
+                  ) : null}
+                </View>
+              ))}
+
+              <TextInput
+                value={note}
+                onChangeText={setNote}
+                placeholder="Moderator note (optional)"
+                placeholderTextColor={theme.textSecondary}
+                multiline
+                maxLength={2000}
+                style={[styles.noteInput, { color: theme.text, borderColor: theme.border }]}
+              />
+
+              <View style={styles.actionGrid}>
+                {isOpen ? (
+                  <>
+                    <Pressable
+                      style={[styles.actionButton, { backgroundColor: theme.backgroundSecondary }]}
+                      onPress={() => submitAction("dismiss")}
+                      disabled={isSubmitting}
+                      testID="action-dismiss"
+                    >
+                      <ThemedText type="body">Dismiss</ThemedText>
+                    </Pressable>
+                    <Pressable
+                      style={[styles.actionButton, { backgroundColor: `${AppColors.sunsetGold}25` }]}
+                      onPress={() => submitAction("warn")}
+                      disabled={isSubmitting}
+                      testID="action-warn"
+                    >
+                      <ThemedText type="body">Warn</ThemedText>
+                    </Pressable>
+                    <Pressable
+                      style={[styles.actionButton, { backgroundColor: `${AppColors.danger}20` }]}
+                      onPress={() => confirmAction("suspend", "Suspend for 7 days?", "They won't be able to use the app until the suspension ends.")}
+                      disabled={isSubmitting}
+                      testID="action-suspend"
+                    >
+                      <ThemedText type="body" style={{ color: AppColors.danger }}>Suspend 7d</ThemedText>
+                    </Pressable>
+                    <Pressable
+                      style={[styles.actionButton, { backgroundColor: AppColors.danger }]}
+                      onPress={() => confirmAction("ban", "Ban this account?", "They will lose access to the app until reinstated.")}
+                      disabled={isSubmitting}
+                      testID="action-ban"
+                    >
+                      <ThemedText type="body" style={{ color: "#FFFFFF" }}>Ban</ThemedText>
+                    </Pressable>
+                  </>
+                ) : null}
+                {isRestricted ? (
+                  <Pressable
+                    style={[styles.actionButton, { backgroundColor: `${AppColors.success}20` }]}
+                    onPress={() => submitAction("reinstate")}
+                    disabled={isSubmitting}
+                    testID="action-reinstate"
+                  >
+                    <ThemedText type="body" style={{ color: AppColors.success }}>Reinstate</ThemedText>
+                  </Pressable>
+                ) : null}
+              </View>
+            </ScrollView>
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  backButton: {
+    width: 38,
+    height: 38,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  filterRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
+  filterChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs + 2,
+    borderRadius: BorderRadius.full,
+  },
+  listContent: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  reportRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  reportInfo: {
+    flex: 1,
+  },
+  reportName: {
+    fontWeight: "600",
+  },
+  countBadge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: Spacing["3xl"],
+  },
+  modalContainer: {
+    flex: 1,
+    paddingTop: Spacing["2xl"],
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(0,0,0,0.1)",
+  },
+  modalLoading: {
+    marginTop: Spacing["3xl"],
+  },
+  modalScroll: {
+    flex: 1,
+  },
+  modalContent: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing["4xl"],
+  },
+  card: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  profileRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  profilePhoto: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+  },
+  bio: {
+    marginTop: Spacing.sm,
+  },
+  sectionTitle: {
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.sm,
+  },
+  details: {
+    marginTop: Spacing.sm,
+  },
+  messageRow: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.sm,
+  },
+  historyRow: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "rgba(0,0,0,0.1)",
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    minHeight: 72,
+    marginTop: Spacing.xl,
+    textAlignVertical: "top",
+  },
+  actionGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  actionButton: {
+    flexGrow: 1,
+    minWidth: "45%",
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
   StyleSheet,
   View,
@@ -6,6 +6,9 @@ import {
   ScrollView,
   Modal,
   Share,
+  Switch,
+  Linking,
+  Platform,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
@@ -21,8 +24,11 @@ import { GradientButton } from "@/components/GradientButton";
 import { Input } from "@/components/Input";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { PhotoPickerModal } from "@/components/PhotoPickerModal";
+import TripItineraryModal from "@/components/TripItineraryModal";
+import CalendarFeedModal from "@/components/CalendarFeedModal";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/context/AuthContext";
+import { useData } from "@/context/DataContext";
 import { useAlert } from "@/context/AlertContext";
 import { useThemeContext } from "@/context/ThemeContext";
 import { useNavigation } from "@react-navigation/native";
@@ -31,10 +37,18 @@ import type { RootStackParamList } from "@/navigation/RootStackNavigator";
 import { AppColors, Spacing, BorderRadius, Shadows, GradientPresets } from "@/constants/theme";
 import { LinearGradient } from "expo-linear-gradient";
 import { TravelBadgeDisplay } from "@/components/TravelBadge";
+import { HostReputationBadge } from "@/components/HostReputationBadge";
 import { useSubscription } from "@/context/SubscriptionContext";
 import { Ionicons } from "@expo/vector-icons";
-import type { IntentMode } from "@/types";
+import type { CalendarFeed, HostReputationDetail, IntentMode, LocationPrecision, TripStop } from "@/types";
 import { getApiUrl } from "@/lib/query-client";
+import { formatTripDateRange } from "@/lib/trips";
+import {
+  VAN_TYPES,
+  INTENT_MODE_OPTIONS,
+  LOOKING_FOR_OPTIONS,
+  LOCATION_PRECISION_OPTIONS,
+} from "@/constants/profileOptions";
 
 const INTERESTS = [
   "Hiking",
@@ -54,34 +68,6 @@ const INTERESTS = [
   "Meditation",
 ];
 
-const VAN_TYPES = [
-  "Sprinter",
-  "ProMaster",
-  "Transit",
-  "Econoline",
-  "Westfalia",
-  "Skoolie",
-  "Truck Camper",
-  "Other",
-];
-
-const INTENT_MODE_OPTIONS: { value: IntentMode; label: string; icon: string; description: string }[] = [
-  { value: "coffee_now", label: "Coffee Now", icon: "compass", description: "Open for quick, nearby meets" },
-  { value: "explore_city", label: "Explore City", icon: "map", description: "Discover places and events together" },
-  { value: "adventure_partner", label: "Adventure Partner", icon: "navigation", description: "Find activity-first travel companions" },
-  { value: "deep_talk", label: "Deep Talk", icon: "message-square", description: "Prefer meaningful conversations" },
-];
-
-const LOOKING_FOR_OPTIONS: { value: string; label: string; icon: string }[] = [
-  { value: "friendship", label: "Friendship", icon: "users" },
-  { value: "travel-buddy", label: "Travel Buddy", icon: "navigation" },
-  { value: "dating", label: "Dating", icon: "heart" },
-  { value: "help-with-build", label: "Help with Build", icon: "tool" },
-  { value: "local-tips", label: "Local Tips", icon: "map-pin" },
-  { value: "activities", label: "Activities", icon: "calendar" },
-  { value: "networking", label: "Networking", icon: "briefcase" },
-];
-
 const THEME_COLORS = [
   { name: "Ocean Blue", primary: "#246BFD", accent: "#2CC3FF" },
   { name: "Arctic Blue", primary: "#1E88E5", accent: "#4FC3F7" },
@@ -96,8 +82,9 @@ export default function ProfileScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { theme, isDark } = useTheme();
-  const { user, logout, updateProfile, refreshProfile } = useAuth();
+  const { user, session, logout, updateProfile, refreshProfile } = useAuth();
   const { showAlert } = useAlert();
+  const { blockedUsers, unblockUser, saveItinerary, setItinerarySharing, getCalendarFeed, resetCalendarFeed, getHostReputation } = useData();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { customTheme, setCustomTheme, resetToDefault } = useThemeContext();
     const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
@@ -105,6 +92,9 @@ export default function ProfileScreen() {
   const [showEditModal, setShowEditModal] = useState(false);
   const [showThemeModal, setShowThemeModal] = useState(false);
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
+  const [showBlockedModal, setShowBlockedModal] = useState(false);
+  const [showPrecisionModal, setShowPrecisionModal] = useState(false);
+  const isModerator = session?.user.role === "moderator" || session?.user.role === "admin";
   const [feedbackText, setFeedbackText] = useState("");
   const [isSubmittingFeedback, setIsSubmittingFeedback] = useState(false);
   const [editData, setEditData] = useState({
@@ -122,13 +112,37 @@ export default function ProfileScreen() {
   
   const [showSafetyModal, setShowSafetyModal] = useState(false);
   const [showPhotoModal, setShowPhotoModal] = useState(false);
+  const [showItineraryModal, setShowItineraryModal] = useState(false);
+  const [isSavingItinerary, setIsSavingItinerary] = useState(false);
+  const [showCalendarFeedModal, setShowCalendarFeedModal] = useState(false);
+  const [calendarFeed, setCalendarFeed] = useState<CalendarFeed | null>(null);
+  const [isLoadingCalendarFeed, setIsLoadingCalendarFeed] = useState(false);
+  const [isResettingCalendarFeed, setIsResettingCalendarFeed] = useState(false);
+  const itineraryStops = useMemo(() => user?.activePlan?.stops || [], [user?.activePlan?.stops]);
   const { tier: currentTier } = useSubscription();
   const [emergencyContact, setEmergencyContact] = useState({
     name: user?.emergencyContact?.name || "",
     phone: user?.emergencyContact?.phone || "",
+    email: user?.emergencyContact?.email || "",
     policeHelpline: (user?.emergencyContact as any)?.policeHelpline || "",
   });
 
+  const [hostReputation, setHostReputation] = useState<HostReputationDetail | null>(null);
+  const getHostReputationRef = useRef(getHostReputation);
+  getHostReputationRef.current = getHostReputation;
+
+  // Only hosts who have been rated get the section, so nothing shows for people who never hosted
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+    getHostReputationRef.current(user.id).then((reputation) => {
+      if (!cancelled) setHostReputation(reputation);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
   useEffect(() => {
     setEditData((prev) => ({
       ...prev,
@@ -236,6 +250,103 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleItinerarySharing = async (shareOverlaps: boolean) => {
+    try {
+      await setItinerarySharing(shareOverlaps);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      showAlert({
+        type: "error",
+        title: "Sharing Not Updated",
+        message: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  const handleSaveItinerary = async (stops: TripStop[]) => {
+    setIsSavingItinerary(true);
+    try {
+      await saveItinerary(stops);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setShowItineraryModal(false);
+    } catch (error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      showAlert({
+        type: "error",
+        title: "Itinerary Not Saved",
+        message: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsSavingItinerary(false);
+    }
+  };
+
+  const handleOpenCalendarFeed = async () => {
+    setShowCalendarFeedModal(true);
+    if (calendarFeed) return;
+    setIsLoadingCalendarFeed(true);
+    try {
+      setCalendarFeed(await getCalendarFeed());
+    } finally {
+      setIsLoadingCalendarFeed(false);
+    }
+  };
+
+  // webcal:// hands the feed to the calendar app as a subscription; browsers only understand https
+  const handleSubscribeCalendarFeed = async () => {
+    if (!calendarFeed) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      await Linking.openURL(Platform.OS === "web" ? calendarFeed.url : calendarFeed.webcalUrl);
+    } catch (error) {
+      console.error("Error opening calendar feed:", error);
+      showAlert({
+        type: "warning",
+        title: "No Calendar App Found",
+        message: "Copy the link and add it as a subscribed calendar in your calendar app.",
+      });
+    }
+  };
+
+  const handleShareCalendarFeed = async () => {
+    if (!calendarFeed) return;
+    try {
+      await Share.share({ message: calendarFeed.url, title: "ExploreX calendar feed" });
+    } catch (error) {
+      console.error("Error sharing:", error);
+    }
+  };
+
+  const handleResetCalendarFeed = () => {
+    const performReset = async () => {
+      setIsResettingCalendarFeed(true);
+      try {
+        setCalendarFeed(await resetCalendarFeed());
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } catch (error) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        showAlert({
+          type: "error",
+          title: "Link Not Reset",
+          message: error instanceof Error ? error.message : "Please try again.",
+        });
+      } finally {
+        setIsResettingCalendarFeed(false);
+      }
+    };
+
+    showAlert({
+      type: "confirm",
+      title: "Reset Calendar Link",
+      message: "Calendars subscribed with the current link will stop updating. You'll need to subscribe again with the new one.",
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        { text: "Reset", style: "destructive", onPress: performReset },
+      ],
+    });
+  };
+
   const toggleInterest = (interest: string) => {
     Haptics.selectionAsync();
     if (editData.interests.includes(interest)) {
@@ -272,8 +383,9 @@ export default function ProfileScreen() {
         emergencyContact: {
           name: emergencyContact.name,
           phone: emergencyContact.phone,
+          email: emergencyContact.email.trim() || undefined,
           policeHelpline: emergencyContact.policeHelpline || "911",
-        } as { name: string; phone: string; policeHelpline?: string },
+        } as { name: string; phone: string; email?: string; policeHelpline?: string },
       });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setShowSafetyModal(false);
@@ -282,6 +394,16 @@ export default function ProfileScreen() {
     }
   };
 
+  const locationPrecision = user?.locationPrecision || "approx_500m";
+  const locationPrecisionLabel =
+    LOCATION_PRECISION_OPTIONS.find((option) => option.value === locationPrecision)?.label || "Within 500 m";
+
+  const handleLocationPrecisionSelect = (value: LocationPrecision) => {
+    Haptics.selectionAsync();
+    setShowPrecisionModal(false);
+    updateProfile({ locationPrecision: value });
+  };
+
   const handleThemeColorSelect = (colorSet: { primary: string; accent: string }) => {
     Haptics.selectionAsync();
     setCustomTheme({
@@ -480,10 +602,77 @@ export default function ProfileScreen() {
                 </View>
               </View>
             ) : null}
+
+            {itineraryStops.map((stop) => (
+              <View key={stop.id || `${stop.city}-${stop.startsOn}`} style={styles.itineraryStop}>
+                <Icon name="map-pin" size={14} color={theme.textSecondary} />
+                <ThemedText type="small" style={{ flex: 1 }} numberOfLines={1}>
+                  {stop.city}
+                </ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {formatTripDateRange(stop.startsOn, stop.endsOn)}
+                </ThemedText>
+              </View>
+            ))}
+
+            {itineraryStops.length > 0 ? (
+              <View style={styles.itineraryStop}>
+                <ThemedText type="small" style={{ flex: 1, color: theme.textSecondary }}>
+                  Show overlaps with nomads who also share their route (matches always see them)
+                </ThemedText>
+                <Switch
+                  value={!!user?.activePlan?.shareOverlaps}
+                  onValueChange={handleItinerarySharing}
+                  trackColor={{ true: theme.primary }}
+                  testID="switch-share-itinerary"
+                />
+              </View>
+            ) : null}
+
+            <Pressable
+              onPress={() => setShowItineraryModal(true)}
+              style={[styles.itineraryButton, { borderColor: theme.primary }]}
+              testID="button-edit-itinerary"
+            >
+              <Icon name="calendar" size={16} color={theme.primary} />
+              <ThemedText type="small" style={{ color: theme.primary, fontWeight: "700" }}>
+                {itineraryStops.length > 0 ? "Edit Trip Itinerary" : "Plan a Multi-Stop Trip"}
+              </ThemedText>
+            </Pressable>
           </View>
         </Animated.View>
 
         <Animated.View entering={FadeInDown.delay(200).springify()}>
+          {hostReputation && hostReputation.ratingCount > 0 ? (
+            <View style={[styles.section, { backgroundColor: theme.cardBackground }, Shadows.small]}>
+              <ThemedText type="h4" style={styles.sectionTitle}>
+                Host Reputation
+              </ThemedText>
+              <HostReputationBadge reputation={hostReputation} />
+              <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: Spacing.sm }}>
+                From {hostReputation.ratedActivityCount} rated{" "}
+                {hostReputation.ratedActivityCount === 1 ? "activity" : "activities"}
+                {hostReputation.trustworthyPercentage !== null
+                  ? ` · ${hostReputation.trustworthyPercentage}% said you were trustworthy`
+                  : ""}
+              </ThemedText>
+              {hostReputation.isRepeatLowRated ? (
+                <ThemedText type="small" style={{ color: AppColors.sunsetRose, marginTop: Spacing.sm }}>
+                  Several of your activities were rated poorly, so they appear lower in activity search for now.
+                </ThemedText>
+              ) : null}
+              {hostReputation.recentReviews.map((review) => (
+                <View key={review.id} style={[styles.reviewCard, { backgroundColor: theme.backgroundSecondary }]}>
+                  <ThemedText type="small" style={{ fontWeight: "600" }}>
+                    {review.rating}/5 · {review.reviewerName}
+                    {review.activityTitle ? ` · ${review.activityTitle}` : ""}
+                  </ThemedText>
+                  {review.body ? <ThemedText type="small">{review.body}</ThemedText> : null}
+                </View>
+              ))}
+            </View>
+          ) : null}
+
           {user?.bio ? (
             <View style={[styles.section, { backgroundColor: theme.cardBackground }, Shadows.small]}>
               <ThemedText type="h4" style={styles.sectionTitle}>
@@ -595,6 +784,98 @@ export default function ProfileScreen() {
               </View>
             </Pressable>
 
+            <View style={styles.settingsRow}>
+              <View style={styles.settingsLeft}>
+                <Icon name="eye-off" size={20} color={theme.text} />
+                <ThemedText type="body" style={styles.settingsText}>
+                  Hide Last Seen
+                </ThemedText>
+              </View>
+              <Switch
+                value={!!user?.hideLastSeen}
+                onValueChange={(value) => updateProfile({ hideLastSeen: value })}
+                trackColor={{ true: theme.primary }}
+                testID="switch-hide-last-seen"
+              />
+            </View>
+
+            <Pressable
+              style={styles.settingsRow}
+              onPress={() => setShowPrecisionModal(true)}
+              testID="button-location-precision"
+            >
+              <View style={styles.settingsLeft}>
+                <Icon name="map-pin" size={20} color={theme.text} />
+                <ThemedText type="body" style={styles.settingsText}>
+                  Location Precision
+                </ThemedText>
+              </View>
+              <View style={styles.settingsRight}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {locationPrecisionLabel}
+                </ThemedText>
+                <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+              </View>
+            </Pressable>
+
+            <Pressable
+              style={styles.settingsRow}
+              onPress={handleOpenCalendarFeed}
+              testID="button-calendar-feed"
+            >
+              <View style={styles.settingsLeft}>
+                <Icon name="calendar" size={20} color={theme.text} />
+                <ThemedText type="body" style={styles.settingsText}>
+                  Calendar Feed
+                </ThemedText>
+              </View>
+              <View style={styles.settingsRight}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Subscribe
+                </ThemedText>
+                <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+              </View>
+            </Pressable>
+
+            <Pressable
+              style={styles.settingsRow}
+              onPress={() => setShowBlockedModal(true)}
+            >
+              <View style={styles.settingsLeft}>
+                <Icon name="x-circle" size={20} color={theme.text} />
+                <ThemedText type="body" style={styles.settingsText}>
+                  Blocked Users
+                </ThemedText>
+              </View>
+              <View style={styles.settingsRight}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {blockedUsers.length}
+                </ThemedText>
+                <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+              </View>
+            </Pressable>
+
+            {isModerator ? (
+              <Pressable
+                style={styles.settingsRow}
+                onPress={() => navigation.navigate("Moderation")}
+                testID="button-moderation"
+              >
+                <View style={styles.settingsLeft}>
+                  <Icon name="shield" size={20} color={theme.text} />
+                  <ThemedText type="body" style={styles.settingsText}>
+                    Moderation
+                  </ThemedText>
+                </View>
+                <View style={styles.settingsRight}>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    Review reports
+                  </ThemedText>
+                  <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+                </View>
+              </Pressable>
+            ) : null}
+
             <Pressable
               style={styles.settingsRow}
               onPress={() => setShowFeedbackModal(true)}
@@ -771,6 +1052,103 @@ export default function ProfileScreen() {
         </View>
       </Modal>
 
+      <Modal
+        visible={showBlockedModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowBlockedModal(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.backgroundRoot }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText type="h3">Blocked Users</ThemedText>
+            <Pressable onPress={() => setShowBlockedModal(false)}>
+              <Icon name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView
+            style={styles.modalScroll}
+            contentContainerStyle={styles.modalContent}
+          >
+            {blockedUsers.length === 0 ? (
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                You haven&apos;t blocked anyone.
+              </ThemedText>
+            ) : null}
+            {blockedUsers.map((blocked) => (
+              <View key={blocked.userId} style={styles.blockedRow}>
+                <Image
+                  source={blocked.photo ? { uri: blocked.photo } : require("../../assets/images/default-avatar.png")}
+                  style={styles.blockedAvatar}
+                  contentFit="cover"
+                />
+                <ThemedText type="body" style={styles.settingsText}>
+                  {blocked.name}
+                </ThemedText>
+                <Pressable
+                  style={[styles.unblockButton, { borderColor: theme.border }]}
+                  onPress={() => {
+                    unblockUser(blocked.userId).catch(() => {
+                      showAlert({ type: "error", title: "Unblock Failed", message: "Please try again." });
+                    });
+                  }}
+                >
+                  <ThemedText type="small">Unblock</ThemedText>
+                </Pressable>
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showPrecisionModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowPrecisionModal(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.backgroundRoot }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText type="h3">Location Precision</ThemedText>
+            <Pressable onPress={() => setShowPrecisionModal(false)}>
+              <Icon name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView
+            style={styles.modalScroll}
+            contentContainerStyle={styles.modalContent}
+          >
+            <ThemedText type="small" style={[styles.themeHint, { color: theme.textSecondary }]}>
+              Choose how precisely nearby nomads see you on the radar and in Discover.
+            </ThemedText>
+            {LOCATION_PRECISION_OPTIONS.map((option) => {
+              const isSelected = option.value === locationPrecision;
+              return (
+                <Pressable
+                  key={option.value}
+                  style={[
+                    styles.precisionOption,
+                    { borderColor: isSelected ? theme.primary : theme.border },
+                  ]}
+                  onPress={() => handleLocationPrecisionSelect(option.value)}
+                  testID={`button-precision-${option.value}`}
+                >
+                  <Icon name={option.icon} size={20} color={isSelected ? theme.primary : theme.text} />
+                  <View style={{ flex: 1 }}>
+                    <ThemedText type="body">{option.label}</ThemedText>
+                    <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                      {option.description}
+                    </ThemedText>
+                  </View>
+                  {isSelected ? <Icon name="check" size={20} color={theme.primary} /> : null}
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </Modal>
+
       <Modal
         visible={showFeedbackModal}
         animationType="slide"
@@ -1063,6 +1441,18 @@ export default function ProfileScreen() {
               testID="input-emergency-phone"
             />
 
+            <Input
+              label="Email (optional)"
+              placeholder="Notified if you miss a meetup check-in"
+              value={emergencyContact.email}
+              onChangeText={(text) => setEmergencyContact({ ...emergencyContact, email: text })}
+              icon="mail"
+              keyboardType="email-address"
+              autoCapitalize="none"
+              containerStyle={styles.modalInput}
+              testID="input-emergency-email"
+            />
+
             <ThemedText type="h4" style={[styles.label, { marginTop: Spacing.xl }]}>
               Police Helpline
             </ThemedText>
@@ -1104,6 +1494,25 @@ export default function ProfileScreen() {
         onRemovePhoto={handleRemovePhoto}
         hasExistingPhoto={user?.photos && user.photos.length > 0}
       />
+
+      <CalendarFeedModal
+        visible={showCalendarFeedModal}
+        feed={calendarFeed}
+        isLoading={isLoadingCalendarFeed}
+        isResetting={isResettingCalendarFeed}
+        onClose={() => setShowCalendarFeedModal(false)}
+        onSubscribe={handleSubscribeCalendarFeed}
+        onShare={handleShareCalendarFeed}
+        onReset={handleResetCalendarFeed}
+      />
+
+      <TripItineraryModal
+        visible={showItineraryModal}
+        stops={itineraryStops}
+        isSaving={isSavingItinerary}
+        onClose={() => setShowItineraryModal(false)}
+        onSave={handleSaveItinerary}
+      />
     </View>
   );
 }
@@ -1225,6 +1634,12 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.lg,
     marginBottom: Spacing.lg,
   },
+  reviewCard: {
+    marginTop: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.xs,
+  },
   sectionTitle: {
     marginBottom: Spacing.md,
   },
@@ -1296,6 +1711,32 @@ const styles = StyleSheet.create({
   modalInput: {
     marginBottom: Spacing.lg,
   },
+  precisionOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+  },
+  blockedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+  },
+  blockedAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+  },
+  unblockButton: {
+    marginLeft: "auto",
+    borderWidth: 1,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
   label: {
     marginBottom: Spacing.sm,
     fontWeight: "500",
@@ -1458,4 +1899,21 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.md,
     marginTop: Spacing.xs,
   },
+  itineraryStop: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  itineraryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginTop: Spacing.md,
+  },
 });
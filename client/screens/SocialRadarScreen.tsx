@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import {
   StyleSheet,
   View,
@@ -34,10 +34,13 @@ import * as Haptics from "expo-haptics";
 import * as Location from "expo-location";
 
 import { ThemedText } from "@/components/ThemedText";
+import RadarVisibilityModal, { DEFAULT_RADAR_VISIBILITY_RULES, isGhostActive } from "@/components/RadarVisibilityModal";
 import { useAuth } from "@/context/AuthContext";
+import { useData } from "@/context/DataContext";
 import { useSubscription } from "@/context/SubscriptionContext";
 import { getApiUrl } from "@/lib/query-client";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { RadarVisibilityRules } from "@/types";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 const RADAR_SIZE = Math.min(SCREEN_WIDTH - 48, 300);
@@ -46,8 +49,9 @@ const RADAR_CACHE_PREFIX = "@nomad_radar_cache_";
 
 interface NearbyUser {
   userId: string;
-  lat: number;
-  lng: number;
+  // Already fuzzed to the user's chosen precision; null when they only share their city
+  lat: number | null;
+  lng: number | null;
   distance: number;
   name: string;
   age?: number;
@@ -236,6 +240,7 @@ export default function SocialRadarScreen() {
   const insets = useSafeAreaInsets();
   const { user, session } = useAuth();
   const { tier } = useSubscription();
+  const { getRadarVisibilityRules, saveRadarVisibilityRules, setGhostMode } = useData();
   const navigation = useNavigation<any>();
 
   const [scanning, setScanning] = useState(false);
@@ -250,6 +255,12 @@ export default function SocialRadarScreen() {
   const [sendingRequest, setSendingRequest] = useState(false);
   const [requestSent, setRequestSent] = useState<Set<string>>(new Set());
   const [activeTab, setActiveTab] = useState<"people" | "activities">("people");
+  const [visibilityRules, setVisibilityRules] = useState<RadarVisibilityRules>(DEFAULT_RADAR_VISIBILITY_RULES);
+  const [showVisibilityModal, setShowVisibilityModal] = useState(false);
+  const [savingVisibility, setSavingVisibility] = useState(false);
+
+  const getRadarVisibilityRulesRef = useRef(getRadarVisibilityRules);
+  getRadarVisibilityRulesRef.current = getRadarVisibilityRules;
 
   const sweepRotation = useSharedValue(0);
   const centerPulse = useSharedValue(1);
@@ -298,6 +309,34 @@ export default function SocialRadarScreen() {
     loadCachedScan();
   }, [user?.id]);
 
+  useEffect(() => {
+    if (!user?.id) return;
+    getRadarVisibilityRulesRef.current()
+      .then(setVisibilityRules)
+      .catch(() => {});
+  }, [user?.id]);
+
+  const handleSaveVisibilityRules = async (rules: RadarVisibilityRules) => {
+    setSavingVisibility(true);
+    try {
+      setVisibilityRules(await saveRadarVisibilityRules(rules));
+      setShowVisibilityModal(false);
+    } catch (error: any) {
+      Alert.alert("Couldn't Save", error?.message || "Please try again.");
+    } finally {
+      setSavingVisibility(false);
+    }
+  };
+
+  const handleGhostChange = async (enabled: boolean) => {
+    try {
+      const ghostUntil = await setGhostMode(enabled);
+      setVisibilityRules((prev) => ({ ...prev, ghostUntil }));
+    } catch (error: any) {
+      Alert.alert("Ghost Mode", error?.message || "Please try again.");
+    }
+  };
+
   const persistScanCache = async (payload: { users: NearbyUser[]; activities: NearbyActivity[]; scansUsed: number; scansLimit: number }) => {
     if (!user?.id) return;
     try {
@@ -521,6 +560,17 @@ export default function SocialRadarScreen() {
           <Ionicons name="radio" size={16} color="#00E676" />
           <ThemedText style={styles.headerTitle}>Social Radar</ThemedText>
         </View>
+        <Pressable
+          onPress={() => setShowVisibilityModal(true)}
+          style={[styles.backBtn, styles.visibilityBtn]}
+          testID="button-radar-visibility"
+        >
+          <Ionicons
+            name={isGhostActive(visibilityRules) ? "eye-off" : "eye-outline"}
+            size={20}
+            color={isGhostActive(visibilityRules) ? RADAR_GREEN : "rgba(255,255,255,0.8)"}
+          />
+        </Pressable>
         <View style={styles.scanBadge}>
           <ThemedText style={styles.scanBadgeText}>
             {scansLimit === -1 ? `${scansUsed}` : `${scansUsed}/${scansLimit}`}
@@ -828,6 +878,15 @@ export default function SocialRadarScreen() {
           </View>
         </Animated.View>
       )}
+
+      <RadarVisibilityModal
+        visible={showVisibilityModal}
+        rules={visibilityRules}
+        isSaving={savingVisibility}
+        onClose={() => setShowVisibilityModal(false)}
+        onSave={handleSaveVisibilityRules}
+        onGhostChange={handleGhostChange}
+      />
     </View>
   );
 }
@@ -872,6 +931,9 @@ const styles = StyleSheet.create({
     fontSize: 17,
     fontWeight: "700" as const,
   },
+  visibilityBtn: {
+    marginRight: 8,
+  },
   scanBadge: {
     backgroundColor: "rgba(0,230,118,0.15)",
     borderRadius: 10,
@@ -14,6 +14,17 @@ export type IntentMode =
   | "adventure_partner"
   | "deep_talk";
 
+// How precisely other nomads see where you are; the server fuzzes coordinates before sending them
+export type LocationPrecision = "exact" | "approx_500m" | "approx_5km" | "city";
+
+// One leg of a planned trip; dates are whole days (YYYY-MM-DD), both ends inclusive
+export interface TripStop {
+  id?: string;
+  city: string;
+  startsOn: string;
+  endsOn: string;
+}
+
 export interface PlanCard {
   id: string;
   title: string;
@@ -21,6 +32,21 @@ export interface PlanCard {
   startsAt?: string;
   expiresAt?: string;
   isActive?: boolean;
+  // Lets nomads outside your matches see where your route overlaps theirs; they must share theirs too
+  shareOverlaps?: boolean;
+  stops?: TripStop[];
+}
+
+// The days two itineraries share in one city
+export interface TripOverlap {
+  city: string;
+  startsOn: string;
+  endsOn: string;
+}
+
+export interface TripOverlapMatch {
+  user: User;
+  overlaps: TripOverlap[];
 }
 
 export interface User {
@@ -42,9 +68,12 @@ export interface User {
   emergencyContact?: {
     name: string;
     phone: string;
+    email?: string;
   };
   isTravelVerified?: boolean;
   travelBadge?: TravelBadge;
+  hideLastSeen?: boolean;
+  locationPrecision?: LocationPrecision;
   createdAt: string;
 }
 
@@ -69,6 +98,12 @@ export interface Match {
   unreadCount?: number;
 }
 
+export interface Presence {
+  userId: string;
+  isOnline: boolean;
+  lastSeenAt?: string | null;
+}
+
 export type MessageStatus = "sent" | "delivered" | "read";
 export type ChatMessageType = "text" | "photo" | "location" | "file" | "audio";
 
@@ -100,6 +135,109 @@ export interface Message {
   editedAt?: string;
 }
 
+export interface MessageSearchResult {
+  kind: "match" | "activity";
+  conversationId: string;
+  messageId: string;
+  senderId: string;
+  type: ChatMessageType;
+  content: string;
+  fileName?: string;
+  locationName?: string;
+  createdAt: string;
+}
+
+export type ReportReason =
+  | "harassment"
+  | "spam"
+  | "scam"
+  | "inappropriate_content"
+  | "fake_profile"
+  | "underage"
+  | "safety_concern"
+  | "other";
+
+export interface BlockedUser {
+  userId: string;
+  name: string;
+  photo?: string | null;
+  blockedAt: string;
+}
+
+export interface LocationShare {
+  id: string;
+  sharerId: string;
+  sharerName?: string | null;
+  matchId?: string | null;
+  viewerUserId?: string | null;
+  contactName?: string | null;
+  token?: string;
+  status: "active" | "expired" | "ended";
+  startedAt: string;
+  expiresAt: string;
+  endedAt?: string | null;
+  location: { latitude: number; longitude: number; accuracy?: number | null } | null;
+  updatedAt?: string | null;
+  viewUrl?: string;
+}
+
+export type UserRole = "user" | "moderator" | "admin";
+
+export type ReportStatus = "open" | "actioned" | "dismissed";
+
+export type ModerationActionType = "warn" | "suspend" | "ban" | "dismiss" | "reinstate" | "role_change";
+
+export interface ModerationReport {
+  id: string;
+  reporterId: string;
+  reporterName?: string | null;
+  reportedUserId: string;
+  reportedUserName?: string | null;
+  reportedUserPhoto?: string | null;
+  reason: ReportReason;
+  details?: string | null;
+  messageIds: string[];
+  evidenceIds: string[];
+  status: ReportStatus;
+  priorReportCount?: number;
+  resolvedBy?: string | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+}
+
+export interface ModerationAction {
+  id: string;
+  reportId?: string | null;
+  targetUserId: string;
+  moderatorId: string;
+  moderatorName?: string | null;
+  action: ModerationActionType;
+  note?: string | null;
+  expiresAt?: string | null;
+  createdAt: string;
+}
+
+export interface ModerationReportDetail {
+  report: ModerationReport;
+  reportedUser: {
+    id: string;
+    name: string;
+    email?: string | null;
+    age?: number | null;
+    bio: string;
+    location: string;
+    photos: string[];
+    interests: string[];
+    role: UserRole;
+    accountStatus: "active" | "suspended" | "banned";
+    suspendedUntil?: string | null;
+    createdAt: string;
+  } | null;
+  messages: MessageSearchResult[];
+  priorReports: ModerationReport[];
+  actions: ModerationAction[];
+}
+
 export interface ActivityLocation {
   name: string;
   latitude: number;
@@ -116,18 +254,128 @@ export interface Activity {
   latitude?: number;
   longitude?: number;
   date: string;
+  // Set when the activity has a known end; multi-day events span every day up to it
+  endDate?: string;
   startTime?: string;
   duration?: number;
+  seriesId?: string;
+  recurrenceLabel?: string;
+  // Kilometres from the point a search was made around
+  distanceKm?: number;
+  hostReputation?: HostReputation;
+  // Set on search results; passing the last one back continues the list after it
+  cursor?: string;
   hostId: string;
   host: User;
   attendeeIds: string[];
   attendees: User[];
+  waitlistIds?: string[];
+  waitlist?: User[];
   maxAttendees?: number;
   imageUrl?: string;
   isCompleted?: boolean;
   createdAt: string;
 }
 
+export type ActivitySort = "soonest" | "nearest" | "popular";
+
+// Everything is optional; near is required for the nearest sort and for radiusKm
+export interface ActivitySearchFilters {
+  query?: string;
+  categories?: string[];
+  from?: string;
+  to?: string;
+  near?: { lat: number; lng: number } | null;
+  radiusKm?: number | null;
+  hasSpots?: boolean;
+  verifiedHosts?: boolean;
+  groupSeries?: boolean;
+  sort?: ActivitySort;
+}
+
+// The first occurrence is always the activity's own date; count and until bound the generated ones
+export type ActivityRecurrence =
+  | { type: "weekly"; weekdays: number[]; count?: number; until?: string }
+  | { type: "interval"; everyDays: number; count?: number; until?: string }
+  | { type: "dates"; dates: string[] };
+
+export type ActivityJoinResult =
+  | { status: "attending" | "hosting" }
+  | { status: "waitlisted"; waitlistPosition: number };
+
+export interface ActivityUpdate {
+  title?: string;
+  description?: string;
+  type?: Activity["type"];
+  date?: string;
+  location?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  maxAttendees?: number | null;
+  imageUrl?: string | null;
+}
+
+export interface ActivityEdit {
+  id: string;
+  activityId: string;
+  editedBy: string;
+  editedByName: string;
+  changes: { field: string; from: unknown; to: unknown }[];
+  summary: string;
+  createdAt: string;
+}
+
+// Verified attendance; "host" rows credit the host once the first attendee has checked in
+export interface ActivityCheckIn {
+  activityId: string;
+  userId: string;
+  method: "qr" | "host";
+  checkedInAt: string;
+}
+
+// The code rotates at expiresAt; payload is what the QR encodes
+export interface ActivityCheckInCode {
+  code: string;
+  payload: string;
+  expiresAt: string;
+  closesAt: string;
+}
+
+// Subscription link for calendar apps; webcalUrl is the same feed with the scheme they open directly
+export interface CalendarFeed {
+  url: string;
+  webcalUrl: string;
+}
+
+// Built from safety ratings and reviews across all of a host's activities; score is null until someone rates them
+export interface HostReputation {
+  hostId: string;
+  score: number | null;
+  ratingCount: number;
+  reviewCount: number;
+  averageSafetyScore: number | null;
+  trustworthyPercentage: number | null;
+  ratedActivityCount: number;
+  lowRatedActivityCount: number;
+  isRepeatLowRated: boolean;
+}
+
+export interface ActivityReview {
+  id: string;
+  activityId: string;
+  activityTitle?: string;
+  hostId: string;
+  reviewerId: string;
+  reviewerName: string;
+  rating: number;
+  body: string;
+  createdAt: string;
+}
+
+export interface HostReputationDetail extends HostReputation {
+  recentReviews: ActivityReview[];
+}
+
 export interface SafetyRating {
   id: string;
   activityId: string;
@@ -160,9 +408,76 @@ export interface ForumComment {
   createdAt: string;
 }
 
+export interface DiscoverScoreBreakdown {
+  interests: number;
+  style: number;
+  distance: number;
+  trust: number;
+  intent: number;
+  recency: number;
+}
+
 export interface SwipeCard {
   user: User;
   distance?: number;
+  score?: number;
+  // Opaque; passed back to fetch the page after this card
+  cursor?: string;
+  scoreBreakdown?: DiscoverScoreBreakdown;
+  superLikedYou?: boolean;
+  tripOverlaps?: TripOverlap[];
+}
+
+export type SwipeDirection = "left" | "right" | "super";
+
+// Usage over the last 24 hours; a limit of -1 means unlimited
+export interface SwipeQuota {
+  tier: string;
+  superLikes: { limit: number; used: number };
+  rewinds: { limit: number; used: number };
+}
+
+// Persisted per user and applied server-side; maxDistanceKm null means any distance
+export interface DiscoverPreferences {
+  minAge: number;
+  maxAge: number;
+  maxDistanceKm: number | null;
+  intentModes: IntentMode[];
+  verifiedOnly: boolean;
+  lookingFor: LookingForType[];
+  vanTypes: string[];
+}
+
+export interface RadarHomeBase {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+// Rules on top of the radar switch; the server applies them to radar, discover and serendipity
+export interface RadarVisibilityRules {
+  hideAtNight: boolean;
+  nightStartHour: number;
+  nightEndHour: number;
+  timeZone: string;
+  homeBase: RadarHomeBase | null;
+  matchesOnly: boolean;
+  verifiedOnly: boolean;
+  ghostUntil: string | null;
+}
+
+// One geohash cell of the nomad density overlay; counts are already rounded down to a multiple of minCellUsers
+export interface HeatmapCell {
+  geohash: string;
+  count: number;
+  bounds: { south: number; west: number; north: number; east: number };
+}
+
+export interface RadarHeatmap {
+  radiusKm: number;
+  precision: number;
+  minCellUsers: number;
+  cells: HeatmapCell[];
 }
 
 // Activity Group Chat Types
@@ -220,6 +535,8 @@ export interface ActivityChatMember {
   joinedAt: string;
 }
 
+export type SOSIncidentStatus = "open" | "acknowledged" | "responding" | "resolved" | "false_alarm";
+
 export interface SOSIncident {
   id: string;
   userId: string;
@@ -231,8 +548,74 @@ export interface SOSIncident {
   emergencyContact?: {
     name: string;
     phone: string;
+    email?: string;
   };
   timestamp: string;
+  status: SOSIncidentStatus;
   resolved: boolean;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
+  updatedAt: string | null;
   notes?: string;
+  role?: "reporter" | "responder";
+}
+
+export interface SOSIncidentEvent {
+  id: string;
+  incidentId: string;
+  actorId: string;
+  type: SOSIncidentStatus | "created" | "location" | "note" | "responder_joined" | "responder_left";
+  location: { latitude: number; longitude: number } | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface SOSResponder {
+  incidentId: string;
+  userId: string;
+  relation: "trusted_contact" | "nearby";
+  status: "invited" | "accepted" | "declined";
+  invitedAt: string;
+  respondedAt: string | null;
+}
+
+export interface SOSInvitation {
+  incidentId: string;
+  userName: string;
+  relation: SOSResponder["relation"];
+  createdAt: string;
+}
+
+export interface SOSTrustedContact {
+  userId: string;
+  name: string | null;
+  photo: string | null;
+  addedAt: string;
+}
+
+export interface Meetup {
+  id: string;
+  userAId: string;
+  userBId: string;
+  venueName: string | null;
+  venueAddress: string | null;
+  status: "planned" | "in_progress" | "completed" | "cancelled";
+  scheduledAt: string | null;
+  startedAt: string | null;
+}
+
+export type MeetupCheckInStatus = "active" | "safe" | "escalated";
+
+export interface MeetupCheckIn {
+  id: string;
+  meetupId: string;
+  userId: string;
+  status: MeetupCheckInStatus;
+  startedAt: string;
+  expectedEndAt: string;
+  // The emergency contact is alerted if "I'm safe" hasn't been tapped by then
+  escalatesAt: string;
+  confirmedAt: string | null;
+  escalatedAt: string | null;
+  incidentId: string | null;
 }
@@ -285,3 +285,491 @@ CREATE TABLE IF NOT EXISTS forum_posts (
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
+
+-- Presence: last time each user's realtime connection closed
+CREATE TABLE IF NOT EXISTS user_presence (
+  user_id TEXT PRIMARY KEY,
+  last_seen_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS hide_last_seen BOOLEAN DEFAULT false;
+
+-- Per-user delivered/read watermarks for each match
+CREATE TABLE IF NOT EXISTS chat_read_states (
+  match_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  delivered_up_to TIMESTAMPTZ,
+  read_up_to TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (match_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_match_created ON chat_messages(match_id, created_at, id);
+
+-- Keyset pagination over chat history
+CREATE INDEX IF NOT EXISTS idx_activity_messages_activity_created ON activity_chat_messages(activity_id, created_at, id);
+
+-- Blocks hide both users from each other and stop messaging in either direction
+CREATE TABLE IF NOT EXISTS user_blocks (
+  blocker_id TEXT NOT NULL,
+  blocked_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (blocker_id, blocked_id)
+);
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);
+
+-- User reports awaiting review
+CREATE TABLE IF NOT EXISTS user_reports (
+  id TEXT PRIMARY KEY,
+  reporter_id TEXT NOT NULL,
+  reported_user_id TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  details TEXT,
+  message_ids JSONB DEFAULT '[]'::jsonb,
+  evidence_ids JSONB DEFAULT '[]'::jsonb,
+  status TEXT DEFAULT 'open',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_user_reports_reported ON user_reports(reported_user_id, created_at DESC);
+
+-- Time-boxed live location shares with a match or an emergency contact link
+CREATE TABLE IF NOT EXISTS location_shares (
+  id TEXT PRIMARY KEY,
+  sharer_id TEXT NOT NULL,
+  match_id TEXT,
+  viewer_user_id TEXT,
+  contact_name TEXT,
+  token TEXT UNIQUE NOT NULL,
+  status TEXT DEFAULT 'active',
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ,
+  last_lat DOUBLE PRECISION,
+  last_lng DOUBLE PRECISION,
+  last_accuracy DOUBLE PRECISION,
+  last_updated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_location_shares_sharer ON location_shares(sharer_id, status);
+CREATE INDEX IF NOT EXISTS idx_location_shares_viewer ON location_shares(viewer_user_id, status);
+
+-- SOS incident lifecycle: open -> acknowledged -> responding -> resolved / false_alarm
+ALTER TABLE sos_incidents ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'open';
+ALTER TABLE sos_incidents ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMPTZ;
+ALTER TABLE sos_incidents ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+ALTER TABLE sos_incidents ADD COLUMN IF NOT EXISTS resolved_by TEXT;
+ALTER TABLE sos_incidents ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- SOS incident timeline (status changes, location updates, notes, responders joining)
+CREATE TABLE IF NOT EXISTS sos_incident_events (
+  id TEXT PRIMARY KEY,
+  incident_id TEXT NOT NULL,
+  actor_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_sos_incident_events_incident ON sos_incident_events(incident_id, created_at);
+
+-- Trusted contacts and nearby verified users invited to respond to an incident
+CREATE TABLE IF NOT EXISTS sos_responders (
+  id TEXT PRIMARY KEY,
+  incident_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  relation TEXT NOT NULL,
+  status TEXT DEFAULT 'invited',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  responded_at TIMESTAMPTZ,
+  UNIQUE (incident_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_sos_responders_user ON sos_responders(user_id, status);
+
+-- Matches a user trusts to be invited as responders when they raise an SOS
+CREATE TABLE IF NOT EXISTS sos_trusted_contacts (
+  user_id TEXT NOT NULL,
+  contact_user_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, contact_user_id)
+);
+
+-- What a user is looking for, used by discover filters
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS looking_for JSONB DEFAULT '[]'::jsonb;
+
+-- Persisted discover filters; a missing row means no filters
+CREATE TABLE IF NOT EXISTS discover_preferences (
+  user_id TEXT PRIMARY KEY,
+  min_age INTEGER NOT NULL DEFAULT 18,
+  max_age INTEGER NOT NULL DEFAULT 99,
+  max_distance_km INTEGER,
+  intent_modes JSONB DEFAULT '[]'::jsonb,
+  verified_only BOOLEAN DEFAULT false,
+  looking_for JSONB DEFAULT '[]'::jsonb,
+  van_types JSONB DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Every swipe in order, so the latest one can be rewound along with any match it created
+CREATE TABLE IF NOT EXISTS swipe_history (
+  id TEXT PRIMARY KEY,
+  swiper_id TEXT NOT NULL,
+  swiped_id TEXT NOT NULL,
+  direction TEXT NOT NULL,
+  previous_direction TEXT,
+  match_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  undone_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_swipe_history_swiper ON swipe_history(swiper_id, created_at DESC);
+
+-- Geohash (precision 9, "C" collation) for prefix range queries on nearby users and activities
+ALTER TABLE user_locations ADD COLUMN IF NOT EXISTS geohash TEXT COLLATE "C";
+CREATE INDEX IF NOT EXISTS idx_user_locations_geohash ON user_locations(geohash, updated_at);
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS geohash TEXT COLLATE "C";
+CREATE INDEX IF NOT EXISTS idx_activities_geohash ON activities(geohash, date);
+
+-- How precisely other users see this user's location on the radar and discover cards
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS location_precision TEXT DEFAULT 'approx_500m';
+
+-- Radar visibility rules layered on is_visible_on_radar; missing rows mean no extra rules
+CREATE TABLE IF NOT EXISTS radar_visibility_rules (
+  user_id TEXT PRIMARY KEY,
+  hide_at_night BOOLEAN DEFAULT false,
+  night_start_hour INTEGER NOT NULL DEFAULT 22,
+  night_end_hour INTEGER NOT NULL DEFAULT 7,
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  home_base_lat DOUBLE PRECISION,
+  home_base_lng DOUBLE PRECISION,
+  home_base_radius_km DOUBLE PRECISION,
+  matches_only BOOLEAN DEFAULT false,
+  verified_only BOOLEAN DEFAULT false,
+  ghost_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Edits made to an activity by its host or moderators, with the field-by-field changes
+CREATE TABLE IF NOT EXISTS activity_edits (
+  id TEXT PRIMARY KEY,
+  activity_id TEXT NOT NULL,
+  edited_by TEXT NOT NULL,
+  edited_by_name TEXT DEFAULT '',
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  summary TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_activity_edits_activity ON activity_edits(activity_id, created_at DESC);
+
+-- Activity capacity: a numeric spot limit, a first-come waitlist, and a version bumped on every roster change
+-- Old free-text limits that aren't a plain whole number ("10 people", "") become NULL, meaning no limit
+DO $$
+BEGIN
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'activities' AND column_name = 'max_attendees') <> 'integer' THEN
+    ALTER TABLE activities ALTER COLUMN max_attendees TYPE INTEGER
+      USING CASE WHEN max_attendees::text ~ '^\s*\d{1,9}\s*$' THEN TRIM(max_attendees::text)::integer ELSE NULL END;
+  END IF;
+END;
+$$;
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS waitlist_ids JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS waitlist_data JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS roster_version INTEGER NOT NULL DEFAULT 0;
+
+-- Recurring activities: a series holds the rule, each occurrence is an activities row with its own attendees
+CREATE TABLE IF NOT EXISTS activity_series (
+  id TEXT PRIMARY KEY,
+  host_id TEXT NOT NULL,
+  recurrence JSONB NOT NULL,
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS series_id TEXT;
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS end_date TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_activities_series ON activities(series_id, date);
+
+-- Per-user secret for the iCal subscription URL; resetting the feed replaces the token
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id TEXT PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+-- Consultations only appear in calendar feeds once they have a time
+ALTER TABLE consultation_bookings ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ;
+-- Calendar feeds send revision as the event's SEQUENCE and updated_at as its LAST-MODIFIED. Bookings have no edit
+-- route and are rescheduled or cancelled straight in the table, so a trigger keeps both current for every writer
+ALTER TABLE consultation_bookings ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE consultation_bookings ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION bump_consultation_revision()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  IF NEW.scheduled_at IS DISTINCT FROM OLD.scheduled_at
+    OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.notes IS DISTINCT FROM OLD.notes THEN
+    NEW.revision := OLD.revision + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS consultation_bookings_revision ON consultation_bookings;
+CREATE TRIGGER consultation_bookings_revision
+  BEFORE UPDATE ON consultation_bookings
+  FOR EACH ROW EXECUTE FUNCTION bump_consultation_revision();
+
+-- Verified attendance: one row per person who checked in with the host's rotating QR code
+CREATE TABLE IF NOT EXISTS activity_check_ins (
+  activity_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  method TEXT NOT NULL DEFAULT 'qr',
+  checked_in_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (activity_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_activity_check_ins_user ON activity_check_ins(user_id);
+
+-- Per-activity secret the check-in codes are derived from; never sent to clients
+CREATE TABLE IF NOT EXISTS activity_check_in_secrets (
+  activity_id TEXT PRIMARY KEY,
+  secret TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Post-activity reviews; together with safety_ratings they make up a host's reputation
+CREATE TABLE IF NOT EXISTS activity_reviews (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  activity_id TEXT NOT NULL,
+  host_id TEXT NOT NULL,
+  reviewer_id TEXT NOT NULL,
+  reviewer_name TEXT,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  body TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (activity_id, reviewer_id)
+);
+CREATE INDEX IF NOT EXISTS idx_activity_reviews_host ON activity_reviews(host_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_safety_ratings_activity ON safety_ratings(activity_id);
+CREATE INDEX IF NOT EXISTS idx_activities_host ON activities(host_id);
+
+-- Subscription tier as last reported by the RevenueCat webhook; swipe quotas are read from here
+CREATE TABLE IF NOT EXISTS user_subscriptions (
+  user_id TEXT PRIMARY KEY,
+  tier TEXT NOT NULL DEFAULT 'starter',
+  expires_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+-- Time of the RevenueCat event the row reflects, so late deliveries of older events are ignored
+ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS event_at TIMESTAMPTZ;
+
+-- Check a swipe quota and use it up under a per-user lock, so parallel requests can't both take the last slot.
+-- Same definitions as SWIPE_QUOTA_FUNCTIONS_SQL in server/routes.ts; a limit of -1 means unlimited
+CREATE OR REPLACE FUNCTION claim_super_like(p_id TEXT, p_swiper_id TEXT, p_swiped_id TEXT, p_limit INTEGER, p_since TIMESTAMPTZ, p_now TIMESTAMPTZ)
+RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('swipe_quota:' || p_swiper_id));
+  IF p_limit <> -1 AND (
+    SELECT COUNT(*) FROM swipe_history
+    WHERE swiper_id = p_swiper_id AND direction = 'super' AND created_at >= p_since
+  ) >= p_limit THEN
+    RETURN FALSE;
+  END IF;
+  INSERT INTO swipe_history (id, swiper_id, swiped_id, direction, created_at)
+  VALUES (p_id, p_swiper_id, p_swiped_id, 'super', p_now);
+  RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_rewind(p_history_id TEXT, p_swiper_id TEXT, p_limit INTEGER, p_since TIMESTAMPTZ, p_now TIMESTAMPTZ)
+RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('swipe_quota:' || p_swiper_id));
+  IF p_limit <> -1 AND (
+    SELECT COUNT(*) FROM swipe_history WHERE swiper_id = p_swiper_id AND undone_at >= p_since
+  ) >= p_limit THEN
+    RETURN FALSE;
+  END IF;
+  UPDATE swipe_history SET undone_at = p_now
+  WHERE id = p_history_id AND swiper_id = p_swiper_id AND undone_at IS NULL;
+  RETURN FOUND;
+END;
+$$;
+
+-- Who may rate or review an activity, and whose ratings count towards the host's reputation: a QR check-in, or a
+-- spot on the attendee list taken before the activity started. hasVerifiedAttendance in server/routes.ts calls this
+CREATE OR REPLACE FUNCTION activity_attendance_verified(p_activity_id TEXT, p_user_id TEXT)
+RETURNS BOOLEAN LANGUAGE sql STABLE AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM activity_check_ins c WHERE c.activity_id = p_activity_id AND c.user_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1
+    FROM activities a
+    CROSS JOIN jsonb_array_elements(COALESCE(a.attendees_data, '[]'::jsonb)) AS entry
+    WHERE a.id = p_activity_id
+      AND COALESCE(a.attendee_ids, '[]'::jsonb) ? p_user_id
+      AND entry->>'id' = p_user_id
+      AND CASE WHEN entry->>'joinedAt' ~ '^\d{4}-\d{2}-\d{2}T' THEN (entry->>'joinedAt')::timestamptz END < a.date
+  );
+$$;
+
+-- Per-host totals behind a host's reputation, as loadHostReputations in server/routes.ts reports them. Safety ratings
+-- count when activity_attendance_verified holds for the rater; review ratings were checked against it when written.
+-- An activity averaging below p_low_rating is low rated, and p_repeat_low_rated of those plus an overall score below
+-- it mark a repeat offender
+CREATE OR REPLACE FUNCTION host_reputation_stats(p_host_ids TEXT[], p_low_rating NUMERIC, p_repeat_low_rated INTEGER)
+RETURNS TABLE (
+  host_id TEXT,
+  score_sum BIGINT,
+  score_count BIGINT,
+  review_count BIGINT,
+  safety_sum BIGINT,
+  safety_count BIGINT,
+  trustworthy_count BIGINT,
+  rated_activity_count BIGINT,
+  low_rated_activity_count BIGINT,
+  is_repeat_low_rated BOOLEAN
+)
+LANGUAGE sql STABLE AS $$
+  WITH safety AS (
+    SELECT a.host_id AS rated_host_id, s.activity_id, s.safety_score AS score, s.host_was_trustworthy
+    FROM safety_ratings s
+    JOIN activities a ON a.id = s.activity_id
+    WHERE a.host_id = ANY(p_host_ids)
+      AND s.safety_score BETWEEN 1 AND 5
+      AND activity_attendance_verified(s.activity_id, s.rated_by_user_id)
+  ),
+  reviews AS (
+    SELECT r.host_id AS rated_host_id, r.activity_id, r.rating AS score
+    FROM activity_reviews r
+    WHERE r.host_id = ANY(p_host_ids) AND r.rating BETWEEN 1 AND 5
+  ),
+  per_activity AS (
+    SELECT scores.rated_host_id, scores.activity_id, SUM(scores.score) AS total, COUNT(*) AS count
+    FROM (
+      SELECT sf.rated_host_id, sf.activity_id, sf.score FROM safety sf
+      UNION ALL
+      SELECT rv.rated_host_id, rv.activity_id, rv.score FROM reviews rv
+    ) scores
+    GROUP BY scores.rated_host_id, scores.activity_id
+  ),
+  per_host AS (
+    SELECT pa.rated_host_id,
+      SUM(pa.total) AS score_sum,
+      SUM(pa.count) AS score_count,
+      COUNT(*) AS rated_activity_count,
+      COUNT(*) FILTER (WHERE pa.total::numeric / pa.count < p_low_rating) AS low_rated_activity_count
+    FROM per_activity pa
+    GROUP BY pa.rated_host_id
+  )
+  SELECT h.id,
+    COALESCE(ph.score_sum, 0)::bigint,
+    COALESCE(ph.score_count, 0)::bigint,
+    (SELECT COUNT(*) FROM reviews rv WHERE rv.rated_host_id = h.id),
+    (SELECT COALESCE(SUM(sf.score), 0) FROM safety sf WHERE sf.rated_host_id = h.id)::bigint,
+    (SELECT COUNT(*) FROM safety sf WHERE sf.rated_host_id = h.id),
+    (SELECT COUNT(*) FROM safety sf WHERE sf.rated_host_id = h.id AND sf.host_was_trustworthy),
+    COALESCE(ph.rated_activity_count, 0),
+    COALESCE(ph.low_rated_activity_count, 0),
+    COALESCE(ph.low_rated_activity_count, 0) >= p_repeat_low_rated
+      AND COALESCE(ph.score_count, 0) > 0
+      AND ROUND(ph.score_sum::numeric / ph.score_count, 1) < p_low_rating
+  FROM (SELECT DISTINCT unnest(p_host_ids) AS id) h
+  LEFT JOIN per_host ph ON ph.rated_host_id = h.id;
+$$;
+
+-- Activity search behind GET /api/activities (searchActivities in server/routes.ts). Filters, the distance, the
+-- repeat-low-rated host tier, the ordering and the keyset cursor all run here, so only the requested page is returned.
+-- p_cells_from/p_cells_to are the geohash ranges covering the search circle; the exact radius is checked as well
+CREATE OR REPLACE FUNCTION search_activities(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_categories TEXT[],
+  p_text TEXT,
+  p_cells_from TEXT[],
+  p_cells_to TEXT[],
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION,
+  p_has_spots BOOLEAN,
+  p_verified_hosts BOOLEAN,
+  p_group_series BOOLEAN,
+  p_sort TEXT,
+  p_cursor_tier INTEGER,
+  p_cursor_value DOUBLE PRECISION,
+  p_cursor_id TEXT,
+  p_limit INTEGER,
+  p_low_rating NUMERIC,
+  p_repeat_low_rated INTEGER
+)
+RETURNS TABLE (activity JSONB, distance_km DOUBLE PRECISION, tier INTEGER, sort_value DOUBLE PRECISION)
+LANGUAGE sql STABLE AS $$
+  WITH located AS (
+    SELECT a.*,
+      CASE WHEN p_lat IS NOT NULL AND p_lng IS NOT NULL
+        AND a.latitude ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' AND a.longitude ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$'
+      THEN ROUND((2 * 6371 * ASIN(SQRT(
+        POWER(SIN(RADIANS(a.latitude::double precision - p_lat) / 2), 2) +
+        COS(RADIANS(p_lat)) * COS(RADIANS(a.latitude::double precision)) *
+        POWER(SIN(RADIANS(a.longitude::double precision - p_lng) / 2), 2)
+      )))::numeric, 1)::double precision END AS search_distance_km
+    FROM activities a
+    -- Multi-day events stay listed until they end, not just until they start
+    WHERE (a.date >= p_from OR a.end_date >= p_from)
+      AND (p_to IS NULL OR a.date <= p_to)
+      AND (COALESCE(cardinality(p_categories), 0) = 0 OR a.category = ANY(p_categories))
+      AND (COALESCE(p_text, '') = ''
+        OR a.title ILIKE '%' || p_text || '%'
+        OR a.description ILIKE '%' || p_text || '%'
+        OR a.location ILIKE '%' || p_text || '%')
+      AND (p_cells_from IS NULL OR EXISTS (
+        SELECT 1 FROM unnest(p_cells_from, p_cells_to) AS cell(range_from, range_to)
+        WHERE a.geohash >= cell.range_from AND a.geohash < cell.range_to
+      ))
+      AND (NOT p_has_spots OR COALESCE(a.max_attendees, 0) = 0
+        OR jsonb_array_length(COALESCE(a.attendee_ids, '[]'::jsonb)) < a.max_attendees)
+      AND (NOT p_verified_hosts OR EXISTS (
+        SELECT 1 FROM user_profiles p WHERE p.id = a.host_id AND p.is_travel_verified = TRUE
+      ))
+  ),
+  filtered AS (
+    -- The first occurrence of a series by date is its next matching one
+    SELECT l.*, ROW_NUMBER() OVER (PARTITION BY l.series_id ORDER BY l.date, l.id) AS series_rank
+    FROM located l
+    WHERE (p_radius_km IS NULL OR l.search_distance_km <= p_radius_km)
+      AND (p_sort <> 'nearest' OR l.search_distance_km IS NOT NULL)
+  ),
+  host_tiers AS (
+    SELECT stats.host_id AS tier_host_id, stats.is_repeat_low_rated
+    FROM host_reputation_stats(
+      ARRAY(SELECT DISTINCT f.host_id FROM filtered f WHERE f.host_id IS NOT NULL),
+      p_low_rating,
+      p_repeat_low_rated
+    ) stats
+  ),
+  ranked AS (
+    SELECT f.*,
+      CASE WHEN ht.is_repeat_low_rated THEN 1 ELSE 0 END AS search_tier,
+      CASE p_sort
+        WHEN 'nearest' THEN f.search_distance_km
+        WHEN 'popular' THEN jsonb_array_length(COALESCE(f.attendee_ids, '[]'::jsonb))::double precision
+        ELSE COALESCE(FLOOR(EXTRACT(EPOCH FROM f.date) * 1000), 0)
+      END AS search_sort_value
+    FROM filtered f
+    LEFT JOIN host_tiers ht ON ht.tier_host_id = f.host_id
+    WHERE NOT p_group_series OR f.series_id IS NULL OR f.series_rank = 1
+  )
+  SELECT to_jsonb(ranked) - 'search_distance_km' - 'series_rank' - 'search_tier' - 'search_sort_value',
+    ranked.search_distance_km,
+    ranked.search_tier,
+    ranked.search_sort_value
+  FROM ranked
+  WHERE p_cursor_id IS NULL
+    OR ranked.search_tier > p_cursor_tier
+    OR (ranked.search_tier = p_cursor_tier AND (
+      CASE WHEN p_sort = 'popular' THEN ranked.search_sort_value < p_cursor_value ELSE ranked.search_sort_value > p_cursor_value END
+      OR (ranked.search_sort_value = p_cursor_value AND ranked.id COLLATE "C" > p_cursor_id)
+    ))
+  ORDER BY ranked.search_tier,
+    CASE WHEN p_sort = 'popular' THEN -ranked.search_sort_value ELSE ranked.search_sort_value END,
+    ranked.id COLLATE "C"
+  LIMIT p_limit;
+$$;
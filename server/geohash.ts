@@ -0,0 +1,179 @@
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+const KM_PER_DEGREE = 111.32;
+
+// Precision 9 cells are about 5m across, fine enough that every coarser cell is a prefix of the stored hash
+export const GEOHASH_PRECISION = 9;
+
+// Sorts after every base32 character, so [cell, cell + RANGE_END) matches exactly the hashes starting with cell
+const RANGE_END = "~";
+
+export interface GeohashRange {
+  from: string;
+  to: string;
+}
+
+export function encodeGeohash(lat: number, lng: number, precision = GEOHASH_PRECISION): string {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let hash = "";
+  let bit = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (minLng + maxLng) / 2;
+      if (lng >= mid) {
+        value = value * 2 + 1;
+        minLng = mid;
+      } else {
+        value *= 2;
+        maxLng = mid;
+      }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (lat >= mid) {
+        value = value * 2 + 1;
+        minLat = mid;
+      } else {
+        value *= 2;
+        maxLat = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bit === 5) {
+      hash += BASE32[value];
+      bit = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+export function encodeGeohashOrNull(lat: unknown, lng: unknown): string | null {
+  const latitude = Number(lat);
+  const longitude = Number(lng);
+  if (lat === null || lng === null || lat === "" || lng === "") return null;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return encodeGeohash(latitude, longitude);
+}
+
+function cellSizeDegrees(precision: number) {
+  const bits = precision * 5;
+  return {
+    lat: 180 / 2 ** Math.floor(bits / 2),
+    lng: 360 / 2 ** Math.ceil(bits / 2),
+  };
+}
+
+function wrapLongitude(lng: number): number {
+  if (lng >= 180) return lng - 360;
+  if (lng < -180) return lng + 360;
+  return lng;
+}
+
+/**
+ * Cells that together contain every point within `radiusKm` of the centre: the centre cell and its
+ * eight neighbours, at the finest precision whose cells are still at least `radiusKm` on each side.
+ * Returns null when the radius is wider than a top-level cell, meaning no cell filter applies.
+ */
+export function geohashCellsCoveringRadius(lat: number, lng: number, radiusKm: number): string[] | null {
+  // Cells narrow towards the poles, so their width is measured at the circle's most poleward latitude
+  const poleward = Math.min(90, Math.abs(lat) + radiusKm / KM_PER_DEGREE);
+  const cosLat = Math.max(Math.cos((poleward * Math.PI) / 180), 0.01);
+
+  for (let precision = GEOHASH_PRECISION; precision >= 1; precision--) {
+    const size = cellSizeDegrees(precision);
+    if (size.lat * KM_PER_DEGREE < radiusKm || size.lng * KM_PER_DEGREE * cosLat < radiusKm) continue;
+
+    const cells = new Set<string>();
+    for (const dLat of [-size.lat, 0, size.lat]) {
+      for (const dLng of [-size.lng, 0, size.lng]) {
+        const cellLat = Math.max(-90, Math.min(90, lat + dLat));
+        cells.add(encodeGeohash(cellLat, wrapLongitude(lng + dLng), precision));
+      }
+    }
+    return Array.from(cells);
+  }
+
+  return null;
+}
+
+export interface GeohashBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export function decodeGeohashBounds(hash: string): GeohashBounds {
+  let south = -90;
+  let north = 90;
+  let west = -180;
+  let east = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = BASE32.indexOf(char);
+    if (value === -1) throw new Error(`Invalid geohash character: ${char}`);
+    for (let bit = 4; bit >= 0; bit--) {
+      const isSet = ((value >> bit) & 1) === 1;
+      if (evenBit) {
+        const mid = (west + east) / 2;
+        if (isSet) west = mid;
+        else east = mid;
+      } else {
+        const mid = (south + north) / 2;
+        if (isSet) south = mid;
+        else north = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { south, west, north, east };
+}
+
+function haversineKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
+  const dLng = ((b.lng - a.lng) * Math.PI) / 180;
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos((a.lat * Math.PI) / 180) * Math.cos((b.lat * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Every cell at `precision` that overlaps the circle, each one whole. Walking the circle's bounding box one cell
+ * at a time lands in each cell once; a cell is kept if its nearest point lies within `radiusKm` of the centre.
+ */
+export function geohashCellsIntersectingRadius(lat: number, lng: number, radiusKm: number, precision: number): string[] {
+  const size = cellSizeDegrees(precision);
+  const poleward = Math.min(90, Math.abs(lat) + radiusKm / KM_PER_DEGREE);
+  const cosLat = Math.max(Math.cos((poleward * Math.PI) / 180), 0.01);
+  const latSpan = radiusKm / KM_PER_DEGREE + size.lat;
+  const lngSpan = Math.min(180, radiusKm / (KM_PER_DEGREE * cosLat) + size.lng);
+
+  const cells = new Set<string>();
+  for (let y = Math.max(-90, lat - latSpan); y <= Math.min(90, lat + latSpan); y += size.lat) {
+    for (let x = lng - lngSpan; x <= lng + lngSpan; x += size.lng) {
+      const hash = encodeGeohash(y, wrapLongitude(x), precision);
+      if (cells.has(hash)) continue;
+      const bounds = decodeGeohashBounds(hash);
+      const nearest = {
+        lat: Math.max(bounds.south, Math.min(bounds.north, lat)),
+        lng: Math.max(bounds.west, Math.min(bounds.east, lng)),
+      };
+      if (haversineKm({ lat, lng }, nearest) <= radiusKm) cells.add(hash);
+    }
+  }
+  return Array.from(cells);
+}
+
+export function geohashRanges(cells: string[]): GeohashRange[] {
+  return cells.map((cell) => ({ from: cell, to: cell + RANGE_END }));
+}
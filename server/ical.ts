@@ -0,0 +1,100 @@
+const PRODUCT_ID = "-//ExploreX//Activities//EN";
+const UID_DOMAIN = "explorex.app";
+// RFC 5545 lines are at most 75 octets; longer ones continue on the next line after a space
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  // Bumped on every change so calendar apps replace their copy instead of keeping the stale one
+  sequence: number;
+  lastModified: Date;
+  status: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  url?: string;
+}
+
+export function calendarEventUid(kind: "activity" | "consultation", id: string): string {
+  return `${kind}-${id}@${UID_DOMAIN}`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(event: CalendarEvent, stamp: Date): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `SEQUENCE:${event.sequence}`,
+    `LAST-MODIFIED:${formatUtc(event.lastModified)}`,
+    `STATUS:${event.status}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (Number.isFinite(event.latitude) && Number.isFinite(event.longitude)) {
+    lines.push(`GEO:${event.latitude};${event.longitude}`);
+  }
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * A VCALENDAR document. Feeds are rebuilt on every fetch, so an edited activity comes through with a higher
+ * SEQUENCE and a deleted one simply stops being listed, which subscribed calendars treat as removed.
+ */
+export function buildCalendar(name: string, events: CalendarEvent[], options: { refreshHours?: number } = {}): string {
+  const stamp = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  if (options.refreshHours) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshHours}H`, `X-PUBLISHED-TTL:PT${options.refreshHours}H`);
+  }
+  for (const event of events) lines.push(...eventLines(event, stamp));
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,100 @@
+import { createHmac } from "crypto";
+
+const KM_PER_DEGREE = 111.32;
+const EARTH_RADIUS_KM = 6371;
+
+export type LocationPrecision = "exact" | "approx_500m" | "approx_5km" | "city";
+
+export const LOCATION_PRECISIONS: LocationPrecision[] = ["exact", "approx_500m", "approx_5km", "city"];
+
+export const DEFAULT_LOCATION_PRECISION: LocationPrecision = "approx_500m";
+
+interface PrecisionGrid {
+  cellKm: number;
+  distanceStepKm: number;
+  hideCoordinates: boolean;
+}
+
+const PRECISION_GRIDS: Record<Exclude<LocationPrecision, "exact">, PrecisionGrid> = {
+  approx_500m: { cellKm: 0.5, distanceStepKm: 0.5, hideCoordinates: false },
+  approx_5km: { cellKm: 5, distanceStepKm: 5, hideCoordinates: false },
+  city: { cellKm: 20, distanceStepKm: 10, hideCoordinates: true },
+};
+
+// A reported point stays inside its grid cell, so it is never further than the cell diagonal from the real one
+export const LOCATION_FUZZ_MARGIN_KM = Math.SQRT2 * PRECISION_GRIDS.city.cellKm;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface FuzzedLocation {
+  lat: number | null;
+  lng: number | null;
+  distanceKm: number;
+}
+
+export function normalizeLocationPrecision(value: unknown): LocationPrecision {
+  return LOCATION_PRECISIONS.includes(value as LocationPrecision)
+    ? (value as LocationPrecision)
+    : DEFAULT_LOCATION_PRECISION;
+}
+
+function haversineKm(a: LatLng, b: LatLng): number {
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
+  const dLng = ((b.lng - a.lng) * Math.PI) / 180;
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos((a.lat * Math.PI) / 180) * Math.cos((b.lat * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+function wrapLongitude(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+// Two offsets in [-0.5, 0.5), fixed for a given seed
+function seededOffsets(secret: string, seed: string): [number, number] {
+  const digest = createHmac("sha256", secret).update(seed).digest();
+  return [digest.readUInt32BE(0) / 2 ** 32 - 0.5, digest.readUInt32BE(4) / 2 ** 32 - 0.5];
+}
+
+/**
+ * Where `viewerId` is shown `target` at the target's chosen precision. The real position is snapped to a
+ * grid cell and then moved to a point in that cell picked by an HMAC of viewer, target and cell. Scanning
+ * again, or from somewhere else, returns the same point until the target changes cell, so repeated scans
+ * leave nothing to average or triangulate.
+ */
+export function fuzzLocationForViewer(
+  viewer: LatLng,
+  target: LatLng & { userId: string },
+  viewerId: string,
+  precision: LocationPrecision,
+  secret: string
+): FuzzedLocation {
+  if (precision === "exact") {
+    return { lat: target.lat, lng: target.lng, distanceKm: Math.round(haversineKm(viewer, target) * 10) / 10 };
+  }
+
+  const grid = PRECISION_GRIDS[precision];
+  const latStep = grid.cellKm / KM_PER_DEGREE;
+  const latIndex = Math.floor((target.lat + 90) / latStep);
+  const cellLat = Math.min(90, -90 + (latIndex + 0.5) * latStep);
+  // Cells keep roughly the same width in km by widening in degrees away from the equator
+  const lngStep = Math.min(360, latStep / Math.max(Math.cos((cellLat * Math.PI) / 180), 0.01));
+  const lngIndex = Math.floor((target.lng + 180) / lngStep);
+  const cellLng = -180 + (lngIndex + 0.5) * lngStep;
+
+  const [latOffset, lngOffset] = seededOffsets(secret, `${viewerId}:${target.userId}:${precision}:${latIndex}:${lngIndex}`);
+  const shown = {
+    lat: Math.max(-90, Math.min(90, cellLat + latOffset * latStep)),
+    lng: wrapLongitude(cellLng + lngOffset * lngStep),
+  };
+
+  const steps = Math.max(1, Math.round(haversineKm(viewer, shown) / grid.distanceStepKm));
+  return {
+    lat: grid.hideCoordinates ? null : Math.round(shown.lat * 1e5) / 1e5,
+    lng: grid.hideCoordinates ? null : Math.round(shown.lng * 1e5) / 1e5,
+    distanceKm: steps * grid.distanceStepKm,
+  };
+}
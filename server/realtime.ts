@@ -0,0 +1,253 @@
+import type { IncomingMessage, Server } from "node:http";
+import type { Duplex } from "node:stream";
+import { WebSocket, WebSocketServer } from "ws";
+
+type TokenVerifier = (token: string) => { valid: boolean; userId?: string };
+type RestrictionCheck = (userId: string) => string | null;
+type ChannelAuthorizer = (userId: string, channel: string) => Promise<boolean>;
+type PresenceListener = (userId: string, isOnline: boolean) => void;
+
+interface RealtimeGatewayOptions {
+  path: string;
+  verifyToken: TokenVerifier;
+  // Returns why a suspended or banned user may not connect, or null
+  getRestriction?: RestrictionCheck;
+  authorizeChannel: ChannelAuthorizer;
+  onPresenceChange?: PresenceListener;
+  heartbeatMs?: number;
+}
+
+export interface RealtimeEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+interface RealtimeClient {
+  socket: WebSocket;
+  userId: string;
+  channels: Set<string>;
+  isAlive: boolean;
+}
+
+const MAX_CHANNELS_PER_CLIENT = 200;
+
+const clients = new Set<RealtimeClient>();
+const channelMembers = new Map<string, Set<RealtimeClient>>();
+const connectionsByUser = new Map<string, number>();
+
+function sendEvent(client: RealtimeClient, event: RealtimeEvent): void {
+  if (client.socket.readyState !== WebSocket.OPEN) return;
+  client.socket.send(JSON.stringify(event));
+}
+
+function joinChannel(client: RealtimeClient, channel: string): void {
+  let members = channelMembers.get(channel);
+  if (!members) {
+    members = new Set();
+    channelMembers.set(channel, members);
+  }
+  members.add(client);
+  client.channels.add(channel);
+}
+
+function leaveChannel(client: RealtimeClient, channel: string): void {
+  const members = channelMembers.get(channel);
+  if (members) {
+    members.delete(client);
+    if (members.size === 0) channelMembers.delete(channel);
+  }
+  client.channels.delete(channel);
+}
+
+function broadcast(channel: string, event: RealtimeEvent, excludeUserId?: string): void {
+  const members = channelMembers.get(channel);
+  if (!members) return;
+  for (const member of members) {
+    if (excludeUserId && member.userId === excludeUserId) continue;
+    sendEvent(member, event);
+  }
+}
+
+function trackConnection(userId: string, delta: 1 | -1): boolean {
+  const previous = connectionsByUser.get(userId) || 0;
+  const next = Math.max(0, previous + delta);
+  if (next === 0) {
+    connectionsByUser.delete(userId);
+  } else {
+    connectionsByUser.set(userId, next);
+  }
+  // True when the user switched between having no sockets and having some
+  return (previous === 0) !== (next === 0);
+}
+
+function getRequestToken(req: IncomingMessage): string {
+  const auth = String(req.headers.authorization || "");
+  if (auth.toLowerCase().startsWith("bearer ")) return auth.slice(7).trim();
+  const url = new URL(req.url || "/", "http://localhost");
+  return String(url.searchParams.get("token") || "").trim();
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+async function handleClientFrame(
+  client: RealtimeClient,
+  raw: string,
+  authorizeChannel: ChannelAuthorizer,
+): Promise<void> {
+  let frame: { type?: string; channel?: string; isTyping?: boolean };
+  try {
+    frame = JSON.parse(raw);
+  } catch {
+    sendEvent(client, { type: "error", error: "Invalid frame" });
+    return;
+  }
+
+  const channel = String(frame?.channel || "").trim();
+  if (frame?.type === "ping") {
+    sendEvent(client, { type: "pong" });
+    return;
+  }
+  if (!channel) {
+    sendEvent(client, { type: "error", error: "Channel is required" });
+    return;
+  }
+
+  if (frame.type === "unsubscribe") {
+    leaveChannel(client, channel);
+    sendEvent(client, { type: "unsubscribed", channel });
+    return;
+  }
+
+  if (frame.type === "typing") {
+    // Only relay to channels the sender has already been authorized for
+    if (!client.channels.has(channel)) return;
+    broadcast(channel, { type: "typing", channel, userId: client.userId, isTyping: frame.isTyping !== false }, client.userId);
+    return;
+  }
+
+  if (frame.type === "subscribe") {
+    if (client.channels.has(channel)) {
+      sendEvent(client, { type: "subscribed", channel });
+      return;
+    }
+    if (client.channels.size >= MAX_CHANNELS_PER_CLIENT) {
+      sendEvent(client, { type: "error", channel, error: "Too many subscriptions" });
+      return;
+    }
+    let allowed = false;
+    try {
+      allowed = await authorizeChannel(client.userId, channel);
+    } catch (error) {
+      console.error("Realtime authorize error:", error);
+    }
+    if (!allowed) {
+      sendEvent(client, { type: "error", channel, error: "Forbidden" });
+      return;
+    }
+    if (client.socket.readyState !== WebSocket.OPEN) return;
+    joinChannel(client, channel);
+    sendEvent(client, { type: "subscribed", channel });
+    return;
+  }
+
+  sendEvent(client, { type: "error", error: "Unknown frame type" });
+}
+
+export function attachRealtimeGateway(server: Server, options: RealtimeGatewayOptions): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 16 * 1024 });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== options.path) return;
+
+    const verified = options.verifyToken(getRequestToken(req));
+    if (!verified.valid || !verified.userId) {
+      rejectUpgrade(socket, 401, "Unauthorized");
+      return;
+    }
+    if (options.getRestriction?.(verified.userId)) {
+      rejectUpgrade(socket, 403, "Forbidden");
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const client: RealtimeClient = {
+        socket: ws,
+        userId: verified.userId as string,
+        channels: new Set(),
+        isAlive: true,
+      };
+      clients.add(client);
+      if (trackConnection(client.userId, 1)) {
+        options.onPresenceChange?.(client.userId, true);
+      }
+
+      ws.on("pong", () => {
+        client.isAlive = true;
+      });
+      ws.on("message", (data) => {
+        void handleClientFrame(client, data.toString(), options.authorizeChannel);
+      });
+      ws.on("close", () => {
+        for (const channel of Array.from(client.channels)) {
+          leaveChannel(client, channel);
+        }
+        clients.delete(client);
+        if (trackConnection(client.userId, -1)) {
+          options.onPresenceChange?.(client.userId, false);
+        }
+      });
+      ws.on("error", (error) => {
+        console.error("Realtime socket error:", error);
+      });
+
+      sendEvent(client, { type: "ready", userId: client.userId });
+    });
+  });
+
+  setInterval(() => {
+    for (const client of clients) {
+      if (!client.isAlive) {
+        client.socket.terminate();
+        continue;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    }
+  }, options.heartbeatMs || 30_000).unref();
+}
+
+export function publish(channel: string, event: RealtimeEvent): void {
+  broadcast(channel, { ...event, channel });
+}
+
+/**
+ * Drops sockets from a channel once their user loses access to it (left, unmatched, blocked, stopped responding), so events
+ * published afterwards stop reaching them. Without `userId` everyone is dropped, e.g. when the channel's activity is
+ * deleted.
+ */
+export function revokeChannel(channel: string, userId?: string): void {
+  const members = channelMembers.get(channel);
+  if (!members) return;
+  for (const member of Array.from(members)) {
+    if (userId && member.userId !== userId) continue;
+    leaveChannel(member, channel);
+    sendEvent(member, { type: "unsubscribed", channel, reason: "revoked" });
+  }
+}
+
+// Closes every socket a user has open, e.g. once they are suspended or banned
+export function disconnectUser(userId: string, reason: string): void {
+  for (const client of Array.from(clients)) {
+    if (client.userId !== userId) continue;
+    sendEvent(client, { type: "error", error: reason });
+    client.socket.close(4403, reason.slice(0, 120));
+  }
+}
+
+export function isUserOnline(userId: string): boolean {
+  return (connectionsByUser.get(userId) || 0) > 0;
+}
@@ -0,0 +1,156 @@
+export const MAX_SERIES_OCCURRENCES = 52;
+const DEFAULT_SERIES_OCCURRENCES = 8;
+const MAX_SERIES_SPAN_DAYS = 366;
+const MAX_INTERVAL_DAYS = 60;
+
+// The first occurrence is always the activity's own start; a rule only describes the ones after it
+export type RecurrenceRule =
+  | { type: "weekly"; weekdays: number[]; count: number; until: string | null }
+  | { type: "interval"; everyDays: number; count: number; until: string | null }
+  | { type: "dates"; dates: string[] };
+
+export interface Occurrence {
+  start: string;
+  end: string | null;
+}
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function wallTimeIn(date: Date, timeZone: string): WallTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: part("year"), month: part("month"), day: part("day"), hour: part("hour"), minute: part("minute"), second: part("second") };
+}
+
+// The instant at which clocks in `timeZone` show `wall`; the second pass settles days when DST starts or ends
+function zonedWallTimeToDate(wall: WallTime, timeZone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const offsetAt = (instant: number) => {
+    const shown = wallTimeIn(new Date(instant), timeZone);
+    return Date.UTC(shown.year, shown.month - 1, shown.day, shown.hour, shown.minute, shown.second) - instant;
+  };
+  const firstGuess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(firstGuess));
+}
+
+function addWallDays(wall: WallTime, days: number): WallTime {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  return { ...wall, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function wallWeekday(wall: WallTime): number {
+  return new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+}
+
+function parseCountAndUntil(input: any): { count: number; until: string | null } | { error: string } {
+  let until: string | null = null;
+  if (input?.until !== undefined && input?.until !== null) {
+    const date = new Date(String(input.until));
+    if (Number.isNaN(date.getTime())) return { error: "recurrence.until must be an ISO date" };
+    until = date.toISOString();
+  }
+  const count = input?.count === undefined || input?.count === null
+    ? (until ? MAX_SERIES_OCCURRENCES : DEFAULT_SERIES_OCCURRENCES)
+    : Number(input.count);
+  if (!Number.isInteger(count) || count < 2 || count > MAX_SERIES_OCCURRENCES) {
+    return { error: `recurrence.count must be between 2 and ${MAX_SERIES_OCCURRENCES}` };
+  }
+  return { count, until };
+}
+
+export function parseRecurrenceRule(input: any): RecurrenceRule | { error: string } {
+  switch (input?.type) {
+    case "weekly": {
+      const weekdays = Array.from(new Set(
+        (Array.isArray(input.weekdays) ? input.weekdays : []).map((day: unknown) => Number(day))
+      )) as number[];
+      if (weekdays.length === 0 || weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+        return { error: "recurrence.weekdays must list days from 0 (Sunday) to 6 (Saturday)" };
+      }
+      const limits = parseCountAndUntil(input);
+      if ("error" in limits) return limits;
+      return { type: "weekly", weekdays: weekdays.sort((a, b) => a - b), ...limits };
+    }
+    case "interval": {
+      const everyDays = Number(input.everyDays);
+      if (!Number.isInteger(everyDays) || everyDays < 1 || everyDays > MAX_INTERVAL_DAYS) {
+        return { error: `recurrence.everyDays must be between 1 and ${MAX_INTERVAL_DAYS}` };
+      }
+      const limits = parseCountAndUntil(input);
+      if ("error" in limits) return limits;
+      return { type: "interval", everyDays, ...limits };
+    }
+    case "dates": {
+      const dates = (Array.isArray(input.dates) ? input.dates : []).map((value: unknown) => new Date(String(value)));
+      if (dates.length === 0 || dates.some((date: Date) => Number.isNaN(date.getTime()))) {
+        return { error: "recurrence.dates must be a list of ISO dates" };
+      }
+      if (dates.length >= MAX_SERIES_OCCURRENCES) {
+        return { error: `A series can have at most ${MAX_SERIES_OCCURRENCES} dates` };
+      }
+      return { type: "dates", dates: dates.map((date: Date) => date.toISOString()) };
+    }
+    default:
+      return { error: "recurrence.type must be weekly, interval or dates" };
+  }
+}
+
+/**
+ * Every occurrence of a series, starting with `start` itself. Generated dates keep the first one's wall-clock
+ * time in `timeZone`, so a 6:00 sunrise meetup stays at 6:00 across daylight saving changes. Each occurrence
+ * lasts `durationMs` when given, which is how multi-day events repeat.
+ */
+export function expandRecurrence(start: Date, durationMs: number | null, rule: RecurrenceRule, timeZone: string): Occurrence[] {
+  const starts: Date[] = [start];
+
+  if (rule.type === "dates") {
+    const seen = new Set([start.getTime()]);
+    for (const value of rule.dates) {
+      const date = new Date(value);
+      if (date.getTime() > start.getTime() && !seen.has(date.getTime())) {
+        seen.add(date.getTime());
+        starts.push(date);
+      }
+    }
+    starts.sort((a, b) => a.getTime() - b.getTime());
+  } else {
+    const first = wallTimeIn(start, timeZone);
+    const until = rule.until ? new Date(rule.until).getTime() : Infinity;
+    const step = rule.type === "interval" ? rule.everyDays : 1;
+    for (let offset = step; offset <= MAX_SERIES_SPAN_DAYS && starts.length < rule.count; offset += step) {
+      const wall = addWallDays(first, offset);
+      if (rule.type === "weekly" && !rule.weekdays.includes(wallWeekday(wall))) continue;
+      const next = zonedWallTimeToDate(wall, timeZone);
+      if (next.getTime() > until) break;
+      starts.push(next);
+    }
+  }
+
+  return starts.slice(0, MAX_SERIES_OCCURRENCES).map((date) => ({
+    start: date.toISOString(),
+    end: durationMs ? new Date(date.getTime() + durationMs).toISOString() : null,
+  }));
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  if (rule.type === "dates") return "Custom dates";
+  if (rule.type === "interval") return rule.everyDays === 1 ? "Daily" : `Every ${rule.everyDays} days`;
+  const names = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  return `Weekly on ${rule.weekdays.map((day) => names[day]).join(", ")}`;
+}
@@ -3,10 +3,27 @@ import { createServer, type Server } from "node:http";
 import * as path from "node:path";
 import * as fs from "node:fs";
 import { createClient } from "@supabase/supabase-js";
-import { Pool } from "pg";
+import { Pool, type PoolClient } from "pg";
 import multer from "multer";
 import { randomBytes, scryptSync, timingSafeEqual, createHmac } from "crypto";
 import { createRateLimiter } from "./security";
+import { attachRealtimeGateway, disconnectUser, isUserOnline, publish, revokeChannel } from "./realtime";
+import {
+  decodeGeohashBounds,
+  encodeGeohashOrNull,
+  geohashCellsCoveringRadius,
+  geohashCellsIntersectingRadius,
+  geohashRanges,
+  type GeohashBounds,
+} from "./geohash";
+import {
+  DEFAULT_LOCATION_PRECISION,
+  fuzzLocationForViewer,
+  LOCATION_FUZZ_MARGIN_KM,
+  normalizeLocationPrecision,
+} from "./location-privacy";
+import { describeRecurrence, expandRecurrence, parseRecurrenceRule, type RecurrenceRule } from "./recurrence";
+import { buildCalendar, calendarEventUid, type CalendarEvent } from "./ical";
 
 async function callGroqChat(messages: { role: string; content: string }[]) {
   if (!groqApiKey) {
@@ -55,10 +72,19 @@ async function checkSupabaseTables() {
     'user_profiles', 'user_locations', 'compatibility_history',
     'swipes', 'matches', 'travel_verification',
     'expert_applications', 'consultation_bookings', 'radar_chat_requests',
-    'safety_ratings', 'sos_incidents', 'activity_moderators', 'chat_messages', 'forum_posts'
+    'safety_ratings', 'sos_incidents', 'activity_moderators', 'chat_messages', 'forum_posts',
+    'user_presence', 'chat_read_states', 'user_blocks', 'user_reports', 'location_shares',
+    'sos_incident_events', 'sos_responders', 'sos_trusted_contacts', 'discover_preferences',
+    'swipe_history', 'radar_visibility_rules', 'activity_edits', 'activity_series', 'calendar_feeds',
+    'activity_check_ins', 'activity_check_in_secrets', 'activity_reviews', 'user_subscriptions'
   ];
   for (const table of tables) {
-    const col = table === 'user_locations' ? 'user_id' : 'id';
+    const col = table === 'user_locations' || table === 'user_presence'
+      ? 'user_id'
+      : table === 'chat_read_states' ? 'match_id'
+      : table === 'user_blocks' ? 'blocker_id'
+      : table === 'sos_trusted_contacts' || table === 'discover_preferences' || table === 'radar_visibility_rules' || table === 'calendar_feeds' || table === 'user_subscriptions' ? 'user_id'
+      : table === 'activity_check_ins' || table === 'activity_check_in_secrets' ? 'activity_id' : 'id';
     const { error } = await supabaseAdmin.from(table).select(col).limit(1);
     if (error) {
       console.log(`[DB] Table '${table}': NOT accessible (${error.message})`);
@@ -212,6 +238,64 @@ function extractBearerToken(req: Request): string {
   return auth.slice(7).trim();
 }
 
+const USER_ROLES = ["user", "moderator", "admin"] as const;
+type UserRole = typeof USER_ROLES[number];
+
+interface AccountRestriction {
+  status: "suspended" | "banned";
+  until: number | null;
+}
+
+// Session tokens are stateless, so suspensions and bans are enforced from this cache
+const accountRestrictions = new Map<string, AccountRestriction>();
+
+function setAccountRestriction(userId: string, status: string, suspendedUntil: string | Date | null): void {
+  if (status === "banned") {
+    accountRestrictions.set(userId, { status: "banned", until: null });
+  } else if (status === "suspended" && suspendedUntil) {
+    accountRestrictions.set(userId, { status: "suspended", until: new Date(suspendedUntil).getTime() });
+  } else {
+    accountRestrictions.delete(userId);
+  }
+  // Live sockets were authorized before the restriction, so they are closed rather than left streaming
+  const restriction = getActiveRestriction(userId);
+  if (restriction) disconnectUser(userId, describeRestriction(restriction));
+}
+
+function getActiveRestriction(userId: string): AccountRestriction | null {
+  const restriction = accountRestrictions.get(userId);
+  if (!restriction) return null;
+  if (restriction.until !== null && restriction.until <= Date.now()) {
+    accountRestrictions.delete(userId);
+    return null;
+  }
+  return restriction;
+}
+
+function describeRestriction(restriction: AccountRestriction): string {
+  if (restriction.status === "banned") return "This account has been banned";
+  return `This account is suspended until ${new Date(restriction.until || Date.now()).toISOString()}`;
+}
+
+async function loadAccountRestrictions(): Promise<void> {
+  if (!pgPool) return;
+  const result = await pgPool.query(
+    `SELECT id, account_status, suspended_until FROM app_users
+     WHERE account_status = 'banned' OR (account_status = 'suspended' AND suspended_until > NOW())`
+  );
+  accountRestrictions.clear();
+  for (const row of result.rows) {
+    setAccountRestriction(String(row.id), row.account_status, row.suspended_until);
+  }
+}
+
+async function loadUserRole(userId: string): Promise<UserRole> {
+  if (!pgPool) return "user";
+  const result = await pgPool.query(`SELECT role FROM app_users WHERE id::text = $1 LIMIT 1`, [userId]);
+  const role = result.rows[0]?.role;
+  return USER_ROLES.includes(role) ? role : "user";
+}
+
 function requireUserSession(selector: (req: Request) => unknown) {
   return (req: Request, res: Response, next: any) => {
     const raw = selector(req);
@@ -226,10 +310,41 @@ function requireUserSession(selector: (req: Request) => unknown) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
+    const restriction = getActiveRestriction(verified.userId);
+    if (restriction) {
+      return res.status(403).json({ error: describeRestriction(restriction) });
+    }
+
     next();
   };
 }
 
+// Moderation routes act as the token holder; the role is read from app_users on every call
+function requireRole(allowedRoles: UserRole[]) {
+  return async (req: Request, res: Response, next: any) => {
+    const verified = verifySessionToken(extractBearerToken(req));
+    if (!verified.valid || !verified.userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    if (!pgPool) {
+      return res.status(500).json({ error: "Database is not configured" });
+    }
+
+    try {
+      const role = await loadUserRole(verified.userId);
+      if (!allowedRoles.includes(role) || getActiveRestriction(verified.userId)) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      res.locals.moderatorId = verified.userId;
+      res.locals.moderatorRole = role;
+      next();
+    } catch (error) {
+      console.error("Role check error:", error);
+      res.status(500).json({ error: "Failed to verify permissions" });
+    }
+  };
+}
+
 function generateOTP(): string {
   return Math.floor(100000 + Math.random() * 900000).toString();
 }
@@ -246,6 +361,9 @@ function cleanupExpiredOTPs() {
 // Groq API
 const groqApiKey = process.env.GROQ_API_KEY || "";
 
+// RevenueCat secret API key, for reading a user's entitlements the webhook hasn't reported
+const revenueCatSecretKey = process.env.REVENUECAT_SECRET_API_KEY || "";
+
 const pgPool = process.env.DATABASE_URL
   ? new Pool({
       connectionString: process.env.DATABASE_URL,
@@ -283,6 +401,17 @@ async function ensureAuthTables() {
       created_at TIMESTAMP DEFAULT NOW()
     );
   `);
+  await pgPool.query(`ALTER TABLE app_users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';`);
+  await pgPool.query(`ALTER TABLE app_users ADD COLUMN IF NOT EXISTS account_status TEXT NOT NULL DEFAULT 'active';`);
+  await pgPool.query(`ALTER TABLE app_users ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMP;`);
+
+  // The first admins come from the environment; everyone else is promoted in-app
+  const adminEmails = String(process.env.ADMIN_EMAILS || "").split(",").map(normalizeEmail).filter(Boolean);
+  if (adminEmails.length > 0) {
+    await pgPool.query(`UPDATE app_users SET role = 'admin' WHERE email = ANY($1::text[])`, [adminEmails]);
+  }
+
+  await loadAccountRestrictions();
 }
 
 
@@ -424,6 +553,33 @@ const INTENT_CHAT_PROMPTS: Record<IntentMode, string[]> = {
   ],
 };
 
+type LookingFor =
+  | "friendship"
+  | "travel-buddy"
+  | "dating"
+  | "help-with-build"
+  | "local-tips"
+  | "activities"
+  | "networking";
+
+const VALID_LOOKING_FOR: LookingFor[] = [
+  "friendship",
+  "travel-buddy",
+  "dating",
+  "help-with-build",
+  "local-tips",
+  "activities",
+  "networking",
+];
+
+function normalizeLookingFor(value: unknown): LookingFor[] {
+  if (!Array.isArray(value)) return [];
+  const picked = value
+    .map((item) => String(item || "").trim().toLowerCase())
+    .filter((item): item is LookingFor => (VALID_LOOKING_FOR as string[]).includes(item));
+  return Array.from(new Set(picked));
+}
+
 function normalizeIntentMode(value: unknown): IntentMode {
   const raw = String(value || "").trim().toLowerCase();
   if ((VALID_INTENT_MODES as string[]).includes(raw)) {
@@ -528,6 +684,82 @@ async function ensureExploreXTables() {
       PRIMARY KEY (user_id, day_key)
     );
   `);
+
+  await pgPool.query(`ALTER TABLE explorex_meetups ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;`);
+
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS explorex_trip_stops (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      plan_id UUID NOT NULL,
+      user_id TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0,
+      city TEXT NOT NULL,
+      city_key TEXT NOT NULL,
+      starts_on DATE NOT NULL,
+      ends_on DATE NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_trip_stops_plan ON explorex_trip_stops(plan_id, position);`);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_trip_stops_city_dates ON explorex_trip_stops(city_key, starts_on, ends_on);`);
+  await pgPool.query(`ALTER TABLE explorex_plan_cards ADD COLUMN IF NOT EXISTS share_overlaps BOOLEAN DEFAULT FALSE;`);
+
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS meetup_checkins (
+      id TEXT PRIMARY KEY,
+      meetup_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      user_name TEXT,
+      status TEXT DEFAULT 'active',
+      started_at TIMESTAMP DEFAULT NOW(),
+      expected_end_at TIMESTAMP NOT NULL,
+      confirmed_at TIMESTAMP,
+      escalated_at TIMESTAMP,
+      incident_id TEXT,
+      emergency_contact JSONB,
+      last_lat DOUBLE PRECISION,
+      last_lng DOUBLE PRECISION,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE(meetup_id, user_id)
+    );
+  `);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_meetup_checkins_due ON meetup_checkins(status, expected_end_at);`);
+
+  // Only used when Supabase isn't configured, so missed check-ins still escalate
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS sos_incidents (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      user_name TEXT,
+      latitude DOUBLE PRECISION,
+      longitude DOUBLE PRECISION,
+      emergency_contact_name TEXT,
+      emergency_contact_phone TEXT,
+      emergency_contact_email TEXT,
+      timestamp TIMESTAMPTZ DEFAULT NOW(),
+      status TEXT DEFAULT 'open',
+      resolved BOOLEAN DEFAULT false,
+      notes TEXT,
+      acknowledged_at TIMESTAMPTZ,
+      resolved_at TIMESTAMPTZ,
+      resolved_by TEXT,
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+  `);
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS sos_incident_events (
+      id TEXT PRIMARY KEY,
+      incident_id TEXT NOT NULL,
+      actor_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      latitude DOUBLE PRECISION,
+      longitude DOUBLE PRECISION,
+      note TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    );
+  `);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_sos_incident_events_incident ON sos_incident_events(incident_id, created_at);`);
 }
 
 async function ensureSocialTables() {
@@ -544,6 +776,32 @@ async function ensureSocialTables() {
     );
   `);
 
+  // Every swipe in order, so the latest one can be rewound along with any match it created
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS swipe_history (
+      id TEXT PRIMARY KEY,
+      swiper_id TEXT NOT NULL,
+      swiped_id TEXT NOT NULL,
+      direction TEXT NOT NULL,
+      previous_direction TEXT,
+      match_id TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      undone_at TIMESTAMP
+    );
+  `);
+  await pgPool.query(SWIPE_QUOTA_FUNCTIONS_SQL);
+
+  // Subscription tier as last reported by the RevenueCat webhook; quotas are read from here
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS user_subscriptions (
+      user_id TEXT PRIMARY KEY,
+      tier TEXT NOT NULL DEFAULT 'starter',
+      expires_at TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
+  await pgPool.query(`ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS event_at TIMESTAMP;`);
+
   await pgPool.query(`
     CREATE TABLE IF NOT EXISTS matches (
       id TEXT PRIMARY KEY,
@@ -644,8 +902,121 @@ async function ensureSocialTables() {
   await pgPool.query(`ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS radar_scans_this_week INTEGER DEFAULT 0;`);
   await pgPool.query(`ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS last_reset_timestamp TIMESTAMP;`);
   await pgPool.query(`ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS is_visible_on_radar BOOLEAN DEFAULT TRUE;`);
+  await pgPool.query(`ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS hide_last_seen BOOLEAN DEFAULT FALSE;`);
+  await pgPool.query(`ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS location_precision TEXT DEFAULT 'approx_500m';`);
   await pgPool.query(`ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS created_at TIMESTAMP DEFAULT NOW();`);
   await pgPool.query(`ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();`);
+  await pgPool.query(`ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS looking_for JSONB DEFAULT '[]'::jsonb;`);
+
+  // One row per user; missing rows mean "no filters"
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS discover_preferences (
+      user_id TEXT PRIMARY KEY,
+      min_age INTEGER NOT NULL DEFAULT 18,
+      max_age INTEGER NOT NULL DEFAULT 99,
+      max_distance_km INTEGER,
+      intent_modes JSONB DEFAULT '[]'::jsonb,
+      verified_only BOOLEAN DEFAULT FALSE,
+      looking_for JSONB DEFAULT '[]'::jsonb,
+      van_types JSONB DEFAULT '[]'::jsonb,
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
+
+  // One row per user; missing rows mean the radar switch alone decides visibility
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS radar_visibility_rules (
+      user_id TEXT PRIMARY KEY,
+      hide_at_night BOOLEAN DEFAULT FALSE,
+      night_start_hour INTEGER NOT NULL DEFAULT 22,
+      night_end_hour INTEGER NOT NULL DEFAULT 7,
+      time_zone TEXT NOT NULL DEFAULT 'UTC',
+      home_base_lat DOUBLE PRECISION,
+      home_base_lng DOUBLE PRECISION,
+      home_base_radius_km DOUBLE PRECISION,
+      matches_only BOOLEAN DEFAULT FALSE,
+      verified_only BOOLEAN DEFAULT FALSE,
+      ghost_until TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
+
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS chat_read_states (
+      match_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      delivered_up_to TIMESTAMP,
+      read_up_to TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT NOW(),
+      PRIMARY KEY (match_id, user_id)
+    );
+  `);
+
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS user_presence (
+      user_id TEXT PRIMARY KEY,
+      last_seen_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
+
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS user_blocks (
+      blocker_id TEXT NOT NULL,
+      blocked_id TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      PRIMARY KEY (blocker_id, blocked_id)
+    );
+  `);
+
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS user_reports (
+      id TEXT PRIMARY KEY,
+      reporter_id TEXT NOT NULL,
+      reported_user_id TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      details TEXT,
+      message_ids JSONB DEFAULT '[]'::jsonb,
+      evidence_ids JSONB DEFAULT '[]'::jsonb,
+      status TEXT DEFAULT 'open',
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
+  await pgPool.query(`ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS resolved_by TEXT;`);
+  await pgPool.query(`ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP;`);
+
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS location_shares (
+      id TEXT PRIMARY KEY,
+      sharer_id TEXT NOT NULL,
+      match_id TEXT,
+      viewer_user_id TEXT,
+      contact_name TEXT,
+      token TEXT UNIQUE NOT NULL,
+      status TEXT DEFAULT 'active',
+      started_at TIMESTAMP DEFAULT NOW(),
+      expires_at TIMESTAMP NOT NULL,
+      ended_at TIMESTAMP,
+      last_lat DOUBLE PRECISION,
+      last_lng DOUBLE PRECISION,
+      last_accuracy DOUBLE PRECISION,
+      last_updated_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
+
+  // Audit trail of every moderator decision; rows are never updated or deleted
+  await pgPool.query(`
+    CREATE TABLE IF NOT EXISTS moderation_actions (
+      id TEXT PRIMARY KEY,
+      report_id TEXT,
+      target_user_id TEXT NOT NULL,
+      moderator_id TEXT NOT NULL,
+      action TEXT NOT NULL,
+      note TEXT,
+      expires_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
 
   await pgPool.query(`
     CREATE TABLE IF NOT EXISTS user_locations (
@@ -655,6 +1026,31 @@ async function ensureSocialTables() {
       updated_at TIMESTAMP DEFAULT NOW()
     );
   `);
+  // "C" collation keeps geohash ordering bytewise, so prefix ranges on it can use a plain btree index
+  await pgPool.query(`ALTER TABLE user_locations ADD COLUMN IF NOT EXISTS geohash TEXT COLLATE "C";`);
+
+  // Activities are created through Supabase; when pg points at the same database it gets the same geohash column
+  const activitiesTable = await pgPool.query(`SELECT to_regclass('public.activities') AS name`);
+  if (activitiesTable.rows[0]?.name) {
+    await pgPool.query(`ALTER TABLE activities ADD COLUMN IF NOT EXISTS geohash TEXT COLLATE "C";`);
+    await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_activities_geohash ON activities(geohash, date);`);
+    // Old free-text limits that aren't a plain whole number become NULL (no limit); done once, as it rewrites the table
+    const capacityColumn = await pgPool.query(
+      `SELECT data_type FROM information_schema.columns
+       WHERE table_schema = 'public' AND table_name = 'activities' AND column_name = 'max_attendees'`
+    );
+    if (capacityColumn.rows[0] && capacityColumn.rows[0].data_type !== "integer") {
+      await pgPool.query(
+        `ALTER TABLE activities ALTER COLUMN max_attendees TYPE INTEGER
+         USING CASE WHEN max_attendees::text ~ '^\\s*\\d{1,9}\\s*$' THEN TRIM(max_attendees::text)::integer ELSE NULL END;`
+      );
+    }
+    await pgPool.query(`ALTER TABLE activities ADD COLUMN IF NOT EXISTS waitlist_ids JSONB DEFAULT '[]'::jsonb;`);
+    await pgPool.query(`ALTER TABLE activities ADD COLUMN IF NOT EXISTS waitlist_data JSONB DEFAULT '[]'::jsonb;`);
+    await pgPool.query(`ALTER TABLE activities ADD COLUMN IF NOT EXISTS roster_version INTEGER NOT NULL DEFAULT 0;`);
+    await pgPool.query(`ALTER TABLE activities ADD COLUMN IF NOT EXISTS end_date TIMESTAMPTZ;`);
+    await pgPool.query(`ALTER TABLE activities ADD COLUMN IF NOT EXISTS series_id TEXT;`);
+  }
 
   await pgPool.query(`
     CREATE TABLE IF NOT EXISTS radar_chat_requests (
@@ -689,16 +1085,239 @@ async function ensureSocialTables() {
 
   await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_swipes_swiper ON swipes(swiper_id);`);
   await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_swipes_swiped ON swipes(swiped_id);`);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_swipe_history_swiper ON swipe_history(swiper_id, created_at DESC);`);
   await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_matches_usera ON matches(user_a_id);`);
   await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_matches_userb ON matches(user_b_id);`);
   await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_chat_messages_match ON chat_messages(match_id);`);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_chat_messages_match_created ON chat_messages(match_id, created_at, id);`);
 
   await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_user_locations_updated ON user_locations(updated_at DESC);`);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_user_locations_geohash ON user_locations(geohash, updated_at);`);
   await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_radar_requests_receiver ON radar_chat_requests(receiver_id, status, created_at DESC);`);
   await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_radar_requests_sender ON radar_chat_requests(sender_id, created_at DESC);`);
   await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_compat_a ON compatibility_history(user_a, created_at DESC);`);
   await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_compat_b ON compatibility_history(user_b, created_at DESC);`);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);`);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_user_reports_reported ON user_reports(reported_user_id, created_at DESC);`);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_user_reports_status ON user_reports(status, created_at);`);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_location_shares_sharer ON location_shares(sharer_id, status);`);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_location_shares_viewer ON location_shares(viewer_user_id, status);`);
+  await pgPool.query(`CREATE INDEX IF NOT EXISTS idx_moderation_actions_target ON moderation_actions(target_user_id, created_at DESC);`);
+
+}
+
+interface TripStop {
+  id?: string;
+  city: string;
+  startsOn: string;
+  endsOn: string;
+}
+
+interface TripOverlap {
+  city: string;
+  startsOn: string;
+  endsOn: string;
+}
+
+const TRIP_MAX_STOPS = 12;
+const TRIP_MAX_STOP_DAYS = 180;
+const TRIP_MAX_OVERLAP_USERS = 50;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stops match on the city name alone, so "São Paulo, Brazil" and "sao paulo" share one key
+function normalizeCityKey(city: string): string {
+  return city
+    .split(",")[0]
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function parseIsoDate(value: unknown): string | null {
+  const text = String(value || "").slice(0, 10);
+  if (!ISO_DATE_PATTERN.test(text)) return null;
+  const parsed = new Date(`${text}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== text ? null : text;
+}
+
+function parseTripStopsInput(value: unknown): TripStop[] | { error: string } {
+  if (!Array.isArray(value)) return { error: "stops must be an array" };
+  if (value.length > TRIP_MAX_STOPS) return { error: `A trip can have at most ${TRIP_MAX_STOPS} stops` };
+
+  const stops: TripStop[] = [];
+  for (const raw of value) {
+    const city = String(raw?.city || "").trim().slice(0, 80);
+    const startsOn = parseIsoDate(raw?.startsOn);
+    const endsOn = parseIsoDate(raw?.endsOn);
+    if (!city || !normalizeCityKey(city)) return { error: "Every stop needs a city" };
+    if (!startsOn || !endsOn) return { error: "Stop dates must be YYYY-MM-DD" };
+    const days = (Date.parse(endsOn) - Date.parse(startsOn)) / DAY_MS;
+    if (days < 0) return { error: `${city} ends before it starts` };
+    if (days > TRIP_MAX_STOP_DAYS) return { error: `A single stop can last at most ${TRIP_MAX_STOP_DAYS} days` };
+    stops.push({ city, startsOn, endsOn });
+  }
+
+  return stops.sort((a, b) => (a.startsOn < b.startsOn ? -1 : a.startsOn > b.startsOn ? 1 : 0));
+}
+
+async function loadTripStopsByPlan(planIds: string[]): Promise<Map<string, TripStop[]>> {
+  const stopsByPlan = new Map<string, TripStop[]>();
+  if (!pgPool || planIds.length === 0) return stopsByPlan;
+  const result = await pgPool.query(
+    `SELECT id, plan_id, city, to_char(starts_on, 'YYYY-MM-DD') AS starts_on, to_char(ends_on, 'YYYY-MM-DD') AS ends_on
+     FROM explorex_trip_stops
+     WHERE plan_id::text = ANY($1::text[])
+     ORDER BY plan_id, position`,
+    [planIds]
+  );
+  for (const row of result.rows) {
+    const planId = String(row.plan_id);
+    const stops = stopsByPlan.get(planId) || [];
+    stops.push({ id: row.id, city: row.city, startsOn: row.starts_on, endsOn: row.ends_on });
+    stopsByPlan.set(planId, stops);
+  }
+  return stopsByPlan;
+}
+
+// Old and new stops swap in one transaction, so a failed insert keeps the previous itinerary
+async function replaceTripStops(planId: string, userId: string, stops: TripStop[]): Promise<void> {
+  if (!pgPool) return;
+  const client = await pgPool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`DELETE FROM explorex_trip_stops WHERE plan_id = $1`, [planId]);
+    if (stops.length > 0) {
+      await client.query(
+        `INSERT INTO explorex_trip_stops (plan_id, user_id, position, city, city_key, starts_on, ends_on)
+         SELECT $1, $2, s.position, s.city, s.city_key, s.starts_on::date, s.ends_on::date
+         FROM unnest($3::int[], $4::text[], $5::text[], $6::text[], $7::text[])
+           AS s(position, city, city_key, starts_on, ends_on)`,
+        [
+          planId,
+          userId,
+          stops.map((_, index) => index),
+          stops.map((stop) => stop.city),
+          stops.map((stop) => normalizeCityKey(stop.city)),
+          stops.map((stop) => stop.startsOn),
+          stops.map((stop) => stop.endsOn),
+        ]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
 
+// Matches the viewer's active itinerary against everyone else's: same city, intersecting dates, not already over.
+// Only active plans count, so replacing a trip immediately drops its old overlaps. A route is only compared with a
+// stranger's when both plans share overlaps; matches always see each other's. Users the radar would hide from the
+// viewer (hidden, ghost mode, night hours, home base, matches or verified only) are left out as well.
+async function loadTripOverlaps(userId: string, candidateIds?: string[]): Promise<Map<string, TripOverlap[]>> {
+  const overlaps = new Map<string, TripOverlap[]>();
+  if (!pgPool || (candidateIds && candidateIds.length === 0)) return overlaps;
+
+  const partners = await loadMatchPartners(userId);
+  const [result, blockedIds] = await Promise.all([
+    pgPool.query(
+      `SELECT other.user_id,
+              mine.city,
+              to_char(GREATEST(mine.starts_on, other.starts_on), 'YYYY-MM-DD') AS starts_on,
+              to_char(LEAST(mine.ends_on, other.ends_on), 'YYYY-MM-DD') AS ends_on
+       FROM explorex_trip_stops mine
+       JOIN explorex_plan_cards mine_plan ON mine_plan.id = mine.plan_id AND mine_plan.is_active = TRUE
+       JOIN explorex_trip_stops other
+         ON other.city_key = mine.city_key
+        AND other.user_id <> mine.user_id
+        AND other.starts_on <= mine.ends_on
+        AND other.ends_on >= mine.starts_on
+       JOIN explorex_plan_cards other_plan ON other_plan.id = other.plan_id AND other_plan.is_active = TRUE
+       JOIN user_profiles other_profile ON other_profile.id = other.user_id
+       WHERE mine.user_id = $1
+         AND LEAST(mine.ends_on, other.ends_on) >= CURRENT_DATE
+         AND ($2::text[] IS NULL OR other.user_id = ANY($2::text[]))
+         AND other_profile.is_visible_on_radar IS NOT FALSE
+         AND ((mine_plan.share_overlaps = TRUE AND other_plan.share_overlaps = TRUE) OR other.user_id = ANY($3::text[]))
+       ORDER BY GREATEST(mine.starts_on, other.starts_on), other.user_id`,
+      [userId, candidateIds || null, partners.map((partner) => partner.partnerId)]
+    ),
+    loadBlockedUserIds(userId),
+  ]);
+  const hiddenIds = await loadRadarHiddenUserIds(
+    userId,
+    Array.from(new Set(result.rows.map((row) => String(row.user_id))))
+  );
+
+  for (const row of result.rows) {
+    const otherId = String(row.user_id);
+    if (blockedIds.has(otherId) || hiddenIds.has(otherId)) continue;
+    const list = overlaps.get(otherId) || [];
+    if (!overlaps.has(otherId) && overlaps.size >= TRIP_MAX_OVERLAP_USERS) continue;
+    list.push({ city: row.city, startsOn: row.starts_on, endsOn: row.ends_on });
+    overlaps.set(otherId, list);
+  }
+  return overlaps;
+}
+
+/**
+ * Verified meetups per user from QR check-ins (hosts are credited once someone checks in). Each person met counts
+ * once however many activities they shared, so a host and a second account of theirs checking in to a weekly
+ * series earn a single meetup rather than one per occurrence.
+ */
+async function loadVerifiedAttendanceCounts(userIds: string[]): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  if (userIds.length === 0) return counts;
+  const ownRows: any[] = [];
+  const sharedRows: any[] = [];
+  // Trust scores still load without attendance if the table can't be read
+  try {
+    const sb = getSupabase();
+    for (const chunk of chunkIds(Array.from(new Set(userIds)))) {
+      const { data, error } = await sb
+        .from('activity_check_ins')
+        .select('activity_id, user_id')
+        .in('user_id', chunk);
+      if (error) throw error;
+      ownRows.push(...(data || []));
+    }
+    const activityIds = Array.from(new Set(ownRows.map((row: any) => String(row.activity_id))));
+    for (const chunk of chunkIds(activityIds)) {
+      const { data, error } = await sb
+        .from('activity_check_ins')
+        .select('activity_id, user_id')
+        .in('activity_id', chunk);
+      if (error) throw error;
+      sharedRows.push(...(data || []));
+    }
+  } catch (error) {
+    console.error("Failed to load verified attendance:", error);
+    return counts;
+  }
+
+  const attendeesByActivity = new Map<string, string[]>();
+  for (const row of sharedRows) {
+    const activityId = String(row.activity_id);
+    attendeesByActivity.set(activityId, [...(attendeesByActivity.get(activityId) || []), String(row.user_id)]);
+  }
+  const metByUser = new Map<string, Set<string>>();
+  for (const row of ownRows) {
+    const userId = String(row.user_id);
+    const met = metByUser.get(userId) || new Set<string>();
+    for (const otherId of attendeesByActivity.get(String(row.activity_id)) || []) {
+      if (otherId !== userId) met.add(otherId);
+    }
+    metByUser.set(userId, met);
+  }
+  for (const [userId, met] of metByUser) {
+    if (met.size > 0) counts[userId] = met.size;
+  }
+  return counts;
 }
 
 async function loadExploreXMetaForUsers(userIds: string[]): Promise<{
@@ -706,11 +1325,15 @@ async function loadExploreXMetaForUsers(userIds: string[]): Promise<{
   planByUser: Record<string, any>;
   meetupCountByUser: Record<string, number>;
 }> {
-  if (!pgPool || userIds.length === 0) {
+  if (userIds.length === 0) {
     return { intentByUser: {}, planByUser: {}, meetupCountByUser: {} };
   }
 
   const uniqueIds = Array.from(new Set(userIds));
+  const attendanceByUser = await loadVerifiedAttendanceCounts(uniqueIds);
+  if (!pgPool) {
+    return { intentByUser: {}, planByUser: {}, meetupCountByUser: attendanceByUser };
+  }
 
   const [intentRes, planRes, meetupRes] = await Promise.all([
     pgPool.query(
@@ -718,7 +1341,7 @@ async function loadExploreXMetaForUsers(userIds: string[]): Promise<{
       [uniqueIds]
     ),
     pgPool.query(
-      `SELECT DISTINCT ON (user_id) user_id, id, title, city, starts_at, expires_at, is_active, updated_at
+      `SELECT DISTINCT ON (user_id) user_id, id, title, city, starts_at, expires_at, is_active, share_overlaps, updated_at
        FROM explorex_plan_cards
        WHERE user_id = ANY($1::text[]) AND is_active = TRUE
        ORDER BY user_id, updated_at DESC`,
@@ -740,6 +1363,7 @@ async function loadExploreXMetaForUsers(userIds: string[]): Promise<{
     intentByUser[row.user_id] = normalizeIntentMode(row.mode);
   }
 
+  const stopsByPlan = await loadTripStopsByPlan(planRes.rows.map((row) => String(row.id)));
   const planByUser: Record<string, any> = {};
   for (const row of planRes.rows) {
     planByUser[row.user_id] = {
@@ -749,12 +1373,14 @@ async function loadExploreXMetaForUsers(userIds: string[]): Promise<{
       startsAt: row.starts_at || undefined,
       expiresAt: row.expires_at || undefined,
       isActive: row.is_active,
+      shareOverlaps: row.share_overlaps === true,
+      stops: stopsByPlan.get(String(row.id)) || [],
     };
   }
 
-  const meetupCountByUser: Record<string, number> = {};
+  const meetupCountByUser: Record<string, number> = { ...attendanceByUser };
   for (const row of meetupRes.rows) {
-    meetupCountByUser[row.user_id] = Number(row.count || 0);
+    meetupCountByUser[row.user_id] = (meetupCountByUser[row.user_id] || 0) + Number(row.count || 0);
   }
 
   return { intentByUser, planByUser, meetupCountByUser };
@@ -784,2371 +1410,7398 @@ function addExploreXProfileFields(profile: any, meta: {
   };
 }
 
-// In-memory storage for activity chat (would use database in production)
-interface ActivityChatMessage {
+const DISCOVER_PAGE_DEFAULT_LIMIT = 20;
+const DISCOVER_PAGE_MAX_LIMIT = 50;
+const DISCOVER_CANDIDATE_POOL = 500;
+
+// Weights add up to 100, so a candidate's score reads as a percentage match
+const DISCOVER_WEIGHTS = {
+  interests: 30,
+  style: 15,
+  distance: 20,
+  trust: 15,
+  intent: 10,
+  recency: 10,
+} as const;
+
+type DiscoverScoreBreakdown = Record<keyof typeof DISCOVER_WEIGHTS, number>;
+
+const DISCOVER_DISTANCE_HALF_SCORE_KM = 25;
+const DISCOVER_UNKNOWN_DISTANCE_SCORE = 0.25;
+const DISCOVER_RECENCY_HALF_LIFE_DAYS = 7;
+const KM_PER_MILE = 1.609344;
+
+// rankedAt is the clock the first page was scored with; later pages reuse it so recency scores don't drift
+interface DiscoverCursor {
+  rankedAt: number;
+  score: number;
   id: string;
-  activityId: string;
-  senderId: string;
-  senderName: string;
-  senderPhoto: string;
-  type: "text" | "photo" | "location" | "file" | "audio" | "system";
-  content: string;
-  photoUrl?: string;
-  fileUrl?: string;
-  fileName?: string;
-  audioUrl?: string;
-  audioDuration?: number;
-  replyTo?: { id: string; content: string; senderName?: string };
-  location?: { latitude: number; longitude: number; name?: string; address?: string };
-  isPinned: boolean;
-  pinnedBy?: string;
-  isModeratorMessage: boolean;
-  isEdited?: boolean;
-  reactions?: Record<string, string[]>;
-  createdAt: string;
-  deletedAt?: string;
 }
 
-interface ActivityModerator {
-  activityId: string;
-  userId: string;
-  isHost: boolean;
-  addedAt: string;
+interface DiscoverPageQuery {
+  limit: number;
+  cursor: DiscoverCursor | null;
+  debug: boolean;
 }
 
-interface ActivityUser {
-  id: string;
-  name: string;
-  email?: string;
-  age?: number;
-  bio?: string;
-  location?: string;
-  photos?: string[];
-  interests?: string[];
-  createdAt?: string;
+interface DiscoverLocation {
+  lat: number;
+  lng: number;
+  updatedAt: string | null;
 }
 
-interface Activity {
-  id: string;
-  title: string;
-  description: string;
-  type: "hiking" | "climbing" | "skiing" | "camping" | "surfing" | "other";
-  location: string;
-  latitude?: number;
-  longitude?: number;
-  date: string;
-  startTime?: string;
-  duration?: number;
-  hostId: string;
-  host: ActivityUser;
-  attendeeIds: string[];
-  attendees: ActivityUser[];
-  maxAttendees?: number;
-  imageUrl?: string;
-  isCompleted?: boolean;
-  createdAt: string;
+// The cursor is the "<rankedAt>:<score>:<id>" of the last card on the previous page
+function parseDiscoverPageQuery(query: Request["query"]): DiscoverPageQuery | { error: string } {
+  const read = (value: unknown) => (Array.isArray(value) ? String(value[0] || "") : String(value || "")).trim();
+  const rawLimit = read(query.limit);
+  const limit = rawLimit ? Number(rawLimit) : DISCOVER_PAGE_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { error: "limit must be a positive integer" };
+  }
+
+  const rawCursor = read(query.cursor);
+  let cursor: DiscoverCursor | null = null;
+  if (rawCursor) {
+    const [rawRankedAt, rawScore, ...idParts] = rawCursor.split(":");
+    const rankedAt = Number(rawRankedAt);
+    const score = Number(rawScore);
+    const id = idParts.join(":");
+    if (!Number.isInteger(rankedAt) || rankedAt <= 0 || rankedAt > Date.now() || !Number.isFinite(score) || !id) {
+      return { error: "cursor must look like <rankedAt>:<score>:<userId>" };
+    }
+    cursor = { rankedAt, score, id };
+  }
+
+  const debug = ["1", "true"].includes(read(query.debug).toLowerCase());
+  return { limit: Math.min(limit, DISCOVER_PAGE_MAX_LIMIT), cursor, debug };
 }
 
-interface SafetyRating {
-  id: string;
-  activityId: string;
-  ratedByUserId: string;
-  safetyScore: number;
-  wasLocationPublic: boolean;
-  hostWasTrustworthy: boolean;
-  createdAt: string;
+const DISCOVER_MIN_AGE = 18;
+const DISCOVER_MAX_AGE = 99;
+const DISCOVER_MAX_DISTANCE_KM = 500;
+const DISCOVER_MAX_VAN_TYPES = 20;
+
+interface DiscoverPreferences {
+  minAge: number;
+  maxAge: number;
+  maxDistanceKm: number | null;
+  intentModes: IntentMode[];
+  verifiedOnly: boolean;
+  lookingFor: LookingFor[];
+  vanTypes: string[];
 }
 
-interface SOSIncident {
-  id: string;
-  userId: string;
-  userName: string;
-  location?: {
-    latitude: number;
-    longitude: number;
-  };
-  emergencyContact?: {
-    name: string;
-    phone: string;
+const DEFAULT_DISCOVER_PREFERENCES: DiscoverPreferences = {
+  minAge: DISCOVER_MIN_AGE,
+  maxAge: DISCOVER_MAX_AGE,
+  maxDistanceKm: null,
+  intentModes: [],
+  verifiedOnly: false,
+  lookingFor: [],
+  vanTypes: [],
+};
+
+function mapDiscoverPreferencesRow(row: any): DiscoverPreferences {
+  if (!row) return { ...DEFAULT_DISCOVER_PREFERENCES };
+  const intentModes = Array.isArray(row.intent_modes)
+    ? row.intent_modes.filter((mode: unknown) => (VALID_INTENT_MODES as string[]).includes(String(mode)))
+    : [];
+  return {
+    minAge: Number(row.min_age) || DISCOVER_MIN_AGE,
+    maxAge: Number(row.max_age) || DISCOVER_MAX_AGE,
+    maxDistanceKm: row.max_distance_km === null || row.max_distance_km === undefined ? null : Number(row.max_distance_km),
+    intentModes,
+    verifiedOnly: row.verified_only === true,
+    lookingFor: normalizeLookingFor(row.looking_for),
+    vanTypes: Array.isArray(row.van_types) ? row.van_types.map((type: unknown) => String(type)) : [],
   };
-  timestamp: string;
-  resolved: boolean;
-  notes?: string;
 }
 
-const VAN_BUILD_SYSTEM_PROMPT = `You are an expert van conversion advisor for the ExploreX app. You help van lifers and nomads with:
-- Van conversion planning and design
-- Electrical systems (solar, batteries, inverters)
-- Plumbing and water systems
-- Insulation and climate control
-- Layout optimization
-- Material recommendations
-- Cost estimation
-- Safety considerations
-- DIY tips and professional recommendations
+// Validates a full preferences payload; omitted fields fall back to "no filter"
+function parseDiscoverPreferencesInput(body: any): DiscoverPreferences | { error: string } {
+  const minAge = body?.minAge === undefined ? DISCOVER_MIN_AGE : Number(body.minAge);
+  const maxAge = body?.maxAge === undefined ? DISCOVER_MAX_AGE : Number(body.maxAge);
+  if (!Number.isInteger(minAge) || !Number.isInteger(maxAge) || minAge < DISCOVER_MIN_AGE || maxAge > DISCOVER_MAX_AGE || minAge > maxAge) {
+    return { error: `Age range must be whole numbers between ${DISCOVER_MIN_AGE} and ${DISCOVER_MAX_AGE}` };
+  }
 
-Be friendly, practical, and specific. When discussing costs, provide realistic price ranges. When recommending products, mention popular brands that nomads trust. Always prioritize safety and code compliance.
+  let maxDistanceKm: number | null = null;
+  if (body?.maxDistanceKm !== undefined && body?.maxDistanceKm !== null) {
+    maxDistanceKm = Number(body.maxDistanceKm);
+    if (!Number.isInteger(maxDistanceKm) || maxDistanceKm < 1 || maxDistanceKm > DISCOVER_MAX_DISTANCE_KM) {
+      return { error: `maxDistanceKm must be between 1 and ${DISCOVER_MAX_DISTANCE_KM}, or null for any distance` };
+    }
+  }
 
-Keep responses concise but helpful. Use bullet points for lists. If someone asks about something dangerous, warn them appropriately.`;
+  const rawIntentModes = Array.isArray(body?.intentModes) ? body.intentModes.map((mode: unknown) => String(mode)) : [];
+  if (rawIntentModes.some((mode: string) => !(VALID_INTENT_MODES as string[]).includes(mode))) {
+    return { error: "intentModes contains an unknown intent mode" };
+  }
 
-const PHOTO_ANALYSIS_PROMPT = `You are analyzing a van build photo for the ExploreX app. Analyze the image and provide:
-1. What you see in the build (materials, layout, systems visible)
-2. What's done well
-3. Potential issues or safety concerns
-4. Suggestions for improvement
-5. Estimated completion percentage if applicable
+  const rawLookingFor = Array.isArray(body?.lookingFor) ? body.lookingFor.map((item: unknown) => String(item)) : [];
+  if (rawLookingFor.some((item: string) => !(VALID_LOOKING_FOR as string[]).includes(item))) {
+    return { error: "lookingFor contains an unknown category" };
+  }
 
-Be specific and constructive. Focus on practical advice.`;
+  const vanTypes = Array.from(new Set(
+    (Array.isArray(body?.vanTypes) ? body.vanTypes : [])
+      .map((type: unknown) => String(type || "").trim().slice(0, 40))
+      .filter(Boolean)
+  )) as string[];
+  if (vanTypes.length > DISCOVER_MAX_VAN_TYPES) {
+    return { error: `Pick at most ${DISCOVER_MAX_VAN_TYPES} van types` };
+  }
 
-const COST_ESTIMATOR_PROMPT = `You are a van conversion cost estimator for ExploreX. Based on the user's input about their van and desired features, provide:
-1. Estimated total cost range (low/mid/high scenarios)
-2. Breakdown by category (electrical, plumbing, insulation, furniture, etc.)
-3. Key materials list with approximate prices
-4. Money-saving tips
-5. Where to splurge vs save
+  return {
+    minAge,
+    maxAge,
+    maxDistanceKm,
+    intentModes: Array.from(new Set(rawIntentModes)) as IntentMode[],
+    verifiedOnly: body?.verifiedOnly === true,
+    lookingFor: Array.from(new Set(rawLookingFor)) as LookingFor[],
+    vanTypes,
+  };
+}
 
-Be realistic with current market prices. Consider DIY vs professional installation costs.`;
+async function loadDiscoverPreferences(userId: string): Promise<DiscoverPreferences> {
+  if (pgPool) {
+    const result = await pgPool.query(`SELECT * FROM discover_preferences WHERE user_id = $1 LIMIT 1`, [userId]);
+    return mapDiscoverPreferencesRow(result.rows[0]);
+  }
+  const { data, error } = await getSupabase()
+    .from('discover_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return mapDiscoverPreferencesRow(data);
+}
 
-export async function registerRoutes(app: Express): Promise<Server> {
+function hasDiscoverFilters(prefs: DiscoverPreferences): boolean {
+  return prefs.minAge !== DISCOVER_MIN_AGE ||
+    prefs.maxAge !== DISCOVER_MAX_AGE ||
+    prefs.maxDistanceKm !== null ||
+    prefs.intentModes.length > 0 ||
+    prefs.verifiedOnly ||
+    prefs.lookingFor.length > 0 ||
+    prefs.vanTypes.length > 0;
+}
 
-  checkSupabaseTables().catch(err => console.error("[DB] Table check failed:", err));
-  ensureAuthTables().catch(err => console.error("[DB] Auth table setup failed:", err));
-  ensureExploreXTables().catch(err => console.error("[DB] ExploreX table setup failed:", err));
-  ensureSocialTables().catch(err => console.error("[DB] Social table setup failed:", err));
-  ensureDemoDiscoverProfile().catch(err => console.error("[DB] Demo discover profile setup failed:", err));
-  ensureUploadsDir();
+// Collects query parameters while SQL is assembled; `next` binds a value and returns its placeholder
+function sqlParamBinder(firstParam = 1) {
+  const params: unknown[] = [];
+  const next = (value: unknown) => {
+    params.push(value);
+    return `$${firstParam + params.length - 1}`;
+  };
+  return { params, next };
+}
 
-  const uploadStorage = multer.diskStorage({
-    destination: (_req, _file, cb) => cb(null, uploadsRootDir),
-    filename: (req, file, cb) => {
-      const category = sanitizeCategory(req.body?.category);
-      const ext = path.extname(file.originalname || "") || "";
-      const safeExt = ext.replace(/[^a-zA-Z0-9.]/g, "").slice(0, 10);
-      const unique = `${category}_${Date.now()}_${randomBytes(4).toString("hex")}${safeExt}`;
-      cb(null, unique);
-    },
-  });
+function haversineKmSql(latExpr: string, lngExpr: string, centerLat: string, centerLng: string): string {
+  return `(2 * 6371 * ASIN(SQRT(
+    POWER(SIN(RADIANS(${latExpr} - ${centerLat}) / 2), 2) +
+    COS(RADIANS(${centerLat})) * COS(RADIANS(${latExpr})) * POWER(SIN(RADIANS(${lngExpr} - ${centerLng}) / 2), 2)
+  )))`;
+}
 
-  const uploadMiddleware = multer({
-    storage: uploadStorage,
-    limits: { fileSize: 25 * 1024 * 1024 },
-  });
+// Radius filter for pg: geohash cell ranges narrow the rows through the index, then haversine keeps the exact circle
+function buildRadiusSql(
+  columns: { lat: string; lng: string; geohash: string },
+  center: { lat: number; lng: number },
+  radiusKm: number,
+  next: (value: unknown) => string
+) {
+  const distance = haversineKmSql(columns.lat, columns.lng, next(center.lat), next(center.lng));
+  const cells = geohashCellsCoveringRadius(center.lat, center.lng, radiusKm);
+  const clauses = [`${distance} <= ${next(radiusKm)}`];
+  if (cells) {
+    const ranges = geohashRanges(cells).map((range) => `(${columns.geohash} >= ${next(range.from)} AND ${columns.geohash} < ${next(range.to)})`);
+    clauses.unshift(`(${ranges.join(" OR ")})`);
+  }
+  return { clause: clauses.join(" AND "), distance };
+}
 
-  // Backward-compatible download endpoint for older chat/file URLs.
-  app.get("/api/uploads/:fileName", async (req: Request, res: Response) => {
-    try {
-      const raw = String(req.params.fileName || "");
-      const safe = path.basename(raw);
-      if (!safe) {
-        return res.status(400).json({ error: "Invalid file name" });
-      }
-      const full = path.join(uploadsRootDir, safe);
-      if (!fs.existsSync(full)) {
-        return res.status(404).json({ error: "File not found" });
-      }
-      return res.sendFile(full);
-    } catch (error) {
-      console.error("Upload fetch failed:", error);
-      return res.status(500).json({ error: "Failed to fetch file" });
-    }
-  });
+// PostgREST returns at most 1000 rows per request, and a long `in` list overflows the request URL
+const SUPABASE_PAGE_SIZE = 1000;
+const SUPABASE_ID_CHUNK = 200;
 
-  app.post("/api/uploads", uploadMiddleware.single("file"), async (req: Request, res: Response) => {
-    try {
-      if (!req.file) {
-        return res.status(400).json({ error: "File is required" });
-      }
+function chunkIds(ids: string[], size = SUPABASE_ID_CHUNK): string[][] {
+  const chunks: string[][] = [];
+  for (let index = 0; index < ids.length; index += size) chunks.push(ids.slice(index, index + size));
+  return chunks;
+}
 
-      const relativeUrl = `/uploads/${req.file.filename}`;
-      // Return relative URL so mobile always resolves against current API host.
-      const url = relativeUrl;
+// Supabase has no haversine, so only the cell ranges are filtered in the database; callers check the exact radius
+function geohashOrFilter(center: { lat: number; lng: number }, radiusKm: number): string | null {
+  const cells = geohashCellsCoveringRadius(center.lat, center.lng, radiusKm);
+  if (!cells) return null;
+  return geohashRanges(cells).map((range) => `and(geohash.gte.${range.from},geohash.lt.${range.to})`).join(",");
+}
 
-      return res.json({
-        success: true,
-        url,
-        fileName: req.file.originalname,
-        fileType: req.file.mimetype || "application/octet-stream",
-        size: req.file.size,
-      });
-    } catch (error) {
-      console.error("Upload failed:", error);
-      return res.status(500).json({ error: "Upload failed" });
-    }
-  });
+// activities stores coordinates as text; anything that is not a plain number reads as NULL instead of failing the cast
+const ACTIVITY_LAT_SQL = `(CASE WHEN latitude ~ '^\\s*-?[0-9]+(\\.[0-9]+)?\\s*$' THEN latitude::double precision END)`;
+const ACTIVITY_LNG_SQL = `(CASE WHEN longitude ~ '^\\s*-?[0-9]+(\\.[0-9]+)?\\s*$' THEN longitude::double precision END)`;
 
-  app.post("/api/auth/signup", authRateLimit, async (req: Request, res: Response) => {
-    try {
-      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+// Extra WHERE clauses on user_profiles for the pg candidate query; placeholders continue from `firstParam`.
+// The distance filter is skipped when the viewer has no known location.
+function buildDiscoverFilterSql(prefs: DiscoverPreferences, viewerLocation: DiscoverLocation | null, firstParam: number) {
+  const clauses: string[] = [];
+  const { params, next } = sqlParamBinder(firstParam);
 
-      const email = normalizeEmail(req.body?.email);
-      const password = String(req.body?.password || "");
-      const name = String(req.body?.name || "").trim();
+  if (prefs.minAge !== DISCOVER_MIN_AGE || prefs.maxAge !== DISCOVER_MAX_AGE) {
+    clauses.push(`age BETWEEN ${next(prefs.minAge)} AND ${next(prefs.maxAge)}`);
+  }
+  if (prefs.verifiedOnly) {
+    clauses.push(`is_travel_verified = TRUE`);
+  }
+  if (prefs.lookingFor.length > 0) {
+    clauses.push(`looking_for ?| ${next(prefs.lookingFor)}::text[]`);
+  }
+  if (prefs.vanTypes.length > 0) {
+    clauses.push(`LOWER(van_type) = ANY(${next(prefs.vanTypes.map((type) => type.toLowerCase()))}::text[])`);
+  }
+  if (prefs.intentModes.length > 0) {
+    clauses.push(
+      `COALESCE((SELECT mode FROM explorex_intents i WHERE i.user_id = user_profiles.id), 'explore_city') = ANY(${next(prefs.intentModes)}::text[])`
+    );
+  }
+  if (prefs.maxDistanceKm !== null && viewerLocation) {
+    // Widened like the radar scan: people are kept or dropped on the distance they are shown, in rankDiscoverCandidates
+    const radius = buildRadiusSql(
+      { lat: "l.lat", lng: "l.lng", geohash: "l.geohash" },
+      viewerLocation,
+      prefs.maxDistanceKm + LOCATION_FUZZ_MARGIN_KM,
+      next
+    );
+    clauses.push(`EXISTS (SELECT 1 FROM user_locations l WHERE l.user_id = user_profiles.id AND ${radius.clause})`);
+  }
 
-      if (!email || !password || !name) {
-        return res.status(400).json({ error: "Name, email and password are required" });
-      }
+  return { clauses, params };
+}
 
-      if (!isValidEmail(email)) {
-        return res.status(400).json({ error: "Please enter a valid email" });
+async function loadSupabaseUserIdsWithinKm(center: DiscoverLocation, radiusKm: number): Promise<string[]> {
+  const cellFilter = geohashOrFilter(center, radiusKm);
+  const ids: string[] = [];
+  for (let offset = 0; ; offset += SUPABASE_PAGE_SIZE) {
+    let query = getSupabase().from('user_locations').select('user_id, lat, lng');
+    if (cellFilter) query = query.or(cellFilter);
+    const { data, error } = await query.order('user_id', { ascending: true }).range(offset, offset + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const row of data || []) {
+      if (distanceKmBetween(center, { lat: Number(row.lat), lng: Number(row.lng), updatedAt: null }) <= radiusKm) {
+        ids.push(String(row.user_id));
       }
+    }
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+  return ids;
+}
 
-      if (!isStrongPassword(password)) {
-        return res.status(400).json({ error: "Password must be at least 8 chars and include uppercase, lowercase, number, and symbol" });
-      }
+async function saveUserLocation(userId: string, lat: number, lng: number, updatedAt: string): Promise<void> {
+  const geohash = encodeGeohashOrNull(lat, lng);
+  if (pgPool) {
+    await pgPool.query(
+      `INSERT INTO user_locations (user_id, lat, lng, geohash, updated_at)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id) DO UPDATE
+       SET lat = EXCLUDED.lat, lng = EXCLUDED.lng, geohash = EXCLUDED.geohash, updated_at = EXCLUDED.updated_at`,
+      [userId, lat, lng, geohash, updatedAt]
+    );
+    return;
+  }
 
-      const existing = await pgPool.query("SELECT id FROM app_users WHERE email = $1 LIMIT 1", [email]);
-      if (existing.rowCount) {
-        return res.status(409).json({ error: "Email already registered" });
-      }
+  const sb = getSupabase();
+  const { data: existing } = await sb
+    .from('user_locations')
+    .select('user_id')
+    .eq('user_id', userId);
+
+  if (existing && existing.length > 0) {
+    await sb
+      .from('user_locations')
+      .update({ lat, lng, geohash, updated_at: updatedAt })
+      .eq('user_id', userId);
+  } else {
+    await sb
+      .from('user_locations')
+      .insert({ user_id: userId, lat, lng, geohash, updated_at: updatedAt });
+  }
+}
 
-      const passwordHash = hashPassword(password);
-      const created = await pgPool.query(
-        `INSERT INTO app_users (email, password_hash, name)
-         VALUES ($1, $2, $3)
-         RETURNING id, email, name, created_at`,
-        [email, passwordHash, name]
-      );
+// Coordinates and distance of another user as `viewerId` may see them, at the precision that user chose
+function mapRadarUser(viewerId: string, center: { lat: number; lng: number }, row: any, profile: any) {
+  const shown = fuzzLocationForViewer(
+    center,
+    { userId: String(row.user_id), lat: Number(row.lat), lng: Number(row.lng) },
+    viewerId,
+    normalizeLocationPrecision(profile.location_precision),
+    getSessionSecret()
+  );
+  return {
+    userId: String(row.user_id),
+    lat: shown.lat,
+    lng: shown.lng,
+    distance: shown.distanceKm,
+    name: profile.name || "Nomad",
+    age: profile.age,
+    bio: profile.bio,
+    interests: profile.interests || [],
+    photos: profile.photos || [],
+    location: profile.location,
+    lastSeen: row.updated_at,
+  };
+}
 
-      const user = created.rows[0];
+function radarRowLocations(rows: any[]): Map<string, DiscoverLocation> {
+  return new Map(rows.map((row) => [String(row.user_id), { lat: Number(row.lat), lng: Number(row.lng), updatedAt: null }]));
+}
 
-      const profilePayload = {
-        id: user.id,
-        email: user.email,
-        name: user.name || name,
-        age: 25,
-        bio: "",
-        location: "",
-        photos: [],
-        interests: [],
-      };
+function compareRadarUsers(a: { distance: number; lastSeen: any }, b: { distance: number; lastSeen: any }): number {
+  if (a.distance !== b.distance) return a.distance - b.distance;
+  return String(b.lastSeen || "").localeCompare(String(a.lastSeen || ""));
+}
 
-      // Keep API compatibility with existing client profile reads
-      await pgPool.query(
-        `INSERT INTO user_profiles (id, email, name, age, bio, location, photos, interests, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8::jsonb, NOW(), NOW())
-         ON CONFLICT (id) DO UPDATE
-         SET email = EXCLUDED.email,
-             name = EXCLUDED.name,
-             age = EXCLUDED.age,
-             bio = EXCLUDED.bio,
-             location = EXCLUDED.location,
-             photos = EXCLUDED.photos,
-             interests = EXCLUDED.interests,
-             updated_at = NOW()`,
-        [
-          profilePayload.id,
-          profilePayload.email,
-          profilePayload.name,
-          profilePayload.age,
-          profilePayload.bio,
-          profilePayload.location,
-          JSON.stringify(profilePayload.photos),
-          JSON.stringify(profilePayload.interests),
-        ]
-      );
+const RADAR_GHOST_MS = 2 * 60 * 60 * 1000;
+const RADAR_HOME_BASE_DEFAULT_RADIUS_KM = 1;
+const RADAR_HOME_BASE_MAX_RADIUS_KM = 50;
 
-      return res.json({
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name || name,
-          createdAt: user.created_at,
-        },
-        sessionToken: createSessionToken(String(user.id)),
-      });
-    } catch (error) {
-      console.error("Signup failed:", error);
-      return res.status(500).json({ error: "Signup failed" });
-    }
-  });
+interface RadarHomeBase {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
 
-  app.post("/api/auth/login", authRateLimit, async (req: Request, res: Response) => {
-    try {
-      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+// Rules a user sets on top of the radar on/off switch. Night hours are in the user's own time zone.
+interface RadarVisibilityRules {
+  hideAtNight: boolean;
+  nightStartHour: number;
+  nightEndHour: number;
+  timeZone: string;
+  homeBase: RadarHomeBase | null;
+  matchesOnly: boolean;
+  verifiedOnly: boolean;
+  ghostUntil: string | null;
+}
 
-      const email = normalizeEmail(req.body?.email);
-      const password = String(req.body?.password || "");
+const DEFAULT_RADAR_VISIBILITY_RULES: RadarVisibilityRules = {
+  hideAtNight: false,
+  nightStartHour: 22,
+  nightEndHour: 7,
+  timeZone: "UTC",
+  homeBase: null,
+  matchesOnly: false,
+  verifiedOnly: false,
+  ghostUntil: null,
+};
 
-      if (!email || !password) {
-        return res.status(400).json({ error: "Email and password are required" });
-      }
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-      const authKey = getAuthAttemptKey(req, email);
-      const lock = getLockState(authKey);
-      if (lock.locked) {
-        await sleep(300 + Math.floor(Math.random() * 200));
-        return res.status(429).json({ error: "Too many login attempts. Please try again later." });
-      }
+function mapRadarVisibilityRulesRow(row: any): RadarVisibilityRules {
+  if (!row) return { ...DEFAULT_RADAR_VISIBILITY_RULES };
+  const homeLat = row.home_base_lat === null || row.home_base_lat === undefined ? NaN : Number(row.home_base_lat);
+  const homeLng = row.home_base_lng === null || row.home_base_lng === undefined ? NaN : Number(row.home_base_lng);
+  return {
+    hideAtNight: row.hide_at_night === true,
+    nightStartHour: Number(row.night_start_hour ?? DEFAULT_RADAR_VISIBILITY_RULES.nightStartHour),
+    nightEndHour: Number(row.night_end_hour ?? DEFAULT_RADAR_VISIBILITY_RULES.nightEndHour),
+    timeZone: row.time_zone && isValidTimeZone(String(row.time_zone)) ? String(row.time_zone) : "UTC",
+    homeBase: Number.isFinite(homeLat) && Number.isFinite(homeLng)
+      ? { lat: homeLat, lng: homeLng, radiusKm: Number(row.home_base_radius_km) || RADAR_HOME_BASE_DEFAULT_RADIUS_KM }
+      : null,
+    matchesOnly: row.matches_only === true,
+    verifiedOnly: row.verified_only === true,
+    ghostUntil: row.ghost_until ? new Date(row.ghost_until).toISOString() : null,
+  };
+}
 
-      const result = await pgPool.query(
-        "SELECT id, email, name, password_hash, created_at FROM app_users WHERE email = $1 LIMIT 1",
-        [email]
-      );
+// Validates a full rules payload; ghost mode has its own endpoints and is never set from here
+function parseRadarVisibilityRulesInput(body: any): Omit<RadarVisibilityRules, "ghostUntil"> | { error: string } {
+  const nightStartHour = body?.nightStartHour === undefined ? DEFAULT_RADAR_VISIBILITY_RULES.nightStartHour : Number(body.nightStartHour);
+  const nightEndHour = body?.nightEndHour === undefined ? DEFAULT_RADAR_VISIBILITY_RULES.nightEndHour : Number(body.nightEndHour);
+  if (![nightStartHour, nightEndHour].every((hour) => Number.isInteger(hour) && hour >= 0 && hour <= 23)) {
+    return { error: "Night hours must be whole hours between 0 and 23" };
+  }
 
-      const row = result.rowCount ? result.rows[0] : null;
-      const passwordOk = row ? verifyPassword(password, row.password_hash) : false;
-      if (!passwordOk) {
-        recordFailedLogin(authKey);
-        await sleep(300 + Math.floor(Math.random() * 200));
-        return res.status(401).json({ error: "Invalid credentials" });
-      }
+  const timeZone = body?.timeZone === undefined ? "UTC" : String(body.timeZone);
+  if (!isValidTimeZone(timeZone)) {
+    return { error: "timeZone must be an IANA time zone such as Europe/Lisbon" };
+  }
 
-      clearFailedLogins(authKey);
+  let homeBase: RadarHomeBase | null = null;
+  if (body?.homeBase !== undefined && body?.homeBase !== null) {
+    const lat = Number(body.homeBase.lat);
+    const lng = Number(body.homeBase.lng);
+    const radiusKm = body.homeBase.radiusKm === undefined ? RADAR_HOME_BASE_DEFAULT_RADIUS_KM : Number(body.homeBase.radiusKm);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return { error: "homeBase needs a valid lat and lng" };
+    }
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > RADAR_HOME_BASE_MAX_RADIUS_KM) {
+      return { error: `homeBase.radiusKm must be above 0 and at most ${RADAR_HOME_BASE_MAX_RADIUS_KM}` };
+    }
+    homeBase = { lat, lng, radiusKm };
+  }
 
-      return res.json({
-        user: {
-          id: row.id,
-          email: row.email,
-          name: row.name || row.email.split("@")[0],
-          createdAt: row.created_at,
-        },
-        sessionToken: createSessionToken(String(row.id)),
-      });
-    } catch (error) {
-      console.error("Login failed:", error);
-      return res.status(500).json({ error: "Login failed" });
+  return {
+    hideAtNight: body?.hideAtNight === true,
+    nightStartHour,
+    nightEndHour,
+    timeZone,
+    homeBase,
+    matchesOnly: body?.matchesOnly === true,
+    verifiedOnly: body?.verifiedOnly === true,
+  };
+}
+
+async function loadRadarVisibilityRules(userIds: string[]): Promise<Map<string, RadarVisibilityRules>> {
+  const rulesByUser = new Map<string, RadarVisibilityRules>();
+  if (userIds.length === 0) return rulesByUser;
+
+  let rows: any[] = [];
+  if (pgPool) {
+    const result = await pgPool.query(`SELECT * FROM radar_visibility_rules WHERE user_id = ANY($1::text[])`, [userIds]);
+    rows = result.rows;
+  } else {
+    for (const ids of chunkIds(userIds)) {
+      const { data, error } = await getSupabase()
+        .from('radar_visibility_rules')
+        .select('*')
+        .in('user_id', ids);
+      if (error) throw error;
+      rows.push(...(data || []));
     }
-  });
+  }
 
-  // Health check
-  app.get("/api/health", (_req: Request, res: Response) => {
-    res.json({ ok: true, service: "nomad-connect-api" });
-  });
+  for (const row of rows) {
+    rulesByUser.set(String(row.user_id), mapRadarVisibilityRulesRow(row));
+  }
+  return rulesByUser;
+}
 
-  const AI_ADVISOR_ENABLED = process.env.ENABLE_AI_ADVISOR === "true";
+function isWithinNightHours(rules: RadarVisibilityRules, now: Date): boolean {
+  if (rules.nightStartHour === rules.nightEndHour) return false;
+  const hour = Number(
+    new Intl.DateTimeFormat("en-US", { timeZone: rules.timeZone, hour: "numeric", hourCycle: "h23" }).format(now)
+  ) % 24;
+  // A window such as 22–7 wraps past midnight
+  return rules.nightStartHour < rules.nightEndHour
+    ? hour >= rules.nightStartHour && hour < rules.nightEndHour
+    : hour >= rules.nightStartHour || hour < rules.nightEndHour;
+}
 
-  app.get("/api/ai/ping", async (_req: Request, res: Response) => {
-    if (!AI_ADVISOR_ENABLED) {
-      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+function isHiddenByRadarRules(
+  rules: RadarVisibilityRules,
+  context: { location: DiscoverLocation | null; isMatch: boolean; viewerVerified: boolean },
+  now: Date
+): boolean {
+  if (rules.ghostUntil && new Date(rules.ghostUntil).getTime() > now.getTime()) return true;
+  if (rules.hideAtNight && isWithinNightHours(rules, now)) return true;
+  if (rules.homeBase && context.location) {
+    const fromHome = distanceKmBetween({ ...rules.homeBase, updatedAt: null }, context.location);
+    if (fromHome <= rules.homeBase.radiusKm) return true;
+  }
+  if (rules.matchesOnly && !context.isMatch) return true;
+  if (rules.verifiedOnly && !context.viewerVerified) return true;
+  return false;
+}
+
+// Candidates that `viewerId` may not see under the candidates' own visibility rules; users without rules are never hidden.
+// Home base checks use `knownLocations` where the caller already has them and the last saved location otherwise.
+async function loadRadarHiddenUserIds(
+  viewerId: string,
+  candidateIds: string[],
+  knownLocations?: Map<string, DiscoverLocation>
+): Promise<Set<string>> {
+  const hidden = new Set<string>();
+  const rulesByUser = await loadRadarVisibilityRules(candidateIds);
+  if (rulesByUser.size === 0) return hidden;
+
+  const entries = Array.from(rulesByUser.entries());
+  const [savedLocations, partners, viewerRow] = await Promise.all([
+    loadDiscoverLocations(entries.filter(([id, rules]) => rules.homeBase && !knownLocations?.has(id)).map(([id]) => id)),
+    entries.some(([, rules]) => rules.matchesOnly) ? loadMatchPartners(viewerId) : Promise.resolve([]),
+    entries.some(([, rules]) => rules.verifiedOnly) ? loadProfileRow(viewerId) : Promise.resolve(null),
+  ]);
+  const partnerIds = new Set(partners.map((partner) => partner.partnerId));
+  const viewerVerified = viewerRow?.is_travel_verified === true;
+  const now = new Date();
+
+  for (const [id, rules] of entries) {
+    const location = knownLocations?.get(id) || savedLocations.get(id) || null;
+    if (isHiddenByRadarRules(rules, { location, isMatch: partnerIds.has(id), viewerVerified }, now)) hidden.add(id);
+  }
+  return hidden;
+}
+
+// A cell is only reported once this many travel-verified nomads share it, and its count is rounded down to a multiple
+// of it. Locations are self-reported, so counting only verified accounts keeps a handful of throwaway accounts
+// parked in a cell from tipping it over the threshold and revealing whether one real person is there too.
+const HEATMAP_MIN_CELL_USERS = 5;
+// About the size of the finest (5-character) cell, so an area can't be narrowed down below one cell
+const HEATMAP_MIN_RADIUS_KM = 5;
+const HEATMAP_DEFAULT_RADIUS_KM = 150;
+const HEATMAP_MAX_RADIUS_KM = 500;
+const HEATMAP_RECENT_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface HeatmapCell {
+  geohash: string;
+  count: number;
+  bounds: GeohashBounds;
+}
+
+// Coarser cells for wider areas keep the overlay readable; 5 characters (about 5 km) is the finest ever used
+function heatmapPrecisionForRadius(radiusKm: number): number {
+  if (radiusKm > 250) return 3;
+  if (radiusKm > 40) return 4;
+  return 5;
+}
+
+interface HeatmapCount {
+  cell: string;
+  count: number;
+  verified: number;
+}
+
+function buildHeatmapCells(counts: HeatmapCount[]): HeatmapCell[] {
+  return counts
+    .filter((entry) => entry.verified >= HEATMAP_MIN_CELL_USERS)
+    .map((entry) => ({
+      geohash: entry.cell,
+      count: Math.floor(entry.count / HEATMAP_MIN_CELL_USERS) * HEATMAP_MIN_CELL_USERS,
+      bounds: decodeGeohashBounds(entry.cell),
+    }))
+    .sort((a, b) => b.count - a.count || (a.geohash < b.geohash ? -1 : 1));
+}
+
+function addHeatmapCount(counts: Map<string, HeatmapCount>, cell: string, count: number, verified: number) {
+  const entry = counts.get(cell) || { cell, count: 0, verified: 0 };
+  entry.count += count;
+  entry.verified += verified;
+  counts.set(cell, entry);
+}
+
+/**
+ * Counts recently located users in every geohash cell that touches the circle around `center`. Cells are always
+ * counted whole: clipping them to the caller's circle would let a small circle slid across a cell tell which part
+ * of it someone is in. Users hidden from the radar, in ghost mode, in their night hours or at their home base are
+ * left out entirely; the audience rules (matches or verified viewers only) decide who sees whom, which an aggregate
+ * never reveals, so they don't apply here.
+ */
+async function loadHeatmapCells(center: { lat: number; lng: number }, radiusKm: number, precision: number): Promise<HeatmapCell[]> {
+  const recentThreshold = new Date(Date.now() - HEATMAP_RECENT_MS).toISOString();
+  const cells = geohashCellsIntersectingRadius(center.lat, center.lng, radiusKm, precision);
+  if (cells.length === 0) return [];
+
+  const now = new Date();
+  const counts = new Map<string, HeatmapCount>();
+  const isShown = (rules: RadarVisibilityRules | undefined, location: DiscoverLocation) =>
+    !rules || !isHiddenByRadarRules(rules, { location, isMatch: true, viewerVerified: true }, now);
+
+  const pool = pgPool;
+  if (pool) {
+    // Users whose rules depend on the time or their position are read row by row; everyone else is counted in SQL
+    const queryCells = (select: (query: ReturnType<typeof sqlParamBinder>) => string, condition: string, groupBy: string) => {
+      const query = sqlParamBinder();
+      const selected = select(query);
+      const ranges = geohashRanges(cells).map((range) => `(l.geohash >= ${query.next(range.from)} AND l.geohash < ${query.next(range.to)})`);
+      return pool.query(
+        `SELECT ${selected}
+         FROM user_locations l
+         JOIN user_profiles p ON p.id = l.user_id
+         LEFT JOIN radar_visibility_rules r ON r.user_id = l.user_id
+         WHERE l.geohash IS NOT NULL
+           AND l.updated_at >= ${query.next(recentThreshold)}
+           AND p.is_visible_on_radar IS NOT FALSE
+           AND (r.ghost_until IS NULL OR r.ghost_until <= NOW())
+           AND (${ranges.join(" OR ")})
+           AND ${condition}
+         ${groupBy}`,
+        query.params
+      );
+    };
+    const [grouped, ruled] = await Promise.all([
+      queryCells(
+        (query) => `LEFT(l.geohash, ${query.next(precision)}) AS cell, COUNT(*)::int AS count,
+                    COUNT(*) FILTER (WHERE p.is_travel_verified = TRUE)::int AS verified`,
+        `(r.user_id IS NULL OR (r.hide_at_night IS NOT TRUE AND r.home_base_lat IS NULL))`,
+        `GROUP BY 1`
+      ),
+      queryCells(
+        (query) => `LEFT(l.geohash, ${query.next(precision)}) AS cell, l.lat AS location_lat, l.lng AS location_lng,
+                    p.is_travel_verified, r.*`,
+        `(r.hide_at_night = TRUE OR r.home_base_lat IS NOT NULL)`,
+        ``
+      ),
+    ]);
+    for (const row of grouped.rows) {
+      addHeatmapCount(counts, String(row.cell), Number(row.count), Number(row.verified));
     }
-    try {
-      const reply = await callGroqChat([{ role: "user", content: "ping" }]);
-      res.json({ ok: true, response: reply });
-    } catch (error) {
-      console.error("AI ping error:", error);
-      res.status(500).json({ ok: false, error: "Failed to ping AI", detail: (error as Error)?.message });
+    for (const row of ruled.rows) {
+      const location = { lat: Number(row.location_lat), lng: Number(row.location_lng), updatedAt: null };
+      if (!isShown(mapRadarVisibilityRulesRow(row), location)) continue;
+      addHeatmapCount(counts, String(row.cell), 1, row.is_travel_verified === true ? 1 : 0);
     }
-  });
+    return buildHeatmapCells(Array.from(counts.values()));
+  }
 
-  // AI Van Build Chat endpoint
-  app.get("/api/ai/chat", (_req: Request, res: Response) => {
-    if (!AI_ADVISOR_ENABLED) {
-      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
-    }
-    res.status(405).json({ error: "Use POST /api/ai/chat with { messages: [...] }" });
-  });
-  app.post("/api/ai/chat", async (req: Request, res: Response) => {
-    if (!AI_ADVISOR_ENABLED) {
-      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+  // A filter per cell would overflow the request URL, so Supabase is asked for a covering area and cells are matched here
+  const cellSet = new Set(cells);
+  const sample = decodeGeohashBounds(cells[0]);
+  const cellDiagonalKm = distanceKmBetween(
+    { lat: sample.south, lng: sample.west, updatedAt: null },
+    { lat: sample.north, lng: sample.east, updatedAt: null }
+  );
+  const cellFilter = geohashOrFilter(center, radiusKm + cellDiagonalKm);
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += SUPABASE_PAGE_SIZE) {
+    let locationsQuery = getSupabase()
+      .from('user_locations')
+      .select('user_id, lat, lng, geohash')
+      .gte('updated_at', recentThreshold);
+    if (cellFilter) locationsQuery = locationsQuery.or(cellFilter);
+    const { data, error } = await locationsQuery.order('user_id', { ascending: true }).range(offset, offset + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+
+  const inCells = rows.filter((row: any) => row.geohash && cellSet.has(String(row.geohash).slice(0, precision)));
+  const userIds = inCells.map((row: any) => String(row.user_id));
+  const profileRows: any[] = [];
+  for (const ids of chunkIds(userIds)) {
+    const { data, error } = await getSupabase()
+      .from('user_profiles')
+      .select('id, is_visible_on_radar, is_travel_verified')
+      .in('id', ids);
+    if (error) throw error;
+    profileRows.push(...(data || []));
+  }
+  const profileById = new Map(profileRows.map((row: any) => [String(row.id), row]));
+  const rulesByUser = await loadRadarVisibilityRules(userIds);
+
+  for (const row of inCells) {
+    const userId = String(row.user_id);
+    const profile = profileById.get(userId);
+    if (!profile || profile.is_visible_on_radar === false) continue;
+    if (!isShown(rulesByUser.get(userId), { lat: Number(row.lat), lng: Number(row.lng), updatedAt: null })) continue;
+    addHeatmapCount(counts, String(row.geohash).slice(0, precision), 1, profile.is_travel_verified === true ? 1 : 0);
+  }
+  return buildHeatmapCells(Array.from(counts.values()));
+}
+
+const GEOHASH_BACKFILL_BATCH = 500;
+
+// Rows written before the geohash column existed are invisible to radius queries, so they are filled in at startup.
+// Pages are keyed on the id, so rows whose coordinates cannot be encoded are skipped rather than refetched forever.
+async function backfillTableGeohashes(table: string, idColumn: string, latColumn: string, lngColumn: string): Promise<number> {
+  let lastId = "";
+  let updated = 0;
+
+  for (;;) {
+    let rows: any[];
+    if (pgPool) {
+      const result = await pgPool.query(
+        `SELECT ${idColumn} AS id, ${latColumn} AS lat, ${lngColumn} AS lng FROM ${table}
+         WHERE geohash IS NULL AND ${idColumn} > $1
+         ORDER BY ${idColumn}
+         LIMIT $2`,
+        [lastId, GEOHASH_BACKFILL_BATCH]
+      );
+      rows = result.rows;
+    } else {
+      const { data, error } = await getSupabase()
+        .from(table)
+        .select(`${idColumn}, ${latColumn}, ${lngColumn}`)
+        .is('geohash', null)
+        .gt(idColumn, lastId)
+        .order(idColumn, { ascending: true })
+        .limit(GEOHASH_BACKFILL_BATCH);
+      if (error) throw error;
+      rows = (data || []).map((row: any) => ({ id: row[idColumn], lat: row[latColumn], lng: row[lngColumn] }));
     }
-    try {
-      const { messages, systemPrompt } = req.body;
+    if (rows.length === 0) break;
+    lastId = String(rows[rows.length - 1].id);
 
-      if (!messages || !Array.isArray(messages)) {
-        return res.status(400).json({ error: "Messages array required" });
+    const encoded = rows
+      .map((row) => ({ id: String(row.id), geohash: encodeGeohashOrNull(row.lat, row.lng) }))
+      .filter((row): row is { id: string; geohash: string } => row.geohash !== null);
+    if (encoded.length > 0) {
+      if (pgPool) {
+        await pgPool.query(
+          `UPDATE ${table} t SET geohash = v.geohash
+           FROM unnest($1::text[], $2::text[]) AS v(id, geohash)
+           WHERE t.${idColumn} = v.id`,
+          [encoded.map((row) => row.id), encoded.map((row) => row.geohash)]
+        );
+      } else {
+        const sb = getSupabase();
+        await Promise.all(encoded.map((row) => sb.from(table).update({ geohash: row.geohash }).eq(idColumn, row.id)));
       }
+      updated += encoded.length;
+    }
+    if (rows.length < GEOHASH_BACKFILL_BATCH) break;
+  }
 
-      const systemText = systemPrompt || VAN_BUILD_SYSTEM_PROMPT;
-      const groqMessages = [
-        { role: "system", content: systemText },
-        ...messages.map((m: { role: string; content: string }) => ({
-          role: m.role,
-          content: m.content,
-        })),
-      ];
+  return updated;
+}
 
-      const reply = await callGroqChat(groqMessages);
-      res.json({ response: reply });
-    } catch (error) {
-      console.error("AI chat error:", error);
-      res.status(500).json({ error: "Failed to get AI response", detail: (error as Error)?.message });
+async function backfillGeohashes(): Promise<void> {
+  const users = await backfillTableGeohashes('user_locations', 'user_id', 'lat', 'lng');
+  let activities = 0;
+  if (!pgPool || (await pgPool.query(`SELECT to_regclass('public.activities') AS name`)).rows[0]?.name) {
+    activities = await backfillTableGeohashes('activities', 'id', 'latitude', 'longitude');
+  }
+  if (users + activities > 0) {
+    console.log(`[DB] Geohash backfill: ${users} user locations, ${activities} activities`);
+  }
+}
+
+function normalizeTagSet(value: unknown): Set<string> {
+  const list = Array.isArray(value) ? value : typeof value === "string" && value ? value.split(",") : [];
+  return new Set(list.map((item) => String(item || "").trim().toLowerCase()).filter(Boolean));
+}
+
+function sameText(a: unknown, b: unknown): boolean {
+  const left = String(a || "").trim().toLowerCase();
+  return left.length > 0 && left === String(b || "").trim().toLowerCase();
+}
+
+function distanceKmBetween(a: DiscoverLocation, b: DiscoverLocation): number {
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
+  const dLng = ((b.lng - a.lng) * Math.PI) / 180;
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos((a.lat * Math.PI) / 180) * Math.cos((b.lat * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+// Every component is normalised to 0..1 before weighting. distanceKm is the distance the viewer is shown, never the
+// real one, so neither the order of the deck nor a score breakdown gives away more than the card does.
+function scoreDiscoverCandidate(
+  viewer: { row: any; intentMode: IntentMode },
+  candidate: { row: any; intentMode: IntentMode; trustScore: number; distanceKm: number | null; lastActiveAt: number },
+  now: number
+): { score: number; breakdown: DiscoverScoreBreakdown } {
+  const viewerInterests = normalizeTagSet(viewer.row?.interests);
+  const candidateInterests = normalizeTagSet(candidate.row.interests);
+  const shared = Array.from(candidateInterests).filter((tag) => viewerInterests.has(tag)).length;
+  const union = new Set([...viewerInterests, ...candidateInterests]).size;
+  const interests = union > 0 ? shared / union : 0;
+
+  const style =
+    (sameText(viewer.row?.travel_style, candidate.row.travel_style) ? 0.6 : 0) +
+    (sameText(viewer.row?.van_type, candidate.row.van_type) ? 0.4 : 0);
+
+  const distance = candidate.distanceKm === null
+    ? DISCOVER_UNKNOWN_DISTANCE_SCORE
+    : DISCOVER_DISTANCE_HALF_SCORE_KM / (DISCOVER_DISTANCE_HALF_SCORE_KM + candidate.distanceKm);
+
+  const trust = Math.max(0, Math.min(100, candidate.trustScore)) / 100;
+  const intent = viewer.intentMode === candidate.intentMode ? 1 : 0;
+
+  const idleDays = candidate.lastActiveAt > 0 ? Math.max(0, now - candidate.lastActiveAt) / 86400000 : Infinity;
+  const recency = Number.isFinite(idleDays) ? 0.5 ** (idleDays / DISCOVER_RECENCY_HALF_LIFE_DAYS) : 0;
+
+  const components = { interests, style, distance, trust, intent, recency };
+  const breakdown = {} as DiscoverScoreBreakdown;
+  let score = 0;
+  for (const key of Object.keys(DISCOVER_WEIGHTS) as (keyof typeof DISCOVER_WEIGHTS)[]) {
+    const weighted = Math.round(components[key] * DISCOVER_WEIGHTS[key] * 100) / 100;
+    breakdown[key] = weighted;
+    score += weighted;
+  }
+
+  return { score: Math.round(score * 100) / 100, breakdown };
+}
+
+async function loadDiscoverLocations(userIds: string[]): Promise<Map<string, DiscoverLocation>> {
+  const locations = new Map<string, DiscoverLocation>();
+  if (userIds.length === 0) return locations;
+
+  let rows: any[] = [];
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT user_id, lat, lng, updated_at FROM user_locations WHERE user_id = ANY($1::text[])`,
+      [userIds]
+    );
+    rows = result.rows;
+  } else {
+    const { data, error } = await getSupabase()
+      .from('user_locations')
+      .select('user_id, lat, lng, updated_at')
+      .in('user_id', userIds);
+    if (error) throw error;
+    rows = data || [];
+  }
+
+  for (const row of rows) {
+    const lat = Number(row.lat);
+    const lng = Number(row.lng);
+    if (Number.isFinite(lat) && Number.isFinite(lng)) {
+      locations.set(String(row.user_id), { lat, lng, updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null });
     }
+  }
+  return locations;
+}
+
+/**
+ * Scores every candidate, then orders by score (desc) and id (asc). Later pages score with the clock from the
+ * cursor, so the order only changes between pages when the underlying profiles do.
+ */
+async function rankDiscoverCandidates(
+  userId: string,
+  viewerRow: any,
+  candidates: any[],
+  page: DiscoverPageQuery,
+  maxDistanceKm: number | null = null
+) {
+  const candidateIds = candidates.map((row) => String(row.id));
+  const [meta, locations, lastSeen, privacy] = await Promise.all([
+    loadExploreXMetaForUsers([...candidateIds, userId]),
+    loadDiscoverLocations([...candidateIds, userId]),
+    loadLastSeen(candidateIds),
+    loadPresencePrivacy(candidateIds),
+  ]);
+
+  const now = page.cursor?.rankedAt ?? Date.now();
+  const viewer = {
+    row: viewerRow,
+    intentMode: meta.intentByUser[userId] || "explore_city",
+    location: locations.get(userId) || null,
+  };
+
+  // The distance at the candidate's chosen precision, as the card shows it
+  const shownDistanceKm = (id: string, enriched: any, location: DiscoverLocation | null) => {
+    if (!viewer.location || !location) return null;
+    return fuzzLocationForViewer(
+      viewer.location,
+      { userId: id, lat: location.lat, lng: location.lng },
+      userId,
+      normalizeLocationPrecision(enriched.location_precision),
+      getSessionSecret()
+    ).distanceKm;
+  };
+
+  const ranked = candidates.flatMap((row) => {
+    const id = String(row.id);
+    const enriched = addExploreXProfileFields(row, meta);
+    const location = locations.get(id) || null;
+    const distanceKm = shownDistanceKm(id, enriched, location);
+    // The candidate query widened the radius by the fuzz margin; the limit itself applies to the shown distance
+    if (maxDistanceKm !== null && distanceKm !== null && distanceKm > maxDistanceKm) return [];
+    // Users who hide their last seen are ranked on profile and location activity only
+    const seen = privacy.get(id)?.hideLastSeen || privacy.get(id)?.isVisible === false ? undefined : lastSeen.get(id);
+    const lastActiveAt = Math.max(
+      ...[row.updated_at, location?.updatedAt, seen].map((value) => (value ? new Date(value).getTime() || 0 : 0))
+    );
+    const { score, breakdown } = scoreDiscoverCandidate(
+      viewer,
+      { row, intentMode: enriched.intent_mode, trustScore: Number(enriched.trust_score || 0), distanceKm, lastActiveAt },
+      now
+    );
+    return [{ id, enriched, score, breakdown, distanceKm }];
   });
 
-  // AI Photo Analysis endpoint (disabled for Groq-only backend)
-  app.post("/api/ai/analyze-photo", (_req: Request, res: Response) => {
-    if (!AI_ADVISOR_ENABLED) {
-      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
-    }
-    res.status(501).json({ error: "Photo analysis is not available in this build." });
+  ranked.sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const cursor = page.cursor;
+  const afterCursor = cursor
+    ? ranked.filter((entry) => entry.score < cursor.score || (entry.score === cursor.score && entry.id > cursor.id))
+    : ranked;
+
+  const pageIds = afterCursor.slice(0, page.limit).map((entry) => entry.id);
+  const [superLikerIds, tripOverlaps] = await Promise.all([
+    loadSuperLikerIds(userId, pageIds),
+    loadTripOverlaps(userId, pageIds),
+  ]);
+
+  return afterCursor.slice(0, page.limit).map(({ id, enriched, score, breakdown, distanceKm }) => {
+    return {
+      user: mapDiscoverUser(enriched),
+      distance: distanceKm === null ? undefined : Math.max(1, Math.round(distanceKm / KM_PER_MILE)),
+      score,
+      cursor: `${now}:${score}:${id}`,
+      ...(superLikerIds.has(id) ? { superLikedYou: true } : {}),
+      ...(tripOverlaps.has(id) ? { tripOverlaps: tripOverlaps.get(id) } : {}),
+      ...(page.debug ? { scoreBreakdown: breakdown } : {}),
+    };
   });
+}
 
-  // AI Cost Estimator endpoint using Groq
-  app.post("/api/ai/estimate-cost", async (req: Request, res: Response) => {
-    if (!AI_ADVISOR_ENABLED) {
-      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
-    }
-    try {
-      const { vanDetails } = req.body;
+function mapDiscoverUser(enriched: any) {
+  return {
+    id: enriched.id,
+    email: enriched.email || "",
+    name: enriched.name || "Nomad",
+    age: enriched.age || 25,
+    bio: enriched.bio || "",
+    location: enriched.location || "On the road",
+    photos: enriched.photos || [],
+    interests: enriched.interests || [],
+    vanType: enriched.van_type || undefined,
+    travelStyle: enriched.travel_style || undefined,
+    isTravelVerified: enriched.is_travel_verified || false,
+    travelBadge: enriched.travel_badge || "none",
+    intentMode: enriched.intent_mode || "explore_city",
+    activePlan: enriched.active_plan || null,
+    trustScore: Number(enriched.trust_score || 0),
+    meetupCount: Number(enriched.meetup_count || 0),
+    createdAt: enriched.created_at || new Date().toISOString(),
+    isMock: String(enriched.id).startsWith('mock'),
+  };
+}
 
-      if (!vanDetails) {
-        return res.status(400).json({ error: "Van details are required" });
-      }
+type SwipeDirection = "left" | "right" | "super";
 
-      const systemPrompt = `You are an expert van conversion cost estimator with deep knowledge of DIY and professional van builds. Provide detailed, realistic cost estimates for van conversions.
+const SWIPE_DIRECTIONS: SwipeDirection[] = ["left", "right", "super"];
 
-When given van build specifications, provide:
-1. A total estimated cost range (low to high)
-2. Breakdown by category (electrical, plumbing, insulation, furniture, etc.)
-3. Labor cost estimate if hiring professionals vs DIY savings
-4. Tips for cost savings
-5. Common hidden costs to watch out for
+// A super like is a like that also notifies the recipient, so both count towards a mutual match
+const LIKE_DIRECTIONS: SwipeDirection[] = ["right", "super"];
 
-Base your estimates on current 2024-2025 market prices in the US. Be specific with dollar amounts and explain your reasoning. Format your response in a clear, readable way with sections and bullet points.`;
+const SWIPE_QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
 
-      const groqMessages = [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: `Please provide a detailed cost estimate for the following van build:\n\n${vanDetails}` },
-      ];
+// Mirrors TIER_LIMITS.superLikes / TIER_LIMITS.rewinds on the client; -1 means unlimited
+const SUPER_LIKE_LIMITS: Record<string, number> = {
+  starter: 1,
+  free: 1,
+  explorer: 5,
+  pro: 5,
+  adventurer: 15,
+  expert: 15,
+  lifetime: 15,
+};
 
-      const reply = await callGroqChat(groqMessages);
-      res.json({ estimate: reply });
-    } catch (error) {
-      console.error("AI cost estimate error:", error);
-      res.status(500).json({ error: "Failed to get cost estimate", detail: (error as Error)?.message });
-    }
-  });
+const REWIND_LIMITS: Record<string, number> = {
+  starter: 1,
+  free: 1,
+  explorer: 10,
+  pro: 10,
+  adventurer: -1,
+  expert: -1,
+  lifetime: -1,
+};
 
-  // AI Van Image Generation endpoint (disabled for Groq-only backend)
-  app.post("/api/ai/generate-van-image", (_req: Request, res: Response) => {
-    if (!AI_ADVISOR_ENABLED) {
-      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
-    }
-    res.status(501).json({ error: "Image generation is not available in this build." });
+interface SwipeQuota {
+  tier: string;
+  superLikes: { limit: number; used: number };
+  rewinds: { limit: number; used: number };
+}
+
+function isSwipeDirection(value: unknown): value is SwipeDirection {
+  return (SWIPE_DIRECTIONS as string[]).includes(String(value));
+}
+
+async function loadSuperLikerIds(userId: string, candidateIds: string[]): Promise<Set<string>> {
+  if (candidateIds.length === 0) return new Set();
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT swiper_id FROM swipes WHERE swiped_id = $1 AND direction = 'super' AND swiper_id = ANY($2::text[])`,
+      [userId, candidateIds]
+    );
+    return new Set(result.rows.map((row: any) => String(row.swiper_id)));
+  }
+  const { data, error } = await getSupabase()
+    .from('swipes')
+    .select('swiper_id')
+    .eq('swiped_id', userId)
+    .eq('direction', 'super')
+    .in('swiper_id', candidateIds);
+  if (error) throw error;
+  return new Set((data || []).map((row: any) => String(row.swiper_id)));
+}
+
+const SUBSCRIPTION_TIERS = ["starter", "explorer", "adventurer", "lifetime"] as const;
+type SubscriptionTier = typeof SUBSCRIPTION_TIERS[number];
+
+// Same keyword matching as getTierFromEntitlements on the client, strongest tier first
+const SUBSCRIPTION_TIER_KEYWORDS: [SubscriptionTier, string[]][] = [
+  ["lifetime", ["lifetime", "forever"]],
+  ["adventurer", ["adventurer", "expert", "premium"]],
+  ["explorer", ["explorer", "pro", "nomad connect pro"]],
+];
+
+function subscriptionTierFromEntitlements(values: string[]): SubscriptionTier {
+  const normalized = values.map((value) => value.toLowerCase());
+  for (const [tier, keywords] of SUBSCRIPTION_TIER_KEYWORDS) {
+    if (keywords.some((keyword) => normalized.some((value) => value.includes(keyword)))) return tier;
+  }
+  return "starter";
+}
+
+interface RevenueCatSubscription {
+  tier: SubscriptionTier;
+  expiresAt: string | null;
+}
+
+// What RevenueCat says is active right now, or null when no secret API key is configured
+async function fetchRevenueCatSubscription(userId: string): Promise<RevenueCatSubscription | null> {
+  if (!revenueCatSecretKey) return null;
+  const response = await fetch(`https://api.revenuecat.com/v1/subscribers/${encodeURIComponent(userId)}`, {
+    headers: { Authorization: `Bearer ${revenueCatSecretKey}` },
   });
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`RevenueCat ${response.status}: ${text}`);
+  }
 
-  // ==================== AI CHAT SESSIONS (Supabase) ====================
+  const now = Date.now();
+  const active = Object.entries<any>(JSON.parse(text)?.subscriber?.entitlements || {})
+    .filter(([, entitlement]) => !entitlement?.expires_date || new Date(entitlement.expires_date).getTime() > now)
+    .map(([id, entitlement]) => ({
+      tier: subscriptionTierFromEntitlements([id, entitlement?.product_identifier].filter(Boolean).map(String)),
+      expiresAt: entitlement?.expires_date ? new Date(entitlement.expires_date).toISOString() : null,
+    }));
+  const tier = subscriptionTierFromEntitlements(active.map((entry) => entry.tier));
+  // The tier lasts as long as the longest entitlement granting it; one without an expiry never lapses
+  const granting = active.filter((entry) => entry.tier === tier);
+  const expiresAt = granting.length === 0 || granting.some((entry) => !entry.expiresAt)
+    ? null
+    : granting.map((entry) => entry.expiresAt as string).sort().slice(-1)[0];
+  return { tier, expiresAt };
+}
 
-  // Get all chat sessions for a user
-  app.get("/api/ai/sessions/:userId", async (req: Request, res: Response) => {
-    if (!AI_ADVISOR_ENABLED) {
-      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
-    }
-    const { userId } = req.params;
-    
-    if (!userId) {
-      return res.status(400).json({ error: "User ID is required" });
-    }
-    
+// Quotas follow what RevenueCat last reported for the user, never a tier the client claims. Users who bought before
+// the webhook was set up have no row yet, so RevenueCat is asked once and the answer stored.
+async function loadSubscriptionTier(userId: string): Promise<SubscriptionTier> {
+  let row: any = null;
+  if (pgPool) {
+    const result = await pgPool.query(`SELECT tier, expires_at FROM user_subscriptions WHERE user_id = $1 LIMIT 1`, [userId]);
+    row = result.rows[0] || null;
+  } else {
+    const { data, error } = await getSupabase()
+      .from('user_subscriptions')
+      .select('tier, expires_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    row = data;
+  }
+  if (!row) {
     try {
-      const sb = getSupabase();
-      const { data, error } = await sb
-        .from('ai_chat_sessions')
-        .select('id, user_id, title, messages, created_at, updated_at')
-        .eq('user_id', userId)
-        .order('updated_at', { ascending: false });
-      if (error) throw error;
-      res.json(data || []);
+      const current = await fetchRevenueCatSubscription(userId);
+      if (current) {
+        await saveSubscriptionTier(userId, current.tier, current.expiresAt, new Date().toISOString());
+        row = { tier: current.tier, expires_at: current.expiresAt };
+      }
     } catch (error) {
-      console.error("Failed to get chat sessions:", error);
-      res.json([]);
+      console.error("RevenueCat subscriber lookup error:", error);
     }
-  });
+  }
+  if (!row || (row.expires_at && new Date(row.expires_at).getTime() <= Date.now())) return "starter";
+  return (SUBSCRIPTION_TIERS as readonly string[]).includes(row.tier) ? row.tier : "starter";
+}
 
-  // Create a new chat session
-  app.post("/api/ai/sessions", async (req: Request, res: Response) => {
-    if (!AI_ADVISOR_ENABLED) {
-      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
-    }
-    const { id, userId, title, messages } = req.body;
-    
-    if (!id || !userId) {
-      return res.status(400).json({ error: "Session ID and user ID are required" });
-    }
-    
-    try {
-      const sb = getSupabase();
-      const now = new Date().toISOString();
-      const { data, error } = await sb
-        .from('ai_chat_sessions')
-        .insert({
-          id,
-          user_id: userId,
-          title: title || "New Chat",
-          messages: messages || [],
+// RevenueCat may deliver events out of order, so a row is only replaced by news at least as recent as what it holds
+async function saveSubscriptionTier(userId: string, tier: SubscriptionTier, expiresAt: string | null, eventAt: string) {
+  const updatedAt = new Date().toISOString();
+  if (pgPool) {
+    await pgPool.query(
+      `INSERT INTO user_subscriptions (user_id, tier, expires_at, event_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id) DO UPDATE
+       SET tier = EXCLUDED.tier, expires_at = EXCLUDED.expires_at, event_at = EXCLUDED.event_at, updated_at = EXCLUDED.updated_at
+       WHERE user_subscriptions.event_at IS NULL OR user_subscriptions.event_at <= EXCLUDED.event_at`,
+      [userId, tier, expiresAt, eventAt, updatedAt]
+    );
+    return;
+  }
+  const sb = getSupabase();
+  const { data: updated, error } = await sb
+    .from('user_subscriptions')
+    .update({ tier, expires_at: expiresAt, event_at: eventAt, updated_at: updatedAt })
+    .eq('user_id', userId)
+    .or(`event_at.is.null,event_at.lte.${eventAt}`)
+    .select('user_id');
+  if (error) throw error;
+  if (updated && updated.length > 0) return;
+  // Either there is no row yet or it holds a newer event, which the insert then leaves alone
+  const { error: insertError } = await sb
+    .from('user_subscriptions')
+    .upsert(
+      { user_id: userId, tier, expires_at: expiresAt, event_at: eventAt, updated_at: updatedAt },
+      { onConflict: 'user_id', ignoreDuplicates: true }
+    );
+  if (insertError) throw insertError;
+}
+
+// Also in scripts/create-supabase-tables.sql; the limit is -1 for unlimited, as in SUPER_LIKE_LIMITS
+const SWIPE_QUOTA_FUNCTIONS_SQL = `
+  CREATE OR REPLACE FUNCTION claim_super_like(p_id TEXT, p_swiper_id TEXT, p_swiped_id TEXT, p_limit INTEGER, p_since TIMESTAMPTZ, p_now TIMESTAMPTZ)
+  RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+  BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('swipe_quota:' || p_swiper_id));
+    IF p_limit <> -1 AND (
+      SELECT COUNT(*) FROM swipe_history
+      WHERE swiper_id = p_swiper_id AND direction = 'super' AND created_at >= p_since
+    ) >= p_limit THEN
+      RETURN FALSE;
+    END IF;
+    INSERT INTO swipe_history (id, swiper_id, swiped_id, direction, created_at)
+    VALUES (p_id, p_swiper_id, p_swiped_id, 'super', p_now);
+    RETURN TRUE;
+  END;
+  $$;
+
+  CREATE OR REPLACE FUNCTION claim_rewind(p_history_id TEXT, p_swiper_id TEXT, p_limit INTEGER, p_since TIMESTAMPTZ, p_now TIMESTAMPTZ)
+  RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+  BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('swipe_quota:' || p_swiper_id));
+    IF p_limit <> -1 AND (
+      SELECT COUNT(*) FROM swipe_history WHERE swiper_id = p_swiper_id AND undone_at >= p_since
+    ) >= p_limit THEN
+      RETURN FALSE;
+    END IF;
+    UPDATE swipe_history SET undone_at = p_now
+    WHERE id = p_history_id AND swiper_id = p_swiper_id AND undone_at IS NULL;
+    RETURN FOUND;
+  END;
+  $$;
+`;
+
+/**
+ * Runs one of the claim_* SQL functions, which check a quota and use it up under a per-user lock in a single
+ * statement, so parallel requests can't both take the last super like or rewind.
+ */
+async function claimSwipeQuota(fn: "claim_super_like" | "claim_rewind", params: Record<string, unknown>): Promise<boolean> {
+  if (pgPool) {
+    const keys = Object.keys(params);
+    const result = await pgPool.query(
+      `SELECT ${fn}(${keys.map((key, index) => `${key} => $${index + 1}`).join(", ")}) AS claimed`,
+      keys.map((key) => params[key])
+    );
+    return result.rows[0]?.claimed === true;
+  }
+  const { data, error } = await getSupabase().rpc(fn, params);
+  if (error) throw error;
+  return data === true;
+}
+
+// Super likes count when sent and rewinds when used, over a rolling 24 hours, so undoing a super like does not refund it
+async function loadSwipeQuota(userId: string): Promise<SwipeQuota> {
+  const currentTier = await loadSubscriptionTier(userId);
+  const since = new Date(Date.now() - SWIPE_QUOTA_WINDOW_MS).toISOString();
+  let superLikesUsed = 0;
+  let rewindsUsed = 0;
+
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT
+         COUNT(*) FILTER (WHERE direction = 'super' AND created_at >= $2)::int AS super_likes,
+         COUNT(*) FILTER (WHERE undone_at >= $2)::int AS rewinds
+       FROM swipe_history
+       WHERE swiper_id = $1`,
+      [userId, since]
+    );
+    superLikesUsed = Number(result.rows[0]?.super_likes || 0);
+    rewindsUsed = Number(result.rows[0]?.rewinds || 0);
+  } else {
+    const sb = getSupabase();
+    const [superRes, rewindRes] = await Promise.all([
+      sb.from('swipe_history').select('id', { count: 'exact', head: true })
+        .eq('swiper_id', userId).eq('direction', 'super').gte('created_at', since),
+      sb.from('swipe_history').select('id', { count: 'exact', head: true })
+        .eq('swiper_id', userId).gte('undone_at', since),
+    ]);
+    if (superRes.error) throw superRes.error;
+    if (rewindRes.error) throw rewindRes.error;
+    superLikesUsed = superRes.count || 0;
+    rewindsUsed = rewindRes.count || 0;
+  }
+
+  return {
+    tier: currentTier,
+    superLikes: { limit: SUPER_LIKE_LIMITS[currentTier] ?? SUPER_LIKE_LIMITS.starter, used: superLikesUsed },
+    rewinds: { limit: REWIND_LIMITS[currentTier] ?? REWIND_LIMITS.starter, used: rewindsUsed },
+  };
+}
+
+function isQuotaExhausted(entry: { limit: number; used: number }): boolean {
+  return entry.limit !== -1 && entry.used >= entry.limit;
+}
+
+function newSwipeHistoryId(): string {
+  return `swh_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
+
+// Super likes already have a row from claim_super_like, which only needs what the swipe turned out to do
+async function recordSwipeHistory(entry: {
+  swiperId: string;
+  swipedId: string;
+  direction: SwipeDirection;
+  previousDirection: string | null;
+  matchId: string | null;
+  reservedId?: string | null;
+}) {
+  if (entry.reservedId) {
+    if (pgPool) {
+      await pgPool.query(
+        `UPDATE swipe_history SET previous_direction = $2, match_id = $3 WHERE id = $1`,
+        [entry.reservedId, entry.previousDirection, entry.matchId]
+      );
+      return;
+    }
+    const { error } = await getSupabase()
+      .from('swipe_history')
+      .update({ previous_direction: entry.previousDirection, match_id: entry.matchId })
+      .eq('id', entry.reservedId);
+    if (error) throw error;
+    return;
+  }
+  const row = {
+    id: newSwipeHistoryId(),
+    swiper_id: entry.swiperId,
+    swiped_id: entry.swipedId,
+    direction: entry.direction,
+    previous_direction: entry.previousDirection,
+    match_id: entry.matchId,
+    created_at: new Date().toISOString(),
+  };
+  if (pgPool) {
+    await pgPool.query(
+      `INSERT INTO swipe_history (id, swiper_id, swiped_id, direction, previous_direction, match_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [row.id, row.swiper_id, row.swiped_id, row.direction, row.previous_direction, row.match_id, row.created_at]
+    );
+    return;
+  }
+  const { error } = await getSupabase().from('swipe_history').insert(row);
+  if (error) throw error;
+}
+
+async function deleteSwipeHistoryRow(id: string) {
+  if (pgPool) {
+    await pgPool.query(`DELETE FROM swipe_history WHERE id = $1`, [id]);
+    return;
+  }
+  const { error } = await getSupabase().from('swipe_history').delete().eq('id', id);
+  if (error) throw error;
+}
+
+async function loadProfileRow(userId: string): Promise<any | null> {
+  if (pgPool) {
+    const result = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [userId]);
+    return result.rows[0] || null;
+  }
+  const { data } = await getSupabase().from('user_profiles').select('*').eq('id', userId).maybeSingle();
+  return data || null;
+}
+
+// Sends the recipient the swiper's card, ranked from the recipient's point of view, so it can jump to the front of their deck
+async function notifySuperLike(swiperId: string, swipedId: string) {
+  if (await isBlockedBetween(swiperId, swipedId)) return;
+  const [swiperRow, recipientRow] = await Promise.all([loadProfileRow(swiperId), loadProfileRow(swipedId)]);
+  if (!swiperRow) return;
+  const [card] = await rankDiscoverCandidates(swipedId, recipientRow, [swiperRow], { limit: 1, cursor: null, debug: false });
+  if (!card) return;
+  publish(`user:${swipedId}`, { type: "swipe.super", card: { ...card, superLikedYou: true } });
+}
+
+// In-memory storage for activity chat (would use database in production)
+interface ActivityChatMessage {
+  id: string;
+  activityId: string;
+  senderId: string;
+  senderName: string;
+  senderPhoto: string;
+  type: "text" | "photo" | "location" | "file" | "audio" | "system";
+  content: string;
+  photoUrl?: string;
+  fileUrl?: string;
+  fileName?: string;
+  audioUrl?: string;
+  audioDuration?: number;
+  replyTo?: { id: string; content: string; senderName?: string };
+  location?: { latitude: number; longitude: number; name?: string; address?: string };
+  isPinned: boolean;
+  pinnedBy?: string;
+  isModeratorMessage: boolean;
+  isEdited?: boolean;
+  reactions?: Record<string, string[]>;
+  createdAt: string;
+  deletedAt?: string;
+}
+
+interface ActivityModerator {
+  activityId: string;
+  userId: string;
+  isHost: boolean;
+  addedAt: string;
+}
+
+interface ActivityUser {
+  id: string;
+  name: string;
+  email?: string;
+  age?: number;
+  bio?: string;
+  location?: string;
+  photos?: string[];
+  interests?: string[];
+  createdAt?: string;
+  // Stamped by the server when the person takes a spot or a waitlist place
+  joinedAt?: string;
+}
+
+interface Activity {
+  id: string;
+  title: string;
+  description: string;
+  type: "hiking" | "climbing" | "skiing" | "camping" | "surfing" | "other";
+  location: string;
+  latitude?: number;
+  longitude?: number;
+  date: string;
+  endDate?: string;
+  startTime?: string;
+  duration?: number;
+  seriesId?: string;
+  recurrenceLabel?: string;
+  // Only set when the request gave a point to measure from
+  distanceKm?: number;
+  hostReputation?: HostReputation;
+  hostId: string;
+  host: ActivityUser;
+  attendeeIds: string[];
+  attendees: ActivityUser[];
+  waitlistIds: string[];
+  waitlist: ActivityUser[];
+  maxAttendees?: number;
+  imageUrl?: string;
+  isCompleted?: boolean;
+  createdAt: string;
+}
+
+interface SafetyRating {
+  id: string;
+  activityId: string;
+  ratedByUserId: string;
+  safetyScore: number;
+  wasLocationPublic: boolean;
+  hostWasTrustworthy: boolean;
+  createdAt: string;
+}
+
+interface SOSIncident {
+  id: string;
+  userId: string;
+  userName: string;
+  location?: {
+    latitude: number;
+    longitude: number;
+  };
+  emergencyContact?: {
+    name: string;
+    phone: string;
+    email?: string;
+  };
+  timestamp: string;
+  status: SosStatus;
+  resolved: boolean;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
+  updatedAt: string | null;
+  notes?: string;
+}
+
+interface SOSLogInput {
+  userId: string;
+  userName?: string;
+  location?: { latitude: number; longitude: number } | null;
+  emergencyContact?: { name?: string; phone?: string; email?: string } | null;
+  timestamp?: string;
+  message?: string;
+  // Callers that record the incident elsewhere first pick its id up front
+  incidentId?: string;
+}
+
+function newSosIncidentId(): string {
+  return `sos_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
+
+// SOS tables live in Supabase with the rest of the safety data; deployments without it keep them in Postgres
+function sosPostgresPool(): Pool | null {
+  return supabaseAdmin ? null : pgPool;
+}
+
+/**
+ * Shared by the SOS button and automatic escalations so every incident is recorded the same way. `db` lets a caller
+ * insert a Postgres-stored incident inside its own transaction.
+ */
+async function logSosIncident(input: SOSLogInput, db?: PoolClient): Promise<string> {
+  const { userId, userName, location, emergencyContact, timestamp, message } = input;
+  const incidentId = input.incidentId || newSosIncidentId();
+  const ts = timestamp || new Date().toISOString();
+
+  const row = {
+    id: incidentId,
+    user_id: userId,
+    user_name: userName || null,
+    latitude: location?.latitude || null,
+    longitude: location?.longitude || null,
+    emergency_contact_name: emergencyContact?.name || null,
+    emergency_contact_phone: emergencyContact?.phone || null,
+    emergency_contact_email: emergencyContact?.email || null,
+    timestamp: ts,
+    status: 'open',
+    resolved: false,
+    notes: null,
+    updated_at: ts,
+  };
+  const pool = sosPostgresPool();
+  if (pool) {
+    const columns = Object.keys(row);
+    await (db || pool).query(
+      `INSERT INTO sos_incidents (${columns.join(", ")}) VALUES (${columns.map((_, index) => `$${index + 1}`).join(", ")})`,
+      Object.values(row)
+    );
+  } else {
+    const { error } = await getSupabase().from('sos_incidents').insert(row);
+    if (error) throw error;
+  }
+
+  console.log("[SOS] Emergency incident logged:", incidentId);
+
+  // Timeline and responder invitations are best-effort; the incident itself is already recorded
+  try {
+    await recordSosEvent(incidentId, userId, "created", { ...(location || {}), note: message || null });
+    await inviteSosResponders(incidentId, userId, userName || "An ExploreX user", location || null);
+  } catch (inviteErr) {
+    console.error("[SOS] Failed to invite responders:", inviteErr);
+  }
+
+  if (emergencyContact?.email && message) {
+    try {
+      const emailjsServiceId = process.env.EMAILJS_SERVICE_ID;
+      const emailjsTemplateId = process.env.EMAILJS_TEMPLATE_ID;
+      const emailjsPublicKey = process.env.EMAILJS_PUBLIC_KEY;
+      const emailjsPrivateKey = process.env.EMAILJS_PRIVATE_KEY;
+
+      if (emailjsServiceId && emailjsTemplateId && emailjsPublicKey) {
+        await fetch('https://api.emailjs.com/api/v1.0/email/send', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            service_id: emailjsServiceId,
+            template_id: emailjsTemplateId,
+            user_id: emailjsPublicKey,
+            accessToken: emailjsPrivateKey,
+            template_params: {
+              to_email: emergencyContact.email,
+              to_name: emergencyContact.name || "Emergency Contact",
+              from_name: "ExploreX SOS",
+              message: message,
+            },
+          }),
+        });
+        console.log("[SOS] Emergency email sent to:", emergencyContact.email);
+      }
+    } catch (emailErr) {
+      console.error("[SOS] Failed to send emergency email:", emailErr);
+    }
+  }
+
+  return incidentId;
+}
+
+const SOS_STATUSES = ["open", "acknowledged", "responding", "resolved", "false_alarm"] as const;
+type SosStatus = typeof SOS_STATUSES[number];
+
+// Incidents only move forward; resolved and false_alarm are terminal
+const SOS_TRANSITIONS: Record<SosStatus, SosStatus[]> = {
+  open: ["acknowledged", "responding", "resolved", "false_alarm"],
+  acknowledged: ["responding", "resolved", "false_alarm"],
+  responding: ["resolved", "false_alarm"],
+  resolved: [],
+  false_alarm: [],
+};
+
+const SOS_NEARBY_RADIUS_KM = 5;
+const SOS_NEARBY_LOCATION_MAX_AGE_MS = 60 * 60 * 1000;
+const SOS_MAX_NEARBY_RESPONDERS = 10;
+const SOS_MAX_TRUSTED_CONTACTS = 10;
+
+type SosAccessRole = "reporter" | "responder" | "invited";
+
+function isSosStatus(value: unknown): value is SosStatus {
+  return typeof value === "string" && (SOS_STATUSES as readonly string[]).includes(value);
+}
+
+function mapSosIncidentRow(row: any): SOSIncident {
+  const status: SosStatus = isSosStatus(row.status) ? row.status : row.resolved ? "resolved" : "open";
+  return {
+    id: row.id,
+    userId: row.user_id,
+    userName: row.user_name,
+    location: row.latitude != null ? { latitude: row.latitude, longitude: row.longitude } : undefined,
+    emergencyContact: row.emergency_contact_name ? {
+      name: row.emergency_contact_name,
+      phone: row.emergency_contact_phone,
+      email: row.emergency_contact_email,
+    } : undefined,
+    timestamp: row.timestamp,
+    status,
+    resolved: status === "resolved" || status === "false_alarm",
+    acknowledgedAt: row.acknowledged_at || null,
+    resolvedAt: row.resolved_at || null,
+    updatedAt: row.updated_at || null,
+    notes: row.notes,
+  };
+}
+
+function mapSosEventRow(row: any) {
+  return {
+    id: row.id,
+    incidentId: row.incident_id,
+    actorId: row.actor_id,
+    type: row.type,
+    location: row.latitude != null ? { latitude: row.latitude, longitude: row.longitude } : null,
+    note: row.note || null,
+    createdAt: row.created_at,
+  };
+}
+
+function mapSosResponderRow(row: any) {
+  return {
+    incidentId: row.incident_id,
+    userId: row.user_id,
+    relation: row.relation,
+    status: row.status,
+    invitedAt: row.created_at,
+    respondedAt: row.responded_at || null,
+  };
+}
+
+async function recordSosEvent(
+  incidentId: string,
+  actorId: string,
+  type: string,
+  extra: { latitude?: number; longitude?: number; note?: string | null } = {}
+) {
+  const row = {
+    id: `sosev_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    incident_id: incidentId,
+    actor_id: actorId,
+    type,
+    latitude: Number.isFinite(extra.latitude) ? extra.latitude : null,
+    longitude: Number.isFinite(extra.longitude) ? extra.longitude : null,
+    note: extra.note || null,
+    created_at: new Date().toISOString(),
+  };
+  const pool = sosPostgresPool();
+  if (pool) {
+    await pool.query(
+      `INSERT INTO sos_incident_events (id, incident_id, actor_id, type, latitude, longitude, note, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [row.id, row.incident_id, row.actor_id, row.type, row.latitude, row.longitude, row.note, row.created_at]
+    );
+  } else {
+    const { error } = await getSupabase().from('sos_incident_events').insert(row);
+    if (error) throw error;
+  }
+
+  const event = mapSosEventRow(row);
+  publish(`sos:${incidentId}`, { type: "sos.event", event });
+  return event;
+}
+
+async function loadSosIncident(incidentId: string): Promise<any | null> {
+  const pool = sosPostgresPool();
+  if (pool) {
+    const result = await pool.query(`SELECT * FROM sos_incidents WHERE id = $1 LIMIT 1`, [incidentId]);
+    return result.rows[0] || null;
+  }
+  const { data, error } = await getSupabase()
+    .from('sos_incidents')
+    .select('*')
+    .eq('id', incidentId)
+    .maybeSingle();
+  if (error) throw error;
+  return data || null;
+}
+
+// Invited users only see the invitation; the timeline opens up once they opt in
+async function getSosAccess(incidentId: string, userId: string): Promise<{ incident: any; role: SosAccessRole | null } | null> {
+  const incident = await loadSosIncident(incidentId);
+  if (!incident) return null;
+  if (String(incident.user_id) === userId) return { incident, role: "reporter" };
+
+  const { data, error } = await getSupabase()
+    .from('sos_responders')
+    .select('status')
+    .eq('incident_id', incidentId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (data?.status === "accepted") return { incident, role: "responder" };
+  if (data?.status === "invited") return { incident, role: "invited" };
+  return { incident, role: null };
+}
+
+async function canAccessSosIncident(incidentId: string, userId: string): Promise<boolean> {
+  const access = await getSosAccess(incidentId, userId);
+  return access?.role === "reporter" || access?.role === "responder";
+}
+
+async function loadTrustedContactIds(userId: string): Promise<string[]> {
+  const { data, error } = await getSupabase()
+    .from('sos_trusted_contacts')
+    .select('contact_user_id')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return (data || []).map((row: any) => String(row.contact_user_id));
+}
+
+async function loadNearbyVerifiedUserIds(userId: string, lat: number, lng: number): Promise<string[]> {
+  const since = new Date(Date.now() - SOS_NEARBY_LOCATION_MAX_AGE_MS).toISOString();
+  const blocked = await loadBlockedUserIds(userId);
+
+  if (pgPool) {
+    const { params, next } = sqlParamBinder();
+    const radius = buildRadiusSql({ lat: "l.lat", lng: "l.lng", geohash: "l.geohash" }, { lat, lng }, SOS_NEARBY_RADIUS_KM, next);
+    const result = await pgPool.query(
+      `SELECT l.user_id, ${radius.distance} AS distance_km
+       FROM user_locations l
+       JOIN user_profiles p ON p.id = l.user_id
+       WHERE l.user_id <> ${next(userId)}
+         AND l.updated_at >= ${next(since)}
+         AND p.is_travel_verified = TRUE
+         AND ${radius.clause}
+       ORDER BY distance_km ASC`,
+      params
+    );
+    return result.rows
+      .map((row) => String(row.user_id))
+      .filter((id) => !blocked.has(id))
+      .slice(0, SOS_MAX_NEARBY_RESPONDERS);
+  }
+
+  const sb = getSupabase();
+  let query = sb
+    .from('user_locations')
+    .select('user_id, lat, lng')
+    .neq('user_id', userId)
+    .gte('updated_at', since);
+  const cellFilter = geohashOrFilter({ lat, lng }, SOS_NEARBY_RADIUS_KM);
+  if (cellFilter) query = query.or(cellFilter);
+  const { data, error } = await query;
+  if (error) throw error;
+  const locations = data || [];
+
+  let verifiedIds = new Set<string>();
+  const candidateIds = locations.map((row: any) => String(row.user_id));
+  if (candidateIds.length > 0) {
+    const { data: profiles } = await sb
+      .from('user_profiles')
+      .select('id')
+      .in('id', candidateIds)
+      .eq('is_travel_verified', true);
+    verifiedIds = new Set((profiles || []).map((p: any) => String(p.id)));
+  }
+
+  const center = { lat, lng, updatedAt: null };
+  return locations
+    .filter((row: any) => verifiedIds.has(String(row.user_id)) && !blocked.has(String(row.user_id)))
+    .map((row: any) => ({
+      userId: String(row.user_id),
+      distance: distanceKmBetween(center, { lat: Number(row.lat), lng: Number(row.lng), updatedAt: null }),
+    }))
+    .filter((row) => row.distance <= SOS_NEARBY_RADIUS_KM)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, SOS_MAX_NEARBY_RESPONDERS)
+    .map((row) => row.userId);
+}
+
+async function inviteSosResponders(
+  incidentId: string,
+  userId: string,
+  userName: string,
+  location: { latitude: number; longitude: number } | null
+): Promise<void> {
+  const trusted = await loadTrustedContactIds(userId);
+  const nearby = location ? await loadNearbyVerifiedUserIds(userId, location.latitude, location.longitude) : [];
+  const invites = new Map<string, "trusted_contact" | "nearby">();
+  for (const id of nearby) invites.set(id, "nearby");
+  for (const id of trusted) invites.set(id, "trusted_contact");
+  if (invites.size === 0) return;
+
+  const now = new Date().toISOString();
+  const rows = Array.from(invites.entries()).map(([responderId, relation]) => ({
+    id: `sosr_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    incident_id: incidentId,
+    user_id: responderId,
+    relation,
+    status: "invited",
+    created_at: now,
+  }));
+  const { error } = await getSupabase()
+    .from('sos_responders')
+    .upsert(rows, { onConflict: 'incident_id,user_id', ignoreDuplicates: true });
+  if (error) throw error;
+
+  for (const row of rows) {
+    publish(`user:${row.user_id}`, {
+      type: "sos.invited",
+      invitation: { incidentId, userName, relation: row.relation, createdAt: now },
+    });
+  }
+}
+
+/**
+ * Moves an incident on from the status it was read with. Returns null when someone else changed the status in the
+ * meantime, so two responders racing each other can't both apply a transition checked against a stale status.
+ */
+async function transitionSosIncident(incident: any, actorId: string, status: SosStatus, note?: string | null): Promise<SOSIncident | null> {
+  const now = new Date().toISOString();
+  const isTerminal = status === "resolved" || status === "false_alarm";
+  const update: Record<string, unknown> = { status, resolved: isTerminal, updated_at: now };
+  if (status === "acknowledged" && !incident.acknowledged_at) update.acknowledged_at = now;
+  if (isTerminal) {
+    update.resolved_at = now;
+    update.resolved_by = actorId;
+  }
+  if (note) update.notes = note;
+
+  const expectedStatus: string | null = incident.status ?? null;
+  let data: any;
+  const pool = sosPostgresPool();
+  if (pool) {
+    const columns = Object.keys(update);
+    const values = Object.values(update);
+    const result = await pool.query(
+      `UPDATE sos_incidents SET ${columns.map((column, index) => `${column} = $${index + 3}`).join(", ")}
+       WHERE id = $1 AND status IS NOT DISTINCT FROM $2 RETURNING *`,
+      [incident.id, expectedStatus, ...values]
+    );
+    data = result.rows[0];
+  } else {
+    let query = getSupabase()
+      .from('sos_incidents')
+      .update(update)
+      .eq('id', incident.id);
+    query = expectedStatus === null ? query.is('status', null) : query.eq('status', expectedStatus);
+    const { data: updated, error } = await query.select().maybeSingle();
+    if (error) throw error;
+    data = updated;
+  }
+  if (!data) return null;
+
+  await recordSosEvent(String(incident.id), actorId, status, { note: note || null });
+  const mapped = mapSosIncidentRow(data);
+  publish(`sos:${incident.id}`, { type: "sos.status", incident: mapped });
+  return mapped;
+}
+
+const CHECK_IN_DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+const CHECK_IN_MAX_DURATION_MS = 12 * 60 * 60 * 1000;
+const CHECK_IN_GRACE_MS = 10 * 60 * 1000;
+const CHECK_IN_SWEEP_INTERVAL_MS = 60 * 1000;
+
+let checkInSweepTimer: ReturnType<typeof setInterval> | null = null;
+
+function mapMeetupRow(row: any) {
+  return {
+    id: String(row.id),
+    userAId: String(row.user_a_id),
+    userBId: String(row.user_b_id),
+    venueName: row.venue_name || null,
+    venueAddress: row.venue_address || null,
+    status: row.status || "planned",
+    scheduledAt: row.scheduled_at || null,
+    startedAt: row.started_at || null,
+  };
+}
+
+function mapCheckInRow(row: any) {
+  const expectedEndAt = new Date(row.expected_end_at);
+  return {
+    id: String(row.id),
+    meetupId: String(row.meetup_id),
+    userId: String(row.user_id),
+    status: row.status,
+    startedAt: row.started_at,
+    expectedEndAt: expectedEndAt.toISOString(),
+    escalatesAt: new Date(expectedEndAt.getTime() + CHECK_IN_GRACE_MS).toISOString(),
+    confirmedAt: row.confirmed_at || null,
+    escalatedAt: row.escalated_at || null,
+    incidentId: row.incident_id || null,
+  };
+}
+
+// Accepts either an absolute expectedEndAt or a durationMinutes offset from now
+function resolveCheckInDeadline(body: any): Date | { error: string } {
+  let deadline: Date;
+  if (body?.expectedEndAt) {
+    deadline = new Date(body.expectedEndAt);
+  } else if (body?.durationMinutes != null) {
+    deadline = new Date(Date.now() + Number(body.durationMinutes) * 60 * 1000);
+  } else {
+    deadline = new Date(Date.now() + CHECK_IN_DEFAULT_DURATION_MS);
+  }
+
+  if (Number.isNaN(deadline.getTime()) || deadline.getTime() <= Date.now()) {
+    return { error: "expectedEndAt must be in the future" };
+  }
+  if (deadline.getTime() - Date.now() > CHECK_IN_MAX_DURATION_MS) {
+    return { error: "Check-ins can last at most 12 hours" };
+  }
+  return deadline;
+}
+
+function normalizeEmergencyContact(value: any): { name?: string; phone?: string; email?: string } | null {
+  const name = String(value?.name || "").trim();
+  const phone = String(value?.phone || "").trim();
+  const email = normalizeEmail(value?.email);
+  if (!name && !phone && !email) return null;
+  return {
+    name: name || undefined,
+    phone: phone || undefined,
+    email: email && isValidEmail(email) ? email : undefined,
+  };
+}
+
+async function loadMeetupForParticipant(meetupId: string, userId: string): Promise<any | null> {
+  if (!pgPool) return null;
+  const result = await pgPool.query(
+    `SELECT * FROM explorex_meetups WHERE id::text = $1 AND (user_a_id = $2 OR user_b_id = $2) LIMIT 1`,
+    [meetupId, userId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Claims one overdue check-in and records its SOS incident in a single transaction. The claiming update holds the
+ * row lock until the incident is written, so a "safe" confirmation racing the sweep waits and then resolves the
+ * incident, and a crash before COMMIT leaves the check-in due for the next sweep. Returns false when the check-in
+ * was confirmed (or claimed by another sweep) first.
+ */
+async function escalateCheckIn(checkInId: string, dueBefore: Date): Promise<boolean> {
+  if (!pgPool) return false;
+  const incidentId = newSosIncidentId();
+  const client = await pgPool.connect();
+  try {
+    await client.query("BEGIN");
+    // Rows left escalated without an incident by an older sweep are picked up again too
+    const claimed = await client.query(
+      `UPDATE meetup_checkins
+       SET status = 'escalated', escalated_at = NOW(), incident_id = $2, updated_at = NOW()
+       WHERE id = $1
+         AND expected_end_at < $3
+         AND (status = 'active' OR (status = 'escalated' AND incident_id IS NULL))
+       RETURNING *`,
+      [checkInId, incidentId, dueBefore]
+    );
+    if (!claimed.rowCount) {
+      await client.query("ROLLBACK");
+      return false;
+    }
+    const row = claimed.rows[0];
+    const meetup = await client.query(`SELECT venue_name, venue_address FROM explorex_meetups WHERE id::text = $1`, [row.meetup_id]);
+    const venue = meetup.rows[0]?.venue_name || meetup.rows[0]?.venue_address || "a meetup";
+    const userName = row.user_name || "An ExploreX user";
+    const hasLocation = row.last_lat != null && row.last_lng != null;
+    const message = [
+      `${userName} started a safety check-in for ${venue} and did not confirm they were safe by ${new Date(row.expected_end_at).toUTCString()}.`,
+      hasLocation ? `Last known location: https://maps.google.com/maps?q=${row.last_lat},${row.last_lng}` : "No location was shared.",
+      "Please try to reach them.",
+    ].join(" ");
+
+    await logSosIncident({
+      incidentId,
+      userId: String(row.user_id),
+      userName,
+      location: hasLocation ? { latitude: Number(row.last_lat), longitude: Number(row.last_lng) } : null,
+      emergencyContact: row.emergency_contact,
+      message,
+    }, client);
+    await client.query("COMMIT");
+    return true;
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Deadlines live in Postgres, so check-ins that came due while the server was down are escalated on the next sweep
+async function escalateMissedCheckIns(): Promise<void> {
+  if (!pgPool) return;
+
+  const dueBefore = new Date(Date.now() - CHECK_IN_GRACE_MS);
+  const due = await pgPool.query(
+    `SELECT id FROM meetup_checkins
+     WHERE expected_end_at < $1
+       AND (status = 'active' OR (status = 'escalated' AND incident_id IS NULL))
+     ORDER BY expected_end_at`,
+    [dueBefore]
+  );
+
+  for (const row of due.rows) {
+    try {
+      if (await escalateCheckIn(String(row.id), dueBefore)) {
+        console.log("[CheckIn] Missed check-in escalated:", row.id);
+      }
+    } catch (error) {
+      console.error("[CheckIn] Escalation failed, will retry:", error);
+    }
+  }
+}
+
+function startMeetupCheckInScheduler(): void {
+  if (!pgPool || checkInSweepTimer) return;
+  const sweep = () => {
+    escalateMissedCheckIns().catch((error) => console.error("[CheckIn] Sweep failed:", error));
+  };
+  sweep();
+  checkInSweepTimer = setInterval(sweep, CHECK_IN_SWEEP_INTERVAL_MS);
+  checkInSweepTimer.unref();
+}
+
+function mapActivityMessageRow(row: any): ActivityChatMessage {
+  return {
+    id: row.id,
+    activityId: row.activity_id,
+    senderId: row.sender_id,
+    senderName: row.sender_name,
+    senderPhoto: row.sender_photo,
+    type: row.type || "text",
+    content: row.content,
+    photoUrl: row.photo_url,
+    fileUrl: row.file_url,
+    fileName: row.file_name,
+    audioUrl: row.audio_url,
+    audioDuration: row.audio_duration ? parseFloat(row.audio_duration) : undefined,
+    replyTo: row.reply_to,
+    location: row.location,
+    isPinned: row.is_pinned === true || row.is_pinned === "true",
+    isModeratorMessage: row.is_moderator_message === true || row.is_moderator_message === "true",
+    reactions: row.reactions || {},
+    isEdited: !!row.edited_at,
+    createdAt: row.created_at,
+    deletedAt: row.deleted_at,
+  };
+}
+
+const ACTIVITY_TYPES: Activity["type"][] = ["hiking", "climbing", "skiing", "camping", "surfing", "other"];
+const ACTIVITY_TITLE_MAX_LENGTH = 120;
+const ACTIVITY_DESCRIPTION_MAX_LENGTH = 2000;
+const ACTIVITY_MAX_ATTENDEES_LIMIT = 500;
+const ACTIVITY_ROSTER_RETRIES = 5;
+
+// Older rows stored the limit as text; anything that isn't a positive whole number means no limit
+function parseMaxAttendees(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const maxAttendees = Number(value);
+  return Number.isInteger(maxAttendees) && maxAttendees > 0 ? maxAttendees : undefined;
+}
+
+function mapActivityRow(row: any): Activity {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    type: row.category || "other",
+    location: row.location,
+    latitude: row.latitude ? parseFloat(row.latitude) : undefined,
+    longitude: row.longitude ? parseFloat(row.longitude) : undefined,
+    date: row.date,
+    endDate: row.end_date || undefined,
+    seriesId: row.series_id || undefined,
+    hostId: row.host_id,
+    host: row.host_data || { id: row.host_id, name: "Unknown" },
+    attendeeIds: row.attendee_ids || [],
+    attendees: row.attendees_data || [],
+    waitlistIds: row.waitlist_ids || [],
+    waitlist: row.waitlist_data || [],
+    maxAttendees: parseMaxAttendees(row.max_attendees),
+    imageUrl: row.image_url,
+    createdAt: row.created_at,
+  };
+}
+
+async function loadRecurrenceLabels(seriesIds: string[]): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  const ids = Array.from(new Set(seriesIds.map(String)));
+  if (ids.length === 0) return labels;
+  const { data, error } = await getSupabase()
+    .from('activity_series')
+    .select('id, recurrence')
+    .in('id', ids);
+  // Labels are decoration; the activity list still loads if the series table can't be read
+  if (error) {
+    console.error("Failed to load activity series:", error);
+    return labels;
+  }
+  for (const row of data || []) {
+    const rule = parseRecurrenceRule(row.recurrence);
+    if (!("error" in rule)) labels.set(String(row.id), describeRecurrence(rule));
+  }
+  return labels;
+}
+
+// An activity whose ratings average below this counts against its host
+const HOST_LOW_RATING_THRESHOLD = 3;
+// Hosts are only pushed down once low ratings repeat across activities, never for a single bad evening
+const HOST_REPEAT_LOW_RATED_ACTIVITIES = 2;
+const HOST_RECENT_REVIEWS_LIMIT = 5;
+const ACTIVITY_REVIEW_MAX_LENGTH = 1000;
+
+interface HostReputation {
+  hostId: string;
+  // Mean of every 1–5 score the host received: safety ratings and review ratings alike
+  score: number | null;
+  ratingCount: number;
+  reviewCount: number;
+  averageSafetyScore: number | null;
+  trustworthyPercentage: number | null;
+  ratedActivityCount: number;
+  lowRatedActivityCount: number;
+  isRepeatLowRated: boolean;
+}
+
+interface ActivityReview {
+  id: string;
+  activityId: string;
+  activityTitle?: string;
+  hostId: string;
+  reviewerId: string;
+  reviewerName: string;
+  rating: number;
+  body: string;
+  createdAt: string;
+}
+
+function mapActivityReviewRow(row: any, activityTitle?: string): ActivityReview {
+  return {
+    id: String(row.id),
+    activityId: String(row.activity_id),
+    activityTitle,
+    hostId: String(row.host_id),
+    reviewerId: String(row.reviewer_id),
+    reviewerName: row.reviewer_name || "Nomad",
+    rating: Number(row.rating),
+    body: row.body || "",
+    createdAt: row.created_at,
+  };
+}
+
+function emptyHostReputation(hostId: string): HostReputation {
+  return {
+    hostId,
+    score: null,
+    ratingCount: 0,
+    reviewCount: 0,
+    averageSafetyScore: null,
+    trustworthyPercentage: null,
+    ratedActivityCount: 0,
+    lowRatedActivityCount: 0,
+    isRepeatLowRated: false,
+  };
+}
+
+/**
+ * Ratings and reviews only count from people who were verifiably there: a QR check-in, or a spot on the attendee
+ * list taken before the activity started. Joining once it is over doesn't qualify. The rule lives in the
+ * activity_attendance_verified SQL function, which host_reputation_stats applies to stored ratings as well.
+ */
+async function hasVerifiedAttendance(sb: ReturnType<typeof getSupabase>, activityId: string, userId: string): Promise<boolean> {
+  const { data, error } = await sb.rpc('activity_attendance_verified', { p_activity_id: activityId, p_user_id: userId });
+  if (error) throw error;
+  return data === true;
+}
+
+/**
+ * Aggregates safety ratings and reviews across every activity each host has run, past ones included, in the
+ * host_reputation_stats SQL function. Reputation only decorates and ranks activities, so a failed read leaves hosts
+ * unrated instead of failing the request.
+ */
+async function loadHostReputations(hostIds: string[]): Promise<Map<string, HostReputation>> {
+  const ids = Array.from(new Set(hostIds.map(String).filter(Boolean)));
+  const reputations = new Map(ids.map((id) => [id, emptyHostReputation(id)]));
+
+  for (const chunk of chunkIds(ids)) {
+    const { data, error } = await getSupabase().rpc('host_reputation_stats', {
+      p_host_ids: chunk,
+      p_low_rating: HOST_LOW_RATING_THRESHOLD,
+      p_repeat_low_rated: HOST_REPEAT_LOW_RATED_ACTIVITIES,
+    });
+    if (error) {
+      console.error("Failed to load host reputation:", error);
+      return reputations;
+    }
+    for (const row of data || []) {
+      const hostId = String(row.host_id);
+      const scoreCount = Number(row.score_count || 0);
+      const safetyCount = Number(row.safety_count || 0);
+      reputations.set(hostId, {
+        hostId,
+        score: scoreCount ? Math.round((Number(row.score_sum) / scoreCount) * 10) / 10 : null,
+        ratingCount: scoreCount,
+        reviewCount: Number(row.review_count || 0),
+        averageSafetyScore: safetyCount ? Math.round((Number(row.safety_sum) / safetyCount) * 10) / 10 : null,
+        trustworthyPercentage: safetyCount ? Math.round((Number(row.trustworthy_count) / safetyCount) * 100) : null,
+        ratedActivityCount: Number(row.rated_activity_count || 0),
+        lowRatedActivityCount: Number(row.low_rated_activity_count || 0),
+        isRepeatLowRated: row.is_repeat_low_rated === true,
+      });
+    }
+  }
+  return reputations;
+}
+
+async function loadRecentHostReviews(hostId: string, limit: number): Promise<ActivityReview[]> {
+  const sb = getSupabase();
+  const { data, error } = await sb
+    .from('activity_reviews')
+    .select('*')
+    .eq('host_id', hostId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  const activityIds = Array.from(new Set((data || []).map((row: any) => String(row.activity_id))));
+  const titles = new Map<string, string>();
+  if (activityIds.length > 0) {
+    const { data: activityRows } = await sb.from('activities').select('id, title').in('id', activityIds);
+    for (const row of activityRows || []) titles.set(String(row.id), row.title);
+  }
+  return (data || []).map((row: any) => mapActivityReviewRow(row, titles.get(String(row.activity_id))));
+}
+
+const ACTIVITY_SEARCH_DEFAULT_LIMIT = 20;
+const ACTIVITY_SEARCH_MAX_LIMIT = 50;
+const ACTIVITY_SEARCH_MAX_RADIUS_KM = 500;
+const ACTIVITY_SEARCH_SORTS = ["soonest", "nearest", "popular"] as const;
+type ActivitySearchSort = typeof ACTIVITY_SEARCH_SORTS[number];
+
+// Tier 1 holds activities from repeat low-rated hosts, which are listed after everything else
+interface ActivitySearchCursor {
+  tier: number;
+  value: number;
+  id: string;
+}
+
+interface ActivitySearchQuery {
+  text: string;
+  categories: string[];
+  from: string;
+  to: string | null;
+  center: { lat: number; lng: number } | null;
+  radiusKm: number | null;
+  hasSpots: boolean;
+  verifiedHosts: boolean;
+  groupSeries: boolean;
+  sort: ActivitySearchSort;
+  // Without a limit every match is returned in one response, which is what the app's full activity list relies on
+  limit: number | null;
+  cursor: ActivitySearchCursor | null;
+}
+
+// The cursor is the "<tier>:<sort value>:<id>" of the last activity on the previous page
+function parseActivitySearchQuery(query: Request["query"]): ActivitySearchQuery | { error: string } {
+  const read = (value: unknown) => (Array.isArray(value) ? String(value[0] || "") : String(value || "")).trim();
+  const readList = (value: unknown) =>
+    (Array.isArray(value) ? value : [value]).flatMap((item) => String(item || "").split(",")).map((item) => item.trim()).filter(Boolean);
+  const readFlag = (value: unknown) => ["1", "true"].includes(read(value).toLowerCase());
+  const readDate = (value: unknown) => {
+    const raw = read(value);
+    if (!raw) return null;
+    const date = new Date(raw);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+  };
+
+  const from = readDate(query.from);
+  const to = readDate(query.to);
+  if (from === undefined || to === undefined) {
+    return { error: "from and to must be ISO dates" };
+  }
+  if (from && to && to < from) {
+    return { error: "to must be after from" };
+  }
+
+  const rawLat = read(query.lat);
+  const rawLng = read(query.lng);
+  let center: { lat: number; lng: number } | null = null;
+  if (rawLat || rawLng) {
+    const lat = Number(rawLat);
+    const lng = Number(rawLng);
+    if (!rawLat || !rawLng || !Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return { error: "lat and lng must be valid coordinates" };
+    }
+    center = { lat, lng };
+  }
+
+  const rawRadius = read(query.radiusKm);
+  const radiusKm = rawRadius ? Number(rawRadius) : null;
+  if (radiusKm !== null && (!Number.isFinite(radiusKm) || radiusKm <= 0)) {
+    return { error: "radiusKm must be a positive number" };
+  }
+  if (radiusKm !== null && !center) {
+    return { error: "radiusKm needs lat and lng" };
+  }
+
+  const rawSort = read(query.sort).toLowerCase() || "soonest";
+  if (!(ACTIVITY_SEARCH_SORTS as readonly string[]).includes(rawSort)) {
+    return { error: `sort must be one of ${ACTIVITY_SEARCH_SORTS.join(", ")}` };
+  }
+  const sort = rawSort as ActivitySearchSort;
+  if (sort === "nearest" && !center) {
+    return { error: "sort=nearest needs lat and lng" };
+  }
+
+  const rawLimit = read(query.limit);
+  const limit = rawLimit ? Number(rawLimit) : null;
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+    return { error: "limit must be a positive integer" };
+  }
+
+  const rawCursor = read(query.cursor);
+  let cursor: ActivitySearchCursor | null = null;
+  if (rawCursor) {
+    const [rawTier, rawValue, ...idParts] = rawCursor.split(":");
+    const tier = Number(rawTier);
+    const value = Number(rawValue);
+    const id = idParts.join(":");
+    if (!["0", "1"].includes(rawTier) || !rawValue || !Number.isFinite(value) || !id) {
+      return { error: "cursor must look like <tier>:<value>:<activityId>" };
+    }
+    cursor = { tier, value, id };
+  }
+
+  return {
+    text: normalizeSearchTerm(read(query.q)),
+    categories: readList(query.category).map((category) => category.toLowerCase()),
+    from: from || new Date().toISOString(),
+    to,
+    center,
+    radiusKm: radiusKm === null ? null : Math.min(radiusKm, ACTIVITY_SEARCH_MAX_RADIUS_KM),
+    hasSpots: readFlag(query.hasSpots),
+    verifiedHosts: readFlag(query.verifiedHosts),
+    groupSeries: readFlag(query.groupSeries),
+    sort,
+    limit: limit === null ? (cursor ? ACTIVITY_SEARCH_DEFAULT_LIMIT : null) : Math.min(limit, ACTIVITY_SEARCH_MAX_LIMIT),
+    cursor,
+  };
+}
+
+interface ActivitySearchResult {
+  row: any;
+  distanceKm: number | null;
+  hostReputation: HostReputation;
+  cursor: string;
+}
+
+/**
+ * Runs the search_activities SQL function (scripts/create-supabase-tables.sql), which filters, ranks and pages in the
+ * database: "popular" and "nearest" are sorted on computed values, repeat low-rated hosts drop below everyone else, and
+ * the keyset cursor picks up after the last result. Host reputations are then read for the returned page only.
+ */
+async function searchActivities(search: ActivitySearchQuery): Promise<ActivitySearchResult[]> {
+  const cells = search.center && search.radiusKm !== null
+    ? geohashCellsCoveringRadius(search.center.lat, search.center.lng, search.radiusKm)
+    : null;
+  const ranges = cells ? geohashRanges(cells) : null;
+  const { data, error } = await getSupabase().rpc('search_activities', {
+    p_from: search.from,
+    p_to: search.to,
+    p_categories: search.categories,
+    p_text: search.text || null,
+    p_cells_from: ranges ? ranges.map((range) => range.from) : null,
+    p_cells_to: ranges ? ranges.map((range) => range.to) : null,
+    p_lat: search.center?.lat ?? null,
+    p_lng: search.center?.lng ?? null,
+    p_radius_km: search.radiusKm,
+    p_has_spots: search.hasSpots,
+    p_verified_hosts: search.verifiedHosts,
+    p_group_series: search.groupSeries,
+    p_sort: search.sort,
+    p_cursor_tier: search.cursor?.tier ?? null,
+    p_cursor_value: search.cursor?.value ?? null,
+    p_cursor_id: search.cursor?.id ?? null,
+    p_limit: search.limit,
+    p_low_rating: HOST_LOW_RATING_THRESHOLD,
+    p_repeat_low_rated: HOST_REPEAT_LOW_RATED_ACTIVITIES,
+  });
+  if (error) throw error;
+
+  const rows: any[] = data || [];
+  const reputations = await loadHostReputations(rows.map((result) => String(result.activity?.host_id || "")));
+  return rows.map((result) => {
+    const row = result.activity;
+    const hostId = String(row.host_id);
+    return {
+      row,
+      distanceKm: result.distance_km === null || result.distance_km === undefined ? null : Number(result.distance_km),
+      hostReputation: reputations.get(hostId) || emptyHostReputation(hostId),
+      cursor: `${Number(result.tier)}:${Number(result.sort_value)}:${row.id}`,
+    };
+  });
+}
+
+// Activities created before end dates existed are shown with the app's default two-hour duration
+const DEFAULT_ACTIVITY_DURATION_MS = 2 * 60 * 60 * 1000;
+const CALENDAR_FEED_REFRESH_HOURS = 1;
+
+// Each edit bumps the event's SEQUENCE so calendar apps pick up the new time or place
+async function loadActivityEditStats(activityIds: string[]): Promise<Map<string, { count: number; lastEditedAt: string }>> {
+  const stats = new Map<string, { count: number; lastEditedAt: string }>();
+  if (activityIds.length === 0) return stats;
+  const { data, error } = await getSupabase()
+    .from('activity_edits')
+    .select('activity_id, created_at')
+    .in('activity_id', activityIds);
+  if (error) throw error;
+  for (const row of data || []) {
+    const id = String(row.activity_id);
+    const current = stats.get(id);
+    const createdAt = String(row.created_at);
+    stats.set(id, {
+      count: (current?.count || 0) + 1,
+      lastEditedAt: current && current.lastEditedAt > createdAt ? current.lastEditedAt : createdAt,
+    });
+  }
+  return stats;
+}
+
+function activityCalendarEvent(row: any, edits?: { count: number; lastEditedAt: string }): CalendarEvent {
+  const start = new Date(row.date);
+  const end = row.end_date ? new Date(row.end_date) : new Date(start.getTime() + DEFAULT_ACTIVITY_DURATION_MS);
+  const hostName = row.host_data?.name;
+  const latitude = row.latitude != null ? Number(row.latitude) : null;
+  const longitude = row.longitude != null ? Number(row.longitude) : null;
+  return {
+    uid: calendarEventUid("activity", String(row.id)),
+    start,
+    end,
+    summary: row.title || "Activity",
+    description: [row.description, hostName ? `Hosted by ${hostName}` : ""].filter(Boolean).join("\n\n"),
+    location: row.location || undefined,
+    latitude,
+    longitude,
+    sequence: edits?.count || 0,
+    lastModified: new Date(edits?.lastEditedAt || row.created_at || start),
+    status: "CONFIRMED",
+  };
+}
+
+// Bookings without a scheduled time have nothing to put on a calendar and are left out by the caller
+function consultationCalendarEvent(row: any, otherPartyName: string | undefined, isExpert: boolean): CalendarEvent {
+  const start = new Date(row.scheduled_at);
+  const durationMinutes = Number(row.duration_minutes) || 60;
+  const name = otherPartyName || (isExpert ? "a client" : "an expert");
+  return {
+    uid: calendarEventUid("consultation", String(row.id)),
+    start,
+    end: new Date(start.getTime() + durationMinutes * 60 * 1000),
+    summary: isExpert ? `Consultation with ${name}` : `Expert consultation with ${name}`,
+    description: row.notes || undefined,
+    // Bumped by the consultation_bookings_revision trigger whenever the time, length, status or notes change
+    sequence: Number(row.revision) || 0,
+    lastModified: new Date(row.updated_at || row.created_at || start),
+    status: row.status === "cancelled" ? "CANCELLED" : row.status === "pending" ? "TENTATIVE" : "CONFIRMED",
+  };
+}
+
+async function loadCalendarFeedToken(userId: string, rotate: boolean): Promise<string> {
+  const sb = getSupabase();
+  if (!rotate) {
+    const { data, error } = await sb
+      .from('calendar_feeds')
+      .select('token')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (data?.token) return String(data.token);
+  }
+  const token = randomBytes(24).toString("base64url");
+  const { error } = await sb
+    .from('calendar_feeds')
+    .upsert({ user_id: userId, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' });
+  if (error) throw error;
+  return token;
+}
+
+function calendarFeedUrls(req: Request, token: string) {
+  const url = `${getPublicBaseUrl(req)}/api/calendar-feed/ics/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:/, "webcal:") };
+}
+
+// Everything the user hosts or joined, plus consultations booked either as client or expert
+async function buildUserCalendarEvents(userId: string): Promise<CalendarEvent[]> {
+  const sb = getSupabase();
+  const [hosted, attending, asClient, asExpert] = await Promise.all([
+    sb.from('activities').select('*').eq('host_id', userId),
+    sb.from('activities').select('*').contains('attendee_ids', [userId]),
+    sb.from('consultation_bookings').select('*').eq('user_id', userId).not('scheduled_at', 'is', null),
+    sb.from('consultation_bookings').select('*').eq('expert_id', userId).not('scheduled_at', 'is', null),
+  ]);
+  for (const result of [hosted, attending, asClient, asExpert]) {
+    if (result.error) throw result.error;
+  }
+
+  const activityRows = new Map<string, any>();
+  for (const row of [...(hosted.data || []), ...(attending.data || [])]) {
+    activityRows.set(String(row.id), row);
+  }
+  const edits = await loadActivityEditStats(Array.from(activityRows.keys()));
+
+  const bookings = [
+    ...(asClient.data || []).map((row: any) => ({ row, isExpert: false })),
+    ...(asExpert.data || []).map((row: any) => ({ row, isExpert: true })),
+  ];
+  const otherPartyIds = Array.from(new Set(bookings.map(({ row, isExpert }) => String(isExpert ? row.user_id : row.expert_id))));
+  const { data: profiles } = otherPartyIds.length > 0
+    ? await sb.from('user_profiles').select('id, name').in('id', otherPartyIds)
+    : { data: [] as any[] };
+  const nameById = new Map((profiles || []).map((p: any) => [String(p.id), p.name as string]));
+
+  return [
+    ...Array.from(activityRows.values()).map((row) => activityCalendarEvent(row, edits.get(String(row.id)))),
+    ...bookings.map(({ row, isExpert }) =>
+      consultationCalendarEvent(row, nameById.get(String(isExpert ? row.user_id : row.expert_id)), isExpert)
+    ),
+  ].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Check-in codes rotate every 30 seconds; the previous one is still accepted to cover a slow scan
+const CHECK_IN_CODE_PERIOD_MS = 30 * 1000;
+const CHECK_IN_CODE_LENGTH = 8;
+const CHECK_IN_CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const CHECK_IN_OPENS_BEFORE_MS = 60 * 60 * 1000;
+const CHECK_IN_CLOSES_AFTER_MS = 60 * 60 * 1000;
+// How far from the activity's pin a scan still counts; generous enough for GPS drift and spread-out venues
+const CHECK_IN_MAX_DISTANCE_KM = 1;
+
+interface ActivityCheckIn {
+  activityId: string;
+  userId: string;
+  method: "qr" | "host";
+  checkedInAt: string;
+}
+
+function mapActivityCheckInRow(row: any): ActivityCheckIn {
+  return {
+    activityId: String(row.activity_id),
+    userId: String(row.user_id),
+    method: row.method === "host" ? "host" : "qr",
+    checkedInAt: row.checked_in_at,
+  };
+}
+
+function checkInWindow(row: any): { opensAt: number; closesAt: number } {
+  const start = new Date(row.date).getTime();
+  const end = row.end_date ? new Date(row.end_date).getTime() : start + DEFAULT_ACTIVITY_DURATION_MS;
+  return { opensAt: start - CHECK_IN_OPENS_BEFORE_MS, closesAt: end + CHECK_IN_CLOSES_AFTER_MS };
+}
+
+// Unambiguous characters only, so the code under the QR can be typed in when a camera isn't available
+function checkInCodeFor(secret: string, activityId: string, period: number): string {
+  const digest = createHmac("sha256", secret).update(`${activityId}:${period}`).digest();
+  let code = "";
+  for (let i = 0; i < CHECK_IN_CODE_LENGTH; i++) {
+    code += CHECK_IN_CODE_ALPHABET[digest[i] % CHECK_IN_CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+function isValidCheckInCode(secret: string, activityId: string, code: string, now = Date.now()): boolean {
+  const given = Buffer.from(code.trim().toUpperCase());
+  const period = Math.floor(now / CHECK_IN_CODE_PERIOD_MS);
+  return [period, period - 1].some((candidate) => {
+    const expected = Buffer.from(checkInCodeFor(secret, activityId, candidate));
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  });
+}
+
+// Each activity gets its own random secret the first time its host shows a code
+async function loadCheckInSecret(activityId: string, create: boolean): Promise<string | null> {
+  const sb = getSupabase();
+  const { data, error } = await sb
+    .from('activity_check_in_secrets')
+    .select('secret')
+    .eq('activity_id', activityId)
+    .maybeSingle();
+  if (error) throw error;
+  if (data?.secret || !create) return data?.secret ? String(data.secret) : null;
+
+  const { error: insertError } = await sb
+    .from('activity_check_in_secrets')
+    .upsert(
+      { activity_id: activityId, secret: randomBytes(32).toString("hex"), created_at: new Date().toISOString() },
+      { onConflict: 'activity_id', ignoreDuplicates: true }
+    );
+  if (insertError) throw insertError;
+  // Read back so two hosts opening the code at once end up sharing the row that won
+  return loadCheckInSecret(activityId, false);
+}
+
+interface ActivityLocationValue {
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+interface ActivityUpdate {
+  title?: string;
+  description?: string;
+  type?: Activity["type"];
+  date?: string;
+  location?: ActivityLocationValue;
+  maxAttendees?: number | null;
+  imageUrl?: string | null;
+}
+
+type ActivityFieldChange = {
+  [K in keyof ActivityUpdate]-?: { field: K; from: Exclude<ActivityUpdate[K], undefined> | null; to: Exclude<ActivityUpdate[K], undefined> };
+}[keyof ActivityUpdate];
+
+interface ActivityEdit {
+  id: string;
+  activityId: string;
+  editedBy: string;
+  editedByName: string;
+  changes: ActivityFieldChange[];
+  summary: string;
+  createdAt: string;
+}
+
+function parseOptionalCoordinate(value: unknown, limit: number): number | null | undefined {
+  if (value === undefined || value === null || value === "") return null;
+  const coordinate = Number(value);
+  return Number.isFinite(coordinate) && Math.abs(coordinate) <= limit ? coordinate : undefined;
+}
+
+// Only the fields present in the body are validated and returned; anything else on the activity is left alone
+function parseActivityUpdateInput(body: any): ActivityUpdate | { error: string } {
+  const update: ActivityUpdate = {};
+
+  if (body?.title !== undefined) {
+    const title = String(body.title || "").trim();
+    if (!title || title.length > ACTIVITY_TITLE_MAX_LENGTH) {
+      return { error: `title must be between 1 and ${ACTIVITY_TITLE_MAX_LENGTH} characters` };
+    }
+    update.title = title;
+  }
+
+  if (body?.description !== undefined) {
+    const description = String(body.description || "").trim();
+    if (description.length > ACTIVITY_DESCRIPTION_MAX_LENGTH) {
+      return { error: `description must be at most ${ACTIVITY_DESCRIPTION_MAX_LENGTH} characters` };
+    }
+    update.description = description;
+  }
+
+  if (body?.type !== undefined) {
+    if (!ACTIVITY_TYPES.includes(body.type)) {
+      return { error: "type is not a known activity type" };
+    }
+    update.type = body.type;
+  }
+
+  if (body?.date !== undefined) {
+    const date = new Date(String(body.date));
+    if (Number.isNaN(date.getTime())) {
+      return { error: "date must be an ISO date" };
+    }
+    if (date.getTime() <= Date.now()) {
+      return { error: "date must be in the future" };
+    }
+    update.date = date.toISOString();
+  }
+
+  // Coordinates only make sense next to the place name they belong to, so they travel together
+  if (body?.location !== undefined || body?.latitude !== undefined || body?.longitude !== undefined) {
+    const name = String(body?.location || "").trim();
+    if (!name) {
+      return { error: "location is required when changing the location or its coordinates" };
+    }
+    const latitude = parseOptionalCoordinate(body?.latitude, 90);
+    const longitude = parseOptionalCoordinate(body?.longitude, 180);
+    if (latitude === undefined || longitude === undefined || (latitude === null) !== (longitude === null)) {
+      return { error: "latitude and longitude must be valid coordinates, given together" };
+    }
+    update.location = { name, latitude, longitude };
+  }
+
+  if (body?.maxAttendees !== undefined) {
+    if (body.maxAttendees === null) {
+      update.maxAttendees = null;
+    } else {
+      const maxAttendees = Number(body.maxAttendees);
+      if (!Number.isInteger(maxAttendees) || maxAttendees < 1 || maxAttendees > ACTIVITY_MAX_ATTENDEES_LIMIT) {
+        return { error: `maxAttendees must be a whole number between 1 and ${ACTIVITY_MAX_ATTENDEES_LIMIT}, or null for no limit` };
+      }
+      update.maxAttendees = maxAttendees;
+    }
+  }
+
+  if (body?.imageUrl !== undefined) {
+    update.imageUrl = body.imageUrl ? String(body.imageUrl) : null;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { error: "No changes provided" };
+  }
+  return update;
+}
+
+// Compares against the stored row so resubmitting the current values records nothing
+function diffActivityUpdate(row: any, update: ActivityUpdate): ActivityFieldChange[] {
+  const current = mapActivityRow(row);
+  const changes: ActivityFieldChange[] = [];
+
+  if (update.title !== undefined && update.title !== current.title) {
+    changes.push({ field: "title", from: current.title ?? null, to: update.title });
+  }
+  if (update.description !== undefined && update.description !== (current.description || "")) {
+    changes.push({ field: "description", from: current.description ?? null, to: update.description });
+  }
+  if (update.type !== undefined && update.type !== current.type) {
+    changes.push({ field: "type", from: current.type, to: update.type });
+  }
+  if (update.date !== undefined && new Date(update.date).getTime() !== new Date(current.date).getTime()) {
+    changes.push({ field: "date", from: current.date ?? null, to: update.date });
+  }
+  if (update.location !== undefined) {
+    const from: ActivityLocationValue = {
+      name: current.location || "",
+      latitude: current.latitude ?? null,
+      longitude: current.longitude ?? null,
+    };
+    if (from.name !== update.location.name || from.latitude !== update.location.latitude || from.longitude !== update.location.longitude) {
+      changes.push({ field: "location", from, to: update.location });
+    }
+  }
+  if (update.maxAttendees !== undefined && update.maxAttendees !== (current.maxAttendees ?? null)) {
+    changes.push({ field: "maxAttendees", from: current.maxAttendees ?? null, to: update.maxAttendees });
+  }
+  if (update.imageUrl !== undefined && update.imageUrl !== (current.imageUrl || null)) {
+    changes.push({ field: "imageUrl", from: current.imageUrl || null, to: update.imageUrl });
+  }
+
+  return changes;
+}
+
+// Times are written in the editor's time zone, since that is the clock they picked the new time on
+function describeActivityChange(change: ActivityFieldChange, timeZone: string): string {
+  switch (change.field) {
+    case "title":
+      return `Renamed to "${change.to}"`;
+    case "description":
+      return "Description updated";
+    case "type":
+      return `Type changed to ${change.to.charAt(0).toUpperCase()}${change.to.slice(1)}`;
+    case "date": {
+      const time = new Intl.DateTimeFormat("en-GB", { timeZone, hour: "numeric", minute: "2-digit", hourCycle: "h23" });
+      const day = new Intl.DateTimeFormat("en-GB", { timeZone, weekday: "short", day: "numeric", month: "short" });
+      const to = new Date(change.to);
+      const sameDay = change.from !== null && day.format(new Date(change.from)) === day.format(to);
+      return sameDay
+        ? `Start moved to ${time.format(to)}`
+        : `Start moved to ${day.format(to)}, ${time.format(to)}`;
+    }
+    case "location":
+      return change.from !== null && change.from.name === change.to.name
+        ? "Meeting point moved on the map"
+        : `Location changed to ${change.to.name}`;
+    case "maxAttendees":
+      return change.to === null ? "Spot limit removed" : `Spots changed to ${change.to}`;
+    case "imageUrl":
+      return change.to === null ? "Cover photo removed" : "Cover photo updated";
+  }
+}
+
+function activityUpdateColumns(changes: ActivityFieldChange[]): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+  for (const change of changes) {
+    switch (change.field) {
+      case "title":
+        columns.title = change.to;
+        break;
+      case "description":
+        columns.description = change.to;
+        break;
+      case "type":
+        columns.category = change.to;
+        break;
+      case "date":
+        columns.date = change.to;
+        break;
+      case "location":
+        columns.location = change.to.name;
+        columns.latitude = change.to.latitude?.toString() ?? null;
+        columns.longitude = change.to.longitude?.toString() ?? null;
+        columns.geohash = encodeGeohashOrNull(change.to.latitude, change.to.longitude);
+        break;
+      case "maxAttendees":
+        columns.max_attendees = change.to;
+        break;
+      case "imageUrl":
+        columns.image_url = change.to;
+        break;
+    }
+  }
+  return columns;
+}
+
+function mapActivityEditRow(row: any): ActivityEdit {
+  return {
+    id: row.id,
+    activityId: row.activity_id,
+    editedBy: row.edited_by,
+    editedByName: row.edited_by_name || "",
+    changes: Array.isArray(row.changes) ? row.changes : [],
+    summary: row.summary || "",
+    createdAt: row.created_at,
+  };
+}
+
+async function canManageActivity(sb: ReturnType<typeof getSupabase>, activityRow: any, activityId: string, userId: string): Promise<boolean> {
+  if (String(activityRow.host_id) === userId) return true;
+  const { data, error } = await sb
+    .from('activity_moderators')
+    .select('id')
+    .eq('activity_id', activityId)
+    .eq('user_id', userId)
+    .limit(1);
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
+
+async function postActivitySystemMessage(activityId: string, sender: ActivityUser, content: string): Promise<ActivityChatMessage> {
+  const message: ActivityChatMessage = {
+    id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    activityId,
+    senderId: sender.id,
+    senderName: sender.name,
+    senderPhoto: sender.photos?.[0] || "",
+    type: "system",
+    content,
+    isPinned: false,
+    isModeratorMessage: false,
+    reactions: {},
+    createdAt: new Date().toISOString(),
+  };
+  const { error } = await getSupabase()
+    .from('activity_chat_messages')
+    .insert({
+      id: message.id,
+      activity_id: activityId,
+      sender_id: message.senderId,
+      sender_name: message.senderName,
+      sender_photo: message.senderPhoto,
+      type: message.type,
+      content,
+      is_pinned: false,
+      is_moderator_message: false,
+      reactions: {},
+      created_at: message.createdAt,
+    });
+  if (error) throw error;
+  publish(`activity:${activityId}`, { type: "message.created", message });
+  return message;
+}
+
+interface ActivityRoster {
+  attendeeIds: string[];
+  attendees: ActivityUser[];
+  waitlistIds: string[];
+  waitlist: ActivityUser[];
+}
+
+type ActivityJoinResult =
+  | { status: "hosting" | "attending"; promoted: ActivityUser[] }
+  | { status: "waitlisted"; waitlistPosition: number; promoted: ActivityUser[] };
+
+interface ActivityLeaveResult {
+  status: "hosting" | "not_joined" | "left" | "left_waitlist";
+  promoted: ActivityUser[];
+}
+
+function mapActivityRoster(row: any): ActivityRoster {
+  return {
+    attendeeIds: Array.isArray(row.attendee_ids) ? row.attendee_ids.map(String) : [],
+    attendees: Array.isArray(row.attendees_data) ? row.attendees_data : [],
+    waitlistIds: Array.isArray(row.waitlist_ids) ? row.waitlist_ids.map(String) : [],
+    waitlist: Array.isArray(row.waitlist_data) ? row.waitlist_data : [],
+  };
+}
+
+// Fills open spots from the front of the waitlist, in the order people joined it
+function promoteFromWaitlist(roster: ActivityRoster, maxAttendees: number | undefined): { roster: ActivityRoster; promoted: ActivityUser[] } {
+  const next: ActivityRoster = {
+    attendeeIds: [...roster.attendeeIds],
+    attendees: [...roster.attendees],
+    waitlistIds: [...roster.waitlistIds],
+    waitlist: [...roster.waitlist],
+  };
+  const promoted: ActivityUser[] = [];
+  while (next.waitlistIds.length > 0 && (maxAttendees === undefined || next.attendeeIds.length < maxAttendees)) {
+    const userId = next.waitlistIds.shift()!;
+    const user = next.waitlist.find((entry) => String(entry.id) === userId) || { id: userId, name: "Someone" };
+    next.waitlist = next.waitlist.filter((entry) => String(entry.id) !== userId);
+    next.attendeeIds.push(userId);
+    next.attendees.push(user);
+    promoted.push(user);
+  }
+  return { roster: next, promoted };
+}
+
+/**
+ * Reads the activity, lets `change` rewrite its roster and writes it back only if the roster version is still
+ * the one that was read, retrying from a fresh read otherwise. Two people racing for the last spot can't both
+ * get it. `change` returns a null roster to leave the activity untouched, and any `columns` it returns are written
+ * in the same guarded update.
+ */
+async function changeActivityRoster<T>(
+  activityId: string,
+  change: (roster: ActivityRoster, row: any) => { roster: ActivityRoster | null; result: T; columns?: Record<string, unknown> }
+): Promise<{ row: any; result: T } | null> {
+  const sb = getSupabase();
+  for (let attempt = 0; attempt < ACTIVITY_ROSTER_RETRIES; attempt++) {
+    const { data: row, error } = await sb
+      .from('activities')
+      .select('*')
+      .eq('id', activityId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!row) return null;
+
+    const { roster, result, columns: extraColumns } = change(mapActivityRoster(row), row);
+    if (!roster) return { row, result };
+
+    const version = Number(row.roster_version) || 0;
+    const columns = {
+      ...extraColumns,
+      attendee_ids: roster.attendeeIds,
+      attendees_data: roster.attendees,
+      waitlist_ids: roster.waitlistIds,
+      waitlist_data: roster.waitlist,
+      roster_version: version + 1,
+    };
+    const { data: updated, error: updateError } = await sb
+      .from('activities')
+      .update(columns)
+      .eq('id', activityId)
+      .eq('roster_version', version)
+      .select('id');
+    if (updateError) throw updateError;
+    if (updated && updated.length > 0) return { row: { ...row, ...columns }, result };
+  }
+  throw new Error(`Roster for activity ${activityId} kept changing, gave up after ${ACTIVITY_ROSTER_RETRIES} attempts`);
+}
+
+// Each promoted person hears about it directly, and the group chat gets a note so everyone sees the new face
+async function announceWaitlistPromotions(activityRow: any, promoted: ActivityUser[]) {
+  for (const user of promoted) {
+    publish(`user:${user.id}`, {
+      type: "activity.promoted",
+      activityId: String(activityRow.id),
+      activityTitle: activityRow.title,
+    });
+    try {
+      await postActivitySystemMessage(String(activityRow.id), user, `${user.name} got a spot from the waitlist`);
+    } catch (error) {
+      console.error("Failed to post waitlist promotion message:", error);
+    }
+  }
+}
+
+async function isMatchParticipant(matchId: string, userId: string): Promise<boolean> {
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT id FROM matches WHERE id = $1 AND (user_a_id = $2 OR user_b_id = $2) LIMIT 1`,
+      [matchId, userId]
+    );
+    return result.rows.length > 0;
+  }
+  const { data, error } = await getSupabase()
+    .from('matches')
+    .select('user_a_id, user_b_id')
+    .eq('id', matchId)
+    .single();
+  if (error || !data) return false;
+  return String(data.user_a_id) === userId || String(data.user_b_id) === userId;
+}
+
+async function isActivityMember(activityId: string, userId: string): Promise<boolean> {
+  const { data, error } = await getSupabase()
+    .from('activities')
+    .select('host_id, attendee_ids')
+    .eq('id', activityId)
+    .single();
+  if (error || !data) return false;
+  const attendeeIds = Array.isArray(data.attendee_ids) ? data.attendee_ids.map(String) : [];
+  return String(data.host_id) === userId || attendeeIds.includes(userId);
+}
+
+// Realtime channels: "user:<id>" (own events), "match:<id>" (partners who haven't blocked each other) and
+// "activity:<id>" (members only)
+async function authorizeRealtimeChannel(userId: string, channel: string): Promise<boolean> {
+  const separator = channel.indexOf(":");
+  if (separator <= 0) return false;
+  const kind = channel.slice(0, separator);
+  const id = channel.slice(separator + 1);
+  if (!id) return false;
+
+  if (kind === "user") return id === userId;
+  if (kind === "match") return canJoinMatchChannel(id, userId);
+  if (kind === "activity") return isActivityMember(id, userId);
+  if (kind === "location-share") return canViewLocationShare(id, userId);
+  if (kind === "sos") return canAccessSosIncident(id, userId);
+  return false;
+}
+
+interface PresencePrivacy {
+  isVisible: boolean;
+  hideLastSeen: boolean;
+}
+
+interface PresenceState {
+  userId: string;
+  isOnline: boolean;
+  lastSeenAt: string | null;
+}
+
+async function loadPresencePrivacy(userIds: string[]): Promise<Map<string, PresencePrivacy>> {
+  const privacyByUser = new Map<string, PresencePrivacy>();
+  if (userIds.length === 0) return privacyByUser;
+
+  let rows: any[] = [];
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT id, is_visible_on_radar, hide_last_seen FROM user_profiles WHERE id = ANY($1::text[])`,
+      [userIds]
+    );
+    rows = result.rows;
+  } else {
+    const { data, error } = await getSupabase()
+      .from('user_profiles')
+      .select('id, is_visible_on_radar, hide_last_seen')
+      .in('id', userIds);
+    if (error) throw error;
+    rows = data || [];
+  }
+
+  for (const row of rows) {
+    privacyByUser.set(String(row.id), {
+      isVisible: row.is_visible_on_radar !== false,
+      hideLastSeen: row.hide_last_seen === true,
+    });
+  }
+  return privacyByUser;
+}
+
+async function loadLastSeen(userIds: string[]): Promise<Map<string, string>> {
+  const lastSeenByUser = new Map<string, string>();
+  if (userIds.length === 0) return lastSeenByUser;
+
+  let rows: any[] = [];
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT user_id, last_seen_at FROM user_presence WHERE user_id = ANY($1::text[])`,
+      [userIds]
+    );
+    rows = result.rows;
+  } else {
+    const { data, error } = await getSupabase()
+      .from('user_presence')
+      .select('user_id, last_seen_at')
+      .in('user_id', userIds);
+    if (error) throw error;
+    rows = data || [];
+  }
+
+  for (const row of rows) {
+    if (row.last_seen_at) {
+      lastSeenByUser.set(String(row.user_id), new Date(row.last_seen_at).toISOString());
+    }
+  }
+  return lastSeenByUser;
+}
+
+async function recordLastSeen(userId: string): Promise<void> {
+  if (pgPool) {
+    await pgPool.query(
+      `INSERT INTO user_presence (user_id, last_seen_at) VALUES ($1, NOW())
+       ON CONFLICT (user_id) DO UPDATE SET last_seen_at = NOW()`,
+      [userId]
+    );
+    return;
+  }
+  const { error } = await getSupabase()
+    .from('user_presence')
+    .upsert({ user_id: userId, last_seen_at: new Date().toISOString() }, { onConflict: 'user_id' });
+  if (error) throw error;
+}
+
+async function loadMatchPartners(userId: string): Promise<{ matchId: string; partnerId: string }[]> {
+  let rows: any[] = [];
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT id, user_a_id, user_b_id FROM matches WHERE user_a_id = $1 OR user_b_id = $1`,
+      [userId]
+    );
+    rows = result.rows;
+  } else {
+    const { data, error } = await getSupabase()
+      .from('matches')
+      .select('id, user_a_id, user_b_id')
+      .or(`user_a_id.eq.${userId},user_b_id.eq.${userId}`);
+    if (error) throw error;
+    rows = data || [];
+  }
+
+  return rows.map((row) => ({
+    matchId: String(row.id),
+    partnerId: String(row.user_a_id) === userId ? String(row.user_b_id) : String(row.user_a_id),
+  }));
+}
+
+// Users hidden from radar always appear offline; "hide last seen" only drops the timestamp
+function buildPresenceState(userId: string, privacy: PresencePrivacy | undefined, lastSeenAt: string | undefined): PresenceState {
+  const isVisible = privacy?.isVisible !== false;
+  return {
+    userId,
+    isOnline: isVisible && isUserOnline(userId),
+    lastSeenAt: isVisible && !privacy?.hideLastSeen ? lastSeenAt || null : null,
+  };
+}
+
+async function broadcastPresence(userId: string, reason: "connection" | "settings"): Promise<void> {
+  const privacy = (await loadPresencePrivacy([userId])).get(userId);
+  // Connection changes of invisible users must not leak through event timing
+  if (reason === "connection" && privacy?.isVisible === false) return;
+
+  const [lastSeen, partners, blockedIds, rulesByUser] = await Promise.all([
+    loadLastSeen([userId]),
+    loadMatchPartners(userId),
+    loadBlockedUserIds(userId),
+    loadRadarVisibilityRules([userId]),
+  ]);
+  // Nothing crosses a block, and a partner the radar rules hide this user from sees them as invisible
+  const recipients = partners.filter(({ partnerId }) => !blockedIds.has(partnerId));
+  const hiddenFrom = rulesByUser.has(userId)
+    ? await Promise.all(recipients.map(({ partnerId }) => loadRadarHiddenUserIds(partnerId, [userId])))
+    : [];
+  const presence = buildPresenceState(userId, privacy, lastSeen.get(userId));
+  const hiddenPresence = buildPresenceState(userId, { isVisible: false, hideLastSeen: true }, undefined);
+  recipients.forEach(({ matchId }, index) => {
+    if (hiddenFrom[index]?.has(userId)) {
+      if (reason === "settings") publish(`match:${matchId}`, { type: "presence", ...hiddenPresence });
+      return;
+    }
+    publish(`match:${matchId}`, { type: "presence", ...presence });
+  });
+}
+
+type ReceiptStatus = "delivered" | "read";
+
+// Unread = messages from the other participant newer than this user's read watermark
+async function loadUnreadCounts(userId: string, matchIds: string[]): Promise<Map<string, number>> {
+  const unreadByMatch = new Map<string, number>();
+  if (matchIds.length === 0) return unreadByMatch;
+
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT m.match_id, COUNT(*)::int AS unread
+       FROM chat_messages m
+       LEFT JOIN chat_read_states r ON r.match_id = m.match_id AND r.user_id = $1
+       WHERE m.match_id = ANY($2::text[])
+         AND m.sender_id <> $1
+         AND (r.read_up_to IS NULL OR m.created_at > r.read_up_to)
+       GROUP BY m.match_id`,
+      [userId, matchIds]
+    );
+    for (const row of result.rows) {
+      unreadByMatch.set(String(row.match_id), Number(row.unread) || 0);
+    }
+    return unreadByMatch;
+  }
+
+  const sb = getSupabase();
+  const [{ data: states, error: statesError }, { data: rows, error: rowsError }] = await Promise.all([
+    sb.from('chat_read_states').select('match_id, read_up_to').eq('user_id', userId).in('match_id', matchIds),
+    sb.from('chat_messages').select('match_id, created_at').in('match_id', matchIds).neq('sender_id', userId),
+  ]);
+  if (statesError) throw statesError;
+  if (rowsError) throw rowsError;
+
+  const readUpTo = new Map<string, number>();
+  for (const state of states || []) {
+    if (state.read_up_to) readUpTo.set(String(state.match_id), new Date(state.read_up_to).getTime());
+  }
+  for (const row of rows || []) {
+    const matchId = String(row.match_id);
+    const watermark = readUpTo.get(matchId);
+    if (watermark !== undefined && new Date(row.created_at).getTime() <= watermark) continue;
+    unreadByMatch.set(matchId, (unreadByMatch.get(matchId) || 0) + 1);
+  }
+  return unreadByMatch;
+}
+
+// Watermarks only move forward; "read" implies "delivered".
+// upTo is the created_at value exactly as the driver returned it, so it compares cleanly with stored rows.
+async function advanceReceiptWatermark(matchId: string, userId: string, status: ReceiptStatus, upTo: Date | string): Promise<void> {
+  if (pgPool) {
+    await pgPool.query(
+      `INSERT INTO chat_read_states (match_id, user_id, delivered_up_to, read_up_to, updated_at)
+       VALUES ($1, $2, $3, CASE WHEN $4 = 'read' THEN $3::timestamp ELSE NULL END, NOW())
+       ON CONFLICT (match_id, user_id) DO UPDATE SET
+         delivered_up_to = GREATEST(chat_read_states.delivered_up_to, EXCLUDED.delivered_up_to),
+         read_up_to = GREATEST(chat_read_states.read_up_to, EXCLUDED.read_up_to),
+         updated_at = NOW()`,
+      [matchId, userId, upTo, status]
+    );
+    await pgPool.query(
+      `UPDATE chat_messages SET status = $4
+       WHERE match_id = $1 AND sender_id <> $2 AND created_at <= $3
+         AND status IS DISTINCT FROM 'read' AND ($4 = 'read' OR status IS DISTINCT FROM 'delivered')`,
+      [matchId, userId, upTo, status]
+    );
+    return;
+  }
+
+  const sb = getSupabase();
+  const { data: existing, error: existingError } = await sb
+    .from('chat_read_states')
+    .select('delivered_up_to, read_up_to')
+    .eq('match_id', matchId)
+    .eq('user_id', userId)
+    .limit(1);
+  if (existingError) throw existingError;
+
+  const upToIso = new Date(upTo).toISOString();
+  const latest = (current: string | null | undefined) =>
+    current && new Date(current).getTime() >= new Date(upTo).getTime() ? current : upToIso;
+  const row = existing?.[0];
+  const { error: upsertError } = await sb
+    .from('chat_read_states')
+    .upsert({
+      match_id: matchId,
+      user_id: userId,
+      delivered_up_to: latest(row?.delivered_up_to),
+      read_up_to: status === 'read' ? latest(row?.read_up_to) : row?.read_up_to || null,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'match_id,user_id' });
+  if (upsertError) throw upsertError;
+
+  const statusesToAdvance = status === 'read' ? ['sent', 'delivered'] : ['sent'];
+  const { error: statusError } = await sb
+    .from('chat_messages')
+    .update({ status })
+    .eq('match_id', matchId)
+    .neq('sender_id', userId)
+    .lte('created_at', upToIso)
+    .in('status', statusesToAdvance);
+  if (statusError) throw statusError;
+}
+
+const MESSAGE_PAGE_DEFAULT_LIMIT = 50;
+const MESSAGE_PAGE_MAX_LIMIT = 200;
+
+interface MessagePageQuery {
+  before?: string;
+  after?: string;
+  limit: number;
+}
+
+interface MessageCursor {
+  id: string;
+  createdAt: string;
+}
+
+// Without a cursor the newest page is returned; pages are always in ascending order.
+function parseMessagePageQuery(query: Request["query"]): MessagePageQuery | { error: string } {
+  const read = (value: unknown) => (Array.isArray(value) ? String(value[0] || "") : String(value || "")).trim();
+  const before = read(query.before);
+  const after = read(query.after);
+  if (before && after) {
+    return { error: "Use either before or after, not both" };
+  }
+  const rawLimit = read(query.limit);
+  const limit = rawLimit ? Number(rawLimit) : MESSAGE_PAGE_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { error: "limit must be a positive integer" };
+  }
+  return { before: before || undefined, after: after || undefined, limit: Math.min(limit, MESSAGE_PAGE_MAX_LIMIT) };
+}
+
+async function loadSupabaseMessageCursor(
+  table: "chat_messages" | "activity_chat_messages",
+  scopeColumn: "match_id" | "activity_id",
+  scopeId: string,
+  messageId: string
+): Promise<MessageCursor | null> {
+  const { data, error } = await getSupabase()
+    .from(table)
+    .select('id, created_at')
+    .eq('id', messageId)
+    .eq(scopeColumn, scopeId)
+    .limit(1);
+  if (error) throw error;
+  const row = data?.[0];
+  return row ? { id: String(row.id), createdAt: String(row.created_at) } : null;
+}
+
+// Ties on created_at are broken by id so a page boundary never skips or repeats a message.
+function supabaseMessageCursorFilter(cursor: MessageCursor, direction: "before" | "after"): string {
+  const op = direction === "before" ? "lt" : "gt";
+  return `created_at.${op}."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.${op}."${cursor.id}")`;
+}
+
+const MESSAGE_SEARCH_DEFAULT_LIMIT = 30;
+const MESSAGE_SEARCH_MAX_LIMIT = 100;
+
+interface MessageSearchHit {
+  kind: "match" | "activity";
+  conversationId: string;
+  message: any;
+  createdAt: string;
+}
+
+// Wildcards and PostgREST filter syntax are stripped so the term is always matched literally
+function normalizeSearchTerm(value: unknown): string {
+  return String(value || "").replace(/[%_*\\(),"]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+async function searchMatchMessages(userId: string, term: string, limit: number): Promise<MessageSearchHit[]> {
+  let rows: any[] = [];
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT cm.* FROM chat_messages cm
+       JOIN matches m ON m.id = cm.match_id
+       WHERE (m.user_a_id = $1 OR m.user_b_id = $1)
+         AND (cm.content ILIKE $2 OR cm.file_name ILIKE $2
+           OR cm.location->>'name' ILIKE $2 OR cm.location->>'address' ILIKE $2)
+       ORDER BY cm.created_at DESC
+       LIMIT $3`,
+      [userId, `%${term}%`, limit]
+    );
+    rows = result.rows;
+  } else {
+    const matchIds = (await loadMatchPartners(userId)).map((p) => p.matchId);
+    if (matchIds.length === 0) return [];
+    const pattern = `"*${term}*"`;
+    const { data, error } = await getSupabase()
+      .from('chat_messages')
+      .select('*')
+      .in('match_id', matchIds)
+      .or(`content.ilike.${pattern},file_name.ilike.${pattern},location->>name.ilike.${pattern},location->>address.ilike.${pattern}`)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    rows = data || [];
+  }
+
+  return rows.map((row) => ({
+    kind: "match" as const,
+    conversationId: String(row.match_id),
+    message: row,
+    createdAt: new Date(row.created_at).toISOString(),
+  }));
+}
+
+async function searchActivityMessages(userId: string, term: string, limit: number): Promise<MessageSearchHit[]> {
+  const sb = getSupabase();
+  const [hosted, attending] = await Promise.all([
+    sb.from('activities').select('id').eq('host_id', userId),
+    sb.from('activities').select('id').contains('attendee_ids', [userId]),
+  ]);
+  if (hosted.error) throw hosted.error;
+  if (attending.error) throw attending.error;
+  const activityIds = Array.from(new Set([...(hosted.data || []), ...(attending.data || [])].map((row: any) => String(row.id))));
+  if (activityIds.length === 0) return [];
+
+  const pattern = `"*${term}*"`;
+  const { data, error } = await sb
+    .from('activity_chat_messages')
+    .select('*')
+    .in('activity_id', activityIds)
+    .is('deleted_at', null)
+    .or(`content.ilike.${pattern},file_name.ilike.${pattern},location->>name.ilike.${pattern},location->>address.ilike.${pattern}`)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+
+  return (data || []).map((row: any) => ({
+    kind: "activity" as const,
+    conversationId: String(row.activity_id),
+    message: mapActivityMessageRow(row),
+    createdAt: new Date(row.created_at).toISOString(),
+  }));
+}
+
+const REPORT_REASONS = [
+  "harassment",
+  "spam",
+  "scam",
+  "inappropriate_content",
+  "fake_profile",
+  "underage",
+  "safety_concern",
+  "other",
+] as const;
+type ReportReason = typeof REPORT_REASONS[number];
+
+// Blocks apply in both directions: neither side can find or message the other
+async function loadBlockedUserIds(userId: string): Promise<Set<string>> {
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT blocked_id AS other_id FROM user_blocks WHERE blocker_id = $1
+       UNION
+       SELECT blocker_id AS other_id FROM user_blocks WHERE blocked_id = $1`,
+      [userId]
+    );
+    return new Set(result.rows.map((row: any) => String(row.other_id)));
+  }
+
+  const { data, error } = await getSupabase()
+    .from('user_blocks')
+    .select('blocker_id, blocked_id')
+    .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`);
+  if (error) throw error;
+  return new Set(
+    (data || []).map((row: any) => (String(row.blocker_id) === userId ? String(row.blocked_id) : String(row.blocker_id)))
+  );
+}
+
+async function isBlockedBetween(userA: string, userB: string): Promise<boolean> {
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT 1 FROM user_blocks
+       WHERE (blocker_id = $1 AND blocked_id = $2) OR (blocker_id = $2 AND blocked_id = $1)
+       LIMIT 1`,
+      [userA, userB]
+    );
+    return Number(result.rowCount || 0) > 0;
+  }
+
+  const { data, error } = await getSupabase()
+    .from('user_blocks')
+    .select('blocker_id')
+    .or(`and(blocker_id.eq.${userA},blocked_id.eq.${userB}),and(blocker_id.eq.${userB},blocked_id.eq.${userA})`)
+    .limit(1);
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+function normalizeIdList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.map((id) => String(id || "").trim()).filter(Boolean))).slice(0, 50);
+}
+
+const REPORT_STATUSES = ["open", "actioned", "dismissed"] as const;
+const MODERATION_ACTIONS = ["warn", "suspend", "ban", "dismiss", "reinstate"] as const;
+type ModerationAction = typeof MODERATION_ACTIONS[number];
+const DEFAULT_SUSPENSION_HOURS = 7 * 24;
+const MAX_SUSPENSION_HOURS = 365 * 24;
+
+function mapReportRow(row: any) {
+  return {
+    id: String(row.id),
+    reporterId: String(row.reporter_id),
+    reporterName: row.reporter_name || null,
+    reportedUserId: String(row.reported_user_id),
+    reportedUserName: row.reported_name || null,
+    reportedUserPhoto: Array.isArray(row.reported_photos) ? row.reported_photos[0] || null : null,
+    reason: row.reason,
+    details: row.details || null,
+    messageIds: Array.isArray(row.message_ids) ? row.message_ids : [],
+    evidenceIds: Array.isArray(row.evidence_ids) ? row.evidence_ids : [],
+    status: row.status || "open",
+    priorReportCount: row.prior_report_count != null ? Number(row.prior_report_count) : undefined,
+    resolvedBy: row.resolved_by || null,
+    resolvedAt: row.resolved_at || null,
+    createdAt: row.created_at,
+  };
+}
+
+function mapModerationActionRow(row: any) {
+  return {
+    id: String(row.id),
+    reportId: row.report_id || null,
+    targetUserId: String(row.target_user_id),
+    moderatorId: String(row.moderator_id),
+    moderatorName: row.moderator_name || null,
+    action: row.action,
+    note: row.note || null,
+    expiresAt: row.expires_at || null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Messages attached to a report, limited to ones the reported user sent in a match or activity chat the reporter
+ * belongs to, so a report can't pull in anyone else's conversations. Report message ids are not tagged with their
+ * conversation type, so both tables are checked.
+ */
+async function loadReportedMessages(messageIds: string[], reporterId: string, reportedUserId: string): Promise<MessageSearchHit[]> {
+  if (messageIds.length === 0) return [];
+
+  let matchRows: any[] = [];
+  if (pgPool) {
+    const matchResult = await pgPool.query(
+      `SELECT * FROM chat_messages WHERE id = ANY($1::text[]) AND sender_id = $2`,
+      [messageIds, reportedUserId]
+    );
+    matchRows = matchResult.rows;
+  } else {
+    const { data, error } = await getSupabase()
+      .from('chat_messages')
+      .select('*')
+      .in('id', messageIds)
+      .eq('sender_id', reportedUserId);
+    if (error) throw error;
+    matchRows = data || [];
+  }
+  const matchIds = Array.from(new Set(matchRows.map((row: any) => String(row.match_id))));
+  const reporterMatchIds = new Set(
+    (await Promise.all(matchIds.map(async (matchId) => ((await isMatchParticipant(matchId, reporterId)) ? matchId : null))))
+      .filter(Boolean)
+  );
+  const hits: MessageSearchHit[] = matchRows
+    .filter((row: any) => reporterMatchIds.has(String(row.match_id)))
+    .map((row: any) => ({
+      kind: "match" as const,
+      conversationId: String(row.match_id),
+      message: row,
+      createdAt: new Date(row.created_at).toISOString(),
+    }));
+
+  const remaining = messageIds.filter((id) => !hits.some((hit) => String(hit.message.id) === id));
+  if (remaining.length > 0) {
+    try {
+      const { data, error } = await getSupabase()
+        .from('activity_chat_messages')
+        .select('*')
+        .in('id', remaining)
+        .eq('sender_id', reportedUserId);
+      if (error) throw error;
+      const activityIds = Array.from(new Set((data || []).map((row: any) => String(row.activity_id))));
+      const reporterActivityIds = new Set(
+        (await Promise.all(activityIds.map(async (activityId) => ((await isActivityMember(activityId, reporterId)) ? activityId : null))))
+          .filter(Boolean)
+      );
+      for (const row of data || []) {
+        if (!reporterActivityIds.has(String(row.activity_id))) continue;
+        hits.push({
+          kind: "activity",
+          conversationId: String(row.activity_id),
+          message: mapActivityMessageRow(row),
+          createdAt: new Date(row.created_at).toISOString(),
+        });
+      }
+    } catch (error) {
+      console.error("Load reported activity messages error:", error);
+    }
+  }
+
+  return hits.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+const LOCATION_SHARE_DURATIONS_MINUTES = [15, 30, 60, 120, 240, 480];
+
+function isLocationShareLive(row: any): boolean {
+  return row?.status === "active" && new Date(row.expires_at).getTime() > Date.now();
+}
+
+// The token is only returned to the sharer; viewers reach the share by id or through the link itself
+function mapLocationShareRow(row: any, viewerId?: string) {
+  const isSharer = viewerId === String(row.sharer_id);
+  return {
+    id: String(row.id),
+    sharerId: String(row.sharer_id),
+    sharerName: row.sharer_name || null,
+    matchId: row.match_id || null,
+    viewerUserId: row.viewer_user_id || null,
+    contactName: row.contact_name || null,
+    token: isSharer ? row.token : undefined,
+    status: isLocationShareLive(row) ? "active" : row.status === "active" ? "expired" : row.status,
+    startedAt: row.started_at,
+    expiresAt: row.expires_at,
+    endedAt: row.ended_at || null,
+    location: row.last_lat != null && row.last_lng != null
+      ? { latitude: Number(row.last_lat), longitude: Number(row.last_lng), accuracy: row.last_accuracy != null ? Number(row.last_accuracy) : null }
+      : null,
+    updatedAt: row.last_updated_at || null,
+  };
+}
+
+function getPublicBaseUrl(req: Request): string {
+  const protocol = String(req.headers["x-forwarded-proto"] || req.protocol || "https").split(",")[0].trim();
+  const host = String(req.headers["x-forwarded-host"] || req.get("host") || "");
+  return `${protocol}://${host}`;
+}
+
+async function loadLocationShare(column: "id" | "token", value: string): Promise<any | null> {
+  if (pgPool) {
+    const result = await pgPool.query(
+      `SELECT s.*, p.name AS sharer_name
+       FROM location_shares s
+       LEFT JOIN user_profiles p ON p.id = s.sharer_id
+       WHERE s.${column} = $1
+       LIMIT 1`,
+      [value]
+    );
+    return result.rows[0] || null;
+  }
+
+  const sb = getSupabase();
+  const { data, error } = await sb.from('location_shares').select('*').eq(column, value).maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const { data: profile } = await sb.from('user_profiles').select('name').eq('id', data.sharer_id).maybeSingle();
+  return { ...data, sharer_name: profile?.name || null };
+}
+
+async function canViewLocationShare(shareId: string, userId: string): Promise<boolean> {
+  const share = await loadLocationShare("id", shareId);
+  if (!share) return false;
+  return String(share.sharer_id) === userId || String(share.viewer_user_id || "") === userId;
+}
+
+async function loadMatchPartnerId(matchId: string, userId: string): Promise<string | null> {
+  let row: any = null;
+  if (pgPool) {
+    const result = await pgPool.query(`SELECT user_a_id, user_b_id FROM matches WHERE id = $1 LIMIT 1`, [matchId]);
+    row = result.rows[0];
+  } else {
+    const { data } = await getSupabase().from('matches').select('user_a_id, user_b_id').eq('id', matchId).maybeSingle();
+    row = data;
+  }
+  if (!row) return null;
+  if (String(row.user_a_id) === userId) return String(row.user_b_id);
+  if (String(row.user_b_id) === userId) return String(row.user_a_id);
+  return null;
+}
+
+// A block leaves the match row in place, so presence and typing on its channel are cut off here instead
+async function canJoinMatchChannel(matchId: string, userId: string): Promise<boolean> {
+  const partnerId = await loadMatchPartnerId(matchId, userId);
+  if (!partnerId) return false;
+  return !(await isBlockedBetween(userId, partnerId));
+}
+
+function handlePresenceChange(userId: string, isOnline: boolean): void {
+  (isOnline ? Promise.resolve() : recordLastSeen(userId))
+    .then(() => broadcastPresence(userId, "connection"))
+    .catch((error) => console.error("Presence update error:", error));
+}
+
+const VAN_BUILD_SYSTEM_PROMPT = `You are an expert van conversion advisor for the ExploreX app. You help van lifers and nomads with:
+- Van conversion planning and design
+- Electrical systems (solar, batteries, inverters)
+- Plumbing and water systems
+- Insulation and climate control
+- Layout optimization
+- Material recommendations
+- Cost estimation
+- Safety considerations
+- DIY tips and professional recommendations
+
+Be friendly, practical, and specific. When discussing costs, provide realistic price ranges. When recommending products, mention popular brands that nomads trust. Always prioritize safety and code compliance.
+
+Keep responses concise but helpful. Use bullet points for lists. If someone asks about something dangerous, warn them appropriately.`;
+
+const PHOTO_ANALYSIS_PROMPT = `You are analyzing a van build photo for the ExploreX app. Analyze the image and provide:
+1. What you see in the build (materials, layout, systems visible)
+2. What's done well
+3. Potential issues or safety concerns
+4. Suggestions for improvement
+5. Estimated completion percentage if applicable
+
+Be specific and constructive. Focus on practical advice.`;
+
+const COST_ESTIMATOR_PROMPT = `You are a van conversion cost estimator for ExploreX. Based on the user's input about their van and desired features, provide:
+1. Estimated total cost range (low/mid/high scenarios)
+2. Breakdown by category (electrical, plumbing, insulation, furniture, etc.)
+3. Key materials list with approximate prices
+4. Money-saving tips
+5. Where to splurge vs save
+
+Be realistic with current market prices. Consider DIY vs professional installation costs.`;
+
+export async function registerRoutes(app: Express): Promise<Server> {
+
+  checkSupabaseTables().catch(err => console.error("[DB] Table check failed:", err));
+  ensureAuthTables().catch(err => console.error("[DB] Auth table setup failed:", err));
+  ensureExploreXTables()
+    .then(startMeetupCheckInScheduler)
+    .catch(err => console.error("[DB] ExploreX table setup failed:", err));
+  ensureSocialTables()
+    .then(() => backfillGeohashes().catch(err => console.error("[DB] Geohash backfill failed:", err)))
+    .catch(err => console.error("[DB] Social table setup failed:", err));
+  ensureDemoDiscoverProfile().catch(err => console.error("[DB] Demo discover profile setup failed:", err));
+  ensureUploadsDir();
+
+  const uploadStorage = multer.diskStorage({
+    destination: (_req, _file, cb) => cb(null, uploadsRootDir),
+    filename: (req, file, cb) => {
+      const category = sanitizeCategory(req.body?.category);
+      const ext = path.extname(file.originalname || "") || "";
+      const safeExt = ext.replace(/[^a-zA-Z0-9.]/g, "").slice(0, 10);
+      const unique = `${category}_${Date.now()}_${randomBytes(4).toString("hex")}${safeExt}`;
+      cb(null, unique);
+    },
+  });
+
+  const uploadMiddleware = multer({
+    storage: uploadStorage,
+    limits: { fileSize: 25 * 1024 * 1024 },
+  });
+
+  // Backward-compatible download endpoint for older chat/file URLs.
+  app.get("/api/uploads/:fileName", async (req: Request, res: Response) => {
+    try {
+      const raw = String(req.params.fileName || "");
+      const safe = path.basename(raw);
+      if (!safe) {
+        return res.status(400).json({ error: "Invalid file name" });
+      }
+      const full = path.join(uploadsRootDir, safe);
+      if (!fs.existsSync(full)) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      return res.sendFile(full);
+    } catch (error) {
+      console.error("Upload fetch failed:", error);
+      return res.status(500).json({ error: "Failed to fetch file" });
+    }
+  });
+
+  app.post("/api/uploads", uploadMiddleware.single("file"), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "File is required" });
+      }
+
+      const relativeUrl = `/uploads/${req.file.filename}`;
+      // Return relative URL so mobile always resolves against current API host.
+      const url = relativeUrl;
+
+      return res.json({
+        success: true,
+        url,
+        fileName: req.file.originalname,
+        fileType: req.file.mimetype || "application/octet-stream",
+        size: req.file.size,
+      });
+    } catch (error) {
+      console.error("Upload failed:", error);
+      return res.status(500).json({ error: "Upload failed" });
+    }
+  });
+
+  app.post("/api/auth/signup", authRateLimit, async (req: Request, res: Response) => {
+    try {
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+
+      const email = normalizeEmail(req.body?.email);
+      const password = String(req.body?.password || "");
+      const name = String(req.body?.name || "").trim();
+
+      if (!email || !password || !name) {
+        return res.status(400).json({ error: "Name, email and password are required" });
+      }
+
+      if (!isValidEmail(email)) {
+        return res.status(400).json({ error: "Please enter a valid email" });
+      }
+
+      if (!isStrongPassword(password)) {
+        return res.status(400).json({ error: "Password must be at least 8 chars and include uppercase, lowercase, number, and symbol" });
+      }
+
+      const existing = await pgPool.query("SELECT id FROM app_users WHERE email = $1 LIMIT 1", [email]);
+      if (existing.rowCount) {
+        return res.status(409).json({ error: "Email already registered" });
+      }
+
+      const passwordHash = hashPassword(password);
+      const created = await pgPool.query(
+        `INSERT INTO app_users (email, password_hash, name)
+         VALUES ($1, $2, $3)
+         RETURNING id, email, name, created_at`,
+        [email, passwordHash, name]
+      );
+
+      const user = created.rows[0];
+
+      const profilePayload = {
+        id: user.id,
+        email: user.email,
+        name: user.name || name,
+        age: 25,
+        bio: "",
+        location: "",
+        photos: [],
+        interests: [],
+      };
+
+      // Keep API compatibility with existing client profile reads
+      await pgPool.query(
+        `INSERT INTO user_profiles (id, email, name, age, bio, location, photos, interests, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8::jsonb, NOW(), NOW())
+         ON CONFLICT (id) DO UPDATE
+         SET email = EXCLUDED.email,
+             name = EXCLUDED.name,
+             age = EXCLUDED.age,
+             bio = EXCLUDED.bio,
+             location = EXCLUDED.location,
+             photos = EXCLUDED.photos,
+             interests = EXCLUDED.interests,
+             updated_at = NOW()`,
+        [
+          profilePayload.id,
+          profilePayload.email,
+          profilePayload.name,
+          profilePayload.age,
+          profilePayload.bio,
+          profilePayload.location,
+          JSON.stringify(profilePayload.photos),
+          JSON.stringify(profilePayload.interests),
+        ]
+      );
+
+      return res.json({
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name || name,
+          role: "user",
+          createdAt: user.created_at,
+        },
+        sessionToken: createSessionToken(String(user.id)),
+      });
+    } catch (error) {
+      console.error("Signup failed:", error);
+      return res.status(500).json({ error: "Signup failed" });
+    }
+  });
+
+  app.post("/api/auth/login", authRateLimit, async (req: Request, res: Response) => {
+    try {
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+
+      const email = normalizeEmail(req.body?.email);
+      const password = String(req.body?.password || "");
+
+      if (!email || !password) {
+        return res.status(400).json({ error: "Email and password are required" });
+      }
+
+      const authKey = getAuthAttemptKey(req, email);
+      const lock = getLockState(authKey);
+      if (lock.locked) {
+        await sleep(300 + Math.floor(Math.random() * 200));
+        return res.status(429).json({ error: "Too many login attempts. Please try again later." });
+      }
+
+      const result = await pgPool.query(
+        "SELECT id, email, name, password_hash, role, account_status, suspended_until, created_at FROM app_users WHERE email = $1 LIMIT 1",
+        [email]
+      );
+
+      const row = result.rowCount ? result.rows[0] : null;
+      const passwordOk = row ? verifyPassword(password, row.password_hash) : false;
+      if (!passwordOk) {
+        recordFailedLogin(authKey);
+        await sleep(300 + Math.floor(Math.random() * 200));
+        return res.status(401).json({ error: "Invalid credentials" });
+      }
+
+      clearFailedLogins(authKey);
+
+      setAccountRestriction(String(row.id), row.account_status, row.suspended_until);
+      const restriction = getActiveRestriction(String(row.id));
+      if (restriction) {
+        return res.status(403).json({ error: describeRestriction(restriction) });
+      }
+
+      return res.json({
+        user: {
+          id: row.id,
+          email: row.email,
+          name: row.name || row.email.split("@")[0],
+          role: USER_ROLES.includes(row.role) ? row.role : "user",
+          createdAt: row.created_at,
+        },
+        sessionToken: createSessionToken(String(row.id)),
+      });
+    } catch (error) {
+      console.error("Login failed:", error);
+      return res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  // Health check
+  app.get("/api/health", (_req: Request, res: Response) => {
+    res.json({ ok: true, service: "nomad-connect-api" });
+  });
+
+  const AI_ADVISOR_ENABLED = process.env.ENABLE_AI_ADVISOR === "true";
+
+  app.get("/api/ai/ping", async (_req: Request, res: Response) => {
+    if (!AI_ADVISOR_ENABLED) {
+      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+    }
+    try {
+      const reply = await callGroqChat([{ role: "user", content: "ping" }]);
+      res.json({ ok: true, response: reply });
+    } catch (error) {
+      console.error("AI ping error:", error);
+      res.status(500).json({ ok: false, error: "Failed to ping AI", detail: (error as Error)?.message });
+    }
+  });
+
+  // AI Van Build Chat endpoint
+  app.get("/api/ai/chat", (_req: Request, res: Response) => {
+    if (!AI_ADVISOR_ENABLED) {
+      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+    }
+    res.status(405).json({ error: "Use POST /api/ai/chat with { messages: [...] }" });
+  });
+  app.post("/api/ai/chat", async (req: Request, res: Response) => {
+    if (!AI_ADVISOR_ENABLED) {
+      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+    }
+    try {
+      const { messages, systemPrompt } = req.body;
+
+      if (!messages || !Array.isArray(messages)) {
+        return res.status(400).json({ error: "Messages array required" });
+      }
+
+      const systemText = systemPrompt || VAN_BUILD_SYSTEM_PROMPT;
+      const groqMessages = [
+        { role: "system", content: systemText },
+        ...messages.map((m: { role: string; content: string }) => ({
+          role: m.role,
+          content: m.content,
+        })),
+      ];
+
+      const reply = await callGroqChat(groqMessages);
+      res.json({ response: reply });
+    } catch (error) {
+      console.error("AI chat error:", error);
+      res.status(500).json({ error: "Failed to get AI response", detail: (error as Error)?.message });
+    }
+  });
+
+  // AI Photo Analysis endpoint (disabled for Groq-only backend)
+  app.post("/api/ai/analyze-photo", (_req: Request, res: Response) => {
+    if (!AI_ADVISOR_ENABLED) {
+      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+    }
+    res.status(501).json({ error: "Photo analysis is not available in this build." });
+  });
+
+  // AI Cost Estimator endpoint using Groq
+  app.post("/api/ai/estimate-cost", async (req: Request, res: Response) => {
+    if (!AI_ADVISOR_ENABLED) {
+      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+    }
+    try {
+      const { vanDetails } = req.body;
+
+      if (!vanDetails) {
+        return res.status(400).json({ error: "Van details are required" });
+      }
+
+      const systemPrompt = `You are an expert van conversion cost estimator with deep knowledge of DIY and professional van builds. Provide detailed, realistic cost estimates for van conversions.
+
+When given van build specifications, provide:
+1. A total estimated cost range (low to high)
+2. Breakdown by category (electrical, plumbing, insulation, furniture, etc.)
+3. Labor cost estimate if hiring professionals vs DIY savings
+4. Tips for cost savings
+5. Common hidden costs to watch out for
+
+Base your estimates on current 2024-2025 market prices in the US. Be specific with dollar amounts and explain your reasoning. Format your response in a clear, readable way with sections and bullet points.`;
+
+      const groqMessages = [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: `Please provide a detailed cost estimate for the following van build:\n\n${vanDetails}` },
+      ];
+
+      const reply = await callGroqChat(groqMessages);
+      res.json({ estimate: reply });
+    } catch (error) {
+      console.error("AI cost estimate error:", error);
+      res.status(500).json({ error: "Failed to get cost estimate", detail: (error as Error)?.message });
+    }
+  });
+
+  // AI Van Image Generation endpoint (disabled for Groq-only backend)
+  app.post("/api/ai/generate-van-image", (_req: Request, res: Response) => {
+    if (!AI_ADVISOR_ENABLED) {
+      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+    }
+    res.status(501).json({ error: "Image generation is not available in this build." });
+  });
+
+  // ==================== AI CHAT SESSIONS (Supabase) ====================
+
+  // Get all chat sessions for a user
+  app.get("/api/ai/sessions/:userId", async (req: Request, res: Response) => {
+    if (!AI_ADVISOR_ENABLED) {
+      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+    }
+    const { userId } = req.params;
+    
+    if (!userId) {
+      return res.status(400).json({ error: "User ID is required" });
+    }
+    
+    try {
+      const sb = getSupabase();
+      const { data, error } = await sb
+        .from('ai_chat_sessions')
+        .select('id, user_id, title, messages, created_at, updated_at')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+      if (error) throw error;
+      res.json(data || []);
+    } catch (error) {
+      console.error("Failed to get chat sessions:", error);
+      res.json([]);
+    }
+  });
+
+  // Create a new chat session
+  app.post("/api/ai/sessions", async (req: Request, res: Response) => {
+    if (!AI_ADVISOR_ENABLED) {
+      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+    }
+    const { id, userId, title, messages } = req.body;
+    
+    if (!id || !userId) {
+      return res.status(400).json({ error: "Session ID and user ID are required" });
+    }
+    
+    try {
+      const sb = getSupabase();
+      const now = new Date().toISOString();
+      const { data, error } = await sb
+        .from('ai_chat_sessions')
+        .insert({
+          id,
+          user_id: userId,
+          title: title || "New Chat",
+          messages: messages || [],
+          created_at: now,
+          updated_at: now,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      res.json(data);
+    } catch (error) {
+      console.error("Failed to create chat session:", error);
+      res.status(500).json({ error: "Failed to create chat session" });
+    }
+  });
+
+  // Update a chat session
+  app.put("/api/ai/sessions/:sessionId", async (req: Request, res: Response) => {
+    if (!AI_ADVISOR_ENABLED) {
+      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+    }
+    const { sessionId } = req.params;
+    const { title, messages } = req.body;
+    
+    if (!sessionId) {
+      return res.status(400).json({ error: "Session ID is required" });
+    }
+    
+    try {
+      const sb = getSupabase();
+      const { data, error } = await sb
+        .from('ai_chat_sessions')
+        .update({
+          title,
+          messages,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', sessionId)
+        .select()
+        .single();
+      
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return res.status(404).json({ error: "Session not found" });
+        }
+        throw error;
+      }
+      
+      res.json(data);
+    } catch (error) {
+      console.error("Failed to update chat session:", error);
+      res.status(500).json({ error: "Failed to update chat session" });
+    }
+  });
+
+  // Delete a chat session
+  app.delete("/api/ai/sessions/:sessionId", async (req: Request, res: Response) => {
+    if (!AI_ADVISOR_ENABLED) {
+      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+    }
+    const { sessionId } = req.params;
+    
+    if (!sessionId) {
+      return res.status(400).json({ error: "Session ID is required" });
+    }
+    
+    try {
+      const sb = getSupabase();
+      const { data, error } = await sb
+        .from('ai_chat_sessions')
+        .delete()
+        .eq('id', sessionId)
+        .select('id');
+      
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Failed to delete chat session:", error);
+      res.status(500).json({ error: "Failed to delete chat session" });
+    }
+  });
+
+  // ==================== ACTIVITY CHAT ROUTES ====================
+
+  // ==================== ACTIVITIES (Supabase) ====================
+
+  // With no parameters this is every upcoming activity, soonest first; filters, sorting and paging are all optional
+  app.get("/api/activities", async (req: Request, res: Response) => {
+    const search = parseActivitySearchQuery(req.query);
+    if ("error" in search) {
+      return res.status(400).json({ error: search.error });
+    }
+    try {
+      const results = await searchActivities(search);
+      const labels = await loadRecurrenceLabels(results.map(({ row }) => row.series_id).filter(Boolean));
+      res.json(results.map(({ row, distanceKm, hostReputation, cursor }) => ({
+        ...mapActivityRow(row),
+        recurrenceLabel: row.series_id ? labels.get(String(row.series_id)) : undefined,
+        distanceKm: distanceKm ?? undefined,
+        hostReputation,
+        cursor,
+      })));
+    } catch (error) {
+      console.error("Failed to get activities:", error);
+      res.status(500).json({ error: "Failed to get activities" });
+    }
+  });
+
+  // A recurrence creates the whole series up front; every occurrence is its own activity with its own attendees
+  app.post("/api/activities", requireUserSession((req) => req.body?.user?.id), async (req: Request, res: Response) => {
+    const { activity, user, recurrence: rawRecurrence, timeZone: rawTimeZone } = req.body as {
+      activity?: Partial<Activity>;
+      user?: ActivityUser;
+      recurrence?: unknown;
+      timeZone?: string;
+    };
+
+    if (!activity || !user?.id || !user?.name) {
+      return res.status(400).json({ error: "Activity and user are required" });
+    }
+
+    const now = new Date().toISOString();
+    const start = new Date(activity.date || now);
+    if (Number.isNaN(start.getTime())) {
+      return res.status(400).json({ error: "date must be an ISO date" });
+    }
+    let durationMs: number | null = null;
+    if (activity.endDate) {
+      durationMs = new Date(activity.endDate).getTime() - start.getTime();
+      if (!Number.isFinite(durationMs) || durationMs <= 0) {
+        return res.status(400).json({ error: "endDate must be after date" });
+      }
+    }
+    let recurrence: RecurrenceRule | null = null;
+    if (rawRecurrence !== undefined && rawRecurrence !== null) {
+      const parsed = parseRecurrenceRule(rawRecurrence);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      recurrence = parsed;
+    }
+    const timeZone = rawTimeZone && isValidTimeZone(String(rawTimeZone)) ? String(rawTimeZone) : "UTC";
+    const occurrences = recurrence
+      ? expandRecurrence(start, durationMs, recurrence, timeZone)
+      : [{ start: start.toISOString(), end: durationMs ? new Date(start.getTime() + durationMs).toISOString() : null }];
+    const seriesId = recurrence ? `series_${Date.now()}_${Math.random().toString(36).slice(2, 8)}` : null;
+
+    try {
+      const sb = getSupabase();
+      if (seriesId && recurrence) {
+        const { error: seriesError } = await sb
+          .from('activity_series')
+          .insert({
+            id: seriesId,
+            host_id: user.id,
+            recurrence,
+            time_zone: timeZone,
+            created_at: now,
+          });
+        if (seriesError) throw seriesError;
+      }
+
+      const rows = occurrences.map((occurrence) => ({
+        id: `act_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        title: activity.title || "New Activity",
+        description: activity.description || "",
+        category: activity.type || "other",
+        date: occurrence.start,
+        end_date: occurrence.end,
+        series_id: seriesId,
+        location: activity.location || "TBD",
+        latitude: activity.latitude?.toString() || null,
+        longitude: activity.longitude?.toString() || null,
+        geohash: encodeGeohashOrNull(activity.latitude, activity.longitude),
+        host_id: user.id,
+        host_data: user,
+        attendee_ids: [],
+        attendees_data: [],
+        max_attendees: parseMaxAttendees(activity.maxAttendees) ?? null,
+        image_url: activity.imageUrl || null,
+        created_at: now,
+      }));
+      const { error } = await sb.from('activities').insert(rows);
+      if (error) throw error;
+
+      const recurrenceLabel = recurrence ? describeRecurrence(recurrence) : undefined;
+      const created: Activity[] = rows.map((row) => ({
+        ...mapActivityRow(row),
+        startTime: activity.startTime,
+        duration: activity.duration,
+        recurrenceLabel,
+        isCompleted: activity.isCompleted,
+      }));
+
+      res.status(201).json({ ...created[0], occurrences: created });
+    } catch (error) {
+      console.error("Failed to create activity in database:", error);
+      res.status(500).json({ error: "Failed to create activity" });
+    }
+  });
+
+  // Takes a spot if one is free, otherwise joins the back of the waitlist
+  app.post("/api/activities/:activityId/join", requireUserSession((req) => req.body?.user?.id), async (req: Request, res: Response) => {
+    const activityId = String(req.params.activityId);
+    const { user: requestUser } = req.body as { user?: ActivityUser };
+
+    if (!requestUser?.id) {
+      return res.status(400).json({ error: "User is required" });
+    }
+    const userId = String(requestUser.id);
+    const user: ActivityUser = { ...requestUser, id: userId, joinedAt: new Date().toISOString() };
+
+    try {
+      const outcome = await changeActivityRoster<ActivityJoinResult>(activityId, (roster, row) => {
+        if (String(row.host_id) === userId) {
+          return { roster: null, result: { status: "hosting", promoted: [] } };
+        }
+        if (roster.attendeeIds.includes(userId)) {
+          return { roster: null, result: { status: "attending", promoted: [] } };
+        }
+        const waitlistIndex = roster.waitlistIds.indexOf(userId);
+        if (waitlistIndex !== -1) {
+          return { roster: null, result: { status: "waitlisted", waitlistPosition: waitlistIndex + 1, promoted: [] } };
+        }
+
+        // Anyone already queued gets an open spot before a newcomer does
+        const maxAttendees = parseMaxAttendees(row.max_attendees);
+        const queued = promoteFromWaitlist(
+          { ...roster, waitlistIds: [...roster.waitlistIds, userId], waitlist: [...roster.waitlist, user] },
+          maxAttendees
+        );
+        const waitlistPosition = queued.roster.waitlistIds.indexOf(userId) + 1;
+        return {
+          roster: queued.roster,
+          result: waitlistPosition > 0
+            ? { status: "waitlisted", waitlistPosition, promoted: queued.promoted }
+            : { status: "attending", promoted: queued.promoted.filter((entry) => String(entry.id) !== userId) },
+        };
+      });
+      if (!outcome) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+
+      const { promoted, ...result } = outcome.result;
+      if (promoted.length > 0) await announceWaitlistPromotions(outcome.row, promoted);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("Failed to join activity:", error);
+      res.status(500).json({ error: "Failed to join activity" });
+    }
+  });
+
+  // Gives up a spot or a waitlist place; a freed spot goes to the first person on the waitlist
+  app.post("/api/activities/:activityId/leave", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const activityId = String(req.params.activityId);
+    const userId = String(req.body?.userId || "");
+
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+
+    try {
+      const outcome = await changeActivityRoster<ActivityLeaveResult>(activityId, (roster, row) => {
+        if (String(row.host_id) === userId) {
+          return { roster: null, result: { status: "hosting", promoted: [] } };
+        }
+        if (roster.waitlistIds.includes(userId)) {
+          return {
+            roster: {
+              ...roster,
+              waitlistIds: roster.waitlistIds.filter((id) => id !== userId),
+              waitlist: roster.waitlist.filter((entry) => String(entry.id) !== userId),
+            },
+            result: { status: "left_waitlist", promoted: [] },
+          };
+        }
+        if (!roster.attendeeIds.includes(userId)) {
+          return { roster: null, result: { status: "not_joined", promoted: [] } };
+        }
+        const { roster: next, promoted } = promoteFromWaitlist(
+          {
+            ...roster,
+            attendeeIds: roster.attendeeIds.filter((id) => id !== userId),
+            attendees: roster.attendees.filter((entry) => String(entry.id) !== userId),
+          },
+          parseMaxAttendees(row.max_attendees)
+        );
+        return { roster: next, result: { status: "left", promoted } };
+      });
+      if (!outcome) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      if (outcome.result.status === "hosting") {
+        return res.status(400).json({ error: "The host can't leave their own activity" });
+      }
+
+      const { promoted, status } = outcome.result;
+      if (status === "left") revokeChannel(`activity:${activityId}`, userId);
+      if (promoted.length > 0) await announceWaitlistPromotions(outcome.row, promoted);
+      res.json({ success: true, status, promotedUserIds: promoted.map((entry) => String(entry.id)) });
+    } catch (error) {
+      console.error("Failed to leave activity:", error);
+      res.status(500).json({ error: "Failed to leave activity" });
+    }
+  });
+
+  // scope "following" also cancels the later occurrences of the same series
+  app.delete("/api/activities/:activityId", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const { activityId } = req.params;
+    const { userId, scope } = req.body as { userId?: string; scope?: "occurrence" | "following" };
+
+    try {
+      const sb = getSupabase();
+      const { data, error } = await sb
+        .from('activities')
+        .select('*')
+        .eq('id', activityId)
+        .single();
+      if (error || !data) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+
+      if (userId && data.host_id !== userId) {
+        return res.status(403).json({ error: "Only the host can delete the activity" });
+      }
+
+      if (scope === "following" && data.series_id) {
+        const { data: deleted, error: deleteError } = await sb
+          .from('activities')
+          .delete()
+          .eq('series_id', data.series_id)
+          .eq('host_id', data.host_id)
+          .gte('date', data.date)
+          .select('id');
+        if (deleteError) throw deleteError;
+        const deletedIds = (deleted || []).map((row: any) => String(row.id));
+        for (const id of deletedIds) revokeChannel(`activity:${id}`);
+        return res.json({ success: true, deletedIds });
+      }
+
+      const { error: deleteError } = await sb
+        .from('activities')
+        .delete()
+        .eq('id', activityId);
+      if (deleteError) throw deleteError;
+      revokeChannel(`activity:${activityId}`);
+      res.json({ success: true, deletedIds: [String(activityId)] });
+    } catch (error) {
+      console.error("Failed to delete activity:", error);
+      res.status(500).json({ error: "Failed to delete activity" });
+    }
+  });
+
+  // Edit an activity (host or moderator); records the change and tells the group chat what moved
+  app.patch("/api/activities/:activityId", requireUserSession((req) => req.body?.user?.id), async (req: Request, res: Response) => {
+    const activityId = String(req.params.activityId);
+    const { user, changes: rawChanges, timeZone: rawTimeZone } = req.body as { user?: ActivityUser; changes?: unknown; timeZone?: string };
+
+    if (!user?.id || !user?.name) {
+      return res.status(400).json({ error: "User is required" });
+    }
+    const update = parseActivityUpdateInput(rawChanges);
+    if ("error" in update) {
+      return res.status(400).json({ error: update.error });
+    }
+    const timeZone = rawTimeZone && isValidTimeZone(String(rawTimeZone)) ? String(rawTimeZone) : "UTC";
+
+    try {
+      const sb = getSupabase();
+      const { data: row, error } = await sb
+        .from('activities')
+        .select('*')
+        .eq('id', activityId)
+        .single();
+      if (error || !row) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      if (!(await canManageActivity(sb, row, activityId, user.id))) {
+        return res.status(403).json({ error: "Only the host or a moderator can edit the activity" });
+      }
+
+      const changes = diffActivityUpdate(row, update);
+      if (changes.length === 0) {
+        return res.json({ activity: mapActivityRow(row), edit: null });
+      }
+
+      const columns = activityUpdateColumns(changes);
+      // Moving the start of a multi-day event moves its end with it
+      if (typeof columns.date === "string" && row.end_date) {
+        const durationMs = new Date(row.end_date).getTime() - new Date(row.date).getTime();
+        columns.end_date = new Date(new Date(columns.date).getTime() + durationMs).toISOString();
+      }
+
+      let updatedRow = row;
+      let promoted: ActivityUser[] = [];
+      // The spot limit is written with the roster so a join that read the old limit can't land after it changes;
+      // a raised (or removed) limit lets waitlisted people in straight away
+      if ("max_attendees" in columns) {
+        const maxAttendees = columns.max_attendees as number | null;
+        delete columns.max_attendees;
+        const capacity = await changeActivityRoster<{ attendeeCount: number | null; promoted: ActivityUser[] }>(activityId, (roster) => {
+          if (maxAttendees !== null && maxAttendees < roster.attendeeIds.length) {
+            return { roster: null, result: { attendeeCount: roster.attendeeIds.length, promoted: [] } };
+          }
+          const { roster: next, promoted: moved } = promoteFromWaitlist(roster, maxAttendees ?? undefined);
+          return { roster: next, columns: { max_attendees: maxAttendees }, result: { attendeeCount: null, promoted: moved } };
+        });
+        if (!capacity) {
+          return res.status(404).json({ error: "Activity not found" });
+        }
+        if (capacity.result.attendeeCount !== null) {
+          return res.status(400).json({ error: `maxAttendees can't be below the ${capacity.result.attendeeCount} people already attending` });
+        }
+        updatedRow = capacity.row;
+        promoted = capacity.result.promoted;
+      }
+      if (Object.keys(columns).length > 0) {
+        const { error: updateError } = await sb
+          .from('activities')
+          .update(columns)
+          .eq('id', activityId);
+        if (updateError) throw updateError;
+        updatedRow = { ...updatedRow, ...columns };
+      }
+
+      const now = new Date().toISOString();
+      const summary = changes.map((change) => describeActivityChange(change, timeZone)).join(" · ");
+      const edit: ActivityEdit = {
+        id: `edit_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        activityId,
+        editedBy: user.id,
+        editedByName: user.name,
+        changes,
+        summary,
+        createdAt: now,
+      };
+      const { error: editError } = await sb
+        .from('activity_edits')
+        .insert({
+          id: edit.id,
+          activity_id: activityId,
+          edited_by: user.id,
+          edited_by_name: user.name,
+          changes,
+          summary,
+          created_at: now,
+        });
+      if (editError) throw editError;
+
+      try {
+        await postActivitySystemMessage(activityId, user, `${user.name} updated the activity: ${summary}`);
+      } catch (messageError) {
+        console.error("Failed to post activity edit message:", messageError);
+      }
+
+      if (promoted.length > 0) {
+        await announceWaitlistPromotions(updatedRow, promoted);
+      }
+
+      const activity = mapActivityRow(updatedRow);
+      publish(`activity:${activityId}`, { type: "activity.updated", activity, edit });
+      res.json({ activity, edit });
+    } catch (error) {
+      console.error("Failed to update activity:", error);
+      res.status(500).json({ error: "Failed to update activity" });
+    }
+  });
+
+  // Change history for an activity, newest first (host, moderators and attendees)
+  app.get("/api/activities/:activityId/edits", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const activityId = String(req.params.activityId);
+    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+    try {
+      const sb = getSupabase();
+      const { data: activityRow, error: activityErr } = await sb
+        .from('activities')
+        .select('host_id, attendee_ids')
+        .eq('id', activityId)
+        .single();
+      if (activityErr || !activityRow) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      const attendeeIds = Array.isArray(activityRow.attendee_ids) ? activityRow.attendee_ids : [];
+      if (!attendeeIds.includes(userId) && !(await canManageActivity(sb, activityRow, activityId, userId))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      const { data, error } = await sb
+        .from('activity_edits')
+        .select('*')
+        .eq('activity_id', activityId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      res.json((data || []).map(mapActivityEditRow));
+    } catch (error) {
+      console.error("Failed to get activity edits:", error);
+      res.status(500).json({ error: "Failed to get activity edits" });
+    }
+  });
+
+  // One-off .ics download; unlike the feed below, an imported copy won't follow later edits
+  app.get("/api/activities/:activityId/calendar.ics", async (req: Request, res: Response) => {
+    const activityId = String(req.params.activityId);
+    try {
+      const { data: row, error } = await getSupabase()
+        .from('activities')
+        .select('*')
+        .eq('id', activityId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!row) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      const edits = await loadActivityEditStats([activityId]);
+      const event = activityCalendarEvent(row, edits.get(activityId));
+      const fileName = String(row.title || "activity").replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "activity";
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}.ics"`);
+      res.send(buildCalendar(event.summary, [event]));
+    } catch (error) {
+      console.error("Failed to export activity calendar:", error);
+      res.status(500).json({ error: "Failed to export activity calendar" });
+    }
+  });
+
+  // Current rotating check-in code for the host's screen; attendees scan it at the venue
+  app.get("/api/activities/:activityId/check-in-code", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const activityId = String(req.params.activityId);
+    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+    try {
+      const sb = getSupabase();
+      const { data: row, error } = await sb
+        .from('activities')
+        .select('*')
+        .eq('id', activityId)
+        .single();
+      if (error || !row) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      if (!(await canManageActivity(sb, row, activityId, userId))) {
+        return res.status(403).json({ error: "Only the host or a moderator can show the check-in code" });
+      }
+      const now = Date.now();
+      const { opensAt, closesAt } = checkInWindow(row);
+      if (now < opensAt || now > closesAt) {
+        return res.status(400).json({
+          error: now < opensAt ? "Check-in opens an hour before the activity starts" : "Check-in for this activity has closed",
+          opensAt: new Date(opensAt).toISOString(),
+          closesAt: new Date(closesAt).toISOString(),
+        });
+      }
+
+      const secret = await loadCheckInSecret(activityId, true);
+      if (!secret) throw new Error("Check-in secret was not stored");
+      const period = Math.floor(now / CHECK_IN_CODE_PERIOD_MS);
+      const code = checkInCodeFor(secret, activityId, period);
+      res.json({
+        code,
+        payload: `explorex://check-in/${encodeURIComponent(activityId)}/${code}`,
+        expiresAt: new Date((period + 1) * CHECK_IN_CODE_PERIOD_MS).toISOString(),
+        closesAt: new Date(closesAt).toISOString(),
+      });
+    } catch (error) {
+      console.error("Failed to get check-in code:", error);
+      res.status(500).json({ error: "Failed to get check-in code" });
+    }
+  });
+
+  // Records that an attendee was at the venue; the first check-in also credits the host
+  app.post("/api/activities/:activityId/check-in", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const activityId = String(req.params.activityId);
+    const userId = String(req.body?.userId || "");
+    const code = String(req.body?.code || "");
+    const lat = Number(req.body?.lat);
+    const lng = Number(req.body?.lng);
+    if (!userId || !code) {
+      return res.status(400).json({ error: "userId and code are required" });
+    }
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return res.status(400).json({ error: "Your current location is needed to check in" });
+    }
+    try {
+      const sb = getSupabase();
+      const { data: row, error } = await sb
+        .from('activities')
+        .select('*')
+        .eq('id', activityId)
+        .single();
+      if (error || !row) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      const attendeeIds = Array.isArray(row.attendee_ids) ? row.attendee_ids.map(String) : [];
+      if (!attendeeIds.includes(userId)) {
+        return res.status(403).json({ error: "Only people on the attendee list can check in" });
+      }
+      const { opensAt, closesAt } = checkInWindow(row);
+      const now = Date.now();
+      if (now < opensAt || now > closesAt) {
+        return res.status(400).json({ error: "Check-in isn't open for this activity right now" });
+      }
+      // The code proves someone saw the host's screen; the location shows they saw it at the venue
+      const venueLat = row.latitude ? parseFloat(row.latitude) : NaN;
+      const venueLng = row.longitude ? parseFloat(row.longitude) : NaN;
+      if (!Number.isFinite(venueLat) || !Number.isFinite(venueLng)) {
+        return res.status(400).json({ error: "This activity has no map location, so check-ins can't be verified" });
+      }
+      const distanceKm = distanceKmBetween(
+        { lat: venueLat, lng: venueLng, updatedAt: null },
+        { lat, lng, updatedAt: null }
+      );
+      if (distanceKm > CHECK_IN_MAX_DISTANCE_KM) {
+        return res.status(400).json({ error: "You need to be at the activity's location to check in" });
+      }
+      const secret = await loadCheckInSecret(activityId, false);
+      if (!secret || !isValidCheckInCode(secret, activityId, code, now)) {
+        return res.status(400).json({ error: "That check-in code has expired. Scan the host's screen again." });
+      }
+
+      const { data: existing, error: existingError } = await sb
+        .from('activity_check_ins')
+        .select('*')
+        .eq('activity_id', activityId)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (existingError) throw existingError;
+      if (existing) {
+        return res.json({ checkIn: mapActivityCheckInRow(existing), alreadyCheckedIn: true });
+      }
+
+      const checkedInAt = new Date(now).toISOString();
+      const { error: insertError } = await sb
+        .from('activity_check_ins')
+        .upsert([
+          { activity_id: activityId, user_id: userId, method: "qr", checked_in_at: checkedInAt },
+          { activity_id: activityId, user_id: String(row.host_id), method: "host", checked_in_at: checkedInAt },
+        ], { onConflict: 'activity_id,user_id', ignoreDuplicates: true });
+      if (insertError) throw insertError;
+
+      const checkIn: ActivityCheckIn = { activityId, userId, method: "qr", checkedInAt };
+      publish(`activity:${activityId}`, { type: "activity.checked_in", checkIn });
+      res.status(201).json({ checkIn, alreadyCheckedIn: false });
+    } catch (error) {
+      console.error("Failed to check in to activity:", error);
+      res.status(500).json({ error: "Failed to check in" });
+    }
+  });
+
+  app.get("/api/activities/:activityId/attendance", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const activityId = String(req.params.activityId);
+    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+    try {
+      const sb = getSupabase();
+      const { data: activityRow, error: activityErr } = await sb
+        .from('activities')
+        .select('host_id, attendee_ids')
+        .eq('id', activityId)
+        .single();
+      if (activityErr || !activityRow) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      const attendeeIds = Array.isArray(activityRow.attendee_ids) ? activityRow.attendee_ids : [];
+      if (!attendeeIds.includes(userId) && !(await canManageActivity(sb, activityRow, activityId, userId))) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      const { data, error } = await sb
+        .from('activity_check_ins')
+        .select('*')
+        .eq('activity_id', activityId)
+        .order('checked_in_at', { ascending: true });
+      if (error) throw error;
+      res.json((data || []).map(mapActivityCheckInRow));
+    } catch (error) {
+      console.error("Failed to get activity attendance:", error);
+      res.status(500).json({ error: "Failed to get activity attendance" });
+    }
+  });
+
+  // ==================== CALENDAR FEED ====================
+
+  // The feed URL is the only credential calendar apps can send, so it carries a random per-user token
+  app.get("/api/calendar-feed/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const token = await loadCalendarFeedToken(String(req.params.userId), false);
+      res.json(calendarFeedUrls(req, token));
+    } catch (error) {
+      console.error("Failed to get calendar feed:", error);
+      res.status(500).json({ error: "Failed to get calendar feed" });
+    }
+  });
+
+  // A new token stops every calendar subscribed with the old link
+  app.post("/api/calendar-feed/:userId/reset", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const token = await loadCalendarFeedToken(String(req.params.userId), true);
+      res.json(calendarFeedUrls(req, token));
+    } catch (error) {
+      console.error("Failed to reset calendar feed:", error);
+      res.status(500).json({ error: "Failed to reset calendar feed" });
+    }
+  });
+
+  app.get("/api/calendar-feed/ics/:file", async (req: Request, res: Response) => {
+    const token = String(req.params.file).replace(/\.ics$/i, "");
+    try {
+      const { data: feed, error } = await getSupabase()
+        .from('calendar_feeds')
+        .select('user_id')
+        .eq('token', token)
+        .maybeSingle();
+      if (error) throw error;
+      if (!feed) {
+        return res.status(404).json({ error: "Calendar feed not found" });
+      }
+      const events = await buildUserCalendarEvents(String(feed.user_id));
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "no-cache");
+      res.send(buildCalendar("ExploreX", events, { refreshHours: CALENDAR_FEED_REFRESH_HOURS }));
+    } catch (error) {
+      console.error("Failed to build calendar feed:", error);
+      res.status(500).json({ error: "Failed to build calendar feed" });
+    }
+  });
+
+  // Get messages for an activity (Supabase)
+  app.get("/api/activities/:activityId/messages", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const { activityId } = req.params;
+    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+    const page = parseMessagePageQuery(req.query);
+    if ("error" in page) {
+      return res.status(400).json({ error: page.error });
+    }
+    try {
+      const sb = getSupabase();
+      const { data: activityRow, error: activityErr } = await sb
+        .from('activities')
+        .select('host_id, attendee_ids')
+        .eq('id', activityId)
+        .single();
+      if (activityErr || !activityRow) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      const attendeeIds = Array.isArray(activityRow.attendee_ids) ? activityRow.attendee_ids : [];
+      if (String(activityRow.host_id) !== userId && !attendeeIds.includes(userId)) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      let query = sb
+        .from('activity_chat_messages')
+        .select('*')
+        .eq('activity_id', activityId)
+        .is('deleted_at', null);
+      // Deleted messages still work as cursors so a client holding one can keep paging
+      const cursorId = page.before || page.after;
+      if (cursorId) {
+        const cursor = await loadSupabaseMessageCursor('activity_chat_messages', 'activity_id', String(activityId), cursorId);
+        if (!cursor) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+        query = query.or(supabaseMessageCursorFilter(cursor, page.before ? "before" : "after"));
+      }
+      const ascending = !!page.after;
+      const { data, error } = await query
+        .order('created_at', { ascending })
+        .order('id', { ascending })
+        .limit(page.limit);
+      if (error) throw error;
+      const rows = data || [];
+      const messages = (ascending ? rows : rows.reverse()).map(mapActivityMessageRow);
+      res.json(messages);
+    } catch (error) {
+      console.error("Failed to get activity messages:", error);
+      res.json([]);
+    }
+  });
+
+  // Send a message to activity chat (Supabase)
+  app.post("/api/activities/:activityId/messages", requireUserSession((req) => req.body?.senderId), async (req: Request, res: Response) => {
+    const { activityId } = req.params;
+    const { senderId, senderName, senderPhoto, type, content, photoUrl, fileUrl, fileName, audioUrl, audioDuration, replyTo, location, isModeratorMessage } = req.body;
+
+    const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date().toISOString();
+    
+    try {
+      const sb = getSupabase();
+      const { error } = await sb
+        .from('activity_chat_messages')
+        .insert({
+          id: messageId,
+          activity_id: activityId,
+          sender_id: senderId,
+          sender_name: senderName,
+          sender_photo: senderPhoto || '',
+          type: type || "text",
+          content,
+          photo_url: photoUrl || null,
+          file_url: fileUrl || null,
+          file_name: fileName || null,
+          audio_url: audioUrl || null,
+          audio_duration: audioDuration?.toString() || null,
+          reply_to: replyTo || null,
+          location: location || null,
+          is_pinned: false,
+          is_moderator_message: isModeratorMessage || false,
+          reactions: {},
           created_at: now,
-          updated_at: now,
-        })
+        });
+      if (error) throw error;
+
+      const message: ActivityChatMessage = {
+        id: messageId,
+        activityId: String(activityId),
+        senderId,
+        senderName,
+        senderPhoto,
+        type: type || "text",
+        content,
+        photoUrl,
+        fileUrl,
+        fileName,
+        audioUrl,
+        audioDuration,
+        replyTo,
+        location,
+        isPinned: false,
+        isModeratorMessage: isModeratorMessage || false,
+        reactions: {},
+        createdAt: now,
+      };
+
+      publish(`activity:${activityId}`, { type: "message.created", message });
+      res.status(201).json(message);
+    } catch (error) {
+      console.error("Failed to send activity message:", error);
+      res.status(500).json({ error: "Failed to send message" });
+    }
+  });
+
+  // Pin/unpin a message (moderator only) - Supabase
+  app.patch("/api/activities/:activityId/messages/:messageId/pin", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const { activityId, messageId } = req.params;
+    const { userId, pin } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+
+    try {
+      const sb = getSupabase();
+      const { data: modRows, error: modErr } = await sb
+        .from('activity_moderators')
+        .select('id')
+        .eq('activity_id', activityId)
+        .eq('user_id', userId)
+        .limit(1);
+      if (modErr) throw modErr;
+      if (!modRows || modRows.length === 0) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      const { data, error } = await sb
+        .from('activity_chat_messages')
+        .update({ is_pinned: !!pin })
+        .eq('id', messageId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        throw error;
+      }
+
+      publish(`activity:${activityId}`, { type: "message.pinned", messageId: data.id, isPinned: !!data.is_pinned });
+      res.json({
+        id: data.id,
+        activityId: data.activity_id,
+        isPinned: data.is_pinned,
+        content: data.content,
+      });
+    } catch (error) {
+      console.error("Failed to pin message:", error);
+      res.status(500).json({ error: "Failed to pin message" });
+    }
+  });
+
+  // Edit a message (owner only) - Supabase
+  app.put("/api/activities/:activityId/messages/:messageId", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const { messageId } = req.params;
+    const { content, userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+
+    try {
+      const sb = getSupabase();
+      const { data: ownerRow, error: ownerErr } = await sb
+        .from('activity_chat_messages')
+        .select('sender_id')
+        .eq('id', messageId)
+        .single();
+      if (ownerErr) {
+        if (ownerErr.code === 'PGRST116') {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        throw ownerErr;
+      }
+      if (String(ownerRow?.sender_id || '') !== String(userId)) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const { data, error } = await sb
+        .from('activity_chat_messages')
+        .update({ content, edited_at: new Date().toISOString() })
+        .eq('id', messageId)
         .select()
         .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        throw error;
+      }
+
+      publish(`activity:${data.activity_id}`, { type: "message.updated", message: mapActivityMessageRow(data) });
+      res.json({
+        id: data.id,
+        activityId: data.activity_id,
+        content: data.content,
+        isEdited: true,
+      });
+    } catch (error) {
+      console.error("Failed to edit message:", error);
+      res.status(500).json({ error: "Failed to edit message" });
+    }
+  });
+
+  // React to a message - Supabase
+  app.post("/api/activities/:activityId/messages/:messageId/react", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const { messageId } = req.params;
+    const { userId, emoji } = req.body as { userId?: string; emoji?: string };
+
+    if (!userId || !emoji) {
+      return res.status(400).json({ error: "userId and emoji are required" });
+    }
+
+    try {
+      const sb = getSupabase();
+      const { data: msgData, error: getError } = await sb
+        .from('activity_chat_messages')
+        .select('reactions, activity_id')
+        .eq('id', messageId)
+        .single();
+
+      if (getError) {
+        if (getError.code === 'PGRST116') {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        throw getError;
+      }
+
+      const { data: activityRow, error: activityErr } = await sb
+        .from('activities')
+        .select('host_id, attendee_ids')
+        .eq('id', (msgData as any).activity_id)
+        .single();
+      if (activityErr || !activityRow) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      const attendeeIds = Array.isArray(activityRow.attendee_ids) ? activityRow.attendee_ids : [];
+      const isMember = String(activityRow.host_id) === String(userId) || attendeeIds.includes(String(userId));
+      if (!isMember) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      const reactions: Record<string, string[]> = msgData.reactions || {};
+      const current = new Set(reactions[emoji] || []);
+
+      if (current.has(userId)) {
+        current.delete(userId);
+      } else {
+        current.add(userId);
+      }
+
+      if (current.size === 0) {
+        delete reactions[emoji];
+      } else {
+        reactions[emoji] = Array.from(current);
+      }
+
+      const { error: updateError } = await sb
+        .from('activity_chat_messages')
+        .update({ reactions })
+        .eq('id', messageId);
+      if (updateError) throw updateError;
+
+      publish(`activity:${(msgData as any).activity_id}`, { type: "message.reactions", messageId, reactions });
+      res.json({ id: messageId, reactions });
+    } catch (error) {
+      console.error("Failed to react to message:", error);
+      res.status(500).json({ error: "Failed to react to message" });
+    }
+  });
+
+  // Delete a message (moderator or owner) - Supabase
+  app.delete("/api/activities/:activityId/messages/:messageId", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const { activityId, messageId } = req.params;
+    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+
+    try {
+      const sb = getSupabase();
+      const { data: msgRow, error: msgErr } = await sb
+        .from('activity_chat_messages')
+        .select('sender_id')
+        .eq('id', messageId)
+        .single();
+      if (msgErr) {
+        if (msgErr.code === 'PGRST116') {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        throw msgErr;
+      }
+
+      let canDelete = String(msgRow?.sender_id || '') === userId;
+      if (!canDelete) {
+        const { data: modRows, error: modErr } = await sb
+          .from('activity_moderators')
+          .select('id')
+          .eq('activity_id', activityId)
+          .eq('user_id', userId)
+          .limit(1);
+        if (modErr) throw modErr;
+        canDelete = !!(modRows && modRows.length > 0);
+      }
+      if (!canDelete) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const { data, error } = await sb
+        .from('activity_chat_messages')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', messageId)
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      publish(`activity:${activityId}`, { type: "message.deleted", messageId });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Failed to delete message:", error);
+      res.status(500).json({ error: "Failed to delete message" });
+    }
+  });
+
+  // Get moderators for an activity
+  app.get("/api/activities/:activityId/moderators", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const { activityId } = req.params;
+    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+    try {
+      const sb = getSupabase();
+      const { data: activityRow, error: activityErr } = await sb
+        .from('activities')
+        .select('host_id, attendee_ids')
+        .eq('id', activityId)
+        .single();
+      if (activityErr || !activityRow) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      const attendeeIds = Array.isArray(activityRow.attendee_ids) ? activityRow.attendee_ids : [];
+      if (String(activityRow.host_id) !== userId && !attendeeIds.includes(userId)) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      const { data, error } = await sb
+        .from('activity_moderators')
+        .select('*')
+        .eq('activity_id', activityId);
+      if (error) throw error;
+      const moderators = (data || []).map((row: any) => ({
+        activityId: row.activity_id,
+        userId: row.user_id,
+        isHost: row.is_host,
+        addedAt: row.added_at,
+      }));
+      res.json(moderators);
+    } catch (error) {
+      console.error("Failed to get moderators:", error);
+      res.status(500).json({ error: "Failed to get moderators" });
+    }
+  });
+
+  // Add a moderator (host only)
+  app.post("/api/activities/:activityId/moderators", requireUserSession((req) => req.body?.requesterId), async (req: Request, res: Response) => {
+    const { activityId } = req.params;
+    const { requesterId, userId, isHost } = req.body;
+
+    if (!requesterId || !userId) {
+      return res.status(400).json({ error: "requesterId and userId are required" });
+    }
+
+    try {
+      const sb = getSupabase();
+      const { data: activityRow, error: activityErr } = await sb
+        .from('activities')
+        .select('host_id')
+        .eq('id', activityId)
+        .single();
+      if (activityErr || !activityRow) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      if (String(activityRow.host_id) !== String(requesterId)) {
+        return res.status(403).json({ error: "Only host can manage moderators" });
+      }
+      const { data: existing } = await sb
+        .from('activity_moderators')
+        .select('id')
+        .eq('activity_id', activityId)
+        .eq('user_id', userId);
+
+      if (existing && existing.length > 0) {
+        return res.json({ activityId, userId, isHost: isHost || false, addedAt: new Date().toISOString() });
+      }
+
+      const modId = `mod_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+      const now = new Date().toISOString();
+      const { error } = await sb
+        .from('activity_moderators')
+        .insert({
+          id: modId,
+          activity_id: activityId,
+          user_id: userId,
+          is_host: isHost || false,
+          added_at: now,
+        });
+      if (error) throw error;
+
+      res.status(201).json({ activityId, userId, isHost: isHost || false, addedAt: now });
+    } catch (error) {
+      console.error("Failed to add moderator:", error);
+      res.status(500).json({ error: "Failed to add moderator" });
+    }
+  });
+
+  // Remove a moderator (host only)
+  app.delete("/api/activities/:activityId/moderators/:userId", requireUserSession((req) => req.query.requesterId), async (req: Request, res: Response) => {
+    const { activityId, userId } = req.params;
+    const requesterId = Array.isArray(req.query.requesterId) ? String(req.query.requesterId[0] || "") : String(req.query.requesterId || "");
+    if (!requesterId) {
+      return res.status(400).json({ error: "requesterId is required" });
+    }
+
+    try {
+      const sb = getSupabase();
+      const { data: activityRow, error: activityErr } = await sb
+        .from('activities')
+        .select('host_id')
+        .eq('id', activityId)
+        .single();
+      if (activityErr || !activityRow) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      if (String(activityRow.host_id) !== String(requesterId)) {
+        return res.status(403).json({ error: "Only host can manage moderators" });
+      }
+      const { error } = await sb
+        .from('activity_moderators')
+        .delete()
+        .eq('activity_id', activityId)
+        .eq('user_id', userId)
+        .eq('is_host', false);
+      if (error) throw error;
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Failed to remove moderator:", error);
+      res.status(500).json({ error: "Failed to remove moderator" });
+    }
+  });
+
+  // Initialize host as moderator when activity chat is accessed
+  app.post("/api/activities/:activityId/init-chat", requireUserSession((req) => req.body?.hostId), async (req: Request, res: Response) => {
+    const { activityId } = req.params;
+    const { hostId } = req.body;
+
+    if (!hostId) {
+      return res.status(400).json({ error: "hostId is required" });
+    }
+
+    try {
+      const sb = getSupabase();
+      const { data: activityRow, error: activityErr } = await sb
+        .from('activities')
+        .select('host_id')
+        .eq('id', activityId)
+        .single();
+      if (activityErr || !activityRow) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      if (String(activityRow.host_id) !== String(hostId)) {
+        return res.status(403).json({ error: "Only host can initialize chat" });
+      }
+      const { data: existing } = await sb
+        .from('activity_moderators')
+        .select('id')
+        .eq('activity_id', activityId)
+        .eq('user_id', hostId);
+
+      if (!existing || existing.length === 0) {
+        const modId = `mod_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+        const { error } = await sb
+          .from('activity_moderators')
+          .insert({
+            id: modId,
+            activity_id: activityId,
+            user_id: hostId,
+            is_host: true,
+            added_at: new Date().toISOString(),
+          });
+        if (error) throw error;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Failed to init chat:", error);
+      res.status(500).json({ error: "Failed to initialize chat" });
+    }
+  });
+
+  // ==================== SAFETY RATING ROUTES ====================
+
+  // Submit a safety rating for an activity; these feed host reputation, so only verified attendees can rate
+  app.post("/api/safety-ratings", requireUserSession((req) => req.body?.ratedByUserId), async (req: Request, res: Response) => {
+    const { activityId, ratedByUserId, wasLocationPublic, hostWasTrustworthy } = req.body;
+    const safetyScore = Number(req.body?.safetyScore);
+
+    if (!activityId || !ratedByUserId) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+    if (!Number.isInteger(safetyScore) || safetyScore < 1 || safetyScore > 5) {
+      return res.status(400).json({ error: "safetyScore must be a whole number from 1 to 5" });
+    }
+
+    try {
+      const sb = getSupabase();
+      const { data: activityRow, error: activityError } = await sb
+        .from('activities')
+        .select('*')
+        .eq('id', activityId)
+        .maybeSingle();
+      if (activityError) throw activityError;
+      if (!activityRow) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+      if (String(activityRow.host_id) === String(ratedByUserId)) {
+        return res.status(403).json({ error: "Hosts can't rate their own activity" });
+      }
+      if (new Date(activityRow.date).getTime() > Date.now()) {
+        return res.status(400).json({ error: "You can rate this activity once it has started" });
+      }
+      if (!(await hasVerifiedAttendance(sb, String(activityRow.id), String(ratedByUserId)))) {
+        return res.status(403).json({ error: "Only people who attended can rate this activity" });
+      }
+
+      const { data: existingRating } = await sb
+        .from('safety_ratings')
+        .select('id')
+        .eq('activity_id', activityId)
+        .eq('rated_by_user_id', ratedByUserId);
+
+      if (existingRating && existingRating.length > 0) {
+        return res.status(400).json({ error: "You have already rated this activity" });
+      }
+
+      const ratingId = `rating_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+      const now = new Date().toISOString();
+
+      const { error } = await sb
+        .from('safety_ratings')
+        .insert({
+          id: ratingId,
+          activity_id: activityId,
+          rated_by_user_id: ratedByUserId,
+          safety_score: safetyScore,
+          was_location_public: wasLocationPublic || false,
+          host_was_trustworthy: hostWasTrustworthy || false,
+          created_at: now,
+        });
+      if (error) throw error;
+
+      res.status(201).json({
+        id: ratingId,
+        activityId,
+        ratedByUserId,
+        safetyScore,
+        wasLocationPublic: wasLocationPublic || false,
+        hostWasTrustworthy: hostWasTrustworthy || false,
+        createdAt: now,
+      });
+    } catch (error) {
+      console.error("Failed to submit safety rating:", error);
+      res.status(500).json({ error: "Failed to submit safety rating" });
+    }
+  });
+
+  // Get safety ratings for an activity
+  app.get("/api/safety-ratings/:activityId", async (req: Request, res: Response) => {
+    const { activityId } = req.params;
+
+    try {
+      const sb = getSupabase();
+      const { data, error } = await sb
+        .from('safety_ratings')
+        .select('*')
+        .eq('activity_id', activityId);
       if (error) throw error;
-      res.json(data);
+
+      const ratings = (data || []).map((r: any) => ({
+        id: r.id,
+        activityId: r.activity_id,
+        ratedByUserId: r.rated_by_user_id,
+        safetyScore: r.safety_score,
+        wasLocationPublic: r.was_location_public,
+        hostWasTrustworthy: r.host_was_trustworthy,
+        createdAt: r.created_at,
+      }));
+
+      const averageSafetyScore = ratings.length > 0
+        ? ratings.reduce((sum: number, r: any) => sum + r.safetyScore, 0) / ratings.length
+        : 0;
+
+      const publicLocationPercentage = ratings.length > 0
+        ? (ratings.filter((r: any) => r.wasLocationPublic).length / ratings.length) * 100
+        : 0;
+
+      const trustworthyHostPercentage = ratings.length > 0
+        ? (ratings.filter((r: any) => r.hostWasTrustworthy).length / ratings.length) * 100
+        : 0;
+
+      res.json({
+        ratings,
+        summary: {
+          totalRatings: ratings.length,
+          averageSafetyScore: Math.round(averageSafetyScore * 10) / 10,
+          publicLocationPercentage: Math.round(publicLocationPercentage),
+          trustworthyHostPercentage: Math.round(trustworthyHostPercentage),
+        },
+      });
     } catch (error) {
-      console.error("Failed to create chat session:", error);
-      res.status(500).json({ error: "Failed to create chat session" });
+      console.error("Failed to get safety ratings:", error);
+      res.status(500).json({ error: "Failed to get safety ratings" });
     }
   });
 
-  // Update a chat session
-  app.put("/api/ai/sessions/:sessionId", async (req: Request, res: Response) => {
-    if (!AI_ADVISOR_ENABLED) {
-      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+  // ==================== HOST REPUTATION ====================
+
+  // Reviews are open to verified attendees (see hasVerifiedAttendance) once the activity has started
+  app.post("/api/activities/:activityId/reviews", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const activityId = String(req.params.activityId);
+    const userId = String(req.body?.userId || "");
+    const rating = Number(req.body?.rating);
+    const body = String(req.body?.body || "").trim();
+    if (!userId || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return res.status(400).json({ error: "userId and a rating from 1 to 5 are required" });
     }
-    const { sessionId } = req.params;
-    const { title, messages } = req.body;
-    
-    if (!sessionId) {
-      return res.status(400).json({ error: "Session ID is required" });
+    if (body.length > ACTIVITY_REVIEW_MAX_LENGTH) {
+      return res.status(400).json({ error: `Reviews can be at most ${ACTIVITY_REVIEW_MAX_LENGTH} characters` });
     }
-    
     try {
       const sb = getSupabase();
-      const { data, error } = await sb
-        .from('ai_chat_sessions')
-        .update({
-          title,
-          messages,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', sessionId)
-        .select()
+      const { data: row, error } = await sb
+        .from('activities')
+        .select('id, title, date, host_id')
+        .eq('id', activityId)
         .single();
-      
-      if (error) {
-        if (error.code === 'PGRST116') {
-          return res.status(404).json({ error: "Session not found" });
-        }
-        throw error;
+      if (error || !row) {
+        return res.status(404).json({ error: "Activity not found" });
       }
-      
-      res.json(data);
+      if (String(row.host_id) === userId) {
+        return res.status(403).json({ error: "Hosts can't review their own activity" });
+      }
+      if (new Date(row.date).getTime() > Date.now()) {
+        return res.status(400).json({ error: "You can review this activity once it has started" });
+      }
+      if (!(await hasVerifiedAttendance(sb, activityId, userId))) {
+        return res.status(403).json({ error: "Only people who attended can review this activity" });
+      }
+
+      const { data: existing } = await sb
+        .from('activity_reviews')
+        .select('id')
+        .eq('activity_id', activityId)
+        .eq('reviewer_id', userId)
+        .maybeSingle();
+      if (existing) {
+        return res.status(409).json({ error: "You have already reviewed this activity" });
+      }
+
+      const { data: profile } = await sb.from('user_profiles').select('name').eq('id', userId).maybeSingle();
+      const reviewRow = {
+        id: `review_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        activity_id: activityId,
+        host_id: String(row.host_id),
+        reviewer_id: userId,
+        reviewer_name: profile?.name || null,
+        rating,
+        body: body || null,
+        created_at: new Date().toISOString(),
+      };
+      const { error: insertError } = await sb.from('activity_reviews').insert(reviewRow);
+      if (insertError) throw insertError;
+      res.status(201).json(mapActivityReviewRow(reviewRow, row.title));
     } catch (error) {
-      console.error("Failed to update chat session:", error);
-      res.status(500).json({ error: "Failed to update chat session" });
+      console.error("Failed to submit activity review:", error);
+      res.status(500).json({ error: "Failed to submit activity review" });
     }
   });
 
-  // Delete a chat session
-  app.delete("/api/ai/sessions/:sessionId", async (req: Request, res: Response) => {
-    if (!AI_ADVISOR_ENABLED) {
-      return res.status(410).json({ error: "AI Advisor is disabled in this build." });
+  app.get("/api/hosts/:hostId/reputation", async (req: Request, res: Response) => {
+    const hostId = String(req.params.hostId);
+    try {
+      const [reputations, recentReviews] = await Promise.all([
+        loadHostReputations([hostId]),
+        loadRecentHostReviews(hostId, HOST_RECENT_REVIEWS_LIMIT),
+      ]);
+      res.json({ ...(reputations.get(hostId) || emptyHostReputation(hostId)), recentReviews });
+    } catch (error) {
+      console.error("Failed to get host reputation:", error);
+      res.status(500).json({ error: "Failed to get host reputation" });
     }
-    const { sessionId } = req.params;
-    
-    if (!sessionId) {
-      return res.status(400).json({ error: "Session ID is required" });
+  });
+
+  // SOS Emergency endpoints
+  app.post("/api/sos/log", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const { userId, userName, location, emergencyContact, timestamp, message } = req.body;
+
+    try {
+      const incidentId = await logSosIncident({ userId, userName, location, emergencyContact, timestamp, message });
+      res.json({ success: true, incidentId });
+    } catch (error) {
+      console.error("Failed to log SOS incident:", error);
+      res.status(500).json({ error: "Failed to log SOS incident" });
     }
-    
+  });
+
+  // Incidents the user reported or opted in to respond to
+  app.get("/api/sos/incidents", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const userId = String(req.query.userId);
+
     try {
       const sb = getSupabase();
-      const { data, error } = await sb
-        .from('ai_chat_sessions')
-        .delete()
-        .eq('id', sessionId)
-        .select('id');
-      
+      const { data: responding, error: respondingError } = await sb
+        .from('sos_responders')
+        .select('incident_id')
+        .eq('user_id', userId)
+        .eq('status', 'accepted');
+      if (respondingError) throw respondingError;
+      const respondingIds = (responding || []).map((row: any) => String(row.incident_id));
+
+      let query = sb.from('sos_incidents').select('*');
+      query = respondingIds.length > 0
+        ? query.or(`user_id.eq.${userId},id.in.(${respondingIds.join(",")})`)
+        : query.eq('user_id', userId);
+      const { data, error } = await query.order('timestamp', { ascending: false });
       if (error) throw error;
-      if (!data || data.length === 0) {
-        return res.status(404).json({ error: "Session not found" });
-      }
-      
-      res.json({ success: true });
+
+      res.json((data || []).map((row: any) => ({
+        ...mapSosIncidentRow(row),
+        role: String(row.user_id) === userId ? "reporter" : "responder",
+      })));
     } catch (error) {
-      console.error("Failed to delete chat session:", error);
-      res.status(500).json({ error: "Failed to delete chat session" });
+      console.error("Failed to get SOS incidents:", error);
+      res.status(500).json({ error: "Failed to get SOS incidents" });
     }
   });
 
-  // ==================== ACTIVITY CHAT ROUTES ====================
-
-  // ==================== ACTIVITIES (Supabase) ====================
+  app.get("/api/sos/invitations/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    const userId = String(req.params.userId);
 
-  app.get("/api/activities", async (_req: Request, res: Response) => {
     try {
       const sb = getSupabase();
-      const now = new Date().toISOString();
-      const { data, error } = await sb
-        .from('activities')
+      const { data: invites, error } = await sb
+        .from('sos_responders')
         .select('*')
-        .gte('date', now)
-        .order('date', { ascending: true });
+        .eq('user_id', userId)
+        .eq('status', 'invited')
+        .order('created_at', { ascending: false });
       if (error) throw error;
-      const activities = (data || []).map((row: any) => ({
-        id: row.id,
-        title: row.title,
-        description: row.description,
-        type: row.category || "other",
-        location: row.location,
-        latitude: row.latitude ? parseFloat(row.latitude) : undefined,
-        longitude: row.longitude ? parseFloat(row.longitude) : undefined,
-        date: row.date,
-        hostId: row.host_id,
-        host: row.host_data || { id: row.host_id, name: "Unknown" },
-        attendeeIds: row.attendee_ids || [],
-        attendees: row.attendees_data || [],
-        maxAttendees: row.max_attendees ? parseInt(row.max_attendees) : undefined,
-        imageUrl: row.image_url,
-        createdAt: row.created_at,
-      }));
-      res.json(activities);
-    } catch (error) {
-      console.error("Failed to get activities:", error);
-      res.status(500).json({ error: "Failed to get activities" });
-    }
-  });
 
-  app.post("/api/activities", requireUserSession((req) => req.body?.user?.id), async (req: Request, res: Response) => {
-    const { activity, user } = req.body as { activity?: Partial<Activity>; user?: ActivityUser };
+      const incidentIds = (invites || []).map((row: any) => String(row.incident_id));
+      const { data: incidents } = incidentIds.length > 0
+        ? await sb.from('sos_incidents').select('id, user_name, status, resolved').in('id', incidentIds)
+        : { data: [] as any[] };
+      const incidentById = new Map((incidents || []).map((row: any) => [String(row.id), row]));
+
+      // Only the reporter's name is revealed until the user opts in as a responder
+      const invitations = (invites || [])
+        .map((row: any) => ({ row, incident: incidentById.get(String(row.incident_id)) }))
+        .filter(({ incident }) => incident && !mapSosIncidentRow(incident).resolved)
+        .map(({ row, incident }) => ({
+          incidentId: row.incident_id,
+          userName: incident.user_name,
+          relation: row.relation,
+          createdAt: row.created_at,
+        }));
 
-    if (!activity || !user?.id || !user?.name) {
-      return res.status(400).json({ error: "Activity and user are required" });
+      res.json(invitations);
+    } catch (error) {
+      console.error("Get SOS invitations error:", error);
+      res.status(500).json({ error: "Failed to get SOS invitations" });
     }
+  });
 
-    const activityId = `act_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-    const now = new Date().toISOString();
+  app.get("/api/sos/incidents/:incidentId", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const userId = String(req.query.userId);
+    const incidentId = String(req.params.incidentId);
 
     try {
-      const sb = getSupabase();
-      await sb
-        .from('activities')
-        .insert({
-          id: activityId,
-          title: activity.title || "New Activity",
-          description: activity.description || "",
-          category: activity.type || "other",
-          date: activity.date || now,
-          location: activity.location || "TBD",
-          latitude: activity.latitude?.toString() || null,
-          longitude: activity.longitude?.toString() || null,
-          host_id: user.id,
-          host_data: user,
-          attendee_ids: [],
-          attendees_data: [],
-          max_attendees: activity.maxAttendees?.toString() || null,
-          image_url: activity.imageUrl || null,
-          created_at: now,
-        });
+      const access = await getSosAccess(incidentId, userId);
+      if (!access) return res.status(404).json({ error: "Incident not found" });
+      if (access.role !== "reporter" && access.role !== "responder") {
+        return res.status(403).json({ error: "Forbidden" });
+      }
 
-      const newActivity: Activity = {
-        id: activityId,
-        title: activity.title || "New Activity",
-        description: activity.description || "",
-        type: (activity.type as Activity["type"]) || "other",
-        location: activity.location || "TBD",
-        latitude: activity.latitude,
-        longitude: activity.longitude,
-        date: activity.date || now,
-        startTime: activity.startTime,
-        duration: activity.duration,
-        hostId: user.id,
-        host: user,
-        attendeeIds: [],
-        attendees: [],
-        maxAttendees: activity.maxAttendees,
-        imageUrl: activity.imageUrl,
-        isCompleted: activity.isCompleted,
-        createdAt: now,
-      };
+      const sb = getSupabase();
+      const [{ data: events, error: eventsError }, { data: responders, error: respondersError }] = await Promise.all([
+        sb.from('sos_incident_events').select('*').eq('incident_id', incidentId).order('created_at', { ascending: true }),
+        sb.from('sos_responders').select('*').eq('incident_id', incidentId).eq('status', 'accepted'),
+      ]);
+      if (eventsError) throw eventsError;
+      if (respondersError) throw respondersError;
 
-      res.status(201).json(newActivity);
+      res.json({
+        incident: mapSosIncidentRow(access.incident),
+        role: access.role,
+        timeline: (events || []).map(mapSosEventRow),
+        responders: (responders || []).map(mapSosResponderRow),
+      });
     } catch (error) {
-      console.error("Failed to create activity in database:", error);
-      res.status(500).json({ error: "Failed to create activity" });
+      console.error("Get SOS incident error:", error);
+      res.status(500).json({ error: "Failed to get SOS incident" });
     }
   });
 
-  app.post("/api/activities/:activityId/join", requireUserSession((req) => req.body?.user?.id), async (req: Request, res: Response) => {
-    const { activityId } = req.params;
-    const { user } = req.body as { user?: ActivityUser };
+  app.patch("/api/sos/incidents/:incidentId", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const userId = String(req.body?.userId || "");
+    const incidentId = String(req.params.incidentId);
+    const { status } = req.body;
+    const notes = typeof req.body?.notes === "string" ? req.body.notes.trim().slice(0, 2000) : "";
 
-    if (!user?.id) {
-      return res.status(400).json({ error: "User is required" });
+    if (status !== undefined && !isSosStatus(status)) {
+      return res.status(400).json({ error: `status must be one of: ${SOS_STATUSES.join(", ")}` });
+    }
+    if (status === undefined && !notes) {
+      return res.status(400).json({ error: "status or notes is required" });
     }
 
     try {
-      const sb = getSupabase();
-      const { data, error } = await sb
-        .from('activities')
-        .select('*')
-        .eq('id', activityId)
-        .single();
-      if (error || !data) {
-        return res.status(404).json({ error: "Activity not found" });
+      const access = await getSosAccess(incidentId, userId);
+      if (!access) return res.status(404).json({ error: "Incident not found" });
+      if (access.role !== "reporter" && access.role !== "responder") {
+        return res.status(403).json({ error: "Forbidden" });
       }
 
-      const attendeeIds = data.attendee_ids || [];
-      const attendeesData = data.attendees_data || [];
-
-      if (!attendeeIds.includes(user.id)) {
-        attendeeIds.push(user.id);
-        attendeesData.push(user);
+      const current = mapSosIncidentRow(access.incident);
+      if (status === undefined) {
+        const { data, error } = await getSupabase()
+          .from('sos_incidents')
+          .update({ notes, updated_at: new Date().toISOString() })
+          .eq('id', incidentId)
+          .select()
+          .single();
+        if (error) throw error;
+        await recordSosEvent(incidentId, userId, "note", { note: notes });
+        return res.json(mapSosIncidentRow(data));
+      }
 
-        const { error: updateError } = await sb
-          .from('activities')
-          .update({ attendee_ids: attendeeIds, attendees_data: attendeesData })
-          .eq('id', activityId);
-        if (updateError) throw updateError;
+      if (!SOS_TRANSITIONS[current.status].includes(status)) {
+        return res.status(409).json({ error: `Cannot move an incident from ${current.status} to ${status}` });
+      }
+      // Acknowledging and heading out are responder actions; only the reporter can call off a false alarm
+      if ((status === "acknowledged" || status === "responding") && access.role !== "responder") {
+        return res.status(403).json({ error: "Only responders can acknowledge or respond to an incident" });
+      }
+      if (status === "false_alarm" && access.role !== "reporter") {
+        return res.status(403).json({ error: "Only the reporter can mark an incident as a false alarm" });
       }
 
-      res.json({ success: true });
+      const updated = await transitionSosIncident(access.incident, userId, status, notes || null);
+      if (!updated) {
+        return res.status(409).json({ error: "The incident was updated by someone else; reload and try again" });
+      }
+      res.json(updated);
     } catch (error) {
-      console.error("Failed to join activity:", error);
-      res.status(500).json({ error: "Failed to join activity" });
+      console.error("Failed to update SOS incident:", error);
+      res.status(500).json({ error: "Failed to update SOS incident" });
     }
   });
 
-  app.delete("/api/activities/:activityId", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
-    const { activityId } = req.params;
-    const { userId } = req.body as { userId?: string };
+  app.post("/api/sos/incidents/:incidentId/location", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const userId = String(req.body?.userId || "");
+    const incidentId = String(req.params.incidentId);
+    const latitude = Number(req.body?.latitude);
+    const longitude = Number(req.body?.longitude);
+
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return res.status(400).json({ error: "Valid latitude and longitude are required" });
+    }
 
     try {
-      const sb = getSupabase();
-      const { data, error } = await sb
-        .from('activities')
-        .select('*')
-        .eq('id', activityId)
-        .single();
-      if (error || !data) {
-        return res.status(404).json({ error: "Activity not found" });
+      const access = await getSosAccess(incidentId, userId);
+      if (!access) return res.status(404).json({ error: "Incident not found" });
+      if (access.role !== "reporter") return res.status(403).json({ error: "Forbidden" });
+      if (mapSosIncidentRow(access.incident).resolved) {
+        return res.status(409).json({ error: "This incident is closed" });
       }
 
-      if (userId && data.host_id !== userId) {
-        return res.status(403).json({ error: "Only the host can delete the activity" });
-      }
+      const { error } = await getSupabase()
+        .from('sos_incidents')
+        .update({ latitude, longitude, updated_at: new Date().toISOString() })
+        .eq('id', incidentId);
+      if (error) throw error;
 
-      const { error: deleteError } = await sb
-        .from('activities')
-        .delete()
-        .eq('id', activityId);
-      if (deleteError) throw deleteError;
-      res.json({ success: true });
+      res.json(await recordSosEvent(incidentId, userId, "location", { latitude, longitude }));
     } catch (error) {
-      console.error("Failed to delete activity:", error);
-      res.status(500).json({ error: "Failed to delete activity" });
+      console.error("Update SOS location error:", error);
+      res.status(500).json({ error: "Failed to update SOS location" });
     }
   });
 
-  // Get messages for an activity (Supabase)
-  app.get("/api/activities/:activityId/messages", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
-    const { activityId } = req.params;
-    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
-    }
+  app.post("/api/sos/incidents/:incidentId/respond", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const userId = String(req.body?.userId || "");
+    const incidentId = String(req.params.incidentId);
+    const accept = req.body?.accept !== false;
+
     try {
       const sb = getSupabase();
-      const { data: activityRow, error: activityErr } = await sb
-        .from('activities')
-        .select('host_id, attendee_ids')
-        .eq('id', activityId)
-        .single();
-      if (activityErr || !activityRow) {
-        return res.status(404).json({ error: "Activity not found" });
+      const { data: responder, error: responderError } = await sb
+        .from('sos_responders')
+        .select('*')
+        .eq('incident_id', incidentId)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (responderError) throw responderError;
+      if (!responder) return res.status(404).json({ error: "Invitation not found" });
+
+      const incident = await loadSosIncident(incidentId);
+      if (!incident) return res.status(404).json({ error: "Incident not found" });
+      if (accept && mapSosIncidentRow(incident).resolved) {
+        return res.status(409).json({ error: "This incident is closed" });
       }
-      const attendeeIds = Array.isArray(activityRow.attendee_ids) ? activityRow.attendee_ids : [];
-      if (String(activityRow.host_id) !== userId && !attendeeIds.includes(userId)) {
-        return res.status(403).json({ error: "Forbidden" });
+
+      const nextStatus = accept ? "accepted" : "declined";
+      if (responder.status !== nextStatus) {
+        const { error } = await sb
+          .from('sos_responders')
+          .update({ status: nextStatus, responded_at: new Date().toISOString() })
+          .eq('id', responder.id);
+        if (error) throw error;
+
+        if (accept) {
+          await recordSosEvent(incidentId, userId, "responder_joined");
+        } else if (responder.status === "accepted") {
+          revokeChannel(`sos:${incidentId}`, userId);
+          await recordSosEvent(incidentId, userId, "responder_left");
+        }
       }
 
-      const { data, error } = await sb
-        .from('activity_chat_messages')
-        .select('*')
-        .eq('activity_id', activityId)
-        .is('deleted_at', null)
-        .order('created_at', { ascending: true });
-      if (error) throw error;
-      const messages = (data || []).map((row: any) => ({
-        id: row.id,
-        activityId: row.activity_id,
-        senderId: row.sender_id,
-        senderName: row.sender_name,
-        senderPhoto: row.sender_photo,
-        type: row.type || "text",
-        content: row.content,
-        photoUrl: row.photo_url,
-        fileUrl: row.file_url,
-        fileName: row.file_name,
-        audioUrl: row.audio_url,
-        audioDuration: row.audio_duration ? parseFloat(row.audio_duration) : undefined,
-        replyTo: row.reply_to,
-        location: row.location,
-        isPinned: row.is_pinned === true || row.is_pinned === "true",
-        isModeratorMessage: row.is_moderator_message === true || row.is_moderator_message === "true",
-        reactions: row.reactions || {},
-        isEdited: !!row.edited_at,
-        createdAt: row.created_at,
-        deletedAt: row.deleted_at,
-      }));
-      res.json(messages);
+      res.json(mapSosResponderRow({ ...responder, status: nextStatus }));
     } catch (error) {
-      console.error("Failed to get activity messages:", error);
-      res.json([]);
+      console.error("Respond to SOS incident error:", error);
+      res.status(500).json({ error: "Failed to respond to SOS incident" });
     }
   });
 
-  // Send a message to activity chat (Supabase)
-  app.post("/api/activities/:activityId/messages", requireUserSession((req) => req.body?.senderId), async (req: Request, res: Response) => {
-    const { activityId } = req.params;
-    const { senderId, senderName, senderPhoto, type, content, photoUrl, fileUrl, fileName, audioUrl, audioDuration, replyTo, location, isModeratorMessage } = req.body;
+  app.get("/api/sos/trusted-contacts/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    const userId = String(req.params.userId);
 
-    const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const now = new Date().toISOString();
-    
     try {
       const sb = getSupabase();
-      const { error } = await sb
-        .from('activity_chat_messages')
-        .insert({
-          id: messageId,
-          activity_id: activityId,
-          sender_id: senderId,
-          sender_name: senderName,
-          sender_photo: senderPhoto || '',
-          type: type || "text",
-          content,
-          photo_url: photoUrl || null,
-          file_url: fileUrl || null,
-          file_name: fileName || null,
-          audio_url: audioUrl || null,
-          audio_duration: audioDuration?.toString() || null,
-          reply_to: replyTo || null,
-          location: location || null,
-          is_pinned: false,
-          is_moderator_message: isModeratorMessage || false,
-          reactions: {},
-          created_at: now,
-        });
+      const { data, error } = await sb
+        .from('sos_trusted_contacts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
       if (error) throw error;
 
-      const message: ActivityChatMessage = {
-        id: messageId,
-        activityId: String(activityId),
-        senderId,
-        senderName,
-        senderPhoto,
-        type: type || "text",
-        content,
-        photoUrl,
-        fileUrl,
-        fileName,
-        audioUrl,
-        audioDuration,
-        replyTo,
-        location,
-        isPinned: false,
-        isModeratorMessage: isModeratorMessage || false,
-        reactions: {},
-        createdAt: now,
-      };
+      const contactIds = (data || []).map((row: any) => String(row.contact_user_id));
+      let profiles: any[] = [];
+      if (contactIds.length > 0) {
+        if (pgPool) {
+          const result = await pgPool.query(`SELECT id, name, photos FROM user_profiles WHERE id = ANY($1::text[])`, [contactIds]);
+          profiles = result.rows;
+        } else {
+          const { data: rows } = await sb.from('user_profiles').select('id, name, photos').in('id', contactIds);
+          profiles = rows || [];
+        }
+      }
+      const profileById = new Map(profiles.map((p: any) => [String(p.id), p]));
 
-      res.status(201).json(message);
+      res.json((data || []).map((row: any) => {
+        const profile = profileById.get(String(row.contact_user_id));
+        return {
+          userId: row.contact_user_id,
+          name: profile?.name || null,
+          photo: Array.isArray(profile?.photos) ? profile.photos[0] || null : null,
+          addedAt: row.created_at,
+        };
+      }));
     } catch (error) {
-      console.error("Failed to send activity message:", error);
-      res.status(500).json({ error: "Failed to send message" });
+      console.error("Get trusted contacts error:", error);
+      res.status(500).json({ error: "Failed to get trusted contacts" });
     }
   });
 
-  // Pin/unpin a message (moderator only) - Supabase
-  app.patch("/api/activities/:activityId/messages/:messageId/pin", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
-    const { activityId, messageId } = req.params;
-    const { userId, pin } = req.body;
-
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
+  app.post("/api/sos/trusted-contacts", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const userId = String(req.body?.userId || "");
+    const contactUserId = String(req.body?.contactUserId || "").trim();
+    if (!contactUserId || contactUserId === userId) {
+      return res.status(400).json({ error: "A valid contactUserId is required" });
     }
 
     try {
-      const sb = getSupabase();
-      const { data: modRows, error: modErr } = await sb
-        .from('activity_moderators')
-        .select('id')
-        .eq('activity_id', activityId)
-        .eq('user_id', userId)
-        .limit(1);
-      if (modErr) throw modErr;
-      if (!modRows || modRows.length === 0) {
-        return res.status(403).json({ error: "Forbidden" });
+      // Trusted contacts must be people the user has already matched with
+      const partners = await loadMatchPartners(userId);
+      if (!partners.some((p) => p.partnerId === contactUserId)) {
+        return res.status(403).json({ error: "You can only add matches as trusted contacts" });
+      }
+      if (await isBlockedBetween(userId, contactUserId)) {
+        return res.status(403).json({ error: "You can only add matches as trusted contacts" });
       }
-      const { data, error } = await sb
-        .from('activity_chat_messages')
-        .update({ is_pinned: !!pin })
-        .eq('id', messageId)
-        .select()
-        .single();
 
-      if (error) {
-        if (error.code === 'PGRST116') {
-          return res.status(404).json({ error: "Message not found" });
-        }
-        throw error;
+      const sb = getSupabase();
+      const existing = await loadTrustedContactIds(userId);
+      if (!existing.includes(contactUserId) && existing.length >= SOS_MAX_TRUSTED_CONTACTS) {
+        return res.status(400).json({ error: `You can have at most ${SOS_MAX_TRUSTED_CONTACTS} trusted contacts` });
       }
 
-      res.json({
-        id: data.id,
-        activityId: data.activity_id,
-        isPinned: data.is_pinned,
-        content: data.content,
-      });
+      const { error } = await sb
+        .from('sos_trusted_contacts')
+        .upsert(
+          { user_id: userId, contact_user_id: contactUserId, created_at: new Date().toISOString() },
+          { onConflict: 'user_id,contact_user_id', ignoreDuplicates: true }
+        );
+      if (error) throw error;
+
+      res.status(201).json({ success: true });
     } catch (error) {
-      console.error("Failed to pin message:", error);
-      res.status(500).json({ error: "Failed to pin message" });
+      console.error("Add trusted contact error:", error);
+      res.status(500).json({ error: "Failed to add trusted contact" });
     }
   });
 
-  // Edit a message (owner only) - Supabase
-  app.put("/api/activities/:activityId/messages/:messageId", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
-    const { messageId } = req.params;
-    const { content, userId } = req.body;
-
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
+  app.delete("/api/sos/trusted-contacts/:userId/:contactUserId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const { error } = await getSupabase()
+        .from('sos_trusted_contacts')
+        .delete()
+        .eq('user_id', String(req.params.userId))
+        .eq('contact_user_id', String(req.params.contactUserId));
+      if (error) throw error;
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Remove trusted contact error:", error);
+      res.status(500).json({ error: "Failed to remove trusted contact" });
     }
+  });
+
+  app.post("/api/feedback", feedbackRateLimit, async (req: Request, res: Response) => {
+    const supportEmail = "nomadconnect611@gmail.com";
 
     try {
-      const sb = getSupabase();
-      const { data: ownerRow, error: ownerErr } = await sb
-        .from('activity_chat_messages')
-        .select('sender_id')
-        .eq('id', messageId)
-        .single();
-      if (ownerErr) {
-        if (ownerErr.code === 'PGRST116') {
-          return res.status(404).json({ error: "Message not found" });
-        }
-        throw ownerErr;
+      const { userId, userName, userEmail, message, app: appName } = req.body || {};
+      const cleanedMessage = String(message || "").trim();
+
+      if (!cleanedMessage) {
+        return res.status(400).json({ error: "Feedback message is required" });
       }
-      if (String(ownerRow?.sender_id || '') !== String(userId)) {
-        return res.status(403).json({ error: "Forbidden" });
+
+      const subject = `[${appName || "ExploreX"}] User Feedback`;
+      const body = [
+        `User ID: ${userId || "unknown"}`,
+        `Name: ${userName || "unknown"}`,
+        `Email: ${userEmail || "unknown"}`,
+        "",
+        "Message:",
+        cleanedMessage,
+      ].join("\n");
+
+      let sent = false;
+
+      const emailjsServiceId = process.env.EMAILJS_SERVICE_ID;
+      const emailjsTemplateId = process.env.EMAILJS_TEMPLATE_ID;
+      const emailjsPublicKey = process.env.EMAILJS_PUBLIC_KEY;
+      const emailjsPrivateKey = process.env.EMAILJS_PRIVATE_KEY;
+
+      if (emailjsServiceId && emailjsTemplateId && emailjsPublicKey) {
+        try {
+          const emailResponse = await fetch("https://api.emailjs.com/api/v1.0/email/send", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              service_id: emailjsServiceId,
+              template_id: emailjsTemplateId,
+              user_id: emailjsPublicKey,
+              accessToken: emailjsPrivateKey,
+              template_params: {
+                to_email: supportEmail,
+                to_name: "ExploreX Support",
+                from_name: userName || "ExploreX User",
+                from_email: userEmail || "no-reply@explorex.app",
+                subject,
+                message: body,
+              },
+            }),
+          });
+
+          sent = emailResponse.ok;
+          if (!sent) {
+            const emailError = await emailResponse.text();
+            console.error("[feedback] EmailJS failed:", emailError);
+          }
+        } catch (emailJsError) {
+          console.error("[feedback] EmailJS request failed:", emailJsError);
+        }
       }
 
-      const { data, error } = await sb
-        .from('activity_chat_messages')
-        .update({ content, edited_at: new Date().toISOString() })
-        .eq('id', messageId)
-        .select()
-        .single();
+      if (!sent && process.env.RESEND_API_KEY) {
+        try {
+          const { Resend } = await import("resend");
+          const resend = new Resend(process.env.RESEND_API_KEY);
+          const { error } = await resend.emails.send({
+            from: process.env.RESEND_FROM_EMAIL || "ExploreX <onboarding@resend.dev>",
+            to: supportEmail,
+            subject,
+            text: body,
+          });
+          sent = !error;
+          if (error) {
+            console.error("[feedback] Resend API failed:", error);
+          }
+        } catch (resendError) {
+          console.error("[feedback] Resend API request failed:", resendError);
+        }
+      }
 
-      if (error) {
-        if (error.code === 'PGRST116') {
-          return res.status(404).json({ error: "Message not found" });
+      if (!sent) {
+        try {
+          const { getResendClient } = await import("./lib/resend");
+          const { client, fromEmail } = await getResendClient();
+          const { error } = await client.emails.send({
+            from: `ExploreX <${fromEmail}>`,
+            to: supportEmail,
+            subject,
+            text: body,
+          });
+          sent = !error;
+          if (error) {
+            console.error("[feedback] Replit Resend connector failed:", error);
+          }
+        } catch (connectorError) {
+          console.error("[feedback] Resend connector unavailable:", connectorError);
         }
-        throw error;
       }
 
-      res.json({
-        id: data.id,
-        activityId: data.activity_id,
-        content: data.content,
-        isEdited: true,
-      });
+      if (!sent) {
+        return res.status(500).json({ error: "Failed to deliver feedback email" });
+      }
+
+      res.json({ success: true });
     } catch (error) {
-      console.error("Failed to edit message:", error);
-      res.status(500).json({ error: "Failed to edit message" });
+      console.error("Failed to submit feedback:", error);
+      res.status(500).json({ error: "Failed to submit feedback" });
     }
   });
 
-  // React to a message - Supabase
-  app.post("/api/activities/:activityId/messages/:messageId/react", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
-    const { messageId } = req.params;
-    const { userId, emoji } = req.body as { userId?: string; emoji?: string };
-
-    if (!userId || !emoji) {
-      return res.status(400).json({ error: "userId and emoji are required" });
-    }
-
+  // OTP Password Reset - Send OTP via EmailJS
+  app.post("/api/password-reset/send-otp", passwordResetRateLimit, async (req: Request, res: Response) => {
     try {
-      const sb = getSupabase();
-      const { data: msgData, error: getError } = await sb
-        .from('activity_chat_messages')
-        .select('reactions, activity_id')
-        .eq('id', messageId)
-        .single();
+      const { email } = req.body;
 
-      if (getError) {
-        if (getError.code === 'PGRST116') {
-          return res.status(404).json({ error: "Message not found" });
-        }
-        throw getError;
+      if (!email) {
+        return res.status(400).json({ error: "Email is required" });
       }
 
-      const { data: activityRow, error: activityErr } = await sb
-        .from('activities')
-        .select('host_id, attendee_ids')
-        .eq('id', (msgData as any).activity_id)
-        .single();
-      if (activityErr || !activityRow) {
-        return res.status(404).json({ error: "Activity not found" });
-      }
-      const attendeeIds = Array.isArray(activityRow.attendee_ids) ? activityRow.attendee_ids : [];
-      const isMember = String(activityRow.host_id) === String(userId) || attendeeIds.includes(String(userId));
-      if (!isMember) {
-        return res.status(403).json({ error: "Forbidden" });
+      const normalizedEmail = normalizeEmail(email);
+      if (!isValidEmail(normalizedEmail)) {
+        return res.status(400).json({ error: "Please enter a valid email" });
       }
-      const reactions: Record<string, string[]> = msgData.reactions || {};
-      const current = new Set(reactions[emoji] || []);
 
-      if (current.has(userId)) {
-        current.delete(userId);
-      } else {
-        current.add(userId);
+      // Anti-enumeration: respond with success even if account doesn't exist.
+      let hasAccount = true;
+      if (pgPool) {
+        const existsRes = await pgPool.query("SELECT 1 FROM app_users WHERE email = $1 LIMIT 1", [normalizedEmail]);
+        hasAccount = Number(existsRes.rowCount || 0) > 0;
       }
 
-      if (current.size === 0) {
-        delete reactions[emoji];
-      } else {
-        reactions[emoji] = Array.from(current);
+      // Generate and store OTP only for known accounts.
+      const code = Math.floor(100000 + Math.random() * 900000).toString();
+      if (hasAccount) {
+        otpStore.set(normalizedEmail, {
+          email: normalizedEmail,
+          code: code,
+          expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+          used: false,
+        });
       }
 
-      const { error: updateError } = await sb
-        .from('activity_chat_messages')
-        .update({ reactions })
-        .eq('id', messageId);
-      if (updateError) throw updateError;
+      let emailSent = !hasAccount;
 
-      res.json({ id: messageId, reactions });
-    } catch (error) {
-      console.error("Failed to react to message:", error);
-      res.status(500).json({ error: "Failed to react to message" });
-    }
-  });
+      // Use EmailJS as primary email service
+      const emailjsServiceId = process.env.EMAILJS_SERVICE_ID;
+      const emailjsTemplateId = process.env.EMAILJS_TEMPLATE_ID;
+      const emailjsPublicKey = process.env.EMAILJS_PUBLIC_KEY;
+      const emailjsPrivateKey = process.env.EMAILJS_PRIVATE_KEY;
 
-  // Delete a message (moderator or owner) - Supabase
-  app.delete("/api/activities/:activityId/messages/:messageId", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
-    const { activityId, messageId } = req.params;
-    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
-    }
+      console.log("EmailJS config check:", {
+        hasServiceId: !!emailjsServiceId,
+        hasTemplateId: !!emailjsTemplateId,
+        hasPublicKey: !!emailjsPublicKey,
+        publicKeyLength: emailjsPublicKey?.length,
+        hasPrivateKey: !!emailjsPrivateKey,
+      });
 
-    try {
-      const sb = getSupabase();
-      const { data: msgRow, error: msgErr } = await sb
-        .from('activity_chat_messages')
-        .select('sender_id')
-        .eq('id', messageId)
-        .single();
-      if (msgErr) {
-        if (msgErr.code === 'PGRST116') {
-          return res.status(404).json({ error: "Message not found" });
+      if (emailjsServiceId && emailjsTemplateId && emailjsPublicKey) {
+        try {
+          const emailResponse = await fetch('https://api.emailjs.com/api/v1.0/email/send', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              service_id: emailjsServiceId,
+              template_id: emailjsTemplateId,
+              user_id: emailjsPublicKey,
+              accessToken: emailjsPrivateKey,
+              template_params: {
+                to_email: normalizedEmail,
+                to_name: normalizedEmail.split('@')[0],
+                message: `Your verification code is: ${code}`,
+                from_name: 'ExploreX',
+              }
+            })
+          });
+
+          if (emailResponse.ok) {
+            emailSent = true;
+            console.log(`OTP ${code} sent to ${normalizedEmail} via EmailJS`);
+          } else {
+            const errorText = await emailResponse.text();
+            console.error("EmailJS error:", errorText);
+          }
+        } catch (emailjsErr) {
+          console.error("EmailJS request failed:", emailjsErr);
         }
-        throw msgErr;
       }
 
-      let canDelete = String(msgRow?.sender_id || '') === userId;
-      if (!canDelete) {
-        const { data: modRows, error: modErr } = await sb
-          .from('activity_moderators')
-          .select('id')
-          .eq('activity_id', activityId)
-          .eq('user_id', userId)
-          .limit(1);
-        if (modErr) throw modErr;
-        canDelete = !!(modRows && modRows.length > 0);
-      }
-      if (!canDelete) {
-        return res.status(403).json({ error: "Forbidden" });
+      // Fallback to Resend if EmailJS failed
+      if (!emailSent) {
+        try {
+          const { sendOTPEmail } = await import('./lib/resend');
+          emailSent = await sendOTPEmail(normalizedEmail, code);
+          if (emailSent) {
+            console.log(`OTP ${code} sent to ${normalizedEmail} via Resend`);
+          }
+        } catch (resendErr: any) {
+          console.log("Resend not available:", resendErr.message);
+        }
       }
 
-      const { data, error } = await sb
-        .from('activity_chat_messages')
-        .update({ deleted_at: new Date().toISOString() })
-        .eq('id', messageId)
-        .select('id');
-
-      if (error) throw error;
-      if (!data || data.length === 0) {
-        return res.status(404).json({ error: "Message not found" });
+      if (!emailSent) {
+        return res.status(500).json({ error: "Failed to process request" });
       }
 
-      res.json({ success: true });
+      res.json({
+        success: true,
+        message: "If an account exists for this email, a code has been sent."
+      });
     } catch (error) {
-      console.error("Failed to delete message:", error);
-      res.status(500).json({ error: "Failed to delete message" });
+      console.error("Send OTP error:", error);
+      res.status(500).json({ error: "Failed to send verification code" });
     }
   });
 
-  // Get moderators for an activity
-  app.get("/api/activities/:activityId/moderators", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
-    const { activityId } = req.params;
-    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
-    }
+  // OTP Password Reset - Verify OTP
+  app.post("/api/password-reset/verify-otp", passwordResetRateLimit, async (req: Request, res: Response) => {
     try {
-      const sb = getSupabase();
-      const { data: activityRow, error: activityErr } = await sb
-        .from('activities')
-        .select('host_id, attendee_ids')
-        .eq('id', activityId)
-        .single();
-      if (activityErr || !activityRow) {
-        return res.status(404).json({ error: "Activity not found" });
-      }
-      const attendeeIds = Array.isArray(activityRow.attendee_ids) ? activityRow.attendee_ids : [];
-      if (String(activityRow.host_id) !== userId && !attendeeIds.includes(userId)) {
-        return res.status(403).json({ error: "Forbidden" });
+      const { email, code } = req.body;
+
+      if (!email || !code) {
+        return res.status(400).json({ error: "Email and code are required" });
       }
-      const { data, error } = await sb
-        .from('activity_moderators')
-        .select('*')
-        .eq('activity_id', activityId);
-      if (error) throw error;
-      const moderators = (data || []).map((row: any) => ({
-        activityId: row.activity_id,
-        userId: row.user_id,
-        isHost: row.is_host,
-        addedAt: row.added_at,
-      }));
-      res.json(moderators);
-    } catch (error) {
-      console.error("Failed to get moderators:", error);
-      res.status(500).json({ error: "Failed to get moderators" });
-    }
-  });
 
-  // Add a moderator (host only)
-  app.post("/api/activities/:activityId/moderators", requireUserSession((req) => req.body?.requesterId), async (req: Request, res: Response) => {
-    const { activityId } = req.params;
-    const { requesterId, userId, isHost } = req.body;
+      const normalizedEmail = email.toLowerCase().trim();
 
-    if (!requesterId || !userId) {
-      return res.status(400).json({ error: "requesterId and userId are required" });
-    }
+      // Check stored OTP
+      const storedOtp = otpStore.get(normalizedEmail);
+      
+      if (!storedOtp) {
+        return res.status(400).json({ error: "Invalid or expired code" });
+      }
 
-    try {
-      const sb = getSupabase();
-      const { data: activityRow, error: activityErr } = await sb
-        .from('activities')
-        .select('host_id')
-        .eq('id', activityId)
-        .single();
-      if (activityErr || !activityRow) {
-        return res.status(404).json({ error: "Activity not found" });
+      if (storedOtp.expiresAt < new Date()) {
+        otpStore.delete(normalizedEmail);
+        return res.status(400).json({ error: "Invalid or expired code" });
       }
-      if (String(activityRow.host_id) !== String(requesterId)) {
-        return res.status(403).json({ error: "Only host can manage moderators" });
+
+      if (storedOtp.used) {
+        return res.status(400).json({ error: "Invalid or expired code" });
       }
-      const { data: existing } = await sb
-        .from('activity_moderators')
-        .select('id')
-        .eq('activity_id', activityId)
-        .eq('user_id', userId);
 
-      if (existing && existing.length > 0) {
-        return res.json({ activityId, userId, isHost: isHost || false, addedAt: new Date().toISOString() });
+      if (storedOtp.code !== code.trim()) {
+        return res.status(400).json({ error: "Invalid or expired code" });
       }
 
-      const modId = `mod_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-      const now = new Date().toISOString();
-      const { error } = await sb
-        .from('activity_moderators')
-        .insert({
-          id: modId,
-          activity_id: activityId,
-          user_id: userId,
-          is_host: isHost || false,
-          added_at: now,
-        });
-      if (error) throw error;
+      // Mark as verified (but not used yet - will be used when password is updated)
+      otpStore.set(normalizedEmail, {
+        ...storedOtp,
+        used: false, // Will be set to true after password update
+      });
 
-      res.status(201).json({ activityId, userId, isHost: isHost || false, addedAt: now });
+      console.log(`OTP verified for ${normalizedEmail}`);
+
+      res.json({ success: true, message: "Code verified" });
     } catch (error) {
-      console.error("Failed to add moderator:", error);
-      res.status(500).json({ error: "Failed to add moderator" });
+      console.error("Verify OTP error:", error);
+      res.status(500).json({ error: "Verification failed" });
     }
   });
 
-  // Remove a moderator (host only)
-  app.delete("/api/activities/:activityId/moderators/:userId", requireUserSession((req) => req.query.requesterId), async (req: Request, res: Response) => {
-    const { activityId, userId } = req.params;
-    const requesterId = Array.isArray(req.query.requesterId) ? String(req.query.requesterId[0] || "") : String(req.query.requesterId || "");
-    if (!requesterId) {
-      return res.status(400).json({ error: "requesterId is required" });
-    }
-
+  // Password Reset - Update Password after OTP verification
+  app.post("/api/password-reset/update-password", passwordResetRateLimit, async (req: Request, res: Response) => {
     try {
-      const sb = getSupabase();
-      const { data: activityRow, error: activityErr } = await sb
-        .from('activities')
-        .select('host_id')
-        .eq('id', activityId)
-        .single();
-      if (activityErr || !activityRow) {
-        return res.status(404).json({ error: "Activity not found" });
+      const { email, newPassword } = req.body;
+
+      if (!email || !newPassword) {
+        return res.status(400).json({ error: "Email and new password are required" });
       }
-      if (String(activityRow.host_id) !== String(requesterId)) {
-        return res.status(403).json({ error: "Only host can manage moderators" });
+
+      if (!isStrongPassword(newPassword)) {
+        return res.status(400).json({ error: "Password must be at least 8 chars and include uppercase, lowercase, number, and symbol" });
       }
-      const { error } = await sb
-        .from('activity_moderators')
-        .delete()
-        .eq('activity_id', activityId)
-        .eq('user_id', userId)
-        .eq('is_host', false);
-      if (error) throw error;
-      res.json({ success: true });
-    } catch (error) {
-      console.error("Failed to remove moderator:", error);
-      res.status(500).json({ error: "Failed to remove moderator" });
-    }
-  });
 
-  // Initialize host as moderator when activity chat is accessed
-  app.post("/api/activities/:activityId/init-chat", requireUserSession((req) => req.body?.hostId), async (req: Request, res: Response) => {
-    const { activityId } = req.params;
-    const { hostId } = req.body;
+      const normalizedEmail = normalizeEmail(email);
+      const verifiedEntry = otpStore.get(normalizedEmail);
 
-    if (!hostId) {
-      return res.status(400).json({ error: "hostId is required" });
-    }
+      if (!verifiedEntry || verifiedEntry.used) {
+        return res.status(400).json({ error: "Please verify your code first" });
+      }
 
-    try {
-      const sb = getSupabase();
-      const { data: activityRow, error: activityErr } = await sb
-        .from('activities')
-        .select('host_id')
-        .eq('id', activityId)
-        .single();
-      if (activityErr || !activityRow) {
-        return res.status(404).json({ error: "Activity not found" });
+      if (new Date() > verifiedEntry.expiresAt) {
+        otpStore.delete(normalizedEmail);
+        return res.status(400).json({ error: "Session expired. Please start over." });
       }
-      if (String(activityRow.host_id) !== String(hostId)) {
-        return res.status(403).json({ error: "Only host can initialize chat" });
+
+      if (!pgPool) {
+        return res.status(500).json({ error: "Database is not configured" });
       }
-      const { data: existing } = await sb
-        .from('activity_moderators')
-        .select('id')
-        .eq('activity_id', activityId)
-        .eq('user_id', hostId);
 
-      if (!existing || existing.length === 0) {
-        const modId = `mod_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-        const { error } = await sb
-          .from('activity_moderators')
-          .insert({
-            id: modId,
-            activity_id: activityId,
-            user_id: hostId,
-            is_host: true,
-            added_at: new Date().toISOString(),
-          });
-        if (error) throw error;
+      const nextHash = hashPassword(newPassword);
+      const result = await pgPool.query(
+        "UPDATE app_users SET password_hash = $1 WHERE email = $2 RETURNING id",
+        [nextHash, normalizedEmail]
+      );
+
+      if (!result.rowCount) {
+        otpStore.delete(normalizedEmail);
+        return res.json({ success: true, message: "Password updated successfully" });
       }
 
-      res.json({ success: true });
+      verifiedEntry.used = true;
+      otpStore.delete(normalizedEmail);
+
+      res.json({ success: true, message: "Password updated successfully" });
     } catch (error) {
-      console.error("Failed to init chat:", error);
-      res.status(500).json({ error: "Failed to initialize chat" });
+      console.error("Password update error:", error);
+      res.status(500).json({ error: "Failed to update password" });
     }
   });
 
-  // ==================== SAFETY RATING ROUTES ====================
+  // Password reset page for Supabase auth - serve static HTML file
+  app.get("/auth/reset-password", (req: Request, res: Response) => {
+    const filePath = path.join(__dirname, "templates", "reset-password.html");
+    res.sendFile(filePath);
+  });
+  
+  // Also serve at root level for easier access
+  app.get("/reset-password", (req: Request, res: Response) => {
+    const filePath = path.join(__dirname, "templates", "reset-password.html");
+    res.sendFile(filePath);
+  });
 
-  // Submit a safety rating for an activity
-  app.post("/api/safety-ratings", async (req: Request, res: Response) => {
-    const { activityId, ratedByUserId, safetyScore, wasLocationPublic, hostWasTrustworthy } = req.body;
 
-    if (!activityId || !ratedByUserId || !safetyScore) {
-      return res.status(400).json({ error: "Missing required fields" });
-    }
+  // ==================== USER PROFILES ====================
 
+  app.post("/api/user-profiles/upsert", requireUserSession((req) => String(req.body?.id || "")), async (req: Request, res: Response) => {
     try {
+      const { id, name, age, bio, interests, photos, location, intentMode, activePlan, hideLastSeen, vanType, travelStyle } = req.body;
+      if (!id) return res.status(400).json({ error: "User ID is required" });
+      const lookingFor = req.body.lookingFor === undefined ? undefined : normalizeLookingFor(req.body.lookingFor);
+      const locationPrecision = req.body.locationPrecision === undefined
+        ? undefined
+        : normalizeLocationPrecision(req.body.locationPrecision);
+
+      if (pgPool) {
+        const result = await pgPool.query(
+          `INSERT INTO user_profiles (
+              id, name, age, bio, interests, photos, location,
+              compatibility_checks_this_week, radar_scans_this_week, last_reset_timestamp,
+              is_visible_on_radar, hide_last_seen, van_type, travel_style, looking_for, location_precision, created_at, updated_at
+            ) VALUES (
+              $1, COALESCE($2, ''), COALESCE($3, 0), COALESCE($4, ''),
+              COALESCE($5::jsonb, '[]'::jsonb), COALESCE($6::jsonb, '[]'::jsonb), COALESCE($7, ''),
+              0, 0, NOW(), true, COALESCE($8, false), $9, $10, COALESCE($11::jsonb, '[]'::jsonb),
+              COALESCE($12, 'approx_500m'), NOW(), NOW()
+            )
+            ON CONFLICT (id) DO UPDATE SET
+              name = COALESCE(EXCLUDED.name, user_profiles.name),
+              age = COALESCE(EXCLUDED.age, user_profiles.age),
+              bio = COALESCE(EXCLUDED.bio, user_profiles.bio),
+              interests = COALESCE(EXCLUDED.interests, user_profiles.interests),
+              photos = COALESCE(EXCLUDED.photos, user_profiles.photos),
+              location = COALESCE(EXCLUDED.location, user_profiles.location),
+              hide_last_seen = COALESCE($8, user_profiles.hide_last_seen),
+              van_type = COALESCE($9, user_profiles.van_type),
+              travel_style = COALESCE($10, user_profiles.travel_style),
+              looking_for = COALESCE($11::jsonb, user_profiles.looking_for),
+              location_precision = COALESCE($12, user_profiles.location_precision),
+              updated_at = NOW()
+            RETURNING *`,
+          [
+            id,
+            name ?? null,
+            age ?? null,
+            bio ?? null,
+            interests ? JSON.stringify(interests) : null,
+            photos ? JSON.stringify(photos) : null,
+            location ?? null,
+            typeof hideLastSeen === "boolean" ? hideLastSeen : null,
+            vanType ?? null,
+            travelStyle ?? null,
+            lookingFor ? JSON.stringify(lookingFor) : null,
+            locationPrecision ?? null,
+          ]
+        );
+
+        const normalizedIntent = normalizeIntentMode(intentMode);
+        await pgPool.query(
+          `INSERT INTO explorex_intents (user_id, mode, updated_at)
+           VALUES ($1, $2, NOW())
+           ON CONFLICT (user_id) DO UPDATE SET mode = EXCLUDED.mode, updated_at = NOW()`,
+          [id, normalizedIntent]
+        );
+
+        const planTitle = activePlan && typeof activePlan.title === "string" ? activePlan.title.trim() : "";
+        if (planTitle) {
+          const planCity = activePlan.city ? String(activePlan.city).trim() : null;
+          // Every profile save resends the active plan, so only a changed title or city starts a new one and drops the itinerary
+          const currentPlan = await pgPool.query(
+            `SELECT id FROM explorex_plan_cards
+             WHERE user_id = $1 AND is_active = TRUE AND title = $2 AND COALESCE(city, '') = $3
+             LIMIT 1`,
+            [id, planTitle, planCity || ""]
+          );
+          if (!currentPlan.rowCount) {
+            await pgPool.query(`UPDATE explorex_plan_cards SET is_active = FALSE, updated_at = NOW() WHERE user_id = $1`, [id]);
+            await pgPool.query(
+              `INSERT INTO explorex_plan_cards (user_id, title, city, starts_at, expires_at, is_active, updated_at)
+               VALUES ($1, $2, $3, $4, $5, TRUE, NOW())`,
+              [
+                id,
+                planTitle,
+                planCity,
+                activePlan.startsAt ? new Date(activePlan.startsAt) : null,
+                activePlan.expiresAt ? new Date(activePlan.expiresAt) : null,
+              ]
+            );
+          }
+        }
+
+        if (typeof hideLastSeen === "boolean") {
+          broadcastPresence(String(id), "settings").catch((error) => console.error("Presence update error:", error));
+        }
+
+        const meta = await loadExploreXMetaForUsers([id]);
+        const enriched = addExploreXProfileFields(result.rows[0], meta);
+        return res.json(enriched);
+      }
+
       const sb = getSupabase();
-      const { data: existingRating } = await sb
-        .from('safety_ratings')
+      const { data: existing, error: selectError } = await sb
+        .from('user_profiles')
         .select('id')
-        .eq('activity_id', activityId)
-        .eq('rated_by_user_id', ratedByUserId);
+        .eq('id', id);
+      if (selectError) throw selectError;
 
-      if (existingRating && existingRating.length > 0) {
-        return res.status(400).json({ error: "You have already rated this activity" });
+      if (existing && existing.length > 0) {
+        const updateData: any = { updated_at: new Date().toISOString() };
+        if (name !== undefined) updateData.name = name;
+        if (age !== undefined) updateData.age = age;
+        if (bio !== undefined) updateData.bio = bio;
+        if (interests !== undefined) updateData.interests = interests;
+        if (photos !== undefined) updateData.photos = photos;
+        if (location !== undefined) updateData.location = location;
+        if (typeof hideLastSeen === "boolean") updateData.hide_last_seen = hideLastSeen;
+        if (vanType !== undefined) updateData.van_type = vanType;
+        if (travelStyle !== undefined) updateData.travel_style = travelStyle;
+        if (lookingFor !== undefined) updateData.looking_for = lookingFor;
+        if (locationPrecision !== undefined) updateData.location_precision = locationPrecision;
+
+        const { error: updateError } = await sb
+          .from('user_profiles')
+          .update(updateData)
+          .eq('id', id);
+        if (updateError) throw updateError;
+      } else {
+        const now = Date.now();
+        const { error: insertError } = await sb
+          .from('user_profiles')
+          .insert({
+            id,
+            name: name || '',
+            age: age || 0,
+            bio: bio || '',
+            interests: interests || [],
+            photos: photos || [],
+            location: location || '',
+            compatibility_checks_this_week: 0,
+            radar_scans_this_week: 0,
+            last_reset_timestamp: now,
+            is_visible_on_radar: true,
+            hide_last_seen: hideLastSeen === true,
+            van_type: vanType || null,
+            travel_style: travelStyle || null,
+            looking_for: lookingFor || [],
+            location_precision: locationPrecision || DEFAULT_LOCATION_PRECISION,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          });
+        if (insertError) throw insertError;
       }
 
-      const ratingId = `rating_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-      const now = new Date().toISOString();
-
-      const { error } = await sb
-        .from('safety_ratings')
-        .insert({
-          id: ratingId,
-          activity_id: activityId,
-          rated_by_user_id: ratedByUserId,
-          safety_score: safetyScore,
-          was_location_public: wasLocationPublic || false,
-          host_was_trustworthy: hostWasTrustworthy || false,
-          created_at: now,
-        });
-      if (error) throw error;
+      if (typeof hideLastSeen === "boolean") {
+        broadcastPresence(String(id), "settings").catch((error) => console.error("Presence update error:", error));
+      }
 
-      res.status(201).json({
-        id: ratingId,
-        activityId,
-        ratedByUserId,
-        safetyScore,
-        wasLocationPublic: wasLocationPublic || false,
-        hostWasTrustworthy: hostWasTrustworthy || false,
-        createdAt: now,
-      });
+      const { data: row, error: getError } = await sb
+        .from('user_profiles')
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (getError) throw getError;
+      res.json({ ...row, intent_mode: normalizeIntentMode(intentMode), active_plan: activePlan || null });
     } catch (error) {
-      console.error("Failed to submit safety rating:", error);
-      res.status(500).json({ error: "Failed to submit safety rating" });
+      console.error("Upsert profile error:", error);
+      res.status(500).json({ error: "Failed to upsert profile" });
     }
   });
 
-  // Get safety ratings for an activity
-  app.get("/api/safety-ratings/:activityId", async (req: Request, res: Response) => {
-    const { activityId } = req.params;
-
+  app.get("/api/user-profiles/:userId", async (req: Request, res: Response) => {
     try {
+      if (pgPool) {
+        const result = await pgPool.query(
+          "SELECT * FROM user_profiles WHERE id = $1 LIMIT 1",
+          [req.params.userId]
+        );
+        if (!result.rowCount) {
+          return res.status(404).json({ error: "Profile not found" });
+        }
+        const row = result.rows[0];
+        const meta = await loadExploreXMetaForUsers([String(req.params.userId)]);
+        return res.json(addExploreXProfileFields(row, meta));
+      }
+
       const sb = getSupabase();
       const { data, error } = await sb
-        .from('safety_ratings')
+        .from('user_profiles')
         .select('*')
-        .eq('activity_id', activityId);
-      if (error) throw error;
-
-      const ratings = (data || []).map((r: any) => ({
-        id: r.id,
-        activityId: r.activity_id,
-        ratedByUserId: r.rated_by_user_id,
-        safetyScore: r.safety_score,
-        wasLocationPublic: r.was_location_public,
-        hostWasTrustworthy: r.host_was_trustworthy,
-        createdAt: r.created_at,
-      }));
-
-      const averageSafetyScore = ratings.length > 0
-        ? ratings.reduce((sum: number, r: any) => sum + r.safetyScore, 0) / ratings.length
-        : 0;
-
-      const publicLocationPercentage = ratings.length > 0
-        ? (ratings.filter((r: any) => r.wasLocationPublic).length / ratings.length) * 100
-        : 0;
-
-      const trustworthyHostPercentage = ratings.length > 0
-        ? (ratings.filter((r: any) => r.hostWasTrustworthy).length / ratings.length) * 100
-        : 0;
-
+        .eq('id', req.params.userId)
+        .single();
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return res.status(404).json({ error: "Profile not found" });
+        }
+        throw error;
+      }
       res.json({
-        ratings,
-        summary: {
-          totalRatings: ratings.length,
-          averageSafetyScore: Math.round(averageSafetyScore * 10) / 10,
-          publicLocationPercentage: Math.round(publicLocationPercentage),
-          trustworthyHostPercentage: Math.round(trustworthyHostPercentage),
-        },
+        ...data,
+        intent_mode: "explore_city",
+        active_plan: null,
+        meetup_count: 0,
+        trust_score: computeTrustScore({
+          isTravelVerified: data?.is_travel_verified,
+          photos: data?.photos,
+          interests: data?.interests,
+          bio: data?.bio,
+          meetupCount: 0,
+        }),
       });
     } catch (error) {
-      console.error("Failed to get safety ratings:", error);
-      res.status(500).json({ error: "Failed to get safety ratings" });
+      console.error("Get profile error:", error);
+      res.status(500).json({ error: "Failed to get profile" });
     }
   });
 
-  // SOS Emergency endpoints
-  app.post("/api/sos/log", async (req: Request, res: Response) => {
-    const { userId, userName, location, emergencyContact, timestamp, message } = req.body;
-
-    const incidentId = `sos_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-    const ts = timestamp || new Date().toISOString();
+  // ==================== EXPLOREX CORE FEATURES ====================
 
+  app.post("/api/explorex/intent/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
-      const sb = getSupabase();
-      const { error } = await sb
-        .from('sos_incidents')
-        .insert({
-          id: incidentId,
-          user_id: userId,
-          user_name: userName,
-          latitude: location?.latitude || null,
-          longitude: location?.longitude || null,
-          emergency_contact_name: emergencyContact?.name || null,
-          emergency_contact_phone: emergencyContact?.phone || null,
-          emergency_contact_email: emergencyContact?.email || null,
-          timestamp: ts,
-          resolved: false,
-          notes: null,
-        });
-      if (error) throw error;
-
-      console.log("[SOS] Emergency incident logged:", incidentId);
-
-      if (emergencyContact?.email && message) {
-        try {
-          const emailjsServiceId = process.env.EMAILJS_SERVICE_ID;
-          const emailjsTemplateId = process.env.EMAILJS_TEMPLATE_ID;
-          const emailjsPublicKey = process.env.EMAILJS_PUBLIC_KEY;
-          const emailjsPrivateKey = process.env.EMAILJS_PRIVATE_KEY;
-
-          if (emailjsServiceId && emailjsTemplateId && emailjsPublicKey) {
-            await fetch('https://api.emailjs.com/api/v1.0/email/send', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                service_id: emailjsServiceId,
-                template_id: emailjsTemplateId,
-                user_id: emailjsPublicKey,
-                accessToken: emailjsPrivateKey,
-                template_params: {
-                  to_email: emergencyContact.email,
-                  to_name: emergencyContact.name || "Emergency Contact",
-                  from_name: "ExploreX SOS",
-                  message: message,
-                },
-              }),
-            });
-            console.log("[SOS] Emergency email sent to:", emergencyContact.email);
-          }
-        } catch (emailErr) {
-          console.error("[SOS] Failed to send emergency email:", emailErr);
-        }
-      }
-
-      res.json({ success: true, incidentId });
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      const userId = req.params.userId;
+      const mode = normalizeIntentMode(req.body?.mode);
+      await pgPool.query(
+        `INSERT INTO explorex_intents (user_id, mode, updated_at)
+         VALUES ($1, $2, NOW())
+         ON CONFLICT (user_id) DO UPDATE SET mode = EXCLUDED.mode, updated_at = NOW()`,
+        [userId, mode]
+      );
+      return res.json({ success: true, userId, mode });
     } catch (error) {
-      console.error("Failed to log SOS incident:", error);
-      res.status(500).json({ error: "Failed to log SOS incident" });
+      console.error("Set intent error:", error);
+      return res.status(500).json({ error: "Failed to set intent" });
     }
   });
 
-  app.get("/api/sos/incidents", async (req: Request, res: Response) => {
-    const { userId } = req.query;
-
+  app.get("/api/explorex/intent/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
-      const sb = getSupabase();
-      let query = sb.from('sos_incidents').select('*');
-      if (userId) {
-        query = query.eq('user_id', userId as string);
-      }
-      const { data, error } = await query.order('timestamp', { ascending: false });
-      if (error) throw error;
+      if (!pgPool) return res.json({ mode: "explore_city" });
+      const userId = req.params.userId;
+      const result = await pgPool.query(
+        `SELECT mode, updated_at FROM explorex_intents WHERE user_id = $1 LIMIT 1`,
+        [userId]
+      );
+      if (!result.rowCount) return res.json({ mode: "explore_city" });
+      return res.json({ mode: normalizeIntentMode(result.rows[0].mode), updatedAt: result.rows[0].updated_at });
+    } catch (error) {
+      console.error("Get intent error:", error);
+      return res.json({ mode: "explore_city" });
+    }
+  });
 
-      const incidents = (data || []).map((row: any) => ({
+  app.get("/api/explorex/plans/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      if (!pgPool) return res.json([]);
+      const userId = req.params.userId;
+      const result = await pgPool.query(
+        `SELECT id, title, city, starts_at, expires_at, is_active, created_at, updated_at
+         FROM explorex_plan_cards
+         WHERE user_id = $1
+         ORDER BY is_active DESC, updated_at DESC
+         LIMIT 20`,
+        [userId]
+      );
+      const stopsByPlan = await loadTripStopsByPlan(result.rows.map((row) => String(row.id)));
+      return res.json(result.rows.map((row) => ({
         id: row.id,
-        userId: row.user_id,
-        userName: row.user_name,
-        location: row.latitude != null ? { latitude: row.latitude, longitude: row.longitude } : undefined,
-        emergencyContact: row.emergency_contact_name ? {
-          name: row.emergency_contact_name,
-          phone: row.emergency_contact_phone,
-          email: row.emergency_contact_email,
-        } : undefined,
-        timestamp: row.timestamp,
-        resolved: row.resolved,
-        notes: row.notes,
-      }));
-
-      res.json(incidents);
+        title: row.title,
+        city: row.city || undefined,
+        startsAt: row.starts_at || undefined,
+        expiresAt: row.expires_at || undefined,
+        isActive: row.is_active,
+        stops: stopsByPlan.get(String(row.id)) || [],
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      })));
     } catch (error) {
-      console.error("Failed to get SOS incidents:", error);
-      res.status(500).json({ error: "Failed to get SOS incidents" });
+      console.error("Get plans error:", error);
+      return res.json([]);
     }
   });
 
-  app.patch("/api/sos/incidents/:incidentId", async (req: Request, res: Response) => {
-    const { incidentId } = req.params;
-    const { resolved, notes } = req.body;
-
+  app.post("/api/explorex/plans/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
-      const sb = getSupabase();
-      const updateData: any = {};
-      if (resolved !== undefined) updateData.resolved = resolved;
-      if (notes) updateData.notes = notes;
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      const userId = req.params.userId;
+      const title = String(req.body?.title || "").trim();
+      const city = String(req.body?.city || "").trim() || null;
+      const startsAt = req.body?.startsAt ? new Date(req.body.startsAt) : null;
+      const expiresAt = req.body?.expiresAt ? new Date(req.body.expiresAt) : null;
+      const activate = req.body?.isActive !== false;
 
-      const { data, error } = await sb
-        .from('sos_incidents')
-        .update(updateData)
-        .eq('id', incidentId)
-        .select()
-        .single();
+      if (!title) return res.status(400).json({ error: "Plan title is required" });
 
-      if (error) {
-        if (error.code === 'PGRST116') {
-          return res.status(404).json({ error: "Incident not found" });
-        }
-        throw error;
+      if (activate) {
+        await pgPool.query(`UPDATE explorex_plan_cards SET is_active = FALSE, updated_at = NOW() WHERE user_id = $1`, [userId]);
       }
 
-      res.json({
-        id: data.id,
-        userId: data.user_id,
-        userName: data.user_name,
-        location: data.latitude != null ? { latitude: data.latitude, longitude: data.longitude } : undefined,
-        emergencyContact: data.emergency_contact_name ? {
-          name: data.emergency_contact_name,
-          phone: data.emergency_contact_phone,
-          email: data.emergency_contact_email,
-        } : undefined,
-        timestamp: data.timestamp,
-        resolved: data.resolved,
-        notes: data.notes,
+      const result = await pgPool.query(
+        `INSERT INTO explorex_plan_cards (user_id, title, city, starts_at, expires_at, is_active, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, NOW())
+         RETURNING id, title, city, starts_at, expires_at, is_active, created_at, updated_at`,
+        [userId, title, city, startsAt, expiresAt, activate]
+      );
+
+      return res.json({
+        id: result.rows[0].id,
+        title: result.rows[0].title,
+        city: result.rows[0].city || undefined,
+        startsAt: result.rows[0].starts_at || undefined,
+        expiresAt: result.rows[0].expires_at || undefined,
+        isActive: result.rows[0].is_active,
+        createdAt: result.rows[0].created_at,
       });
     } catch (error) {
-      console.error("Failed to update SOS incident:", error);
-      res.status(500).json({ error: "Failed to update SOS incident" });
+      console.error("Create plan error:", error);
+      return res.status(500).json({ error: "Failed to create plan" });
+    }
+  });
+
+  app.post("/api/explorex/plans/:userId/:planId/activate", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      const { userId, planId } = req.params;
+      await pgPool.query(`UPDATE explorex_plan_cards SET is_active = FALSE, updated_at = NOW() WHERE user_id = $1`, [userId]);
+      await pgPool.query(`UPDATE explorex_plan_cards SET is_active = TRUE, updated_at = NOW() WHERE user_id = $1 AND id = $2`, [userId, planId]);
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("Activate plan error:", error);
+      return res.status(500).json({ error: "Failed to activate plan" });
+    }
+  });
+
+  app.delete("/api/explorex/plans/:userId/:planId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      const { userId, planId } = req.params;
+      await pgPool.query(`DELETE FROM explorex_plan_cards WHERE user_id = $1 AND id = $2`, [userId, planId]);
+      await pgPool.query(`DELETE FROM explorex_trip_stops WHERE user_id = $1 AND plan_id = $2`, [userId, planId]);
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("Delete plan error:", error);
+      return res.status(500).json({ error: "Failed to delete plan" });
     }
   });
 
-  app.post("/api/feedback", feedbackRateLimit, async (req: Request, res: Response) => {
-    const supportEmail = "nomadconnect611@gmail.com";
-
+  app.get("/api/explorex/itinerary/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
-      const { userId, userName, userEmail, message, app: appName } = req.body || {};
-      const cleanedMessage = String(message || "").trim();
-
-      if (!cleanedMessage) {
-        return res.status(400).json({ error: "Feedback message is required" });
-      }
-
-      const subject = `[${appName || "ExploreX"}] User Feedback`;
-      const body = [
-        `User ID: ${userId || "unknown"}`,
-        `Name: ${userName || "unknown"}`,
-        `Email: ${userEmail || "unknown"}`,
-        "",
-        "Message:",
-        cleanedMessage,
-      ].join("\n");
-
-      let sent = false;
+      if (!pgPool) return res.json({ plan: null });
+      const userId = String(req.params.userId);
+      const meta = await loadExploreXMetaForUsers([userId]);
+      return res.json({ plan: meta.planByUser[userId] || null });
+    } catch (error) {
+      console.error("Get itinerary error:", error);
+      return res.status(500).json({ error: "Failed to get itinerary" });
+    }
+  });
 
-      const emailjsServiceId = process.env.EMAILJS_SERVICE_ID;
-      const emailjsTemplateId = process.env.EMAILJS_TEMPLATE_ID;
-      const emailjsPublicKey = process.env.EMAILJS_PUBLIC_KEY;
-      const emailjsPrivateKey = process.env.EMAILJS_PRIVATE_KEY;
+  // Replaces the stops of the active plan, starting a plan named after the route when there is none yet
+  app.put("/api/explorex/itinerary/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      const userId = String(req.params.userId);
+      const stops = parseTripStopsInput(req.body?.stops);
+      if ("error" in stops) return res.status(400).json({ error: stops.error });
 
-      if (emailjsServiceId && emailjsTemplateId && emailjsPublicKey) {
-        try {
-          const emailResponse = await fetch("https://api.emailjs.com/api/v1.0/email/send", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              service_id: emailjsServiceId,
-              template_id: emailjsTemplateId,
-              user_id: emailjsPublicKey,
-              accessToken: emailjsPrivateKey,
-              template_params: {
-                to_email: supportEmail,
-                to_name: "ExploreX Support",
-                from_name: userName || "ExploreX User",
-                from_email: userEmail || "no-reply@explorex.app",
-                subject,
-                message: body,
-              },
-            }),
-          });
+      const firstStop = stops[0];
+      const lastStop = stops[stops.length - 1];
+      const startsAt = firstStop ? new Date(`${firstStop.startsOn}T00:00:00Z`) : null;
+      const expiresAt = lastStop ? new Date(Date.parse(`${lastStop.endsOn}T00:00:00Z`) + DAY_MS) : null;
 
-          sent = emailResponse.ok;
-          if (!sent) {
-            const emailError = await emailResponse.text();
-            console.error("[feedback] EmailJS failed:", emailError);
-          }
-        } catch (emailJsError) {
-          console.error("[feedback] EmailJS request failed:", emailJsError);
-        }
-      }
+      const active = await pgPool.query(
+        `SELECT id FROM explorex_plan_cards WHERE user_id = $1 AND is_active = TRUE ORDER BY updated_at DESC LIMIT 1`,
+        [userId]
+      );
 
-      if (!sent && process.env.RESEND_API_KEY) {
-        try {
-          const { Resend } = await import("resend");
-          const resend = new Resend(process.env.RESEND_API_KEY);
-          const { error } = await resend.emails.send({
-            from: process.env.RESEND_FROM_EMAIL || "ExploreX <onboarding@resend.dev>",
-            to: supportEmail,
-            subject,
-            text: body,
-          });
-          sent = !error;
-          if (error) {
-            console.error("[feedback] Resend API failed:", error);
-          }
-        } catch (resendError) {
-          console.error("[feedback] Resend API request failed:", resendError);
-        }
+      let planId: string;
+      if (active.rowCount) {
+        planId = String(active.rows[0].id);
+        await pgPool.query(
+          `UPDATE explorex_plan_cards
+           SET starts_at = COALESCE($2, starts_at), expires_at = COALESCE($3, expires_at), updated_at = NOW()
+           WHERE id = $1`,
+          [planId, startsAt, expiresAt]
+        );
+      } else {
+        if (stops.length === 0) return res.json({ plan: null });
+        const title = String(req.body?.title || "").trim().slice(0, 80) || stops.map((stop) => stop.city).join(" → ").slice(0, 80);
+        const created = await pgPool.query(
+          `INSERT INTO explorex_plan_cards (user_id, title, city, starts_at, expires_at, is_active, updated_at)
+           VALUES ($1, $2, $3, $4, $5, TRUE, NOW())
+           RETURNING id`,
+          [userId, title, firstStop.city, startsAt, expiresAt]
+        );
+        planId = String(created.rows[0].id);
       }
 
-      if (!sent) {
-        try {
-          const { getResendClient } = await import("./lib/resend");
-          const { client, fromEmail } = await getResendClient();
-          const { error } = await client.emails.send({
-            from: `ExploreX <${fromEmail}>`,
-            to: supportEmail,
-            subject,
-            text: body,
-          });
-          sent = !error;
-          if (error) {
-            console.error("[feedback] Replit Resend connector failed:", error);
-          }
-        } catch (connectorError) {
-          console.error("[feedback] Resend connector unavailable:", connectorError);
-        }
-      }
+      await replaceTripStops(planId, userId, stops);
+      const meta = await loadExploreXMetaForUsers([userId]);
+      return res.json({ plan: meta.planByUser[userId] || null });
+    } catch (error) {
+      console.error("Save itinerary error:", error);
+      return res.status(500).json({ error: "Failed to save itinerary" });
+    }
+  });
 
-      if (!sent) {
-        return res.status(500).json({ error: "Failed to deliver feedback email" });
+  // Opts the active plan in or out of overlap matching with people the user hasn't matched with
+  app.put("/api/explorex/itinerary/:userId/sharing", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      if (typeof req.body?.shareOverlaps !== "boolean") {
+        return res.status(400).json({ error: "shareOverlaps must be true or false" });
       }
-
-      res.json({ success: true });
+      const userId = String(req.params.userId);
+      const result = await pgPool.query(
+        `UPDATE explorex_plan_cards SET share_overlaps = $2, updated_at = NOW() WHERE user_id = $1 AND is_active = TRUE`,
+        [userId, req.body.shareOverlaps]
+      );
+      if (!result.rowCount) return res.status(404).json({ error: "No active plan to share" });
+      const meta = await loadExploreXMetaForUsers([userId]);
+      return res.json({ plan: meta.planByUser[userId] || null });
     } catch (error) {
-      console.error("Failed to submit feedback:", error);
-      res.status(500).json({ error: "Failed to submit feedback" });
+      console.error("Update itinerary sharing error:", error);
+      return res.status(500).json({ error: "Failed to update itinerary sharing" });
     }
   });
 
-  // OTP Password Reset - Send OTP via EmailJS
-  app.post("/api/password-reset/send-otp", passwordResetRateLimit, async (req: Request, res: Response) => {
+  app.get("/api/explorex/trip-overlaps/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
-      const { email } = req.body;
-
-      if (!email) {
-        return res.status(400).json({ error: "Email is required" });
-      }
+      if (!pgPool) return res.json([]);
+      const userId = String(req.params.userId);
+      const overlaps = await loadTripOverlaps(userId);
+      const otherIds = Array.from(overlaps.keys());
+      if (otherIds.length === 0) return res.json([]);
+
+      const [profilesRes, meta] = await Promise.all([
+        pgPool.query(`SELECT * FROM user_profiles WHERE id = ANY($1::text[])`, [otherIds]),
+        loadExploreXMetaForUsers(otherIds),
+      ]);
+      const profileById = new Map(profilesRes.rows.map((row) => [String(row.id), row]));
+
+      // Map iteration keeps the matcher's order, soonest shared stop first
+      return res.json(otherIds.flatMap((otherId) => {
+        const profile = profileById.get(otherId);
+        if (!profile) return [];
+        return [{
+          user: mapDiscoverUser(addExploreXProfileFields(profile, meta)),
+          overlaps: overlaps.get(otherId) || [],
+        }];
+      }));
+    } catch (error) {
+      console.error("Get trip overlaps error:", error);
+      return res.status(500).json({ error: "Failed to get trip overlaps" });
+    }
+  });
 
-      const normalizedEmail = normalizeEmail(email);
-      if (!isValidEmail(normalizedEmail)) {
-        return res.status(400).json({ error: "Please enter a valid email" });
-      }
+  app.post("/api/explorex/chat-starters", async (req: Request, res: Response) => {
+    try {
+      const intent = normalizeIntentMode(req.body?.intentMode);
+      const city = String(req.body?.city || "").trim();
+      const local = INTENT_CHAT_PROMPTS[intent] || INTENT_CHAT_PROMPTS.explore_city;
+      const starters = city ? local.map((v) => `${v} (${city})`) : local;
+      return res.json({ starters: starters.slice(0, 3) });
+    } catch {
+      return res.json({ starters: INTENT_CHAT_PROMPTS.explore_city });
+    }
+  });
 
-      // Anti-enumeration: respond with success even if account doesn't exist.
-      let hasAccount = true;
-      if (pgPool) {
-        const existsRes = await pgPool.query("SELECT 1 FROM app_users WHERE email = $1 LIMIT 1", [normalizedEmail]);
-        hasAccount = Number(existsRes.rowCount || 0) > 0;
+  // The midpoint is taken between where each of the pair is shown to the other, at their chosen precision, so the
+  // suggested venue gives away no more about either of them than their match can already see
+  app.post("/api/explorex/meet-now/suggest", requireUserSession((req) => String(req.body?.userId || "")), async (req: Request, res: Response) => {
+    try {
+      const { userId, targetUserId } = req.body || {};
+      if (!userId || !targetUserId) {
+        return res.status(400).json({ error: "userId and targetUserId are required" });
       }
-
-      // Generate and store OTP only for known accounts.
-      const code = Math.floor(100000 + Math.random() * 900000).toString();
-      if (hasAccount) {
-        otpStore.set(normalizedEmail, {
-          email: normalizedEmail,
-          code: code,
-          expiresAt: new Date(Date.now() + 10 * 60 * 1000),
-          used: false,
-        });
+      const partners = await loadMatchPartners(String(userId));
+      if (!partners.some((partner) => partner.partnerId === String(targetUserId))) {
+        return res.status(403).json({ error: "Meetups can only be planned with a match" });
       }
 
-      let emailSent = !hasAccount;
-
-      // Use EmailJS as primary email service
-      const emailjsServiceId = process.env.EMAILJS_SERVICE_ID;
-      const emailjsTemplateId = process.env.EMAILJS_TEMPLATE_ID;
-      const emailjsPublicKey = process.env.EMAILJS_PUBLIC_KEY;
-      const emailjsPrivateKey = process.env.EMAILJS_PRIVATE_KEY;
-
-      console.log("EmailJS config check:", {
-        hasServiceId: !!emailjsServiceId,
-        hasTemplateId: !!emailjsTemplateId,
-        hasPublicKey: !!emailjsPublicKey,
-        publicKeyLength: emailjsPublicKey?.length,
-        hasPrivateKey: !!emailjsPrivateKey,
-      });
+      const [locations, userRow, targetRow] = await Promise.all([
+        loadDiscoverLocations([String(userId), String(targetUserId)]),
+        loadProfileRow(String(userId)),
+        loadProfileRow(String(targetUserId)),
+      ]);
+      const own = locations.get(String(userId));
+      const other = locations.get(String(targetUserId));
 
-      if (emailjsServiceId && emailjsTemplateId && emailjsPublicKey) {
-        try {
-          const emailResponse = await fetch('https://api.emailjs.com/api/v1.0/email/send', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              service_id: emailjsServiceId,
-              template_id: emailjsTemplateId,
-              user_id: emailjsPublicKey,
-              accessToken: emailjsPrivateKey,
-              template_params: {
-                to_email: normalizedEmail,
-                to_name: normalizedEmail.split('@')[0],
-                message: `Your verification code is: ${code}`,
-                from_name: 'ExploreX',
-              }
-            })
-          });
+      let midpointLat: number | null = null;
+      let midpointLng: number | null = null;
 
-          if (emailResponse.ok) {
-            emailSent = true;
-            console.log(`OTP ${code} sent to ${normalizedEmail} via EmailJS`);
-          } else {
-            const errorText = await emailResponse.text();
-            console.error("EmailJS error:", errorText);
-          }
-        } catch (emailjsErr) {
-          console.error("EmailJS request failed:", emailjsErr);
+      if (own && other) {
+        const ownShown = fuzzLocationForViewer(
+          other,
+          { userId: String(userId), lat: own.lat, lng: own.lng },
+          String(targetUserId),
+          normalizeLocationPrecision(userRow?.location_precision),
+          getSessionSecret()
+        );
+        const otherShown = fuzzLocationForViewer(
+          own,
+          { userId: String(targetUserId), lat: other.lat, lng: other.lng },
+          String(userId),
+          normalizeLocationPrecision(targetRow?.location_precision),
+          getSessionSecret()
+        );
+        if (ownShown.lat !== null && ownShown.lng !== null && otherShown.lat !== null && otherShown.lng !== null) {
+          midpointLat = (ownShown.lat + otherShown.lat) / 2;
+          midpointLng = (ownShown.lng + otherShown.lng) / 2;
         }
       }
 
-      // Fallback to Resend if EmailJS failed
-      if (!emailSent) {
-        try {
-          const { sendOTPEmail } = await import('./lib/resend');
-          emailSent = await sendOTPEmail(normalizedEmail, code);
-          if (emailSent) {
-            console.log(`OTP ${code} sent to ${normalizedEmail} via Resend`);
-          }
-        } catch (resendErr: any) {
-          console.log("Resend not available:", resendErr.message);
-        }
-      }
+      const venueName = "Public cafe near midpoint";
+      const venueAddress = midpointLat && midpointLng
+        ? `${midpointLat.toFixed(4)}, ${midpointLng.toFixed(4)}`
+        : "Choose a public place between both of you";
 
-      if (!emailSent) {
-        return res.status(500).json({ error: "Failed to process request" });
+      let meetupId: string | null = null;
+      if (pgPool) {
+        const created = await pgPool.query(
+          `INSERT INTO explorex_meetups (
+              user_a_id, user_b_id, venue_name, venue_address,
+              midpoint_lat, midpoint_lng, status, scheduled_at
+           ) VALUES ($1,$2,$3,$4,$5,$6,'planned', NOW())
+           RETURNING id`,
+          [userId, targetUserId, venueName, venueAddress, midpointLat, midpointLng]
+        );
+        meetupId = created.rows[0]?.id || null;
       }
 
-      res.json({
+      return res.json({
         success: true,
-        message: "If an account exists for this email, a code has been sent."
+        meetupId,
+        venueName,
+        venueAddress,
+        midpointLat,
+        midpointLng,
+        safetyTips: [
+          "Meet in a public place",
+          "Share your live location with a trusted contact",
+          "Use in-app check-in before and after meetup",
+        ],
       });
     } catch (error) {
-      console.error("Send OTP error:", error);
-      res.status(500).json({ error: "Failed to send verification code" });
+      console.error("Meet-now suggestion error:", error);
+      return res.status(500).json({ error: "Failed to suggest meetup" });
     }
   });
 
-  // OTP Password Reset - Verify OTP
-  app.post("/api/password-reset/verify-otp", passwordResetRateLimit, async (req: Request, res: Response) => {
+  // The newest meetup with this partner that hasn't ended, plus the caller's own check-in for it
+  app.get("/api/explorex/meetups/with/:partnerId", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
     try {
-      const { email, code } = req.body;
-
-      if (!email || !code) {
-        return res.status(400).json({ error: "Email and code are required" });
-      }
-
-      const normalizedEmail = email.toLowerCase().trim();
-
-      // Check stored OTP
-      const storedOtp = otpStore.get(normalizedEmail);
-      
-      if (!storedOtp) {
-        return res.status(400).json({ error: "Invalid or expired code" });
-      }
-
-      if (storedOtp.expiresAt < new Date()) {
-        otpStore.delete(normalizedEmail);
-        return res.status(400).json({ error: "Invalid or expired code" });
-      }
-
-      if (storedOtp.used) {
-        return res.status(400).json({ error: "Invalid or expired code" });
-      }
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+      const partnerId = String(req.params.partnerId);
 
-      if (storedOtp.code !== code.trim()) {
-        return res.status(400).json({ error: "Invalid or expired code" });
-      }
+      const meetup = await pgPool.query(
+        `SELECT * FROM explorex_meetups
+         WHERE ((user_a_id = $1 AND user_b_id = $2) OR (user_a_id = $2 AND user_b_id = $1))
+           AND COALESCE(status, 'planned') NOT IN ('completed', 'cancelled')
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [userId, partnerId]
+      );
+      if (!meetup.rowCount) return res.json({ meetup: null, checkIn: null });
 
-      // Mark as verified (but not used yet - will be used when password is updated)
-      otpStore.set(normalizedEmail, {
-        ...storedOtp,
-        used: false, // Will be set to true after password update
+      const checkIn = await pgPool.query(
+        `SELECT * FROM meetup_checkins WHERE meetup_id = $1 AND user_id = $2 LIMIT 1`,
+        [String(meetup.rows[0].id), userId]
+      );
+      return res.json({
+        meetup: mapMeetupRow(meetup.rows[0]),
+        checkIn: checkIn.rowCount ? mapCheckInRow(checkIn.rows[0]) : null,
       });
-
-      console.log(`OTP verified for ${normalizedEmail}`);
-
-      res.json({ success: true, message: "Code verified" });
     } catch (error) {
-      console.error("Verify OTP error:", error);
-      res.status(500).json({ error: "Verification failed" });
+      console.error("Get meetup error:", error);
+      return res.status(500).json({ error: "Failed to get meetup" });
     }
   });
 
-  // Password Reset - Update Password after OTP verification
-  app.post("/api/password-reset/update-password", passwordResetRateLimit, async (req: Request, res: Response) => {
+  app.get("/api/explorex/meetups/:meetupId/check-in", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
     try {
-      const { email, newPassword } = req.body;
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+      const meetupId = String(req.params.meetupId);
 
-      if (!email || !newPassword) {
-        return res.status(400).json({ error: "Email and new password are required" });
-      }
+      const meetup = await loadMeetupForParticipant(meetupId, userId);
+      if (!meetup) return res.status(404).json({ error: "Meetup not found" });
 
-      if (!isStrongPassword(newPassword)) {
-        return res.status(400).json({ error: "Password must be at least 8 chars and include uppercase, lowercase, number, and symbol" });
-      }
+      const result = await pgPool.query(
+        `SELECT * FROM meetup_checkins WHERE meetup_id = $1 AND user_id = $2 LIMIT 1`,
+        [meetupId, userId]
+      );
+      return res.json({ meetupStatus: meetup.status, checkIn: result.rowCount ? mapCheckInRow(result.rows[0]) : null });
+    } catch (error) {
+      console.error("Get check-in error:", error);
+      return res.status(500).json({ error: "Failed to get check-in" });
+    }
+  });
 
-      const normalizedEmail = normalizeEmail(email);
-      const verifiedEntry = otpStore.get(normalizedEmail);
+  app.post("/api/explorex/meetups/:meetupId/check-in/start", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    try {
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      const userId = String(req.body?.userId || "");
+      const meetupId = String(req.params.meetupId);
 
-      if (!verifiedEntry || verifiedEntry.used) {
-        return res.status(400).json({ error: "Please verify your code first" });
-      }
+      const deadline = resolveCheckInDeadline(req.body);
+      if (!(deadline instanceof Date)) return res.status(400).json({ error: deadline.error });
 
-      if (new Date() > verifiedEntry.expiresAt) {
-        otpStore.delete(normalizedEmail);
-        return res.status(400).json({ error: "Session expired. Please start over." });
+      const meetup = await loadMeetupForParticipant(meetupId, userId);
+      if (!meetup) return res.status(404).json({ error: "Meetup not found" });
+      if (meetup.status === "completed" || meetup.status === "cancelled") {
+        return res.status(409).json({ error: "This meetup has already ended" });
       }
 
-      if (!pgPool) {
-        return res.status(500).json({ error: "Database is not configured" });
-      }
+      const profile = await pgPool.query(`SELECT name FROM user_profiles WHERE id = $1 LIMIT 1`, [userId]);
+      const userName = String(req.body?.userName || profile.rows[0]?.name || "").trim() || null;
+      const emergencyContact = normalizeEmergencyContact(req.body?.emergencyContact);
+      const lat = Number(req.body?.location?.latitude);
+      const lng = Number(req.body?.location?.longitude);
+      const hasLocation = Number.isFinite(lat) && Number.isFinite(lng);
 
-      const nextHash = hashPassword(newPassword);
       const result = await pgPool.query(
-        "UPDATE app_users SET password_hash = $1 WHERE email = $2 RETURNING id",
-        [nextHash, normalizedEmail]
+        `INSERT INTO meetup_checkins (
+            id, meetup_id, user_id, user_name, status, started_at, expected_end_at,
+            emergency_contact, last_lat, last_lng, created_at, updated_at
+         ) VALUES ($1, $2, $3, $4, 'active', NOW(), $5, $6::jsonb, $7, $8, NOW(), NOW())
+         ON CONFLICT (meetup_id, user_id) DO UPDATE
+         SET user_name = EXCLUDED.user_name,
+             status = 'active',
+             started_at = NOW(),
+             expected_end_at = EXCLUDED.expected_end_at,
+             confirmed_at = NULL,
+             escalated_at = NULL,
+             incident_id = NULL,
+             emergency_contact = EXCLUDED.emergency_contact,
+             last_lat = COALESCE(EXCLUDED.last_lat, meetup_checkins.last_lat),
+             last_lng = COALESCE(EXCLUDED.last_lng, meetup_checkins.last_lng),
+             updated_at = NOW()
+         RETURNING *`,
+        [
+          `checkin_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+          meetupId,
+          userId,
+          userName,
+          deadline,
+          emergencyContact ? JSON.stringify(emergencyContact) : null,
+          hasLocation ? lat : null,
+          hasLocation ? lng : null,
+        ]
       );
 
-      if (!result.rowCount) {
-        otpStore.delete(normalizedEmail);
-        return res.json({ success: true, message: "Password updated successfully" });
-      }
-
-      verifiedEntry.used = true;
-      otpStore.delete(normalizedEmail);
+      await pgPool.query(
+        `UPDATE explorex_meetups SET status = 'in_progress', started_at = COALESCE(started_at, NOW()) WHERE id::text = $1`,
+        [meetupId]
+      );
 
-      res.json({ success: true, message: "Password updated successfully" });
+      return res.status(201).json({
+        checkIn: mapCheckInRow(result.rows[0]),
+        warning: emergencyContact?.email ? undefined : "Add an emergency contact email so they can be notified if you miss your check-in",
+      });
     } catch (error) {
-      console.error("Password update error:", error);
-      res.status(500).json({ error: "Failed to update password" });
+      console.error("Start check-in error:", error);
+      return res.status(500).json({ error: "Failed to start check-in" });
     }
   });
 
-  // Password reset page for Supabase auth - serve static HTML file
-  app.get("/auth/reset-password", (req: Request, res: Response) => {
-    const filePath = path.join(__dirname, "templates", "reset-password.html");
-    res.sendFile(filePath);
-  });
-  
-  // Also serve at root level for easier access
-  app.get("/reset-password", (req: Request, res: Response) => {
-    const filePath = path.join(__dirname, "templates", "reset-password.html");
-    res.sendFile(filePath);
-  });
-
-
-  // ==================== USER PROFILES ====================
-
-  app.post("/api/user-profiles/upsert", requireUserSession((req) => String(req.body?.id || "")), async (req: Request, res: Response) => {
+  app.patch("/api/explorex/meetups/:meetupId/check-in", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
     try {
-      const { id, name, age, bio, interests, photos, location, intentMode, activePlan } = req.body;
-      if (!id) return res.status(400).json({ error: "User ID is required" });
-
-      if (pgPool) {
-        const result = await pgPool.query(
-          `INSERT INTO user_profiles (
-              id, name, age, bio, interests, photos, location,
-              compatibility_checks_this_week, radar_scans_this_week, last_reset_timestamp,
-              is_visible_on_radar, created_at, updated_at
-            ) VALUES (
-              $1, COALESCE($2, ''), COALESCE($3, 0), COALESCE($4, ''),
-              COALESCE($5::jsonb, '[]'::jsonb), COALESCE($6::jsonb, '[]'::jsonb), COALESCE($7, ''),
-              0, 0, NOW(), true, NOW(), NOW()
-            )
-            ON CONFLICT (id) DO UPDATE SET
-              name = COALESCE(EXCLUDED.name, user_profiles.name),
-              age = COALESCE(EXCLUDED.age, user_profiles.age),
-              bio = COALESCE(EXCLUDED.bio, user_profiles.bio),
-              interests = COALESCE(EXCLUDED.interests, user_profiles.interests),
-              photos = COALESCE(EXCLUDED.photos, user_profiles.photos),
-              location = COALESCE(EXCLUDED.location, user_profiles.location),
-              updated_at = NOW()
-            RETURNING *`,
-          [
-            id,
-            name ?? null,
-            age ?? null,
-            bio ?? null,
-            interests ? JSON.stringify(interests) : null,
-            photos ? JSON.stringify(photos) : null,
-            location ?? null,
-          ]
-        );
-
-        const normalizedIntent = normalizeIntentMode(intentMode);
-        await pgPool.query(
-          `INSERT INTO explorex_intents (user_id, mode, updated_at)
-           VALUES ($1, $2, NOW())
-           ON CONFLICT (user_id) DO UPDATE SET mode = EXCLUDED.mode, updated_at = NOW()`,
-          [id, normalizedIntent]
-        );
-
-        if (activePlan && typeof activePlan.title === "string" && activePlan.title.trim().length > 0) {
-          await pgPool.query(`UPDATE explorex_plan_cards SET is_active = FALSE, updated_at = NOW() WHERE user_id = $1`, [id]);
-          await pgPool.query(
-            `INSERT INTO explorex_plan_cards (user_id, title, city, starts_at, expires_at, is_active, updated_at)
-             VALUES ($1, $2, $3, $4, $5, TRUE, NOW())`,
-            [
-              id,
-              String(activePlan.title).trim(),
-              activePlan.city ? String(activePlan.city).trim() : null,
-              activePlan.startsAt ? new Date(activePlan.startsAt) : null,
-              activePlan.expiresAt ? new Date(activePlan.expiresAt) : null,
-            ]
-          );
-        }
-
-        const meta = await loadExploreXMetaForUsers([id]);
-        const enriched = addExploreXProfileFields(result.rows[0], meta);
-        return res.json(enriched);
-      }
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      const userId = String(req.body?.userId || "");
+      const meetupId = String(req.params.meetupId);
 
-      const sb = getSupabase();
-      const { data: existing, error: selectError } = await sb
-        .from('user_profiles')
-        .select('id')
-        .eq('id', id);
-      if (selectError) throw selectError;
+      const hasDeadline = req.body?.expectedEndAt != null || req.body?.durationMinutes != null;
+      const deadline = hasDeadline ? resolveCheckInDeadline(req.body) : null;
+      if (deadline && !(deadline instanceof Date)) return res.status(400).json({ error: deadline.error });
 
-      if (existing && existing.length > 0) {
-        const updateData: any = { updated_at: new Date().toISOString() };
-        if (name !== undefined) updateData.name = name;
-        if (age !== undefined) updateData.age = age;
-        if (bio !== undefined) updateData.bio = bio;
-        if (interests !== undefined) updateData.interests = interests;
-        if (photos !== undefined) updateData.photos = photos;
-        if (location !== undefined) updateData.location = location;
+      const lat = Number(req.body?.location?.latitude);
+      const lng = Number(req.body?.location?.longitude);
+      const hasLocation = Number.isFinite(lat) && Number.isFinite(lng);
 
-        const { error: updateError } = await sb
-          .from('user_profiles')
-          .update(updateData)
-          .eq('id', id);
-        if (updateError) throw updateError;
-      } else {
-        const now = Date.now();
-        const { error: insertError } = await sb
-          .from('user_profiles')
-          .insert({
-            id,
-            name: name || '',
-            age: age || 0,
-            bio: bio || '',
-            interests: interests || [],
-            photos: photos || [],
-            location: location || '',
-            compatibility_checks_this_week: 0,
-            radar_scans_this_week: 0,
-            last_reset_timestamp: now,
-            is_visible_on_radar: true,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          });
-        if (insertError) throw insertError;
+      const result = await pgPool.query(
+        `UPDATE meetup_checkins
+         SET expected_end_at = COALESCE($3, expected_end_at),
+             last_lat = COALESCE($4, last_lat),
+             last_lng = COALESCE($5, last_lng),
+             updated_at = NOW()
+         WHERE meetup_id = $1 AND user_id = $2 AND status = 'active'
+         RETURNING *`,
+        [meetupId, userId, deadline, hasLocation ? lat : null, hasLocation ? lng : null]
+      );
+      if (!result.rowCount) {
+        return res.status(404).json({ error: "No active check-in for this meetup" });
       }
 
-      const { data: row, error: getError } = await sb
-        .from('user_profiles')
-        .select('*')
-        .eq('id', id)
-        .single();
-      if (getError) throw getError;
-      res.json({ ...row, intent_mode: normalizeIntentMode(intentMode), active_plan: activePlan || null });
+      return res.json({ checkIn: mapCheckInRow(result.rows[0]) });
     } catch (error) {
-      console.error("Upsert profile error:", error);
-      res.status(500).json({ error: "Failed to upsert profile" });
+      console.error("Update check-in error:", error);
+      return res.status(500).json({ error: "Failed to update check-in" });
     }
   });
 
-  app.get("/api/user-profiles/:userId", async (req: Request, res: Response) => {
+  app.post("/api/explorex/meetups/:meetupId/check-in/safe", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
     try {
-      if (pgPool) {
-        const result = await pgPool.query(
-          "SELECT * FROM user_profiles WHERE id = $1 LIMIT 1",
-          [req.params.userId]
-        );
-        if (!result.rowCount) {
-          return res.status(404).json({ error: "Profile not found" });
-        }
-        const row = result.rows[0];
-        const meta = await loadExploreXMetaForUsers([String(req.params.userId)]);
-        return res.json(addExploreXProfileFields(row, meta));
-      }
+      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+      const userId = String(req.body?.userId || "");
+      const meetupId = String(req.params.meetupId);
 
-      const sb = getSupabase();
-      const { data, error } = await sb
-        .from('user_profiles')
-        .select('*')
-        .eq('id', req.params.userId)
-        .single();
-      if (error) {
-        if (error.code === 'PGRST116') {
-          return res.status(404).json({ error: "Profile not found" });
-        }
-        throw error;
-      }
-      res.json({
-        ...data,
-        intent_mode: "explore_city",
-        active_plan: null,
-        meetup_count: 0,
-        trust_score: computeTrustScore({
-          isTravelVerified: data?.is_travel_verified,
-          photos: data?.photos,
-          interests: data?.interests,
-          bio: data?.bio,
-          meetupCount: 0,
-        }),
-      });
+      const result = await pgPool.query(
+        `UPDATE meetup_checkins
+         SET status = 'safe', confirmed_at = NOW(), updated_at = NOW()
+         WHERE meetup_id = $1 AND user_id = $2 AND status IN ('active', 'escalated')
+         RETURNING *`,
+        [meetupId, userId]
+      );
+      if (!result.rowCount) {
+        return res.status(404).json({ error: "No open check-in for this meetup" });
+      }
+
+      // Confirming after an escalation closes the incident that was raised for it
+      const checkIn = result.rows[0];
+      if (checkIn.incident_id) {
+        try {
+          const incident = await loadSosIncident(String(checkIn.incident_id));
+          if (incident && SOS_TRANSITIONS[mapSosIncidentRow(incident).status].includes("resolved")) {
+            await transitionSosIncident(incident, userId, "resolved", `Confirmed safe via meetup check-in at ${new Date().toISOString()}`);
+          }
+        } catch (resolveError) {
+          console.error("Resolve check-in incident error:", resolveError);
+        }
+      }
+
+      return res.json({ checkIn: mapCheckInRow(checkIn) });
     } catch (error) {
-      console.error("Get profile error:", error);
-      res.status(500).json({ error: "Failed to get profile" });
+      console.error("Confirm check-in error:", error);
+      return res.status(500).json({ error: "Failed to confirm check-in" });
     }
   });
 
-  // ==================== EXPLOREX CORE FEATURES ====================
-
-  app.post("/api/explorex/intent/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+  app.post("/api/explorex/journey/log", async (req: Request, res: Response) => {
     try {
       if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
-      const userId = req.params.userId;
-      const mode = normalizeIntentMode(req.body?.mode);
+      const { userAId, userBId, title, summary, city, metAt } = req.body || {};
+      if (!userAId || !userBId || !summary) {
+        return res.status(400).json({ error: "userAId, userBId and summary are required" });
+      }
+
+      const result = await pgPool.query(
+        `INSERT INTO explorex_journey_entries (user_a_id, user_b_id, title, summary, city, met_at)
+         VALUES ($1,$2,$3,$4,$5,$6)
+         RETURNING id, user_a_id, user_b_id, title, summary, city, met_at, created_at`,
+        [userAId, userBId, title || null, summary, city || null, metAt ? new Date(metAt) : new Date()]
+      );
+
       await pgPool.query(
-        `INSERT INTO explorex_intents (user_id, mode, updated_at)
-         VALUES ($1, $2, NOW())
-         ON CONFLICT (user_id) DO UPDATE SET mode = EXCLUDED.mode, updated_at = NOW()`,
-        [userId, mode]
+        `UPDATE explorex_meetups
+         SET status='completed', completed_at = NOW()
+         WHERE (user_a_id = $1 AND user_b_id = $2) OR (user_a_id = $2 AND user_b_id = $1)`,
+        [userAId, userBId]
       );
-      return res.json({ success: true, userId, mode });
+
+      return res.json(result.rows[0]);
     } catch (error) {
-      console.error("Set intent error:", error);
-      return res.status(500).json({ error: "Failed to set intent" });
+      console.error("Journey log error:", error);
+      return res.status(500).json({ error: "Failed to log journey" });
     }
   });
 
-  app.get("/api/explorex/intent/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+  app.get("/api/explorex/journey/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
-      if (!pgPool) return res.json({ mode: "explore_city" });
+      if (!pgPool) return res.json([]);
       const userId = req.params.userId;
-      const result = await pgPool.query(
-        `SELECT mode, updated_at FROM explorex_intents WHERE user_id = $1 LIMIT 1`,
+      const rows = await pgPool.query(
+        `SELECT id, user_a_id, user_b_id, title, summary, city, met_at, created_at
+         FROM explorex_journey_entries
+         WHERE user_a_id = $1 OR user_b_id = $1
+         ORDER BY created_at DESC
+         LIMIT 50`,
         [userId]
       );
-      if (!result.rowCount) return res.json({ mode: "explore_city" });
-      return res.json({ mode: normalizeIntentMode(result.rows[0].mode), updatedAt: result.rows[0].updated_at });
+      return res.json(rows.rows);
     } catch (error) {
-      console.error("Get intent error:", error);
-      return res.json({ mode: "explore_city" });
+      console.error("Journey list error:", error);
+      return res.json([]);
     }
   });
 
-  app.get("/api/explorex/plans/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+  app.get("/api/explorex/serendipity/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
-      if (!pgPool) return res.json([]);
       const userId = req.params.userId;
-      const result = await pgPool.query(
-        `SELECT id, title, city, starts_at, expires_at, is_active, created_at, updated_at
-         FROM explorex_plan_cards
-         WHERE user_id = $1
-         ORDER BY is_active DESC, updated_at DESC
-         LIMIT 20`,
-        [userId]
-      );
-      return res.json(result.rows.map((row) => ({
-        id: row.id,
-        title: row.title,
-        city: row.city || undefined,
-        startsAt: row.starts_at || undefined,
-        expiresAt: row.expires_at || undefined,
-        isActive: row.is_active,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-      })));
+      if (!userId) return res.status(400).json({ error: "User ID is required" });
+      const today = getDayKey();
+      const blockedIds = await loadBlockedUserIds(String(userId));
+
+      if (pgPool) {
+        const existing = await pgPool.query(
+          `SELECT target_user_id FROM explorex_daily_serendipity WHERE user_id = $1 AND day_key = $2 LIMIT 1`,
+          [userId, today]
+        );
+
+        // A pick made before either side blocked the other, or that the target's radar rules now hide, is re-rolled
+        const cachedId = existing.rowCount ? String(existing.rows[0].target_user_id) : "";
+        if (cachedId && !blockedIds.has(cachedId) && !(await loadRadarHiddenUserIds(String(userId), [cachedId])).has(cachedId)) {
+          return res.json({ success: true, targetUserId: existing.rows[0].target_user_id, cached: true });
+        }
+      }
+
+      const sb = getSupabase();
+      const { data: profiles } = await sb
+        .from('user_profiles')
+        .select('id')
+        .neq('id', userId)
+        .limit(50);
+
+      const unblocked = (profiles || []).filter((p: any) => !blockedIds.has(String(p.id)));
+      const hiddenIds = await loadRadarHiddenUserIds(String(userId), unblocked.map((p: any) => String(p.id)));
+      const candidates = unblocked.filter((p: any) => !hiddenIds.has(String(p.id)));
+      const target = candidates[Math.floor(Math.random() * Math.max(1, candidates.length))];
+      if (!target?.id) {
+        return res.json({ success: false, error: "No candidate found" });
+      }
+
+      if (pgPool) {
+        await pgPool.query(
+          `INSERT INTO explorex_daily_serendipity (user_id, day_key, target_user_id)
+           VALUES ($1,$2,$3)
+           ON CONFLICT (user_id, day_key) DO UPDATE SET target_user_id = EXCLUDED.target_user_id`,
+          [userId, today, target.id]
+        );
+      }
+
+      return res.json({ success: true, targetUserId: target.id, cached: false });
     } catch (error) {
-      console.error("Get plans error:", error);
-      return res.json([]);
+      console.error("Serendipity error:", error);
+      return res.status(500).json({ error: "Failed to fetch serendipity" });
+    }
+  });
+
+  app.get("/api/explorex/city-capsule/:city", async (req: Request, res: Response) => {
+    try {
+      const city = String(req.params.city || "").trim();
+      if (!city) return res.status(400).json({ error: "City is required" });
+      const sb = getSupabase();
+
+      const { data: peopleRows } = await sb
+        .from('user_profiles')
+        .select('id, name, is_travel_verified, location')
+        .ilike('location', `%${city}%`)
+        .limit(100);
+
+      const nowIso = new Date().toISOString();
+      const { data: activityRows } = await sb
+        .from('activities')
+        .select('id, title, date, location, category')
+        .ilike('location', `%${city}%`)
+        .gte('date', nowIso)
+        .order('date', { ascending: true })
+        .limit(20);
+
+      return res.json({
+        city,
+        activeExplorers: (peopleRows || []).length,
+        verifiedExplorers: (peopleRows || []).filter((p: any) => p.is_travel_verified).length,
+        upcomingActivities: activityRows || [],
+        trendingIntents: ["explore_city", "coffee_now", "adventure_partner"],
+      });
+    } catch (error) {
+      console.error("City capsule error:", error);
+      return res.status(500).json({ error: "Failed to fetch city capsule" });
     }
   });
 
-  app.post("/api/explorex/plans/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
-    try {
-      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
-      const userId = req.params.userId;
-      const title = String(req.body?.title || "").trim();
-      const city = String(req.body?.city || "").trim() || null;
-      const startsAt = req.body?.startsAt ? new Date(req.body.startsAt) : null;
-      const expiresAt = req.body?.expiresAt ? new Date(req.body.expiresAt) : null;
-      const activate = req.body?.isActive !== false;
 
-      if (!title) return res.status(400).json({ error: "Plan title is required" });
 
-      if (activate) {
-        await pgPool.query(`UPDATE explorex_plan_cards SET is_active = FALSE, updated_at = NOW() WHERE user_id = $1`, [userId]);
-      }
+  // ==================== COMPATIBILITY ANALYZER ====================
+
+  const COMPATIBILITY_LIMITS: Record<string, number> = {
+    starter: -1,
+    free: -1,
+    explorer: -1,
+    pro: -1,
+    adventurer: -1,
+    expert: -1,
+    lifetime: -1,
+  };
+
+  function shouldResetDaily(lastResetTimestamp: number): boolean {
+    const now = Date.now();
+    const oneDay = 24 * 60 * 60 * 1000;
+    return now - lastResetTimestamp > oneDay;
+  }
+
+  app.post("/api/compatibility/check", async (req: Request, res: Response) => {
+    try {
+      const { userAId, userBId, userAProfile, userBProfile, tier } = req.body;
+      if (!userAId || !userBId) return res.status(400).json({ error: "Both user IDs are required" });
+
+      if (pgPool) {
+        const profileRes = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [userAId]);
+        let profile = profileRes.rows[0];
+
+        if (!profile) {
+          const now = Date.now();
+          await pgPool.query(
+            `INSERT INTO user_profiles (
+              id, name, age, bio, interests, photos, location,
+              compatibility_checks_this_week, radar_scans_this_week, last_reset_timestamp,
+              is_visible_on_radar, created_at, updated_at
+            ) VALUES (
+              $1, $2, $3, $4, $5::jsonb, $6::jsonb, $7,
+              0, 0, $8, TRUE, NOW(), NOW()
+            )`,
+            [
+              userAId,
+              userAProfile?.name || '',
+              userAProfile?.age || 0,
+              userAProfile?.bio || '',
+              JSON.stringify(userAProfile?.interests || []),
+              JSON.stringify(userAProfile?.photos || []),
+              userAProfile?.location || '',
+              now,
+            ]
+          );
+          const fresh = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [userAId]);
+          profile = fresh.rows[0];
+        }
+
+        if (!profile) {
+          return res.status(500).json({ error: "Failed to get or create profile" });
+        }
+
+        if (shouldResetDaily(Number(profile.last_reset_timestamp) || 0)) {
+          await pgPool.query(
+            `UPDATE user_profiles
+             SET compatibility_checks_this_week = 0,
+                 radar_scans_this_week = 0,
+                 last_reset_timestamp = $2,
+                 updated_at = NOW()
+             WHERE id = $1`,
+            [userAId, Date.now()]
+          );
+          profile.compatibility_checks_this_week = 0;
+        }
+
+        const currentTier = tier || "starter";
+        const limit = COMPATIBILITY_LIMITS[currentTier] ?? 2;
+        if (limit !== -1 && (profile.compatibility_checks_this_week || 0) >= limit) {
+          return res.status(403).json({
+            error: "Daily compatibility check limit reached",
+            limit,
+            used: profile.compatibility_checks_this_week,
+            tier: currentTier,
+            requiresUpgrade: true,
+          });
+        }
+
+        const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+        const existingRes = await pgPool.query(
+          `SELECT * FROM compatibility_history
+           WHERE ((user_a = $1 AND user_b = $2) OR (user_a = $2 AND user_b = $1))
+             AND created_at >= $3
+           ORDER BY created_at DESC
+           LIMIT 1`,
+          [userAId, userBId, oneDayAgo]
+        );
+
+        if (Number(existingRes.rowCount || 0) > 0) {
+          return res.json({ result: existingRes.rows[0], cached: true });
+        }
+
+        const profileA = userAProfile || { name: "User A", interests: [], bio: "" };
+        const profileB = userBProfile || { name: "User B", interests: [], bio: "" };
+
+        const compatPrompt = `You are a compatibility analyzer for a travel/nomad dating app. Analyze these two profiles and return ONLY valid JSON (no markdown, no explanation).
+
+Profile A: Name: ${profileA.name}, Age: ${profileA.age || "unknown"}, Bio: "${profileA.bio || "No bio"}", Interests: ${JSON.stringify(profileA.interests || [])}, Location: "${profileA.location || "unknown"}"
+
+Profile B: Name: ${profileB.name}, Age: ${profileB.age || "unknown"}, Bio: "${profileB.bio || "No bio"}", Interests: ${JSON.stringify(profileB.interests || [])}, Location: "${profileB.location || "unknown"}"
+
+Return ONLY this JSON structure:
+{"score":75,"strengths":["shared interest 1","shared interest 2"],"conflicts":["potential conflict 1"],"icebreakers":["conversation starter 1","conversation starter 2"],"first_message":"Hey! I noticed we both...","date_idea":"A cool activity idea based on shared interests"}`;
 
-      const result = await pgPool.query(
-        `INSERT INTO explorex_plan_cards (user_id, title, city, starts_at, expires_at, is_active, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, NOW())
-         RETURNING id, title, city, starts_at, expires_at, is_active, created_at, updated_at`,
-        [userId, title, city, startsAt, expiresAt, activate]
-      );
+        const aiReply = await callGroqChat([
+          { role: "system", content: "You are a compatibility analyzer. Return ONLY valid JSON. No markdown code blocks." },
+          { role: "user", content: compatPrompt },
+        ]);
 
-      return res.json({
-        id: result.rows[0].id,
-        title: result.rows[0].title,
-        city: result.rows[0].city || undefined,
-        startsAt: result.rows[0].starts_at || undefined,
-        expiresAt: result.rows[0].expires_at || undefined,
-        isActive: result.rows[0].is_active,
-        createdAt: result.rows[0].created_at,
-      });
-    } catch (error) {
-      console.error("Create plan error:", error);
-      return res.status(500).json({ error: "Failed to create plan" });
-    }
-  });
+        let compatResult: any;
+        try {
+          const cleaned = aiReply.replace(/```json\s*/g, "").replace(/```\s*/g, "").trim();
+          compatResult = JSON.parse(cleaned);
+        } catch {
+          compatResult = {
+            score: 65,
+            strengths: ["Both enjoy travel and adventure"],
+            conflicts: ["May have different travel paces"],
+            icebreakers: ["What's your favorite travel destination?"],
+            first_message: "Hey! Looks like we're both on the road!",
+            date_idea: "Explore a new hiking trail together",
+          };
+        }
 
-  app.post("/api/explorex/plans/:userId/:planId/activate", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
-    try {
-      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
-      const { userId, planId } = req.params;
-      await pgPool.query(`UPDATE explorex_plan_cards SET is_active = FALSE, updated_at = NOW() WHERE user_id = $1`, [userId]);
-      await pgPool.query(`UPDATE explorex_plan_cards SET is_active = TRUE, updated_at = NOW() WHERE user_id = $1 AND id = $2`, [userId, planId]);
-      return res.json({ success: true });
-    } catch (error) {
-      console.error("Activate plan error:", error);
-      return res.status(500).json({ error: "Failed to activate plan" });
-    }
-  });
+        const compatId = `compat_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+        const nowIso = new Date().toISOString();
 
-  app.delete("/api/explorex/plans/:userId/:planId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
-    try {
-      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
-      const { userId, planId } = req.params;
-      await pgPool.query(`DELETE FROM explorex_plan_cards WHERE user_id = $1 AND id = $2`, [userId, planId]);
-      return res.json({ success: true });
-    } catch (error) {
-      console.error("Delete plan error:", error);
-      return res.status(500).json({ error: "Failed to delete plan" });
-    }
-  });
+        await pgPool.query(
+          `INSERT INTO compatibility_history (
+             id, user_a, user_b, score, strengths, conflicts, icebreakers, first_message, date_idea, created_at
+           ) VALUES ($1,$2,$3,$4,$5::jsonb,$6::jsonb,$7::jsonb,$8,$9,$10)`,
+          [
+            compatId,
+            userAId,
+            userBId,
+            compatResult.score,
+            JSON.stringify(compatResult.strengths || []),
+            JSON.stringify(compatResult.conflicts || []),
+            JSON.stringify(compatResult.icebreakers || []),
+            compatResult.first_message || null,
+            compatResult.date_idea || null,
+            nowIso,
+          ]
+        );
 
-  app.post("/api/explorex/chat-starters", async (req: Request, res: Response) => {
-    try {
-      const intent = normalizeIntentMode(req.body?.intentMode);
-      const city = String(req.body?.city || "").trim();
-      const local = INTENT_CHAT_PROMPTS[intent] || INTENT_CHAT_PROMPTS.explore_city;
-      const starters = city ? local.map((v) => `${v} (${city})`) : local;
-      return res.json({ starters: starters.slice(0, 3) });
-    } catch {
-      return res.json({ starters: INTENT_CHAT_PROMPTS.explore_city });
-    }
-  });
+        await pgPool.query(
+          `UPDATE user_profiles
+           SET compatibility_checks_this_week = COALESCE(compatibility_checks_this_week, 0) + 1,
+               updated_at = NOW()
+           WHERE id = $1`,
+          [userAId]
+        );
 
-  app.post("/api/explorex/meet-now/suggest", async (req: Request, res: Response) => {
-    try {
-      const { userId, targetUserId } = req.body || {};
-      if (!userId || !targetUserId) {
-        return res.status(400).json({ error: "userId and targetUserId are required" });
+        return res.json({
+          result: {
+            id: compatId,
+            user_a: userAId,
+            user_b: userBId,
+            ...compatResult,
+            created_at: nowIso,
+          },
+          cached: false,
+        });
       }
 
       const sb = getSupabase();
-      const { data: locRows } = await sb
-        .from('user_locations')
-        .select('user_id, lat, lng')
-        .in('user_id', [userId, targetUserId]);
 
-      let midpointLat: number | null = null;
-      let midpointLng: number | null = null;
+      // Ensure user A profile exists
+      const { data: profileData, error: profileError } = await sb
+        .from('user_profiles')
+        .select('*')
+        .eq('id', userAId)
+        .single();
 
-      if (locRows && locRows.length === 2) {
-        const a = locRows.find((row: any) => row.user_id === userId);
-        const b = locRows.find((row: any) => row.user_id === targetUserId);
-        if (a && b) {
-          midpointLat = (Number(a.lat) + Number(b.lat)) / 2;
-          midpointLng = (Number(a.lng) + Number(b.lng)) / 2;
-        }
+      let profile = profileData;
+
+      if (profileError || !profile) {
+        const now = Date.now();
+        await sb
+          .from('user_profiles')
+          .insert({
+            id: userAId,
+            name: userAProfile?.name || '',
+            age: userAProfile?.age || 0,
+            bio: userAProfile?.bio || '',
+            interests: userAProfile?.interests || [],
+            photos: userAProfile?.photos || [],
+            location: userAProfile?.location || '',
+            compatibility_checks_this_week: 0,
+            radar_scans_this_week: 0,
+            last_reset_timestamp: now,
+            is_visible_on_radar: true,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          });
+        const { data: newProfile } = await sb
+          .from('user_profiles')
+          .select('*')
+          .eq('id', userAId)
+          .single();
+        profile = newProfile;
       }
 
-      const venueName = "Public cafe near midpoint";
-      const venueAddress = midpointLat && midpointLng
-        ? `${midpointLat.toFixed(4)}, ${midpointLng.toFixed(4)}`
-        : "Choose a public place between both of you";
+      if (!profile) {
+        return res.status(500).json({ error: "Failed to get or create profile" });
+      }
 
-      let meetupId: string | null = null;
-      if (pgPool) {
-        const created = await pgPool.query(
-          `INSERT INTO explorex_meetups (
-              user_a_id, user_b_id, venue_name, venue_address,
-              midpoint_lat, midpoint_lng, status, scheduled_at
-           ) VALUES ($1,$2,$3,$4,$5,$6,'planned', NOW())
-           RETURNING id`,
-          [userId, targetUserId, venueName, venueAddress, midpointLat, midpointLng]
-        );
-        meetupId = created.rows[0]?.id || null;
+      // Check daily reset
+      if (shouldResetDaily(Number(profile.last_reset_timestamp) || 0)) {
+        await sb
+          .from('user_profiles')
+          .update({
+            compatibility_checks_this_week: 0,
+            radar_scans_this_week: 0,
+            last_reset_timestamp: Date.now(),
+          })
+          .eq('id', userAId);
+        profile.compatibility_checks_this_week = 0;
       }
 
-      return res.json({
-        success: true,
-        meetupId,
-        venueName,
-        venueAddress,
-        midpointLat,
-        midpointLng,
-        safetyTips: [
-          "Meet in a public place",
-          "Share your live location with a trusted contact",
-          "Use in-app check-in before and after meetup",
-        ],
-      });
-    } catch (error) {
-      console.error("Meet-now suggestion error:", error);
-      return res.status(500).json({ error: "Failed to suggest meetup" });
-    }
-  });
+      // Enforce daily limit
+      const currentTier = tier || "starter";
+      const limit = COMPATIBILITY_LIMITS[currentTier] ?? 2;
+      if (limit !== -1 && (profile.compatibility_checks_this_week || 0) >= limit) {
+        return res.status(403).json({
+          error: "Daily compatibility check limit reached",
+          limit,
+          used: profile.compatibility_checks_this_week,
+          tier: currentTier,
+          requiresUpgrade: true,
+        });
+      }
 
-  app.post("/api/explorex/journey/log", async (req: Request, res: Response) => {
-    try {
-      if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
-      const { userAId, userBId, title, summary, city, metAt } = req.body || {};
-      if (!userAId || !userBId || !summary) {
-        return res.status(400).json({ error: "userAId, userBId and summary are required" });
+      // Check for existing recent compatibility
+      const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      const { data: existingAB } = await sb
+        .from('compatibility_history')
+        .select('*')
+        .eq('user_a', userAId)
+        .eq('user_b', userBId)
+        .gte('created_at', oneDayAgo)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      const { data: existingBA } = await sb
+        .from('compatibility_history')
+        .select('*')
+        .eq('user_a', userBId)
+        .eq('user_b', userAId)
+        .gte('created_at', oneDayAgo)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      const existingRow = (existingAB && existingAB.length > 0) ? existingAB[0] :
+                          (existingBA && existingBA.length > 0) ? existingBA[0] : null;
+
+      if (existingRow) {
+        return res.json({ result: existingRow, cached: true });
       }
 
-      const result = await pgPool.query(
-        `INSERT INTO explorex_journey_entries (user_a_id, user_b_id, title, summary, city, met_at)
-         VALUES ($1,$2,$3,$4,$5,$6)
-         RETURNING id, user_a_id, user_b_id, title, summary, city, met_at, created_at`,
-        [userAId, userBId, title || null, summary, city || null, metAt ? new Date(metAt) : new Date()]
-      );
+      // Build AI prompt
+      const profileA = userAProfile || { name: "User A", interests: [], bio: "" };
+      const profileB = userBProfile || { name: "User B", interests: [], bio: "" };
 
-      await pgPool.query(
-        `UPDATE explorex_meetups
-         SET status='completed', completed_at = NOW()
-         WHERE (user_a_id = $1 AND user_b_id = $2) OR (user_a_id = $2 AND user_b_id = $1)`,
-        [userAId, userBId]
-      );
+      const compatPrompt = `You are a compatibility analyzer for a travel/nomad dating app. Analyze these two profiles and return ONLY valid JSON (no markdown, no explanation).
 
-      return res.json(result.rows[0]);
-    } catch (error) {
-      console.error("Journey log error:", error);
-      return res.status(500).json({ error: "Failed to log journey" });
-    }
-  });
+Profile A: Name: ${profileA.name}, Age: ${profileA.age || "unknown"}, Bio: "${profileA.bio || "No bio"}", Interests: ${JSON.stringify(profileA.interests || [])}, Location: "${profileA.location || "unknown"}"
 
-  app.get("/api/explorex/journey/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
-    try {
-      if (!pgPool) return res.json([]);
-      const userId = req.params.userId;
-      const rows = await pgPool.query(
-        `SELECT id, user_a_id, user_b_id, title, summary, city, met_at, created_at
-         FROM explorex_journey_entries
-         WHERE user_a_id = $1 OR user_b_id = $1
-         ORDER BY created_at DESC
-         LIMIT 50`,
-        [userId]
-      );
-      return res.json(rows.rows);
-    } catch (error) {
-      console.error("Journey list error:", error);
-      return res.json([]);
-    }
-  });
+Profile B: Name: ${profileB.name}, Age: ${profileB.age || "unknown"}, Bio: "${profileB.bio || "No bio"}", Interests: ${JSON.stringify(profileB.interests || [])}, Location: "${profileB.location || "unknown"}"
 
-  app.get("/api/explorex/serendipity/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
-    try {
-      const userId = req.params.userId;
-      if (!userId) return res.status(400).json({ error: "User ID is required" });
-      const today = getDayKey();
+Return ONLY this JSON structure:
+{"score":75,"strengths":["shared interest 1","shared interest 2"],"conflicts":["potential conflict 1"],"icebreakers":["conversation starter 1","conversation starter 2"],"first_message":"Hey! I noticed we both...","date_idea":"A cool activity idea based on shared interests"}`;
 
-      if (pgPool) {
-        const existing = await pgPool.query(
-          `SELECT target_user_id FROM explorex_daily_serendipity WHERE user_id = $1 AND day_key = $2 LIMIT 1`,
-          [userId, today]
-        );
+      const aiReply = await callGroqChat([
+        { role: "system", content: "You are a compatibility analyzer. Return ONLY valid JSON. No markdown code blocks." },
+        { role: "user", content: compatPrompt },
+      ]);
 
-        if (existing.rowCount) {
-          return res.json({ success: true, targetUserId: existing.rows[0].target_user_id, cached: true });
-        }
+      let compatResult;
+      try {
+        const cleaned = aiReply.replace(/```json\s*/g, "").replace(/```\s*/g, "").trim();
+        compatResult = JSON.parse(cleaned);
+      } catch {
+        compatResult = {
+          score: 65,
+          strengths: ["Both enjoy travel and adventure"],
+          conflicts: ["May have different travel paces"],
+          icebreakers: ["What's your favorite travel destination?"],
+          first_message: "Hey! Looks like we're both on the road!",
+          date_idea: "Explore a new hiking trail together",
+        };
       }
 
-      const sb = getSupabase();
-      const { data: profiles } = await sb
-        .from('user_profiles')
-        .select('id')
-        .neq('id', userId)
-        .limit(50);
-
-      const target = (profiles || [])[Math.floor(Math.random() * Math.max(1, (profiles || []).length))];
-      if (!target?.id) {
-        return res.json({ success: false, error: "No candidate found" });
-      }
+      // Save to database
+      const compatId = `compat_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      const nowIso = new Date().toISOString();
+      await sb
+        .from('compatibility_history')
+        .insert({
+          id: compatId,
+          user_a: userAId,
+          user_b: userBId,
+          score: compatResult.score,
+          strengths: compatResult.strengths,
+          conflicts: compatResult.conflicts,
+          icebreakers: compatResult.icebreakers,
+          first_message: compatResult.first_message,
+          date_idea: compatResult.date_idea,
+          created_at: nowIso,
+        });
 
-      if (pgPool) {
-        await pgPool.query(
-          `INSERT INTO explorex_daily_serendipity (user_id, day_key, target_user_id)
-           VALUES ($1,$2,$3)
-           ON CONFLICT (user_id, day_key) DO NOTHING`,
-          [userId, today, target.id]
-        );
-      }
+      // Increment usage counter
+      await sb
+        .from('user_profiles')
+        .update({
+          compatibility_checks_this_week: (profile.compatibility_checks_this_week || 0) + 1,
+        })
+        .eq('id', userAId);
 
-      return res.json({ success: true, targetUserId: target.id, cached: false });
+      res.json({
+        result: {
+          id: compatId,
+          user_a: userAId,
+          user_b: userBId,
+          ...compatResult,
+          created_at: nowIso,
+        },
+        cached: false,
+      });
     } catch (error) {
-      console.error("Serendipity error:", error);
-      return res.status(500).json({ error: "Failed to fetch serendipity" });
+      console.error("Compatibility check error:", error);
+      res.status(500).json({ error: "Failed to check compatibility" });
     }
   });
 
-  app.get("/api/explorex/city-capsule/:city", async (req: Request, res: Response) => {
+  app.get("/api/compatibility/history/:userId", async (req: Request, res: Response) => {
     try {
-      const city = String(req.params.city || "").trim();
-      if (!city) return res.status(400).json({ error: "City is required" });
-      const sb = getSupabase();
+      const userId = req.params.userId;
 
-      const { data: peopleRows } = await sb
-        .from('user_profiles')
-        .select('id, name, is_travel_verified, location')
-        .ilike('location', `%${city}%`)
-        .limit(100);
+      if (pgPool) {
+        const result = await pgPool.query(
+          `SELECT * FROM compatibility_history
+           WHERE user_a = $1 OR user_b = $1
+           ORDER BY created_at DESC
+           LIMIT 20`,
+          [userId]
+        );
+        return res.json(result.rows || []);
+      }
 
-      const nowIso = new Date().toISOString();
-      const { data: activityRows } = await sb
-        .from('activities')
-        .select('id, title, date, location, category')
-        .ilike('location', `%${city}%`)
-        .gte('date', nowIso)
-        .order('date', { ascending: true })
+      const sb = getSupabase();
+      const { data: dataA } = await sb
+        .from('compatibility_history')
+        .select('*')
+        .eq('user_a', userId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+      const { data: dataB } = await sb
+        .from('compatibility_history')
+        .select('*')
+        .eq('user_b', userId)
+        .order('created_at', { ascending: false })
         .limit(20);
 
-      return res.json({
-        city,
-        activeExplorers: (peopleRows || []).length,
-        verifiedExplorers: (peopleRows || []).filter((p: any) => p.is_travel_verified).length,
-        upcomingActivities: activityRows || [],
-        trendingIntents: ["explore_city", "coffee_now", "adventure_partner"],
-      });
+      const combined = [...(dataA || []), ...(dataB || [])]
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+        .slice(0, 20);
+      res.json(combined);
     } catch (error) {
-      console.error("City capsule error:", error);
-      return res.status(500).json({ error: "Failed to fetch city capsule" });
+      console.error("Get compatibility history error:", error);
+      res.json([]);
     }
   });
 
+  // ==================== SOCIAL DISCOVERY RADAR ====================
 
-
-  // ==================== COMPATIBILITY ANALYZER ====================
-
-  const COMPATIBILITY_LIMITS: Record<string, number> = {
-    starter: -1,
-    free: -1,
-    explorer: -1,
-    pro: -1,
+  const RADAR_LIMITS: Record<string, number> = {
+    starter: 2,
+    free: 2,
+    explorer: 15,
+    pro: 15,
     adventurer: -1,
     expert: -1,
     lifetime: -1,
   };
 
-  function shouldResetDaily(lastResetTimestamp: number): boolean {
-    const now = Date.now();
-    const oneDay = 24 * 60 * 60 * 1000;
-    return now - lastResetTimestamp > oneDay;
-  }
+  app.post("/api/radar/update-location", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    try {
+      const { userId, lat, lng } = req.body;
+      if (!userId || lat === undefined || lng === undefined) {
+        return res.status(400).json({ error: "userId, lat, and lng are required" });
+      }
 
-  app.post("/api/compatibility/check", async (req: Request, res: Response) => {
+      await saveUserLocation(String(userId), Number(lat), Number(lng), new Date().toISOString());
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Update location error:", error);
+      res.status(500).json({ error: "Failed to update location" });
+    }
+  });
+
+  app.post("/api/radar/scan", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
     try {
-      const { userAId, userBId, userAProfile, userBProfile, tier } = req.body;
-      if (!userAId || !userBId) return res.status(400).json({ error: "Both user IDs are required" });
+      const { userId, lat, lng, radiusKm, tier } = req.body;
+      if (!userId || lat === undefined || lng === undefined) {
+        return res.status(400).json({ error: "userId, lat, and lng are required" });
+      }
 
       if (pgPool) {
-        const profileRes = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [userAId]);
+        const profileRes = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [userId]);
         let profile = profileRes.rows[0];
 
         if (!profile) {
-          const now = Date.now();
+          const nowMs = Date.now();
           await pgPool.query(
             `INSERT INTO user_profiles (
-              id, name, age, bio, interests, photos, location,
-              compatibility_checks_this_week, radar_scans_this_week, last_reset_timestamp,
+              id, name, compatibility_checks_this_week, radar_scans_this_week, last_reset_timestamp,
               is_visible_on_radar, created_at, updated_at
-            ) VALUES (
-              $1, $2, $3, $4, $5::jsonb, $6::jsonb, $7,
-              0, 0, $8, TRUE, NOW(), NOW()
-            )`,
-            [
-              userAId,
-              userAProfile?.name || '',
-              userAProfile?.age || 0,
-              userAProfile?.bio || '',
-              JSON.stringify(userAProfile?.interests || []),
-              JSON.stringify(userAProfile?.photos || []),
-              userAProfile?.location || '',
-              now,
-            ]
+            ) VALUES ($1, '', 0, 0, $2, TRUE, NOW(), NOW())`,
+            [userId, nowMs]
           );
-          const fresh = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [userAId]);
+          const fresh = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [userId]);
           profile = fresh.rows[0];
         }
 
@@ -3164,133 +8817,140 @@ Base your estimates on current 2024-2025 market prices in the US. Be specific wi
                  last_reset_timestamp = $2,
                  updated_at = NOW()
              WHERE id = $1`,
-            [userAId, Date.now()]
+            [userId, Date.now()]
           );
-          profile.compatibility_checks_this_week = 0;
+          profile.radar_scans_this_week = 0;
         }
 
-        const currentTier = tier || "starter";
-        const limit = COMPATIBILITY_LIMITS[currentTier] ?? 2;
-        if (limit !== -1 && (profile.compatibility_checks_this_week || 0) >= limit) {
+        const currentTier = tier || "starter";
+        const limit = RADAR_LIMITS[currentTier] ?? 2;
+        if (limit !== -1 && (profile.radar_scans_this_week || 0) >= limit) {
           return res.status(403).json({
-            error: "Daily compatibility check limit reached",
+            error: "Daily radar scan limit reached",
             limit,
-            used: profile.compatibility_checks_this_week,
+            used: profile.radar_scans_this_week,
             tier: currentTier,
             requiresUpgrade: true,
           });
         }
 
-        const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-        const existingRes = await pgPool.query(
-          `SELECT * FROM compatibility_history
-           WHERE ((user_a = $1 AND user_b = $2) OR (user_a = $2 AND user_b = $1))
-             AND created_at >= $3
-           ORDER BY created_at DESC
-           LIMIT 1`,
-          [userAId, userBId, oneDayAgo]
-        );
-
-        if (Number(existingRes.rowCount || 0) > 0) {
-          return res.json({ result: existingRes.rows[0], cached: true });
-        }
-
-        const profileA = userAProfile || { name: "User A", interests: [], bio: "" };
-        const profileB = userBProfile || { name: "User B", interests: [], bio: "" };
-
-        const compatPrompt = `You are a compatibility analyzer for a travel/nomad dating app. Analyze these two profiles and return ONLY valid JSON (no markdown, no explanation).
-
-Profile A: Name: ${profileA.name}, Age: ${profileA.age || "unknown"}, Bio: "${profileA.bio || "No bio"}", Interests: ${JSON.stringify(profileA.interests || [])}, Location: "${profileA.location || "unknown"}"
+        await saveUserLocation(String(userId), Number(lat), Number(lng), new Date().toISOString());
 
-Profile B: Name: ${profileB.name}, Age: ${profileB.age || "unknown"}, Bio: "${profileB.bio || "No bio"}", Interests: ${JSON.stringify(profileB.interests || [])}, Location: "${profileB.location || "unknown"}"
+        const radius = Number(radiusKm) > 0 ? Number(radiusKm) : 75;
+        const center = { lat: Number(lat), lng: Number(lng) };
+        const recentLocationThreshold = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
 
-Return ONLY this JSON structure:
-{"score":75,"strengths":["shared interest 1","shared interest 2"],"conflicts":["potential conflict 1"],"icebreakers":["conversation starter 1","conversation starter 2"],"first_message":"Hey! I noticed we both...","date_idea":"A cool activity idea based on shared interests"}`;
+        // Users are matched on where they are shown, which can lie up to the fuzz margin from where they are,
+        // so the query widens by that margin and the real radius is applied after fuzzing
+        const userQuery = sqlParamBinder();
+        const userRadius = buildRadiusSql(
+          { lat: "lat", lng: "lng", geohash: "geohash" },
+          center,
+          radius + LOCATION_FUZZ_MARGIN_KM,
+          userQuery.next
+        );
+        const nearbyLocsRes = await pgPool.query(
+          `SELECT user_id, lat, lng, updated_at, ${userRadius.distance} AS distance_km
+           FROM user_locations
+           WHERE user_id <> ${userQuery.next(userId)}
+             AND updated_at >= ${userQuery.next(recentLocationThreshold)}
+             AND ${userRadius.clause}
+           ORDER BY distance_km ASC, updated_at DESC
+           LIMIT 200`,
+          userQuery.params
+        );
 
-        const aiReply = await callGroqChat([
-          { role: "system", content: "You are a compatibility analyzer. Return ONLY valid JSON. No markdown code blocks." },
-          { role: "user", content: compatPrompt },
-        ]);
+        const blockedIds = await loadBlockedUserIds(String(userId));
+        const nearbyLocs = (nearbyLocsRes.rows || []).filter((l: any) => !blockedIds.has(String(l.user_id)));
+        const nearbyUserIds = nearbyLocs.map((l: any) => String(l.user_id));
+        const hiddenIds = await loadRadarHiddenUserIds(String(userId), nearbyUserIds, radarRowLocations(nearbyLocs));
 
-        let compatResult: any;
-        try {
-          const cleaned = aiReply.replace(/```json\s*/g, "").replace(/```\s*/g, "").trim();
-          compatResult = JSON.parse(cleaned);
-        } catch {
-          compatResult = {
-            score: 65,
-            strengths: ["Both enjoy travel and adventure"],
-            conflicts: ["May have different travel paces"],
-            icebreakers: ["What's your favorite travel destination?"],
-            first_message: "Hey! Looks like we're both on the road!",
-            date_idea: "Explore a new hiking trail together",
-          };
+        let profilesMap: Record<string, any> = {};
+        if (nearbyUserIds.length > 0) {
+          const profilesRes = await pgPool.query(
+            `SELECT id, name, age, bio, interests, photos, location, is_visible_on_radar, location_precision
+             FROM user_profiles
+             WHERE id = ANY($1::text[])`,
+            [nearbyUserIds]
+          );
+          for (const p of profilesRes.rows) {
+            if (p.is_visible_on_radar === false || hiddenIds.has(String(p.id))) continue;
+            profilesMap[String(p.id)] = p;
+          }
         }
 
-        const compatId = `compat_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-        const nowIso = new Date().toISOString();
+        const nearbyUsers = nearbyLocs
+          .filter((loc: any) => profilesMap[String(loc.user_id)])
+          .map((row: any) => mapRadarUser(String(userId), center, row, profilesMap[String(row.user_id)]))
+          .filter((u) => u.distance <= radius)
+          .sort(compareRadarUsers)
+          .slice(0, 25);
 
-        await pgPool.query(
-          `INSERT INTO compatibility_history (
-             id, user_a, user_b, score, strengths, conflicts, icebreakers, first_message, date_idea, created_at
-           ) VALUES ($1,$2,$3,$4,$5::jsonb,$6::jsonb,$7::jsonb,$8,$9,$10)`,
-          [
-            compatId,
-            userAId,
-            userBId,
-            compatResult.score,
-            JSON.stringify(compatResult.strengths || []),
-            JSON.stringify(compatResult.conflicts || []),
-            JSON.stringify(compatResult.icebreakers || []),
-            compatResult.first_message || null,
-            compatResult.date_idea || null,
-            nowIso,
-          ]
+        const activityQuery = sqlParamBinder();
+        const activityRadius = buildRadiusSql(
+          { lat: ACTIVITY_LAT_SQL, lng: ACTIVITY_LNG_SQL, geohash: "geohash" },
+          center,
+          radius,
+          activityQuery.next
         );
+        const nearbyActivitiesRes = await pgPool.query(
+          `SELECT *, ${activityRadius.distance} AS distance_km
+           FROM activities
+           WHERE date >= ${activityQuery.next(new Date().toISOString())}
+             AND ${activityRadius.clause}
+           ORDER BY date ASC
+           LIMIT 10`,
+          activityQuery.params
+        );
+
+        const nearbyActivities = nearbyActivitiesRes.rows.map((act: any) => ({
+          id: act.id,
+          title: act.title,
+          description: act.description,
+          type: act.category || "other",
+          location: act.location,
+          date: act.date,
+          distance: Math.round(Number(act.distance_km) * 10) / 10,
+          attendeeCount: (act.attendee_ids || []).length,
+          maxAttendees: parseMaxAttendees(act.max_attendees),
+          imageUrl: act.image_url,
+          hostId: act.host_id,
+        }));
 
         await pgPool.query(
           `UPDATE user_profiles
-           SET compatibility_checks_this_week = COALESCE(compatibility_checks_this_week, 0) + 1,
+           SET radar_scans_this_week = COALESCE(radar_scans_this_week, 0) + 1,
                updated_at = NOW()
            WHERE id = $1`,
-          [userAId]
+          [userId]
         );
 
         return res.json({
-          result: {
-            id: compatId,
-            user_a: userAId,
-            user_b: userBId,
-            ...compatResult,
-            created_at: nowIso,
-          },
-          cached: false,
+          users: nearbyUsers,
+          activities: nearbyActivities,
+          scansUsed: (profile.radar_scans_this_week || 0) + 1,
+          scansLimit: limit,
         });
       }
 
       const sb = getSupabase();
 
-      // Ensure user A profile exists
-      const { data: profileData, error: profileError } = await sb
+      // Get/create user profile
+      const { data: profileData } = await sb
         .from('user_profiles')
         .select('*')
-        .eq('id', userAId)
+        .eq('id', userId)
         .single();
 
       let profile = profileData;
 
-      if (profileError || !profile) {
+      if (!profile) {
         const now = Date.now();
         await sb
           .from('user_profiles')
           .insert({
-            id: userAId,
-            name: userAProfile?.name || '',
-            age: userAProfile?.age || 0,
-            bio: userAProfile?.bio || '',
-            interests: userAProfile?.interests || [],
-            photos: userAProfile?.photos || [],
-            location: userAProfile?.location || '',
+            id: userId,
+            name: '',
             compatibility_checks_this_week: 0,
             radar_scans_this_week: 0,
             last_reset_timestamp: now,
@@ -3301,7 +8961,7 @@ Return ONLY this JSON structure:
         const { data: newProfile } = await sb
           .from('user_profiles')
           .select('*')
-          .eq('id', userAId)
+          .eq('id', userId)
           .single();
         profile = newProfile;
       }
@@ -3319,1207 +8979,1538 @@ Return ONLY this JSON structure:
             radar_scans_this_week: 0,
             last_reset_timestamp: Date.now(),
           })
-          .eq('id', userAId);
-        profile.compatibility_checks_this_week = 0;
+          .eq('id', userId);
+        profile.radar_scans_this_week = 0;
       }
 
-      // Enforce daily limit
+      // Enforce scan limit
       const currentTier = tier || "starter";
-      const limit = COMPATIBILITY_LIMITS[currentTier] ?? 2;
-      if (limit !== -1 && (profile.compatibility_checks_this_week || 0) >= limit) {
+      const limit = RADAR_LIMITS[currentTier] ?? 2;
+      if (limit !== -1 && (profile.radar_scans_this_week || 0) >= limit) {
         return res.status(403).json({
-          error: "Daily compatibility check limit reached",
+          error: "Daily radar scan limit reached",
           limit,
-          used: profile.compatibility_checks_this_week,
+          used: profile.radar_scans_this_week,
           tier: currentTier,
           requiresUpgrade: true,
         });
       }
 
-      // Check for existing recent compatibility
-      const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-      const { data: existingAB } = await sb
-        .from('compatibility_history')
-        .select('*')
-        .eq('user_a', userAId)
-        .eq('user_b', userBId)
-        .gte('created_at', oneDayAgo)
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      const { data: existingBA } = await sb
-        .from('compatibility_history')
-        .select('*')
-        .eq('user_a', userBId)
-        .eq('user_b', userAId)
-        .gte('created_at', oneDayAgo)
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      const existingRow = (existingAB && existingAB.length > 0) ? existingAB[0] :
-                          (existingBA && existingBA.length > 0) ? existingBA[0] : null;
-
-      if (existingRow) {
-        return res.json({ result: existingRow, cached: true });
-      }
-
-      // Build AI prompt
-      const profileA = userAProfile || { name: "User A", interests: [], bio: "" };
-      const profileB = userBProfile || { name: "User B", interests: [], bio: "" };
+      // Update own location
+      await saveUserLocation(String(userId), Number(lat), Number(lng), new Date().toISOString());
 
-      const compatPrompt = `You are a compatibility analyzer for a travel/nomad dating app. Analyze these two profiles and return ONLY valid JSON (no markdown, no explanation).
+      // Geohash cells narrow the rows in the database; the exact radius is checked below
+      const radius = Number(radiusKm) > 0 ? Number(radiusKm) : 75;
+      const center = { lat: Number(lat), lng: Number(lng) };
+      const cellFilter = geohashOrFilter(center, radius);
+      const userCellFilter = geohashOrFilter(center, radius + LOCATION_FUZZ_MARGIN_KM);
+      const recentLocationThreshold = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
 
-Profile A: Name: ${profileA.name}, Age: ${profileA.age || "unknown"}, Bio: "${profileA.bio || "No bio"}", Interests: ${JSON.stringify(profileA.interests || [])}, Location: "${profileA.location || "unknown"}"
+      let nearbyLocsQuery = sb
+        .from('user_locations')
+        .select('user_id, lat, lng, updated_at')
+        .neq('user_id', userId)
+        .gte('updated_at', recentLocationThreshold);
+      if (userCellFilter) nearbyLocsQuery = nearbyLocsQuery.or(userCellFilter);
+      const { data: nearbyLocs } = await nearbyLocsQuery
+        .order('updated_at', { ascending: false })
+        .limit(200);
 
-Profile B: Name: ${profileB.name}, Age: ${profileB.age || "unknown"}, Bio: "${profileB.bio || "No bio"}", Interests: ${JSON.stringify(profileB.interests || [])}, Location: "${profileB.location || "unknown"}"
+      const blockedIds = await loadBlockedUserIds(String(userId));
+      const nearbyUserIds = (nearbyLocs || []).map(l => l.user_id).filter((id) => !blockedIds.has(String(id)));
+      const hiddenIds = await loadRadarHiddenUserIds(String(userId), nearbyUserIds.map(String), radarRowLocations(nearbyLocs || []));
 
-Return ONLY this JSON structure:
-{"score":75,"strengths":["shared interest 1","shared interest 2"],"conflicts":["potential conflict 1"],"icebreakers":["conversation starter 1","conversation starter 2"],"first_message":"Hey! I noticed we both...","date_idea":"A cool activity idea based on shared interests"}`;
+      let profilesMap: Record<string, any> = {};
+      if (nearbyUserIds.length > 0) {
+        const { data: profiles } = await sb
+          .from('user_profiles')
+          .select('id, name, age, bio, interests, photos, location, is_visible_on_radar, location_precision')
+          .in('id', nearbyUserIds);
+        if (profiles) {
+          for (const p of profiles) {
+            if (p.is_visible_on_radar === false || hiddenIds.has(String(p.id))) continue;
+            profilesMap[p.id] = p;
+          }
+        }
+      }
 
-      const aiReply = await callGroqChat([
-        { role: "system", content: "You are a compatibility analyzer. Return ONLY valid JSON. No markdown code blocks." },
-        { role: "user", content: compatPrompt },
-      ]);
+      const nearbyUsers = (nearbyLocs || [])
+        .filter((loc) => profilesMap[loc.user_id] && Number.isFinite(Number(loc.lat)) && Number.isFinite(Number(loc.lng)))
+        .map((row: any) => mapRadarUser(String(userId), center, row, profilesMap[row.user_id]))
+        .filter((u) => u.distance <= radius)
+        .sort(compareRadarUsers)
+        .slice(0, 25);
 
-      let compatResult;
-      try {
-        const cleaned = aiReply.replace(/```json\s*/g, "").replace(/```\s*/g, "").trim();
-        compatResult = JSON.parse(cleaned);
-      } catch {
-        compatResult = {
-          score: 65,
-          strengths: ["Both enjoy travel and adventure"],
-          conflicts: ["May have different travel paces"],
-          icebreakers: ["What's your favorite travel destination?"],
-          first_message: "Hey! Looks like we're both on the road!",
-          date_idea: "Explore a new hiking trail together",
-        };
-      }
+      // Fetch nearby upcoming activities
+      const actNow = new Date().toISOString();
+      let activitiesQuery = sb
+        .from('activities')
+        .select('*')
+        .gte('date', actNow);
+      if (cellFilter) activitiesQuery = activitiesQuery.or(cellFilter);
+      const { data: allActivities } = await activitiesQuery
+        .order('date', { ascending: true })
+        .limit(50);
 
-      // Save to database
-      const compatId = `compat_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-      const nowIso = new Date().toISOString();
-      await sb
-        .from('compatibility_history')
-        .insert({
-          id: compatId,
-          user_a: userAId,
-          user_b: userBId,
-          score: compatResult.score,
-          strengths: compatResult.strengths,
-          conflicts: compatResult.conflicts,
-          icebreakers: compatResult.icebreakers,
-          first_message: compatResult.first_message,
-          date_idea: compatResult.date_idea,
-          created_at: nowIso,
-        });
+      const nearbyActivities = (allActivities || [])
+        .filter((act: any) => {
+          if (!act.latitude || !act.longitude) return false;
+          const aLat = parseFloat(act.latitude);
+          const aLng = parseFloat(act.longitude);
+          const dLat = ((aLat - lat) * Math.PI) / 180;
+          const dLng = ((aLng - lng) * Math.PI) / 180;
+          const a2 = Math.sin(dLat / 2) ** 2 + Math.cos((lat * Math.PI) / 180) * Math.cos((aLat * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
+          const dist = 6371 * 2 * Math.atan2(Math.sqrt(a2), Math.sqrt(1 - a2));
+          (act as any)._distance = Math.round(dist * 10) / 10;
+          return dist <= radius;
+        })
+        .slice(0, 10)
+        .map((act: any) => ({
+          id: act.id,
+          title: act.title,
+          description: act.description,
+          type: act.category || "other",
+          location: act.location,
+          date: act.date,
+          distance: act._distance,
+          attendeeCount: (act.attendee_ids || []).length,
+          maxAttendees: parseMaxAttendees(act.max_attendees),
+          imageUrl: act.image_url,
+          hostId: act.host_id,
+        }));
 
-      // Increment usage counter
+      // Increment scan count
       await sb
         .from('user_profiles')
         .update({
-          compatibility_checks_this_week: (profile.compatibility_checks_this_week || 0) + 1,
+          radar_scans_this_week: (profile.radar_scans_this_week || 0) + 1,
         })
-        .eq('id', userAId);
+        .eq('id', userId);
 
       res.json({
-        result: {
-          id: compatId,
-          user_a: userAId,
-          user_b: userBId,
-          ...compatResult,
-          created_at: nowIso,
-        },
-        cached: false,
+        users: nearbyUsers,
+        activities: nearbyActivities,
+        scansUsed: (profile.radar_scans_this_week || 0) + 1,
+        scansLimit: limit,
       });
     } catch (error) {
-      console.error("Compatibility check error:", error);
-      res.status(500).json({ error: "Failed to check compatibility" });
+      console.error("Radar scan error:", error);
+      res.status(500).json({ error: "Failed to scan nearby users" });
     }
   });
 
-  app.get("/api/compatibility/history/:userId", async (req: Request, res: Response) => {
+  app.post("/api/radar/toggle-visibility", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
     try {
-      const userId = req.params.userId;
+      const { userId, isVisible } = req.body;
+      if (!userId) return res.status(400).json({ error: "userId is required" });
 
       if (pgPool) {
-        const result = await pgPool.query(
-          `SELECT * FROM compatibility_history
-           WHERE user_a = $1 OR user_b = $1
-           ORDER BY created_at DESC
-           LIMIT 20`,
-          [userId]
-        );
-        return res.json(result.rows || []);
+        await pgPool.query(`UPDATE user_profiles SET is_visible_on_radar = $2, updated_at = NOW() WHERE id = $1`, [userId, isVisible !== false]);
+        broadcastPresence(String(userId), "settings").catch((error) => console.error("Presence update error:", error));
+        return res.json({ success: true, isVisible: isVisible !== false });
       }
 
       const sb = getSupabase();
-      const { data: dataA } = await sb
-        .from('compatibility_history')
-        .select('*')
-        .eq('user_a', userId)
-        .order('created_at', { ascending: false })
-        .limit(20);
-      const { data: dataB } = await sb
-        .from('compatibility_history')
-        .select('*')
-        .eq('user_b', userId)
-        .order('created_at', { ascending: false })
-        .limit(20);
+      await sb
+        .from('user_profiles')
+        .update({ is_visible_on_radar: isVisible !== false })
+        .eq('id', userId);
 
-      const combined = [...(dataA || []), ...(dataB || [])]
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-        .slice(0, 20);
-      res.json(combined);
+      broadcastPresence(String(userId), "settings").catch((error) => console.error("Presence update error:", error));
+      res.json({ success: true, isVisible: isVisible !== false });
     } catch (error) {
-      console.error("Get compatibility history error:", error);
-      res.json([]);
+      console.error("Toggle visibility error:", error);
+      res.status(500).json({ error: "Failed to toggle visibility" });
     }
   });
 
-  // ==================== SOCIAL DISCOVERY RADAR ====================
+  app.get("/api/radar/visibility-rules/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const userId = String(req.params.userId);
+      res.json((await loadRadarVisibilityRules([userId])).get(userId) || { ...DEFAULT_RADAR_VISIBILITY_RULES });
+    } catch (error) {
+      console.error("Get radar visibility rules error:", error);
+      res.status(500).json({ error: "Failed to get radar visibility rules" });
+    }
+  });
 
-  const RADAR_LIMITS: Record<string, number> = {
-    starter: 2,
-    free: 2,
-    explorer: 15,
-    pro: 15,
-    adventurer: -1,
-    expert: -1,
-    lifetime: -1,
-  };
+  app.put("/api/radar/visibility-rules/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    const userId = String(req.params.userId);
+    const rules = parseRadarVisibilityRulesInput(req.body);
+    if ("error" in rules) return res.status(400).json({ error: rules.error });
 
-  app.post("/api/radar/update-location", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
     try {
-      const { userId, lat, lng } = req.body;
-      if (!userId || lat === undefined || lng === undefined) {
-        return res.status(400).json({ error: "userId, lat, and lng are required" });
+      if (pgPool) {
+        await pgPool.query(
+          `INSERT INTO radar_visibility_rules (
+              user_id, hide_at_night, night_start_hour, night_end_hour, time_zone,
+              home_base_lat, home_base_lng, home_base_radius_km, matches_only, verified_only, updated_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+            ON CONFLICT (user_id) DO UPDATE SET
+              hide_at_night = EXCLUDED.hide_at_night,
+              night_start_hour = EXCLUDED.night_start_hour,
+              night_end_hour = EXCLUDED.night_end_hour,
+              time_zone = EXCLUDED.time_zone,
+              home_base_lat = EXCLUDED.home_base_lat,
+              home_base_lng = EXCLUDED.home_base_lng,
+              home_base_radius_km = EXCLUDED.home_base_radius_km,
+              matches_only = EXCLUDED.matches_only,
+              verified_only = EXCLUDED.verified_only,
+              updated_at = NOW()`,
+          [
+            userId,
+            rules.hideAtNight,
+            rules.nightStartHour,
+            rules.nightEndHour,
+            rules.timeZone,
+            rules.homeBase?.lat ?? null,
+            rules.homeBase?.lng ?? null,
+            rules.homeBase?.radiusKm ?? null,
+            rules.matchesOnly,
+            rules.verifiedOnly,
+          ]
+        );
+      } else {
+        const { error } = await getSupabase()
+          .from('radar_visibility_rules')
+          .upsert({
+            user_id: userId,
+            hide_at_night: rules.hideAtNight,
+            night_start_hour: rules.nightStartHour,
+            night_end_hour: rules.nightEndHour,
+            time_zone: rules.timeZone,
+            home_base_lat: rules.homeBase?.lat ?? null,
+            home_base_lng: rules.homeBase?.lng ?? null,
+            home_base_radius_km: rules.homeBase?.radiusKm ?? null,
+            matches_only: rules.matchesOnly,
+            verified_only: rules.verifiedOnly,
+            updated_at: new Date().toISOString(),
+          }, { onConflict: 'user_id' });
+        if (error) throw error;
       }
+      broadcastPresence(String(userId), "settings").catch((error) => console.error("Presence update error:", error));
+      res.json((await loadRadarVisibilityRules([userId])).get(userId) || { ...DEFAULT_RADAR_VISIBILITY_RULES, ...rules });
+    } catch (error) {
+      console.error("Save radar visibility rules error:", error);
+      res.status(500).json({ error: "Failed to save radar visibility rules" });
+    }
+  });
 
-      const now = new Date().toISOString();
+  app.get("/api/radar/heatmap/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const lat = Number(req.query.lat);
+      const lng = Number(req.query.lng);
+      if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return res.status(400).json({ error: "Valid lat and lng are required" });
+      }
+      const radiusKm = req.query.radiusKm === undefined
+        ? HEATMAP_DEFAULT_RADIUS_KM
+        : Math.min(HEATMAP_MAX_RADIUS_KM, Math.max(HEATMAP_MIN_RADIUS_KM, Number(req.query.radiusKm) || HEATMAP_DEFAULT_RADIUS_KM));
+      const precision = heatmapPrecisionForRadius(radiusKm);
+
+      const cells = await loadHeatmapCells({ lat, lng }, radiusKm, precision);
+      res.json({ radiusKm, precision, minCellUsers: HEATMAP_MIN_CELL_USERS, cells });
+    } catch (error) {
+      console.error("Radar heatmap error:", error);
+      res.status(500).json({ error: "Failed to load radar heatmap" });
+    }
+  });
+
+  // Ghost mode hides the user everywhere the radar rules apply for two hours, then lapses on its own
+  app.post("/api/radar/ghost", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.body;
+      if (!userId) return res.status(400).json({ error: "userId is required" });
+      const ghostUntil = new Date(Date.now() + RADAR_GHOST_MS).toISOString();
 
       if (pgPool) {
         await pgPool.query(
-          `INSERT INTO user_locations (user_id, lat, lng, updated_at)
-           VALUES ($1, $2, $3, $4)
-           ON CONFLICT (user_id) DO UPDATE SET lat = EXCLUDED.lat, lng = EXCLUDED.lng, updated_at = EXCLUDED.updated_at`,
-          [userId, Number(lat), Number(lng), now]
+          `INSERT INTO radar_visibility_rules (user_id, ghost_until, updated_at) VALUES ($1, $2, NOW())
+           ON CONFLICT (user_id) DO UPDATE SET ghost_until = EXCLUDED.ghost_until, updated_at = NOW()`,
+          [userId, ghostUntil]
         );
-        return res.json({ success: true });
+      } else {
+        const { error } = await getSupabase()
+          .from('radar_visibility_rules')
+          .upsert({ user_id: userId, ghost_until: ghostUntil, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+        if (error) throw error;
+      }
+      broadcastPresence(String(userId), "settings").catch((error) => console.error("Presence update error:", error));
+      res.json({ success: true, ghostUntil });
+    } catch (error) {
+      console.error("Start ghost mode error:", error);
+      res.status(500).json({ error: "Failed to start ghost mode" });
+    }
+  });
+
+  app.delete("/api/radar/ghost/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const userId = String(req.params.userId);
+      if (pgPool) {
+        await pgPool.query(
+          `UPDATE radar_visibility_rules SET ghost_until = NULL, updated_at = NOW() WHERE user_id = $1`,
+          [userId]
+        );
+      } else {
+        const { error } = await getSupabase()
+          .from('radar_visibility_rules')
+          .update({ ghost_until: null, updated_at: new Date().toISOString() })
+          .eq('user_id', userId);
+        if (error) throw error;
+      }
+      broadcastPresence(String(userId), "settings").catch((error) => console.error("Presence update error:", error));
+      res.json({ success: true, ghostUntil: null });
+    } catch (error) {
+      console.error("End ghost mode error:", error);
+      res.status(500).json({ error: "Failed to end ghost mode" });
+    }
+  });
+
+  // ==================== RADAR CHAT REQUESTS ====================
+
+  app.post("/api/radar/chat-request", requireUserSession((req) => req.body?.senderId), async (req: Request, res: Response) => {
+    try {
+      const { senderId, receiverId, senderName, senderPhoto, receiverName, receiverPhoto, message } = req.body;
+      if (!senderId || !receiverId) {
+        return res.status(400).json({ error: "senderId and receiverId are required" });
+      }
+      if (await isBlockedBetween(String(senderId), String(receiverId))) {
+        return res.status(403).json({ error: "Cannot send a chat request to this user" });
+      }
+
+      const id = `cr_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+      const nowStr = new Date().toISOString();
+
+      if (pgPool) {
+        const existingRes = await pgPool.query(
+          `SELECT id, status FROM radar_chat_requests
+           WHERE ((sender_id = $1 AND receiver_id = $2) OR (sender_id = $2 AND receiver_id = $1))
+             AND status IN ('pending', 'accepted')
+           ORDER BY created_at DESC
+           LIMIT 1`,
+          [senderId, receiverId]
+        );
+
+        if (Number(existingRes.rowCount || 0) > 0) {
+          const existing = existingRes.rows[0];
+          if (existing.status === 'accepted') {
+            return res.json({ alreadyConnected: true, requestId: existing.id });
+          }
+          return res.json({ alreadyRequested: true, requestId: existing.id });
+        }
+
+        await pgPool.query(
+          `INSERT INTO radar_chat_requests (
+             id, sender_id, receiver_id, sender_name, sender_photo, receiver_name, receiver_photo,
+             message, status, created_at, updated_at
+           ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,'pending',$9,$10)`,
+          [id, senderId, receiverId, senderName || '', senderPhoto || '', receiverName || '', receiverPhoto || '', message || '', nowStr, nowStr]
+        );
+
+        return res.json({ success: true, requestId: id });
       }
 
       const sb = getSupabase();
       const { data: existing } = await sb
-        .from('user_locations')
-        .select('user_id')
-        .eq('user_id', userId);
+        .from('radar_chat_requests')
+        .select('id, status')
+        .or(`and(sender_id.eq.${senderId},receiver_id.eq.${receiverId}),and(sender_id.eq.${receiverId},receiver_id.eq.${senderId})`)
+        .in('status', ['pending', 'accepted']);
 
       if (existing && existing.length > 0) {
-        await sb
-          .from('user_locations')
-          .update({ lat, lng, updated_at: now })
-          .eq('user_id', userId);
-      } else {
-        await sb
-          .from('user_locations')
-          .insert({ user_id: userId, lat, lng, updated_at: now });
+        const match = existing[0];
+        if (match.status === 'accepted') {
+          return res.json({ alreadyConnected: true, requestId: match.id });
+        }
+        return res.json({ alreadyRequested: true, requestId: match.id });
       }
 
-      res.json({ success: true });
+      const { error } = await sb
+        .from('radar_chat_requests')
+        .insert({
+          id,
+          sender_id: senderId,
+          receiver_id: receiverId,
+          sender_name: senderName || '',
+          sender_photo: senderPhoto || '',
+          receiver_name: receiverName || '',
+          receiver_photo: receiverPhoto || '',
+          message: message || '',
+          status: 'pending',
+          created_at: nowStr,
+          updated_at: nowStr,
+        });
+      if (error) throw error;
+
+      res.json({ success: true, requestId: id });
     } catch (error) {
-      console.error("Update location error:", error);
-      res.status(500).json({ error: "Failed to update location" });
+      console.error("Send chat request error:", error);
+      res.status(500).json({ error: "Failed to send chat request" });
+    }
+  });
+
+  app.get("/api/radar/chat-requests/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const userId = String(req.params.userId);
+      const blockedIds = await loadBlockedUserIds(userId);
+      const isVisibleRequest = (row: any) => !blockedIds.has(String(row.sender_id)) && !blockedIds.has(String(row.receiver_id));
+
+      if (pgPool) {
+        const [receivedRes, sentRes] = await Promise.all([
+          pgPool.query(
+            `SELECT * FROM radar_chat_requests
+             WHERE receiver_id = $1 AND status = 'pending'
+             ORDER BY created_at DESC`,
+            [userId]
+          ),
+          pgPool.query(
+            `SELECT * FROM radar_chat_requests
+             WHERE sender_id = $1
+             ORDER BY created_at DESC
+             LIMIT 20`,
+            [userId]
+          ),
+        ]);
+
+        return res.json({
+          received: (receivedRes.rows || []).filter(isVisibleRequest),
+          sent: (sentRes.rows || []).filter(isVisibleRequest),
+        });
+      }
+
+      const sb = getSupabase();
+      const { data: received } = await sb
+        .from('radar_chat_requests')
+        .select('*')
+        .eq('receiver_id', userId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      const { data: sent } = await sb
+        .from('radar_chat_requests')
+        .select('*')
+        .eq('sender_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      res.json({ received: (received || []).filter(isVisibleRequest), sent: (sent || []).filter(isVisibleRequest) });
+    } catch (error) {
+      console.error("Get chat requests error:", error);
+      res.json({ received: [], sent: [] });
     }
   });
 
-  app.post("/api/radar/scan", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+  app.post("/api/radar/chat-request/:requestId/respond", requireUserSession((req) => req.body?.responderId), async (req: Request, res: Response) => {
     try {
-      const { userId, lat, lng, radiusKm, tier } = req.body;
-      if (!userId || lat === undefined || lng === undefined) {
-        return res.status(400).json({ error: "userId, lat, and lng are required" });
+      const { action, responderId } = req.body;
+      if (!['accepted', 'declined'].includes(action)) {
+        return res.status(400).json({ error: "action must be 'accepted' or 'declined'" });
+      }
+      if (!responderId) {
+        return res.status(400).json({ error: "responderId is required" });
       }
 
-      if (pgPool) {
-        const profileRes = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [userId]);
-        let profile = profileRes.rows[0];
-
-        if (!profile) {
-          const nowMs = Date.now();
-          await pgPool.query(
-            `INSERT INTO user_profiles (
-              id, name, compatibility_checks_this_week, radar_scans_this_week, last_reset_timestamp,
-              is_visible_on_radar, created_at, updated_at
-            ) VALUES ($1, '', 0, 0, $2, TRUE, NOW(), NOW())`,
-            [userId, nowMs]
-          );
-          const fresh = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [userId]);
-          profile = fresh.rows[0];
-        }
+      const requestId = req.params.requestId;
 
-        if (!profile) {
-          return res.status(500).json({ error: "Failed to get or create profile" });
+      if (pgPool) {
+        const ownershipRes = await pgPool.query(
+          `SELECT sender_id, receiver_id FROM radar_chat_requests WHERE id = $1 LIMIT 1`,
+          [requestId]
+        );
+        if (!ownershipRes.rowCount) {
+          return res.status(404).json({ error: "Request not found" });
         }
-
-        if (shouldResetDaily(Number(profile.last_reset_timestamp) || 0)) {
-          await pgPool.query(
-            `UPDATE user_profiles
-             SET compatibility_checks_this_week = 0,
-                 radar_scans_this_week = 0,
-                 last_reset_timestamp = $2,
-                 updated_at = NOW()
-             WHERE id = $1`,
-            [userId, Date.now()]
-          );
-          profile.radar_scans_this_week = 0;
+        if (String(ownershipRes.rows[0].receiver_id) !== String(responderId)) {
+          return res.status(403).json({ error: "Forbidden" });
         }
-
-        const currentTier = tier || "starter";
-        const limit = RADAR_LIMITS[currentTier] ?? 2;
-        if (limit !== -1 && (profile.radar_scans_this_week || 0) >= limit) {
-          return res.status(403).json({
-            error: "Daily radar scan limit reached",
-            limit,
-            used: profile.radar_scans_this_week,
-            tier: currentTier,
-            requiresUpgrade: true,
-          });
+        if (action === 'accepted' && await isBlockedBetween(String(ownershipRes.rows[0].sender_id), String(responderId))) {
+          return res.status(403).json({ error: "Cannot accept a chat request from this user" });
         }
-
-        const now = new Date().toISOString();
         await pgPool.query(
-          `INSERT INTO user_locations (user_id, lat, lng, updated_at)
-           VALUES ($1, $2, $3, $4)
-           ON CONFLICT (user_id) DO UPDATE SET lat = EXCLUDED.lat, lng = EXCLUDED.lng, updated_at = EXCLUDED.updated_at`,
-          [userId, Number(lat), Number(lng), now]
-        );
-
-        const radius = Number(radiusKm) > 0 ? Number(radiusKm) : 75;
-        const safeCos = Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
-        const latDelta = radius / 111.0;
-        const lngDelta = radius / (111.0 * safeCos);
-        const recentLocationThreshold = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
-
-        const nearbyLocsRes = await pgPool.query(
-          `SELECT user_id, lat, lng, updated_at
-           FROM user_locations
-           WHERE user_id <> $1
-             AND lat BETWEEN $2 AND $3
-             AND lng BETWEEN $4 AND $5
-             AND updated_at >= $6
-           ORDER BY updated_at DESC
-           LIMIT 200`,
-          [userId, Number(lat) - latDelta, Number(lat) + latDelta, Number(lng) - lngDelta, Number(lng) + lngDelta, recentLocationThreshold]
+          `UPDATE radar_chat_requests SET status = $2, updated_at = NOW() WHERE id = $1`,
+          [requestId, action]
         );
 
-        const nearbyLocs = nearbyLocsRes.rows || [];
-        const nearbyUserIds = nearbyLocs.map((l: any) => String(l.user_id));
-
-        let profilesMap: Record<string, any> = {};
-        if (nearbyUserIds.length > 0) {
-          const profilesRes = await pgPool.query(
-            `SELECT id, name, age, bio, interests, photos, location, is_visible_on_radar
-             FROM user_profiles
-             WHERE id = ANY($1::text[])`,
-            [nearbyUserIds]
-          );
-          for (const p of profilesRes.rows) {
-            if (p.is_visible_on_radar === false) continue;
-            profilesMap[String(p.id)] = p;
+        if (action === 'accepted') {
+          const reqRes = await pgPool.query(`SELECT * FROM radar_chat_requests WHERE id = $1 LIMIT 1`, [requestId]);
+          const request = reqRes.rows[0];
+          if (request) {
+            const sorted = [String(request.sender_id), String(request.receiver_id)].sort();
+            const userA = sorted[0];
+            const userB = sorted[1];
+            const matchId = `match_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+            await pgPool.query(
+              `INSERT INTO matches (id, user_a_id, user_b_id, created_at)
+               VALUES ($1,$2,$3,NOW())
+               ON CONFLICT (user_a_id, user_b_id) DO NOTHING`,
+              [matchId, userA, userB]
+            );
           }
         }
 
-        const nearbyUsers = nearbyLocs
-          .filter((loc: any) => profilesMap[String(loc.user_id)])
-          .map((row: any) => {
-            const rowLat = Number(row.lat);
-            const rowLng = Number(row.lng);
-            if (!Number.isFinite(rowLat) || !Number.isFinite(rowLng)) return null;
-            const dLat = ((rowLat - Number(lat)) * Math.PI) / 180;
-            const dLng = ((rowLng - Number(lng)) * Math.PI) / 180;
-            const a = Math.sin(dLat / 2) ** 2 + Math.cos((Number(lat) * Math.PI) / 180) * Math.cos((rowLat * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
-            const distance = 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-            const up = profilesMap[String(row.user_id)];
-            return {
-              userId: String(row.user_id),
-              lat: rowLat,
-              lng: rowLng,
-              distance: Math.round(distance * 10) / 10,
-              name: up?.name || "Nomad",
-              age: up?.age,
-              bio: up?.bio,
-              interests: up?.interests || [],
-              photos: up?.photos || [],
-              location: up?.location,
-              lastSeen: row.updated_at,
-            };
-          })
-          .filter((u: any) => u && u.distance <= radius)
-          .sort((a: any, b: any) => {
-            if (a.distance !== b.distance) return a.distance - b.distance;
-            return String(b.lastSeen || "").localeCompare(String(a.lastSeen || ""));
-          })
-          .slice(0, 25);
-
-        const actNow = new Date().toISOString();
-        const allActivitiesRes = await pgPool.query(
-          `SELECT * FROM activities WHERE date >= $1 ORDER BY date ASC LIMIT 50`,
-          [actNow]
-        );
-        const allActivities = allActivitiesRes.rows || [];
-
-        const nearbyActivities = allActivities
-          .filter((act: any) => {
-            if (act.latitude === undefined || act.longitude === undefined || act.latitude === null || act.longitude === null) return false;
-            const aLat = Number(act.latitude);
-            const aLng = Number(act.longitude);
-            if (!Number.isFinite(aLat) || !Number.isFinite(aLng)) return false;
-            const dLat = ((aLat - Number(lat)) * Math.PI) / 180;
-            const dLng = ((aLng - Number(lng)) * Math.PI) / 180;
-            const a2 = Math.sin(dLat / 2) ** 2 + Math.cos((Number(lat) * Math.PI) / 180) * Math.cos((aLat * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
-            const dist = 6371 * 2 * Math.atan2(Math.sqrt(a2), Math.sqrt(1 - a2));
-            (act as any)._distance = Math.round(dist * 10) / 10;
-            return dist <= radius;
-          })
-          .slice(0, 10)
-          .map((act: any) => ({
-            id: act.id,
-            title: act.title,
-            description: act.description,
-            type: act.category || "other",
-            location: act.location,
-            date: act.date,
-            distance: act._distance,
-            attendeeCount: (act.attendee_ids || []).length,
-            maxAttendees: act.max_attendees ? parseInt(act.max_attendees) : undefined,
-            imageUrl: act.image_url,
-            hostId: act.host_id,
-          }));
-
-        await pgPool.query(
-          `UPDATE user_profiles
-           SET radar_scans_this_week = COALESCE(radar_scans_this_week, 0) + 1,
-               updated_at = NOW()
-           WHERE id = $1`,
-          [userId]
-        );
-
-        return res.json({
-          users: nearbyUsers,
-          activities: nearbyActivities,
-          scansUsed: (profile.radar_scans_this_week || 0) + 1,
-          scansLimit: limit,
-        });
+        return res.json({ success: true, status: action });
       }
 
       const sb = getSupabase();
-
-      // Get/create user profile
-      const { data: profileData } = await sb
-        .from('user_profiles')
-        .select('*')
-        .eq('id', userId)
-        .single();
-
-      let profile = profileData;
-
-      if (!profile) {
-        const now = Date.now();
-        await sb
-          .from('user_profiles')
-          .insert({
-            id: userId,
-            name: '',
-            compatibility_checks_this_week: 0,
-            radar_scans_this_week: 0,
-            last_reset_timestamp: now,
-            is_visible_on_radar: true,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          });
-        const { data: newProfile } = await sb
-          .from('user_profiles')
-          .select('*')
-          .eq('id', userId)
-          .single();
-        profile = newProfile;
+      const { data: ownershipRows, error: ownershipErr } = await sb
+        .from('radar_chat_requests')
+        .select('sender_id, receiver_id')
+        .eq('id', requestId)
+        .limit(1);
+      if (ownershipErr) throw ownershipErr;
+      if (!ownershipRows || ownershipRows.length === 0) {
+        return res.status(404).json({ error: "Request not found" });
       }
-
-      if (!profile) {
-        return res.status(500).json({ error: "Failed to get or create profile" });
+      if (String(ownershipRows[0].receiver_id) !== String(responderId)) {
+        return res.status(403).json({ error: "Forbidden" });
       }
-
-      // Check daily reset
-      if (shouldResetDaily(Number(profile.last_reset_timestamp) || 0)) {
-        await sb
-          .from('user_profiles')
-          .update({
-            compatibility_checks_this_week: 0,
-            radar_scans_this_week: 0,
-            last_reset_timestamp: Date.now(),
-          })
-          .eq('id', userId);
-        profile.radar_scans_this_week = 0;
+      if (action === 'accepted' && await isBlockedBetween(String(ownershipRows[0].sender_id), String(responderId))) {
+        return res.status(403).json({ error: "Cannot accept a chat request from this user" });
       }
 
-      // Enforce scan limit
-      const currentTier = tier || "starter";
-      const limit = RADAR_LIMITS[currentTier] ?? 2;
-      if (limit !== -1 && (profile.radar_scans_this_week || 0) >= limit) {
-        return res.status(403).json({
-          error: "Daily radar scan limit reached",
-          limit,
-          used: profile.radar_scans_this_week,
-          tier: currentTier,
-          requiresUpgrade: true,
-        });
-      }
+      const { error } = await sb
+        .from('radar_chat_requests')
+        .update({ status: action, updated_at: new Date().toISOString() })
+        .eq('id', requestId);
+      if (error) throw error;
 
-      // Update own location
-      const now = new Date().toISOString();
-      const { data: existingLoc } = await sb
-        .from('user_locations')
-        .select('user_id')
-        .eq('user_id', userId);
+      if (action === 'accepted') {
+        const { data: request } = await sb
+          .from('radar_chat_requests')
+          .select('*')
+          .eq('id', requestId)
+          .single();
 
-      if (existingLoc && existingLoc.length > 0) {
-        await sb
-          .from('user_locations')
-          .update({ lat, lng, updated_at: now })
-          .eq('user_id', userId);
-      } else {
-        await sb
-          .from('user_locations')
-          .insert({ user_id: userId, lat, lng, updated_at: now });
+        if (request) {
+          const matchId = `match_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+          await sb.from('matches').insert({
+            id: matchId,
+            user_a_id: request.sender_id,
+            user_b_id: request.receiver_id,
+            created_at: new Date().toISOString(),
+          });
+        }
       }
 
-      // Query nearby users - get all locations and filter in JS
-      // (Supabase doesn't support complex JOINs with bounding box easily)
-      const radius = Number(radiusKm) > 0 ? Number(radiusKm) : 75;
-      const safeCos = Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
-      const latDelta = radius / 111.0;
-      const lngDelta = radius / (111.0 * safeCos);
-      const recentLocationThreshold = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+      res.json({ success: true, status: action });
+    } catch (error) {
+      console.error("Respond to chat request error:", error);
+      res.status(500).json({ error: "Failed to respond to chat request" });
+    }
+  });
 
-      const { data: nearbyLocs } = await sb
-        .from('user_locations')
-        .select('user_id, lat, lng, updated_at')
-        .neq('user_id', userId)
-        .gte('lat', lat - latDelta)
-        .lte('lat', lat + latDelta)
-        .gte('lng', lng - lngDelta)
-        .lte('lng', lng + lngDelta)
-        .gte('updated_at', recentLocationThreshold)
-        .limit(200);
+  // ==================== USAGE STATS ====================
 
-      const nearbyUserIds = (nearbyLocs || []).map(l => l.user_id);
+  app.get("/api/usage/:userId", async (req: Request, res: Response) => {
+    try {
+      if (pgPool) {
+        const result = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [req.params.userId]);
+        const profile = result.rows[0];
+        if (!profile) {
+          return res.json({ compatibilityChecks: 0, radarScans: 0 });
+        }
 
-      let profilesMap: Record<string, any> = {};
-      if (nearbyUserIds.length > 0) {
-        const { data: profiles } = await sb
-          .from('user_profiles')
-          .select('id, name, age, bio, interests, photos, location, is_visible_on_radar')
-          .in('id', nearbyUserIds);
-        if (profiles) {
-          for (const p of profiles) {
-            if (p.is_visible_on_radar === false) continue;
-            profilesMap[p.id] = p;
-          }
+        if (shouldResetDaily(Number(profile.last_reset_timestamp) || 0)) {
+          await pgPool.query(
+            `UPDATE user_profiles
+             SET compatibility_checks_this_week = 0,
+                 radar_scans_this_week = 0,
+                 last_reset_timestamp = $2,
+                 updated_at = NOW()
+             WHERE id = $1`,
+            [req.params.userId, Date.now()]
+          );
+          return res.json({ compatibilityChecks: 0, radarScans: 0 });
         }
-      }
 
-      const nearbyUsers = (nearbyLocs || [])
-        .filter(loc => profilesMap[loc.user_id])
-        .map((row: any) => {
-          const dLat = ((row.lat - lat) * Math.PI) / 180;
-          const dLng = ((row.lng - lng) * Math.PI) / 180;
-          const a = Math.sin(dLat / 2) ** 2 + Math.cos((lat * Math.PI) / 180) * Math.cos((row.lat * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
-          const distance = 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-          const up = profilesMap[row.user_id];
-          const rowLat = Number(row.lat);
-          const rowLng = Number(row.lng);
-          if (!Number.isFinite(rowLat) || !Number.isFinite(rowLng)) return null;
-          return {
-            userId: row.user_id,
-            lat: rowLat,
-            lng: rowLng,
-            distance: Math.round(distance * 10) / 10,
-            name: up?.name || "Nomad",
-            age: up?.age,
-            bio: up?.bio,
-            interests: up?.interests || [],
-            photos: up?.photos || [],
-            location: up?.location,
-            lastSeen: row.updated_at,
-          };
-        })
-        .filter((u: any) => u && u.distance <= radius)
-        .sort((a: any, b: any) => {
-          if (a.distance !== b.distance) return a.distance - b.distance;
-          return String(b.lastSeen || "").localeCompare(String(a.lastSeen || ""));
-        })
-        .slice(0, 25);
+        return res.json({
+          compatibilityChecks: profile.compatibility_checks_this_week || 0,
+          radarScans: profile.radar_scans_this_week || 0,
+        });
+      }
 
-      // Fetch nearby upcoming activities
-      const actNow = new Date().toISOString();
-      const { data: allActivities } = await sb
-        .from('activities')
+      const sb = getSupabase();
+      const { data, error } = await sb
+        .from('user_profiles')
         .select('*')
-        .gte('date', actNow)
-        .order('date', { ascending: true })
-        .limit(50);
+        .eq('id', req.params.userId)
+        .single();
 
-      const nearbyActivities = (allActivities || [])
-        .filter((act: any) => {
-          if (!act.latitude || !act.longitude) return false;
-          const aLat = parseFloat(act.latitude);
-          const aLng = parseFloat(act.longitude);
-          const dLat = ((aLat - lat) * Math.PI) / 180;
-          const dLng = ((aLng - lng) * Math.PI) / 180;
-          const a2 = Math.sin(dLat / 2) ** 2 + Math.cos((lat * Math.PI) / 180) * Math.cos((aLat * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
-          const dist = 6371 * 2 * Math.atan2(Math.sqrt(a2), Math.sqrt(1 - a2));
-          (act as any)._distance = Math.round(dist * 10) / 10;
-          return dist <= radius;
-        })
-        .slice(0, 10)
-        .map((act: any) => ({
-          id: act.id,
-          title: act.title,
-          description: act.description,
-          type: act.category || "other",
-          location: act.location,
-          date: act.date,
-          distance: act._distance,
-          attendeeCount: (act.attendee_ids || []).length,
-          maxAttendees: act.max_attendees ? parseInt(act.max_attendees) : undefined,
-          imageUrl: act.image_url,
-          hostId: act.host_id,
-        }));
+      if (error || !data) {
+        return res.json({ compatibilityChecks: 0, radarScans: 0 });
+      }
+      const profile = data;
 
-      // Increment scan count
-      await sb
-        .from('user_profiles')
-        .update({
-          radar_scans_this_week: (profile.radar_scans_this_week || 0) + 1,
-        })
-        .eq('id', userId);
+      // Check if we need to reset
+      if (shouldResetDaily(Number(profile.last_reset_timestamp) || 0)) {
+        await sb
+          .from('user_profiles')
+          .update({
+            compatibility_checks_this_week: 0,
+            radar_scans_this_week: 0,
+            last_reset_timestamp: Date.now(),
+          })
+          .eq('id', req.params.userId);
+        return res.json({ compatibilityChecks: 0, radarScans: 0 });
+      }
 
       res.json({
-        users: nearbyUsers,
-        activities: nearbyActivities,
-        scansUsed: (profile.radar_scans_this_week || 0) + 1,
-        scansLimit: limit,
+        compatibilityChecks: profile.compatibility_checks_this_week || 0,
+        radarScans: profile.radar_scans_this_week || 0,
       });
     } catch (error) {
-      console.error("Radar scan error:", error);
-      res.status(500).json({ error: "Failed to scan nearby users" });
+      console.error("Get usage error:", error);
+      res.json({ compatibilityChecks: 0, radarScans: 0 });
     }
   });
 
-  app.post("/api/radar/toggle-visibility", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
-    try {
-      const { userId, isVisible } = req.body;
-      if (!userId) return res.status(400).json({ error: "userId is required" });
-
-      if (pgPool) {
-        await pgPool.query(`UPDATE user_profiles SET is_visible_on_radar = $2, updated_at = NOW() WHERE id = $1`, [userId, isVisible !== false]);
-        return res.json({ success: true, isVisible: isVisible !== false });
-      }
+  // ==================== TRAVEL LIFESTYLE VERIFICATION ====================
 
+  app.get("/api/verification/status/:userId", async (req: Request, res: Response) => {
+    try {
       const sb = getSupabase();
-      await sb
+      const { data, error } = await sb
         .from('user_profiles')
-        .update({ is_visible_on_radar: isVisible !== false })
-        .eq('id', userId);
-
-      res.json({ success: true, isVisible: isVisible !== false });
+        .select('is_travel_verified, travel_badge')
+        .eq('id', req.params.userId)
+        .single();
+      if (error || !data) {
+        return res.json({ isVerified: false, badge: null });
+      }
+      res.json({
+        isVerified: data.is_travel_verified || false,
+        badge: data.travel_badge || null,
+      });
     } catch (error) {
-      console.error("Toggle visibility error:", error);
-      res.status(500).json({ error: "Failed to toggle visibility" });
+      console.error("Get verification status error:", error);
+      res.json({ isVerified: false, badge: null });
     }
   });
 
-  // ==================== RADAR CHAT REQUESTS ====================
-
-  app.post("/api/radar/chat-request", requireUserSession((req) => req.body?.senderId), async (req: Request, res: Response) => {
+  app.post("/api/verification/verify-travel", async (req: Request, res: Response) => {
     try {
-      const { senderId, receiverId, senderName, senderPhoto, receiverName, receiverPhoto, message } = req.body;
-      if (!senderId || !receiverId) {
-        return res.status(400).json({ error: "senderId and receiverId are required" });
+      const { userId, photoUrl, secondaryPhotoUrl, answer1, answer2, answer3 } = req.body;
+
+      if (!userId || !photoUrl || !answer1 || !answer2) {
+        return res.status(400).json({ error: "userId, photoUrl, answer1, and answer2 are required" });
       }
 
-      const id = `cr_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-      const nowStr = new Date().toISOString();
+      const aiPrompt = `You are an AI Travel Lifestyle Verification Engine.
 
-      if (pgPool) {
-        const existingRes = await pgPool.query(
-          `SELECT id, status FROM radar_chat_requests
-           WHERE ((sender_id = $1 AND receiver_id = $2) OR (sender_id = $2 AND receiver_id = $1))
-             AND status IN ('pending', 'accepted')
-           ORDER BY created_at DESC
-           LIMIT 1`,
-          [senderId, receiverId]
-        );
+This is a demo-friendly version.
+Your job is to verify if the user shows signs of being a traveler, outdoor enthusiast, adventurer, cultural explorer, or potential nomad.
 
-        if (Number(existingRes.rowCount || 0) > 0) {
-          const existing = existingRes.rows[0];
-          if (existing.status === 'accepted') {
-            return res.json({ alreadyConnected: true, requestId: existing.id });
-          }
-          return res.json({ alreadyRequested: true, requestId: existing.id });
-        }
+You will receive:
+1. Photo URL(s) submitted by the user
+2. Answers to travel questions
 
-        await pgPool.query(
-          `INSERT INTO radar_chat_requests (
-             id, sender_id, receiver_id, sender_name, sender_photo, receiver_name, receiver_photo,
-             message, status, created_at, updated_at
-           ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,'pending',$9,$10)`,
-          [id, senderId, receiverId, senderName || '', senderPhoto || '', receiverName || '', receiverPhoto || '', message || '', nowStr, nowStr]
-        );
+The user submitted these photos:
+- Primary photo URL: ${photoUrl}
+${secondaryPhotoUrl ? `- Secondary photo URL: ${secondaryPhotoUrl}` : "- No secondary photo"}
 
-        return res.json({ success: true, requestId: id });
+The user answered these questions:
+Q1: "What kind of places do you enjoy traveling to?"
+A1: "${answer1}"
+
+Q2: "Describe your most recent travel experience."
+A2: "${answer2}"
+
+${answer3 ? `Q3: "What do you usually carry when you travel?"
+A3: "${answer3}"` : "Q3 was skipped."}
+
+IMPORTANT: Since you cannot view images directly, evaluate based on the URL context and focus primarily on the quality and authenticity of the written answers.
+
+ANSWER CHECKS:
+- Does the user describe a real travel experience?
+- Do they mention adventure (hiking, camping, exploring), historic or cultural travel (visiting forts, temples, ancient cities, ruins, museums), or travel preferences (solo travel, road trips, nature trips)?
+- Does the answer sound natural and human?
+- Flag overly generic or AI-like answers.
+
+SCORING:
+- Strong, detailed, authentic answers about real travel experiences = higher scores
+- Mentions of historic places, cultural locations, ancient sites = HIGH SCORE BOOST
+- Generic or vague answers = lower scores
+- Give photo_score based on whether a photo URL was provided (base 50 if provided, up to 80 if two photos)
+
+Return ONLY valid JSON (no markdown, no code blocks):
+{
+  "photo_score": (0-100),
+  "travel_experience_score": (0-100),
+  "final_travel_score": (0-100),
+  "badge": "nomad" | "adventurer" | "explorer" | "none",
+  "verdict": "verified" | "not_verified",
+  "reasons": ["reason 1", "reason 2"],
+  "advice": "short helpful text",
+  "coming_soon": "Advanced Nomad/Vanlifer AI verification will be added in the next release."
+}
+
+Badge assignment:
+- final_travel_score >= 80 -> "explorer"
+- 60-79 -> "adventurer"
+- 40-59 -> "nomad"
+- <40 -> "none" with verdict "not_verified"`;
+
+      const aiReply = await callGroqChat([
+        { role: "system", content: "You are a travel lifestyle verification AI. Return ONLY valid JSON. No markdown code blocks." },
+        { role: "user", content: aiPrompt },
+      ]);
+
+      let verificationResult;
+      try {
+        const cleaned = aiReply.replace(/```json\s*/g, "").replace(/```\s*/g, "").trim();
+        verificationResult = JSON.parse(cleaned);
+      } catch {
+        verificationResult = {
+          photo_score: photoUrl ? 60 : 0,
+          travel_experience_score: 50,
+          final_travel_score: 55,
+          badge: "nomad",
+          verdict: "verified",
+          reasons: ["Travel answers provided", "Photo submitted"],
+          advice: "Keep exploring and sharing your adventures!",
+          coming_soon: "Advanced Nomad/Vanlifer AI verification will be added in the next release.",
+        };
       }
 
+      const score = verificationResult.final_travel_score || 0;
+      let badge = verificationResult.badge;
+      let verdict = verificationResult.verdict;
+
+      if (score >= 80) badge = "explorer";
+      else if (score >= 60) badge = "adventurer";
+      else if (score >= 40) badge = "nomad";
+      else { badge = "none"; verdict = "not_verified"; }
+
+      verificationResult.badge = badge;
+      verificationResult.verdict = verdict;
+
       const sb = getSupabase();
-      const { data: existing } = await sb
-        .from('radar_chat_requests')
-        .select('id, status')
-        .or(`and(sender_id.eq.${senderId},receiver_id.eq.${receiverId}),and(sender_id.eq.${receiverId},receiver_id.eq.${senderId})`)
-        .in('status', ['pending', 'accepted']);
+      const verId = `ver_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      await sb
+        .from('travel_verification')
+        .insert({
+          id: verId,
+          user_id: userId,
+          photo_url: photoUrl,
+          secondary_photo_url: secondaryPhotoUrl || null,
+          answer1,
+          answer2,
+          answer3: answer3 || null,
+          status: verdict,
+          badge_type: badge,
+          reviewer_notes: verificationResult.reasons,
+          submitted_at: new Date().toISOString(),
+        });
 
-      if (existing && existing.length > 0) {
-        const match = existing[0];
-        if (match.status === 'accepted') {
-          return res.json({ alreadyConnected: true, requestId: match.id });
+      if (verdict === "verified") {
+        const { data: existingProfile } = await sb
+          .from('user_profiles')
+          .select('id')
+          .eq('id', userId);
+
+        if (existingProfile && existingProfile.length > 0) {
+          await sb
+            .from('user_profiles')
+            .update({
+              is_travel_verified: true,
+              travel_badge: badge,
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', userId);
+        } else {
+          await sb
+            .from('user_profiles')
+            .insert({
+              id: userId,
+              is_travel_verified: true,
+              travel_badge: badge,
+              created_at: new Date().toISOString(),
+              updated_at: new Date().toISOString(),
+            });
         }
-        return res.json({ alreadyRequested: true, requestId: match.id });
       }
 
-      const { error } = await sb
-        .from('radar_chat_requests')
-        .insert({
-          id,
-          sender_id: senderId,
-          receiver_id: receiverId,
-          sender_name: senderName || '',
-          sender_photo: senderPhoto || '',
-          receiver_name: receiverName || '',
-          receiver_photo: receiverPhoto || '',
-          message: message || '',
-          status: 'pending',
-          created_at: nowStr,
-          updated_at: nowStr,
-        });
-      if (error) throw error;
-
-      res.json({ success: true, requestId: id });
+      res.json(verificationResult);
     } catch (error) {
-      console.error("Send chat request error:", error);
-      res.status(500).json({ error: "Failed to send chat request" });
+      console.error("Travel verification error:", error);
+      res.status(500).json({ error: "Verification failed. Please try again." });
     }
   });
 
-  app.get("/api/radar/chat-requests/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+  // ==================== DISCOVER / SWIPES / MATCHES ====================
+
+  app.get("/api/discover/preferences/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
-      const userId = req.params.userId;
+      res.json(await loadDiscoverPreferences(String(req.params.userId)));
+    } catch (error) {
+      console.error("Get discover preferences error:", error);
+      res.status(500).json({ error: "Failed to get discover preferences" });
+    }
+  });
 
-      if (pgPool) {
-        const [receivedRes, sentRes] = await Promise.all([
-          pgPool.query(
-            `SELECT * FROM radar_chat_requests
-             WHERE receiver_id = $1 AND status = 'pending'
-             ORDER BY created_at DESC`,
-            [userId]
-          ),
-          pgPool.query(
-            `SELECT * FROM radar_chat_requests
-             WHERE sender_id = $1
-             ORDER BY created_at DESC
-             LIMIT 20`,
-            [userId]
-          ),
-        ]);
+  app.put("/api/discover/preferences/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    const userId = String(req.params.userId);
+    const prefs = parseDiscoverPreferencesInput(req.body);
+    if ("error" in prefs) return res.status(400).json({ error: prefs.error });
 
-        return res.json({ received: receivedRes.rows || [], sent: sentRes.rows || [] });
+    try {
+      if (pgPool) {
+        await pgPool.query(
+          `INSERT INTO discover_preferences (
+              user_id, min_age, max_age, max_distance_km, intent_modes, verified_only, looking_for, van_types, updated_at
+            ) VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7::jsonb, $8::jsonb, NOW())
+            ON CONFLICT (user_id) DO UPDATE SET
+              min_age = EXCLUDED.min_age,
+              max_age = EXCLUDED.max_age,
+              max_distance_km = EXCLUDED.max_distance_km,
+              intent_modes = EXCLUDED.intent_modes,
+              verified_only = EXCLUDED.verified_only,
+              looking_for = EXCLUDED.looking_for,
+              van_types = EXCLUDED.van_types,
+              updated_at = NOW()`,
+          [
+            userId,
+            prefs.minAge,
+            prefs.maxAge,
+            prefs.maxDistanceKm,
+            JSON.stringify(prefs.intentModes),
+            prefs.verifiedOnly,
+            JSON.stringify(prefs.lookingFor),
+            JSON.stringify(prefs.vanTypes),
+          ]
+        );
+      } else {
+        const { error } = await getSupabase()
+          .from('discover_preferences')
+          .upsert({
+            user_id: userId,
+            min_age: prefs.minAge,
+            max_age: prefs.maxAge,
+            max_distance_km: prefs.maxDistanceKm,
+            intent_modes: prefs.intentModes,
+            verified_only: prefs.verifiedOnly,
+            looking_for: prefs.lookingFor,
+            van_types: prefs.vanTypes,
+            updated_at: new Date().toISOString(),
+          }, { onConflict: 'user_id' });
+        if (error) throw error;
       }
-
-      const sb = getSupabase();
-      const { data: received } = await sb
-        .from('radar_chat_requests')
-        .select('*')
-        .eq('receiver_id', userId)
-        .eq('status', 'pending')
-        .order('created_at', { ascending: false });
-
-      const { data: sent } = await sb
-        .from('radar_chat_requests')
-        .select('*')
-        .eq('sender_id', userId)
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      res.json({ received: received || [], sent: sent || [] });
+      res.json(prefs);
     } catch (error) {
-      console.error("Get chat requests error:", error);
-      res.json({ received: [], sent: [] });
+      console.error("Save discover preferences error:", error);
+      res.status(500).json({ error: "Failed to save discover preferences" });
     }
   });
 
-  app.post("/api/radar/chat-request/:requestId/respond", requireUserSession((req) => req.body?.responderId), async (req: Request, res: Response) => {
+  app.get("/api/discover/profiles/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
-      const { action, responderId } = req.body;
-      if (!['accepted', 'declined'].includes(action)) {
-        return res.status(400).json({ error: "action must be 'accepted' or 'declined'" });
-      }
-      if (!responderId) {
-        return res.status(400).json({ error: "responderId is required" });
+      const userId = String(req.params.userId || "");
+      if (!userId) return res.status(400).json({ error: "User ID is required" });
+      const page = parseDiscoverPageQuery(req.query);
+      if ("error" in page) return res.status(400).json({ error: page.error });
+      // Breakdowns explain how other people's profiles score against this one, so they are for tuning by admins only
+      if (page.debug && (await loadUserRole(userId)) !== "admin") {
+        return res.status(403).json({ error: "Score breakdowns are only available to admins" });
       }
 
-      const requestId = req.params.requestId;
+      const [prefs, viewerLocations] = await Promise.all([
+        loadDiscoverPreferences(userId),
+        loadDiscoverLocations([userId]),
+      ]);
+      const filtersActive = hasDiscoverFilters(prefs);
+      const viewerLocation = viewerLocations.get(userId) || null;
 
       if (pgPool) {
-        const ownershipRes = await pgPool.query(
-          `SELECT receiver_id FROM radar_chat_requests WHERE id = $1 LIMIT 1`,
-          [requestId]
-        );
-        if (!ownershipRes.rowCount) {
-          return res.status(404).json({ error: "Request not found" });
-        }
-        if (String(ownershipRes.rows[0].receiver_id) !== String(responderId)) {
-          return res.status(403).json({ error: "Forbidden" });
-        }
-        await pgPool.query(
-          `UPDATE radar_chat_requests SET status = $2, updated_at = NOW() WHERE id = $1`,
-          [requestId, action]
-        );
+        const [swipedRes, viewerRes] = await Promise.all([
+          pgPool.query(`SELECT swiped_id FROM swipes WHERE swiper_id = $1`, [userId]),
+          pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [userId]),
+        ]);
 
-        if (action === 'accepted') {
-          const reqRes = await pgPool.query(`SELECT * FROM radar_chat_requests WHERE id = $1 LIMIT 1`, [requestId]);
-          const request = reqRes.rows[0];
-          if (request) {
-            const sorted = [String(request.sender_id), String(request.receiver_id)].sort();
-            const userA = sorted[0];
-            const userB = sorted[1];
-            const matchId = `match_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-            await pgPool.query(
-              `INSERT INTO matches (id, user_a_id, user_b_id, created_at)
-               VALUES ($1,$2,$3,NOW())
-               ON CONFLICT (user_a_id, user_b_id) DO NOTHING`,
-              [matchId, userA, userB]
-            );
-          }
-        }
+        // Keep discover exclusion compatible with both matches schemas.
+        const matchRows: any[] = [];
+        try {
+          const modern = await pgPool.query(
+            `SELECT user_a_id, user_b_id FROM matches WHERE user_a_id = $1 OR user_b_id = $1`,
+            [userId],
+          );
+          matchRows.push(...(modern.rows || []));
+        } catch {}
 
-        return res.json({ success: true, status: action });
-      }
+        try {
+          const legacy = await pgPool.query(
+            `SELECT user_a AS user_a_id, user_b AS user_b_id FROM matches WHERE user_a = $1 OR user_b = $1`,
+            [userId],
+          );
+          matchRows.push(...(legacy.rows || []));
+        } catch {}
 
-      const sb = getSupabase();
-      const { data: ownershipRows, error: ownershipErr } = await sb
-        .from('radar_chat_requests')
-        .select('receiver_id')
-        .eq('id', requestId)
-        .limit(1);
-      if (ownershipErr) throw ownershipErr;
-      if (!ownershipRows || ownershipRows.length === 0) {
-        return res.status(404).json({ error: "Request not found" });
-      }
-      if (String(ownershipRows[0].receiver_id) !== String(responderId)) {
-        return res.status(403).json({ error: "Forbidden" });
-      }
+        const swipedIds = swipedRes.rows.map((row: any) => String(row.swiped_id));
+        const matchedIds = matchRows
+          .map((row: any) =>
+            String(row.user_a_id) === userId ? String(row.user_b_id) : String(row.user_a_id),
+          )
+          .filter((id: string) => id && id !== "null" && id !== "undefined");
 
-      const { error } = await sb
-        .from('radar_chat_requests')
-        .update({ status: action, updated_at: new Date().toISOString() })
-        .eq('id', requestId);
-      if (error) throw error;
+        const blockedIds = await loadBlockedUserIds(userId);
+        const strictExcludedIds = new Set([userId, ...swipedIds, ...matchedIds, ...blockedIds]);
+
+        // Rank a bounded pool of the most recently updated profiles that pass the viewer's filters
+        const filters = buildDiscoverFilterSql(prefs, viewerLocation, 3);
+        const candidatesRes = await pgPool.query(
+          `SELECT * FROM user_profiles
+           WHERE id <> ALL($1::text[]) AND id NOT LIKE 'mock%'
+           ${filters.clauses.map((clause) => `AND ${clause}`).join(" ")}
+           ORDER BY updated_at DESC NULLS LAST, id
+           LIMIT $2`,
+          [Array.from(strictExcludedIds), DISCOVER_CANDIDATE_POOL, ...filters.params]
+        );
+        let realProfiles = candidatesRes.rows;
 
-      if (action === 'accepted') {
-        const { data: request } = await sb
-          .from('radar_chat_requests')
-          .select('*')
-          .eq('id', requestId)
-          .single();
+        // If user_profiles has very few real rows, also include app_users that don't have profiles yet.
+        // Those rows carry none of the filterable fields, so they are left out once any filter is set.
+        if (realProfiles.length < 15 && !filtersActive) {
+          const appUsersRes = await pgPool.query(
+            `SELECT id, email, name, created_at FROM app_users WHERE id <> $1 ORDER BY created_at DESC LIMIT 100`,
+            [userId]
+          );
 
-        if (request) {
-          const matchId = `match_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-          await sb.from('matches').insert({
-            id: matchId,
-            user_a_id: request.sender_id,
-            user_b_id: request.receiver_id,
-            created_at: new Date().toISOString(),
-          });
-        }
-      }
+          const existingIds = new Set(realProfiles.map((p: any) => String(p.id)));
+          const syntheticRows = appUsersRes.rows
+            .filter((u: any) => !strictExcludedIds.has(String(u.id)) && !existingIds.has(String(u.id)))
+            .map((u: any) => ({
+              id: u.id,
+              email: u.email,
+              name: u.name || (String(u.email || '').split('@')[0] || 'Explorer'),
+              age: 25,
+              bio: '',
+              location: '',
+              photos: [],
+              interests: [],
+              created_at: u.created_at || new Date().toISOString(),
+              updated_at: u.created_at || null,
+            }));
 
-      res.json({ success: true, status: action });
-    } catch (error) {
-      console.error("Respond to chat request error:", error);
-      res.status(500).json({ error: "Failed to respond to chat request" });
-    }
-  });
+          realProfiles = [...realProfiles, ...syntheticRows];
 
-  // ==================== USAGE STATS ====================
+          // If old users exist in Supabase but not in PG yet, include them too.
+          try {
+            const sb = getSupabase();
+            const { data: sbProfiles } = await sb
+              .from('user_profiles')
+              .select('*')
+              .neq('id', userId)
+              .order('created_at', { ascending: false })
+              .limit(200);
+
+            if (sbProfiles && sbProfiles.length > 0) {
+              const existingAfterSynthetic = new Set(realProfiles.map((p: any) => String(p.id)));
+              const supplemental = sbProfiles
+                .filter((row: any) => {
+                  const id = String(row.id);
+                  return !strictExcludedIds.has(id) && !existingAfterSynthetic.has(id) && !id.startsWith('mock');
+                })
+                .map((row: any) => ({
+                  id: row.id,
+                  email: row.email || '',
+                  name: row.name || (String(row.email || '').split('@')[0] || 'Explorer'),
+                  age: row.age || 25,
+                  bio: row.bio || '',
+                  location: row.location || '',
+                  photos: row.photos || [],
+                  interests: row.interests || [],
+                  created_at: row.created_at || new Date().toISOString(),
+                  updated_at: row.updated_at || null,
+                  van_type: row.van_type || null,
+                  travel_style: row.travel_style || null,
+                  is_travel_verified: row.is_travel_verified || false,
+                }));
 
-  app.get("/api/usage/:userId", async (req: Request, res: Response) => {
-    try {
-      if (pgPool) {
-        const result = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [req.params.userId]);
-        const profile = result.rows[0];
-        if (!profile) {
-          return res.json({ compatibilityChecks: 0, radarScans: 0 });
+              realProfiles = [...realProfiles, ...supplemental];
+            }
+          } catch {}
         }
 
-        if (shouldResetDaily(Number(profile.last_reset_timestamp) || 0)) {
-          await pgPool.query(
-            `UPDATE user_profiles
-             SET compatibility_checks_this_week = 0,
-                 radar_scans_this_week = 0,
-                 last_reset_timestamp = $2,
-                 updated_at = NOW()
-             WHERE id = $1`,
-            [req.params.userId, Date.now()]
-          );
-          return res.json({ compatibilityChecks: 0, radarScans: 0 });
-        }
+        // Radar visibility rules (ghost mode, night hours, home base, audience) apply to discover too
+        const hiddenIds = await loadRadarHiddenUserIds(userId, realProfiles.map((p: any) => String(p.id)));
+        realProfiles = realProfiles.filter((p: any) => !hiddenIds.has(String(p.id)));
 
-        return res.json({
-          compatibilityChecks: profile.compatibility_checks_this_week || 0,
-          radarScans: profile.radar_scans_this_week || 0,
-        });
+        return res.json(await rankDiscoverCandidates(userId, viewerRes.rows[0] || null, realProfiles, page, prefs.maxDistanceKm));
       }
 
       const sb = getSupabase();
-      const { data, error } = await sb
-        .from('user_profiles')
-        .select('*')
-        .eq('id', req.params.userId)
-        .single();
 
-      if (error || !data) {
-        return res.json({ compatibilityChecks: 0, radarScans: 0 });
+      // Get swiped IDs
+      const { data: swipedData } = await sb
+        .from('swipes')
+        .select('swiped_id')
+        .eq('swiper_id', userId);
+      const swipedIds = (swipedData || []).map(s => s.swiped_id);
+
+      // Get matched IDs
+      const { data: matchesA } = await sb
+        .from('matches')
+        .select('user_b_id')
+        .eq('user_a_id', userId);
+      const { data: matchesB } = await sb
+        .from('matches')
+        .select('user_a_id')
+        .eq('user_b_id', userId);
+
+      const matchedIds = [
+        ...((matchesA || []).map(m => m.user_b_id)),
+        ...((matchesB || []).map(m => m.user_a_id)),
+      ];
+
+      const blockedIds = await loadBlockedUserIds(userId);
+      const strictExcludedIds = new Set([userId, ...swipedIds, ...matchedIds, ...blockedIds]);
+
+      // Without the intents table every Supabase profile is in the default explore_city mode
+      if (prefs.intentModes.length > 0 && !prefs.intentModes.includes("explore_city")) {
+        return res.json([]);
       }
-      const profile = data;
 
-      // Check if we need to reset
-      if (shouldResetDaily(Number(profile.last_reset_timestamp) || 0)) {
-        await sb
+      const buildCandidatesQuery = () => {
+        let candidatesQuery = sb
           .from('user_profiles')
-          .update({
-            compatibility_checks_this_week: 0,
-            radar_scans_this_week: 0,
-            last_reset_timestamp: Date.now(),
-          })
-          .eq('id', req.params.userId);
-        return res.json({ compatibilityChecks: 0, radarScans: 0 });
+          .select('*')
+          .neq('id', userId)
+          .not('id', 'like', 'mock%');
+        if (prefs.minAge !== DISCOVER_MIN_AGE || prefs.maxAge !== DISCOVER_MAX_AGE) {
+          candidatesQuery = candidatesQuery.gte('age', prefs.minAge).lte('age', prefs.maxAge);
+        }
+        if (prefs.verifiedOnly) {
+          candidatesQuery = candidatesQuery.eq('is_travel_verified', true);
+        }
+        if (prefs.lookingFor.length > 0) {
+          candidatesQuery = candidatesQuery.or(prefs.lookingFor.map((item) => `looking_for.cs.["${item}"]`).join(','));
+        }
+        // Case-insensitive like the pg path's LOWER(van_type); pattern and filter-syntax characters become the
+        // single-character wildcard so each van type still matches only names of its own length
+        if (prefs.vanTypes.length > 0) {
+          candidatesQuery = candidatesQuery.or(
+            prefs.vanTypes.map((type) => `van_type.ilike."${type.replace(/[%_*\\"]/g, "_")}"`).join(',')
+          );
+        }
+        return candidatesQuery;
+      };
+      const byRecentUpdate = (a: any, b: any) =>
+        String(b.updated_at || "").localeCompare(String(a.updated_at || "")) || (String(a.id) < String(b.id) ? -1 : 1);
+
+      // Swiped, matched and blocked users are dropped before the pool is filled, as the pg path does in SQL;
+      // the swipe history is too long for a `not in` filter, so pages are read until the pool is full instead
+      const candidates: any[] = [];
+      if (prefs.maxDistanceKm !== null && viewerLocation) {
+        const nearbyIds = (await loadSupabaseUserIdsWithinKm(viewerLocation, prefs.maxDistanceKm + LOCATION_FUZZ_MARGIN_KM))
+          .filter((id) => !strictExcludedIds.has(id));
+        if (nearbyIds.length === 0) return res.json([]);
+        for (const ids of chunkIds(nearbyIds)) {
+          const { data, error } = await buildCandidatesQuery().in('id', ids);
+          if (error) throw error;
+          candidates.push(...(data || []));
+        }
+        candidates.sort(byRecentUpdate);
+      } else {
+        for (let offset = 0; candidates.length < DISCOVER_CANDIDATE_POOL; offset += DISCOVER_CANDIDATE_POOL) {
+          const { data, error } = await buildCandidatesQuery()
+            .order('updated_at', { ascending: false, nullsFirst: false })
+            .order('id', { ascending: true })
+            .range(offset, offset + DISCOVER_CANDIDATE_POOL - 1);
+          if (error) throw error;
+          candidates.push(...(data || []).filter((p: any) => !strictExcludedIds.has(String(p.id))));
+          if (!data || data.length < DISCOVER_CANDIDATE_POOL) break;
+        }
       }
 
-      res.json({
-        compatibilityChecks: profile.compatibility_checks_this_week || 0,
-        radarScans: profile.radar_scans_this_week || 0,
-      });
-    } catch (error) {
-      console.error("Get usage error:", error);
-      res.json({ compatibilityChecks: 0, radarScans: 0 });
-    }
-  });
+      const { data: viewerRows } = await sb.from('user_profiles').select('*').eq('id', userId).limit(1);
 
-  // ==================== TRAVEL LIFESTYLE VERIFICATION ====================
+      // Users hidden by their radar rules are left out before ranking
+      const pool = candidates.slice(0, DISCOVER_CANDIDATE_POOL);
+      const hiddenIds = await loadRadarHiddenUserIds(userId, pool.map((p) => String(p.id)));
+      const realProfiles = pool.filter((p) => !hiddenIds.has(String(p.id)));
 
-  app.get("/api/verification/status/:userId", async (req: Request, res: Response) => {
-    try {
-      const sb = getSupabase();
-      const { data, error } = await sb
-        .from('user_profiles')
-        .select('is_travel_verified, travel_badge')
-        .eq('id', req.params.userId)
-        .single();
-      if (error || !data) {
-        return res.json({ isVerified: false, badge: null });
-      }
-      res.json({
-        isVerified: data.is_travel_verified || false,
-        badge: data.travel_badge || null,
-      });
+      res.json(await rankDiscoverCandidates(userId, viewerRows?.[0] || null, realProfiles, page, prefs.maxDistanceKm));
     } catch (error) {
-      console.error("Get verification status error:", error);
-      res.json({ isVerified: false, badge: null });
+      console.error("Discover profiles error:", error);
+      res.json([]);
     }
   });
 
-  app.post("/api/verification/verify-travel", async (req: Request, res: Response) => {
+  app.post("/api/swipes", requireUserSession((req) => String(req.body?.swiperId || "")), async (req: Request, res: Response) => {
+    // A super like takes its quota slot before the swipe is stored; if the swipe then fails the slot is handed back
+    let reservedHistoryId: string | null = null;
     try {
-      const { userId, photoUrl, secondaryPhotoUrl, answer1, answer2, answer3 } = req.body;
-
-      if (!userId || !photoUrl || !answer1 || !answer2) {
-        return res.status(400).json({ error: "userId, photoUrl, answer1, and answer2 are required" });
+      const { swiperId, swipedId, direction } = req.body;
+      if (!swiperId || !swipedId || !direction) {
+        return res.status(400).json({ error: "swiperId, swipedId, and direction are required" });
+      }
+      if (!isSwipeDirection(direction)) {
+        return res.status(400).json({ error: `direction must be one of: ${SWIPE_DIRECTIONS.join(", ")}` });
+      }
+      if (String(swipedId).startsWith('mock')) {
+        return res.status(400).json({ error: "Mock profiles are disabled" });
       }
 
-      const aiPrompt = `You are an AI Travel Lifestyle Verification Engine.
-
-This is a demo-friendly version.
-Your job is to verify if the user shows signs of being a traveler, outdoor enthusiast, adventurer, cultural explorer, or potential nomad.
-
-You will receive:
-1. Photo URL(s) submitted by the user
-2. Answers to travel questions
-
-The user submitted these photos:
-- Primary photo URL: ${photoUrl}
-${secondaryPhotoUrl ? `- Secondary photo URL: ${secondaryPhotoUrl}` : "- No secondary photo"}
-
-The user answered these questions:
-Q1: "What kind of places do you enjoy traveling to?"
-A1: "${answer1}"
-
-Q2: "Describe your most recent travel experience."
-A2: "${answer2}"
-
-${answer3 ? `Q3: "What do you usually carry when you travel?"
-A3: "${answer3}"` : "Q3 was skipped."}
-
-IMPORTANT: Since you cannot view images directly, evaluate based on the URL context and focus primarily on the quality and authenticity of the written answers.
+      let quota: SwipeQuota | null = null;
+      if (direction === "super") {
+        quota = await loadSwipeQuota(String(swiperId));
+        const historyId = newSwipeHistoryId();
+        const claimed = !isQuotaExhausted(quota.superLikes) && await claimSwipeQuota("claim_super_like", {
+          p_id: historyId,
+          p_swiper_id: String(swiperId),
+          p_swiped_id: String(swipedId),
+          p_limit: quota.superLikes.limit,
+          p_since: new Date(Date.now() - SWIPE_QUOTA_WINDOW_MS).toISOString(),
+          p_now: new Date().toISOString(),
+        });
+        if (!claimed) {
+          return res.status(403).json({
+            error: "Daily super like limit reached",
+            limit: quota.superLikes.limit,
+            used: Math.max(quota.superLikes.used, quota.superLikes.limit),
+            tier: quota.tier,
+            requiresUpgrade: true,
+          });
+        }
+        reservedHistoryId = historyId;
+      }
 
-ANSWER CHECKS:
-- Does the user describe a real travel experience?
-- Do they mention adventure (hiking, camping, exploring), historic or cultural travel (visiting forts, temples, ancient cities, ruins, museums), or travel preferences (solo travel, road trips, nature trips)?
-- Does the answer sound natural and human?
-- Flag overly generic or AI-like answers.
+      const now = new Date().toISOString();
+      let createdMatchId: string | null = null;
+      // Recorded once the swipe and any match are stored, so an undo knows exactly what to reverse
+      const finishSwipe = async (previousDirection: string | null) => {
+        await recordSwipeHistory({
+          swiperId: String(swiperId),
+          swipedId: String(swipedId),
+          direction,
+          previousDirection,
+          matchId: createdMatchId,
+          reservedId: reservedHistoryId,
+        });
+        reservedHistoryId = null;
+        if (direction === "super") {
+          // A super like that completes a match needs no card in the recipient's deck
+          if (!createdMatchId) {
+            notifySuperLike(String(swiperId), String(swipedId)).catch((error) => console.error("Super like notify error:", error));
+          }
+          if (quota) quota = { ...quota, superLikes: { ...quota.superLikes, used: quota.superLikes.used + 1 } };
+        }
+      };
 
-SCORING:
-- Strong, detailed, authentic answers about real travel experiences = higher scores
-- Mentions of historic places, cultural locations, ancient sites = HIGH SCORE BOOST
-- Generic or vague answers = lower scores
-- Give photo_score based on whether a photo URL was provided (base 50 if provided, up to 80 if two photos)
+      if (pgPool) {
+        const previousRes = await pgPool.query(
+          `SELECT direction FROM swipes WHERE swiper_id = $1 AND swiped_id = $2 LIMIT 1`,
+          [swiperId, swipedId]
+        );
+        const previousDirection = previousRes.rows[0]?.direction ?? null;
 
-Return ONLY valid JSON (no markdown, no code blocks):
-{
-  "photo_score": (0-100),
-  "travel_experience_score": (0-100),
-  "final_travel_score": (0-100),
-  "badge": "nomad" | "adventurer" | "explorer" | "none",
-  "verdict": "verified" | "not_verified",
-  "reasons": ["reason 1", "reason 2"],
-  "advice": "short helpful text",
-  "coming_soon": "Advanced Nomad/Vanlifer AI verification will be added in the next release."
-}
+        await pgPool.query(
+          `INSERT INTO swipes (id, swiper_id, swiped_id, direction, created_at)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (swiper_id, swiped_id)
+           DO UPDATE SET direction = EXCLUDED.direction, created_at = EXCLUDED.created_at`,
+          [`swipe_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`, swiperId, swipedId, direction, now]
+        );
 
-Badge assignment:
-- final_travel_score >= 80 -> "explorer"
-- 60-79 -> "adventurer"
-- 40-59 -> "nomad"
-- <40 -> "none" with verdict "not_verified"`;
+        let match: any = null;
+        if (LIKE_DIRECTIONS.includes(direction)) {
+          const reverseSwipe = await pgPool.query(
+            `SELECT id FROM swipes WHERE swiper_id = $1 AND swiped_id = $2 AND direction = ANY($3::text[]) LIMIT 1`,
+            [swipedId, swiperId, LIKE_DIRECTIONS]
+          );
 
-      const aiReply = await callGroqChat([
-        { role: "system", content: "You are a travel lifestyle verification AI. Return ONLY valid JSON. No markdown code blocks." },
-        { role: "user", content: aiPrompt },
-      ]);
+          const shouldInstantMatch = Number(reverseSwipe.rowCount || 0) > 0;
+          if (shouldInstantMatch) {
+            const sorted = [String(swiperId), String(swipedId)].sort();
+            const userA = sorted[0];
+            const userB = sorted[1];
+            const matchId = `match_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
-      let verificationResult;
-      try {
-        const cleaned = aiReply.replace(/```json\s*/g, "").replace(/```\s*/g, "").trim();
-        verificationResult = JSON.parse(cleaned);
-      } catch {
-        verificationResult = {
-          photo_score: photoUrl ? 60 : 0,
-          travel_experience_score: 50,
-          final_travel_score: 55,
-          badge: "nomad",
-          verdict: "verified",
-          reasons: ["Travel answers provided", "Photo submitted"],
-          advice: "Keep exploring and sharing your adventures!",
-          coming_soon: "Advanced Nomad/Vanlifer AI verification will be added in the next release.",
-        };
-      }
+            const existing = await pgPool.query(`SELECT id FROM matches WHERE user_a_id = $1 AND user_b_id = $2 LIMIT 1`, [userA, userB]);
+            const finalMatchId = Number(existing.rowCount || 0) ? String(existing.rows[0].id) : matchId;
 
-      const score = verificationResult.final_travel_score || 0;
-      let badge = verificationResult.badge;
-      let verdict = verificationResult.verdict;
+            if (!Number(existing.rowCount || 0)) {
+              await pgPool.query(`INSERT INTO matches (id, user_a_id, user_b_id, created_at) VALUES ($1, $2, $3, $4)`, [finalMatchId, userA, userB, now]);
+              createdMatchId = finalMatchId;
+            }
 
-      if (score >= 80) badge = "explorer";
-      else if (score >= 60) badge = "adventurer";
-      else if (score >= 40) badge = "nomad";
-      else { badge = "none"; verdict = "not_verified"; }
+            const profileRes = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [swipedId]);
+            if (profileRes.rowCount) {
+              const meta = await loadExploreXMetaForUsers([String(swipedId)]);
+              const enriched = addExploreXProfileFields(profileRes.rows[0], meta);
+              match = {
+                id: finalMatchId,
+                matchedUserId: swipedId,
+                matchedUser: {
+                  id: enriched.id,
+                  email: enriched.email || "",
+                  name: enriched.name || "Nomad",
+                  age: enriched.age || 25,
+                  bio: enriched.bio || "",
+                  location: enriched.location || "On the road",
+                  photos: enriched.photos || [],
+                  interests: enriched.interests || [],
+                  vanType: enriched.van_type || undefined,
+                  travelStyle: enriched.travel_style || undefined,
+                  isTravelVerified: enriched.is_travel_verified || false,
+                  travelBadge: enriched.travel_badge || "none",
+                  intentMode: enriched.intent_mode || "explore_city",
+                  activePlan: enriched.active_plan || null,
+                  trustScore: Number(enriched.trust_score || 0),
+                  meetupCount: Number(enriched.meetup_count || 0),
+                  createdAt: enriched.created_at || now,
+                },
+                createdAt: now,
+              };
+            }
+          }
+        }
 
-      verificationResult.badge = badge;
-      verificationResult.verdict = verdict;
+        await finishSwipe(previousDirection);
+        return res.json({ success: true, match, ...(quota ? { quota } : {}) });
+      }
 
       const sb = getSupabase();
-      const verId = `ver_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      const { data: previousSwipe } = await sb
+        .from('swipes')
+        .select('direction')
+        .eq('swiper_id', swiperId)
+        .eq('swiped_id', swipedId)
+        .maybeSingle();
       await sb
-        .from('travel_verification')
-        .insert({
-          id: verId,
-          user_id: userId,
-          photo_url: photoUrl,
-          secondary_photo_url: secondaryPhotoUrl || null,
-          answer1,
-          answer2,
-          answer3: answer3 || null,
-          status: verdict,
-          badge_type: badge,
-          reviewer_notes: verificationResult.reasons,
-          submitted_at: new Date().toISOString(),
-        });
+        .from('swipes')
+        .upsert({
+          swiper_id: swiperId,
+          swiped_id: swipedId,
+          direction,
+          created_at: now,
+        }, { onConflict: 'swiper_id,swiped_id' });
 
-      if (verdict === "verified") {
-        const { data: existingProfile } = await sb
-          .from('user_profiles')
-          .select('id')
-          .eq('id', userId);
+      const isMockProfile = swipedId.startsWith('mock');
 
-        if (existingProfile && existingProfile.length > 0) {
-          await sb
-            .from('user_profiles')
-            .update({
-              is_travel_verified: true,
-              travel_badge: badge,
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', userId);
-        } else {
-          await sb
+      let match = null;
+      if (direction === "right" && isMockProfile) {
+        // Mock profiles always match back instantly
+        const matchId = `match_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+        const { data: existingMatchA } = await sb
+          .from('matches')
+          .select('id')
+          .eq('user_a_id', swiperId)
+          .eq('user_b_id', swipedId);
+        const { data: existingMatchB } = await sb
+          .from('matches')
+          .select('id')
+          .eq('user_a_id', swipedId)
+          .eq('user_b_id', swiperId);
+        const hasExistingMatch = (existingMatchA && existingMatchA.length > 0) ||
+                                 (existingMatchB && existingMatchB.length > 0);
+        if (!hasExistingMatch) {
+          await sb.from('matches').insert({
+            id: matchId,
+            user_a_id: swiperId,
+            user_b_id: swipedId,
+            created_at: now,
+          });
+          const { data: mp } = await sb
             .from('user_profiles')
-            .insert({
-              id: userId,
-              is_travel_verified: true,
-              travel_badge: badge,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-            });
+            .select('*')
+            .eq('id', swipedId)
+            .single();
+          if (mp) {
+            match = {
+              id: matchId,
+              matchedUserId: swipedId,
+              matchedUser: {
+                id: mp.id,
+                email: mp.email || "",
+                name: mp.name || "Nomad",
+                age: mp.age || 25,
+                bio: mp.bio || "",
+                location: mp.location || "On the road",
+                photos: mp.photos || [],
+                interests: mp.interests || [],
+                vanType: mp.van_type || undefined,
+                travelStyle: mp.travel_style || undefined,
+                isTravelVerified: mp.is_travel_verified || false,
+                travelBadge: mp.travel_badge || "none",
+                createdAt: mp.created_at || new Date().toISOString(),
+              },
+              createdAt: now,
+            };
+          }
+        }
+      } else if (LIKE_DIRECTIONS.includes(direction) && !isMockProfile) {
+        const { data: reverseSwipe } = await sb
+          .from('swipes')
+          .select('id')
+          .eq('swiper_id', swipedId)
+          .eq('swiped_id', swiperId)
+          .in('direction', LIKE_DIRECTIONS);
+
+        if (reverseSwipe && reverseSwipe.length > 0) {
+          // Check for existing match
+          const { data: existingMatchA } = await sb
+            .from('matches')
+            .select('id')
+            .eq('user_a_id', swiperId)
+            .eq('user_b_id', swipedId);
+          const { data: existingMatchB } = await sb
+            .from('matches')
+            .select('id')
+            .eq('user_a_id', swipedId)
+            .eq('user_b_id', swiperId);
+
+          const hasExistingMatch = (existingMatchA && existingMatchA.length > 0) ||
+                                   (existingMatchB && existingMatchB.length > 0);
+
+          if (!hasExistingMatch) {
+            const matchId = `match_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+            await sb
+              .from('matches')
+              .insert({
+                id: matchId,
+                user_a_id: swiperId,
+                user_b_id: swipedId,
+                created_at: now,
+              });
+            createdMatchId = matchId;
+
+            const { data: mp } = await sb
+              .from('user_profiles')
+              .select('*')
+              .eq('id', swipedId)
+              .single();
+
+            if (mp) {
+              match = {
+                id: matchId,
+                matchedUserId: swipedId,
+                matchedUser: {
+                  id: mp.id,
+                  email: mp.email || "",
+                  name: mp.name || "Nomad",
+                  age: mp.age || 25,
+                  bio: mp.bio || "",
+                  location: mp.location || "On the road",
+                  photos: mp.photos || [],
+                  interests: mp.interests || [],
+                  vanType: mp.van_type || undefined,
+                  travelStyle: mp.travel_style || undefined,
+                  isTravelVerified: mp.is_travel_verified || false,
+                  travelBadge: mp.travel_badge || "none",
+                  createdAt: mp.created_at || new Date().toISOString(),
+                },
+                createdAt: now,
+              };
+            }
+          }
         }
       }
 
-      res.json(verificationResult);
+      await finishSwipe(previousSwipe?.direction ?? null);
+      res.json({ success: true, match, ...(quota ? { quota } : {}) });
     } catch (error) {
-      console.error("Travel verification error:", error);
-      res.status(500).json({ error: "Verification failed. Please try again." });
+      console.error("Swipe error:", error);
+      if (reservedHistoryId) {
+        await deleteSwipeHistoryRow(reservedHistoryId).catch((refundError) => console.error("Super like refund error:", refundError));
+      }
+      res.status(500).json({ error: "Failed to record swipe" });
     }
   });
 
-  // ==================== DISCOVER / SWIPES / MATCHES ====================
-
-  app.get("/api/discover/profiles/:userId", async (req: Request, res: Response) => {
+  app.get("/api/swipes/quota/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
-      const { userId } = req.params;
-      if (!userId) return res.status(400).json({ error: "User ID is required" });
-
-      if (pgPool) {
-        const [swipedRes, allProfilesRes] = await Promise.all([
-          pgPool.query(`SELECT swiped_id FROM swipes WHERE swiper_id = $1`, [userId]),
-          pgPool.query(`SELECT * FROM user_profiles WHERE id <> $1 ORDER BY id`, [userId]),
-        ]);
+      res.json(await loadSwipeQuota(String(req.params.userId)));
+    } catch (error) {
+      console.error("Get swipe quota error:", error);
+      res.status(500).json({ error: "Failed to get swipe quota" });
+    }
+  });
 
-        // Keep discover exclusion compatible with both matches schemas.
-        const matchRows: any[] = [];
-        try {
-          const modern = await pgPool.query(
-            `SELECT user_a_id, user_b_id FROM matches WHERE user_a_id = $1 OR user_b_id = $1`,
-            [userId],
-          );
-          matchRows.push(...(modern.rows || []));
-        } catch {}
+  // Rewinds the caller's latest swipe: restores (or clears) the swipe row and removes a match it created
+  app.post("/api/swipes/undo", requireUserSession((req) => String(req.body?.userId || "")), async (req: Request, res: Response) => {
+    const userId = String(req.body?.userId || "");
 
-        try {
-          const legacy = await pgPool.query(
-            `SELECT user_a AS user_a_id, user_b AS user_b_id FROM matches WHERE user_a = $1 OR user_b = $1`,
-            [userId],
-          );
-          matchRows.push(...(legacy.rows || []));
-        } catch {}
+    try {
+      let last: any = null;
+      if (pgPool) {
+        const result = await pgPool.query(
+          `SELECT * FROM swipe_history WHERE swiper_id = $1 AND undone_at IS NULL ORDER BY created_at DESC, id DESC LIMIT 1`,
+          [userId]
+        );
+        last = result.rows[0] || null;
+      } else {
+        const { data, error } = await getSupabase()
+          .from('swipe_history')
+          .select('*')
+          .eq('swiper_id', userId)
+          .is('undone_at', null)
+          .order('created_at', { ascending: false })
+          .limit(1);
+        if (error) throw error;
+        last = data?.[0] || null;
+      }
+      if (!last) return res.status(404).json({ error: "Nothing to undo" });
 
-        const swipedIds = swipedRes.rows.map((row: any) => String(row.swiped_id));
-        const matchedIds = matchRows
-          .map((row: any) =>
-            String(row.user_a_id) === userId ? String(row.user_b_id) : String(row.user_a_id),
-          )
-          .filter((id: string) => id && id !== "null" && id !== "undefined");
+      const swipedId = String(last.swiped_id);
+      const matchId = last.match_id ? String(last.match_id) : null;
+      const now = new Date().toISOString();
 
-        const strictExcludedIds = new Set([userId, ...swipedIds, ...matchedIds]);
+      // Once the pair has started talking the match belongs to both of them, so it is not silently removed
+      if (matchId) {
+        let hasMessages: boolean;
+        if (pgPool) {
+          hasMessages = Number((await pgPool.query(`SELECT 1 FROM chat_messages WHERE match_id = $1 LIMIT 1`, [matchId])).rowCount || 0) > 0;
+        } else {
+          const { data, error } = await getSupabase().from('chat_messages').select('id').eq('match_id', matchId).limit(1);
+          if (error) throw error;
+          hasMessages = (data || []).length > 0;
+        }
+        if (hasMessages) {
+          return res.status(409).json({ error: "You have already started chatting with this match" });
+        }
+      }
 
-        let filtered = allProfilesRes.rows.filter((row: any) => {
-          const id = String(row.id);
-          return !strictExcludedIds.has(id) && !id.startsWith('mock');
+      // Marking the swipe undone is what uses up the rewind, so it happens before anything is reversed
+      const quota = await loadSwipeQuota(userId);
+      const claimed = !isQuotaExhausted(quota.rewinds) && await claimSwipeQuota("claim_rewind", {
+        p_history_id: String(last.id),
+        p_swiper_id: userId,
+        p_limit: quota.rewinds.limit,
+        p_since: new Date(Date.now() - SWIPE_QUOTA_WINDOW_MS).toISOString(),
+        p_now: now,
+      });
+      if (!claimed) {
+        const latest = await loadSwipeQuota(userId);
+        if (!isQuotaExhausted(latest.rewinds)) {
+          return res.status(409).json({ error: "That swipe was already undone" });
+        }
+        return res.status(403).json({
+          error: "Daily rewind limit reached",
+          limit: latest.rewinds.limit,
+          used: latest.rewinds.used,
+          tier: latest.tier,
+          requiresUpgrade: true,
         });
-        let realProfiles = filtered;
-
-        // If user_profiles has very few real rows, also include app_users that don't have profiles yet.
-        if (realProfiles.length < 15) {
-          const appUsersRes = await pgPool.query(
-            `SELECT id, email, name, created_at FROM app_users WHERE id <> $1 ORDER BY created_at DESC LIMIT 100`,
-            [userId]
-          );
+      }
 
-          const existingIds = new Set(realProfiles.map((p: any) => String(p.id)));
-          const syntheticRows = appUsersRes.rows
-            .filter((u: any) => !strictExcludedIds.has(String(u.id)) && !existingIds.has(String(u.id)))
-            .map((u: any) => ({
-              id: u.id,
-              email: u.email,
-              name: u.name || (String(u.email || '').split('@')[0] || 'Explorer'),
-              age: 25,
-              bio: '',
-              location: '',
-              photos: [],
-              interests: [],
-              created_at: u.created_at || new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-            }));
+      try {
+        if (pgPool) {
+          if (matchId) await pgPool.query(`DELETE FROM matches WHERE id = $1`, [matchId]);
+          if (last.previous_direction) {
+            await pgPool.query(
+              `UPDATE swipes SET direction = $3 WHERE swiper_id = $1 AND swiped_id = $2`,
+              [userId, swipedId, last.previous_direction]
+            );
+          } else {
+            await pgPool.query(`DELETE FROM swipes WHERE swiper_id = $1 AND swiped_id = $2`, [userId, swipedId]);
+          }
+        } else {
+          // supabase-js reports failures in the result rather than throwing, so each write is checked like a pg query
+          const sb = getSupabase();
+          if (matchId) {
+            const { error } = await sb.from('matches').delete().eq('id', matchId);
+            if (error) throw error;
+          }
+          const { error } = last.previous_direction
+            ? await sb.from('swipes').update({ direction: last.previous_direction }).eq('swiper_id', userId).eq('swiped_id', swipedId)
+            : await sb.from('swipes').delete().eq('swiper_id', userId).eq('swiped_id', swipedId);
+          if (error) throw error;
+        }
+      } catch (error) {
+        // Hand the rewind back so the swipe can be undone again
+        if (pgPool) {
+          await pgPool.query(`UPDATE swipe_history SET undone_at = NULL WHERE id = $1`, [last.id]).catch(() => {});
+        } else {
+          const { error: restoreError } = await getSupabase().from('swipe_history').update({ undone_at: null }).eq('id', last.id);
+          if (restoreError) console.error("Undo swipe rewind restore error:", restoreError);
+        }
+        throw error;
+      }
 
-          realProfiles = [...realProfiles, ...syntheticRows];
+      if (matchId) {
+        revokeChannel(`match:${matchId}`);
+        publish(`user:${swipedId}`, { type: "match.removed", matchId });
+      }
 
-          // If old users exist in Supabase but not in PG yet, include them too.
-          try {
-            const sb = getSupabase();
-            const { data: sbProfiles } = await sb
-              .from('user_profiles')
-              .select('*')
-              .neq('id', userId)
-              .order('created_at', { ascending: false })
-              .limit(200);
+      // Hand back the card so the client can put it on top of the deck again
+      const [viewerRow, swipedRow] = await Promise.all([loadProfileRow(userId), loadProfileRow(swipedId)]);
+      const [card] = swipedRow
+        ? await rankDiscoverCandidates(userId, viewerRow, [swipedRow], { limit: 1, cursor: null, debug: false })
+        : [];
 
-            if (sbProfiles && sbProfiles.length > 0) {
-              const existingAfterSynthetic = new Set(realProfiles.map((p: any) => String(p.id)));
-              const supplemental = sbProfiles
-                .filter((row: any) => {
-                  const id = String(row.id);
-                  return !strictExcludedIds.has(id) && !existingAfterSynthetic.has(id) && !id.startsWith('mock');
-                })
-                .map((row: any) => ({
-                  id: row.id,
-                  email: row.email || '',
-                  name: row.name || (String(row.email || '').split('@')[0] || 'Explorer'),
-                  age: row.age || 25,
-                  bio: row.bio || '',
-                  location: row.location || '',
-                  photos: row.photos || [],
-                  interests: row.interests || [],
-                  created_at: row.created_at || new Date().toISOString(),
-                  updated_at: row.updated_at || new Date().toISOString(),
-                }));
+      res.json({
+        success: true,
+        swipedId,
+        direction: last.direction,
+        removedMatchId: matchId,
+        card: card || null,
+        quota: { ...quota, rewinds: { ...quota.rewinds, used: quota.rewinds.used + 1 } },
+      });
+    } catch (error) {
+      console.error("Undo swipe error:", error);
+      res.status(500).json({ error: "Failed to undo swipe" });
+    }
+  });
 
-              realProfiles = [...realProfiles, ...supplemental];
-            }
-          } catch {}
+  app.get("/api/matches/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      if (!userId) return res.status(400).json({ error: "User ID is required" });
+
+      if (pgPool) {
+        const matchesRes = await pgPool.query(
+          `SELECT id, user_a_id, user_b_id, created_at FROM matches
+           WHERE user_a_id = $1 OR user_b_id = $1
+           ORDER BY created_at DESC`,
+          [userId]
+        );
+
+        let allMatches = matchesRes.rows;
+        const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
+        const staleIds = allMatches
+          .filter((m: any) => new Date(m.created_at).getTime() < twoHoursAgo)
+          .map((m: any) => String(m.id));
+
+        if (staleIds.length > 0) {
+          const msgRes = await pgPool.query(
+            `SELECT DISTINCT match_id FROM chat_messages WHERE match_id = ANY($1::text[])`,
+            [staleIds]
+          );
+          const active = new Set(msgRes.rows.map((r: any) => String(r.match_id)));
+          allMatches = allMatches.filter((m: any) => {
+            const isOld = new Date(m.created_at).getTime() < twoHoursAgo;
+            return !isOld || active.has(String(m.id));
+          });
         }
 
-        const shuffle = (arr: any[]) => {
-          const copy = [...arr];
-          for (let i = copy.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [copy[i], copy[j]] = [copy[j], copy[i]];
-          }
-          return copy;
-        };
+        allMatches = allMatches.filter((m: any) => {
+          const otherId = String(m.user_a_id) === userId ? String(m.user_b_id) : String(m.user_a_id);
+          return !otherId.startsWith('mock');
+        });
 
-        const DISCOVER_TARGET_COUNT = 20;
-        const shuffledReal = shuffle(realProfiles);
-        filtered = shuffledReal.slice(0, DISCOVER_TARGET_COUNT);
+        const matchedUserIds = allMatches.map((m: any) =>
+          String(m.user_a_id) === userId ? String(m.user_b_id) : String(m.user_a_id)
+        );
+
+        let profilesMap: Record<string, any> = {};
+        if (matchedUserIds.length > 0) {
+          const profRes = await pgPool.query(`SELECT * FROM user_profiles WHERE id = ANY($1::text[])`, [matchedUserIds]);
+          profilesMap = Object.fromEntries(profRes.rows.map((r: any) => [String(r.id), r]));
+        }
 
-        const meta = await loadExploreXMetaForUsers(filtered.map((row: any) => String(row.id)));
-        const profiles = filtered.map((row: any) => {
+        const [meta, unreadByMatch] = await Promise.all([
+          loadExploreXMetaForUsers(matchedUserIds),
+          loadUnreadCounts(String(userId), allMatches.map((m: any) => String(m.id))),
+        ]);
+        const matchList = allMatches.map((m: any) => {
+          const matchedUserId = String(m.user_a_id) === userId ? String(m.user_b_id) : String(m.user_a_id);
+          const row = profilesMap[matchedUserId] || { id: matchedUserId };
           const enriched = addExploreXProfileFields(row, meta);
           return {
-            user: {
-              id: enriched.id,
+            id: String(m.id),
+            matchedUserId,
+            matchedUser: {
+              id: matchedUserId,
               email: enriched.email || "",
               name: enriched.name || "Nomad",
               age: enriched.age || 25,
@@ -4536,74 +10527,87 @@ Badge assignment:
               trustScore: Number(enriched.trust_score || 0),
               meetupCount: Number(enriched.meetup_count || 0),
               createdAt: enriched.created_at || new Date().toISOString(),
-              isMock: String(enriched.id).startsWith('mock'),
             },
-            distance: Math.floor(Math.random() * 50) + 1,
+            createdAt: m.created_at || new Date().toISOString(),
+            unreadCount: unreadByMatch.get(String(m.id)) || 0,
           };
         });
 
-        return res.json(profiles);
+        return res.json(matchList);
       }
 
       const sb = getSupabase();
 
-      // Get swiped IDs
-      const { data: swipedData } = await sb
-        .from('swipes')
-        .select('swiped_id')
-        .eq('swiper_id', userId);
-      const swipedIds = (swipedData || []).map(s => s.swiped_id);
-
-      // Get matched IDs
+      // Get matches where user is either user_a or user_b
       const { data: matchesA } = await sb
         .from('matches')
-        .select('user_b_id')
-        .eq('user_a_id', userId);
+        .select('id, user_a_id, user_b_id, created_at')
+        .eq('user_a_id', userId)
+        .order('created_at', { ascending: false });
       const { data: matchesB } = await sb
         .from('matches')
-        .select('user_a_id')
-        .eq('user_b_id', userId);
+        .select('id, user_a_id, user_b_id, created_at')
+        .eq('user_b_id', userId)
+        .order('created_at', { ascending: false });
 
-      const matchedIds = [
-        ...((matchesA || []).map(m => m.user_b_id)),
-        ...((matchesB || []).map(m => m.user_a_id)),
-      ];
+      let allMatches = [...(matchesA || []), ...(matchesB || [])]
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
 
-      const strictExcludedIds = new Set([userId, ...swipedIds, ...matchedIds]);
+      const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
+      const staleCandidates = allMatches
+        .filter((match) => new Date(match.created_at).getTime() < twoHoursAgo)
+        .map((match) => match.id);
 
-      // Get profiles
-      const { data: allProfiles, error } = await sb
-        .from('user_profiles')
-        .select('*')
-        .neq('id', userId)
-        .order('id');
+      if (staleCandidates.length > 0) {
+        const { data: existingMessages } = await sb
+          .from('chat_messages')
+          .select('match_id')
+          .in('match_id', staleCandidates);
 
-      if (error) throw error;
+        const activeMatchIds = new Set((existingMessages || []).map((row: any) => row.match_id));
+        allMatches = allMatches.filter((match) => {
+          const isOld = new Date(match.created_at).getTime() < twoHoursAgo;
+          if (!isOld) return true;
+          return activeMatchIds.has(match.id);
+        });
+      }
 
-      // Filter out excluded IDs and mock/demo profiles, then shuffle
-      let filtered = (allProfiles || []).filter(p => !strictExcludedIds.has(p.id) && !String(p.id).startsWith('mock'));
+      allMatches = allMatches.filter((m: any) => {
+        const otherId = m.user_a_id === userId ? m.user_b_id : m.user_a_id;
+        return !String(otherId).startsWith('mock');
+      });
 
-      let realProfiles = filtered;
+      // Get matched user IDs
+      const matchedUserIds = allMatches.map(m =>
+        m.user_a_id === userId ? m.user_b_id : m.user_a_id
+      );
 
-      const shuffle = (arr: any[]) => {
-        const copy = [...arr];
-        for (let i = copy.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
-          [copy[i], copy[j]] = [copy[j], copy[i]];
+      let profilesMap: Record<string, any> = {};
+      if (matchedUserIds.length > 0) {
+        const { data: profiles } = await sb
+          .from('user_profiles')
+          .select('*')
+          .in('id', matchedUserIds);
+        if (profiles) {
+          for (const p of profiles) {
+            profilesMap[p.id] = p;
+          }
         }
-        return copy;
-      };
-
-      const DISCOVER_TARGET_COUNT = 20;
-      const shuffledReal = shuffle(realProfiles);
-      filtered = shuffledReal.slice(0, DISCOVER_TARGET_COUNT);
+      }
 
-      const meta = await loadExploreXMetaForUsers((filtered || []).map((row: any) => String(row.id)));
-      const profiles = filtered.map((row: any) => {
-        const enriched = addExploreXProfileFields(row, meta);
+      const [meta, unreadByMatch] = await Promise.all([
+        loadExploreXMetaForUsers(matchedUserIds),
+        loadUnreadCounts(String(userId), allMatches.map((m: any) => String(m.id))),
+      ]);
+      const matchList = allMatches.map((m: any) => {
+        const matchedUserId = m.user_a_id === userId ? m.user_b_id : m.user_a_id;
+        const row = profilesMap[matchedUserId] || {};
+        const enriched = addExploreXProfileFields({ ...row, id: matchedUserId }, meta);
         return {
-          user: {
-            id: enriched.id,
+          id: m.id,
+          matchedUserId,
+          matchedUser: {
+            id: matchedUserId,
             email: enriched.email || "",
             name: enriched.name || "Nomad",
             age: enriched.age || 25,
@@ -4619,1429 +10623,1922 @@ Badge assignment:
             activePlan: enriched.active_plan || null,
             trustScore: Number(enriched.trust_score || 0),
             meetupCount: Number(enriched.meetup_count || 0),
-            createdAt: enriched.created_at || new Date().toISOString(),
-            isMock: String(enriched.id).startsWith('mock'),
+            createdAt: new Date().toISOString(),
           },
-          distance: Math.floor(Math.random() * 50) + 1,
+          createdAt: m.created_at || new Date().toISOString(),
+          unreadCount: unreadByMatch.get(String(m.id)) || 0,
         };
       });
 
-      res.json(profiles);
+      res.json(matchList);
     } catch (error) {
-      console.error("Discover profiles error:", error);
+      console.error("Get matches error:", error);
       res.json([]);
     }
   });
 
-  app.post("/api/swipes", requireUserSession((req) => String(req.body?.swiperId || "")), async (req: Request, res: Response) => {
+  app.delete("/api/matches/:matchId", requireUserSession((req) => String(req.query?.userId || "")), async (req: Request, res: Response) => {
     try {
-      const { swiperId, swipedId, direction } = req.body;
-      if (!swiperId || !swipedId || !direction) {
-        return res.status(400).json({ error: "swiperId, swipedId, and direction are required" });
-      }
-      if (String(swipedId).startsWith('mock')) {
-        return res.status(400).json({ error: "Mock profiles are disabled" });
+      const { matchId } = req.params;
+      const userId = String(req.query.userId || "").trim();
+      if (!matchId || !userId) {
+        return res.status(400).json({ error: "matchId and userId are required" });
       }
 
-      const now = new Date().toISOString();
-
       if (pgPool) {
+        const matchRes = await pgPool.query(
+          `SELECT user_a_id, user_b_id FROM matches WHERE id = $1 LIMIT 1`,
+          [matchId]
+        );
+        if (!matchRes.rowCount) {
+          return res.status(404).json({ error: "Match not found" });
+        }
+
+        const row = matchRes.rows[0] as any;
+        const userA = String(row.user_a_id || "");
+        const userB = String(row.user_b_id || "");
+        if (userId !== userA && userId !== userB) {
+          return res.status(403).json({ error: "Forbidden" });
+        }
+
+        const otherUserId = userId === userA ? userB : userA;
+
+        await pgPool.query(`DELETE FROM chat_messages WHERE match_id = $1`, [matchId]);
+        await pgPool.query(`DELETE FROM matches WHERE id = $1`, [matchId]);
         await pgPool.query(
-          `INSERT INTO swipes (id, swiper_id, swiped_id, direction, created_at)
-           VALUES ($1, $2, $3, $4, $5)
-           ON CONFLICT (swiper_id, swiped_id)
-           DO UPDATE SET direction = EXCLUDED.direction, created_at = EXCLUDED.created_at`,
-          [`swipe_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`, swiperId, swipedId, direction, now]
+          `DELETE FROM swipes WHERE swiper_id = $1 AND swiped_id = $2`,
+          [userId, otherUserId]
+        );
+        revokeChannel(`match:${matchId}`);
+
+        return res.json({ success: true });
+      }
+
+      const sb = getSupabase();
+      const { data: matchRow, error: matchErr } = await sb
+        .from('matches')
+        .select('id, user_a_id, user_b_id')
+        .eq('id', matchId)
+        .limit(1)
+        .maybeSingle();
+      if (matchErr) throw matchErr;
+      if (!matchRow) return res.status(404).json({ error: "Match not found" });
+
+      const userA = String((matchRow as any).user_a_id || "");
+      const userB = String((matchRow as any).user_b_id || "");
+      if (userId !== userA && userId !== userB) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const otherUserId = userId === userA ? userB : userA;
+
+      await sb.from('chat_messages').delete().eq('match_id', matchId);
+      await sb.from('matches').delete().eq('id', matchId);
+      await sb.from('swipes').delete().eq('swiper_id', userId).eq('swiped_id', otherUserId);
+      revokeChannel(`match:${matchId}`);
+
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("Delete match error:", error);
+      return res.status(500).json({ error: "Failed to delete match" });
+    }
+  });
+
+  app.get("/api/swipes/liked/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+
+      if (pgPool) {
+        const swipesRes = await pgPool.query(
+          `SELECT swiped_id, created_at FROM swipes WHERE swiper_id = $1 AND direction = ANY($2::text[]) ORDER BY created_at DESC`,
+          [userId, LIKE_DIRECTIONS]
         );
+        const swipedIds = swipesRes.rows.map((s: any) => String(s.swiped_id));
+        if (swipedIds.length === 0) return res.json([]);
 
-        let match: any = null;
-        if (direction === "right") {
-          const reverseSwipe = await pgPool.query(
-            `SELECT id FROM swipes WHERE swiper_id = $1 AND swiped_id = $2 AND direction = 'right' LIMIT 1`,
-            [swipedId, swiperId]
+        // Exclude matched users (keep only right-swiped but not matched).
+        const matchRows: any[] = [];
+        try {
+          const modern = await pgPool.query(
+            `SELECT user_a_id, user_b_id FROM matches WHERE user_a_id = $1 OR user_b_id = $1`,
+            [userId],
+          );
+          matchRows.push(...(modern.rows || []));
+        } catch {}
+        try {
+          const legacy = await pgPool.query(
+            `SELECT user_a AS user_a_id, user_b AS user_b_id FROM matches WHERE user_a = $1 OR user_b = $1`,
+            [userId],
           );
+          matchRows.push(...(legacy.rows || []));
+        } catch {}
 
-          const shouldInstantMatch = Number(reverseSwipe.rowCount || 0) > 0;
-          if (shouldInstantMatch) {
-            const sorted = [String(swiperId), String(swipedId)].sort();
-            const userA = sorted[0];
-            const userB = sorted[1];
-            const matchId = `match_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+        const matchedIds = new Set(
+          matchRows
+            .map((row: any) =>
+              String(row.user_a_id) === userId ? String(row.user_b_id) : String(row.user_a_id),
+            )
+            .filter((id: string) => id && id !== "null" && id !== "undefined")
+        );
 
-            const existing = await pgPool.query(`SELECT id FROM matches WHERE user_a_id = $1 AND user_b_id = $2 LIMIT 1`, [userA, userB]);
-            const finalMatchId = Number(existing.rowCount || 0) ? String(existing.rows[0].id) : matchId;
+        const filteredIds = swipedIds.filter((id: string) => !String(id).startsWith('mock') && !matchedIds.has(String(id)));
+        if (filteredIds.length === 0) return res.json([]);
 
-            if (!Number(existing.rowCount || 0)) {
-              await pgPool.query(`INSERT INTO matches (id, user_a_id, user_b_id, created_at) VALUES ($1, $2, $3, $4)`, [finalMatchId, userA, userB, now]);
-            }
+        const profilesRes = await pgPool.query(`SELECT * FROM user_profiles WHERE id = ANY($1::text[])`, [filteredIds]);
+        const profileMap = Object.fromEntries((profilesRes.rows || []).map((row: any) => [String(row.id), row]));
 
-            const profileRes = await pgPool.query(`SELECT * FROM user_profiles WHERE id = $1 LIMIT 1`, [swipedId]);
-            if (profileRes.rowCount) {
-              const meta = await loadExploreXMetaForUsers([String(swipedId)]);
-              const enriched = addExploreXProfileFields(profileRes.rows[0], meta);
-              match = {
-                id: finalMatchId,
-                matchedUserId: swipedId,
-                matchedUser: {
-                  id: enriched.id,
-                  email: enriched.email || "",
-                  name: enriched.name || "Nomad",
-                  age: enriched.age || 25,
-                  bio: enriched.bio || "",
-                  location: enriched.location || "On the road",
-                  photos: enriched.photos || [],
-                  interests: enriched.interests || [],
-                  vanType: enriched.van_type || undefined,
-                  travelStyle: enriched.travel_style || undefined,
-                  isTravelVerified: enriched.is_travel_verified || false,
-                  travelBadge: enriched.travel_badge || "none",
-                  intentMode: enriched.intent_mode || "explore_city",
-                  activePlan: enriched.active_plan || null,
-                  trustScore: Number(enriched.trust_score || 0),
-                  meetupCount: Number(enriched.meetup_count || 0),
-                  createdAt: enriched.created_at || now,
-                },
-                createdAt: now,
-              };
-            }
+        // Some discover cards come from app_users without a user_profiles row yet.
+        const missingIds = filteredIds.filter((id: string) => !profileMap[id]);
+        if (missingIds.length > 0) {
+          const usersRes = await pgPool.query(
+            `SELECT id, email, name, created_at FROM app_users WHERE id = ANY($1::text[])`,
+            [missingIds],
+          );
+          for (const u of usersRes.rows || []) {
+            profileMap[String(u.id)] = {
+              id: u.id,
+              email: u.email || "",
+              name: u.name || (String(u.email || '').split('@')[0] || 'Explorer'),
+              age: 25,
+              bio: "",
+              location: "",
+              photos: [],
+              interests: [],
+              created_at: u.created_at || new Date().toISOString(),
+            };
           }
         }
 
-        return res.json({ success: true, match });
+        const likedProfiles = filteredIds
+          .map((id: string) => profileMap[id])
+          .filter(Boolean)
+          .map((row: any) => ({
+            id: row.id,
+            email: row.email || "",
+            name: row.name || "Nomad",
+            age: row.age || 25,
+            bio: row.bio || "",
+            location: row.location || "On the road",
+            photos: row.photos || [],
+            interests: row.interests || [],
+            vanType: row.van_type || undefined,
+            travelStyle: row.travel_style || undefined,
+            createdAt: row.created_at || new Date().toISOString(),
+          }));
+
+        return res.json(likedProfiles);
       }
 
       const sb = getSupabase();
-      await sb
-        .from('swipes')
-        .upsert({
-          swiper_id: swiperId,
-          swiped_id: swipedId,
-          direction,
-          created_at: now,
-        }, { onConflict: 'swiper_id,swiped_id' });
 
-      const isMockProfile = swipedId.startsWith('mock');
+      // Get right swipes and super likes
+      const { data: swipes } = await sb
+        .from('swipes')
+        .select('swiped_id, created_at')
+        .eq('swiper_id', userId)
+        .in('direction', LIKE_DIRECTIONS)
+        .order('created_at', { ascending: false });
 
-      let match = null;
-      if (direction === "right" && isMockProfile) {
-        // Mock profiles always match back instantly
-        const matchId = `match_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-        const { data: existingMatchA } = await sb
-          .from('matches')
-          .select('id')
-          .eq('user_a_id', swiperId)
-          .eq('user_b_id', swipedId);
-        const { data: existingMatchB } = await sb
-          .from('matches')
-          .select('id')
-          .eq('user_a_id', swipedId)
-          .eq('user_b_id', swiperId);
-        const hasExistingMatch = (existingMatchA && existingMatchA.length > 0) ||
-                                 (existingMatchB && existingMatchB.length > 0);
-        if (!hasExistingMatch) {
-          await sb.from('matches').insert({
-            id: matchId,
-            user_a_id: swiperId,
-            user_b_id: swipedId,
-            created_at: now,
-          });
-          const { data: mp } = await sb
-            .from('user_profiles')
-            .select('*')
-            .eq('id', swipedId)
-            .single();
-          if (mp) {
-            match = {
-              id: matchId,
-              matchedUserId: swipedId,
-              matchedUser: {
-                id: mp.id,
-                email: mp.email || "",
-                name: mp.name || "Nomad",
-                age: mp.age || 25,
-                bio: mp.bio || "",
-                location: mp.location || "On the road",
-                photos: mp.photos || [],
-                interests: mp.interests || [],
-                vanType: mp.van_type || undefined,
-                travelStyle: mp.travel_style || undefined,
-                isTravelVerified: mp.is_travel_verified || false,
-                travelBadge: mp.travel_badge || "none",
-                createdAt: mp.created_at || new Date().toISOString(),
-              },
-              createdAt: now,
-            };
-          }
-        }
-      } else if (direction === "right" && !isMockProfile) {
-        const { data: reverseSwipe } = await sb
-          .from('swipes')
-          .select('id')
-          .eq('swiper_id', swipedId)
-          .eq('swiped_id', swiperId)
-          .eq('direction', 'right');
+      if (!swipes || swipes.length === 0) {
+        return res.json([]);
+      }
 
-        if (reverseSwipe && reverseSwipe.length > 0) {
-          // Check for existing match
-          const { data: existingMatchA } = await sb
-            .from('matches')
-            .select('id')
-            .eq('user_a_id', swiperId)
-            .eq('user_b_id', swipedId);
-          const { data: existingMatchB } = await sb
-            .from('matches')
-            .select('id')
-            .eq('user_a_id', swipedId)
-            .eq('user_b_id', swiperId);
+      const swipedIds = swipes.map(s => s.swiped_id).filter((id: string) => !String(id).startsWith('mock'));
 
-          const hasExistingMatch = (existingMatchA && existingMatchA.length > 0) ||
-                                   (existingMatchB && existingMatchB.length > 0);
+      const filteredIds = swipedIds;
 
-          if (!hasExistingMatch) {
-            const matchId = `match_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-            await sb
-              .from('matches')
-              .insert({
-                id: matchId,
-                user_a_id: swiperId,
-                user_b_id: swipedId,
-                created_at: now,
-              });
+      if (filteredIds.length === 0) {
+        return res.json([]);
+      }
 
-            const { data: mp } = await sb
-              .from('user_profiles')
-              .select('*')
-              .eq('id', swipedId)
-              .single();
+      const { data: profiles } = await sb
+        .from('user_profiles')
+        .select('*')
+        .in('id', filteredIds);
 
-            if (mp) {
-              match = {
-                id: matchId,
-                matchedUserId: swipedId,
-                matchedUser: {
-                  id: mp.id,
-                  email: mp.email || "",
-                  name: mp.name || "Nomad",
-                  age: mp.age || 25,
-                  bio: mp.bio || "",
-                  location: mp.location || "On the road",
-                  photos: mp.photos || [],
-                  interests: mp.interests || [],
-                  vanType: mp.van_type || undefined,
-                  travelStyle: mp.travel_style || undefined,
-                  isTravelVerified: mp.is_travel_verified || false,
-                  travelBadge: mp.travel_badge || "none",
-                  createdAt: mp.created_at || new Date().toISOString(),
-                },
-                createdAt: now,
-              };
-            }
-          }
-        }
-      }
+      const profileMap = Object.fromEntries((profiles || []).map((row: any) => [String(row.id), row]));
+      const likedProfiles = filteredIds
+        .map((id: string) => profileMap[String(id)])
+        .filter(Boolean)
+        .map((row: any) => ({
+        id: row.id,
+        email: row.email || "",
+        name: row.name || "Nomad",
+        age: row.age || 25,
+        bio: row.bio || "",
+        location: row.location || "On the road",
+        photos: row.photos || [],
+        interests: row.interests || [],
+        vanType: row.van_type || undefined,
+        travelStyle: row.travel_style || undefined,
+        createdAt: row.created_at || new Date().toISOString(),
+      }));
 
-      res.json({ success: true, match });
+      res.json(likedProfiles);
     } catch (error) {
-      console.error("Swipe error:", error);
-      res.status(500).json({ error: "Failed to record swipe" });
+      console.error("Get liked profiles error:", error);
+      res.json([]);
     }
   });
 
-  app.get("/api/matches/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+  app.post("/api/seed/mock-swipes", async (req: Request, res: Response) => {
     try {
-      const { userId } = req.params;
-      if (!userId) return res.status(400).json({ error: "User ID is required" });
-
-      if (pgPool) {
-        const matchesRes = await pgPool.query(
-          `SELECT id, user_a_id, user_b_id, created_at FROM matches
-           WHERE user_a_id = $1 OR user_b_id = $1
-           ORDER BY created_at DESC`,
-          [userId]
-        );
+      const sb = getSupabase();
+      const { data: mockIds } = await sb
+        .from('user_profiles')
+        .select('id')
+        .like('id', 'mock%');
+      const { data: realIds } = await sb
+        .from('user_profiles')
+        .select('id')
+        .not('id', 'like', 'mock%');
 
-        let allMatches = matchesRes.rows;
-        const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
-        const staleIds = allMatches
-          .filter((m: any) => new Date(m.created_at).getTime() < twoHoursAgo)
-          .map((m: any) => String(m.id));
+      if (!mockIds || mockIds.length === 0 || !realIds || realIds.length === 0) {
+        return res.json({ message: "No mock or real profiles found", seeded: 0 });
+      }
 
-        if (staleIds.length > 0) {
-          const msgRes = await pgPool.query(
-            `SELECT DISTINCT match_id FROM chat_messages WHERE match_id = ANY($1::text[])`,
-            [staleIds]
-          );
-          const active = new Set(msgRes.rows.map((r: any) => String(r.match_id)));
-          allMatches = allMatches.filter((m: any) => {
-            const isOld = new Date(m.created_at).getTime() < twoHoursAgo;
-            return !isOld || active.has(String(m.id));
-          });
+      let seeded = 0;
+      const now = new Date().toISOString();
+      for (const mock of mockIds) {
+        for (const real of realIds) {
+          await sb
+            .from('swipes')
+            .upsert({
+              id: `seed_${mock.id}_${real.id}`,
+              swiper_id: mock.id,
+              swiped_id: real.id,
+              direction: 'right',
+              created_at: now,
+            }, { onConflict: 'swiper_id,swiped_id' });
+          seeded++;
         }
+      }
 
-        allMatches = allMatches.filter((m: any) => {
-          const otherId = String(m.user_a_id) === userId ? String(m.user_b_id) : String(m.user_a_id);
-          return !otherId.startsWith('mock');
-        });
-
-        const matchedUserIds = allMatches.map((m: any) =>
-          String(m.user_a_id) === userId ? String(m.user_b_id) : String(m.user_a_id)
-        );
-
-        let profilesMap: Record<string, any> = {};
-        if (matchedUserIds.length > 0) {
-          const profRes = await pgPool.query(`SELECT * FROM user_profiles WHERE id = ANY($1::text[])`, [matchedUserIds]);
-          profilesMap = Object.fromEntries(profRes.rows.map((r: any) => [String(r.id), r]));
-        }
+      res.json({ message: "Mock swipes seeded", seeded, mockCount: mockIds.length, realCount: realIds.length });
+    } catch (error) {
+      console.error("Seed mock swipes error:", error);
+      res.status(500).json({ error: "Failed to seed mock swipes" });
+    }
+  });
 
-        const meta = await loadExploreXMetaForUsers(matchedUserIds);
-        const matchList = allMatches.map((m: any) => {
-          const matchedUserId = String(m.user_a_id) === userId ? String(m.user_b_id) : String(m.user_a_id);
-          const row = profilesMap[matchedUserId] || { id: matchedUserId };
-          const enriched = addExploreXProfileFields(row, meta);
-          return {
-            id: String(m.id),
-            matchedUserId,
-            matchedUser: {
-              id: matchedUserId,
-              email: enriched.email || "",
-              name: enriched.name || "Nomad",
-              age: enriched.age || 25,
-              bio: enriched.bio || "",
-              location: enriched.location || "On the road",
-              photos: enriched.photos || [],
-              interests: enriched.interests || [],
-              vanType: enriched.van_type || undefined,
-              travelStyle: enriched.travel_style || undefined,
-              isTravelVerified: enriched.is_travel_verified || false,
-              travelBadge: enriched.travel_badge || "none",
-              intentMode: enriched.intent_mode || "explore_city",
-              activePlan: enriched.active_plan || null,
-              trustScore: Number(enriched.trust_score || 0),
-              meetupCount: Number(enriched.meetup_count || 0),
-              createdAt: enriched.created_at || new Date().toISOString(),
-            },
-            createdAt: m.created_at || new Date().toISOString(),
-          };
-        });
+  app.post("/api/swipes/reset/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      if (!userId) return res.status(400).json({ error: "User ID required" });
 
-        return res.json(matchList);
+      if (pgPool) {
+        await pgPool.query(`DELETE FROM swipes WHERE swiper_id = $1`, [userId]);
+        return res.json({ message: "Swipes reset successfully" });
       }
 
       const sb = getSupabase();
+      await sb
+        .from('swipes')
+        .delete()
+        .eq('swiper_id', userId);
+      res.json({ message: "Swipes reset successfully" });
+    } catch (error) {
+      console.error("Reset swipes error:", error);
+      res.status(500).json({ error: "Failed to reset swipes" });
+    }
+  });
 
-      // Get matches where user is either user_a or user_b
-      const { data: matchesA } = await sb
-        .from('matches')
-        .select('id, user_a_id, user_b_id, created_at')
-        .eq('user_a_id', userId)
-        .order('created_at', { ascending: false });
-      const { data: matchesB } = await sb
-        .from('matches')
-        .select('id, user_a_id, user_b_id, created_at')
-        .eq('user_b_id', userId)
-        .order('created_at', { ascending: false });
-
-      let allMatches = [...(matchesA || []), ...(matchesB || [])]
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-
-      const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
-      const staleCandidates = allMatches
-        .filter((match) => new Date(match.created_at).getTime() < twoHoursAgo)
-        .map((match) => match.id);
-
-      if (staleCandidates.length > 0) {
-        const { data: existingMessages } = await sb
-          .from('chat_messages')
-          .select('match_id')
-          .in('match_id', staleCandidates);
+  // ==========================================
+  // EXPERT APPLICATION ROUTES
+  // ==========================================
 
-        const activeMatchIds = new Set((existingMessages || []).map((row: any) => row.match_id));
-        allMatches = allMatches.filter((match) => {
-          const isOld = new Date(match.created_at).getTime() < twoHoursAgo;
-          if (!isOld) return true;
-          return activeMatchIds.has(match.id);
-        });
-      }
+  app.post("/api/expert/apply", async (req: Request, res: Response) => {
+    try {
+      const {
+        userId, resumeUrl, resumeText, portfolioUrls, specialization,
+        experienceYears, skills, projectDescriptions, introVideoUrl, hourlyRate
+      } = req.body;
 
-      allMatches = allMatches.filter((m: any) => {
-        const otherId = m.user_a_id === userId ? m.user_b_id : m.user_a_id;
-        return !String(otherId).startsWith('mock');
-      });
+      if (!userId) return res.status(400).json({ error: "User ID required" });
 
-      // Get matched user IDs
-      const matchedUserIds = allMatches.map(m =>
-        m.user_a_id === userId ? m.user_b_id : m.user_a_id
-      );
+      const sb = getSupabase();
+      const { data: existing } = await sb
+        .from('expert_applications')
+        .select('id, status')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1);
 
-      let profilesMap: Record<string, any> = {};
-      if (matchedUserIds.length > 0) {
-        const { data: profiles } = await sb
-          .from('user_profiles')
-          .select('*')
-          .in('id', matchedUserIds);
-        if (profiles) {
-          for (const p of profiles) {
-            profilesMap[p.id] = p;
-          }
-        }
+      if (existing && existing.length > 0 && ['pending', 'approved'].includes(existing[0].status)) {
+        return res.status(400).json({ error: "You already have an active application", existing: existing[0] });
       }
 
-      const meta = await loadExploreXMetaForUsers(matchedUserIds);
-      const matchList = allMatches.map((m: any) => {
-        const matchedUserId = m.user_a_id === userId ? m.user_b_id : m.user_a_id;
-        const row = profilesMap[matchedUserId] || {};
-        const enriched = addExploreXProfileFields({ ...row, id: matchedUserId }, meta);
-        return {
-          id: m.id,
-          matchedUserId,
-          matchedUser: {
-            id: matchedUserId,
-            email: enriched.email || "",
-            name: enriched.name || "Nomad",
-            age: enriched.age || 25,
-            bio: enriched.bio || "",
-            location: enriched.location || "On the road",
-            photos: enriched.photos || [],
-            interests: enriched.interests || [],
-            vanType: enriched.van_type || undefined,
-            travelStyle: enriched.travel_style || undefined,
-            isTravelVerified: enriched.is_travel_verified || false,
-            travelBadge: enriched.travel_badge || "none",
-            intentMode: enriched.intent_mode || "explore_city",
-            activePlan: enriched.active_plan || null,
-            trustScore: Number(enriched.trust_score || 0),
-            meetupCount: Number(enriched.meetup_count || 0),
-            createdAt: new Date().toISOString(),
-          },
-          createdAt: m.created_at || new Date().toISOString(),
-        };
-      });
+      const { data: result, error } = await sb
+        .from('expert_applications')
+        .insert({
+          user_id: userId,
+          resume_url: resumeUrl || null,
+          resume_text: resumeText || null,
+          portfolio_urls: portfolioUrls || [],
+          specialization,
+          experience_years: experienceYears,
+          skills: skills || [],
+          project_descriptions: projectDescriptions || [],
+          intro_video_url: introVideoUrl || null,
+          hourly_rate: hourlyRate,
+          status: 'pending',
+        })
+        .select()
+        .single();
 
-      res.json(matchList);
+      if (error) throw error;
+      res.json({ application: result });
     } catch (error) {
-      console.error("Get matches error:", error);
-      res.json([]);
+      console.error("Expert apply error:", error);
+      res.status(500).json({ error: "Failed to submit application" });
     }
   });
 
-  app.delete("/api/matches/:matchId", requireUserSession((req) => String(req.query?.userId || "")), async (req: Request, res: Response) => {
+  app.get("/api/expert/status/:userId", async (req: Request, res: Response) => {
     try {
-      const { matchId } = req.params;
-      const userId = String(req.query.userId || "").trim();
-      if (!matchId || !userId) {
-        return res.status(400).json({ error: "matchId and userId are required" });
-      }
-
-      if (pgPool) {
-        const matchRes = await pgPool.query(
-          `SELECT user_a_id, user_b_id FROM matches WHERE id = $1 LIMIT 1`,
-          [matchId]
-        );
-        if (!matchRes.rowCount) {
-          return res.status(404).json({ error: "Match not found" });
-        }
-
-        const row = matchRes.rows[0] as any;
-        const userA = String(row.user_a_id || "");
-        const userB = String(row.user_b_id || "");
-        if (userId !== userA && userId !== userB) {
-          return res.status(403).json({ error: "Forbidden" });
-        }
-
-        const otherUserId = userId === userA ? userB : userA;
-
-        await pgPool.query(`DELETE FROM chat_messages WHERE match_id = $1`, [matchId]);
-        await pgPool.query(`DELETE FROM matches WHERE id = $1`, [matchId]);
-        await pgPool.query(
-          `DELETE FROM swipes WHERE swiper_id = $1 AND swiped_id = $2`,
-          [userId, otherUserId]
-        );
+      const { userId } = req.params;
+      const sb = getSupabase();
+      const { data } = await sb
+        .from('expert_applications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1);
 
-        return res.json({ success: true });
+      if (!data || data.length === 0) {
+        return res.json({ application: null });
       }
+      res.json({ application: data[0] });
+    } catch (error) {
+      console.error("Expert status error:", error);
+      res.status(500).json({ error: "Failed to get status" });
+    }
+  });
 
+  app.post("/api/expert/verify/:applicationId", async (req: Request, res: Response) => {
+    try {
+      const { applicationId } = req.params;
       const sb = getSupabase();
-      const { data: matchRow, error: matchErr } = await sb
-        .from('matches')
-        .select('id, user_a_id, user_b_id')
-        .eq('id', matchId)
-        .limit(1)
-        .maybeSingle();
-      if (matchErr) throw matchErr;
-      if (!matchRow) return res.status(404).json({ error: "Match not found" });
 
-      const userA = String((matchRow as any).user_a_id || "");
-      const userB = String((matchRow as any).user_b_id || "");
-      if (userId !== userA && userId !== userB) {
-        return res.status(403).json({ error: "Forbidden" });
+      const { data: appData, error: appError } = await sb
+        .from('expert_applications')
+        .select('*')
+        .eq('id', applicationId)
+        .single();
+
+      if (appError || !appData) {
+        return res.status(404).json({ error: "Application not found" });
       }
+      const application = appData;
 
-      const otherUserId = userId === userA ? userB : userA;
+      const verificationPrompt = `You are an AI Expert Verification Engine.
 
-      await sb.from('chat_messages').delete().eq('match_id', matchId);
-      await sb.from('matches').delete().eq('id', matchId);
-      await sb.from('swipes').delete().eq('swiper_id', userId).eq('swiped_id', otherUserId);
+Your job is to verify if the applicant is qualified to be a Van Build Expert.
 
-      return res.json({ success: true });
-    } catch (error) {
-      console.error("Delete match error:", error);
-      return res.status(500).json({ error: "Failed to delete match" });
-    }
-  });
+You will receive:
+1. Resume text: ${application.resume_text || "Not provided"}
+2. Portfolio photos count: ${(application.portfolio_urls || []).length}
+3. Skills list: ${JSON.stringify(application.skills || [])}
+4. Experience years: ${application.experience_years || 0}
+5. Specialization: ${application.specialization || "Not specified"}
+6. Past projects: ${JSON.stringify(application.project_descriptions || [])}
+7. Hourly rate: $${application.hourly_rate || 0}/hr
+8. Has intro video: ${application.intro_video_url ? "Yes" : "No"}
 
-  app.get("/api/swipes/liked/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
-    try {
-      const { userId } = req.params;
+Analyze:
 
-      if (pgPool) {
-        const swipesRes = await pgPool.query(
-          `SELECT swiped_id, created_at FROM swipes WHERE swiper_id = $1 AND direction = 'right' ORDER BY created_at DESC`,
-          [userId]
-        );
-        const swipedIds = swipesRes.rows.map((s: any) => String(s.swiped_id));
-        if (swipedIds.length === 0) return res.json([]);
+RESUME CHECK:
+- Is experience real and detailed?
+- Are skills realistic for van building?
+- Does experience match claimed specialization?
 
-        // Exclude matched users (keep only right-swiped but not matched).
-        const matchRows: any[] = [];
-        try {
-          const modern = await pgPool.query(
-            `SELECT user_a_id, user_b_id FROM matches WHERE user_a_id = $1 OR user_b_id = $1`,
-            [userId],
-          );
-          matchRows.push(...(modern.rows || []));
-        } catch {}
-        try {
-          const legacy = await pgPool.query(
-            `SELECT user_a AS user_a_id, user_b AS user_b_id FROM matches WHERE user_a = $1 OR user_b = $1`,
-            [userId],
-          );
-          matchRows.push(...(legacy.rows || []));
-        } catch {}
+PORTFOLIO CHECK:
+- Number of portfolio items provided (more = better)
+- Consider if portfolio count matches claimed experience
 
-        const matchedIds = new Set(
-          matchRows
-            .map((row: any) =>
-              String(row.user_a_id) === userId ? String(row.user_b_id) : String(row.user_a_id),
-            )
-            .filter((id: string) => id && id !== "null" && id !== "undefined")
-        );
+SKILL ALIGNMENT:
+- Do skills match specialization?
+- Are electrical/woodworking/plumbing skills legitimate for van building?
 
-        const filteredIds = swipedIds.filter((id: string) => !String(id).startsWith('mock') && !matchedIds.has(String(id)));
-        if (filteredIds.length === 0) return res.json([]);
+EXPERIENCE CHECK:
+- Are past projects detailed and believable?
+- Do processes and terminology match real van builders?
 
-        const profilesRes = await pgPool.query(`SELECT * FROM user_profiles WHERE id = ANY($1::text[])`, [filteredIds]);
-        const profileMap = Object.fromEntries((profilesRes.rows || []).map((row: any) => [String(row.id), row]));
+Return ONLY valid JSON (no markdown, no explanation):
+{
+  "portfolio_score": <0-100>,
+  "resume_score": <0-100>,
+  "skill_alignment_score": <0-100>,
+  "experience_score": <0-100>,
+  "final_expert_score": <0-100>,
+  "verdict": "approved" | "manual_review" | "rejected",
+  "badge": "expert" | "pro_expert" | "none",
+  "reasons": ["reason1","reason2"],
+  "advice": "short helpful text"
+}
 
-        // Some discover cards come from app_users without a user_profiles row yet.
-        const missingIds = filteredIds.filter((id: string) => !profileMap[id]);
-        if (missingIds.length > 0) {
-          const usersRes = await pgPool.query(
-            `SELECT id, email, name, created_at FROM app_users WHERE id = ANY($1::text[])`,
-            [missingIds],
-          );
-          for (const u of usersRes.rows || []) {
-            profileMap[String(u.id)] = {
-              id: u.id,
-              email: u.email || "",
-              name: u.name || (String(u.email || '').split('@')[0] || 'Explorer'),
-              age: 25,
-              bio: "",
-              location: "",
-              photos: [],
-              interests: [],
-              created_at: u.created_at || new Date().toISOString(),
-            };
-          }
-        }
+Scoring rules:
+- final_expert_score >= 80 → verdict "approved", badge "pro_expert"
+- 60-79 → verdict "approved", badge "expert"
+- 40-59 → verdict "manual_review", badge "none"
+- below 40 → verdict "rejected", badge "none"`;
 
-        const likedProfiles = filteredIds
-          .map((id: string) => profileMap[id])
-          .filter(Boolean)
-          .map((row: any) => ({
-            id: row.id,
-            email: row.email || "",
-            name: row.name || "Nomad",
-            age: row.age || 25,
-            bio: row.bio || "",
-            location: row.location || "On the road",
-            photos: row.photos || [],
-            interests: row.interests || [],
-            vanType: row.van_type || undefined,
-            travelStyle: row.travel_style || undefined,
-            createdAt: row.created_at || new Date().toISOString(),
-          }));
+      const aiResponse = await callGroqChat([
+        { role: "system", content: "You are an expert verification AI. Return ONLY valid JSON." },
+        { role: "user", content: verificationPrompt }
+      ]);
 
-        return res.json(likedProfiles);
+      let verification;
+      try {
+        const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
+        verification = JSON.parse(jsonMatch ? jsonMatch[0] : aiResponse);
+      } catch {
+        verification = {
+          portfolio_score: 50, resume_score: 50, skill_alignment_score: 50,
+          experience_score: 50, final_expert_score: 50,
+          verdict: "manual_review", badge: "none",
+          reasons: ["AI could not parse response properly"],
+          advice: "Your application needs manual review."
+        };
       }
 
-      const sb = getSupabase();
+      const status = verification.verdict === "approved" ? "approved" :
+                     verification.verdict === "manual_review" ? "manual_review" : "rejected";
+      const badge = verification.badge || "none";
 
-      // Get right swipes
-      const { data: swipes } = await sb
-        .from('swipes')
-        .select('swiped_id, created_at')
-        .eq('swiper_id', userId)
-        .eq('direction', 'right')
-        .order('created_at', { ascending: false });
+      await sb
+        .from('expert_applications')
+        .update({
+          status,
+          ai_score: verification.final_expert_score,
+          expert_badge: badge,
+          reasons: verification.reasons,
+          advice: verification.advice,
+          portfolio_score: verification.portfolio_score,
+          resume_score: verification.resume_score,
+          skill_alignment_score: verification.skill_alignment_score,
+          experience_score: verification.experience_score,
+        })
+        .eq('id', applicationId);
 
-      if (!swipes || swipes.length === 0) {
-        return res.json([]);
+      if (status === "approved") {
+        await sb
+          .from('user_profiles')
+          .update({ is_expert: true, expert_badge: badge })
+          .eq('id', application.user_id);
       }
 
-      const swipedIds = swipes.map(s => s.swiped_id).filter((id: string) => !String(id).startsWith('mock'));
+      res.json({ verification, status, badge });
+    } catch (error) {
+      console.error("Expert verify error:", error);
+      res.status(500).json({ error: "Failed to verify application" });
+    }
+  });
+
+  app.get("/api/experts", async (_req: Request, res: Response) => {
+    try {
+      const sb = getSupabase();
 
-      const filteredIds = swipedIds;
+      // Get approved expert applications
+      const { data: expertApps, error } = await sb
+        .from('expert_applications')
+        .select('*')
+        .eq('status', 'approved')
+        .order('ai_score', { ascending: false, nullsFirst: false });
+      if (error) throw error;
 
-      if (filteredIds.length === 0) {
-        return res.json([]);
+      if (!expertApps || expertApps.length === 0) {
+        return res.json({ experts: [] });
       }
 
+      // Get user profiles for these experts
+      const userIds = expertApps.map(e => e.user_id);
       const { data: profiles } = await sb
         .from('user_profiles')
-        .select('*')
-        .in('id', filteredIds);
+        .select('id, name, photos, location, expert_rating, reviews_count')
+        .in('id', userIds);
 
-      const profileMap = Object.fromEntries((profiles || []).map((row: any) => [String(row.id), row]));
-      const likedProfiles = filteredIds
-        .map((id: string) => profileMap[String(id)])
-        .filter(Boolean)
-        .map((row: any) => ({
-        id: row.id,
-        email: row.email || "",
-        name: row.name || "Nomad",
-        age: row.age || 25,
-        bio: row.bio || "",
-        location: row.location || "On the road",
-        photos: row.photos || [],
-        interests: row.interests || [],
-        vanType: row.van_type || undefined,
-        travelStyle: row.travel_style || undefined,
-        createdAt: row.created_at || new Date().toISOString(),
+      const profilesMap: Record<string, any> = {};
+      if (profiles) {
+        for (const p of profiles) {
+          profilesMap[p.id] = p;
+        }
+      }
+
+      const experts = expertApps.map(ea => ({
+        ...ea,
+        name: profilesMap[ea.user_id]?.name,
+        photos: profilesMap[ea.user_id]?.photos,
+        location: profilesMap[ea.user_id]?.location,
+        expert_rating: profilesMap[ea.user_id]?.expert_rating,
+        reviews_count: profilesMap[ea.user_id]?.reviews_count,
       }));
 
-      res.json(likedProfiles);
+      res.json({ experts });
     } catch (error) {
-      console.error("Get liked profiles error:", error);
-      res.json([]);
+      console.error("List experts error:", error);
+      res.json({ experts: [] });
     }
   });
 
-  app.post("/api/seed/mock-swipes", async (req: Request, res: Response) => {
-    try {
-      const sb = getSupabase();
-      const { data: mockIds } = await sb
-        .from('user_profiles')
-        .select('id')
-        .like('id', 'mock%');
-      const { data: realIds } = await sb
-        .from('user_profiles')
-        .select('id')
-        .not('id', 'like', 'mock%');
+  // ==========================================
+  // SUBSCRIPTION WEBHOOK
+  // ==========================================
 
-      if (!mockIds || mockIds.length === 0 || !realIds || realIds.length === 0) {
-        return res.json({ message: "No mock or real profiles found", seeded: 0 });
-      }
+  // RevenueCat posts subscription changes here with the Authorization value set in its dashboard
+  app.post("/api/webhooks/revenuecat", async (req: Request, res: Response) => {
+    const expected = Buffer.from(process.env.REVENUECAT_WEBHOOK_AUTH || "");
+    const given = Buffer.from(String(req.headers.authorization || ""));
+    if (expected.length === 0 || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
 
-      let seeded = 0;
-      const now = new Date().toISOString();
-      for (const mock of mockIds) {
-        for (const real of realIds) {
-          await sb
-            .from('swipes')
-            .upsert({
-              id: `seed_${mock.id}_${real.id}`,
-              swiper_id: mock.id,
-              swiped_id: real.id,
-              direction: 'right',
-              created_at: now,
-            }, { onConflict: 'swiper_id,swiped_id' });
-          seeded++;
+    const event = req.body?.event || {};
+    const userId = String(event.app_user_id || "");
+    const type = String(event.type || "");
+    // Anonymous RevenueCat users have no account here to attach a tier to
+    if (!userId || userId.startsWith("$RCAnonymousID")) {
+      return res.json({ received: true });
+    }
+
+    const eventAt = new Date(Number(event.event_timestamp_ms) || Date.now()).toISOString();
+    const expiresAt = event.expiration_at_ms ? new Date(Number(event.expiration_at_ms)).toISOString() : null;
+
+    try {
+      if (type === "EXPIRATION") {
+        await saveSubscriptionTier(userId, "starter", null, eventAt);
+      } else if (["INITIAL_PURCHASE", "RENEWAL", "UNCANCELLATION", "NON_RENEWING_PURCHASE"].includes(type)) {
+        const entitlements = [
+          ...(Array.isArray(event.entitlement_ids) ? event.entitlement_ids : []),
+          event.entitlement_id,
+          event.product_id,
+        ].filter(Boolean).map(String);
+        await saveSubscriptionTier(userId, subscriptionTierFromEntitlements(entitlements), expiresAt, eventAt);
+      } else if (type === "PRODUCT_CHANGE") {
+        // A downgrade only starts at the next renewal, so the tier is read back from RevenueCat when it can be
+        const current = await fetchRevenueCatSubscription(userId);
+        if (current) {
+          await saveSubscriptionTier(userId, current.tier, current.expiresAt, new Date().toISOString());
+        } else if (event.new_product_id) {
+          await saveSubscriptionTier(userId, subscriptionTierFromEntitlements([String(event.new_product_id)]), expiresAt, eventAt);
         }
       }
+      res.json({ received: true });
+    } catch (error) {
+      console.error("RevenueCat webhook error:", error);
+      res.status(500).json({ error: "Failed to record subscription" });
+    }
+  });
 
-      res.json({ message: "Mock swipes seeded", seeded, mockCount: mockIds.length, realCount: realIds.length });
+  // ==========================================
+  // CONSULTATION BOOKING ROUTES
+  // ==========================================
+
+  app.post("/api/consultations/book", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    try {
+      const { userId, expertId, expertApplicationId, hourlyRate, durationMinutes, notes, transactionId, scheduledAt } = req.body;
+      if (!userId || !expertId) return res.status(400).json({ error: "User ID and Expert ID required" });
+      if (scheduledAt && Number.isNaN(new Date(scheduledAt).getTime())) {
+        return res.status(400).json({ error: "scheduledAt must be an ISO date" });
+      }
+
+      const duration = durationMinutes || 60;
+      const rate = hourlyRate || 0;
+      const totalAmount = (rate / 60) * duration;
+      const platformFee = totalAmount * 0.3;
+
+      const sb = getSupabase();
+      const { data: result, error } = await sb
+        .from('consultation_bookings')
+        .insert({
+          user_id: userId,
+          expert_id: expertId,
+          expert_application_id: expertApplicationId || null,
+          hourly_rate: rate,
+          duration_minutes: duration,
+          total_amount: totalAmount,
+          platform_fee: platformFee,
+          payment_status: transactionId ? "completed" : "pending",
+          revenuecat_transaction_id: transactionId || null,
+          notes: notes || null,
+          scheduled_at: scheduledAt ? new Date(scheduledAt).toISOString() : null,
+          status: 'confirmed',
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      res.json({ booking: result });
     } catch (error) {
-      console.error("Seed mock swipes error:", error);
-      res.status(500).json({ error: "Failed to seed mock swipes" });
+      console.error("Book consultation error:", error);
+      res.status(500).json({ error: "Failed to book consultation" });
     }
   });
 
-  app.post("/api/swipes/reset/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+  app.get("/api/consultations/user/:userId", async (req: Request, res: Response) => {
     try {
       const { userId } = req.params;
-      if (!userId) return res.status(400).json({ error: "User ID required" });
+      const sb = getSupabase();
 
-      if (pgPool) {
-        await pgPool.query(`DELETE FROM swipes WHERE swiper_id = $1`, [userId]);
-        return res.json({ message: "Swipes reset successfully" });
+      // Get bookings for user
+      const { data: bookings, error } = await sb
+        .from('consultation_bookings')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+
+      if (!bookings || bookings.length === 0) {
+        return res.json({ bookings: [] });
       }
 
-      const sb = getSupabase();
-      await sb
-        .from('swipes')
-        .delete()
-        .eq('swiper_id', userId);
-      res.json({ message: "Swipes reset successfully" });
+      // Get expert profiles and applications
+      const expertIds = [...new Set(bookings.map(b => b.expert_id))];
+      const appIds = bookings.map(b => b.expert_application_id).filter(Boolean);
+
+      const { data: expertProfiles } = await sb
+        .from('user_profiles')
+        .select('id, name, photos')
+        .in('id', expertIds);
+
+      let appsMap: Record<string, any> = {};
+      if (appIds.length > 0) {
+        const { data: apps } = await sb
+          .from('expert_applications')
+          .select('id, specialization')
+          .in('id', appIds);
+        if (apps) {
+          for (const a of apps) {
+            appsMap[a.id] = a;
+          }
+        }
+      }
+
+      const profilesMap: Record<string, any> = {};
+      if (expertProfiles) {
+        for (const p of expertProfiles) {
+          profilesMap[p.id] = p;
+        }
+      }
+
+      const enrichedBookings = bookings.map(cb => ({
+        ...cb,
+        expert_name: profilesMap[cb.expert_id]?.name,
+        expert_photos: profilesMap[cb.expert_id]?.photos,
+        specialization: cb.expert_application_id ? appsMap[cb.expert_application_id]?.specialization : undefined,
+      }));
+
+      res.json({ bookings: enrichedBookings });
     } catch (error) {
-      console.error("Reset swipes error:", error);
-      res.status(500).json({ error: "Failed to reset swipes" });
+      console.error("List consultations error:", error);
+      res.json({ bookings: [] });
     }
   });
 
-  // ==========================================
-  // EXPERT APPLICATION ROUTES
-  // ==========================================
-
-  app.post("/api/expert/apply", async (req: Request, res: Response) => {
+  app.get("/api/consultations/expert/:expertId", async (req: Request, res: Response) => {
     try {
-      const {
-        userId, resumeUrl, resumeText, portfolioUrls, specialization,
-        experienceYears, skills, projectDescriptions, introVideoUrl, hourlyRate
-      } = req.body;
+      const { expertId } = req.params;
+      const sb = getSupabase();
 
-      if (!userId) return res.status(400).json({ error: "User ID required" });
+      const { data: bookings, error } = await sb
+        .from('consultation_bookings')
+        .select('*')
+        .eq('expert_id', expertId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
 
-      const sb = getSupabase();
-      const { data: existing } = await sb
-        .from('expert_applications')
-        .select('id, status')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .limit(1);
+      if (!bookings || bookings.length === 0) {
+        return res.json({ bookings: [] });
+      }
 
-      if (existing && existing.length > 0 && ['pending', 'approved'].includes(existing[0].status)) {
-        return res.status(400).json({ error: "You already have an active application", existing: existing[0] });
+      // Get client profiles
+      const clientIds = [...new Set(bookings.map(b => b.user_id))];
+      const { data: clientProfiles } = await sb
+        .from('user_profiles')
+        .select('id, name, photos')
+        .in('id', clientIds);
+
+      const profilesMap: Record<string, any> = {};
+      if (clientProfiles) {
+        for (const p of clientProfiles) {
+          profilesMap[p.id] = p;
+        }
       }
 
-      const { data: result, error } = await sb
-        .from('expert_applications')
-        .insert({
-          user_id: userId,
-          resume_url: resumeUrl || null,
-          resume_text: resumeText || null,
-          portfolio_urls: portfolioUrls || [],
-          specialization,
-          experience_years: experienceYears,
-          skills: skills || [],
-          project_descriptions: projectDescriptions || [],
-          intro_video_url: introVideoUrl || null,
-          hourly_rate: hourlyRate,
-          status: 'pending',
-        })
-        .select()
-        .single();
+      const enrichedBookings = bookings.map(cb => ({
+        ...cb,
+        client_name: profilesMap[cb.user_id]?.name,
+        client_photos: profilesMap[cb.user_id]?.photos,
+      }));
 
-      if (error) throw error;
-      res.json({ application: result });
+      res.json({ bookings: enrichedBookings });
     } catch (error) {
-      console.error("Expert apply error:", error);
-      res.status(500).json({ error: "Failed to submit application" });
+      console.error("List expert consultations error:", error);
+      res.json({ bookings: [] });
     }
   });
 
-  app.get("/api/expert/status/:userId", async (req: Request, res: Response) => {
+  app.patch("/api/consultations/:bookingId/payment", async (req: Request, res: Response) => {
     try {
-      const { userId } = req.params;
+      const { bookingId } = req.params;
+      const { transactionId, paymentStatus } = req.body;
+
       const sb = getSupabase();
-      const { data } = await sb
-        .from('expert_applications')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .limit(1);
+      const { data, error } = await sb
+        .from('consultation_bookings')
+        .update({
+          payment_status: paymentStatus || "completed",
+          revenuecat_transaction_id: transactionId || null,
+        })
+        .eq('id', bookingId)
+        .select()
+        .single();
 
-      if (!data || data.length === 0) {
-        return res.json({ application: null });
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return res.status(404).json({ error: "Booking not found" });
+        }
+        throw error;
       }
-      res.json({ application: data[0] });
+      res.json({ booking: data });
     } catch (error) {
-      console.error("Expert status error:", error);
-      res.status(500).json({ error: "Failed to get status" });
+      console.error("Update consultation payment error:", error);
+      res.status(500).json({ error: "Failed to update payment" });
     }
   });
 
-  app.post("/api/expert/verify/:applicationId", async (req: Request, res: Response) => {
-    try {
-      const { applicationId } = req.params;
-      const sb = getSupabase();
-
-      const { data: appData, error: appError } = await sb
-        .from('expert_applications')
-        .select('*')
-        .eq('id', applicationId)
-        .single();
+  // ==================== CHAT MESSAGES (Supabase) ====================
 
-      if (appError || !appData) {
-        return res.status(404).json({ error: "Application not found" });
-      }
-      const application = appData;
+  // Registered before /api/messages/:matchId so "search" is not taken for a match id
+  app.get("/api/messages/search", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+    const term = normalizeSearchTerm(Array.isArray(req.query.q) ? req.query.q[0] : req.query.q);
+    if (term.length < 2) {
+      return res.status(400).json({ error: "Search term must be at least 2 characters" });
+    }
+    const requestedLimit = Number(Array.isArray(req.query.limit) ? req.query.limit[0] : req.query.limit);
+    const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MESSAGE_SEARCH_MAX_LIMIT)
+      : MESSAGE_SEARCH_DEFAULT_LIMIT;
 
-      const verificationPrompt = `You are an AI Expert Verification Engine.
+    try {
+      const [matchHits, activityHits] = await Promise.all([
+        searchMatchMessages(userId, term, limit),
+        // Activity chats live in Supabase only; keep match results if it is unavailable
+        searchActivityMessages(userId, term, limit).catch((error) => {
+          console.error("Activity message search error:", error);
+          return [] as MessageSearchHit[];
+        }),
+      ]);
+      const hits = [...matchHits, ...activityHits]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, limit);
+      res.json(hits);
+    } catch (error) {
+      console.error("Message search error:", error);
+      res.status(500).json({ error: "Failed to search messages" });
+    }
+  });
 
-Your job is to verify if the applicant is qualified to be a Van Build Expert.
+  app.get("/api/messages/:matchId", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const { matchId } = req.params;
+    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+    const page = parseMessagePageQuery(req.query);
+    if ("error" in page) {
+      return res.status(400).json({ error: page.error });
+    }
 
-You will receive:
-1. Resume text: ${application.resume_text || "Not provided"}
-2. Portfolio photos count: ${(application.portfolio_urls || []).length}
-3. Skills list: ${JSON.stringify(application.skills || [])}
-4. Experience years: ${application.experience_years || 0}
-5. Specialization: ${application.specialization || "Not specified"}
-6. Past projects: ${JSON.stringify(application.project_descriptions || [])}
-7. Hourly rate: $${application.hourly_rate || 0}/hr
-8. Has intro video: ${application.intro_video_url ? "Yes" : "No"}
+    try {
+      if (pgPool) {
+        const membership = await pgPool.query(
+          `SELECT id FROM matches WHERE id = $1 AND (user_a_id = $2 OR user_b_id = $2) LIMIT 1`,
+          [matchId, userId]
+        );
+        if (!membership.rowCount) {
+          return res.status(403).json({ error: "Forbidden" });
+        }
 
-Analyze:
+        const cursorId = page.before || page.after;
+        if (cursorId) {
+          const cursorRow = await pgPool.query(
+            `SELECT id FROM chat_messages WHERE id = $1 AND match_id = $2 LIMIT 1`,
+            [cursorId, matchId]
+          );
+          if (!cursorRow.rowCount) {
+            return res.status(400).json({ error: "Invalid cursor" });
+          }
+        }
 
-RESUME CHECK:
-- Is experience real and detailed?
-- Are skills realistic for van building?
-- Does experience match claimed specialization?
+        const cursorClause = page.before
+          ? `AND (created_at, id) < (SELECT created_at, id FROM chat_messages WHERE id = $3)`
+          : page.after
+            ? `AND (created_at, id) > (SELECT created_at, id FROM chat_messages WHERE id = $3)`
+            : "";
+        const direction = page.after ? "ASC" : "DESC";
+        const result = await pgPool.query(
+          `SELECT * FROM chat_messages WHERE match_id = $1 ${cursorClause}
+           ORDER BY created_at ${direction}, id ${direction} LIMIT $2`,
+          cursorId ? [matchId, page.limit, cursorId] : [matchId, page.limit]
+        );
+        const rows = result.rows || [];
+        return res.json(page.after ? rows : rows.reverse());
+      }
 
-PORTFOLIO CHECK:
-- Number of portfolio items provided (more = better)
-- Consider if portfolio count matches claimed experience
+      const sb = getSupabase();
+      const { data: memberRows, error: memberError } = await sb
+        .from('matches')
+        .select('id')
+        .eq('id', matchId)
+        .or(`user_a_id.eq.${userId},user_b_id.eq.${userId}`)
+        .limit(1);
+      if (memberError) throw memberError;
+      if (!memberRows || memberRows.length === 0) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
 
-SKILL ALIGNMENT:
-- Do skills match specialization?
-- Are electrical/woodworking/plumbing skills legitimate for van building?
+      let query = sb
+        .from('chat_messages')
+        .select('*')
+        .eq('match_id', matchId);
+      const cursorId = page.before || page.after;
+      if (cursorId) {
+        const cursor = await loadSupabaseMessageCursor('chat_messages', 'match_id', String(matchId), cursorId);
+        if (!cursor) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+        query = query.or(supabaseMessageCursorFilter(cursor, page.before ? "before" : "after"));
+      }
+      const ascending = !!page.after;
+      const { data, error } = await query
+        .order('created_at', { ascending })
+        .order('id', { ascending })
+        .limit(page.limit);
+      if (error) throw error;
+      const rows = data || [];
+      res.json(ascending ? rows : rows.reverse());
+    } catch (error) {
+      console.error("Failed to get messages:", error);
+      res.status(500).json({ error: "Failed to get messages" });
+    }
+  });
 
-EXPERIENCE CHECK:
-- Are past projects detailed and believable?
-- Do processes and terminology match real van builders?
+  app.post("/api/messages/:matchId", requireUserSession((req) => req.body?.senderId), async (req: Request, res: Response) => {
+    const { matchId } = req.params;
+    const { senderId, content, type, photoUrl, fileUrl, fileName, audioUrl, audioDuration, replyTo, location } = req.body;
 
-Return ONLY valid JSON (no markdown, no explanation):
-{
-  "portfolio_score": <0-100>,
-  "resume_score": <0-100>,
-  "skill_alignment_score": <0-100>,
-  "experience_score": <0-100>,
-  "final_expert_score": <0-100>,
-  "verdict": "approved" | "manual_review" | "rejected",
-  "badge": "expert" | "pro_expert" | "none",
-  "reasons": ["reason1","reason2"],
-  "advice": "short helpful text"
-}
+    if (!senderId) {
+      return res.status(400).json({ error: "senderId is required" });
+    }
 
-Scoring rules:
-- final_expert_score >= 80 → verdict "approved", badge "pro_expert"
-- 60-79 → verdict "approved", badge "expert"
-- 40-59 → verdict "manual_review", badge "none"
-- below 40 → verdict "rejected", badge "none"`;
+    const msgId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+    const now = new Date().toISOString();
 
-      const aiResponse = await callGroqChat([
-        { role: "system", content: "You are an expert verification AI. Return ONLY valid JSON." },
-        { role: "user", content: verificationPrompt }
-      ]);
+    try {
+      if (pgPool) {
+        const membership = await pgPool.query(
+          `SELECT id, user_a_id, user_b_id FROM matches WHERE id = $1 AND (user_a_id = $2 OR user_b_id = $2) LIMIT 1`,
+          [matchId, senderId]
+        );
+        if (!membership.rowCount) {
+          return res.status(403).json({ error: "Forbidden" });
+        }
+        const matchRow = membership.rows[0];
+        const recipientId = String(matchRow.user_a_id) === String(senderId) ? String(matchRow.user_b_id) : String(matchRow.user_a_id);
+        if (await isBlockedBetween(String(senderId), recipientId)) {
+          return res.status(403).json({ error: "Messaging is unavailable for this conversation" });
+        }
 
-      let verification;
-      try {
-        const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-        verification = JSON.parse(jsonMatch ? jsonMatch[0] : aiResponse);
-      } catch {
-        verification = {
-          portfolio_score: 50, resume_score: 50, skill_alignment_score: 50,
-          experience_score: 50, final_expert_score: 50,
-          verdict: "manual_review", badge: "none",
-          reasons: ["AI could not parse response properly"],
-          advice: "Your application needs manual review."
-        };
+        const result = await pgPool.query(
+          `INSERT INTO chat_messages (
+             id, match_id, sender_id, content, type, photo_url, file_url, file_name,
+             audio_url, audio_duration, reply_to, location, reactions, status, created_at
+           ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11::jsonb,$12::jsonb,$13::jsonb,$14,$15)
+           RETURNING *`,
+          [
+            msgId,
+            matchId,
+            senderId,
+            content || '',
+            type || 'text',
+            photoUrl || null,
+            fileUrl || null,
+            fileName || null,
+            audioUrl || null,
+            audioDuration || null,
+            replyTo ? JSON.stringify(replyTo) : null,
+            location ? JSON.stringify(location) : null,
+            JSON.stringify({}),
+            'sent',
+            now,
+          ]
+        );
+        publish(`match:${matchId}`, { type: "message.created", message: result.rows[0] });
+        return res.status(201).json(result.rows[0]);
       }
 
-      const status = verification.verdict === "approved" ? "approved" :
-                     verification.verdict === "manual_review" ? "manual_review" : "rejected";
-      const badge = verification.badge || "none";
+      const sb = getSupabase();
+      const { data: memberRows, error: memberError } = await sb
+        .from('matches')
+        .select('id, user_a_id, user_b_id')
+        .eq('id', matchId)
+        .or(`user_a_id.eq.${senderId},user_b_id.eq.${senderId}`)
+        .limit(1);
+      if (memberError) throw memberError;
+      if (!memberRows || memberRows.length === 0) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      const recipientId = String(memberRows[0].user_a_id) === String(senderId) ? String(memberRows[0].user_b_id) : String(memberRows[0].user_a_id);
+      if (await isBlockedBetween(String(senderId), recipientId)) {
+        return res.status(403).json({ error: "Messaging is unavailable for this conversation" });
+      }
 
-      await sb
-        .from('expert_applications')
-        .update({
-          status,
-          ai_score: verification.final_expert_score,
-          expert_badge: badge,
-          reasons: verification.reasons,
-          advice: verification.advice,
-          portfolio_score: verification.portfolio_score,
-          resume_score: verification.resume_score,
-          skill_alignment_score: verification.skill_alignment_score,
-          experience_score: verification.experience_score,
+      const { data, error } = await sb
+        .from('chat_messages')
+        .insert({
+          id: msgId,
+          match_id: matchId,
+          sender_id: senderId,
+          content: content || '',
+          type: type || 'text',
+          photo_url: photoUrl || null,
+          file_url: fileUrl || null,
+          file_name: fileName || null,
+          audio_url: audioUrl || null,
+          audio_duration: audioDuration || null,
+          reply_to: replyTo || null,
+          location: location || null,
+          reactions: {},
+          status: 'sent',
+          created_at: now,
         })
-        .eq('id', applicationId);
-
-      if (status === "approved") {
-        await sb
-          .from('user_profiles')
-          .update({ is_expert: true, expert_badge: badge })
-          .eq('id', application.user_id);
-      }
-
-      res.json({ verification, status, badge });
+        .select()
+        .single();
+      if (error) throw error;
+      publish(`match:${matchId}`, { type: "message.created", message: data });
+      res.status(201).json(data);
     } catch (error) {
-      console.error("Expert verify error:", error);
-      res.status(500).json({ error: "Failed to verify application" });
+      console.error("Failed to send message:", error);
+      res.status(500).json({ error: "Failed to send message" });
     }
   });
 
-  app.get("/api/experts", async (_req: Request, res: Response) => {
+  app.patch("/api/messages/:messageId", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const { messageId } = req.params;
+    const { content, userId } = req.body;
+
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+
     try {
-      const sb = getSupabase();
+      if (pgPool) {
+        const ownerRes = await pgPool.query(`SELECT sender_id FROM chat_messages WHERE id = $1 LIMIT 1`, [messageId]);
+        if (!ownerRes.rowCount) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        if (String(ownerRes.rows[0].sender_id) !== String(userId)) {
+          return res.status(403).json({ error: "Forbidden" });
+        }
 
-      // Get approved expert applications
-      const { data: expertApps, error } = await sb
-        .from('expert_applications')
-        .select('*')
-        .eq('status', 'approved')
-        .order('ai_score', { ascending: false, nullsFirst: false });
-      if (error) throw error;
+        const result = await pgPool.query(
+          `UPDATE chat_messages SET content = $1, edited_at = NOW() WHERE id = $2 RETURNING *`,
+          [content, messageId]
+        );
+        if (!result.rowCount) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        publish(`match:${result.rows[0].match_id}`, { type: "message.updated", message: result.rows[0] });
+        return res.json(result.rows[0]);
+      }
 
-      if (!expertApps || expertApps.length === 0) {
-        return res.json({ experts: [] });
+      const sb = getSupabase();
+      const { data: ownerRow, error: ownerErr } = await sb
+        .from('chat_messages')
+        .select('sender_id')
+        .eq('id', messageId)
+        .single();
+      if (ownerErr) {
+        if (ownerErr.code === 'PGRST116') {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        throw ownerErr;
+      }
+      if (String(ownerRow?.sender_id || '') !== String(userId)) {
+        return res.status(403).json({ error: "Forbidden" });
       }
 
-      // Get user profiles for these experts
-      const userIds = expertApps.map(e => e.user_id);
-      const { data: profiles } = await sb
-        .from('user_profiles')
-        .select('id, name, photos, location, expert_rating, reviews_count')
-        .in('id', userIds);
+      const { data, error } = await sb
+        .from('chat_messages')
+        .update({ content, edited_at: new Date().toISOString() })
+        .eq('id', messageId)
+        .select()
+        .single();
 
-      const profilesMap: Record<string, any> = {};
-      if (profiles) {
-        for (const p of profiles) {
-          profilesMap[p.id] = p;
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return res.status(404).json({ error: "Message not found" });
         }
+        throw error;
       }
 
-      const experts = expertApps.map(ea => ({
-        ...ea,
-        name: profilesMap[ea.user_id]?.name,
-        photos: profilesMap[ea.user_id]?.photos,
-        location: profilesMap[ea.user_id]?.location,
-        expert_rating: profilesMap[ea.user_id]?.expert_rating,
-        reviews_count: profilesMap[ea.user_id]?.reviews_count,
-      }));
-
-      res.json({ experts });
+      publish(`match:${data.match_id}`, { type: "message.updated", message: data });
+      res.json(data);
     } catch (error) {
-      console.error("List experts error:", error);
-      res.json({ experts: [] });
+      console.error("Failed to edit message:", error);
+      res.status(500).json({ error: "Failed to edit message" });
     }
   });
 
-  // ==========================================
-  // CONSULTATION BOOKING ROUTES
-  // ==========================================
+  app.delete("/api/messages/:messageId", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const { messageId } = req.params;
+    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
 
-  app.post("/api/consultations/book", async (req: Request, res: Response) => {
     try {
-      const { userId, expertId, expertApplicationId, hourlyRate, durationMinutes, notes, transactionId } = req.body;
-      if (!userId || !expertId) return res.status(400).json({ error: "User ID and Expert ID required" });
+      if (pgPool) {
+        const ownerRes = await pgPool.query(`SELECT sender_id, match_id FROM chat_messages WHERE id = $1 LIMIT 1`, [messageId]);
+        if (!ownerRes.rowCount) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        if (String(ownerRes.rows[0].sender_id) !== String(userId)) {
+          return res.status(403).json({ error: "Forbidden" });
+        }
 
-      const duration = durationMinutes || 60;
-      const rate = hourlyRate || 0;
-      const totalAmount = (rate / 60) * duration;
-      const platformFee = totalAmount * 0.3;
+        const result = await pgPool.query(`DELETE FROM chat_messages WHERE id = $1 RETURNING id`, [messageId]);
+        if (!result.rowCount) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        publish(`match:${ownerRes.rows[0].match_id}`, { type: "message.deleted", messageId });
+        return res.json({ success: true });
+      }
 
       const sb = getSupabase();
-      const { data: result, error } = await sb
-        .from('consultation_bookings')
-        .insert({
-          user_id: userId,
-          expert_id: expertId,
-          expert_application_id: expertApplicationId || null,
-          hourly_rate: rate,
-          duration_minutes: duration,
-          total_amount: totalAmount,
-          platform_fee: platformFee,
-          payment_status: transactionId ? "completed" : "pending",
-          revenuecat_transaction_id: transactionId || null,
-          notes: notes || null,
-          status: 'confirmed',
-        })
-        .select()
-        .single();
+      const { data: ownerRows, error: ownerError } = await sb
+        .from('chat_messages')
+        .select('sender_id, match_id')
+        .eq('id', messageId)
+        .limit(1);
+      if (ownerError) throw ownerError;
+      if (!ownerRows || ownerRows.length === 0) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      if (String(ownerRows[0].sender_id) !== String(userId)) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const { data, error } = await sb
+        .from('chat_messages')
+        .delete()
+        .eq('id', messageId)
+        .select('id');
 
       if (error) throw error;
-      res.json({ booking: result });
+      if (!data || data.length === 0) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      publish(`match:${ownerRows[0].match_id}`, { type: "message.deleted", messageId });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Book consultation error:", error);
-      res.status(500).json({ error: "Failed to book consultation" });
+      console.error("Failed to delete message:", error);
+      res.status(500).json({ error: "Failed to delete message" });
     }
   });
 
-  app.get("/api/consultations/user/:userId", async (req: Request, res: Response) => {
+  app.patch("/api/messages/:messageId/reactions", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const { messageId } = req.params;
+    const { userId, emoji } = req.body;
+
+    if (!userId || !emoji) {
+      return res.status(400).json({ error: "userId and emoji are required" });
+    }
+
     try {
-      const { userId } = req.params;
-      const sb = getSupabase();
+      if (pgPool) {
+        const msgRes = await pgPool.query(`SELECT reactions, match_id FROM chat_messages WHERE id = $1 LIMIT 1`, [messageId]);
+        if (!msgRes.rowCount) {
+          return res.status(404).json({ error: "Message not found" });
+        }
 
-      // Get bookings for user
-      const { data: bookings, error } = await sb
-        .from('consultation_bookings')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-      if (error) throw error;
+        const matchId = String(msgRes.rows[0].match_id || "");
+        const membership = await pgPool.query(
+          `SELECT id FROM matches WHERE id = $1 AND (user_a_id = $2 OR user_b_id = $2) LIMIT 1`,
+          [matchId, userId]
+        );
+        if (!membership.rowCount) {
+          return res.status(403).json({ error: "Forbidden" });
+        }
 
-      if (!bookings || bookings.length === 0) {
-        return res.json({ bookings: [] });
-      }
+        const reactions: Record<string, string[]> = msgRes.rows[0].reactions || {};
+        const current = new Set(reactions[emoji] || []);
 
-      // Get expert profiles and applications
-      const expertIds = [...new Set(bookings.map(b => b.expert_id))];
-      const appIds = bookings.map(b => b.expert_application_id).filter(Boolean);
+        if (current.has(userId)) {
+          current.delete(userId);
+        } else {
+          current.add(userId);
+        }
 
-      const { data: expertProfiles } = await sb
-        .from('user_profiles')
-        .select('id, name, photos')
-        .in('id', expertIds);
+        if (current.size === 0) {
+          delete reactions[emoji];
+        } else {
+          reactions[emoji] = Array.from(current);
+        }
 
-      let appsMap: Record<string, any> = {};
-      if (appIds.length > 0) {
-        const { data: apps } = await sb
-          .from('expert_applications')
-          .select('id, specialization')
-          .in('id', appIds);
-        if (apps) {
-          for (const a of apps) {
-            appsMap[a.id] = a;
-          }
+        await pgPool.query(`UPDATE chat_messages SET reactions = $1::jsonb WHERE id = $2`, [JSON.stringify(reactions), messageId]);
+        publish(`match:${matchId}`, { type: "message.reactions", messageId, reactions });
+        return res.json({ id: messageId, reactions });
+      }
+
+      const sb = getSupabase();
+      const { data: msgData, error: getError } = await sb
+        .from('chat_messages')
+        .select('reactions, match_id')
+        .eq('id', messageId)
+        .single();
+
+      if (getError) {
+        if (getError.code === 'PGRST116') {
+          return res.status(404).json({ error: "Message not found" });
         }
+        throw getError;
       }
 
-      const profilesMap: Record<string, any> = {};
-      if (expertProfiles) {
-        for (const p of expertProfiles) {
-          profilesMap[p.id] = p;
-        }
+      const reactions: Record<string, string[]> = msgData.reactions || {};
+      const current = new Set(reactions[emoji] || []);
+
+      if (current.has(userId)) {
+        current.delete(userId);
+      } else {
+        current.add(userId);
       }
 
-      const enrichedBookings = bookings.map(cb => ({
-        ...cb,
-        expert_name: profilesMap[cb.expert_id]?.name,
-        expert_photos: profilesMap[cb.expert_id]?.photos,
-        specialization: cb.expert_application_id ? appsMap[cb.expert_application_id]?.specialization : undefined,
-      }));
+      if (current.size === 0) {
+        delete reactions[emoji];
+      } else {
+        reactions[emoji] = Array.from(current);
+      }
 
-      res.json({ bookings: enrichedBookings });
+      const { error: updateError } = await sb
+        .from('chat_messages')
+        .update({ reactions })
+        .eq('id', messageId);
+      if (updateError) throw updateError;
+
+      publish(`match:${msgData.match_id}`, { type: "message.reactions", messageId, reactions });
+      res.json({ id: messageId, reactions });
     } catch (error) {
-      console.error("List consultations error:", error);
-      res.json({ bookings: [] });
+      console.error("Failed to toggle reaction:", error);
+      res.status(500).json({ error: "Failed to toggle reaction" });
     }
   });
 
-  app.get("/api/consultations/expert/:expertId", async (req: Request, res: Response) => {
-    try {
-      const { expertId } = req.params;
-      const sb = getSupabase();
+  // Advance this user's delivered/read watermark for a match (defaults to the newest incoming message)
+  app.post("/api/messages/:matchId/receipts", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const { matchId } = req.params;
+    const { userId, status, messageId } = req.body as { userId?: string; status?: string; messageId?: string };
 
-      const { data: bookings, error } = await sb
-        .from('consultation_bookings')
-        .select('*')
-        .eq('expert_id', expertId)
-        .order('created_at', { ascending: false });
-      if (error) throw error;
+    if (!userId) {
+      return res.status(400).json({ error: "userId is required" });
+    }
+    if (status !== "delivered" && status !== "read") {
+      return res.status(400).json({ error: "status must be delivered or read" });
+    }
 
-      if (!bookings || bookings.length === 0) {
-        return res.json({ bookings: [] });
+    try {
+      if (!(await isMatchParticipant(String(matchId), String(userId)))) {
+        return res.status(403).json({ error: "Forbidden" });
       }
 
-      // Get client profiles
-      const clientIds = [...new Set(bookings.map(b => b.user_id))];
-      const { data: clientProfiles } = await sb
-        .from('user_profiles')
-        .select('id, name, photos')
-        .in('id', clientIds);
-
-      const profilesMap: Record<string, any> = {};
-      if (clientProfiles) {
-        for (const p of clientProfiles) {
-          profilesMap[p.id] = p;
+      let watermark: Date | string | null = null;
+      if (pgPool) {
+        const result = messageId
+          ? await pgPool.query(`SELECT created_at FROM chat_messages WHERE id = $1 AND match_id = $2 LIMIT 1`, [messageId, matchId])
+          : await pgPool.query(
+              `SELECT created_at FROM chat_messages WHERE match_id = $1 AND sender_id <> $2 ORDER BY created_at DESC LIMIT 1`,
+              [matchId, userId]
+            );
+        if (messageId && !result.rowCount) {
+          return res.status(404).json({ error: "Message not found" });
+        }
+        watermark = result.rows[0]?.created_at || null;
+      } else {
+        let query = getSupabase()
+          .from('chat_messages')
+          .select('created_at')
+          .eq('match_id', matchId);
+        query = messageId
+          ? query.eq('id', messageId)
+          : query.neq('sender_id', userId).order('created_at', { ascending: false });
+        const { data, error } = await query.limit(1);
+        if (error) throw error;
+        if (messageId && (!data || data.length === 0)) {
+          return res.status(404).json({ error: "Message not found" });
         }
+        watermark = data?.[0]?.created_at || null;
       }
 
-      const enrichedBookings = bookings.map(cb => ({
-        ...cb,
-        client_name: profilesMap[cb.user_id]?.name,
-        client_photos: profilesMap[cb.user_id]?.photos,
-      }));
+      const upTo = watermark ? new Date(watermark).toISOString() : null;
+      if (watermark) {
+        await advanceReceiptWatermark(String(matchId), String(userId), status, watermark);
+        publish(`match:${matchId}`, { type: "receipt", userId, status, upTo });
+      }
 
-      res.json({ bookings: enrichedBookings });
+      const unreadByMatch = await loadUnreadCounts(String(userId), [String(matchId)]);
+      res.json({ matchId, status, upTo, unreadCount: unreadByMatch.get(String(matchId)) || 0 });
     } catch (error) {
-      console.error("List expert consultations error:", error);
-      res.json({ bookings: [] });
+      console.error("Update receipts error:", error);
+      res.status(500).json({ error: "Failed to update receipts" });
     }
   });
 
-  app.patch("/api/consultations/:bookingId/payment", async (req: Request, res: Response) => {
-    try {
-      const { bookingId } = req.params;
-      const { transactionId, paymentStatus } = req.body;
-
-      const sb = getSupabase();
-      const { data, error } = await sb
-        .from('consultation_bookings')
-        .update({
-          payment_status: paymentStatus || "completed",
-          revenuecat_transaction_id: transactionId || null,
-        })
-        .eq('id', bookingId)
-        .select()
-        .single();
+  // ==================== BLOCKS & REPORTS ====================
 
-      if (error) {
-        if (error.code === 'PGRST116') {
-          return res.status(404).json({ error: "Booking not found" });
-        }
-        throw error;
-      }
-      res.json({ booking: data });
+  app.get("/api/blocks/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const userId = String(req.params.userId);
+      let rows: any[] = [];
+      if (pgPool) {
+        const result = await pgPool.query(
+          `SELECT b.blocked_id, b.created_at, p.name, p.photos
+           FROM user_blocks b
+           LEFT JOIN user_profiles p ON p.id = b.blocked_id
+           WHERE b.blocker_id = $1
+           ORDER BY b.created_at DESC`,
+          [userId]
+        );
+        rows = result.rows;
+      } else {
+        const sb = getSupabase();
+        const { data, error } = await sb
+          .from('user_blocks')
+          .select('blocked_id, created_at')
+          .eq('blocker_id', userId)
+          .order('created_at', { ascending: false });
+        if (error) throw error;
+        const blockedIds = (data || []).map((row: any) => String(row.blocked_id));
+        const { data: profiles } = blockedIds.length > 0
+          ? await sb.from('user_profiles').select('id, name, photos').in('id', blockedIds)
+          : { data: [] as any[] };
+        const profileById = new Map((profiles || []).map((p: any) => [String(p.id), p]));
+        rows = (data || []).map((row: any) => ({ ...row, ...profileById.get(String(row.blocked_id)) }));
+      }
+
+      res.json(
+        rows.map((row) => ({
+          userId: String(row.blocked_id),
+          name: row.name || "Nomad",
+          photo: Array.isArray(row.photos) ? row.photos[0] || null : null,
+          blockedAt: row.created_at,
+        }))
+      );
     } catch (error) {
-      console.error("Update consultation payment error:", error);
-      res.status(500).json({ error: "Failed to update payment" });
+      console.error("Get blocks error:", error);
+      res.status(500).json({ error: "Failed to get blocked users" });
     }
   });
 
-  // ==================== CHAT MESSAGES (Supabase) ====================
-
-  app.get("/api/messages/:matchId", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
-    const { matchId } = req.params;
-    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
+  app.post("/api/blocks", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const userId = String(req.body?.userId || "");
+    const blockedUserId = String(req.body?.blockedUserId || "").trim();
+    if (!blockedUserId) {
+      return res.status(400).json({ error: "blockedUserId is required" });
+    }
+    if (blockedUserId === userId) {
+      return res.status(400).json({ error: "You cannot block yourself" });
     }
 
     try {
+      const now = new Date().toISOString();
       if (pgPool) {
-        const membership = await pgPool.query(
-          `SELECT id FROM matches WHERE id = $1 AND (user_a_id = $2 OR user_b_id = $2) LIMIT 1`,
-          [matchId, userId]
+        await pgPool.query(
+          `INSERT INTO user_blocks (blocker_id, blocked_id, created_at)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (blocker_id, blocked_id) DO NOTHING`,
+          [userId, blockedUserId, now]
         );
-        if (!membership.rowCount) {
-          return res.status(403).json({ error: "Forbidden" });
-        }
+      } else {
+        const { error } = await getSupabase()
+          .from('user_blocks')
+          .upsert({ blocker_id: userId, blocked_id: blockedUserId, created_at: now }, { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true });
+        if (error) throw error;
+      }
 
-        const result = await pgPool.query(
-          `SELECT * FROM chat_messages WHERE match_id = $1 ORDER BY created_at ASC`,
-          [matchId]
+      // Pending radar requests between the two are withdrawn along with the block
+      if (pgPool) {
+        await pgPool.query(
+          `UPDATE radar_chat_requests SET status = 'declined', updated_at = NOW()
+           WHERE status = 'pending'
+             AND ((sender_id = $1 AND receiver_id = $2) OR (sender_id = $2 AND receiver_id = $1))`,
+          [userId, blockedUserId]
         );
-        return res.json(result.rows || []);
+      } else {
+        await getSupabase()
+          .from('radar_chat_requests')
+          .update({ status: 'declined', updated_at: now })
+          .eq('status', 'pending')
+          .or(`and(sender_id.eq.${userId},receiver_id.eq.${blockedUserId}),and(sender_id.eq.${blockedUserId},receiver_id.eq.${userId})`);
       }
 
-      const sb = getSupabase();
-      const { data: memberRows, error: memberError } = await sb
-        .from('matches')
-        .select('id')
-        .eq('id', matchId)
-        .or(`user_a_id.eq.${userId},user_b_id.eq.${userId}`)
-        .limit(1);
-      if (memberError) throw memberError;
-      if (!memberRows || memberRows.length === 0) {
-        return res.status(403).json({ error: "Forbidden" });
+      // Both sides are dropped from any match channel they share; rejoining is refused while the block stands
+      const partners = await loadMatchPartners(userId);
+      for (const partner of partners) {
+        if (partner.partnerId === blockedUserId) revokeChannel(`match:${partner.matchId}`);
       }
 
-      const { data, error } = await sb
-        .from('chat_messages')
-        .select('*')
-        .eq('match_id', matchId)
-        .order('created_at', { ascending: true });
-      if (error) throw error;
-      res.json(data || []);
+      res.status(201).json({ success: true, blockedUserId });
     } catch (error) {
-      console.error("Failed to get messages:", error);
-      res.status(500).json({ error: "Failed to get messages" });
+      console.error("Block user error:", error);
+      res.status(500).json({ error: "Failed to block user" });
     }
   });
 
-  app.post("/api/messages/:matchId", requireUserSession((req) => req.body?.senderId), async (req: Request, res: Response) => {
-    const { matchId } = req.params;
-    const { senderId, content, type, photoUrl, fileUrl, fileName, audioUrl, audioDuration, replyTo, location } = req.body;
+  app.delete("/api/blocks/:blockedUserId", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
+    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
+    const blockedUserId = String(req.params.blockedUserId);
 
-    if (!senderId) {
-      return res.status(400).json({ error: "senderId is required" });
+    try {
+      if (pgPool) {
+        await pgPool.query(`DELETE FROM user_blocks WHERE blocker_id = $1 AND blocked_id = $2`, [userId, blockedUserId]);
+      } else {
+        const { error } = await getSupabase()
+          .from('user_blocks')
+          .delete()
+          .eq('blocker_id', userId)
+          .eq('blocked_id', blockedUserId);
+        if (error) throw error;
+      }
+      res.json({ success: true, blockedUserId });
+    } catch (error) {
+      console.error("Unblock user error:", error);
+      res.status(500).json({ error: "Failed to unblock user" });
     }
+  });
 
-    const msgId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+  app.post("/api/reports", requireUserSession((req) => req.body?.reporterId), async (req: Request, res: Response) => {
+    const reporterId = String(req.body?.reporterId || "");
+    const reportedUserId = String(req.body?.reportedUserId || "").trim();
+    const reason = String(req.body?.reason || "") as ReportReason;
+    const details = String(req.body?.details || "").trim().slice(0, 2000);
+    const messageIds = normalizeIdList(req.body?.messageIds);
+    const evidenceIds = normalizeIdList(req.body?.evidenceIds);
+
+    if (!reportedUserId) {
+      return res.status(400).json({ error: "reportedUserId is required" });
+    }
+    if (reportedUserId === reporterId) {
+      return res.status(400).json({ error: "You cannot report yourself" });
+    }
+    if (!REPORT_REASONS.includes(reason)) {
+      return res.status(400).json({ error: `reason must be one of: ${REPORT_REASONS.join(", ")}` });
+    }
+
+    const reportId = `report_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
     const now = new Date().toISOString();
 
     try {
-      if (pgPool) {
-        const membership = await pgPool.query(
-          `SELECT id FROM matches WHERE id = $1 AND (user_a_id = $2 OR user_b_id = $2) LIMIT 1`,
-          [matchId, senderId]
-        );
-        if (!membership.rowCount) {
-          return res.status(403).json({ error: "Forbidden" });
+      if (messageIds.length > 0) {
+        const attached = await loadReportedMessages(messageIds, reporterId, reportedUserId);
+        if (attached.length !== messageIds.length) {
+          return res.status(400).json({ error: "Only messages this user sent in your own chats can be attached" });
         }
+      }
 
-        const result = await pgPool.query(
-          `INSERT INTO chat_messages (
-             id, match_id, sender_id, content, type, photo_url, file_url, file_name,
-             audio_url, audio_duration, reply_to, location, reactions, status, created_at
-           ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11::jsonb,$12::jsonb,$13::jsonb,$14,$15)
-           RETURNING *`,
-          [
-            msgId,
-            matchId,
-            senderId,
-            content || '',
-            type || 'text',
-            photoUrl || null,
-            fileUrl || null,
-            fileName || null,
-            audioUrl || null,
-            audioDuration || null,
-            replyTo ? JSON.stringify(replyTo) : null,
-            location ? JSON.stringify(location) : null,
-            JSON.stringify({}),
-            'sent',
-            now,
-          ]
+      if (pgPool) {
+        await pgPool.query(
+          `INSERT INTO user_reports (id, reporter_id, reported_user_id, reason, details, message_ids, evidence_ids, status, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7::jsonb, 'open', $8)`,
+          [reportId, reporterId, reportedUserId, reason, details || null, JSON.stringify(messageIds), JSON.stringify(evidenceIds), now]
         );
-        return res.status(201).json(result.rows[0]);
+      } else {
+        const { error } = await getSupabase()
+          .from('user_reports')
+          .insert({
+            id: reportId,
+            reporter_id: reporterId,
+            reported_user_id: reportedUserId,
+            reason,
+            details: details || null,
+            message_ids: messageIds,
+            evidence_ids: evidenceIds,
+            status: 'open',
+            created_at: now,
+          });
+        if (error) throw error;
       }
 
-      const sb = getSupabase();
-      const { data: memberRows, error: memberError } = await sb
-        .from('matches')
-        .select('id')
-        .eq('id', matchId)
-        .or(`user_a_id.eq.${senderId},user_b_id.eq.${senderId}`)
-        .limit(1);
-      if (memberError) throw memberError;
-      if (!memberRows || memberRows.length === 0) {
-        return res.status(403).json({ error: "Forbidden" });
-      }
+      res.status(201).json({ id: reportId, reportedUserId, reason, status: "open", createdAt: now });
+    } catch (error) {
+      console.error("Submit report error:", error);
+      res.status(500).json({ error: "Failed to submit report" });
+    }
+  });
 
-      const { data, error } = await sb
-        .from('chat_messages')
-        .insert({
-          id: msgId,
-          match_id: matchId,
-          sender_id: senderId,
-          content: content || '',
-          type: type || 'text',
-          photo_url: photoUrl || null,
-          file_url: fileUrl || null,
-          file_name: fileName || null,
-          audio_url: audioUrl || null,
-          audio_duration: audioDuration || null,
-          reply_to: replyTo || null,
-          location: location || null,
-          reactions: {},
-          status: 'sent',
-          created_at: now,
-        })
-        .select()
-        .single();
-      if (error) throw error;
-      res.status(201).json(data);
+  // ==================== LIVE LOCATION SHARING ====================
+
+  // Public, read-only view for people without the app; the unguessable token is the only credential
+  app.get("/api/location-shares/view/:token", async (req: Request, res: Response) => {
+    try {
+      const share = await loadLocationShare("token", String(req.params.token));
+      if (!share) return res.status(404).json({ error: "Location share not found" });
+      const mapped = mapLocationShareRow(share);
+      if (mapped.status !== "active") {
+        return res.status(410).json({ error: "This location share has ended", status: mapped.status, endedAt: mapped.endedAt || mapped.expiresAt });
+      }
+      res.json(mapped);
     } catch (error) {
-      console.error("Failed to send message:", error);
-      res.status(500).json({ error: "Failed to send message" });
+      console.error("View location share error:", error);
+      res.status(500).json({ error: "Failed to load location share" });
     }
   });
 
-  app.patch("/api/messages/:messageId", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
-    const { messageId } = req.params;
-    const { content, userId } = req.body;
-
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
-    }
+  app.get("/share/location/:token", (_req: Request, res: Response) => {
+    res.sendFile(path.join(__dirname, "templates", "location-share.html"));
+  });
 
+  app.get("/api/location-shares/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
     try {
+      const userId = String(req.params.userId);
+      const now = new Date().toISOString();
+      let rows: any[] = [];
       if (pgPool) {
-        const ownerRes = await pgPool.query(`SELECT sender_id FROM chat_messages WHERE id = $1 LIMIT 1`, [messageId]);
-        if (!ownerRes.rowCount) {
-          return res.status(404).json({ error: "Message not found" });
-        }
-        if (String(ownerRes.rows[0].sender_id) !== String(userId)) {
-          return res.status(403).json({ error: "Forbidden" });
-        }
-
         const result = await pgPool.query(
-          `UPDATE chat_messages SET content = $1, edited_at = NOW() WHERE id = $2 RETURNING *`,
-          [content, messageId]
+          `SELECT s.*, p.name AS sharer_name
+           FROM location_shares s
+           LEFT JOIN user_profiles p ON p.id = s.sharer_id
+           WHERE (s.sharer_id = $1 OR s.viewer_user_id = $1) AND s.status = 'active' AND s.expires_at > $2
+           ORDER BY s.started_at DESC`,
+          [userId, now]
         );
-        if (!result.rowCount) {
-          return res.status(404).json({ error: "Message not found" });
-        }
-        return res.json(result.rows[0]);
+        rows = result.rows;
+      } else {
+        const sb = getSupabase();
+        const { data, error } = await sb
+          .from('location_shares')
+          .select('*')
+          .or(`sharer_id.eq.${userId},viewer_user_id.eq.${userId}`)
+          .eq('status', 'active')
+          .gt('expires_at', now)
+          .order('started_at', { ascending: false });
+        if (error) throw error;
+        const sharerIds = Array.from(new Set((data || []).map((row: any) => String(row.sharer_id))));
+        const { data: profiles } = sharerIds.length > 0
+          ? await sb.from('user_profiles').select('id, name').in('id', sharerIds)
+          : { data: [] as any[] };
+        const nameById = new Map((profiles || []).map((p: any) => [String(p.id), p.name]));
+        rows = (data || []).map((row: any) => ({ ...row, sharer_name: nameById.get(String(row.sharer_id)) || null }));
       }
 
-      const sb = getSupabase();
-      const { data: ownerRow, error: ownerErr } = await sb
-        .from('chat_messages')
-        .select('sender_id')
-        .eq('id', messageId)
-        .single();
-      if (ownerErr) {
-        if (ownerErr.code === 'PGRST116') {
-          return res.status(404).json({ error: "Message not found" });
+      res.json(rows.map((row) => mapLocationShareRow(row, userId)));
+    } catch (error) {
+      console.error("Get location shares error:", error);
+      res.status(500).json({ error: "Failed to get location shares" });
+    }
+  });
+
+  app.post("/api/location-shares", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const userId = String(req.body?.userId || "");
+    const matchId = String(req.body?.matchId || "").trim();
+    const contactName = String(req.body?.contactName || "").trim().slice(0, 120);
+    const durationMinutes = Number(req.body?.durationMinutes);
+
+    if (!LOCATION_SHARE_DURATIONS_MINUTES.includes(durationMinutes)) {
+      return res.status(400).json({ error: `durationMinutes must be one of: ${LOCATION_SHARE_DURATIONS_MINUTES.join(", ")}` });
+    }
+    if (!matchId && !contactName) {
+      return res.status(400).json({ error: "matchId or contactName is required" });
+    }
+
+    try {
+      let viewerUserId: string | null = null;
+      if (matchId) {
+        viewerUserId = await loadMatchPartnerId(matchId, userId);
+        if (!viewerUserId) return res.status(403).json({ error: "Forbidden" });
+        if (await isBlockedBetween(userId, viewerUserId)) {
+          return res.status(403).json({ error: "Location sharing is unavailable for this conversation" });
         }
-        throw ownerErr;
-      }
-      if (String(ownerRow?.sender_id || '') !== String(userId)) {
-        return res.status(403).json({ error: "Forbidden" });
       }
 
-      const { data, error } = await sb
-        .from('chat_messages')
-        .update({ content, edited_at: new Date().toISOString() })
-        .eq('id', messageId)
-        .select()
-        .single();
+      const lat = Number(req.body?.location?.latitude);
+      const lng = Number(req.body?.location?.longitude);
+      const hasLocation = Number.isFinite(lat) && Number.isFinite(lng);
+      const now = new Date();
+      const row = {
+        id: `share_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        sharer_id: userId,
+        match_id: matchId || null,
+        viewer_user_id: viewerUserId,
+        contact_name: contactName || null,
+        token: randomBytes(24).toString("base64url"),
+        status: "active",
+        started_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + durationMinutes * 60 * 1000).toISOString(),
+        last_lat: hasLocation ? lat : null,
+        last_lng: hasLocation ? lng : null,
+        last_accuracy: hasLocation && Number.isFinite(Number(req.body?.location?.accuracy)) ? Number(req.body.location.accuracy) : null,
+        last_updated_at: hasLocation ? now.toISOString() : null,
+      };
 
-      if (error) {
-        if (error.code === 'PGRST116') {
-          return res.status(404).json({ error: "Message not found" });
-        }
-        throw error;
+      if (pgPool) {
+        await pgPool.query(
+          `INSERT INTO location_shares (
+              id, sharer_id, match_id, viewer_user_id, contact_name, token, status,
+              started_at, expires_at, last_lat, last_lng, last_accuracy, last_updated_at, created_at
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW())`,
+          [row.id, row.sharer_id, row.match_id, row.viewer_user_id, row.contact_name, row.token, row.status,
+            row.started_at, row.expires_at, row.last_lat, row.last_lng, row.last_accuracy, row.last_updated_at]
+        );
+      } else {
+        const { error } = await getSupabase().from('location_shares').insert(row);
+        if (error) throw error;
       }
 
-      res.json(data);
+      const share = mapLocationShareRow(row, userId);
+      if (viewerUserId) {
+        publish(`user:${viewerUserId}`, { type: "location-share.started", share: mapLocationShareRow(row) });
+      }
+      res.status(201).json({ ...share, viewUrl: `${getPublicBaseUrl(req)}/share/location/${row.token}` });
     } catch (error) {
-      console.error("Failed to edit message:", error);
-      res.status(500).json({ error: "Failed to edit message" });
+      console.error("Start location share error:", error);
+      res.status(500).json({ error: "Failed to start location share" });
     }
   });
 
-  app.delete("/api/messages/:messageId", requireUserSession((req) => req.query.userId), async (req: Request, res: Response) => {
-    const { messageId } = req.params;
-    const userId = Array.isArray(req.query.userId) ? String(req.query.userId[0] || "") : String(req.query.userId || "");
-    if (!userId) {
-      return res.status(400).json({ error: "userId is required" });
+  app.post("/api/location-shares/:shareId/location", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const userId = String(req.body?.userId || "");
+    const shareId = String(req.params.shareId);
+    const lat = Number(req.body?.latitude);
+    const lng = Number(req.body?.longitude);
+    const accuracy = Number(req.body?.accuracy);
+
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return res.status(400).json({ error: "Valid latitude and longitude are required" });
     }
 
     try {
-      if (pgPool) {
-        const ownerRes = await pgPool.query(`SELECT sender_id FROM chat_messages WHERE id = $1 LIMIT 1`, [messageId]);
-        if (!ownerRes.rowCount) {
-          return res.status(404).json({ error: "Message not found" });
-        }
-        if (String(ownerRes.rows[0].sender_id) !== String(userId)) {
-          return res.status(403).json({ error: "Forbidden" });
-        }
+      const share = await loadLocationShare("id", shareId);
+      if (!share || String(share.sharer_id) !== userId) {
+        return res.status(404).json({ error: "Location share not found" });
+      }
+      // Expired shares reject updates so the sharer's device stops streaming
+      if (!isLocationShareLive(share)) {
+        return res.status(410).json({ error: "This location share has ended" });
+      }
 
-        const result = await pgPool.query(`DELETE FROM chat_messages WHERE id = $1 RETURNING id`, [messageId]);
-        if (!result.rowCount) {
-          return res.status(404).json({ error: "Message not found" });
-        }
-        return res.json({ success: true });
+      const update = {
+        last_lat: lat,
+        last_lng: lng,
+        last_accuracy: Number.isFinite(accuracy) ? accuracy : null,
+        last_updated_at: new Date().toISOString(),
+      };
+      if (pgPool) {
+        await pgPool.query(
+          `UPDATE location_shares SET last_lat = $1, last_lng = $2, last_accuracy = $3, last_updated_at = $4 WHERE id = $5`,
+          [update.last_lat, update.last_lng, update.last_accuracy, update.last_updated_at, shareId]
+        );
+      } else {
+        const { error } = await getSupabase().from('location_shares').update(update).eq('id', shareId);
+        if (error) throw error;
       }
 
-      const sb = getSupabase();
-      const { data: ownerRows, error: ownerError } = await sb
-        .from('chat_messages')
-        .select('sender_id')
-        .eq('id', messageId)
-        .limit(1);
-      if (ownerError) throw ownerError;
-      if (!ownerRows || ownerRows.length === 0) {
-        return res.status(404).json({ error: "Message not found" });
+      const mapped = mapLocationShareRow({ ...share, ...update });
+      publish(`location-share:${shareId}`, { type: "location-share.updated", share: mapped });
+      res.json(mapped);
+    } catch (error) {
+      console.error("Update location share error:", error);
+      res.status(500).json({ error: "Failed to update location" });
+    }
+  });
+
+  app.post("/api/location-shares/:shareId/end", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
+    const userId = String(req.body?.userId || "");
+    const shareId = String(req.params.shareId);
+
+    try {
+      const share = await loadLocationShare("id", shareId);
+      if (!share || String(share.sharer_id) !== userId) {
+        return res.status(404).json({ error: "Location share not found" });
       }
-      if (String(ownerRows[0].sender_id) !== String(userId)) {
-        return res.status(403).json({ error: "Forbidden" });
+
+      const endedAt = new Date().toISOString();
+      if (share.status === "active") {
+        if (pgPool) {
+          await pgPool.query(`UPDATE location_shares SET status = 'ended', ended_at = $1 WHERE id = $2`, [endedAt, shareId]);
+        } else {
+          const { error } = await getSupabase()
+            .from('location_shares')
+            .update({ status: 'ended', ended_at: endedAt })
+            .eq('id', shareId);
+          if (error) throw error;
+        }
       }
 
-      const { data, error } = await sb
-        .from('chat_messages')
-        .delete()
-        .eq('id', messageId)
-        .select('id');
+      const mapped = mapLocationShareRow({ ...share, status: "ended", ended_at: share.ended_at || endedAt }, userId);
+      publish(`location-share:${shareId}`, { type: "location-share.ended", share: mapLocationShareRow({ ...share, status: "ended", ended_at: mapped.endedAt }) });
+      res.json(mapped);
+    } catch (error) {
+      console.error("End location share error:", error);
+      res.status(500).json({ error: "Failed to end location share" });
+    }
+  });
 
-      if (error) throw error;
-      if (!data || data.length === 0) {
-        return res.status(404).json({ error: "Message not found" });
+  // ==================== MODERATION ====================
+
+  app.get("/api/moderation/reports", requireRole(["moderator", "admin"]), async (req: Request, res: Response) => {
+    if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+    const status = String(req.query.status || "open");
+    if (status !== "all" && !(REPORT_STATUSES as readonly string[]).includes(status)) {
+      return res.status(400).json({ error: `status must be one of: all, ${REPORT_STATUSES.join(", ")}` });
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+    try {
+      // Open reports are worked oldest first; resolved ones are browsed newest first
+      const result = await pgPool.query(
+        `SELECT r.*, rp.name AS reporter_name, tp.name AS reported_name, tp.photos AS reported_photos,
+                (SELECT COUNT(*) FROM user_reports pr
+                 WHERE pr.reported_user_id = r.reported_user_id AND pr.id <> r.id)::int AS prior_report_count
+         FROM user_reports r
+         LEFT JOIN user_profiles rp ON rp.id = r.reporter_id
+         LEFT JOIN user_profiles tp ON tp.id = r.reported_user_id
+         WHERE ($1 = 'all' OR r.status = $1)
+         ORDER BY CASE WHEN $1 = 'open' THEN r.created_at END ASC, r.created_at DESC
+         LIMIT $2`,
+        [status, limit]
+      );
+      res.json(result.rows.map(mapReportRow));
+    } catch (error) {
+      console.error("Get moderation queue error:", error);
+      res.status(500).json({ error: "Failed to get reports" });
+    }
+  });
+
+  app.get("/api/moderation/reports/:reportId", requireRole(["moderator", "admin"]), async (req: Request, res: Response) => {
+    if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+    try {
+      const reportId = String(req.params.reportId);
+      const reportResult = await pgPool.query(
+        `SELECT r.*, rp.name AS reporter_name
+         FROM user_reports r
+         LEFT JOIN user_profiles rp ON rp.id = r.reporter_id
+         WHERE r.id = $1
+         LIMIT 1`,
+        [reportId]
+      );
+      if (!reportResult.rowCount) {
+        return res.status(404).json({ error: "Report not found" });
       }
+      const report = mapReportRow(reportResult.rows[0]);
 
-      res.json({ success: true });
+      const [profileResult, priorResult, actionsResult, messages] = await Promise.all([
+        pgPool.query(
+          `SELECT p.*, u.role, u.account_status, u.suspended_until
+           FROM user_profiles p
+           LEFT JOIN app_users u ON u.id::text = p.id
+           WHERE p.id = $1
+           LIMIT 1`,
+          [report.reportedUserId]
+        ),
+        pgPool.query(
+          `SELECT r.*, rp.name AS reporter_name
+           FROM user_reports r
+           LEFT JOIN user_profiles rp ON rp.id = r.reporter_id
+           WHERE r.reported_user_id = $1 AND r.id <> $2
+           ORDER BY r.created_at DESC
+           LIMIT 50`,
+          [report.reportedUserId, reportId]
+        ),
+        pgPool.query(
+          `SELECT a.*, mp.name AS moderator_name
+           FROM moderation_actions a
+           LEFT JOIN user_profiles mp ON mp.id = a.moderator_id
+           WHERE a.target_user_id = $1
+           ORDER BY a.created_at DESC
+           LIMIT 100`,
+          [report.reportedUserId]
+        ),
+        loadReportedMessages(report.messageIds, report.reporterId, report.reportedUserId),
+      ]);
+
+      const profile = profileResult.rows[0];
+      res.json({
+        report,
+        reportedUser: profile
+          ? {
+              id: String(profile.id),
+              name: profile.name || "Nomad",
+              email: profile.email || null,
+              age: profile.age || null,
+              bio: profile.bio || "",
+              location: profile.location || "",
+              photos: Array.isArray(profile.photos) ? profile.photos : [],
+              interests: Array.isArray(profile.interests) ? profile.interests : [],
+              role: profile.role || "user",
+              accountStatus: profile.account_status || "active",
+              suspendedUntil: profile.suspended_until || null,
+              createdAt: profile.created_at,
+            }
+          : null,
+        messages,
+        priorReports: priorResult.rows.map(mapReportRow),
+        actions: actionsResult.rows.map(mapModerationActionRow),
+      });
     } catch (error) {
-      console.error("Failed to delete message:", error);
-      res.status(500).json({ error: "Failed to delete message" });
+      console.error("Get moderation report error:", error);
+      res.status(500).json({ error: "Failed to get report" });
     }
   });
 
-  app.patch("/api/messages/:messageId/reactions", requireUserSession((req) => req.body?.userId), async (req: Request, res: Response) => {
-    const { messageId } = req.params;
-    const { userId, emoji } = req.body;
+  app.post("/api/moderation/actions", requireRole(["moderator", "admin"]), async (req: Request, res: Response) => {
+    if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+    const moderatorId = String(res.locals.moderatorId);
+    const moderatorRole = res.locals.moderatorRole as UserRole;
+    const action = String(req.body?.action || "") as ModerationAction;
+    const reportId = String(req.body?.reportId || "").trim();
+    const note = String(req.body?.note || "").trim().slice(0, 2000);
 
-    if (!userId || !emoji) {
-      return res.status(400).json({ error: "userId and emoji are required" });
+    if (!MODERATION_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of: ${MODERATION_ACTIONS.join(", ")}` });
+    }
+    if (action === "dismiss" && !reportId) {
+      return res.status(400).json({ error: "reportId is required to dismiss a report" });
     }
 
     try {
-      if (pgPool) {
-        const msgRes = await pgPool.query(`SELECT reactions, match_id FROM chat_messages WHERE id = $1 LIMIT 1`, [messageId]);
-        if (!msgRes.rowCount) {
-          return res.status(404).json({ error: "Message not found" });
+      let targetUserId = String(req.body?.targetUserId || "").trim();
+      if (reportId) {
+        const reportResult = await pgPool.query(`SELECT reported_user_id, status FROM user_reports WHERE id = $1 LIMIT 1`, [reportId]);
+        if (!reportResult.rowCount) {
+          return res.status(404).json({ error: "Report not found" });
         }
-
-        const matchId = String(msgRes.rows[0].match_id || "");
-        const membership = await pgPool.query(
-          `SELECT id FROM matches WHERE id = $1 AND (user_a_id = $2 OR user_b_id = $2) LIMIT 1`,
-          [matchId, userId]
-        );
-        if (!membership.rowCount) {
-          return res.status(403).json({ error: "Forbidden" });
+        if (reportResult.rows[0].status !== "open") {
+          return res.status(409).json({ error: "Report has already been resolved" });
         }
+        targetUserId = String(reportResult.rows[0].reported_user_id);
+      }
+      if (!targetUserId) {
+        return res.status(400).json({ error: "reportId or targetUserId is required" });
+      }
+      if (targetUserId === moderatorId) {
+        return res.status(400).json({ error: "You cannot moderate your own account" });
+      }
+      // Only admins may sanction other staff
+      if (moderatorRole !== "admin" && (await loadUserRole(targetUserId)) !== "user") {
+        return res.status(403).json({ error: "Forbidden" });
+      }
 
-        const reactions: Record<string, string[]> = msgRes.rows[0].reactions || {};
-        const current = new Set(reactions[emoji] || []);
+      let expiresAt: string | null = null;
+      if (action === "suspend") {
+        const hours = Math.min(Math.max(Number(req.body?.durationHours) || DEFAULT_SUSPENSION_HOURS, 1), MAX_SUSPENSION_HOURS);
+        expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+      }
 
-        if (current.has(userId)) {
-          current.delete(userId);
-        } else {
-          current.add(userId);
-        }
+      const actionId = `modaction_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+      const now = new Date().toISOString();
+      const accountStatus = action === "suspend" ? "suspended" : action === "ban" ? "banned" : action === "reinstate" ? "active" : null;
 
-        if (current.size === 0) {
-          delete reactions[emoji];
-        } else {
-          reactions[emoji] = Array.from(current);
+      // Resolving the report claims it, so when two moderators act on the same report only the first one lands
+      const client = await pgPool.connect();
+      try {
+        await client.query("BEGIN");
+        if (reportId) {
+          const claimed = await client.query(
+            `UPDATE user_reports SET status = $1, resolved_by = $2, resolved_at = $3
+             WHERE id = $4 AND status = 'open'
+             RETURNING id`,
+            [action === "dismiss" ? "dismissed" : "actioned", moderatorId, now, reportId]
+          );
+          if (!claimed.rowCount) {
+            await client.query("ROLLBACK");
+            return res.status(409).json({ error: "Report has already been resolved" });
+          }
+        }
+        await client.query(
+          `INSERT INTO moderation_actions (id, report_id, target_user_id, moderator_id, action, note, expires_at, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+          [actionId, reportId || null, targetUserId, moderatorId, action, note || null, expiresAt, now]
+        );
+        if (accountStatus) {
+          await client.query(
+            `UPDATE app_users SET account_status = $1, suspended_until = $2 WHERE id::text = $3`,
+            [accountStatus, expiresAt, targetUserId]
+          );
         }
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK").catch(() => {});
+        throw error;
+      } finally {
+        client.release();
+      }
 
-        await pgPool.query(`UPDATE chat_messages SET reactions = $1::jsonb WHERE id = $2`, [JSON.stringify(reactions), messageId]);
-        return res.json({ id: messageId, reactions });
+      if (accountStatus) {
+        setAccountRestriction(targetUserId, accountStatus, expiresAt);
       }
 
-      const sb = getSupabase();
-      const { data: msgData, error: getError } = await sb
-        .from('chat_messages')
-        .select('reactions, match_id')
-        .eq('id', messageId)
-        .single();
+      res.status(201).json(mapModerationActionRow({
+        id: actionId,
+        report_id: reportId || null,
+        target_user_id: targetUserId,
+        moderator_id: moderatorId,
+        action,
+        note,
+        expires_at: expiresAt,
+        created_at: now,
+      }));
+    } catch (error) {
+      console.error("Moderation action error:", error);
+      res.status(500).json({ error: "Failed to record moderation action" });
+    }
+  });
 
-      if (getError) {
-        if (getError.code === 'PGRST116') {
-          return res.status(404).json({ error: "Message not found" });
-        }
-        throw getError;
-      }
+  app.get("/api/moderation/actions", requireRole(["moderator", "admin"]), async (req: Request, res: Response) => {
+    if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+    const targetUserId = String(req.query.targetUserId || "").trim();
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
 
-      const reactions: Record<string, string[]> = msgData.reactions || {};
-      const current = new Set(reactions[emoji] || []);
+    try {
+      const result = await pgPool.query(
+        `SELECT a.*, mp.name AS moderator_name
+         FROM moderation_actions a
+         LEFT JOIN user_profiles mp ON mp.id = a.moderator_id
+         WHERE ($1 = '' OR a.target_user_id = $1)
+         ORDER BY a.created_at DESC
+         LIMIT $2`,
+        [targetUserId, limit]
+      );
+      res.json(result.rows.map(mapModerationActionRow));
+    } catch (error) {
+      console.error("Get moderation actions error:", error);
+      res.status(500).json({ error: "Failed to get moderation actions" });
+    }
+  });
 
-      if (current.has(userId)) {
-        current.delete(userId);
-      } else {
-        current.add(userId);
-      }
+  app.put("/api/moderation/users/:userId/role", requireRole(["admin"]), async (req: Request, res: Response) => {
+    if (!pgPool) return res.status(500).json({ error: "Database is not configured" });
+    const moderatorId = String(res.locals.moderatorId);
+    const userId = String(req.params.userId);
+    const role = String(req.body?.role || "") as UserRole;
 
-      if (current.size === 0) {
-        delete reactions[emoji];
-      } else {
-        reactions[emoji] = Array.from(current);
+    if (!USER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${USER_ROLES.join(", ")}` });
+    }
+    if (userId === moderatorId) {
+      return res.status(400).json({ error: "You cannot change your own role" });
+    }
+
+    try {
+      const result = await pgPool.query(`UPDATE app_users SET role = $1 WHERE id::text = $2 RETURNING id`, [role, userId]);
+      if (!result.rowCount) {
+        return res.status(404).json({ error: "User not found" });
       }
 
-      const { error: updateError } = await sb
-        .from('chat_messages')
-        .update({ reactions })
-        .eq('id', messageId);
-      if (updateError) throw updateError;
+      await pgPool.query(
+        `INSERT INTO moderation_actions (id, report_id, target_user_id, moderator_id, action, note, created_at)
+         VALUES ($1, NULL, $2, $3, 'role_change', $4, NOW())`,
+        [`modaction_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`, userId, moderatorId, `role set to ${role}`]
+      );
 
-      res.json({ id: messageId, reactions });
+      res.json({ userId, role });
     } catch (error) {
-      console.error("Failed to toggle reaction:", error);
-      res.status(500).json({ error: "Failed to toggle reaction" });
+      console.error("Update role error:", error);
+      res.status(500).json({ error: "Failed to update role" });
+    }
+  });
+
+  // ==================== PRESENCE ====================
+
+  app.get("/api/presence/:userId", requireUserSession((req) => req.params.userId), async (req: Request, res: Response) => {
+    try {
+      const userId = String(req.params.userId);
+      const blockedIds = await loadBlockedUserIds(userId);
+      const partners = (await loadMatchPartners(userId)).filter(({ partnerId }) => !blockedIds.has(partnerId));
+      const partnerIds = Array.from(new Set(partners.map((p) => p.partnerId)));
+      const [privacyByUser, lastSeenByUser, hiddenIds] = await Promise.all([
+        loadPresencePrivacy(partnerIds),
+        loadLastSeen(partnerIds),
+        loadRadarHiddenUserIds(userId, partnerIds),
+      ]);
+
+      // Partners hidden from this user by their radar rules read the same as invisible ones, as in broadcastPresence
+      res.json(
+        partners.map(({ matchId, partnerId }) => ({
+          matchId,
+          ...(hiddenIds.has(partnerId)
+            ? buildPresenceState(partnerId, { isVisible: false, hideLastSeen: true }, undefined)
+            : buildPresenceState(partnerId, privacyByUser.get(partnerId), lastSeenByUser.get(partnerId))),
+        }))
+      );
+    } catch (error) {
+      console.error("Get presence error:", error);
+      res.status(500).json({ error: "Failed to get presence" });
     }
   });
 
@@ -6154,6 +12651,16 @@ Scoring rules:
   });
 
   const httpServer = createServer(app);
+  attachRealtimeGateway(httpServer, {
+    path: "/api/realtime",
+    verifyToken: verifySessionToken,
+    getRestriction: (userId) => {
+      const restriction = getActiveRestriction(userId);
+      return restriction ? describeRestriction(restriction) : null;
+    },
+    authorizeChannel: authorizeRealtimeChannel,
+    onPresenceChange: handlePresenceChange,
+  });
 
   return httpServer;
 }
@@ -41,6 +41,8 @@ export const activities = pgTable("activities", {
   description: text("description"),
   category: text("category").notNull(),
   date: timestamp("date").notNull(),
+  endDate: timestamp("end_date"),
+  seriesId: varchar("series_id"),
   location: text("location").notNull(),
   latitude: text("latitude"),
   longitude: text("longitude"),
@@ -48,7 +50,10 @@ export const activities = pgTable("activities", {
   hostData: jsonb("host_data").notNull(),
   attendeeIds: jsonb("attendee_ids").notNull().default([]),
   attendeesData: jsonb("attendees_data").notNull().default([]),
-  maxAttendees: text("max_attendees"),
+  maxAttendees: integer("max_attendees"),
+  waitlistIds: jsonb("waitlist_ids").notNull().default([]),
+  waitlistData: jsonb("waitlist_data").notNull().default([]),
+  rosterVersion: integer("roster_version").notNull().default(0),
   imageUrl: text("image_url"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -102,6 +107,7 @@ export const userProfiles = pgTable("user_profiles", {
   radarScansThisWeek: integer("radar_scans_this_week").default(0),
   lastResetTimestamp: bigint("last_reset_timestamp", { mode: "number" }).default(0),
   isVisibleOnRadar: boolean("is_visible_on_radar").default(true),
+  hideLastSeen: boolean("hide_last_seen").default(false),
   isTravelVerified: boolean("is_travel_verified").default(false),
   travelBadge: text("travel_badge"),
   isExpert: boolean("is_expert").default(false),
@@ -199,6 +205,11 @@ export const userLocations = pgTable("user_locations", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const userPresence = pgTable("user_presence", {
+  userId: varchar("user_id").primaryKey(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+});
+
 export const consultationBookings = pgTable("consultation_bookings", {
   id: varchar("id")
     .primaryKey()
@@ -250,6 +261,7 @@ export type UserProfile = typeof userProfiles.$inferSelect;
 export type CompatibilityResult = typeof compatibilityHistory.$inferSelect;
 export type RadarChatRequest = typeof radarChatRequests.$inferSelect;
 export type UserLocation = typeof userLocations.$inferSelect;
+export type UserPresence = typeof userPresence.$inferSelect;
 export type TravelVerification = typeof travelVerification.$inferSelect;
 export type ExpertApplication = typeof expertApplications.$inferSelect;
 export type ConsultationBooking = typeof consultationBookings.$inferSelect;